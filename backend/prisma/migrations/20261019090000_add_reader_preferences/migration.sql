@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN     "doublePageShift" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "imageGap" INTEGER NOT NULL DEFAULT 4,
+ADD COLUMN     "imageOrientation" TEXT NOT NULL DEFAULT 'vertical',
+ADD COLUMN     "showHeader" BOOLEAN NOT NULL DEFAULT false;
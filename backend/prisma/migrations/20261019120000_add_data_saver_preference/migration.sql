@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN     "dataSaver" BOOLEAN NOT NULL DEFAULT false;
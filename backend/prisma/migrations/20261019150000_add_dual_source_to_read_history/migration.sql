@@ -0,0 +1,14 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[userId,externalMangaId]` on the table `read_history` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE "read_history" ADD COLUMN     "externalChapterId" TEXT,
+ADD COLUMN     "externalMangaId" TEXT,
+ADD COLUMN     "mangaSource" "MangaSourceType" NOT NULL DEFAULT 'LOCAL',
+ALTER COLUMN "mangaId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "read_history_userId_externalMangaId_key" ON "read_history"("userId", "externalMangaId");
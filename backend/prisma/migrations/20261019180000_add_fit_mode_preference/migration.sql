@@ -0,0 +1,15 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `imageOrientation` on the `UserPreferences` table. Existing values are carried over to `fitMode` first.
+
+*/
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN     "customZoom" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN     "fitMode" TEXT NOT NULL DEFAULT 'auto';
+
+-- "Fit horizontal" made pages fill the screen height
+UPDATE "UserPreferences" SET "fitMode" = 'height' WHERE "imageOrientation" = 'horizontal';
+
+-- AlterTable
+ALTER TABLE "UserPreferences" DROP COLUMN "imageOrientation";
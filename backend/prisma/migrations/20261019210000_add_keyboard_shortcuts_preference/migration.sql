@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserPreferences" ADD COLUMN     "keyboardShortcuts" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."page_bookmarks" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mangaId" TEXT,
+    "externalMangaId" TEXT,
+    "mangaSource" "public"."MangaSourceType" NOT NULL DEFAULT 'LOCAL',
+    "externalChapterId" TEXT,
+    "chapterNumber" DOUBLE PRECISION,
+    "pageNumber" INTEGER NOT NULL,
+    "note" TEXT,
+    "mangaTitle" TEXT,
+    "chapterTitle" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "page_bookmarks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "page_bookmarks_userId_createdAt_idx" ON "public"."page_bookmarks"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "page_bookmarks_userId_externalMangaId_idx" ON "public"."page_bookmarks"("userId", "externalMangaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_bookmarks_userId_externalChapterId_pageNumber_key" ON "public"."page_bookmarks"("userId", "externalChapterId", "pageNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_bookmarks_userId_mangaId_chapterNumber_pageNumber_key" ON "public"."page_bookmarks"("userId", "mangaId", "chapterNumber", "pageNumber");
+
+-- AddForeignKey
+ALTER TABLE "public"."page_bookmarks" ADD CONSTRAINT "page_bookmarks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."page_bookmarks" ADD CONSTRAINT "page_bookmarks_mangaId_fkey" FOREIGN KEY ("mangaId") REFERENCES "public"."submitted_manga"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."chapter_history" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mangaId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "mangaTitle" TEXT NOT NULL,
+    "chapterNumber" TEXT,
+    "chapterTitle" TEXT,
+    "volume" TEXT,
+    "translatedLanguage" TEXT NOT NULL,
+    "externalUrl" TEXT,
+    "scanlationGroups" JSONB NOT NULL DEFAULT '[]',
+    "coverUrl" TEXT,
+    "readAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chapter_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chapter_history_userId_readAt_idx" ON "public"."chapter_history"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "chapter_history_userId_mangaId_idx" ON "public"."chapter_history"("userId", "mangaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_history_userId_chapterId_key" ON "public"."chapter_history"("userId", "chapterId");
+
+-- AddForeignKey
+ALTER TABLE "public"."chapter_history" ADD CONSTRAINT "chapter_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."chapter_read_markers" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mangaId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chapter_read_markers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chapter_read_markers_userId_mangaId_idx" ON "public"."chapter_read_markers"("userId", "mangaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_read_markers_userId_chapterId_key" ON "public"."chapter_read_markers"("userId", "chapterId");
+
+-- AddForeignKey
+ALTER TABLE "public"."chapter_read_markers" ADD CONSTRAINT "chapter_read_markers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
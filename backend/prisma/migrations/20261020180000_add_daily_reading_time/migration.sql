@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."daily_reading_time" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "seconds" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "daily_reading_time_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_reading_time_userId_day_key" ON "public"."daily_reading_time"("userId", "day");
+
+-- AddForeignKey
+ALTER TABLE "public"."daily_reading_time" ADD CONSTRAINT "daily_reading_time_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
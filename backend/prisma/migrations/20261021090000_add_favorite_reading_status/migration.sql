@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "ReadingStatus" AS ENUM ('READING', 'PLAN_TO_READ', 'COMPLETED', 'ON_HOLD', 'DROPPED');
+
+-- AlterTable
+ALTER TABLE "favorites" ADD COLUMN     "status" "ReadingStatus" NOT NULL DEFAULT 'READING';
+
+-- CreateIndex
+CREATE INDEX "favorites_userId_status_idx" ON "favorites"("userId", "status");
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "public"."ListVisibility" AS ENUM ('PRIVATE', 'UNLISTED', 'PUBLIC');
+
+-- CreateTable
+CREATE TABLE "public"."custom_lists" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "visibility" "public"."ListVisibility" NOT NULL DEFAULT 'PRIVATE',
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "custom_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."custom_list_items" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "mangaId" TEXT,
+    "externalMangaId" TEXT,
+    "mangaSource" "public"."MangaSourceType" NOT NULL DEFAULT 'LOCAL',
+    "position" INTEGER NOT NULL,
+    "mangaTitle" TEXT,
+    "coverUrl" TEXT,
+    "addedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "custom_list_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "custom_lists_userId_updatedAt_idx" ON "public"."custom_lists"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "custom_lists_visibility_updatedAt_idx" ON "public"."custom_lists"("visibility", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "custom_list_items_listId_position_idx" ON "public"."custom_list_items"("listId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_list_items_listId_mangaId_key" ON "public"."custom_list_items"("listId", "mangaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_list_items_listId_externalMangaId_key" ON "public"."custom_list_items"("listId", "externalMangaId");
+
+-- AddForeignKey
+ALTER TABLE "public"."custom_lists" ADD CONSTRAINT "custom_lists_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."custom_list_items" ADD CONSTRAINT "custom_list_items_listId_fkey" FOREIGN KEY ("listId") REFERENCES "public"."custom_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."custom_list_items" ADD CONSTRAINT "custom_list_items_mangaId_fkey" FOREIGN KEY ("mangaId") REFERENCES "public"."submitted_manga"("id") ON DELETE CASCADE ON UPDATE CASCADE;
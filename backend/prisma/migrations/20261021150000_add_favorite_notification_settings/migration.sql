@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "favorites" ADD COLUMN     "notificationsMuted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "notifyLanguages" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "notifyGroupIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
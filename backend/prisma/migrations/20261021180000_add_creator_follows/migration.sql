@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'GROUP_UPLOAD';
+ALTER TYPE "public"."NotificationType" ADD VALUE 'NEW_TITLE';
+
+-- CreateEnum
+CREATE TYPE "public"."CreatorType" AS ENUM ('MANGADEX_GROUP', 'LOCAL_GROUP', 'AUTHOR');
+
+-- CreateTable
+CREATE TABLE "public"."creator_follows" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creatorType" "public"."CreatorType" NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "name" TEXT,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "creator_follows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "creator_follows_userId_creatorType_creatorId_key" ON "public"."creator_follows"("userId", "creatorType", "creatorId");
+
+-- CreateIndex
+CREATE INDEX "creator_follows_creatorType_creatorId_idx" ON "public"."creator_follows"("creatorType", "creatorId");
+
+-- AddForeignKey
+ALTER TABLE "public"."creator_follows" ADD CONSTRAINT "creator_follows_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "public"."reviews" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mangaId" TEXT NOT NULL,
+    "sourceType" "public"."MangaSourceType" NOT NULL DEFAULT 'MANGADEX',
+    "score" INTEGER NOT NULL,
+    "content" TEXT,
+    "isSpoiler" BOOLEAN NOT NULL DEFAULT false,
+    "helpfulCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ NOT NULL,
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."review_votes" (
+    "reviewId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_votes_pkey" PRIMARY KEY ("reviewId","userId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_userId_sourceType_mangaId_key" ON "public"."reviews"("userId", "sourceType", "mangaId");
+
+-- CreateIndex
+CREATE INDEX "reviews_sourceType_mangaId_helpfulCount_idx" ON "public"."reviews"("sourceType", "mangaId", "helpfulCount");
+
+-- CreateIndex
+CREATE INDEX "review_votes_userId_idx" ON "public"."review_votes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."reviews" ADD CONSTRAINT "reviews_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."review_votes" ADD CONSTRAINT "review_votes_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "public"."reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."review_votes" ADD CONSTRAINT "review_votes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."chapter_reads" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mangaId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "mangaTitle" TEXT NOT NULL,
+    "translatedLanguage" TEXT NOT NULL,
+    "coverUrl" TEXT,
+    "readAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chapter_reads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chapter_reads_userId_readAt_idx" ON "public"."chapter_reads"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "chapter_reads_userId_mangaId_idx" ON "public"."chapter_reads"("userId", "mangaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chapter_reads_userId_chapterId_readAt_key" ON "public"."chapter_reads"("userId", "chapterId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."chapter_reads" ADD CONSTRAINT "chapter_reads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the log with the latest read of every chapter already in the history
+INSERT INTO "public"."chapter_reads" ("id", "userId", "mangaId", "chapterId", "mangaTitle", "translatedLanguage", "coverUrl", "readAt")
+SELECT gen_random_uuid()::TEXT, "userId", "mangaId", "chapterId", "mangaTitle", "translatedLanguage", "coverUrl", "readAt"
+FROM "public"."chapter_history";
@@ -18,6 +18,9 @@ import authorRoutes from './routes/author_routes';
 import commentRoutes from './routes/comment_routes';
 import followRoutes from './routes/follow_routes';
 import notificationRoutes from './routes/notification_routes';
+import listRoutes from './routes/list_routes';
+import reviewRoutes from './routes/review_routes';
+import imageRoutes from './routes/image_routes';
 import compression from 'compression';
 import helmet from 'helmet';
 import { errorHandler, notFoundHandler } from './middlewares/auth_error_middleware';
@@ -54,6 +57,9 @@ app.use(compression({
 app.use(bodyParser.json({ limit: '10mb' }));
 app.use(bodyParser.urlencoded({ limit: '10mb', extended: true }));
 
+// Image proxy mounted before the global limiter: a single chapter can be dozens of pages
+app.use('/api/v1/images', imageRoutes);
+
 // Global rate limit: 300 req / 5 phút / IP
 app.use(globalLimiter);
 
@@ -67,6 +73,8 @@ app.use('/api/v1/authors', authorRoutes);
 app.use('/api/v1/comments', commentRoutes);
 app.use('/api/v1/follows', followRoutes);
 app.use('/api/v1/notifications', notificationRoutes);
+app.use('/api/v1/lists', listRoutes);
+app.use('/api/v1/reviews', reviewRoutes);
 
 app.get('/', (req: Request, res: Response) => {
   res.json({
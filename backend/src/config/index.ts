@@ -1,3 +1,5 @@
+import path from 'path';
+
 export const googleOAuthConfig = {
   clientId: process.env.GOOGLE_CLIENT_ID || '',
   clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
@@ -24,3 +26,8 @@ export const mangadexConfig = {
   id: process.env.mangadex_ID || '',
   secret: process.env.mangadex_SECRET || '',
 }
+
+export const imageCacheConfig = {
+  dir: process.env.IMAGE_CACHE_DIR || path.resolve(process.cwd(), '.cache/images'),
+  maxBytes: parseInt(process.env.IMAGE_CACHE_MAX_MB || '1024') * 1024 * 1024,
+};
@@ -1,10 +1,61 @@
 import { Request, Response } from 'express';
-import { FollowService, MangaSource } from '../services/follow_service';
+import { z } from 'zod';
+import { FollowService, MangaSource, MAX_BULK_FOLLOWS, READING_STATUSES, ReadingStatus } from '../services/follow_service';
+import { CreatorFollowService, CREATOR_TYPES } from '../services/creator_follow_service';
 import { HttpException } from '../exceptions/http_exception';
 import { MangaDexClient } from '../services/mangadex_client';
+import { buildCoverProxyUrl } from '../services/image_proxy_service';
+import { queueImportMatch, queueImportFollows, getImportJobStatus } from '../queues/import/import_queue';
 
 const mangadexClient = new MangaDexClient();
 
+// Largest library accepted in one import
+const MAX_IMPORT_ENTRIES = 2000;
+
+const importEntrySchema = z.object({
+    title: z.string().trim().min(1).max(500),
+    altTitles: z.array(z.string().trim().min(1).max(500)).max(20).optional(),
+    malId: z.string().regex(/^\d+$/).optional(),
+    anilistId: z.string().regex(/^\d+$/).optional(),
+    status: z.enum(READING_STATUSES),
+});
+
+const importMatchSchema = z.object({
+    source: z.enum(['MAL', 'ANILIST']),
+    entries: z.array(importEntrySchema).min(1).max(MAX_IMPORT_ENTRIES),
+});
+
+const importFollowsSchema = z.object({
+    items: z
+        .array(z.object({ mangaId: z.string().uuid(), status: z.enum(READING_STATUSES) }))
+        .min(1)
+        .max(MAX_IMPORT_ENTRIES),
+});
+
+const notificationSettingsSchema = z.object({
+    mangaId: z.string().min(1),
+    source: z.enum(['MANGADEX', 'LOCAL']),
+    muted: z.boolean().optional(),
+    // MangaDex language codes, e.g. "en", "vi", "pt-br"
+    languages: z.array(z.string().regex(/^[a-z]{2,3}(-[a-z]{2,4})?$/)).max(20).optional(),
+    groupIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+const creatorSchema = z.object({
+    creatorType: z.enum(CREATOR_TYPES),
+    creatorId: z.string().uuid(),
+});
+
+const bulkFollowsSchema = z.object({
+    followIds: z.array(z.string().uuid()).min(1).max(MAX_BULK_FOLLOWS),
+});
+
+const bulkStatusSchema = bulkFollowsSchema.extend({ status: z.enum(READING_STATUSES) });
+
+const bulkMuteSchema = bulkFollowsSchema.extend({ muted: z.boolean() });
+
+const bulkListSchema = bulkFollowsSchema.extend({ listId: z.string().min(1) });
+
 /** Wrap async controller handlers to forward errors to Express error middleware */
 const asyncHandler =
     (fn: (req: Request, res: Response) => Promise<void>) =>
@@ -15,7 +66,7 @@ export class FollowController {
     /** POST /api/v1/follows — Follow a manga */
     static followManga = asyncHandler(async (req: Request, res: Response): Promise<void> => {
         const userId = req.userId!;
-        const { mangaId, source } = req.body as { mangaId: string; source: MangaSource };
+        const { mangaId, source, status } = req.body as { mangaId: string; source: MangaSource; status?: ReadingStatus };
 
         if (!mangaId || !source) {
             res.status(400).json({ success: false, message: 'mangaId and source are required' });
@@ -25,11 +76,33 @@ export class FollowController {
             res.status(400).json({ success: false, message: 'source must be MANGADEX or LOCAL' });
             return;
         }
+        if (status !== undefined && !READING_STATUSES.includes(status)) {
+            res.status(400).json({ success: false, message: `status must be one of ${READING_STATUSES.join(', ')}` });
+            return;
+        }
 
-        const follow = await FollowService.followManga(userId, mangaId, source);
+        const follow = await FollowService.followManga(userId, mangaId, source, status);
         res.status(201).json({ success: true, data: follow });
     });
 
+    /** PATCH /api/v1/follows/status — Move a followed manga to another shelf */
+    static updateFollowStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const userId = req.userId!;
+        const { mangaId, source, status } = req.body as { mangaId: string; source: MangaSource; status: ReadingStatus };
+
+        if (!mangaId || !source || !status) {
+            res.status(400).json({ success: false, message: 'mangaId, source and status are required' });
+            return;
+        }
+        if (!READING_STATUSES.includes(status)) {
+            res.status(400).json({ success: false, message: `status must be one of ${READING_STATUSES.join(', ')}` });
+            return;
+        }
+
+        const follow = await FollowService.updateFollowStatus(userId, mangaId, source, status);
+        res.status(200).json({ success: true, data: follow });
+    });
+
     /** DELETE /api/v1/follows — Unfollow a manga */
     static unfollowManga = asyncHandler(async (req: Request, res: Response): Promise<void> => {
         const userId = req.userId!;
@@ -49,8 +122,17 @@ export class FollowController {
         const userId = req.userId!;
         const page = parseInt(req.query.page as string) || 1;
         const limit = parseInt(req.query.limit as string) || 20;
+        const status = req.query.status as ReadingStatus | undefined;
 
-        const result = await FollowService.getUserFollows(userId, { page, limit });
+        if (status !== undefined && !READING_STATUSES.includes(status)) {
+            res.status(400).json({ success: false, message: `status must be one of ${READING_STATUSES.join(', ')}` });
+            return;
+        }
+
+        const [result, counts] = await Promise.all([
+            FollowService.getUserFollows(userId, { page, limit, status }),
+            FollowService.getStatusCounts(userId),
+        ]);
 
         // Enrich MangaDex follows with metadata (title, cover) from MangaDex API
         const mangadexFollows = result.data.filter(
@@ -69,7 +151,7 @@ export class FollowController {
                     const coverRel = m.relationships?.find((r: any) => r.type === 'cover_art');
                     const fileName = coverRel?.attributes?.fileName;
                     const coverUrl = fileName
-                        ? `https://uploads.mangadex.org/covers/${m.id}/${fileName}.256.jpg`
+                        ? buildCoverProxyUrl(m.id, fileName)
                         : null;
                     mangaMap.set(m.id, { title, status: m.attributes?.status ?? 'unknown', coverUrl });
                 }
@@ -87,7 +169,7 @@ export class FollowController {
             }
         }
 
-        res.status(200).json({ success: true, ...result });
+        res.status(200).json({ success: true, ...result, counts });
     });
 
     /** GET /api/v1/follows/status?mangaId=&source= — Check follow status */
@@ -104,6 +186,38 @@ export class FollowController {
         res.status(200).json({ success: true, ...result });
     });
 
+    /** GET /api/v1/follows/notifications?mangaId=&source= — Notification settings of a follow */
+    static getNotificationSettings = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const userId = req.userId!;
+        const { mangaId, source } = req.query as { mangaId: string; source: MangaSource };
+
+        if (!mangaId || !source) {
+            res.status(400).json({ success: false, message: 'mangaId and source are required' });
+            return;
+        }
+
+        const settings = await FollowService.getNotificationSettings(userId, mangaId, source);
+        res.status(200).json({ success: true, data: settings });
+    });
+
+    /** PATCH /api/v1/follows/notifications — Mute a follow or narrow its notifications */
+    static updateNotificationSettings = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const userId = req.userId!;
+        const parsed = notificationSettingsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { mangaId, source, ...settings } = parsed.data;
+        const result = await FollowService.updateNotificationSettings(userId, mangaId, source, {
+            ...settings,
+            languages: settings.languages && [...new Set(settings.languages)],
+            groupIds: settings.groupIds && [...new Set(settings.groupIds)],
+        });
+        res.status(200).json({ success: true, data: result });
+    });
+
     /** GET /api/v1/follows/feed — Latest chapter updates from followed manga */
     static getFollowedMangaFeed = asyncHandler(async (req: Request, res: Response): Promise<void> => {
         const userId = req.userId!;
@@ -122,4 +236,161 @@ export class FollowController {
         });
         res.status(200).json({ success: true, ...result });
     });
-}
\ No newline at end of file
+
+    /** GET /api/v1/follows/creators — Groups and authors the user follows */
+    static getCreatorFollows = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const follows = await CreatorFollowService.getUserCreatorFollows(req.userId!);
+        res.status(200).json({ success: true, data: follows });
+    });
+
+    /** GET /api/v1/follows/creators/status?creatorType=&creatorId= — Check a group or author follow */
+    static checkCreatorFollowStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = creatorSchema.safeParse(req.query);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { creatorType, creatorId } = parsed.data;
+        const result = await CreatorFollowService.getFollowStatus(req.userId!, creatorType, creatorId);
+        res.status(200).json({ success: true, ...result });
+    });
+
+    /** POST /api/v1/follows/creators — Follow a scanlation group or an author */
+    static followCreator = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = creatorSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { creatorType, creatorId } = parsed.data;
+        const follow = await CreatorFollowService.followCreator(req.userId!, creatorType, creatorId);
+        res.status(201).json({ success: true, data: follow });
+    });
+
+    /** DELETE /api/v1/follows/creators — Unfollow a scanlation group or an author */
+    static unfollowCreator = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = creatorSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { creatorType, creatorId } = parsed.data;
+        await CreatorFollowService.unfollowCreator(req.userId!, creatorType, creatorId);
+        res.status(200).json({ success: true, message: 'Unfollowed successfully' });
+    });
+
+    /** GET /api/v1/follows/creators/feed — Latest chapters from followed MangaDex groups */
+    static getCreatorFeed = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+        const dateRange = req.query.dateRange as 'today' | 'week' | 'month' | undefined;
+        const translatedLanguage = req.query.lang
+            ? (req.query.lang as string).split(',')
+            : undefined;
+
+        const result = await CreatorFollowService.getGroupUploadsFeed(req.userId!, {
+            page,
+            limit,
+            dateRange,
+            translatedLanguage,
+        });
+        res.status(200).json({ success: true, ...result });
+    });
+
+    /** POST /api/v1/follows/bulk/unfollow — Unfollow several manga at once */
+    static bulkUnfollow = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = bulkFollowsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const result = await FollowService.bulkUnfollow(req.userId!, [...new Set(parsed.data.followIds)]);
+        res.status(200).json({ success: true, data: result });
+    });
+
+    /** PATCH /api/v1/follows/bulk/status — Move several follows to one shelf */
+    static bulkUpdateStatus = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = bulkStatusSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { followIds, status } = parsed.data;
+        const result = await FollowService.bulkUpdateStatus(req.userId!, [...new Set(followIds)], status);
+        res.status(200).json({ success: true, data: result });
+    });
+
+    /** PATCH /api/v1/follows/bulk/notifications — Mute or unmute several follows */
+    static bulkSetMuted = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = bulkMuteSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { followIds, muted } = parsed.data;
+        const result = await FollowService.bulkSetMuted(req.userId!, [...new Set(followIds)], muted);
+        res.status(200).json({ success: true, data: result });
+    });
+
+    /** POST /api/v1/follows/bulk/lists — Add several followed manga to a custom list */
+    static bulkAddToList = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const parsed = bulkListSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const { followIds, listId } = parsed.data;
+        const result = await FollowService.bulkAddToList(req.userId!, [...new Set(followIds)], listId);
+        res.status(200).json({ success: true, data: result });
+    });
+
+    /** GET /api/v1/follows/export — All follows with reading progress and MAL/AniList ids */
+    static exportFollows = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const follows = await FollowService.exportFollows(req.userId!);
+        res.status(200).json({ success: true, data: follows });
+    });
+
+    /** POST /api/v1/follows/import/match — Start matching a MAL/AniList export to MangaDex */
+    static startImportMatch = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const userId = req.userId!;
+        const parsed = importMatchSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid import file', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        const jobId = await queueImportMatch({ userId, ...parsed.data });
+        res.status(202).json({ success: true, jobId });
+    });
+
+    /** POST /api/v1/follows/import — Start following the reviewed matches */
+    static startImport = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const userId = req.userId!;
+        const parsed = importFollowsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, message: 'Invalid input', errors: parsed.error.flatten().fieldErrors });
+            return;
+        }
+
+        // The same manga picked for two entries is followed once
+        const items = [...new Map(parsed.data.items.map((item) => [item.mangaId, item])).values()];
+        const jobId = await queueImportFollows({ userId, items });
+        res.status(202).json({ success: true, jobId });
+    });
+
+    /** GET /api/v1/follows/import/:jobId — Progress and result of an import job */
+    static getImportJob = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const job = await getImportJobStatus(String(req.params.jobId), req.userId!);
+        if (!job) {
+            throw new HttpException(404, 'Import not found');
+        }
+        res.status(200).json({ success: true, data: job });
+    });
+}
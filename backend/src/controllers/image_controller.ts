@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import {
+  ImageProxyService,
+  COVER_SIZES,
+  PAGE_QUALITIES,
+  type CoverSize,
+  type PageQuality,
+  type ProxiedImage,
+} from '../services/image_proxy_service';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+
+// Params end up in upstream URLs and cache paths, so they are matched strictly
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HASH_REGEX = /^[0-9a-f]{32}$/i;
+const FILE_NAME_REGEX = /^[\w-]+\.(jpe?g|png|gif|webp)$/i;
+
+// MangaDex covers and pages never change under the same file name
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+// Submitted manga keep their URL when the cover is replaced
+const LOCAL_COVER_CACHE_CONTROL = 'public, max-age=86400';
+
+const sendImage = (req: Request, res: Response, image: ProxiedImage, cacheControl = IMMUTABLE_CACHE_CONTROL) => {
+  res.set({
+    'Content-Type': image.contentType,
+    'Cache-Control': cacheControl,
+    ETag: `"${image.key}"`,
+    'X-Cache': image.cacheHit ? 'HIT' : 'MISS',
+  });
+
+  if (req.fresh) {
+    res.status(StatusCodes.NOT_MODIFIED).end();
+    return;
+  }
+  res.status(StatusCodes.OK).send(image.data);
+};
+
+const sendError = (res: Response, error: unknown, message: string) => {
+  const status = error instanceof HttpException ? error.status : StatusCodes.INTERNAL_SERVER_ERROR;
+  res.status(status).json({
+    success: false,
+    message,
+    error: (error as Error).message,
+  });
+};
+
+const parseCoverSize = (req: Request, res: Response): CoverSize | undefined | null => {
+  const size = req.query.size ? Number(req.query.size) : undefined;
+  if (size !== undefined && !COVER_SIZES.includes(size as CoverSize)) {
+    res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: `size must be one of ${COVER_SIZES.join(', ')}`,
+    });
+    return null;
+  }
+  return size as CoverSize | undefined;
+};
+
+export const imageController = {
+  // Proxy bìa manga, tuỳ chọn thu nhỏ ?size=256|512
+  async getCover(req: Request, res: Response) {
+    const { mangaId, fileName } = req.params;
+
+    if (!UUID_REGEX.test(mangaId) || !FILE_NAME_REGEX.test(fileName)) {
+      res.status(StatusCodes.BAD_REQUEST).json({ success: false, message: 'Invalid cover path' });
+      return;
+    }
+    const size = parseCoverSize(req, res);
+    if (size === null) return;
+
+    try {
+      const image = await ImageProxyService.getCover(mangaId, fileName, size);
+      sendImage(req, res, image);
+    } catch (error) {
+      console.error('Proxy cover error:', error);
+      sendError(res, error, 'Failed to load cover');
+    }
+  },
+
+  // Bìa manga do người dùng đăng (Cloudinary), thu nhỏ như bìa MangaDex
+  async getLocalCover(req: Request, res: Response) {
+    const { mangaId } = req.params;
+
+    if (!UUID_REGEX.test(mangaId)) {
+      res.status(StatusCodes.BAD_REQUEST).json({ success: false, message: 'Invalid cover path' });
+      return;
+    }
+    const size = parseCoverSize(req, res);
+    if (size === null) return;
+
+    try {
+      const image = await ImageProxyService.getLocalCover(mangaId, size);
+      sendImage(req, res, image, LOCAL_COVER_CACHE_CONTROL);
+    } catch (error) {
+      console.error('Proxy local cover error:', error);
+      sendError(res, error, 'Failed to load cover');
+    }
+  },
+
+  // Proxy trang truyện từ at-home server, fallback về uploads.mangadex.org
+  async getChapterPage(req: Request, res: Response) {
+    const { chapterId, quality, hash, fileName } = req.params;
+
+    if (
+      !UUID_REGEX.test(chapterId) ||
+      !PAGE_QUALITIES.includes(quality as PageQuality) ||
+      !HASH_REGEX.test(hash) ||
+      !FILE_NAME_REGEX.test(fileName)
+    ) {
+      res.status(StatusCodes.BAD_REQUEST).json({ success: false, message: 'Invalid page path' });
+      return;
+    }
+
+    try {
+      const image = await ImageProxyService.getChapterPage(chapterId, quality as PageQuality, hash, fileName);
+      sendImage(req, res, image);
+    } catch (error) {
+      console.error('Proxy chapter page error:', error);
+      sendError(res, error, 'Failed to load chapter page');
+    }
+  },
+};
+
+export default imageController;
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { CustomListService, MAX_ITEMS_PER_LIST } from '../services/custom_list_service';
+import StatusCodes from '../constants/status_codes';
+
+/** Wrap async controller handlers to forward errors to Express error middleware */
+const asyncHandler =
+    (fn: (req: Request, res: Response) => Promise<void>) =>
+        (req: Request, res: Response, next: (err: unknown) => void) =>
+            fn(req, res).catch(next);
+
+const mangaSourceSchema = z.enum(['MANGADEX', 'LOCAL']);
+
+const listDataSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(2000).nullable().optional(),
+    visibility: z.enum(['PRIVATE', 'UNLISTED', 'PUBLIC']).optional(),
+});
+
+const listMangaSchema = z.object({
+    mangaId: z.string().min(1).max(100),
+    source: mangaSourceSchema,
+    mangaTitle: z.string().max(500).nullable().optional(),
+    coverUrl: z.string().max(2000).nullable().optional(),
+});
+
+const userListsQuerySchema = z.object({
+    mangaId: z.string().min(1).optional(),
+    source: mangaSourceSchema.default('MANGADEX'),
+});
+
+const publicListsQuerySchema = z.object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+const reorderSchema = z.object({
+    itemIds: z.array(z.string().min(1)).max(MAX_ITEMS_PER_LIST),
+});
+
+/** Reply 400 with the field errors when the input does not match, otherwise return the data */
+function validate<T extends z.ZodTypeAny>(schema: T, input: unknown, res: Response): z.infer<T> | undefined {
+    const result = schema.safeParse(input);
+    if (!result.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+            success: false,
+            message: 'Invalid input',
+            errors: result.error.flatten().fieldErrors,
+        });
+        return undefined;
+    }
+    return result.data;
+}
+
+export class ListController {
+    /** GET /api/v1/lists — The user's own lists; with ?mangaId= each says whether it holds that manga */
+    static getUserLists = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const query = validate(userListsQuerySchema, req.query, res);
+        if (!query) return;
+
+        const lists = await CustomListService.getUserLists(
+            req.userId!,
+            query.mangaId ? { mangaId: query.mangaId, source: query.source } : undefined,
+        );
+        res.status(StatusCodes.OK).json({ success: true, data: lists });
+    });
+
+    /** GET /api/v1/lists/public — Public lists from everyone */
+    static getPublicLists = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const query = validate(publicListsQuerySchema, req.query, res);
+        if (!query) return;
+
+        const result = await CustomListService.getPublicLists(query);
+        res.status(StatusCodes.OK).json({ success: true, data: result });
+    });
+
+    /** GET /api/v1/lists/:listId — A list with its manga; private lists only for their owner */
+    static getList = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const list = await CustomListService.getList(String(req.params.listId), req.userId);
+        res.status(StatusCodes.OK).json({ success: true, data: list });
+    });
+
+    /** POST /api/v1/lists — Create a list */
+    static createList = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(listDataSchema, req.body, res);
+        if (!data) return;
+
+        const list = await CustomListService.createList(req.userId!, data);
+        res.status(StatusCodes.CREATED).json({ success: true, data: list });
+    });
+
+    /** PATCH /api/v1/lists/:listId — Rename, describe or change the visibility of a list */
+    static updateList = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(listDataSchema.partial(), req.body, res);
+        if (!data) return;
+
+        const list = await CustomListService.updateList(req.userId!, String(req.params.listId), data);
+        res.status(StatusCodes.OK).json({ success: true, data: list });
+    });
+
+    /** DELETE /api/v1/lists/:listId — Delete a list */
+    static deleteList = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        await CustomListService.deleteList(req.userId!, String(req.params.listId));
+        res.status(StatusCodes.OK).json({ success: true, message: 'List deleted' });
+    });
+
+    /** POST /api/v1/lists/:listId/items — Add a manga at the end of a list */
+    static addManga = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(listMangaSchema, req.body, res);
+        if (!data) return;
+
+        const item = await CustomListService.addManga(req.userId!, String(req.params.listId), data);
+        res.status(StatusCodes.CREATED).json({ success: true, data: item });
+    });
+
+    /** DELETE /api/v1/lists/:listId/items — Remove a manga from a list */
+    static removeManga = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(listMangaSchema.pick({ mangaId: true, source: true }), req.body, res);
+        if (!data) return;
+
+        await CustomListService.removeManga(req.userId!, String(req.params.listId), data.mangaId, data.source);
+        res.status(StatusCodes.OK).json({ success: true, message: 'Removed from list' });
+    });
+
+    /** PUT /api/v1/lists/:listId/items/order — Reorder a list */
+    static reorderItems = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(reorderSchema, req.body, res);
+        if (!data) return;
+
+        await CustomListService.reorderItems(req.userId!, String(req.params.listId), data.itemIds);
+        res.status(StatusCodes.OK).json({ success: true, message: 'List reordered' });
+    });
+}
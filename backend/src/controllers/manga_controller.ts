@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { MangaDexClient } from '../services/mangadex_client';
-import { FollowService } from '@/services/follow_service';
+import { buildCoverProxyUrl } from '../services/image_proxy_service';
+import { FollowService, ReadingStatus } from '@/services/follow_service';
 import StatusCodes from '../constants/status_codes';
 import redisClient from '../db/redis_client';
 
@@ -194,12 +195,14 @@ export const mangaController = {
       // If user is authenticated, append isFollowing status (non-blocking)
       let isFollowing = false;
       let followId: string | undefined;
+      let readingStatus: ReadingStatus | undefined;
       const userId = req.userId;
       if (userId) {
         try {
           const followStatus = await FollowService.isFollowing(userId, id, 'MANGADEX');
           isFollowing = followStatus.isFollowing;
           followId = followStatus.followId;
+          readingStatus = followStatus.status;
         } catch {
           // silently ignore — follow check failure should not break manga detail
         }
@@ -210,6 +213,7 @@ export const mangaController = {
         data,
         isFollowing,
         followId,
+        readingStatus,
         cached: true,
       });
     } catch (error: any) {
@@ -435,7 +439,7 @@ export const mangaController = {
             const coverRel = manga.relationships?.find((r: any) => r.type === 'cover_art');
             const fileName = coverRel?.attributes?.fileName;
             if (fileName) {
-              coverMap[manga.id] = `https://uploads.mangadex.org/covers/${manga.id}/${fileName}.256.jpg`;
+              coverMap[manga.id] = buildCoverProxyUrl(manga.id, fileName);
             }
           }
         } catch {
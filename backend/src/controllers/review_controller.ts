@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { ReviewService, MIN_SCORE, MAX_SCORE, REVIEW_SORTS } from '../services/review_service';
+import StatusCodes from '../constants/status_codes';
+
+/** Wrap async controller handlers to forward errors to Express error middleware */
+const asyncHandler =
+    (fn: (req: Request, res: Response) => Promise<void>) =>
+        (req: Request, res: Response, next: (err: unknown) => void) =>
+            fn(req, res).catch(next);
+
+const mangaSchema = z.object({
+    mangaId: z.string().min(1).max(100),
+    source: z.enum(['MANGADEX', 'LOCAL']).default('MANGADEX'),
+});
+
+const reviewDataSchema = mangaSchema.extend({
+    score: z.number().int().min(MIN_SCORE).max(MAX_SCORE),
+    content: z.string().max(10000).nullable().optional(),
+    isSpoiler: z.boolean().optional(),
+});
+
+const reviewsQuerySchema = mangaSchema.extend({
+    sort: z.enum(REVIEW_SORTS).default('helpful'),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+/** Reply 400 with the field errors when the input does not match, otherwise return the data */
+function validate<T extends z.ZodTypeAny>(schema: T, input: unknown, res: Response): z.infer<T> | undefined {
+    const result = schema.safeParse(input);
+    if (!result.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+            success: false,
+            message: 'Invalid input',
+            errors: result.error.flatten().fieldErrors,
+        });
+        return undefined;
+    }
+    return result.data;
+}
+
+export class ReviewController {
+    /** GET /api/v1/reviews/summary — Average score and distribution for a manga */
+    static getRatingSummary = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const query = validate(mangaSchema, req.query, res);
+        if (!query) return;
+
+        const summary = await ReviewService.getRatingSummary(query.mangaId, query.source);
+        res.status(StatusCodes.OK).json({ success: true, data: summary });
+    });
+
+    /** GET /api/v1/reviews — Written reviews for a manga */
+    static getReviews = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const query = validate(reviewsQuerySchema, req.query, res);
+        if (!query) return;
+
+        const { mangaId, source, ...options } = query;
+        const result = await ReviewService.getReviews(mangaId, source, options, req.userId);
+        res.status(StatusCodes.OK).json({ success: true, data: result });
+    });
+
+    /** GET /api/v1/reviews/mine — The user's own rating of a manga, or null */
+    static getUserReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const query = validate(mangaSchema, req.query, res);
+        if (!query) return;
+
+        const review = await ReviewService.getUserReview(req.userId!, query.mangaId, query.source);
+        res.status(StatusCodes.OK).json({ success: true, data: review });
+    });
+
+    /** PUT /api/v1/reviews — Rate a manga or change the rating */
+    static saveReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(reviewDataSchema, req.body, res);
+        if (!data) return;
+
+        const review = await ReviewService.saveReview(req.userId!, data);
+        res.status(StatusCodes.OK).json({ success: true, data: review });
+    });
+
+    /** DELETE /api/v1/reviews — Remove the user's rating of a manga */
+    static deleteReview = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const data = validate(mangaSchema, req.body, res);
+        if (!data) return;
+
+        await ReviewService.deleteReview(req.userId!, data.mangaId, data.source);
+        res.status(StatusCodes.OK).json({ success: true, message: 'Review deleted' });
+    });
+
+    /** POST /api/v1/reviews/:reviewId/helpful — Mark a review as helpful */
+    static markHelpful = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const result = await ReviewService.markHelpful(req.userId!, String(req.params.reviewId));
+        res.status(StatusCodes.OK).json({ success: true, data: result });
+    });
+
+    /** DELETE /api/v1/reviews/:reviewId/helpful — Take back a helpful mark */
+    static unmarkHelpful = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+        const result = await ReviewService.unmarkHelpful(req.userId!, String(req.params.reviewId));
+        res.status(StatusCodes.OK).json({ success: true, data: result });
+    });
+}
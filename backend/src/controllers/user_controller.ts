@@ -1,8 +1,162 @@
 import { Request, Response } from 'express';
+import { z } from 'zod';
 import { UserService, UpdateProfileData, UpdatePasswordData } from '../services/user_service';
+import { PreferencesService, READING_MODES, FIT_MODES } from '../services/preferences_service';
+import { ReadingProgressService } from '../services/reading_progress_service';
+import { BookmarkService } from '../services/bookmark_service';
+import { HistoryService } from '../services/history_service';
+import { ReadMarkerService } from '../services/read_marker_service';
+import { StatsService } from '../services/stats_service';
+import { HttpException } from '../exceptions/http_exception';
 import StatusCodes from '../constants/status_codes';
 import { upload } from '../services/upload_service';
 
+const updatePreferencesSchema = z.object({
+  readingMode: z.enum(READING_MODES).optional(),
+  imageGap: z.number().int().min(0).max(50).optional(),
+  fitMode: z.enum(FIT_MODES).optional(),
+  customZoom: z.number().int().min(25).max(400).optional(),
+  showHeader: z.boolean().optional(),
+  doublePageShift: z.boolean().optional(),
+  dataSaver: z.boolean().optional(),
+  keyboardShortcuts: z
+    .record(z.string().max(40), z.string().min(1).max(40).nullable())
+    .refine((shortcuts) => Object.keys(shortcuts).length <= 50, 'Too many shortcuts')
+    .optional(),
+  autoMarkAsRead: z.boolean().optional(),
+  preferredLanguages: z.array(z.string().min(2).max(10)).min(1).max(20).optional(),
+  contentRatingFilter: z.array(z.enum(['safe', 'suggestive', 'erotica', 'pornographic'])).max(4).optional(),
+});
+
+const mangaSourceSchema = z.enum(['MANGADEX', 'LOCAL']).default('MANGADEX');
+
+const saveProgressSchema = z
+  .object({
+    mangaId: z.string().min(1),
+    source: mangaSourceSchema,
+    chapterId: z.string().min(1).optional(),
+    chapterNumber: z.number().min(0).nullable().optional(),
+    pageNumber: z.number().int().min(1),
+    totalPages: z.number().int().min(1),
+    readTime: z.number().min(0).optional(),
+  })
+  .refine((data) => data.source === 'LOCAL' || !!data.chapterId, {
+    message: 'chapterId is required for MangaDex chapters',
+    path: ['chapterId'],
+  });
+
+const bookmarkNoteSchema = z.string().max(2000).nullable().optional();
+
+const createBookmarkSchema = z
+  .object({
+    mangaId: z.string().min(1),
+    source: mangaSourceSchema,
+    chapterId: z.string().min(1).optional(),
+    chapterNumber: z.number().min(0).nullable().optional(),
+    pageNumber: z.number().int().min(1),
+    note: bookmarkNoteSchema,
+    mangaTitle: z.string().max(500).nullable().optional(),
+    chapterTitle: z.string().max(500).nullable().optional(),
+  })
+  .refine((data) => data.source === 'LOCAL' || !!data.chapterId, {
+    message: 'chapterId is required for MangaDex chapters',
+    path: ['chapterId'],
+  })
+  .refine((data) => data.source === 'MANGADEX' || data.chapterNumber != null, {
+    message: 'chapterNumber is required for local chapters',
+    path: ['chapterNumber'],
+  });
+
+const listBookmarksSchema = z.object({
+  mangaId: z.string().min(1).optional(),
+  source: mangaSourceSchema,
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const updateBookmarkSchema = z.object({
+  note: bookmarkNoteSchema,
+});
+
+const historyEntrySchema = z.object({
+  mangaId: z.string().min(1),
+  chapterId: z.string().min(1),
+  mangaTitle: z.string().min(1).max(500),
+  chapterNumber: z.string().max(20).nullable().optional(),
+  chapterTitle: z.string().max(500).nullable().optional(),
+  volume: z.string().max(20).nullable().optional(),
+  translatedLanguage: z.string().min(2).max(10),
+  externalUrl: z.string().url().max(2000).nullable().optional(),
+  scanlationGroups: z
+    .array(z.object({ id: z.string().max(100), name: z.string().max(200) }))
+    .max(10)
+    .optional(),
+  coverUrl: z.string().max(2000).nullable().optional(),
+});
+
+// Devices keep at most 100 entries locally; leave some headroom
+const mergeHistorySchema = z.object({
+  entries: z
+    .array(
+      historyEntrySchema.extend({
+        // Client clock in milliseconds; reads "from the future" are pulled back to now
+        timestamp: z.number().int().min(0).transform((ms) => new Date(Math.min(ms, Date.now()))),
+      })
+    )
+    .max(200),
+});
+
+const listHistorySchema = z.object({
+  mangaId: z.string().min(1).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const clearHistorySchema = z
+  .object({
+    mangaId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from < data.to, {
+    message: 'from must be before to',
+    path: ['to'],
+  });
+
+// Same batch shape as MangaDex's read markers; 500 ids covers a long manga's chapter list
+const chapterIdListSchema = z.array(z.string().min(1).max(100)).max(500);
+
+const readMarkerBatchSchema = z
+  .object({
+    chapterIdsRead: chapterIdListSchema.optional(),
+    chapterIdsUnread: chapterIdListSchema.optional(),
+  })
+  .refine((data) => data.chapterIdsRead || data.chapterIdsUnread, {
+    message: 'chapterIdsRead or chapterIdsUnread is required',
+  })
+  .refine(
+    (data) => !data.chapterIdsRead?.some((chapterId) => data.chapterIdsUnread?.includes(chapterId)),
+    { message: 'A chapter cannot be marked both read and unread', path: ['chapterIdsUnread'] }
+  );
+
+const readMarkersByMangaSchema = z.object({
+  // ?mangaIds=a,b or ?mangaIds=a&mangaIds=b
+  mangaIds: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : value.split(',')).filter(Boolean))
+    .pipe(z.array(z.string().min(1).max(100)).min(1).max(100)),
+});
+
+const statsDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date').refine(
+  (value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)),
+  'Invalid date'
+);
+
+const statsRangeSchema = z.object({
+  from: statsDaySchema.optional(),
+  to: statsDaySchema.optional(),
+});
+
 export class UserController {
   /**
    * Get current user profile
@@ -254,4 +408,671 @@ export class UserController {
       });
     }
   }
+
+  /**
+   * Get user preferences (reader settings, languages, content filters)
+   */
+  static async getPreferences(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const preferences = await PreferencesService.getPreferences(userId);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: preferences,
+      });
+    } catch (error) {
+      console.error('Get preferences error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get preferences',
+      });
+    }
+  }
+
+  /**
+   * Update user preferences (partial update)
+   */
+  static async updatePreferences(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = updatePreferencesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid preferences',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const preferences = await PreferencesService.updatePreferences(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: 'Preferences updated successfully',
+        data: preferences,
+      });
+    } catch (error) {
+      console.error('Update preferences error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to update preferences',
+      });
+    }
+  }
+
+  /**
+   * Get the last read chapter and page of a manga
+   */
+  static async getReadingProgress(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const source = mangaSourceSchema.safeParse(req.query.source);
+      if (!source.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid manga source',
+        });
+        return;
+      }
+
+      const progress = await ReadingProgressService.getProgress(userId, String(req.params.mangaId), source.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: progress,
+      });
+    } catch (error) {
+      console.error('Get reading progress error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get reading progress',
+      });
+    }
+  }
+
+  /**
+   * Report the page currently being read (rate limited; clients throttle their own reports)
+   */
+  static async saveReadingProgress(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = saveProgressSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid reading progress',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const progress = await ReadingProgressService.saveProgress(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: progress,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        res.status(error.status).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      console.error('Save reading progress error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to save reading progress',
+      });
+    }
+  }
+
+  /**
+   * Get page bookmarks, optionally only those in one manga
+   */
+  static async getBookmarks(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = listBookmarksSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const result = await BookmarkService.listBookmarks(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Get bookmarks error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get bookmarks',
+      });
+    }
+  }
+
+  /**
+   * Bookmark a page, replacing the note if the page is already bookmarked
+   */
+  static async createBookmark(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = createBookmarkSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid bookmark',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const bookmark = await BookmarkService.createBookmark(userId, validationResult.data);
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        message: 'Page bookmarked',
+        data: bookmark,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        res.status(error.status).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      console.error('Create bookmark error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to create bookmark',
+      });
+    }
+  }
+
+  /**
+   * Update the private note on a bookmark
+   */
+  static async updateBookmark(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = updateBookmarkSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid bookmark',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const bookmark = await BookmarkService.updateNote(
+        userId,
+        String(req.params.bookmarkId),
+        validationResult.data.note ?? null
+      );
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: 'Bookmark updated',
+        data: bookmark,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        res.status(error.status).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      console.error('Update bookmark error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to update bookmark',
+      });
+    }
+  }
+
+  /**
+   * Delete a bookmark
+   */
+  static async deleteBookmark(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      await BookmarkService.deleteBookmark(userId, String(req.params.bookmarkId));
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: 'Bookmark deleted',
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        res.status(error.status).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      console.error('Delete bookmark error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to delete bookmark',
+      });
+    }
+  }
+
+  /**
+   * Get chapter reading history, most recently read first
+   */
+  static async getHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = listHistorySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const result = await HistoryService.listHistory(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error('Get history error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get reading history',
+      });
+    }
+  }
+
+  /**
+   * Record a chapter the user just opened
+   */
+  static async recordHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = historyEntrySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid history entry',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const entry = await HistoryService.recordChapter(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error) {
+      console.error('Record history error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to record reading history',
+      });
+    }
+  }
+
+  /**
+   * Merge the history a device kept locally into the server copy
+   */
+  static async mergeHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = mergeHistorySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid history entries',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const entries = validationResult.data.entries.map(({ timestamp, ...entry }) => ({ ...entry, readAt: timestamp }));
+      const result = await HistoryService.mergeHistory(userId, entries);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: 'Reading history merged',
+        data: result,
+      });
+    } catch (error) {
+      console.error('Merge history error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to merge reading history',
+      });
+    }
+  }
+
+  /**
+   * Get the whole chapter reading history, for exporting
+   */
+  static async exportHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const entries = await HistoryService.exportHistory(userId);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: entries,
+      });
+    } catch (error) {
+      console.error('Export history error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to export reading history',
+      });
+    }
+  }
+
+  /**
+   * Delete chapter reading history: everything, or one manga and/or a time range
+   */
+  static async clearHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = clearHistorySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const deleted = await HistoryService.clearHistory(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: 'Reading history cleared',
+        data: { deleted },
+      });
+    } catch (error) {
+      console.error('Clear history error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to clear reading history',
+      });
+    }
+  }
+
+  /**
+   * Get the ids of the chapters read in a manga
+   */
+  static async getReadMarkers(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const chapterIds = await ReadMarkerService.getReadChapterIds(userId, String(req.params.mangaId));
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: chapterIds,
+      });
+    } catch (error) {
+      console.error('Get read markers error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get read markers',
+      });
+    }
+  }
+
+  /**
+   * Get the read chapter ids of several manga, keyed by manga id
+   */
+  static async getReadMarkersByManga(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = readMarkersByMangaSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const grouped = await ReadMarkerService.getReadChapterIdsByManga(userId, validationResult.data.mangaIds);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: grouped,
+      });
+    } catch (error) {
+      console.error('Get read markers error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get read markers',
+      });
+    }
+  }
+
+  /**
+   * Mark chapters of a manga as read and/or unread
+   */
+  static async updateReadMarkers(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = readMarkerBatchSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid read markers',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      await ReadMarkerService.updateReadMarkers(userId, String(req.params.mangaId), validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        message: 'Read markers updated',
+      });
+    } catch (error) {
+      console.error('Update read markers error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to update read markers',
+      });
+    }
+  }
+
+  /**
+   * Get reading statistics for a range of days
+   */
+  static async getStats(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(StatusCodes.UNAUTHORIZED).json({
+          success: false,
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const validationResult = statsRangeSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(StatusCodes.BAD_REQUEST).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: validationResult.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const stats = await StatsService.getStats(userId, validationResult.data);
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        res.status(error.status).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      console.error('Get stats error:', error);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        message: 'Failed to get reading statistics',
+      });
+    }
+  }
 }
@@ -45,6 +45,11 @@ export const globalLimiter = makeMiddleware(
   createLimiter('rl_global', 300, 300),
 );
 
+/** Image proxy: 600 req / phút / IP — một chương có thể có hàng chục trang */
+export const imageLimiter = makeMiddleware(
+  createLimiter('rl_image', 600, 60),
+);
+
 /** Login: 5 lần / phút / IP */
 export const loginLimiter = makeMiddleware(
   createLimiter('rl_login', 5, 60),
@@ -77,6 +82,12 @@ export const mutateCommentLimiter = makeMiddleware(
   (req) => req.userId ?? req.ip ?? 'unknown',
 );
 
+/** Tiến độ đọc: 30 lần / phút / userId — client tự throttle, đây là giới hạn cứng */
+export const progressLimiter = makeMiddleware(
+  createLimiter('rl_progress', 30, 60),
+  (req) => req.userId ?? req.ip ?? 'unknown',
+);
+
 /** Quick search: 60 lần / phút / IP */
 export const quickSearchLimiter = makeMiddleware(
   createLimiter('rl_search_quick', 60, 60),
@@ -0,0 +1,75 @@
+import { Queue } from 'bullmq';
+import { bullmqConnection } from '../connection';
+import type {
+    ImportJobMap,
+    ImportJobName,
+    ImportJobResultMap,
+    ImportProgress,
+    MatchEntriesPayload,
+    CreateFollowsPayload,
+} from './import_types';
+
+// ──────────────────────────────────────────────
+// Queue Definition
+// ──────────────────────────────────────────────
+
+export const IMPORT_QUEUE_NAME = 'library-imports';
+
+export const importQueue = new Queue<
+    ImportJobMap[ImportJobName],
+    ImportJobResultMap[ImportJobName],
+    ImportJobName
+>(IMPORT_QUEUE_NAME, {
+    connection: bullmqConnection,
+    defaultJobOptions: {
+        // The client polls for the result, so finished jobs are kept for an hour
+        removeOnComplete: { age: 60 * 60 },
+        removeOnFail: { age: 60 * 60 },
+        attempts: 2,
+        backoff: {
+            type: 'exponential',
+            delay: 5000,
+        },
+    },
+});
+
+export interface ImportJobStatus {
+    id: string;
+    name: ImportJobName;
+    state: string;
+    progress: ImportProgress | null;
+    result: ImportJobResultMap[ImportJobName] | null;
+    failedReason: string | null;
+}
+
+// Producer Functions
+
+/** Queue the mapping of an export's entries to MangaDex manga; returns the job id */
+export async function queueImportMatch(payload: MatchEntriesPayload): Promise<string> {
+    const job = await importQueue.add('match-entries', payload);
+    return job.id!;
+}
+
+/** Queue the creation of follows for the reviewed matches; returns the job id */
+export async function queueImportFollows(payload: CreateFollowsPayload): Promise<string> {
+    const job = await importQueue.add('create-follows', payload);
+    return job.id!;
+}
+
+/**
+ * Get an import job's state, progress and result. Jobs of other users read as missing.
+ */
+export async function getImportJobStatus(jobId: string, userId: string): Promise<ImportJobStatus | null> {
+    const job = await importQueue.getJob(jobId);
+    if (!job || job.data.userId !== userId) return null;
+
+    const progress = typeof job.progress === 'object' ? (job.progress as unknown as ImportProgress) : null;
+    return {
+        id: jobId,
+        name: job.name,
+        state: await job.getState(),
+        progress,
+        result: job.returnvalue ?? null,
+        failedReason: job.failedReason ?? null,
+    };
+}
@@ -0,0 +1,76 @@
+import type { ReadingStatus } from '../../services/follow_service';
+
+/**
+ * Job payloads and results for library imports.
+ *
+ * An import runs as two jobs: `match-entries` maps the entries of another site's export to
+ * MangaDex manga, the user reviews the matches, then `create-follows` follows the chosen ones.
+ */
+
+export type ImportSource = 'MAL' | 'ANILIST';
+
+/** One manga from a MyAnimeList or AniList export, already parsed by the client */
+export interface ImportEntry {
+    title: string;
+    altTitles?: string[];
+    malId?: string;
+    anilistId?: string;
+    status: ReadingStatus;
+}
+
+export interface ImportCandidate {
+    id: string;
+    title: string;
+    year: number | null;
+    coverUrl: string | null;
+}
+
+/**
+ * - MATCHED:   a MangaDex manga links to the entry's MAL/AniList id, or is the only exact title match
+ * - AMBIGUOUS: the search found manga but none is certain; the user picks one of `candidates`
+ * - UNMATCHED: nothing was found
+ */
+export type ImportMatchState = 'MATCHED' | 'AMBIGUOUS' | 'UNMATCHED';
+
+export interface ImportMatch {
+    entry: ImportEntry;
+    state: ImportMatchState;
+    /** The matched MangaDex id, when MATCHED */
+    mangaId?: string;
+    candidates: ImportCandidate[];
+}
+
+export interface ImportFollowItem {
+    mangaId: string;
+    status: ReadingStatus;
+}
+
+export interface MatchEntriesPayload {
+    userId: string;
+    source: ImportSource;
+    entries: ImportEntry[];
+}
+
+export interface CreateFollowsPayload {
+    userId: string;
+    items: ImportFollowItem[];
+}
+
+export interface ImportProgress {
+    processed: number;
+    total: number;
+}
+
+// Job name -> Payload mapping
+export interface ImportJobMap {
+    'match-entries': MatchEntriesPayload;
+    'create-follows': CreateFollowsPayload;
+}
+
+// Job name -> Return value mapping
+export interface ImportJobResultMap {
+    'match-entries': { matches: ImportMatch[] };
+    'create-follows': { created: number; skipped: number };
+}
+
+export type ImportJobName = keyof ImportJobMap;
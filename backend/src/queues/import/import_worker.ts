@@ -0,0 +1,82 @@
+import { Worker, Job } from 'bullmq';
+import { bullmqConnection } from '../connection';
+import { IMPORT_QUEUE_NAME } from './import_queue';
+import { LibraryImportService } from '../../services/library_import_service';
+import { FollowService } from '../../services/follow_service';
+import type { ImportJobMap, ImportJobName, ImportJobResultMap, ImportProgress } from './import_types';
+
+// ──────────────────────────────────────────────
+// Worker
+// ──────────────────────────────────────────────
+
+let worker: Worker | null = null;
+
+/**
+ * Create and return the library import worker.
+ *
+ * Imports are rare and user-driven, so the worker polls more often than the notification
+ * worker while keeping Upstash usage low. `concurrency: 1` keeps matching within the
+ * MangaDex rate limit when several users import at once.
+ */
+export function createImportWorker(): Worker {
+    const isLocal = !!process.env.REDIS_LOCAL_URL;
+    const drainDelay = isLocal ? 1_000 : 30_000; // Local = 1s, Upstash = 30s
+    const stalledInterval = isLocal ? 30_000 : 300_000; // Local = 30s, Upstash = 5 minutes
+
+    worker = new Worker(
+        IMPORT_QUEUE_NAME,
+        async (job: Job): Promise<ImportJobResultMap[ImportJobName] | void> => {
+            console.log(`[ImportWorker] Processing job ${job.id} (${job.name})`);
+
+            const reportProgress = (progress: ImportProgress) => job.updateProgress({ ...progress });
+
+            switch (job.name as ImportJobName) {
+                case 'match-entries': {
+                    const { entries } = job.data as ImportJobMap['match-entries'];
+                    const matches = await LibraryImportService.matchEntries(entries, reportProgress);
+                    return { matches };
+                }
+
+                case 'create-follows': {
+                    const { userId, items } = job.data as ImportJobMap['create-follows'];
+                    return FollowService.importFollows(userId, items, reportProgress);
+                }
+
+                default:
+                    console.warn(`[ImportWorker] Unknown job name: ${job.name}`);
+            }
+        },
+        {
+            connection: bullmqConnection,
+            concurrency: 1,
+            drainDelay,
+            stalledInterval,
+            metrics: { maxDataPoints: 0 },
+        },
+    );
+
+    worker.on('completed', (job) => {
+        if (job) {
+            console.log(`[ImportWorker] Job ${job.id} completed (${job.name})`);
+        }
+    });
+
+    worker.on('failed', (job, error) => {
+        console.error(`[ImportWorker] Job ${job?.id} failed:`, error.message);
+    });
+
+    worker.on('error', (error) => {
+        console.error('[ImportWorker] Worker error:', error.message);
+    });
+
+    console.log(`[BullMQ] Import worker started (drainDelay: ${drainDelay}ms)`);
+    return worker;
+}
+
+export async function closeImportWorker(): Promise<void> {
+    if (worker) {
+        await worker.close();
+        worker = null;
+        console.log('[BullMQ] Import worker closed');
+    }
+}
@@ -3,6 +3,8 @@ import {
     createNotificationWorker,
     closeNotificationWorker,
 } from './notification/notification_worker';
+import { importQueue } from './import/import_queue';
+import { createImportWorker, closeImportWorker } from './import/import_worker';
 
 /**
  * Initialize all BullMQ queues and workers.
@@ -13,6 +15,9 @@ export async function initQueues(): Promise<void> {
         // Start the notification worker
         createNotificationWorker();
 
+        // Start the library import worker
+        createImportWorker();
+
         // Schedule the new-chapter checker to run every 30 minutes.
         // BullMQ stores the repeat config in Redis — it survives restarts
         // and auto-deduplicates if multiple instances try to add the same job.
@@ -43,6 +48,8 @@ export async function closeQueues(): Promise<void> {
     try {
         await closeNotificationWorker();
         await notificationQueue.close();
+        await closeImportWorker();
+        await importQueue.close();
         console.log('[BullMQ] All queues closed');
     } catch (error) {
         console.error('[BullMQ] Error closing queues:', error);
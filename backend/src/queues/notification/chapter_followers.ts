@@ -0,0 +1,40 @@
+/** A follower of a manga with their notification settings for it */
+export interface ChapterFollower {
+    userId: string;
+    notificationsMuted: boolean;
+    notifyLanguages: string[];
+    notifyGroupIds: string[];
+    user: { preferences: { preferredLanguages: string[] } | null };
+}
+
+/** Favorite fields shouldNotifyFollower needs */
+export const chapterFollowerSelect = {
+    userId: true,
+    notificationsMuted: true,
+    notifyLanguages: true,
+    notifyGroupIds: true,
+    user: { select: { preferences: { select: { preferredLanguages: true } } } },
+} as const;
+
+/**
+ * Whether a follower wants to hear about a chapter. Follows without their own languages use
+ * the user's preferred languages; users who never saved preferences get every language.
+ */
+export function shouldNotifyFollower(follower: ChapterFollower, chapter: any): boolean {
+    if (follower.notificationsMuted) return false;
+
+    const languages = follower.notifyLanguages.length > 0
+        ? follower.notifyLanguages
+        : follower.user.preferences?.preferredLanguages ?? [];
+    const language = chapter.attributes?.translatedLanguage;
+    if (languages.length > 0 && (!language || !languages.includes(language))) return false;
+
+    if (follower.notifyGroupIds.length > 0) {
+        const groupIds: string[] = (chapter.relationships ?? [])
+            .filter((r: any) => r.type === 'scanlation_group')
+            .map((r: any) => r.id);
+        if (!groupIds.some((id) => follower.notifyGroupIds.includes(id))) return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,279 @@
+import prisma from '../../db/prisma';
+import { MangaDexClient } from '../../services/mangadex_client';
+import {
+    queueGroupUploadNotification,
+    queueNewChapterNotification,
+    queueNewTitleNotification,
+} from './notification_queue';
+import { chapterFollowerSelect, shouldNotifyFollower, type ChapterFollower } from './chapter_followers';
+
+const mangadexClient = new MangaDexClient();
+
+const GROUPS_PER_REQUEST = 100; // MangaDex group ids per /chapter lookup
+const CHAPTERS_PER_PAGE = 100; // MangaDex /chapter page size limit
+const MAX_FEED_RESULTS = 10000; // MangaDex refuses offset + limit beyond this
+const CONCURRENCY = 5; // Parallel author lookups per batch
+const BATCH_DELAY = 300; // ms between batches to respect rate limits
+
+type CreatorType = 'MANGADEX_GROUP' | 'LOCAL_GROUP' | 'AUTHOR';
+type LocalManga = { id: string; title: string; group: { id: string; name: string } | null };
+
+/**
+ * Notify the followers of scanlation groups and authors about what those creators published
+ * since the last check: chapters uploaded by MangaDex and local groups, and new titles by
+ * authors. Local uploads also reach the followers of the manga itself, which MangaDex chapters do
+ * through checkNewChapters. Runs inside checkNewChapters and shares its watermark.
+ */
+export async function checkCreatorUpdates(since: Date): Promise<void> {
+    // MangaDex createdAtSince format: YYYY-MM-DDTHH:mm:ss (no ms, no Z)
+    const sinceStr = since.toISOString().slice(0, 19);
+
+    const checks: Array<[string, () => Promise<number>]> = [
+        ['MangaDex group uploads', () => checkMangaDexGroupUploads(sinceStr)],
+        ['local group uploads', () => checkLocalGroupUploads(since)],
+        ['author titles', () => checkAuthorTitles(since)],
+    ];
+
+    for (const [label, check] of checks) {
+        try {
+            const count = await check();
+            if (count > 0) console.log(`[CreatorUpdateChecker] Queued ${count} ${label}.`);
+        } catch (error) {
+            console.error(`[CreatorUpdateChecker] Checking ${label} failed:`, (error as Error).message);
+        }
+    }
+}
+
+/** Followers of each followed creator of one type (creatorId → userIds) */
+async function getFollowersByCreator(creatorType: CreatorType): Promise<Map<string, string[]>> {
+    const follows = await prisma.creatorFollow.findMany({
+        where: { creatorType },
+        select: { userId: true, creatorId: true },
+    });
+
+    const followers = new Map<string, string[]>();
+    for (const follow of follows as { userId: string; creatorId: string }[]) {
+        followers.set(follow.creatorId, [...(followers.get(follow.creatorId) ?? []), follow.userId]);
+    }
+    return followers;
+}
+
+/** Every chapter the groups uploaded since the watermark, oldest first so paging is stable */
+async function fetchGroupFeed(groupIds: string[], sinceStr: string): Promise<any[]> {
+    const chapters: any[] = [];
+    for (let offset = 0; offset < MAX_FEED_RESULTS; offset += CHAPTERS_PER_PAGE) {
+        if (offset > 0) await sleep(BATCH_DELAY);
+
+        const page = await mangadexClient.getChaptersByGroups(groupIds, {
+            limit: CHAPTERS_PER_PAGE,
+            offset,
+            createdAtSince: sinceStr,
+            order: { createdAt: 'asc' },
+        });
+        const data = page?.data ?? [];
+        chapters.push(...data);
+        if (data.length === 0 || offset + data.length >= (page?.total ?? 0)) break;
+    }
+    return chapters;
+}
+
+/** Followers of each manga in the feed, with the settings their new chapter notification uses */
+async function getMangaFollowers(mangaIds: string[]): Promise<Map<string, ChapterFollower[]>> {
+    const favorites = mangaIds.length
+        ? await prisma.favorite.findMany({
+            where: { externalMangaId: { in: mangaIds }, mangaSource: 'MANGADEX' },
+            select: { externalMangaId: true, ...chapterFollowerSelect },
+        })
+        : [];
+
+    const byManga = new Map<string, ChapterFollower[]>();
+    for (const favorite of favorites as Array<ChapterFollower & { externalMangaId: string }>) {
+        byManga.set(favorite.externalMangaId, [...(byManga.get(favorite.externalMangaId) ?? []), favorite]);
+    }
+    return byManga;
+}
+
+async function checkMangaDexGroupUploads(sinceStr: string): Promise<number> {
+    const followers = await getFollowersByCreator('MANGADEX_GROUP');
+    const groupIds = [...followers.keys()];
+    let queued = 0;
+
+    for (let i = 0; i < groupIds.length; i += GROUPS_PER_REQUEST) {
+        if (i > 0) await sleep(BATCH_DELAY);
+
+        const feed = await fetchGroupFeed(groupIds.slice(i, i + GROUPS_PER_REQUEST), sinceStr);
+        const mangaFollowers = await getMangaFollowers([
+            ...new Set<string>(
+                feed
+                    .map((chapter) => chapter.relationships?.find((r: any) => r.type === 'manga')?.id)
+                    .filter(Boolean)
+            ),
+        ]);
+
+        for (const chapter of feed) {
+            const mangaRel = chapter.relationships?.find((r: any) => r.type === 'manga');
+            if (!mangaRel?.id) continue;
+
+            const mangaTitle =
+                mangaRel.attributes?.title?.en ??
+                Object.values(mangaRel.attributes?.title ?? {})[0] ??
+                'Unknown';
+
+            // Followers of the manga who get its new chapter notification for this chapter are
+            // skipped; those who muted it or filtered the chapter out still hear from the group
+            const notified = new Set(
+                (mangaFollowers.get(mangaRel.id) ?? [])
+                    .filter((follower) => shouldNotifyFollower(follower, chapter))
+                    .map((follower) => follower.userId)
+            );
+
+            const groups = (chapter.relationships ?? []).filter(
+                (r: any) => r.type === 'scanlation_group' && followers.has(r.id)
+            );
+            for (const group of groups) {
+                for (const userId of followers.get(group.id) ?? []) {
+                    if (notified.has(userId)) continue;
+                    notified.add(userId);
+
+                    await queueGroupUploadNotification({
+                        targetUserId: userId,
+                        groupId: group.id,
+                        groupName: group.attributes?.name ?? 'Unknown',
+                        mangaId: mangaRel.id,
+                        mangaTitle: mangaTitle as string,
+                        chapterId: chapter.id,
+                        chapterNumber: chapter.attributes?.chapter ?? undefined,
+                    });
+                    queued++;
+                }
+            }
+        }
+    }
+
+    return queued;
+}
+
+/** Non-muted followers of each local manga (mangaId → userIds) */
+async function getLocalMangaFollowers(mangaIds: string[]): Promise<Map<string, string[]>> {
+    const favorites = mangaIds.length
+        ? await prisma.favorite.findMany({
+            where: { mangaId: { in: mangaIds }, mangaSource: 'LOCAL', notificationsMuted: false },
+            select: { mangaId: true, userId: true },
+        })
+        : [];
+
+    const byManga = new Map<string, string[]>();
+    for (const favorite of favorites as { mangaId: string; userId: string }[]) {
+        byManga.set(favorite.mangaId, [...(byManga.get(favorite.mangaId) ?? []), favorite.userId]);
+    }
+    return byManga;
+}
+
+async function checkLocalGroupUploads(since: Date): Promise<number> {
+    const followers = await getFollowersByCreator('LOCAL_GROUP');
+    if (followers.size === 0) return 0;
+
+    // Chapters whose first page was uploaded since the last check, so a chapter uploaded across
+    // two checks, or given more pages later, is only announced once
+    const chapters = await prisma.chapterImage.groupBy({
+        by: ['mangaId', 'chapterNumber'],
+        where: { manga: { groupId: { in: [...followers.keys()] } } },
+        _min: { createdAt: true },
+        having: { createdAt: { _min: { gte: since } } },
+    });
+    if (chapters.length === 0) return 0;
+
+    const mangaIds = [...new Set<string>(chapters.map((chapter: { mangaId: string }) => chapter.mangaId))];
+    const mangas = await prisma.submittedManga.findMany({
+        where: { id: { in: mangaIds } },
+        select: { id: true, title: true, group: { select: { id: true, name: true } } },
+    });
+    const mangaById = new Map((mangas as LocalManga[]).map((manga) => [manga.id, manga]));
+    const mangaFollowers = await getLocalMangaFollowers(mangaIds);
+
+    let queued = 0;
+    for (const chapter of chapters as { mangaId: string; chapterNumber: number }[]) {
+        const manga = mangaById.get(chapter.mangaId);
+        const group = manga?.group;
+        if (!manga || !group) continue;
+        const chapterNumber = String(chapter.chapterNumber);
+
+        // Followers of the manga get its own new chapter notification, as for MangaDex
+        // chapters, and are skipped below
+        const notified = new Set(mangaFollowers.get(chapter.mangaId) ?? []);
+        if (notified.size > 0) {
+            await queueNewChapterNotification(chapter.mangaId, manga.title, undefined, chapterNumber, [...notified]);
+        }
+
+        for (const userId of followers.get(group.id) ?? []) {
+            if (notified.has(userId)) continue;
+
+            await queueGroupUploadNotification({
+                targetUserId: userId,
+                groupId: group.id,
+                groupName: group.name,
+                mangaId: chapter.mangaId,
+                mangaTitle: manga.title,
+                chapterNumber,
+            });
+            queued++;
+        }
+    }
+
+    return queued;
+}
+
+async function checkAuthorTitles(since: Date): Promise<number> {
+    const followers = await getFollowersByCreator('AUTHOR');
+    const authorIds = [...followers.keys()];
+    let queued = 0;
+
+    for (let i = 0; i < authorIds.length; i += CONCURRENCY) {
+        if (i > 0) await sleep(BATCH_DELAY);
+
+        const batch = authorIds.slice(i, i + CONCURRENCY);
+        const results = await Promise.allSettled(
+            batch.map((authorId) =>
+                mangadexClient.advancedSearchManga({
+                    authors: [authorId],
+                    limit: 10,
+                    order: { createdAt: 'desc' },
+                    includes: ['author'],
+                })
+            )
+        );
+
+        for (const [index, result] of results.entries()) {
+            if (result.status !== 'fulfilled' || !result.value?.data) continue;
+            const authorId = batch[index];
+
+            for (const manga of result.value.data) {
+                const createdAt = manga.attributes?.createdAt;
+                if (!createdAt || new Date(createdAt) < since) continue;
+
+                const authorRel = manga.relationships?.find((r: any) => r.type === 'author' && r.id === authorId);
+                const mangaTitle =
+                    manga.attributes?.title?.en ??
+                    Object.values(manga.attributes?.title ?? {})[0] ??
+                    'Unknown';
+
+                for (const userId of followers.get(authorId) ?? []) {
+                    await queueNewTitleNotification({
+                        targetUserId: userId,
+                        authorId,
+                        authorName: authorRel?.attributes?.name ?? 'An author you follow',
+                        mangaId: manga.id,
+                        mangaTitle: mangaTitle as string,
+                    });
+                    queued++;
+                }
+            }
+        }
+    }
+
+    return queued;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
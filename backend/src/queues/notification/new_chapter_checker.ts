@@ -2,6 +2,8 @@ import prisma from '../../db/prisma';
 import { MangaDexClient } from '../../services/mangadex_client';
 import redisClient from '../../db/redis_client';
 import { queueNewChapterNotification } from './notification_queue';
+import { checkCreatorUpdates } from './creator_update_checker';
+import { chapterFollowerSelect, shouldNotifyFollower, type ChapterFollower } from './chapter_followers';
 
 const mangadexClient = new MangaDexClient();
 
@@ -11,7 +13,9 @@ const BATCH_DELAY = 300; // ms between batches to respect rate limits
 
 /**
  * Poll MangaDex for new chapters of all followed manga.
- * For each new chapter found, fan out a notification to every follower.
+ * For each new chapter found, fan out a notification to every follower whose
+ * settings for that manga allow it (see shouldNotifyFollower), then check
+ * followed groups and authors (see checkCreatorUpdates).
  *
  * Uses Redis key `noti:last-chapter-check` as the watermark timestamp.
  * On first run (no key), defaults to 35 minutes ago.
@@ -52,6 +56,7 @@ export async function checkNewChapters(): Promise<void> {
 
     if (mangaIds.length === 0) {
         console.log('[NewChapterChecker] No followed manga. Skipping.');
+        await checkCreatorUpdates(since);
         await updateWatermark(checkStartTime);
         return;
     }
@@ -96,16 +101,19 @@ export async function checkNewChapters(): Promise<void> {
                 const chapterId = chapter.id;
                 const chapterNumber = chapter.attributes?.chapter ?? undefined;
 
-                // 4. Find all users following this manga
+                // 4. Find the users following this manga who want this chapter
                 const followers = await prisma.favorite.findMany({
                     where: {
                         externalMangaId: mangaId,
                         mangaSource: 'MANGADEX',
+                        notificationsMuted: false,
                     },
-                    select: { userId: true },
+                    select: chapterFollowerSelect,
                 });
 
-                const followerIds = followers.map((f: { userId: string }) => f.userId);
+                const followerIds = followers
+                    .filter((f: ChapterFollower) => shouldNotifyFollower(f, chapter))
+                    .map((f: ChapterFollower) => f.userId);
 
                 if (followerIds.length > 0) {
                     await queueNewChapterNotification(
@@ -121,7 +129,10 @@ export async function checkNewChapters(): Promise<void> {
         }
     }
 
-    // 5. Update watermark
+    // 5. Uploads and new titles from followed groups and authors
+    await checkCreatorUpdates(since);
+
+    // 6. Update watermark
     await updateWatermark(checkStartTime);
 
     console.log(
@@ -6,6 +6,7 @@ import type {
     CommentReplyPayload,
     NewChapterPayload,
     GroupUploadPayload,
+    NewTitlePayload,
     SystemNotificationPayload,
 } from './notification_types';
 
@@ -57,10 +58,11 @@ export async function queueCommentReplyNotification(
 export async function queueNewChapterNotification(
     mangaId: string,
     mangaTitle: string,
-    chapterId: string,
+    chapterId: string | undefined,
     chapterNumber: string | undefined,
     followerIds: string[],
 ): Promise<void> {
+    const chapterKey = chapterId ?? `${mangaId}:${chapterNumber ?? ''}`;
     const jobs = followerIds.map((userId) => ({
         name: 'new-chapter' as const,
         data: {
@@ -71,7 +73,7 @@ export async function queueNewChapterNotification(
             chapterNumber,
         } satisfies NewChapterPayload,
         opts: {
-            jobId: `new-chapter:${chapterId}:${userId}`,
+            jobId: `new-chapter:${chapterKey}:${userId}`,
         },
     }));
 
@@ -81,13 +83,26 @@ export async function queueNewChapterNotification(
 }
 
 /**
- * Phase 2 stub: Queue notification when a followed group uploads new manga.
+ * Queue a notification when a followed group uploads a chapter.
+ * One job per chapter and user, so a joint release by two followed groups notifies once.
  */
 export async function queueGroupUploadNotification(
     payload: GroupUploadPayload,
 ): Promise<void> {
+    const chapterKey = payload.chapterId ?? `${payload.mangaId}:${payload.chapterNumber ?? ''}`;
     await notificationQueue.add('group-upload', payload, {
-        jobId: `group-upload:${payload.groupId}:${payload.mangaId}:${payload.targetUserId}`,
+        jobId: `group-upload:${chapterKey}:${payload.targetUserId}`,
+    });
+}
+
+/**
+ * Queue a notification when a followed author gets a new title.
+ */
+export async function queueNewTitleNotification(
+    payload: NewTitlePayload,
+): Promise<void> {
+    await notificationQueue.add('new-title', payload, {
+        jobId: `new-title:${payload.mangaId}:${payload.targetUserId}`,
     });
 }
 
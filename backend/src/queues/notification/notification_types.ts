@@ -24,7 +24,8 @@ export interface NewChapterPayload {
     targetUserId: string;
     mangaId: string;
     mangaTitle: string;
-    chapterId: string;
+    /** MangaDex chapter id; local uploads only have a chapter number */
+    chapterId?: string;
     chapterNumber?: string;
 }
 
@@ -34,6 +35,17 @@ export interface GroupUploadPayload {
     groupName: string;
     mangaId: string;
     mangaTitle: string;
+    /** MangaDex chapter id; local uploads only have a chapter number */
+    chapterId?: string;
+    chapterNumber?: string;
+}
+
+export interface NewTitlePayload {
+    targetUserId: string;
+    authorId: string;
+    authorName: string;
+    mangaId: string;
+    mangaTitle: string;
 }
 
 export interface FavoriteUpdatePayload {
@@ -54,6 +66,7 @@ export interface NotificationJobMap {
     'comment-reply': CommentReplyPayload;
     'new-chapter': NewChapterPayload;
     'group-upload': GroupUploadPayload;
+    'new-title': NewTitlePayload;
     'favorite-update': FavoriteUpdatePayload;
     'system': SystemNotificationPayload;
     'check-new-chapters': Record<string, never>;
@@ -43,6 +43,14 @@ export function createNotificationWorker(): Worker {
                     await handleNewChapter(job.data as NotificationJobMap['new-chapter']);
                     break;
 
+                case 'group-upload':
+                    await handleGroupUpload(job.data as NotificationJobMap['group-upload']);
+                    break;
+
+                case 'new-title':
+                    await handleNewTitle(job.data as NotificationJobMap['new-title']);
+                    break;
+
                 case 'system':
                     await handleSystemNotification(job.data as NotificationJobMap['system']);
                     break;
@@ -161,6 +169,57 @@ async function handleNewChapter(
     });
 }
 
+async function handleGroupUpload(
+    data: NotificationJobMap['group-upload'],
+): Promise<void> {
+    const { targetUserId, groupId, groupName, mangaId, mangaTitle, chapterId, chapterNumber } = data;
+
+    const chapterLabel = chapterNumber ? `Ch.${chapterNumber}` : 'a new chapter';
+    const message = `${groupName} uploaded ${mangaTitle} — ${chapterLabel}`;
+
+    const notification = await NotificationService.createNotification({
+        userId: targetUserId,
+        type: 'GROUP_UPLOAD',
+        title: 'Group Upload',
+        message,
+        payload: { groupId, mangaId, chapterId, chapterNumber },
+    });
+
+    emitToUser(targetUserId, 'notification', {
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        payload: notification.payload,
+        read: notification.read,
+        createdAt: notification.createdAt,
+    });
+}
+
+async function handleNewTitle(
+    data: NotificationJobMap['new-title'],
+): Promise<void> {
+    const { targetUserId, authorId, authorName, mangaId, mangaTitle } = data;
+
+    const notification = await NotificationService.createNotification({
+        userId: targetUserId,
+        type: 'NEW_TITLE',
+        title: 'New Title',
+        message: `${authorName} has a new title: ${mangaTitle}`,
+        payload: { authorId, mangaId },
+    });
+
+    emitToUser(targetUserId, 'notification', {
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        payload: notification.payload,
+        read: notification.read,
+        createdAt: notification.createdAt,
+    });
+}
+
 async function handleSystemNotification(
     data: NotificationJobMap['system'],
 ): Promise<void> {
@@ -15,9 +15,57 @@ router.delete('/', FollowController.unfollowManga);
 // GET    /api/v1/follows/status       — Check follow status
 router.get('/status', FollowController.checkFollowStatus);
 
+// PATCH  /api/v1/follows/status       — Change reading status (shelf)
+router.patch('/status', FollowController.updateFollowStatus);
+
+// GET    /api/v1/follows/notifications — Notification settings of a follow
+router.get('/notifications', FollowController.getNotificationSettings);
+
+// PATCH  /api/v1/follows/notifications — Change notification settings
+router.patch('/notifications', FollowController.updateNotificationSettings);
+
 // GET    /api/v1/follows/feed         — Latest chapter feed
 router.get('/feed', FollowController.getFollowedMangaFeed);
 
+// GET    /api/v1/follows/creators     — Followed groups and authors
+router.get('/creators', FollowController.getCreatorFollows);
+
+// POST   /api/v1/follows/creators     — Follow a group or author
+router.post('/creators', FollowController.followCreator);
+
+// DELETE /api/v1/follows/creators     — Unfollow a group or author
+router.delete('/creators', FollowController.unfollowCreator);
+
+// GET    /api/v1/follows/creators/status — Check a group or author follow
+router.get('/creators/status', FollowController.checkCreatorFollowStatus);
+
+// GET    /api/v1/follows/creators/feed — Latest chapters from followed groups
+router.get('/creators/feed', FollowController.getCreatorFeed);
+
+// POST   /api/v1/follows/bulk/unfollow      — Unfollow several manga
+router.post('/bulk/unfollow', FollowController.bulkUnfollow);
+
+// PATCH  /api/v1/follows/bulk/status        — Move several follows to one shelf
+router.patch('/bulk/status', FollowController.bulkUpdateStatus);
+
+// PATCH  /api/v1/follows/bulk/notifications — Mute or unmute several follows
+router.patch('/bulk/notifications', FollowController.bulkSetMuted);
+
+// POST   /api/v1/follows/bulk/lists         — Add several followed manga to a list
+router.post('/bulk/lists', FollowController.bulkAddToList);
+
+// GET    /api/v1/follows/export       — Whole library, for exporting
+router.get('/export', FollowController.exportFollows);
+
+// POST   /api/v1/follows/import/match — Match a MAL/AniList export to MangaDex (queued)
+router.post('/import/match', FollowController.startImportMatch);
+
+// POST   /api/v1/follows/import       — Follow the reviewed matches (queued)
+router.post('/import', FollowController.startImport);
+
+// GET    /api/v1/follows/import/:jobId — Import job progress and result
+router.get('/import/:jobId', FollowController.getImportJob);
+
 // GET    /api/v1/follows              — Get user's follows
 router.get('/', FollowController.getUserFollows);
 
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import imageController from '../controllers/image_controller';
+import { imageLimiter } from '../middlewares/rate_limit';
+
+const router = Router();
+
+router.use(imageLimiter);
+
+// Public routes
+router.get('/covers/local/:mangaId', imageController.getLocalCover);
+router.get('/covers/:mangaId/:fileName', imageController.getCover);
+router.get('/chapters/:chapterId/:quality/:hash/:fileName', imageController.getChapterPage);
+
+export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { ListController } from '../controllers/list_controller';
+import { authenticateToken, optionalAuth } from '../middlewares/auth_middleware';
+
+const router = Router();
+
+// GET    /api/v1/lists/public              — Public lists from everyone
+router.get('/public', ListController.getPublicLists);
+
+// GET    /api/v1/lists/:listId             — One list; private lists only for their owner
+router.get('/:listId', optionalAuth, ListController.getList);
+
+// GET    /api/v1/lists                     — The user's own lists
+router.get('/', authenticateToken, ListController.getUserLists);
+
+// POST   /api/v1/lists                     — Create a list
+router.post('/', authenticateToken, ListController.createList);
+
+// PATCH  /api/v1/lists/:listId             — Update a list
+router.patch('/:listId', authenticateToken, ListController.updateList);
+
+// DELETE /api/v1/lists/:listId             — Delete a list
+router.delete('/:listId', authenticateToken, ListController.deleteList);
+
+// POST   /api/v1/lists/:listId/items       — Add a manga
+router.post('/:listId/items', authenticateToken, ListController.addManga);
+
+// DELETE /api/v1/lists/:listId/items       — Remove a manga
+router.delete('/:listId/items', authenticateToken, ListController.removeManga);
+
+// PUT    /api/v1/lists/:listId/items/order — Reorder the manga
+router.put('/:listId/items/order', authenticateToken, ListController.reorderItems);
+
+export default router;
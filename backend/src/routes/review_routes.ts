@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { ReviewController } from '../controllers/review_controller';
+import { authenticateToken, optionalAuth } from '../middlewares/auth_middleware';
+
+const router = Router();
+
+// GET    /api/v1/reviews/summary?mangaId=&source=   — Average score and distribution
+router.get('/summary', ReviewController.getRatingSummary);
+
+// GET    /api/v1/reviews/mine?mangaId=&source=      — The user's own rating
+router.get('/mine', authenticateToken, ReviewController.getUserReview);
+
+// GET    /api/v1/reviews?mangaId=&source=&sort=     — Written reviews for a manga
+router.get('/', optionalAuth, ReviewController.getReviews);
+
+// PUT    /api/v1/reviews                            — Rate a manga, with an optional review
+router.put('/', authenticateToken, ReviewController.saveReview);
+
+// DELETE /api/v1/reviews                            — Remove the user's rating
+router.delete('/', authenticateToken, ReviewController.deleteReview);
+
+// POST   /api/v1/reviews/:reviewId/helpful          — Mark a review as helpful
+router.post('/:reviewId/helpful', authenticateToken, ReviewController.markHelpful);
+
+// DELETE /api/v1/reviews/:reviewId/helpful          — Take back a helpful mark
+router.delete('/:reviewId/helpful', authenticateToken, ReviewController.unmarkHelpful);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { UserController } from '../controllers/user_controller';
 import { authenticateToken } from '../middlewares/auth_middleware';
 import { upload } from '../services/upload_service';
+import { progressLimiter } from '../middlewares/rate_limit';
 
 const router = Router();
 
@@ -13,6 +14,35 @@ router.get('/profile', UserController.getProfile);
 router.put('/profile', UserController.updateProfile);
 router.put('/password', UserController.updatePassword);
 
+// Preferences routes
+router.get('/preferences', UserController.getPreferences);
+router.put('/preferences', UserController.updatePreferences);
+
+// Reading progress routes
+router.get('/progress/:mangaId', UserController.getReadingProgress);
+router.put('/progress', progressLimiter, UserController.saveReadingProgress);
+
+// Chapter history routes
+router.get('/history', UserController.getHistory);
+router.get('/history/export', UserController.exportHistory);
+router.post('/history', UserController.recordHistory);
+router.post('/history/merge', UserController.mergeHistory);
+router.delete('/history', UserController.clearHistory);
+
+// Chapter read marker routes
+router.get('/read-markers', UserController.getReadMarkersByManga);
+router.get('/read-markers/:mangaId', UserController.getReadMarkers);
+router.post('/read-markers/:mangaId', UserController.updateReadMarkers);
+
+// Reading statistics
+router.get('/stats', UserController.getStats);
+
+// Page bookmark routes
+router.get('/bookmarks', UserController.getBookmarks);
+router.post('/bookmarks', UserController.createBookmark);
+router.patch('/bookmarks/:bookmarkId', UserController.updateBookmark);
+router.delete('/bookmarks/:bookmarkId', UserController.deleteBookmark);
+
 // Avatar routes
 router.post('/avatar', upload.single('avatar'), UserController.uploadAvatar);
 router.delete('/avatar', UserController.removeAvatar);
@@ -0,0 +1,171 @@
+import { prisma } from '../db/prisma';
+import { MangaSourceType, PageBookmark } from '@prisma/client';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+
+export interface CreateBookmarkData {
+  mangaId: string;
+  source: MangaSourceType;
+  /** MangaDex chapter UUID; local chapters are identified by chapterNumber alone */
+  chapterId?: string;
+  chapterNumber?: number | null;
+  /** 1-based page */
+  pageNumber: number;
+  note?: string | null;
+  mangaTitle?: string | null;
+  chapterTitle?: string | null;
+}
+
+export interface ListBookmarksOptions {
+  /** Only bookmarks in this manga */
+  mangaId?: string;
+  source?: MangaSourceType;
+  cursor?: string;
+  limit?: number;
+}
+
+const bookmarkSelect = {
+  id: true,
+  mangaId: true,
+  externalMangaId: true,
+  mangaSource: true,
+  externalChapterId: true,
+  chapterNumber: true,
+  pageNumber: true,
+  note: true,
+  mangaTitle: true,
+  chapterTitle: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export type BookmarkData = Pick<PageBookmark, keyof typeof bookmarkSelect>;
+
+function buildPageWhere(userId: string, data: CreateBookmarkData) {
+  return data.source === 'MANGADEX'
+    ? {
+        userId_externalChapterId_pageNumber: {
+          userId,
+          externalChapterId: data.chapterId!,
+          pageNumber: data.pageNumber,
+        },
+      }
+    : {
+        userId_mangaId_chapterNumber_pageNumber: {
+          userId,
+          mangaId: data.mangaId,
+          chapterNumber: data.chapterNumber!,
+          pageNumber: data.pageNumber,
+        },
+      };
+}
+
+function normalizeNote(note: string | null | undefined): string | null {
+  const trimmed = note?.trim();
+  return trimmed ? trimmed : null;
+}
+
+export class BookmarkService {
+  /**
+   * Get a user's bookmarks, newest first, optionally limited to one manga.
+   */
+  static async listBookmarks(
+    userId: string,
+    options: ListBookmarksOptions = {}
+  ): Promise<{ bookmarks: BookmarkData[]; nextCursor?: string }> {
+    const limit = options.limit || 20;
+    const mangaFilter = options.mangaId
+      ? options.source === 'LOCAL'
+        ? { mangaId: options.mangaId }
+        : { externalMangaId: options.mangaId }
+      : {};
+
+    const bookmarks = await prisma.pageBookmark.findMany({
+      where: { userId, ...mangaFilter },
+      take: limit + 1,
+      cursor: options.cursor ? { id: options.cursor } : undefined,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: bookmarkSelect,
+    });
+
+    let nextCursor: string | undefined;
+    if (bookmarks.length > limit) {
+      nextCursor = bookmarks.pop()?.id;
+    }
+
+    return { bookmarks, nextCursor };
+  }
+
+  /**
+   * Bookmark a page. Bookmarking the same page again keeps a single bookmark and replaces
+   * its note.
+   */
+  static async createBookmark(userId: string, data: CreateBookmarkData): Promise<BookmarkData> {
+    if (data.source === 'LOCAL') {
+      if (data.chapterNumber == null) {
+        throw new HttpException(StatusCodes.BAD_REQUEST, 'chapterNumber is required for local chapters');
+      }
+      const manga = await prisma.submittedManga.findUnique({
+        where: { id: data.mangaId },
+        select: { id: true },
+      });
+      if (!manga) throw new HttpException(StatusCodes.NOT_FOUND, 'Local manga not found');
+    } else if (!data.chapterId) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, 'chapterId is required for MangaDex chapters');
+    }
+
+    const identity =
+      data.source === 'MANGADEX'
+        ? {
+            externalMangaId: data.mangaId,
+            mangaId: null,
+            mangaSource: 'MANGADEX' as const,
+            externalChapterId: data.chapterId!,
+          }
+        : {
+            mangaId: data.mangaId,
+            externalMangaId: null,
+            mangaSource: 'LOCAL' as const,
+            externalChapterId: null,
+          };
+    const details = {
+      chapterNumber: data.chapterNumber ?? null,
+      note: normalizeNote(data.note),
+      mangaTitle: data.mangaTitle ?? null,
+      chapterTitle: data.chapterTitle ?? null,
+    };
+
+    return await prisma.pageBookmark.upsert({
+      where: buildPageWhere(userId, data),
+      create: { userId, ...identity, pageNumber: data.pageNumber, ...details },
+      update: details,
+      select: bookmarkSelect,
+    });
+  }
+
+  /**
+   * Change the private note on one of the user's bookmarks.
+   */
+  static async updateNote(userId: string, bookmarkId: string, note: string | null): Promise<BookmarkData> {
+    const { count } = await prisma.pageBookmark.updateMany({
+      where: { id: bookmarkId, userId },
+      data: { note: normalizeNote(note) },
+    });
+    if (count === 0) throw new HttpException(StatusCodes.NOT_FOUND, 'Bookmark not found');
+
+    return await prisma.pageBookmark.findUniqueOrThrow({
+      where: { id: bookmarkId },
+      select: bookmarkSelect,
+    });
+  }
+
+  /**
+   * Remove one of the user's bookmarks.
+   */
+  static async deleteBookmark(userId: string, bookmarkId: string): Promise<void> {
+    const { count } = await prisma.pageBookmark.deleteMany({
+      where: { id: bookmarkId, userId },
+    });
+    if (count === 0) throw new HttpException(StatusCodes.NOT_FOUND, 'Bookmark not found');
+  }
+}
@@ -0,0 +1,198 @@
+import prisma from '../db/prisma';
+import { MangaDexClient } from './mangadex_client';
+import { buildCoverProxyUrl } from './image_proxy_service';
+import { HttpException } from '../exceptions/http_exception';
+import {
+    getPublishedAfter,
+    toChapterFeedItem,
+    type ChapterFeedItem,
+    type ChapterFeedResult,
+    type FeedParams,
+} from './follow_service';
+
+const mangadexClient = new MangaDexClient();
+
+// MangaDex group ids sent in one chapter lookup; the feed uses the most recently followed
+const FEED_GROUP_LIMIT = 100;
+
+// Types
+
+export const CREATOR_TYPES = ['MANGADEX_GROUP', 'LOCAL_GROUP', 'AUTHOR'] as const;
+export type CreatorType = (typeof CREATOR_TYPES)[number];
+
+export interface CreatorFollowResult {
+    id: string;
+    creatorType: CreatorType;
+    creatorId: string;
+    name: string | null;
+    createdAt: Date;
+}
+
+const creatorFollowSelect = {
+    id: true,
+    creatorType: true,
+    creatorId: true,
+    name: true,
+    createdAt: true,
+} as const;
+
+// Service
+
+export class CreatorFollowService {
+    /** Follow a scanlation group or an author; the name is kept for listing follows */
+    static async followCreator(
+        userId: string,
+        creatorType: CreatorType,
+        creatorId: string
+    ): Promise<CreatorFollowResult> {
+        const existing = await this.findFollow(userId, creatorType, creatorId);
+        if (existing) {
+            throw new HttpException(409, 'Already following');
+        }
+
+        const name = await this.resolveName(creatorType, creatorId);
+
+        return prisma.creatorFollow.create({
+            data: { userId, creatorType, creatorId, name },
+            select: creatorFollowSelect,
+        });
+    }
+
+    static async unfollowCreator(userId: string, creatorType: CreatorType, creatorId: string): Promise<void> {
+        const existing = await this.findFollow(userId, creatorType, creatorId);
+        if (!existing) {
+            throw new HttpException(404, 'Follow record not found');
+        }
+
+        await prisma.creatorFollow.delete({ where: { id: existing.id } });
+    }
+
+    /** Whether the user follows a creator, and how many users do */
+    static async getFollowStatus(
+        userId: string,
+        creatorType: CreatorType,
+        creatorId: string
+    ): Promise<{ isFollowing: boolean; followers: number }> {
+        const [existing, followers] = await Promise.all([
+            this.findFollow(userId, creatorType, creatorId),
+            prisma.creatorFollow.count({ where: { creatorType, creatorId } }),
+        ]);
+        return { isFollowing: !!existing, followers };
+    }
+
+    /** Every group and author the user follows, newest first */
+    static async getUserCreatorFollows(userId: string): Promise<CreatorFollowResult[]> {
+        return prisma.creatorFollow.findMany({
+            where: { userId },
+            select: creatorFollowSelect,
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /** Latest chapters uploaded by the MangaDex groups the user follows, paginated by MangaDex */
+    static async getGroupUploadsFeed(userId: string, params: FeedParams = {}): Promise<ChapterFeedResult> {
+        const page = Math.max(1, params.page ?? 1);
+        const limit = Math.min(Math.max(1, params.limit ?? 20), 100);
+        const offset = (page - 1) * limit;
+
+        const follows = await prisma.creatorFollow.findMany({
+            where: { userId, creatorType: 'MANGADEX_GROUP' },
+            select: { creatorId: true },
+            orderBy: { createdAt: 'desc' },
+            take: FEED_GROUP_LIMIT,
+        });
+        if (follows.length === 0) {
+            return { data: [], total: 0, page, limit, hasMore: false };
+        }
+
+        const response = await mangadexClient.getChaptersByGroups(
+            follows.map((f: { creatorId: string }) => f.creatorId),
+            {
+                limit,
+                offset,
+                translatedLanguage: params.translatedLanguage,
+                // MangaDex accepts: YYYY-MM-DDTHH:mm:ss - ISO without ms and z
+                createdAtSince: getPublishedAfter(params.dateRange).toISOString().slice(0, 19),
+            }
+        );
+        const chapters: any[] = response?.data ?? [];
+
+        // /chapter does not nest cover_art inside the manga relationship
+        const coverMap: Record<string, string> = {};
+        const mangaIds = [
+            ...new Set(
+                chapters
+                    .map((ch) => ch.relationships?.find((r: any) => r.type === 'manga')?.id)
+                    .filter(Boolean)
+            ),
+        ] as string[];
+        if (mangaIds.length > 0) {
+            try {
+                const mangaData = await mangadexClient.getMultipleMangaById(mangaIds, ['cover_art']);
+                for (const manga of mangaData.data ?? []) {
+                    const fileName = manga.relationships?.find((r: any) => r.type === 'cover_art')?.attributes?.fileName;
+                    if (fileName) {
+                        coverMap[manga.id] = buildCoverProxyUrl(manga.id, fileName);
+                    }
+                }
+            } catch {
+                // Non-fatal: chapters will render without covers
+            }
+        }
+
+        let data: ChapterFeedItem[] = chapters.map((ch) => toChapterFeedItem(ch, coverMap));
+
+        // Enrich with comment counts from our DB
+        if (data.length > 0) {
+            const counts = await prisma.comment.groupBy({
+                by: ['chapterId'],
+                where: { chapterId: { in: data.map((c) => c.chapterId) } },
+                _count: { id: true },
+            });
+            const countMap: Record<string, number> = {};
+            for (const row of counts) {
+                if (row.chapterId) countMap[row.chapterId] = row._count.id;
+            }
+            data = data.map((ch) => ({ ...ch, commentCount: countMap[ch.chapterId] ?? 0 }));
+        }
+
+        const total = response?.total ?? data.length;
+        return { data, total, page, limit, hasMore: offset + data.length < total };
+    }
+
+    // Private helpers
+
+    private static async findFollow(userId: string, creatorType: CreatorType, creatorId: string) {
+        return prisma.creatorFollow.findUnique({
+            where: { userId_creatorType_creatorId: { userId, creatorType, creatorId } },
+        });
+    }
+
+    /**
+     * Name of the creator, checking it exists. MangaDex being unreachable does not block
+     * following; the name is then left empty.
+     */
+    private static async resolveName(creatorType: CreatorType, creatorId: string): Promise<string | null> {
+        if (creatorType === 'LOCAL_GROUP') {
+            const group = await prisma.translationGroup.findUnique({
+                where: { id: creatorId },
+                select: { name: true },
+            });
+            if (!group) throw new HttpException(404, 'Group not found');
+            return group.name;
+        }
+
+        try {
+            const response =
+                creatorType === 'MANGADEX_GROUP'
+                    ? await mangadexClient.getGroup(creatorId)
+                    : await mangadexClient.getAuthor(creatorId);
+            return response?.data?.attributes?.name ?? null;
+        } catch (error: any) {
+            if (error.response?.status === 404) {
+                throw new HttpException(404, creatorType === 'AUTHOR' ? 'Author not found on MangaDex' : 'Group not found on MangaDex');
+            }
+            return null;
+        }
+    }
+}
@@ -0,0 +1,311 @@
+import { prisma } from '../db/prisma';
+import { ListVisibility, MangaSourceType, Prisma } from '@prisma/client';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+
+export const MAX_LISTS_PER_USER = 100;
+export const MAX_ITEMS_PER_LIST = 500;
+
+export interface CustomListData {
+  name: string;
+  description?: string | null;
+  visibility?: ListVisibility;
+}
+
+export interface ListMangaData {
+  /** MangaDex UUID or local manga id, depending on source */
+  mangaId: string;
+  source: MangaSourceType;
+  /** Snapshot for MangaDex manga; local manga use their own record */
+  mangaTitle?: string | null;
+  coverUrl?: string | null;
+}
+
+export interface ListPaginationOptions {
+  cursor?: string;
+  limit?: number;
+}
+
+const listSummarySelect = {
+  id: true,
+  userId: true,
+  name: true,
+  description: true,
+  visibility: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { items: true } },
+} as const;
+
+const ownerSelect = { id: true, displayName: true } as const;
+
+const itemSelect = {
+  id: true,
+  mangaId: true,
+  externalMangaId: true,
+  mangaSource: true,
+  position: true,
+  mangaTitle: true,
+  coverUrl: true,
+  addedAt: true,
+  manga: { select: { id: true, title: true, coverPublicId: true } },
+} as const;
+
+function buildMangaWhere(mangaId: string, source: MangaSourceType) {
+  return source === 'MANGADEX' ? { externalMangaId: mangaId } : { mangaId };
+}
+
+function toSummary<T extends { _count: { items: number } }>({ _count, ...list }: T) {
+  return { ...list, itemCount: _count.items };
+}
+
+export class CustomListService {
+  /**
+   * Get a user's own lists, most recently changed first. With a manga, each list also says
+   * whether it already holds that manga (for the "Add to list" picker).
+   */
+  static async getUserLists(userId: string, manga?: { mangaId: string; source: MangaSourceType }) {
+    const lists = await prisma.customList.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        ...listSummarySelect,
+        ...(manga ? { items: { where: buildMangaWhere(manga.mangaId, manga.source), select: { id: true } } } : {}),
+      },
+    });
+
+    return lists.map(({ items, ...list }: { items?: { id: string }[]; _count: { items: number } }) => ({
+      ...toSummary(list),
+      ...(manga ? { containsManga: (items?.length ?? 0) > 0 } : {}),
+    }));
+  }
+
+  /**
+   * Get public lists from everyone, most recently changed first.
+   */
+  static async getPublicLists(options: ListPaginationOptions = {}) {
+    const limit = options.limit || 20;
+
+    const lists = await prisma.customList.findMany({
+      where: { visibility: 'PUBLIC' },
+      take: limit + 1,
+      cursor: options.cursor ? { id: options.cursor } : undefined,
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      select: { ...listSummarySelect, user: { select: ownerSelect } },
+    });
+
+    let nextCursor: string | undefined;
+    if (lists.length > limit) {
+      nextCursor = lists.pop()?.id;
+    }
+
+    return { lists: lists.map(toSummary), nextCursor };
+  }
+
+  /**
+   * Get a list with its manga in order. Private lists only exist for their owner; unlisted and
+   * public ones open for anyone with the id.
+   */
+  static async getList(listId: string, viewerId?: string) {
+    const list = await prisma.customList.findUnique({
+      where: { id: listId },
+      select: {
+        ...listSummarySelect,
+        user: { select: ownerSelect },
+        items: { orderBy: { position: 'asc' }, select: itemSelect },
+      },
+    });
+
+    if (!list || (list.visibility === 'PRIVATE' && list.userId !== viewerId)) {
+      throw new HttpException(StatusCodes.NOT_FOUND, 'List not found');
+    }
+
+    return { ...toSummary(list), isOwner: list.userId === viewerId };
+  }
+
+  static async createList(userId: string, data: CustomListData) {
+    const count = await prisma.customList.count({ where: { userId } });
+    if (count >= MAX_LISTS_PER_USER) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, `You can have at most ${MAX_LISTS_PER_USER} lists`);
+    }
+
+    const list = await prisma.customList.create({
+      data: {
+        userId,
+        name: data.name,
+        description: data.description ?? null,
+        visibility: data.visibility ?? 'PRIVATE',
+      },
+      select: listSummarySelect,
+    });
+    return toSummary(list);
+  }
+
+  static async updateList(userId: string, listId: string, data: Partial<CustomListData>) {
+    await CustomListService.findOwnList(userId, listId);
+
+    const list = await prisma.customList.update({
+      where: { id: listId },
+      data,
+      select: listSummarySelect,
+    });
+    return toSummary(list);
+  }
+
+  static async deleteList(userId: string, listId: string): Promise<void> {
+    await CustomListService.findOwnList(userId, listId);
+    await prisma.customList.delete({ where: { id: listId } });
+  }
+
+  /**
+   * Add a manga at the end of a list.
+   */
+  static async addManga(userId: string, listId: string, data: ListMangaData) {
+    await CustomListService.findOwnList(userId, listId);
+
+    const existing = await prisma.customListItem.findFirst({
+      where: { listId, ...buildMangaWhere(data.mangaId, data.source) },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new HttpException(StatusCodes.CONFLICT, 'This manga is already in the list');
+    }
+
+    if (data.source === 'LOCAL') {
+      const manga = await prisma.submittedManga.findUnique({
+        where: { id: data.mangaId },
+        select: { id: true },
+      });
+      if (!manga) throw new HttpException(StatusCodes.NOT_FOUND, 'Local manga not found');
+    }
+
+    const { _count, _max } = await prisma.customListItem.aggregate({
+      where: { listId },
+      _count: { _all: true },
+      _max: { position: true },
+    });
+    if (_count._all >= MAX_ITEMS_PER_LIST) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, `A list can hold at most ${MAX_ITEMS_PER_LIST} manga`);
+    }
+
+    const identity =
+      data.source === 'MANGADEX'
+        ? { externalMangaId: data.mangaId, mangaId: null, mangaTitle: data.mangaTitle ?? null, coverUrl: data.coverUrl ?? null }
+        : { mangaId: data.mangaId, externalMangaId: null };
+
+    const [item] = await prisma.$transaction([
+      prisma.customListItem.create({
+        data: { listId, mangaSource: data.source, position: (_max.position ?? -1) + 1, ...identity },
+        select: itemSelect,
+      }),
+      // Adding counts as a change to the list
+      prisma.customList.update({ where: { id: listId }, data: { updatedAt: new Date() } }),
+    ]);
+    return item;
+  }
+
+  /**
+   * Add many manga at the end of a list, in the given order. Manga already in the list are
+   * skipped; the batch is refused if the rest would not fit. Runs in its own transaction, or
+   * in the caller's when one is passed.
+   */
+  static async addMangaBatch(
+    userId: string,
+    listId: string,
+    items: ListMangaData[],
+    tx?: Prisma.TransactionClient
+  ): Promise<{ added: number; skipped: number }> {
+    if (!tx) {
+      return prisma.$transaction((client: Prisma.TransactionClient) =>
+        CustomListService.addMangaBatch(userId, listId, items, client)
+      );
+    }
+
+    await CustomListService.findOwnList(userId, listId, tx);
+
+    const existing: { mangaId: string | null; externalMangaId: string | null }[] = await tx.customListItem.findMany({
+      where: {
+        listId,
+        OR: [
+          { mangaId: { in: items.filter((item) => item.source === 'LOCAL').map((item) => item.mangaId) } },
+          { externalMangaId: { in: items.filter((item) => item.source === 'MANGADEX').map((item) => item.mangaId) } },
+        ],
+      },
+      select: { mangaId: true, externalMangaId: true },
+    });
+    const inList = new Set(existing.map((item) => item.externalMangaId ?? item.mangaId));
+    const toAdd = items.filter((item) => !inList.has(item.mangaId));
+    if (toAdd.length === 0) {
+      return { added: 0, skipped: items.length };
+    }
+
+    const { _count, _max } = await tx.customListItem.aggregate({
+      where: { listId },
+      _count: { _all: true },
+      _max: { position: true },
+    });
+    if (_count._all + toAdd.length > MAX_ITEMS_PER_LIST) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, `A list can hold at most ${MAX_ITEMS_PER_LIST} manga`);
+    }
+
+    const start = (_max.position ?? -1) + 1;
+    await tx.customListItem.createMany({
+      data: toAdd.map((item, i) => ({
+        listId,
+        mangaSource: item.source,
+        position: start + i,
+        ...(item.source === 'MANGADEX'
+          ? { externalMangaId: item.mangaId, mangaId: null, mangaTitle: item.mangaTitle ?? null, coverUrl: item.coverUrl ?? null }
+          : { mangaId: item.mangaId, externalMangaId: null }),
+      })),
+    });
+    await tx.customList.update({ where: { id: listId }, data: { updatedAt: new Date() } });
+    return { added: toAdd.length, skipped: items.length - toAdd.length };
+  }
+
+  static async removeManga(userId: string, listId: string, mangaId: string, source: MangaSourceType): Promise<void> {
+    await CustomListService.findOwnList(userId, listId);
+
+    const { count } = await prisma.customListItem.deleteMany({
+      where: { listId, ...buildMangaWhere(mangaId, source) },
+    });
+    if (count === 0) {
+      throw new HttpException(StatusCodes.NOT_FOUND, 'This manga is not in the list');
+    }
+  }
+
+  /**
+   * Put a list's items in a new order. The ids must be exactly the list's items.
+   */
+  static async reorderItems(userId: string, listId: string, itemIds: string[]): Promise<void> {
+    await CustomListService.findOwnList(userId, listId);
+
+    const items: { id: string }[] = await prisma.customListItem.findMany({
+      where: { listId },
+      select: { id: true },
+    });
+    const current = new Set(items.map((item) => item.id));
+    if (itemIds.length !== current.size || new Set(itemIds).size !== itemIds.length || !itemIds.every((id) => current.has(id))) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, 'The new order must contain every item of the list once');
+    }
+
+    await prisma.$transaction(
+      itemIds.map((id, position) => prisma.customListItem.update({ where: { id }, data: { position } }))
+    );
+  }
+
+  private static async findOwnList(
+    userId: string,
+    listId: string,
+    client: Prisma.TransactionClient | typeof prisma = prisma
+  ) {
+    const list = await client.customList.findFirst({
+      where: { id: listId, userId },
+      select: { id: true },
+    });
+    if (!list) {
+      throw new HttpException(StatusCodes.NOT_FOUND, 'List not found');
+    }
+    return list;
+  }
+}
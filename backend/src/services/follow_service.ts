@@ -1,13 +1,25 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../db/prisma';
 import { MangaDexClient } from './mangadex_client';
+import { buildCoverProxyUrl } from './image_proxy_service';
 import { HttpException } from '../exceptions/http_exception';
 import redisClient from '../db/redis_client';
+import { CustomListService } from './custom_list_service';
 
 const mangadexClient = new MangaDexClient();
 
 // How long (seconds) the full sorted chapter list is cached per user+filters
 const FEED_CACHE_TTL = 5 * 60; // 5 minutes
 
+// Follows created per query during a library import
+const IMPORT_BATCH_SIZE = 100;
+
+// MangaDex returns at most 100 manga per id lookup
+const MANGADEX_BATCH_SIZE = 100;
+
+// Most follows changed by one bulk action
+export const MAX_BULK_FOLLOWS = 500;
+
 // Deterministic Redis key for a user feed cache
 function buildFeedCacheKey(
     userId: string,
@@ -37,24 +49,70 @@ async function invalidateUserFeedCache(userId: string): Promise<void> {
     }
 }
 
+// MangaDex links are user-edited; MAL and AniList ids that are not plain numbers are dropped
+function numericId(value: string | undefined): string | null {
+    return value && /^\d+$/.test(value) ? value : null;
+}
+
 // Types
 
 export type MangaSource = 'MANGADEX' | 'LOCAL';
 
+export const READING_STATUSES = ['READING', 'PLAN_TO_READ', 'COMPLETED', 'ON_HOLD', 'DROPPED'] as const;
+export type ReadingStatus = (typeof READING_STATUSES)[number];
+
 export interface FollowResult {
     id: string;
     userId: string;
     mangaId: string | null;
     externalMangaId: string | null;
     mangaSource: MangaSource;
+    status: ReadingStatus;
     createdAt: Date;
 }
 
+/** One followed manga with everything needed to rebuild the library elsewhere */
+export interface ExportedFollow {
+    source: MangaSource;
+    /** MangaDex UUID or local manga id, depending on source */
+    mangaId: string;
+    title: string | null;
+    status: ReadingStatus;
+    followedAt: Date;
+    /** From the manga's MangaDex links; always null for local manga */
+    malId: string | null;
+    anilistId: string | null;
+    lastReadChapter: number | null;
+    startedReadingAt: Date | null;
+    lastReadAt: Date | null;
+}
+
+/** New chapter notification settings of one follow */
+export interface NotificationSettings {
+    muted: boolean;
+    /** Translated languages to notify about; empty means the user's preferred languages */
+    languages: string[];
+    /** MangaDex scanlation groups to notify about; empty means any group */
+    groupIds: string[];
+}
+
+export interface NotificationSettingsDetails extends NotificationSettings {
+    /** The user's preferred languages, used while `languages` is empty (null if never saved) */
+    defaultLanguages: string[] | null;
+    /** Groups that released recent chapters of the manga, plus any already allowed */
+    groups: Array<{ id: string; name: string | null }>;
+}
+
 export interface PaginationOptions {
     page?: number;
     limit?: number;
 }
 
+export interface FollowListOptions extends PaginationOptions {
+    /** Only follows on this shelf */
+    status?: ReadingStatus;
+}
+
 export interface FeedParams extends PaginationOptions {
     translatedLanguage?: string[];
     /** Filter: 'today' | 'week' | 'month' | undefined (all time) */
@@ -101,7 +159,19 @@ function buildWhereBySource(
     return { userId, mangaId: mangaIdentifier };
 }
 
-function getPublishedAfter(dateRange?: FeedParams['dateRange']): Date {
+function toNotificationSettings(favorite: {
+    notificationsMuted: boolean;
+    notifyLanguages: string[];
+    notifyGroupIds: string[];
+}): NotificationSettings {
+    return {
+        muted: favorite.notificationsMuted,
+        languages: favorite.notifyLanguages,
+        groupIds: favorite.notifyGroupIds,
+    };
+}
+
+export function getPublishedAfter(dateRange?: FeedParams['dateRange']): Date {
     const now = new Date();
     if (dateRange === 'today') {
         now.setHours(0, 0, 0, 0);
@@ -120,6 +190,43 @@ function getPublishedAfter(dateRange?: FeedParams['dateRange']): Date {
     return now;
 }
 
+/** Map a MangaDex chapter (with manga and scanlation_group included) to a feed item */
+export function toChapterFeedItem(ch: any, coverMap: Record<string, string>): ChapterFeedItem {
+    const mangaRel = ch.relationships?.find((r: any) => r.type === 'manga');
+    const groupRel = ch.relationships?.find((r: any) => r.type === 'scanlation_group');
+    const groupRels = (ch.relationships ?? []).filter((r: any) => r.type === 'scanlation_group');
+    const title =
+        mangaRel?.attributes?.title?.en ??
+        Object.values(mangaRel?.attributes?.title ?? {})[0] ??
+        'Unknown';
+    const resolvedMangaId = mangaRel?.id ?? '';
+    const coverUrl = coverMap[resolvedMangaId] ?? null;
+    const scanlationGroup = groupRel?.attributes?.name ?? null;
+    const scanlationGroupId = groupRel?.id ?? null;
+    const scanlationGroups = groupRels
+        .map((r: any) => ({ id: r.id, name: r.attributes?.name ?? '' }))
+        .filter((g: any) => g.name);
+
+    return {
+        chapterId: ch.id,
+        chapterNumber: ch.attributes?.chapter ?? null,
+        volume: ch.attributes?.volume ?? null,
+        title: ch.attributes?.title ?? null,
+        publishAt: ch.attributes?.publishAt,
+        readableAt: ch.attributes?.readableAt ?? null,
+        externalUrl: ch.attributes?.externalUrl ?? null,
+        mangaId: resolvedMangaId,
+        mangaTitle: title as string,
+        coverUrl,
+        translatedLanguage: ch.attributes?.translatedLanguage ?? null,
+        scanlationGroup,
+        scanlationGroupId,
+        scanlationGroups,
+        commentCount: 0,
+        source: 'MANGADEX',
+    };
+}
+
 // Service
 
 export class FollowService {
@@ -131,7 +238,8 @@ export class FollowService {
     static async followManga(
         userId: string,
         mangaIdentifier: string,
-        source: MangaSource
+        source: MangaSource,
+        status: ReadingStatus = 'READING'
     ): Promise<FollowResult> {
         // Check duplicate
         const existing = await this.findFollow(userId, mangaIdentifier, source);
@@ -155,12 +263,14 @@ export class FollowService {
                     externalMangaId: mangaIdentifier,
                     mangaId: null,
                     mangaSource: 'MANGADEX' as const,
+                    status,
                 }
                 : {
                     userId,
                     mangaId: mangaIdentifier,
                     externalMangaId: null,
                     mangaSource: 'LOCAL' as const,
+                    status,
                 };
 
         const favorite = await prisma.favorite.create({ data });
@@ -190,30 +300,293 @@ export class FollowService {
         await invalidateUserFeedCache(userId);
     }
 
+    /**
+     * Move a followed manga to another shelf. The feed is unaffected, so its cache is kept.
+     */
+    static async updateFollowStatus(
+        userId: string,
+        mangaIdentifier: string,
+        source: MangaSource,
+        status: ReadingStatus
+    ): Promise<FollowResult> {
+        const existing = await this.findFollow(userId, mangaIdentifier, source);
+        if (!existing) {
+            throw new HttpException(404, 'Follow record not found');
+        }
+
+        const favorite = await prisma.favorite.update({
+            where: { id: existing.id },
+            data: { status },
+        });
+        return favorite as FollowResult;
+    }
+
+    /**
+     * Follow many MangaDex manga at once, for library imports. Manga already followed keep
+     * their shelf and are counted as skipped.
+     */
+    static async importFollows(
+        userId: string,
+        items: { mangaId: string; status: ReadingStatus }[],
+        onProgress?: (progress: { processed: number; total: number }) => Promise<void> | void
+    ): Promise<{ created: number; skipped: number }> {
+        let created = 0;
+
+        for (let i = 0; i < items.length; i += IMPORT_BATCH_SIZE) {
+            const batch = items.slice(i, i + IMPORT_BATCH_SIZE);
+            const result = await prisma.favorite.createMany({
+                data: batch.map((item) => ({
+                    userId,
+                    externalMangaId: item.mangaId,
+                    mangaId: null,
+                    mangaSource: 'MANGADEX' as const,
+                    status: item.status,
+                })),
+                skipDuplicates: true,
+            });
+            created += result.count;
+            await onProgress?.({ processed: i + batch.length, total: items.length });
+        }
+
+        // Invalidate feed cache — the list of followed manga changed
+        if (created > 0) await invalidateUserFeedCache(userId);
+
+        return { created, skipped: items.length - created };
+    }
+
+    /**
+     * All of a user's follows with their reading progress, oldest first, for exporting.
+     * MangaDex manga get their title and MyAnimeList/AniList ids from MangaDex; when MangaDex
+     * is unreachable those are left empty rather than failing the export.
+     */
+    static async exportFollows(userId: string): Promise<ExportedFollow[]> {
+        const [favorites, readHistory] = await Promise.all([
+            prisma.favorite.findMany({
+                where: { userId },
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+                include: { manga: { select: { title: true } } },
+            }),
+            prisma.readHistory.findMany({
+                where: { userId },
+                select: { mangaId: true, externalMangaId: true, chapterNumber: true, createdAt: true, lastReadAt: true },
+            }),
+        ]);
+
+        type Progress = { chapterNumber: number | null; createdAt: Date; lastReadAt: Date };
+        const progressByManga = new Map<string, Progress>();
+        for (const entry of readHistory as Array<Progress & { mangaId: string | null; externalMangaId: string | null }>) {
+            const key = entry.externalMangaId ?? entry.mangaId;
+            if (key) progressByManga.set(key, entry);
+        }
+
+        const externalIds: string[] = favorites
+            .map((favorite: { externalMangaId: string | null }) => favorite.externalMangaId)
+            .filter((id: string | null): id is string => !!id);
+        const metadata = new Map<string, { title: string | null; malId: string | null; anilistId: string | null }>();
+        for (let i = 0; i < externalIds.length; i += MANGADEX_BATCH_SIZE) {
+            try {
+                const response = await mangadexClient.getMultipleMangaById(externalIds.slice(i, i + MANGADEX_BATCH_SIZE), []);
+                for (const m of response?.data ?? []) {
+                    const title: Record<string, string> = m.attributes?.title ?? {};
+                    metadata.set(m.id, {
+                        title: title.en ?? Object.values(title)[0] ?? null,
+                        malId: numericId(m.attributes?.links?.mal),
+                        anilistId: numericId(m.attributes?.links?.al),
+                    });
+                }
+            } catch {
+                // Export what we have — ids and progress are still worth keeping
+            }
+        }
+
+        return favorites.map((favorite: FollowResult & { manga: { title: string } | null }) => {
+            const mangaId = (favorite.externalMangaId ?? favorite.mangaId)!;
+            const meta = favorite.externalMangaId ? metadata.get(favorite.externalMangaId) : undefined;
+            const progress = progressByManga.get(mangaId);
+            return {
+                source: favorite.mangaSource,
+                mangaId,
+                title: favorite.manga?.title ?? meta?.title ?? null,
+                status: favorite.status,
+                followedAt: favorite.createdAt,
+                malId: meta?.malId ?? null,
+                anilistId: meta?.anilistId ?? null,
+                lastReadChapter: progress?.chapterNumber ?? null,
+                startedReadingAt: progress?.createdAt ?? null,
+                lastReadAt: progress?.lastReadAt ?? null,
+            };
+        });
+    }
+
+    /** Notification settings of a follow, with what the settings page needs to edit them */
+    static async getNotificationSettings(
+        userId: string,
+        mangaIdentifier: string,
+        source: MangaSource
+    ): Promise<NotificationSettingsDetails> {
+        const existing = await this.findFollow(userId, mangaIdentifier, source);
+        if (!existing) {
+            throw new HttpException(404, 'Follow record not found');
+        }
+
+        const preferences = await prisma.userPreferences.findUnique({
+            where: { userId },
+            select: { preferredLanguages: true },
+        });
+
+        const groups = new Map<string, string | null>();
+        if (source === 'MANGADEX') {
+            try {
+                const feed = await mangadexClient.getChaptersForManga(mangaIdentifier, {
+                    limit: 100,
+                    order: { readableAt: 'desc' },
+                    includes: ['scanlation_group'],
+                });
+                for (const chapter of feed?.data ?? []) {
+                    for (const rel of chapter.relationships ?? []) {
+                        if (rel.type === 'scanlation_group' && rel.attributes?.name) {
+                            groups.set(rel.id, rel.attributes.name);
+                        }
+                    }
+                }
+            } catch {
+                // The settings stay editable without the group names
+            }
+        }
+        for (const groupId of existing.notifyGroupIds) {
+            if (!groups.has(groupId)) groups.set(groupId, null);
+        }
+
+        return {
+            ...toNotificationSettings(existing),
+            defaultLanguages: preferences?.preferredLanguages ?? null,
+            groups: [...groups].map(([id, name]) => ({ id, name })),
+        };
+    }
+
+    /** Change the notification settings of a follow (partial update) */
+    static async updateNotificationSettings(
+        userId: string,
+        mangaIdentifier: string,
+        source: MangaSource,
+        settings: Partial<NotificationSettings>
+    ): Promise<NotificationSettings> {
+        const existing = await this.findFollow(userId, mangaIdentifier, source);
+        if (!existing) {
+            throw new HttpException(404, 'Follow record not found');
+        }
+
+        const favorite = await prisma.favorite.update({
+            where: { id: existing.id },
+            data: {
+                notificationsMuted: settings.muted,
+                notifyLanguages: settings.languages,
+                notifyGroupIds: settings.groupIds,
+            },
+        });
+        return toNotificationSettings(favorite);
+    }
+
+    /**
+     * Unfollow many manga at once. Either every follow goes or none does, and the feed cache
+     * is cleared once for the whole batch.
+     */
+    static async bulkUnfollow(userId: string, followIds: string[]): Promise<{ count: number }> {
+        const { count } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await this.findOwnFollows(userId, followIds, tx);
+            return tx.favorite.deleteMany({ where: { userId, id: { in: followIds } } });
+        });
+
+        // Invalidate feed cache — the list of followed manga changed
+        await invalidateUserFeedCache(userId);
+
+        return { count };
+    }
+
+    /** Move many follows to one shelf. The feed is unaffected, so its cache is kept. */
+    static async bulkUpdateStatus(
+        userId: string,
+        followIds: string[],
+        status: ReadingStatus
+    ): Promise<{ count: number }> {
+        const { count } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await this.findOwnFollows(userId, followIds, tx);
+            return tx.favorite.updateMany({ where: { userId, id: { in: followIds } }, data: { status } });
+        });
+        return { count };
+    }
+
+    /** Mute or unmute new chapter notifications for many follows */
+    static async bulkSetMuted(userId: string, followIds: string[], muted: boolean): Promise<{ count: number }> {
+        const { count } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            await this.findOwnFollows(userId, followIds, tx);
+            return tx.favorite.updateMany({
+                where: { userId, id: { in: followIds } },
+                data: { notificationsMuted: muted },
+            });
+        });
+        return { count };
+    }
+
+    /**
+     * Add many followed manga to one of the user's lists. MangaDex manga get their title and
+     * cover from MangaDex for the list snapshot; when MangaDex is unreachable they are added
+     * without one. The snapshots are fetched first, so the ownership checks and the insert
+     * share one short transaction.
+     */
+    static async bulkAddToList(
+        userId: string,
+        followIds: string[],
+        listId: string
+    ): Promise<{ added: number; skipped: number }> {
+        const externalIds: string[] = (
+            await prisma.favorite.findMany({
+                where: { userId, id: { in: followIds }, externalMangaId: { not: null } },
+                select: { externalMangaId: true },
+            })
+        ).map((follow: { externalMangaId: string | null }) => follow.externalMangaId!);
+        const snapshots = await this.fetchListSnapshots(externalIds);
+
+        return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+            const follows = await this.findOwnFollows(userId, followIds, tx);
+            return CustomListService.addMangaBatch(
+                userId,
+                listId,
+                follows.map((follow) =>
+                    follow.mangaSource === 'MANGADEX'
+                        ? { mangaId: follow.externalMangaId!, source: 'MANGADEX' as const, ...snapshots.get(follow.externalMangaId!) }
+                        : { mangaId: follow.mangaId!, source: 'LOCAL' as const }
+                ),
+                tx
+            );
+        });
+    }
+
     /** Check if a user is following a specific manga */
     static async isFollowing(
         userId: string,
         mangaIdentifier: string,
         source: MangaSource
-    ): Promise<{ isFollowing: boolean; followId?: string }> {
+    ): Promise<{ isFollowing: boolean; followId?: string; status?: ReadingStatus }> {
         const record = await this.findFollow(userId, mangaIdentifier, source);
         return record
-            ? { isFollowing: true, followId: record.id }
+            ? { isFollowing: true, followId: record.id, status: record.status }
             : { isFollowing: false };
     }
 
-    /** Get all follows for a user, paginated */
+    /** Get all follows for a user, paginated, optionally from one shelf */
     static async getUserFollows(
         userId: string,
-        options: PaginationOptions = {}
+        options: FollowListOptions = {}
     ) {
         const page = Math.max(1, options.page ?? 1);
         const limit = Math.min(50, options.limit ?? 20);
         const skip = (page - 1) * limit;
+        const where = { userId, ...(options.status ? { status: options.status } : {}) };
 
         const [data, total] = await prisma.$transaction([
             prisma.favorite.findMany({
-                where: { userId },
+                where,
                 orderBy: { createdAt: 'desc' },
                 skip,
                 take: limit,
@@ -228,12 +601,27 @@ export class FollowService {
                     },
                 },
             }),
-            prisma.favorite.count({ where: { userId } }),
+            prisma.favorite.count({ where }),
         ]);
 
         return { data, total, page, limit, hasMore: skip + data.length < total };
     }
 
+    /** Number of follows on each shelf; shelves without follows count 0 */
+    static async getStatusCounts(userId: string): Promise<Record<ReadingStatus, number>> {
+        const groups = await prisma.favorite.groupBy({
+            by: ['status'],
+            where: { userId },
+            _count: { _all: true },
+        });
+
+        const counts = Object.fromEntries(READING_STATUSES.map((status) => [status, 0])) as Record<ReadingStatus, number>;
+        for (const group of groups as Array<{ status: ReadingStatus; _count: { _all: number } }>) {
+            counts[group.status] = group._count._all;
+        }
+        return counts;
+    }
+
     /**
      * Get latest chapter feed from all followed MangaDex manga.
      * Uses a single batched request (GET /chapter?manga[]=...) to respect rate limits.
@@ -293,7 +681,7 @@ export class FollowService {
                         const coverRel = manga.relationships?.find((r: any) => r.type === 'cover_art');
                         const fileName = coverRel?.attributes?.fileName;
                         if (fileName) {
-                            coverMap[manga.id] = `https://uploads.mangadex.org/covers/${manga.id}/${fileName}.256.jpg`;
+                            coverMap[manga.id] = buildCoverProxyUrl(manga.id, fileName);
                         }
                     }
                 }
@@ -324,41 +712,7 @@ export class FollowService {
 
                 for (const result of results) {
                     if (result.status !== 'fulfilled' || !result.value?.data) continue;
-                    const chapters = result.value.data.map((ch: any) => {
-                        const mangaRel = ch.relationships?.find((r: any) => r.type === 'manga');
-                        const groupRel = ch.relationships?.find((r: any) => r.type === 'scanlation_group');
-                        const groupRels = (ch.relationships ?? []).filter((r: any) => r.type === 'scanlation_group');
-                        const title =
-                            mangaRel?.attributes?.title?.en ??
-                            Object.values(mangaRel?.attributes?.title ?? {})[0] ??
-                            'Unknown';
-                        const resolvedMangaId = mangaRel?.id ?? '';
-                        const coverUrl = coverMap[resolvedMangaId] ?? null;
-                        const scanlationGroup = groupRel?.attributes?.name ?? null;
-                        const scanlationGroupId = groupRel?.id ?? null;
-                        const scanlationGroups = groupRels
-                            .map((r: any) => ({ id: r.id, name: r.attributes?.name ?? '' }))
-                            .filter((g: any) => g.name);
-
-                        return {
-                            chapterId: ch.id,
-                            chapterNumber: ch.attributes?.chapter ?? null,
-                            volume: ch.attributes?.volume ?? null,
-                            title: ch.attributes?.title ?? null,
-                            publishAt: ch.attributes?.publishAt,
-                            readableAt: ch.attributes?.readableAt ?? null,
-                            externalUrl: ch.attributes?.externalUrl ?? null,
-                            mangaId: resolvedMangaId,
-                            mangaTitle: title as string,
-                            coverUrl,
-                            translatedLanguage: ch.attributes?.translatedLanguage ?? null,
-                            scanlationGroup,
-                            scanlationGroupId,
-                            scanlationGroups,
-                            commentCount: 0,
-                            source: 'MANGADEX' as const,
-                        } satisfies ChapterFeedItem;
-                    });
+                    const chapters = result.value.data.map((ch: any) => toChapterFeedItem(ch, coverMap));
                     allChapters!.push(...chapters);
                 }
             }
@@ -414,4 +768,52 @@ export class FollowService {
         const where = buildWhereBySource(userId, mangaIdentifier, source);
         return prisma.favorite.findFirst({ where });
     }
+
+    /** Title and cover of MangaDex manga for list snapshots; manga MangaDex doesn't return have none */
+    private static async fetchListSnapshots(externalIds: string[]) {
+        const snapshots = new Map<string, { mangaTitle: string; coverUrl: string | null }>();
+        for (let i = 0; i < externalIds.length; i += MANGADEX_BATCH_SIZE) {
+            try {
+                const response = await mangadexClient.getMultipleMangaById(
+                    externalIds.slice(i, i + MANGADEX_BATCH_SIZE),
+                    ['cover_art']
+                );
+                for (const m of response?.data ?? []) {
+                    const title: Record<string, string> = m.attributes?.title ?? {};
+                    const fileName = m.relationships?.find((r: any) => r.type === 'cover_art')?.attributes?.fileName;
+                    snapshots.set(m.id, {
+                        mangaTitle: title.en ?? Object.values(title)[0] ?? 'Unknown',
+                        coverUrl: fileName ? buildCoverProxyUrl(m.id, fileName) : null,
+                    });
+                }
+            } catch {
+                // The list shows these manga by id until it is opened on MangaDex
+            }
+        }
+        return snapshots;
+    }
+
+    /**
+     * The user's follows with these ids; 404 unless every id is one of them. Bulk changes run
+     * this inside their transaction so a batch is applied whole or not at all.
+     */
+    private static async findOwnFollows(
+        userId: string,
+        followIds: string[],
+        client: Prisma.TransactionClient | typeof prisma = prisma
+    ) {
+        const follows: Array<{
+            id: string;
+            mangaId: string | null;
+            externalMangaId: string | null;
+            mangaSource: MangaSource;
+        }> = await client.favorite.findMany({
+            where: { userId, id: { in: followIds } },
+            select: { id: true, mangaId: true, externalMangaId: true, mangaSource: true },
+        });
+        if (follows.length !== new Set(followIds).size) {
+            throw new HttpException(404, 'Some of these manga are no longer followed');
+        }
+        return follows;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { prisma } from '../db/prisma';
+import { ChapterHistory, Prisma } from '@prisma/client';
+
+export interface HistoryEntryData {
+  /** MangaDex manga UUID */
+  mangaId: string;
+  /** MangaDex chapter UUID */
+  chapterId: string;
+  mangaTitle: string;
+  chapterNumber?: string | null;
+  chapterTitle?: string | null;
+  volume?: string | null;
+  translatedLanguage: string;
+  externalUrl?: string | null;
+  scanlationGroups?: Array<{ id: string; name: string }>;
+  coverUrl?: string | null;
+}
+
+export interface MergeHistoryEntryData extends HistoryEntryData {
+  /** When the chapter was read on the device, as reported by the client */
+  readAt: Date;
+}
+
+export interface ListHistoryOptions {
+  /** Only chapters of this MangaDex manga */
+  mangaId?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ClearHistoryFilter {
+  /** Only chapters of this MangaDex manga */
+  mangaId?: string;
+  /** Only chapters read at or after this time */
+  from?: Date;
+  /** Only chapters read before this time */
+  to?: Date;
+}
+
+const historySelect = {
+  id: true,
+  mangaId: true,
+  chapterId: true,
+  mangaTitle: true,
+  chapterNumber: true,
+  chapterTitle: true,
+  volume: true,
+  translatedLanguage: true,
+  externalUrl: true,
+  scanlationGroups: true,
+  coverUrl: true,
+  readAt: true,
+} as const;
+
+export type HistoryEntry = Pick<ChapterHistory, keyof typeof historySelect>;
+
+function toSnapshot(data: HistoryEntryData) {
+  return {
+    mangaId: data.mangaId,
+    mangaTitle: data.mangaTitle,
+    chapterNumber: data.chapterNumber ?? null,
+    chapterTitle: data.chapterTitle ?? null,
+    volume: data.volume ?? null,
+    translatedLanguage: data.translatedLanguage,
+    externalUrl: data.externalUrl ?? null,
+    scanlationGroups: (data.scanlationGroups ?? []) as Prisma.InputJsonValue,
+    coverUrl: data.coverUrl ?? null,
+  };
+}
+
+/** The fields of an entry the append-only read log keeps for statistics */
+function toRead(userId: string, data: HistoryEntryData, readAt: Date): Prisma.ChapterReadCreateManyInput {
+  return {
+    userId,
+    mangaId: data.mangaId,
+    chapterId: data.chapterId,
+    mangaTitle: data.mangaTitle,
+    translatedLanguage: data.translatedLanguage,
+    coverUrl: data.coverUrl ?? null,
+    readAt,
+  };
+}
+
+export class HistoryService {
+  /**
+   * Get a user's chapter history, most recently read first.
+   */
+  static async listHistory(
+    userId: string,
+    options: ListHistoryOptions = {}
+  ): Promise<{ entries: HistoryEntry[]; nextCursor?: string }> {
+    const limit = options.limit || 20;
+
+    const entries = await prisma.chapterHistory.findMany({
+      where: { userId, ...(options.mangaId ? { mangaId: options.mangaId } : {}) },
+      take: limit + 1,
+      cursor: options.cursor ? { id: options.cursor } : undefined,
+      orderBy: [{ readAt: 'desc' }, { id: 'desc' }],
+      select: historySelect,
+    });
+
+    let nextCursor: string | undefined;
+    if (entries.length > limit) {
+      nextCursor = entries.pop()?.id;
+    }
+
+    return { entries, nextCursor };
+  }
+
+  /**
+   * Record that a chapter was opened just now. Reading it again moves it back to the top of the
+   * history, and adds another entry to the read log.
+   */
+  static async recordChapter(userId: string, data: HistoryEntryData): Promise<HistoryEntry> {
+    const snapshot = toSnapshot(data);
+    const readAt = new Date();
+
+    const [entry] = await prisma.$transaction([
+      prisma.chapterHistory.upsert({
+        where: { userId_chapterId: { userId, chapterId: data.chapterId } },
+        create: { userId, chapterId: data.chapterId, ...snapshot, readAt },
+        update: { ...snapshot, readAt },
+        select: historySelect,
+      }),
+      prisma.chapterRead.create({ data: toRead(userId, data, readAt) }),
+    ]);
+    return entry;
+  }
+
+  /**
+   * Merge history kept on a device into the server copy. Entries are matched by chapter and
+   * the newest read wins, so merging the same entries twice changes nothing. Every entry also
+   * goes into the read log, where a chapter read at the same instant is only kept once.
+   */
+  static async mergeHistory(
+    userId: string,
+    entries: MergeHistoryEntryData[]
+  ): Promise<{ created: number; updated: number }> {
+    // A device list can repeat a chapter; keep its newest read
+    const newestByChapter = new Map<string, MergeHistoryEntryData>();
+    for (const entry of entries) {
+      const current = newestByChapter.get(entry.chapterId);
+      if (!current || entry.readAt > current.readAt) newestByChapter.set(entry.chapterId, entry);
+    }
+    if (newestByChapter.size === 0) return { created: 0, updated: 0 };
+
+    type ExistingRow = Pick<ChapterHistory, 'id' | 'chapterId' | 'readAt'>;
+    const existing: ExistingRow[] = await prisma.chapterHistory.findMany({
+      where: { userId, chapterId: { in: [...newestByChapter.keys()] } },
+      select: { id: true, chapterId: true, readAt: true },
+    });
+    const existingByChapter = new Map(existing.map((row) => [row.chapterId, row]));
+
+    const toCreate: Prisma.ChapterHistoryCreateManyInput[] = [];
+    const toUpdate: Prisma.PrismaPromise<unknown>[] = [];
+    for (const entry of newestByChapter.values()) {
+      const row = existingByChapter.get(entry.chapterId);
+      if (!row) {
+        toCreate.push({ userId, chapterId: entry.chapterId, ...toSnapshot(entry), readAt: entry.readAt });
+      } else if (entry.readAt > row.readAt) {
+        toUpdate.push(
+          prisma.chapterHistory.update({
+            where: { id: row.id },
+            data: { ...toSnapshot(entry), readAt: entry.readAt },
+          })
+        );
+      }
+    }
+
+    await prisma.$transaction([
+      // skipDuplicates covers a chapter recorded by another request since the lookup
+      prisma.chapterHistory.createMany({ data: toCreate, skipDuplicates: true }),
+      ...toUpdate,
+      prisma.chapterRead.createMany({
+        data: entries.map((entry) => toRead(userId, entry, entry.readAt)),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return { created: toCreate.length, updated: toUpdate.length };
+  }
+
+  /**
+   * Get a user's whole chapter history, most recently read first, for exporting.
+   */
+  static async exportHistory(userId: string): Promise<HistoryEntry[]> {
+    return await prisma.chapterHistory.findMany({
+      where: { userId },
+      orderBy: [{ readAt: 'desc' }, { id: 'desc' }],
+      select: historySelect,
+    });
+  }
+
+  /**
+   * Delete a user's chapter history: all of it, or only what matches the filter (one manga,
+   * a time range, or both). Matching reads leave the read log too, so they drop out of the
+   * statistics as well.
+   */
+  static async clearHistory(userId: string, filter: ClearHistoryFilter = {}): Promise<number> {
+    const readAt = filter.from || filter.to ? { gte: filter.from, lt: filter.to } : undefined;
+    const where = {
+      userId,
+      ...(filter.mangaId ? { mangaId: filter.mangaId } : {}),
+      ...(readAt ? { readAt } : {}),
+    };
+
+    const [{ count }] = await prisma.$transaction([
+      prisma.chapterHistory.deleteMany({ where }),
+      prisma.chapterRead.deleteMany({ where }),
+    ]);
+    return count;
+  }
+}
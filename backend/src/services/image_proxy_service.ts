@@ -0,0 +1,311 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { prisma } from '../db/prisma';
+import { cloudinary } from '../config/cloudinary';
+import redisClient from '../db/redis_client';
+import { imageCacheConfig } from '../config';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+import { MangaDexClient } from './mangadex_client';
+
+const mangadexClient = new MangaDexClient();
+
+export const MANGADEX_UPLOADS_URL = 'https://uploads.mangadex.org';
+
+/** Cover widths the proxy resizes to */
+export const COVER_SIZES = [256, 512] as const;
+export type CoverSize = (typeof COVER_SIZES)[number];
+
+export const PAGE_QUALITIES = ['data', 'data-saver'] as const;
+export type PageQuality = (typeof PAGE_QUALITIES)[number];
+
+// LRU bookkeeping lives in Redis so every backend instance sharing the cache dir agrees on it
+const LRU_KEY = 'image_cache:lru'; // sorted set: cache key -> last access (ms)
+const SIZES_KEY = 'image_cache:sizes'; // hash: cache key -> bytes on disk
+const TOTAL_BYTES_KEY = 'image_cache:bytes';
+const EVICTION_BATCH = 50;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const UPSTREAM_TIMEOUT_MS = 15000;
+const COVER_JPEG_QUALITY = 85;
+// At-home base URLs stay valid for about 15 minutes; keep well under that
+const AT_HOME_KEY_PREFIX = 'image_proxy:at_home:';
+const AT_HOME_TTL_SECONDS = 5 * 60;
+
+interface AtHomeServer {
+    baseUrl: string;
+    hash: string;
+}
+
+// Concurrent page misses of one chapter share a single at-home lookup
+const pendingAtHomeLookups = new Map<string, Promise<AtHomeServer | null>>();
+
+const CONTENT_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+};
+
+export interface ProxiedImage {
+    data: Buffer;
+    contentType: string;
+    /** Cache key, stable for the image's content — doubles as the ETag */
+    key: string;
+    cacheHit: boolean;
+}
+
+/** Relative proxy URL for a MangaDex cover, served through nginx's /api/ location */
+export const buildCoverProxyUrl = (mangaId: string, fileName: string, size: CoverSize = 256): string =>
+    `/api/v1/images/covers/${mangaId}/${encodeURIComponent(fileName)}?size=${size}`;
+
+function singleUrl(url: string): () => AsyncIterable<string> {
+    return async function* () {
+        yield url;
+    };
+}
+
+export class ImageProxyService {
+    /**
+     * Get a MangaDex cover. With `size`, the original is scaled down to that width and
+     * re-encoded as JPEG.
+     */
+    static async getCover(mangaId: string, fileName: string, size?: CoverSize): Promise<ProxiedImage> {
+        const url = `${MANGADEX_UPLOADS_URL}/covers/${mangaId}/${fileName}`;
+        const cachePath = `covers/${mangaId}/${fileName}`;
+
+        return size
+            ? this.getOrFetch(`${cachePath}@${size}`, 'image/jpeg', singleUrl(url), (data) => this.resizeCover(data, size))
+            : this.getOrFetch(cachePath, this.contentTypeFor(fileName), singleUrl(url));
+    }
+
+    /**
+     * Get a submitted manga's cover from Cloudinary, resized like MangaDex covers. The public
+     * id is part of the cache key, so a replaced cover is fetched afresh.
+     */
+    static async getLocalCover(mangaId: string, size?: CoverSize): Promise<ProxiedImage> {
+        const manga = await prisma.submittedManga.findUnique({
+            where: { id: mangaId },
+            select: { coverPublicId: true },
+        });
+        if (!manga?.coverPublicId) {
+            throw new HttpException(StatusCodes.NOT_FOUND, 'Cover not found');
+        }
+
+        // Always JPEG so the content type is known before the download
+        const url = cloudinary.url(manga.coverPublicId, { secure: true, format: 'jpg' });
+        const cachePath = `local-covers/${manga.coverPublicId}`;
+
+        return size
+            ? this.getOrFetch(`${cachePath}@${size}`, 'image/jpeg', singleUrl(url), (data) => this.resizeCover(data, size))
+            : this.getOrFetch(cachePath, 'image/jpeg', singleUrl(url));
+    }
+
+    /**
+     * Get a chapter page. Pages are content-addressed by hash, so the cache is shared across
+     * at-home servers. On a miss the page comes from the main uploads origin; an at-home node
+     * is only asked when that fails, since MangaDex rate-limits at-home lookups tightly.
+     */
+    static async getChapterPage(
+        chapterId: string,
+        quality: PageQuality,
+        hash: string,
+        fileName: string,
+    ): Promise<ProxiedImage> {
+        const pagePath = `${quality}/${hash}/${fileName}`;
+        return this.getOrFetch(pagePath, this.contentTypeFor(fileName), async function* () {
+            yield `${MANGADEX_UPLOADS_URL}/${pagePath}`;
+
+            const atHome = await ImageProxyService.getAtHomeServer(chapterId);
+            // A different hash means the chapter was re-uploaded and the node lacks this file
+            if (atHome && atHome.hash === hash) {
+                yield `${atHome.baseUrl}/${pagePath}`;
+            }
+        });
+    }
+
+    /**
+     * At-home server for a chapter, cached briefly in Redis. Concurrent callers for the same
+     * chapter wait on one lookup. Resolves to null when MangaDex cannot be reached.
+     */
+    private static getAtHomeServer(chapterId: string): Promise<AtHomeServer | null> {
+        let pending = pendingAtHomeLookups.get(chapterId);
+        if (!pending) {
+            pending = this.lookupAtHomeServer(chapterId).finally(() => pendingAtHomeLookups.delete(chapterId));
+            pendingAtHomeLookups.set(chapterId, pending);
+        }
+        return pending;
+    }
+
+    private static async lookupAtHomeServer(chapterId: string): Promise<AtHomeServer | null> {
+        const key = `${AT_HOME_KEY_PREFIX}${chapterId}`;
+        if (redisClient.isReady()) {
+            try {
+                const cached = await redisClient.getClient().get(key);
+                if (cached) return JSON.parse(cached) as AtHomeServer;
+            } catch (error) {
+                console.error('[ImageProxy] Failed to read cached at-home server:', error);
+            }
+        }
+
+        let server: AtHomeServer;
+        try {
+            const atHome = await mangadexClient.getChapterPages(chapterId);
+            if (!atHome?.baseUrl || !atHome.chapter?.hash) return null;
+            server = { baseUrl: atHome.baseUrl, hash: atHome.chapter.hash };
+        } catch (error) {
+            console.warn('[ImageProxy] At-home server lookup failed:', (error as Error).message);
+            return null;
+        }
+
+        if (redisClient.isReady()) {
+            try {
+                await redisClient.getClient().setEx(key, AT_HOME_TTL_SECONDS, JSON.stringify(server));
+            } catch (error) {
+                console.error('[ImageProxy] Failed to cache at-home server:', error);
+            }
+        }
+        return server;
+    }
+
+    /**
+     * Serve from the disk cache, or try each upstream URL in turn. URLs are pulled lazily, so
+     * later ones that cost an extra lookup are only resolved when the earlier ones fail.
+     */
+    private static async getOrFetch(
+        cachePath: string,
+        contentType: string,
+        upstreamUrls: () => AsyncIterable<string>,
+        transform?: (data: Buffer) => Promise<Buffer>,
+    ): Promise<ProxiedImage> {
+        const key = crypto.createHash('sha256').update(cachePath).digest('hex');
+
+        const cached = await this.readFromDisk(key);
+        if (cached) {
+            await this.touch(key, cached.length);
+            return { data: cached, contentType, key, cacheHit: true };
+        }
+
+        for await (const url of upstreamUrls()) {
+            let data: Buffer;
+            try {
+                data = await this.download(url);
+            } catch (error) {
+                console.warn(`[ImageProxy] Upstream fetch failed for ${url}:`, (error as Error).message);
+                continue;
+            }
+            if (transform) {
+                try {
+                    data = await transform(data);
+                } catch (error) {
+                    console.error(`[ImageProxy] Failed to process image from ${url}:`, error);
+                    throw new HttpException(StatusCodes.BAD_GATEWAY, 'Upstream image could not be processed');
+                }
+            }
+            await this.store(key, data);
+            return { data, contentType, key, cacheHit: false };
+        }
+
+        throw new HttpException(StatusCodes.BAD_GATEWAY, 'Failed to fetch image from upstream');
+    }
+
+    /** Scale a cover down to `width`; smaller originals keep their size */
+    private static resizeCover(data: Buffer, width: CoverSize): Promise<Buffer> {
+        return sharp(data)
+            .rotate()
+            .resize({ width, withoutEnlargement: true })
+            .jpeg({ quality: COVER_JPEG_QUALITY, mozjpeg: true })
+            .toBuffer();
+    }
+
+    private static contentTypeFor(fileName: string): string {
+        const ext = path.extname(fileName).slice(1).toLowerCase();
+        return CONTENT_TYPES[ext] ?? 'application/octet-stream';
+    }
+
+    private static filePath(key: string): string {
+        // Two-character fan-out keeps directory listings small
+        return path.join(imageCacheConfig.dir, key.slice(0, 2), key);
+    }
+
+    private static async readFromDisk(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.filePath(key));
+        } catch {
+            return null;
+        }
+    }
+
+    private static async download(url: string): Promise<Buffer> {
+        const response = await axios.get<ArrayBuffer>(url, {
+            responseType: 'arraybuffer',
+            timeout: UPSTREAM_TIMEOUT_MS,
+            maxContentLength: MAX_IMAGE_BYTES,
+            headers: { 'User-Agent': 'MangaVerse/1.0' },
+        });
+
+        const type = String(response.headers['content-type'] ?? '');
+        if (!type.startsWith('image/')) {
+            throw new Error(`Unexpected content type "${type}"`);
+        }
+        return Buffer.from(response.data);
+    }
+
+    /** Bump an entry's recency; entries found on disk but unknown to Redis are adopted */
+    private static async touch(key: string, size: number): Promise<void> {
+        if (!redisClient.isReady()) return;
+        try {
+            const client = redisClient.getClient();
+            await client.zAdd(LRU_KEY, { score: Date.now(), value: key });
+            if (await client.hSetNX(SIZES_KEY, key, String(size))) {
+                await client.incrBy(TOTAL_BYTES_KEY, size);
+            }
+        } catch (error) {
+            console.error('[ImageProxy] Failed to update LRU index:', error);
+        }
+    }
+
+    /**
+     * Write an image to disk and record it in the LRU index.
+     * Skipped while Redis is down: without the index the size cap could not be enforced.
+     */
+    private static async store(key: string, data: Buffer): Promise<void> {
+        if (!redisClient.isReady()) return;
+        try {
+            const filePath = this.filePath(key);
+            const tmpPath = `${filePath}.${process.pid}.tmp`;
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            // Write-then-rename so concurrent readers never see a partial file
+            await fs.writeFile(tmpPath, data);
+            await fs.rename(tmpPath, filePath);
+
+            await this.touch(key, data.length);
+            await this.evictIfNeeded();
+        } catch (error) {
+            console.error('[ImageProxy] Failed to cache image:', error);
+        }
+    }
+
+    /** Delete least recently used entries until the cache fits under the size cap */
+    private static async evictIfNeeded(): Promise<void> {
+        const client = redisClient.getClient();
+        let total = Number(await client.get(TOTAL_BYTES_KEY)) || 0;
+
+        while (total > imageCacheConfig.maxBytes) {
+            const oldest = await client.zRange(LRU_KEY, 0, EVICTION_BATCH - 1);
+            if (oldest.length === 0) break;
+
+            for (const key of oldest) {
+                const size = Number(await client.hGet(SIZES_KEY, key)) || 0;
+                await fs.rm(this.filePath(key), { force: true });
+                await client.zRem(LRU_KEY, key);
+                await client.hDel(SIZES_KEY, key);
+                total = await client.decrBy(TOTAL_BYTES_KEY, size);
+                if (total <= imageCacheConfig.maxBytes) break;
+            }
+        }
+    }
+}
@@ -0,0 +1,143 @@
+import { MangaDexClient } from './mangadex_client';
+import { buildCoverProxyUrl } from './image_proxy_service';
+import type { ImportCandidate, ImportEntry, ImportMatch, ImportProgress } from '../queues/import/import_types';
+
+const mangadexClient = new MangaDexClient();
+
+// Searches run one after another; the pause keeps a large import under MangaDex's 5 req/s limit
+const SEARCH_DELAY_MS = 250;
+const SEARCH_LIMIT = 10;
+// The main title, then one alternative title when the first search is inconclusive
+const MAX_SEARCHES_PER_ENTRY = 2;
+const MAX_CANDIDATES = 5;
+// Progress is written to Redis, so it is reported in steps rather than per entry
+const PROGRESS_STEP = 10;
+
+interface SearchResultManga {
+    id: string;
+    attributes?: {
+        title?: Record<string, string>;
+        altTitles?: Record<string, string>[];
+        links?: Record<string, string> | null;
+        year?: number | null;
+    };
+    relationships?: { type: string; attributes?: { fileName?: string } }[];
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Compare titles ignoring case, accents, punctuation and spacing */
+function normalizeTitle(title: string): string {
+    return title
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+/** MangaDex stores MyAnimeList ids under links.mal and AniList ids under links.al */
+function linksToEntry(manga: SearchResultManga, entry: ImportEntry): boolean {
+    const links = manga.attributes?.links;
+    if (!links) return false;
+    return (!!entry.malId && links.mal === entry.malId) || (!!entry.anilistId && links.al === entry.anilistId);
+}
+
+function getMangaTitles(manga: SearchResultManga): string[] {
+    const titles = Object.values(manga.attributes?.title ?? {});
+    for (const alt of manga.attributes?.altTitles ?? []) {
+        titles.push(...Object.values(alt));
+    }
+    return titles;
+}
+
+function toCandidate(manga: SearchResultManga): ImportCandidate {
+    const title = manga.attributes?.title ?? {};
+    const fileName = manga.relationships?.find((rel) => rel.type === 'cover_art')?.attributes?.fileName;
+    return {
+        id: manga.id,
+        title: title.en ?? Object.values(title)[0] ?? 'Unknown',
+        year: manga.attributes?.year ?? null,
+        coverUrl: fileName ? buildCoverProxyUrl(manga.id, fileName) : null,
+    };
+}
+
+export class LibraryImportService {
+    /**
+     * Map each entry of an export to a MangaDex manga, in order. A failed search leaves its
+     * entry unmatched instead of failing the whole import.
+     */
+    static async matchEntries(
+        entries: ImportEntry[],
+        onProgress?: (progress: ImportProgress) => Promise<void> | void
+    ): Promise<ImportMatch[]> {
+        const matches: ImportMatch[] = [];
+
+        for (const [index, entry] of entries.entries()) {
+            try {
+                matches.push(await LibraryImportService.matchEntry(entry));
+            } catch (error) {
+                console.error(`[LibraryImport] Search failed for "${entry.title}":`, error);
+                matches.push({ entry, state: 'UNMATCHED', candidates: [] });
+            }
+
+            const processed = index + 1;
+            if (processed % PROGRESS_STEP === 0 || processed === entries.length) {
+                await onProgress?.({ processed, total: entries.length });
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Search MangaDex for one entry. A result linking to the entry's MAL/AniList id is a
+     * certain match; otherwise a single exact title match is accepted, and anything else is
+     * left for the user to choose.
+     */
+    static async matchEntry(entry: ImportEntry): Promise<ImportMatch> {
+        const entryTitles = new Set(
+            [entry.title, ...(entry.altTitles ?? [])].map(normalizeTitle).filter(Boolean)
+        );
+        const searchTitles = [...new Set([entry.title, ...(entry.altTitles ?? [])])].slice(0, MAX_SEARCHES_PER_ENTRY);
+        const found = new Map<string, SearchResultManga>();
+        const exact = new Map<string, SearchResultManga>();
+
+        for (const [index, title] of searchTitles.entries()) {
+            await sleep(SEARCH_DELAY_MS);
+            const response = await mangadexClient.searchManga({
+                title,
+                limit: SEARCH_LIMIT,
+                includes: ['cover_art'],
+                order: { relevance: 'desc' },
+            });
+            const results: SearchResultManga[] = response?.data ?? [];
+
+            const linked = results.find((manga) => linksToEntry(manga, entry));
+            if (linked) {
+                return { entry, state: 'MATCHED', mangaId: linked.id, candidates: [toCandidate(linked)] };
+            }
+
+            for (const manga of results) {
+                found.set(manga.id, manga);
+                if (getMangaTitles(manga).some((t) => entryTitles.has(normalizeTitle(t)))) {
+                    exact.set(manga.id, manga);
+                }
+            }
+            // An exact title is as good as the alternative titles would get
+            if (exact.size > 0 && index === 0) break;
+        }
+
+        if (exact.size === 1) {
+            const [manga] = exact.values();
+            return { entry, state: 'MATCHED', mangaId: manga.id, candidates: [toCandidate(manga)] };
+        }
+
+        // Exact title matches first, then the rest in search order
+        const ranked = [...exact.values(), ...[...found.values()].filter((manga) => !exact.has(manga.id))];
+        if (ranked.length === 0) {
+            return { entry, state: 'UNMATCHED', candidates: [] };
+        }
+        return { entry, state: 'AMBIGUOUS', candidates: ranked.slice(0, MAX_CANDIDATES).map(toCandidate) };
+    }
+}
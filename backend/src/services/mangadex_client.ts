@@ -612,6 +612,32 @@ export class MangaDexClient {
     return response.data;
   }
 
+  // Latest chapters uploaded by any of the given scanlation groups. Not cached: used for
+  // follow feeds and new upload notifications.
+  async getChaptersByGroups(groupIds: string[], params?: {
+    limit?: number;
+    offset?: number;
+    translatedLanguage?: string[];
+    createdAtSince?: string;
+    order?: Record<string, string>;
+  }) {
+    const { limit = 20, offset = 0, translatedLanguage, createdAtSince, order } = params ?? {};
+
+    const qp: Record<string, unknown> = {
+      limit: Math.min(limit, 100),
+      offset,
+      groups: groupIds,
+      includes: ['manga', 'scanlation_group'],
+      order: order ?? { readableAt: 'desc' },
+    };
+
+    if (translatedLanguage?.length) qp['translatedLanguage'] = translatedLanguage;
+    if (createdAtSince) qp.createdAtSince = createdAtSince;
+
+    const response = await this.client.get('/chapter', { params: qp });
+    return response.data;
+  }
+
   // Get manga worked on by a scanlation group
   async getMangaByGroup(groupId: string, limit = 20, offset = 0) {
     const cacheKey = `group-manga:${groupId}:${limit}:${offset}`;
@@ -0,0 +1,71 @@
+import { prisma } from '../db/prisma';
+import { UserPreferences } from '@prisma/client';
+
+export const READING_MODES = ['single_page', 'double_page', 'webtoon', 'horizontal'] as const;
+export const FIT_MODES = ['auto', 'width', 'height', 'original', 'custom'] as const;
+
+export interface UpdatePreferencesData {
+  readingMode?: (typeof READING_MODES)[number];
+  imageGap?: number;
+  fitMode?: (typeof FIT_MODES)[number];
+  customZoom?: number;
+  showHeader?: boolean;
+  doublePageShift?: boolean;
+  dataSaver?: boolean;
+  /** Overrides of the default shortcuts; null unbinds an action */
+  keyboardShortcuts?: Record<string, string | null>;
+  autoMarkAsRead?: boolean;
+  preferredLanguages?: string[];
+  contentRatingFilter?: string[];
+}
+
+const preferencesSelect = {
+  readingMode: true,
+  imageGap: true,
+  fitMode: true,
+  customZoom: true,
+  showHeader: true,
+  doublePageShift: true,
+  dataSaver: true,
+  keyboardShortcuts: true,
+  autoMarkAsRead: true,
+  preferredLanguages: true,
+  contentRatingFilter: true,
+  updatedAt: true,
+} as const;
+
+export type UserPreferencesData = Pick<UserPreferences, keyof typeof preferencesSelect>;
+
+export class PreferencesService {
+  /**
+   * Get a user's preferences.
+   * Returns null when the user has never saved any, so clients can seed them from local settings.
+   */
+  static async getPreferences(userId: string): Promise<UserPreferencesData | null> {
+    if (!userId || typeof userId !== 'string') {
+      throw new Error('Invalid user ID');
+    }
+
+    return await prisma.userPreferences.findUnique({
+      where: { userId },
+      select: preferencesSelect,
+    });
+  }
+
+  /**
+   * Update a user's preferences (partial update).
+   * Creates the row on first save; omitted fields keep their current or default values.
+   */
+  static async updatePreferences(userId: string, data: UpdatePreferencesData): Promise<UserPreferencesData> {
+    if (!userId || typeof userId !== 'string') {
+      throw new Error('Invalid user ID');
+    }
+
+    return await prisma.userPreferences.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+      select: preferencesSelect,
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { prisma } from '../db/prisma';
+
+export interface ReadMarkerBatch {
+  chapterIdsRead?: string[];
+  chapterIdsUnread?: string[];
+}
+
+export class ReadMarkerService {
+  /**
+   * Get the ids of the chapters the user has read in a MangaDex manga.
+   */
+  static async getReadChapterIds(userId: string, mangaId: string): Promise<string[]> {
+    const markers = await prisma.chapterReadMarker.findMany({
+      where: { userId, mangaId },
+      select: { chapterId: true },
+    });
+    return markers.map((marker: { chapterId: string }) => marker.chapterId);
+  }
+
+  /**
+   * Get the read chapter ids of several manga at once, keyed by manga id. Manga without any
+   * read chapters are left out.
+   */
+  static async getReadChapterIdsByManga(userId: string, mangaIds: string[]): Promise<Record<string, string[]>> {
+    const markers: { mangaId: string; chapterId: string }[] = await prisma.chapterReadMarker.findMany({
+      where: { userId, mangaId: { in: mangaIds } },
+      select: { mangaId: true, chapterId: true },
+    });
+
+    const grouped: Record<string, string[]> = {};
+    for (const marker of markers) {
+      (grouped[marker.mangaId] ??= []).push(marker.chapterId);
+    }
+    return grouped;
+  }
+
+  /**
+   * Mark chapters of one manga as read and/or unread in a single transaction. Marking a chapter
+   * that is already read, or unmarking one that isn't, is a no-op.
+   */
+  static async updateReadMarkers(userId: string, mangaId: string, batch: ReadMarkerBatch): Promise<void> {
+    const chapterIdsRead = batch.chapterIdsRead ?? [];
+    const chapterIdsUnread = batch.chapterIdsUnread ?? [];
+
+    await prisma.$transaction([
+      prisma.chapterReadMarker.createMany({
+        data: chapterIdsRead.map((chapterId) => ({ userId, mangaId, chapterId })),
+        skipDuplicates: true,
+      }),
+      prisma.chapterReadMarker.deleteMany({
+        where: { userId, chapterId: { in: chapterIdsUnread } },
+      }),
+    ]);
+  }
+}
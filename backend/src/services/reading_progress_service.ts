@@ -0,0 +1,115 @@
+import { prisma } from '../db/prisma';
+import { MangaSourceType, ReadHistory } from '@prisma/client';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+import { DateUtils } from '../utils/date';
+
+// Longest gap between two reports that still counts as reading time; longer gaps mean the tab sat idle
+export const MAX_READ_TIME_DELTA = 5 * 60;
+
+export interface SaveProgressData {
+  mangaId: string;
+  source: MangaSourceType;
+  /** MangaDex chapter UUID; local chapters are identified by chapterNumber alone */
+  chapterId?: string;
+  chapterNumber?: number | null;
+  /** 1-based page the reader is on */
+  pageNumber: number;
+  totalPages: number;
+  /** Seconds read since the previous report */
+  readTime?: number;
+}
+
+const progressSelect = {
+  mangaId: true,
+  externalMangaId: true,
+  mangaSource: true,
+  externalChapterId: true,
+  chapterNumber: true,
+  pageNumber: true,
+  progress: true,
+  readTime: true,
+  lastReadAt: true,
+} as const;
+
+export type ReadingProgressData = Pick<ReadHistory, keyof typeof progressSelect>;
+
+function buildWhereBySource(userId: string, mangaIdentifier: string, source: MangaSourceType) {
+  return source === 'MANGADEX'
+    ? { userId_externalMangaId: { userId, externalMangaId: mangaIdentifier } }
+    : { userId_mangaId: { userId, mangaId: mangaIdentifier } };
+}
+
+export class ReadingProgressService {
+  /**
+   * Get the last read position in a manga, or null if the user has not read it yet.
+   */
+  static async getProgress(
+    userId: string,
+    mangaIdentifier: string,
+    source: MangaSourceType
+  ): Promise<ReadingProgressData | null> {
+    return await prisma.readHistory.findUnique({
+      where: buildWhereBySource(userId, mangaIdentifier, source),
+      select: progressSelect,
+    });
+  }
+
+  /**
+   * Record the page a user is on. One row per user and manga holds the latest position;
+   * reading time accumulates across reports.
+   */
+  static async saveProgress(userId: string, data: SaveProgressData): Promise<ReadingProgressData> {
+    if (data.source === 'LOCAL') {
+      const manga = await prisma.submittedManga.findUnique({
+        where: { id: data.mangaId },
+        select: { id: true },
+      });
+      if (!manga) throw new HttpException(StatusCodes.NOT_FOUND, 'Local manga not found');
+    }
+
+    const pageNumber = Math.min(data.pageNumber, data.totalPages);
+    const position = {
+      externalChapterId: data.source === 'MANGADEX' ? (data.chapterId ?? null) : null,
+      chapterNumber: data.chapterNumber ?? null,
+      pageNumber,
+      progress: Math.round((pageNumber / data.totalPages) * 10000) / 100,
+      lastReadAt: new Date(),
+    };
+    const readTime = Math.min(Math.max(0, Math.round(data.readTime ?? 0)), MAX_READ_TIME_DELTA);
+
+    const identity =
+      data.source === 'MANGADEX'
+        ? { externalMangaId: data.mangaId, mangaId: null, mangaSource: 'MANGADEX' as const }
+        : { mangaId: data.mangaId, externalMangaId: null, mangaSource: 'LOCAL' as const };
+
+    const saved = await prisma.readHistory.upsert({
+      where: buildWhereBySource(userId, data.mangaId, data.source),
+      create: { userId, ...identity, ...position, readTime },
+      update: { ...position, readTime: { increment: readTime } },
+      select: progressSelect,
+    });
+
+    if (readTime > 0) await ReadingProgressService.logDailyReadingTime(userId, readTime);
+
+    return saved;
+  }
+
+  /**
+   * Add reading time to today's total, "today" being the user's calendar day (profile timezone).
+   * Feeds the per-day reading time in the stats page.
+   */
+  static async logDailyReadingTime(userId: string, seconds: number): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+    const day = DateUtils.dayToDate(DateUtils.toLocalDay(new Date(), user?.timezone ?? 'UTC'));
+
+    await prisma.dailyReadingTime.upsert({
+      where: { userId_day: { userId, day } },
+      create: { userId, day, seconds },
+      update: { seconds: { increment: seconds } },
+    });
+  }
+}
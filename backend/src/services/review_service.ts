@@ -0,0 +1,256 @@
+import { prisma } from '../db/prisma';
+import { MangaSourceType, Prisma } from '@prisma/client';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+export const REVIEW_SORTS = ['helpful', 'recent'] as const;
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export interface ReviewData {
+  /** MangaDex UUID or local manga id, depending on source */
+  mangaId: string;
+  source: MangaSourceType;
+  score: number;
+  /** Written review; empty or missing keeps only the score */
+  content?: string | null;
+  isSpoiler?: boolean;
+}
+
+export interface ReviewListOptions {
+  sort?: ReviewSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface RatingSummary {
+  /** Mean score, null until someone rates */
+  average: number | null;
+  count: number;
+  /** Number of ratings per score, keyed '1' to '10' like MangaDex statistics */
+  distribution: Record<string, number>;
+  reviewCount: number;
+}
+
+const authorSelect = { id: true, displayName: true, profilePicture: true } as const;
+
+const reviewSelect = {
+  id: true,
+  userId: true,
+  mangaId: true,
+  sourceType: true,
+  score: true,
+  content: true,
+  isSpoiler: true,
+  helpfulCount: true,
+  createdAt: true,
+  updatedAt: true,
+  user: { select: authorSelect },
+} as const;
+
+function emptyDistribution(): Record<string, number> {
+  const distribution: Record<string, number> = {};
+  for (let score = MIN_SCORE; score <= MAX_SCORE; score++) {
+    distribution[String(score)] = 0;
+  }
+  return distribution;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class ReviewService {
+  /**
+   * Average score and distribution of the ratings for a manga.
+   */
+  static async getRatingSummary(mangaId: string, source: MangaSourceType): Promise<RatingSummary> {
+    const where = { mangaId, sourceType: source };
+    const [groups, reviewCount] = await Promise.all([
+      prisma.review.groupBy({ by: ['score'], where, _count: { _all: true } }),
+      prisma.review.count({ where: { ...where, content: { not: null } } }),
+    ]);
+
+    const distribution = emptyDistribution();
+    let count = 0;
+    let total = 0;
+    for (const group of groups as { score: number; _count: { _all: number } }[]) {
+      distribution[String(group.score)] = group._count._all;
+      count += group._count._all;
+      total += group.score * group._count._all;
+    }
+
+    return { average: count > 0 ? roundScore(total / count) : null, count, distribution, reviewCount };
+  }
+
+  /**
+   * Written reviews for a manga, most helpful or most recent first. With a viewer, each review
+   * says whether the viewer marked it as helpful.
+   */
+  static async getReviews(
+    mangaId: string,
+    source: MangaSourceType,
+    options: ReviewListOptions = {},
+    viewerId?: string,
+  ) {
+    const limit = options.limit || 20;
+    const orderBy =
+      options.sort === 'recent'
+        ? [{ createdAt: 'desc' as const }, { id: 'desc' as const }]
+        : [{ helpfulCount: 'desc' as const }, { createdAt: 'desc' as const }, { id: 'desc' as const }];
+
+    const reviews = await prisma.review.findMany({
+      where: { mangaId, sourceType: source, content: { not: null } },
+      take: limit + 1,
+      cursor: options.cursor ? { id: options.cursor } : undefined,
+      orderBy,
+      select: {
+        ...reviewSelect,
+        ...(viewerId ? { votes: { where: { userId: viewerId }, select: { userId: true } } } : {}),
+      },
+    });
+
+    let nextCursor: string | undefined;
+    if (reviews.length > limit) {
+      nextCursor = reviews.pop()?.id;
+    }
+
+    return {
+      reviews: reviews.map(({ votes, ...review }: { votes?: { userId: string }[] }) => ({
+        ...review,
+        votedHelpful: (votes?.length ?? 0) > 0,
+      })),
+      nextCursor,
+    };
+  }
+
+  /**
+   * The user's own rating of a manga, or null.
+   */
+  static async getUserReview(userId: string, mangaId: string, source: MangaSourceType) {
+    return prisma.review.findUnique({
+      where: { userId_sourceType_mangaId: { userId, sourceType: source, mangaId } },
+      select: reviewSelect,
+    });
+  }
+
+  /**
+   * Rate a manga, or change an earlier rating. Helpful votes are kept when the review is edited.
+   */
+  static async saveReview(userId: string, data: ReviewData) {
+    if (data.source === 'LOCAL') {
+      const manga = await prisma.submittedManga.findUnique({
+        where: { id: data.mangaId },
+        select: { id: true },
+      });
+      if (!manga) throw new HttpException(StatusCodes.NOT_FOUND, 'Local manga not found');
+    }
+
+    const content = data.content?.trim() || null;
+    const fields = {
+      score: data.score,
+      content,
+      // A spoiler flag means nothing without text
+      isSpoiler: content ? (data.isSpoiler ?? false) : false,
+    };
+
+    const review = await prisma.review.upsert({
+      where: { userId_sourceType_mangaId: { userId, sourceType: data.source, mangaId: data.mangaId } },
+      create: { userId, mangaId: data.mangaId, sourceType: data.source, ...fields },
+      update: fields,
+      select: reviewSelect,
+    });
+
+    if (data.source === 'LOCAL') {
+      await ReviewService.syncLocalRating(data.mangaId);
+    }
+    return review;
+  }
+
+  static async deleteReview(userId: string, mangaId: string, source: MangaSourceType): Promise<void> {
+    const { count } = await prisma.review.deleteMany({
+      where: { userId, mangaId, sourceType: source },
+    });
+    if (count === 0) {
+      throw new HttpException(StatusCodes.NOT_FOUND, 'You have not rated this manga');
+    }
+
+    if (source === 'LOCAL') {
+      await ReviewService.syncLocalRating(mangaId);
+    }
+  }
+
+  /**
+   * Mark someone else's review as helpful. Marking it twice changes nothing, also when two
+   * requests race: only the one that actually inserts the vote bumps the count.
+   */
+  static async markHelpful(userId: string, reviewId: string): Promise<{ helpfulCount: number }> {
+    const review = await ReviewService.findReview(reviewId);
+    if (review.userId === userId) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, 'You cannot vote on your own review');
+    }
+
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.reviewVote.createMany({
+        data: [{ reviewId, userId }],
+        skipDuplicates: true,
+      });
+      return await ReviewService.adjustHelpfulCount(tx, reviewId, count);
+    });
+  }
+
+  /**
+   * Take back a helpful vote. Without a vote nothing changes, likewise for racing requests.
+   */
+  static async unmarkHelpful(userId: string, reviewId: string): Promise<{ helpfulCount: number }> {
+    await ReviewService.findReview(reviewId);
+
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const { count } = await tx.reviewVote.deleteMany({ where: { reviewId, userId } });
+      return await ReviewService.adjustHelpfulCount(tx, reviewId, -count);
+    });
+  }
+
+  private static async adjustHelpfulCount(
+    tx: Prisma.TransactionClient,
+    reviewId: string,
+    delta: number
+  ): Promise<{ helpfulCount: number }> {
+    const select = { helpfulCount: true } as const;
+    if (delta === 0) {
+      return await tx.review.findUniqueOrThrow({ where: { id: reviewId }, select });
+    }
+    return await tx.review.update({
+      where: { id: reviewId },
+      data: { helpfulCount: { increment: delta } },
+      select,
+    });
+  }
+
+  private static async findReview(reviewId: string) {
+    const review = await prisma.review.findUnique({
+      where: { id: reviewId },
+      select: { id: true, userId: true, helpfulCount: true },
+    });
+    if (!review) {
+      throw new HttpException(StatusCodes.NOT_FOUND, 'Review not found');
+    }
+    return review;
+  }
+
+  /**
+   * Keep SubmittedManga.rating at the average of its ratings, null when there are none.
+   */
+  private static async syncLocalRating(mangaId: string): Promise<void> {
+    const { _avg } = await prisma.review.aggregate({
+      where: { mangaId, sourceType: 'LOCAL' },
+      _avg: { score: true },
+    });
+    await prisma.submittedManga.update({
+      where: { id: mangaId },
+      data: { rating: _avg.score === null ? null : roundScore(_avg.score) },
+    });
+  }
+}
@@ -0,0 +1,276 @@
+import { prisma } from '../db/prisma';
+import { HttpException } from '../exceptions/http_exception';
+import StatusCodes from '../constants/status_codes';
+import { MangaDexClient } from './mangadex_client';
+import { DateUtils } from '../utils/date';
+import type { MangaDexManga } from '../types/mangadex_types';
+
+const mangadexClient = new MangaDexClient();
+
+// Longest range one request may cover, in days (a leap year)
+export const MAX_STATS_RANGE_DAYS = 366;
+const DEFAULT_STATS_RANGE_DAYS = 30;
+const TOP_MANGA_LIMIT = 10;
+// Tags and demographics are looked up for the most-read manga only; one MangaDex request's worth
+const TAG_LOOKUP_LIMIT = 100;
+
+export interface StatsRange {
+  /** First day, YYYY-MM-DD in the user's timezone; defaults to 30 days before `to` */
+  from?: string;
+  /** Last day (inclusive), YYYY-MM-DD; defaults to today */
+  to?: string;
+}
+
+export interface DayStats {
+  date: string;
+  chapters: number;
+  readingTimeSeconds: number;
+}
+
+export interface WeekStats {
+  /** Monday of the week */
+  weekStart: string;
+  chapters: number;
+  readingTimeSeconds: number;
+}
+
+export interface TopMangaStats {
+  mangaId: string;
+  title: string;
+  coverUrl: string | null;
+  chapters: number;
+  /** All-time reading time reported by the reader for this manga */
+  readingTimeSeconds: number;
+}
+
+export interface ReadingStats {
+  from: string;
+  to: string;
+  timezone: string;
+  totals: {
+    chapters: number;
+    manga: number;
+    readingTimeSeconds: number;
+    activeDays: number;
+  };
+  /** Every day of the range, including days without reading */
+  daily: DayStats[];
+  weekly: WeekStats[];
+  languages: { language: string; chapters: number }[];
+  tags: { id: string; name: string; chapters: number }[];
+  demographics: { demographic: string; chapters: number }[];
+  /** Consecutive days with reading; not limited to the range */
+  streaks: { current: number; longest: number };
+  topManga: TopMangaStats[];
+}
+
+interface ReadRow {
+  mangaId: string;
+  chapterId: string;
+  mangaTitle: string;
+  coverUrl: string | null;
+  translatedLanguage: string;
+  readAt: Date;
+}
+
+/** Sort counts descending, then by key for a stable order */
+function sortedCounts(counts: Map<string, number>): [string, number][] {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export class StatsService {
+  /**
+   * Reading statistics for a range of days, computed from the chapter read log and the reading
+   * time the reader reports. Days are calendar days in the user's profile timezone; a chapter
+   * opened several times in one day counts once for that day.
+   */
+  static async getStats(userId: string, range: StatsRange = {}): Promise<ReadingStats> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+    const timezone = user?.timezone ?? 'UTC';
+    const today = DateUtils.toLocalDay(new Date(), timezone);
+
+    const to = range.to ?? today;
+    const from = range.from ?? DateUtils.addDays(to, -(DEFAULT_STATS_RANGE_DAYS - 1));
+    const rangeDays = DateUtils.daysBetween(from, to) + 1;
+    if (rangeDays < 1) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, 'The start date must not be after the end date');
+    }
+    if (rangeDays > MAX_STATS_RANGE_DAYS) {
+      throw new HttpException(StatusCodes.BAD_REQUEST, `The date range can span at most ${MAX_STATS_RANGE_DAYS} days`);
+    }
+
+    // Timezones are at most 14 hours off UTC, so a day of padding on each side covers every local day
+    const reads: ReadRow[] = await prisma.chapterRead.findMany({
+      where: {
+        userId,
+        readAt: {
+          gte: DateUtils.dayToDate(DateUtils.addDays(from, -1)),
+          lt: DateUtils.dayToDate(DateUtils.addDays(to, 2)),
+        },
+      },
+      orderBy: { readAt: 'asc' },
+      select: { mangaId: true, chapterId: true, mangaTitle: true, coverUrl: true, translatedLanguage: true, readAt: true },
+    });
+    const readsByChapterDay = new Map<string, ReadRow & { day: string }>();
+    for (const row of reads) {
+      const day = DateUtils.toLocalDay(row.readAt, timezone);
+      if (day < from || day > to) continue;
+      const key = `${row.chapterId}:${day}`;
+      if (!readsByChapterDay.has(key)) readsByChapterDay.set(key, { ...row, day });
+    }
+    const readInRange = [...readsByChapterDay.values()];
+
+    const readingTime: { day: Date; seconds: number }[] = await prisma.dailyReadingTime.findMany({
+      where: { userId, day: { gte: DateUtils.dayToDate(from), lte: DateUtils.dayToDate(to) } },
+      select: { day: true, seconds: true },
+    });
+
+    // Per day, then rolled up per week
+    const daily = new Map<string, DayStats>();
+    for (let day = from; day <= to; day = DateUtils.addDays(day, 1)) {
+      daily.set(day, { date: day, chapters: 0, readingTimeSeconds: 0 });
+    }
+    for (const row of readInRange) {
+      daily.get(row.day)!.chapters++;
+    }
+    for (const row of readingTime) {
+      const entry = daily.get(row.day.toISOString().slice(0, 10));
+      if (entry) entry.readingTimeSeconds += row.seconds;
+    }
+
+    const weekly = new Map<string, WeekStats>();
+    for (const day of daily.values()) {
+      const weekStart = DateUtils.startOfWeek(day.date);
+      const week = weekly.get(weekStart) ?? { weekStart, chapters: 0, readingTimeSeconds: 0 };
+      week.chapters += day.chapters;
+      week.readingTimeSeconds += day.readingTimeSeconds;
+      weekly.set(weekStart, week);
+    }
+
+    // Per language and per manga
+    const languageCounts = new Map<string, number>();
+    const mangaCounts = new Map<string, number>();
+    const mangaInfo = new Map<string, { title: string; coverUrl: string | null }>();
+    for (const row of readInRange) {
+      languageCounts.set(row.translatedLanguage, (languageCounts.get(row.translatedLanguage) ?? 0) + 1);
+      mangaCounts.set(row.mangaId, (mangaCounts.get(row.mangaId) ?? 0) + 1);
+      if (!mangaInfo.has(row.mangaId) || (!mangaInfo.get(row.mangaId)!.coverUrl && row.coverUrl)) {
+        mangaInfo.set(row.mangaId, { title: row.mangaTitle, coverUrl: row.coverUrl });
+      }
+    }
+    const mangaByChapters = sortedCounts(mangaCounts);
+
+    const topIds = mangaByChapters.slice(0, TOP_MANGA_LIMIT).map(([mangaId]) => mangaId);
+    const progress: { externalMangaId: string | null; readTime: number | null }[] = topIds.length
+      ? await prisma.readHistory.findMany({
+          where: { userId, externalMangaId: { in: topIds } },
+          select: { externalMangaId: true, readTime: true },
+        })
+      : [];
+    const readTimeByManga = new Map(progress.map((row) => [row.externalMangaId, row.readTime ?? 0]));
+    const topManga: TopMangaStats[] = topIds.map((mangaId) => ({
+      mangaId,
+      title: mangaInfo.get(mangaId)!.title,
+      coverUrl: mangaInfo.get(mangaId)!.coverUrl,
+      chapters: mangaCounts.get(mangaId)!,
+      readingTimeSeconds: readTimeByManga.get(mangaId) ?? 0,
+    }));
+
+    const { tags, demographics } = await StatsService.countTagsAndDemographics(
+      mangaByChapters.slice(0, TAG_LOOKUP_LIMIT),
+    );
+
+    const dailyStats = [...daily.values()];
+    return {
+      from,
+      to,
+      timezone,
+      totals: {
+        chapters: readInRange.length,
+        manga: mangaCounts.size,
+        readingTimeSeconds: dailyStats.reduce((sum, day) => sum + day.readingTimeSeconds, 0),
+        activeDays: dailyStats.filter((day) => day.chapters > 0 || day.readingTimeSeconds > 0).length,
+      },
+      daily: dailyStats,
+      weekly: [...weekly.values()],
+      languages: sortedCounts(languageCounts).map(([language, chapters]) => ({ language, chapters })),
+      tags,
+      demographics,
+      streaks: await StatsService.getStreaks(userId, timezone, today),
+      topManga,
+    };
+  }
+
+  /**
+   * Tag and demographic counts, each manga weighted by the chapters read from it. MangaDex being
+   * unreachable only empties these two lists.
+   */
+  private static async countTagsAndDemographics(mangaByChapters: [string, number][]): Promise<{
+    tags: ReadingStats['tags'];
+    demographics: ReadingStats['demographics'];
+  }> {
+    if (mangaByChapters.length === 0) return { tags: [], demographics: [] };
+
+    const chaptersByManga = new Map(mangaByChapters);
+    const tagCounts = new Map<string, number>();
+    const tagNames = new Map<string, string>();
+    const demographicCounts = new Map<string, number>();
+    try {
+      const mangaData = await mangadexClient.getMultipleMangaById([...chaptersByManga.keys()], []);
+      for (const manga of (mangaData.data ?? []) as MangaDexManga[]) {
+        const chapters = chaptersByManga.get(manga.id) ?? 0;
+        for (const tag of manga.attributes.tags ?? []) {
+          tagCounts.set(tag.id, (tagCounts.get(tag.id) ?? 0) + chapters);
+          tagNames.set(tag.id, tag.attributes.name.en ?? Object.values(tag.attributes.name)[0] ?? tag.id);
+        }
+        const demographic = manga.attributes.publicationDemographic ?? 'none';
+        demographicCounts.set(demographic, (demographicCounts.get(demographic) ?? 0) + chapters);
+      }
+    } catch {
+      // Non-fatal: the rest of the stats do not depend on MangaDex
+      return { tags: [], demographics: [] };
+    }
+
+    return {
+      tags: sortedCounts(tagCounts).map(([id, chapters]) => ({ id, name: tagNames.get(id)!, chapters })),
+      demographics: sortedCounts(demographicCounts).map(([demographic, chapters]) => ({ demographic, chapters })),
+    };
+  }
+
+  /**
+   * Current and longest run of consecutive days with reading, over the whole history. The current
+   * streak is still alive when the user hasn't read yet today but did yesterday.
+   */
+  private static async getStreaks(userId: string, timezone: string, today: string): Promise<ReadingStats['streaks']> {
+    const [reads, readingTime]: [{ readAt: Date }[], { day: Date }[]] = await Promise.all([
+      prisma.chapterRead.findMany({ where: { userId }, select: { readAt: true } }),
+      prisma.dailyReadingTime.findMany({ where: { userId, seconds: { gt: 0 } }, select: { day: true } }),
+    ]);
+
+    const activeDays = new Set<string>([
+      ...reads.map((row) => DateUtils.toLocalDay(row.readAt, timezone)),
+      ...readingTime.map((row) => row.day.toISOString().slice(0, 10)),
+    ]);
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of [...activeDays].sort()) {
+      run = previous && DateUtils.daysBetween(previous, day) === 1 ? run + 1 : 1;
+      longest = Math.max(longest, run);
+      previous = day;
+    }
+
+    let current = 0;
+    let day = activeDays.has(today) ? today : DateUtils.addDays(today, -1);
+    while (activeDays.has(day)) {
+      current++;
+      day = DateUtils.addDays(day, -1);
+    }
+
+    return { current, longest };
+  }
+}
@@ -0,0 +1,200 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { BookmarkService } from '../services/bookmark_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        pageBookmark: {
+            findMany: vi.fn(),
+            upsert: vi.fn(),
+            updateMany: vi.fn(),
+            deleteMany: vi.fn(),
+            findUniqueOrThrow: vi.fn(),
+        },
+        submittedManga: {
+            findUnique: vi.fn(),
+        },
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+const MANGADEX_MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+const MANGADEX_CHAPTER_ID = 'f1e8b4c2-1234-4cde-9abc-0123456789ab';
+const LOCAL_MANGA_ID = 'local-manga-uuid-001';
+const BOOKMARK_ID = 'bookmark-uuid-001';
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('BookmarkService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.pageBookmark.upsert.mockImplementation(async (args: any) => args.create);
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // listBookmarks
+    // -------------------------------------------------------------------------
+
+    describe('listBookmarks', () => {
+        test('should return a cursor when there are more bookmarks', async () => {
+            mockPrisma.pageBookmark.findMany.mockResolvedValue([{ id: 'b1' }, { id: 'b2' }, { id: 'b3' }]);
+
+            const result = await BookmarkService.listBookmarks(USER_ID, { limit: 2 });
+
+            expect(mockPrisma.pageBookmark.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID }, take: 3 }),
+            );
+            expect(result.bookmarks).toHaveLength(2);
+            expect(result.nextCursor).toBe('b3');
+        });
+
+        test('should filter MangaDex bookmarks by externalMangaId', async () => {
+            mockPrisma.pageBookmark.findMany.mockResolvedValue([]);
+
+            const result = await BookmarkService.listBookmarks(USER_ID, {
+                mangaId: MANGADEX_MANGA_ID,
+                source: 'MANGADEX',
+            });
+
+            expect(mockPrisma.pageBookmark.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID, externalMangaId: MANGADEX_MANGA_ID } }),
+            );
+            expect(result.nextCursor).toBeUndefined();
+        });
+
+        test('should filter local bookmarks by mangaId', async () => {
+            mockPrisma.pageBookmark.findMany.mockResolvedValue([]);
+
+            await BookmarkService.listBookmarks(USER_ID, { mangaId: LOCAL_MANGA_ID, source: 'LOCAL' });
+
+            expect(mockPrisma.pageBookmark.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID, mangaId: LOCAL_MANGA_ID } }),
+            );
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // createBookmark
+    // -------------------------------------------------------------------------
+
+    describe('createBookmark', () => {
+        test('should key MangaDex bookmarks on chapter and page', async () => {
+            const result = await BookmarkService.createBookmark(USER_ID, {
+                mangaId: MANGADEX_MANGA_ID,
+                source: 'MANGADEX',
+                chapterId: MANGADEX_CHAPTER_ID,
+                chapterNumber: 12,
+                pageNumber: 7,
+                note: '  great panel  ',
+            });
+
+            expect(mockPrisma.pageBookmark.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        userId_externalChapterId_pageNumber: {
+                            userId: USER_ID,
+                            externalChapterId: MANGADEX_CHAPTER_ID,
+                            pageNumber: 7,
+                        },
+                    },
+                }),
+            );
+            expect(result).toMatchObject({
+                externalMangaId: MANGADEX_MANGA_ID,
+                mangaId: null,
+                mangaSource: 'MANGADEX',
+                note: 'great panel',
+            });
+            expect(mockPrisma.submittedManga.findUnique).not.toHaveBeenCalled();
+        });
+
+        test('should key local bookmarks on manga, chapter number and page', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue({ id: LOCAL_MANGA_ID });
+
+            const result = await BookmarkService.createBookmark(USER_ID, {
+                mangaId: LOCAL_MANGA_ID,
+                source: 'LOCAL',
+                chapterNumber: 3,
+                pageNumber: 1,
+                note: '   ',
+            });
+
+            expect(mockPrisma.pageBookmark.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: {
+                        userId_mangaId_chapterNumber_pageNumber: {
+                            userId: USER_ID,
+                            mangaId: LOCAL_MANGA_ID,
+                            chapterNumber: 3,
+                            pageNumber: 1,
+                        },
+                    },
+                }),
+            );
+            expect(result).toMatchObject({ externalChapterId: null, note: null });
+        });
+
+        test('should reject unknown local manga', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue(null);
+
+            await expect(
+                BookmarkService.createBookmark(USER_ID, {
+                    mangaId: LOCAL_MANGA_ID,
+                    source: 'LOCAL',
+                    chapterNumber: 3,
+                    pageNumber: 1,
+                }),
+            ).rejects.toThrow('Local manga not found');
+            expect(mockPrisma.pageBookmark.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // updateNote / deleteBookmark
+    // -------------------------------------------------------------------------
+
+    describe('updateNote', () => {
+        test("should not touch another user's bookmark", async () => {
+            mockPrisma.pageBookmark.updateMany.mockResolvedValue({ count: 0 });
+
+            await expect(BookmarkService.updateNote(USER_ID, BOOKMARK_ID, 'note')).rejects.toThrow(
+                'Bookmark not found',
+            );
+            expect(mockPrisma.pageBookmark.updateMany).toHaveBeenCalledWith({
+                where: { id: BOOKMARK_ID, userId: USER_ID },
+                data: { note: 'note' },
+            });
+            expect(mockPrisma.pageBookmark.findUniqueOrThrow).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deleteBookmark', () => {
+        test('should delete only bookmarks owned by the user', async () => {
+            mockPrisma.pageBookmark.deleteMany.mockResolvedValue({ count: 1 });
+
+            await BookmarkService.deleteBookmark(USER_ID, BOOKMARK_ID);
+
+            expect(mockPrisma.pageBookmark.deleteMany).toHaveBeenCalledWith({
+                where: { id: BOOKMARK_ID, userId: USER_ID },
+            });
+        });
+    });
+});
@@ -0,0 +1,223 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { CreatorFollowService } from '../services/creator_follow_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const { prismaMock, getGroup, getAuthor, getChaptersByGroups, getMultipleMangaById } = vi.hoisted(() => ({
+    prismaMock: {
+        creatorFollow: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            delete: vi.fn(),
+            count: vi.fn(),
+        },
+        translationGroup: {
+            findUnique: vi.fn(),
+        },
+        comment: {
+            groupBy: vi.fn(),
+        },
+    },
+    getGroup: vi.fn(),
+    getAuthor: vi.fn(),
+    getChaptersByGroups: vi.fn(),
+    getMultipleMangaById: vi.fn(),
+}));
+
+vi.mock('../db/prisma', () => ({ default: prismaMock }));
+
+vi.mock('../services/mangadex_client', () => ({
+    MangaDexClient: class {
+        getGroup = getGroup;
+        getAuthor = getAuthor;
+        getChaptersByGroups = getChaptersByGroups;
+        getMultipleMangaById = getMultipleMangaById;
+    },
+}));
+
+// The cover proxy and feed cache modules open a Redis client on import
+vi.mock('../db/redis_client', () => ({
+    default: {
+        isReady: () => false,
+        getClient: vi.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+const GROUP_ID = '6d6e3a5a-4f1b-4a52-9b0a-1d1e1f1a1b1c';
+const MANGA_ID = '801513ba-a712-498c-8f57-cae55b38cc92';
+
+const makeFollow = (overrides = {}) => ({
+    id: 'follow-001',
+    creatorType: 'MANGADEX_GROUP' as const,
+    creatorId: GROUP_ID,
+    name: 'Team A',
+    createdAt: new Date('2024-01-01'),
+    ...overrides,
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('CreatorFollowService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // followCreator
+    // -------------------------------------------------------------------------
+
+    describe('followCreator', () => {
+        test('should follow a MangaDex group under its current name', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findUnique.mockResolvedValue(null);
+            getGroup.mockResolvedValue({ data: { attributes: { name: 'Team A' } } });
+            prismaMock.creatorFollow.create.mockResolvedValue(makeFollow());
+
+            // Act
+            await CreatorFollowService.followCreator(USER_ID, 'MANGADEX_GROUP', GROUP_ID);
+
+            // Assert
+            expect(prismaMock.creatorFollow.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: { userId: USER_ID, creatorType: 'MANGADEX_GROUP', creatorId: GROUP_ID, name: 'Team A' },
+                })
+            );
+        });
+
+        test('should still follow an author when MangaDex is unreachable', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findUnique.mockResolvedValue(null);
+            getAuthor.mockRejectedValue(new Error('timeout'));
+            prismaMock.creatorFollow.create.mockResolvedValue(makeFollow({ creatorType: 'AUTHOR', name: null }));
+
+            // Act
+            await CreatorFollowService.followCreator(USER_ID, 'AUTHOR', GROUP_ID);
+
+            // Assert
+            expect(prismaMock.creatorFollow.create).toHaveBeenCalledWith(
+                expect.objectContaining({ data: expect.objectContaining({ name: null }) })
+            );
+        });
+
+        test('should throw 404 for an unknown local group', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findUnique.mockResolvedValue(null);
+            prismaMock.translationGroup.findUnique.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(
+                CreatorFollowService.followCreator(USER_ID, 'LOCAL_GROUP', GROUP_ID),
+            ).rejects.toMatchObject({ status: 404 });
+            expect(prismaMock.creatorFollow.create).not.toHaveBeenCalled();
+        });
+
+        test('should throw 409 when already following', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findUnique.mockResolvedValue(makeFollow());
+
+            // Act & Assert
+            await expect(
+                CreatorFollowService.followCreator(USER_ID, 'MANGADEX_GROUP', GROUP_ID),
+            ).rejects.toMatchObject({ status: 409 });
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // unfollowCreator / getFollowStatus
+    // -------------------------------------------------------------------------
+
+    describe('unfollowCreator', () => {
+        test('should throw 404 when not following', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findUnique.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(
+                CreatorFollowService.unfollowCreator(USER_ID, 'AUTHOR', GROUP_ID),
+            ).rejects.toMatchObject({ status: 404 });
+            expect(prismaMock.creatorFollow.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getFollowStatus', () => {
+        test('should return whether the user follows and the follower count', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findUnique.mockResolvedValue(makeFollow());
+            prismaMock.creatorFollow.count.mockResolvedValue(12);
+
+            // Act
+            const result = await CreatorFollowService.getFollowStatus(USER_ID, 'MANGADEX_GROUP', GROUP_ID);
+
+            // Assert
+            expect(result).toEqual({ isFollowing: true, followers: 12 });
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // getGroupUploadsFeed
+    // -------------------------------------------------------------------------
+
+    describe('getGroupUploadsFeed', () => {
+        test('should return an empty page without followed groups', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findMany.mockResolvedValue([]);
+
+            // Act
+            const result = await CreatorFollowService.getGroupUploadsFeed(USER_ID);
+
+            // Assert
+            expect(result).toEqual({ data: [], total: 0, page: 1, limit: 20, hasMore: false });
+            expect(getChaptersByGroups).not.toHaveBeenCalled();
+        });
+
+        test('should page through the chapters of followed groups', async () => {
+            // Arrange
+            prismaMock.creatorFollow.findMany.mockResolvedValue([{ creatorId: GROUP_ID }]);
+            getChaptersByGroups.mockResolvedValue({
+                total: 45,
+                data: [
+                    {
+                        id: 'chapter-1',
+                        attributes: { chapter: '12', translatedLanguage: 'vi', publishAt: '2024-01-02T00:00:00Z' },
+                        relationships: [
+                            { id: MANGA_ID, type: 'manga', attributes: { title: { en: 'Berserk' } } },
+                            { id: GROUP_ID, type: 'scanlation_group', attributes: { name: 'Team A' } },
+                        ],
+                    },
+                ],
+            });
+            getMultipleMangaById.mockResolvedValue({ data: [] });
+            prismaMock.comment.groupBy.mockResolvedValue([{ chapterId: 'chapter-1', _count: { id: 3 } }]);
+
+            // Act
+            const result = await CreatorFollowService.getGroupUploadsFeed(USER_ID, { page: 2, limit: 20, translatedLanguage: ['vi'] });
+
+            // Assert
+            expect(getChaptersByGroups).toHaveBeenCalledWith(
+                [GROUP_ID],
+                expect.objectContaining({ limit: 20, offset: 20, translatedLanguage: ['vi'] })
+            );
+            expect(result.data[0]).toMatchObject({
+                chapterId: 'chapter-1',
+                mangaTitle: 'Berserk',
+                scanlationGroup: 'Team A',
+                commentCount: 3,
+            });
+            expect(result).toMatchObject({ total: 45, page: 2, hasMore: true });
+        });
+    });
+});
@@ -0,0 +1,255 @@
+import { vi, describe, test, expect, beforeEach } from 'vitest';
+import { checkCreatorUpdates } from '../queues/notification/creator_update_checker';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const {
+    creatorFollowFindMany,
+    favoriteFindMany,
+    chapterImageGroupBy,
+    submittedMangaFindMany,
+    getChaptersByGroups,
+    advancedSearchManga,
+    queueGroupUploadNotification,
+    queueNewChapterNotification,
+    queueNewTitleNotification,
+} = vi.hoisted(() => ({
+    creatorFollowFindMany: vi.fn(),
+    favoriteFindMany: vi.fn(),
+    chapterImageGroupBy: vi.fn(),
+    submittedMangaFindMany: vi.fn(),
+    getChaptersByGroups: vi.fn(),
+    advancedSearchManga: vi.fn(),
+    queueGroupUploadNotification: vi.fn(),
+    queueNewChapterNotification: vi.fn(),
+    queueNewTitleNotification: vi.fn(),
+}));
+
+vi.mock('../db/prisma', () => ({
+    default: {
+        creatorFollow: { findMany: creatorFollowFindMany },
+        favorite: { findMany: favoriteFindMany },
+        chapterImage: { groupBy: chapterImageGroupBy },
+        submittedManga: { findMany: submittedMangaFindMany },
+    },
+}));
+
+vi.mock('../services/mangadex_client', () => ({
+    MangaDexClient: class {
+        getChaptersByGroups = getChaptersByGroups;
+        advancedSearchManga = advancedSearchManga;
+    },
+}));
+
+vi.mock('../queues/notification/notification_queue', () => ({
+    queueGroupUploadNotification,
+    queueNewChapterNotification,
+    queueNewTitleNotification,
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const SINCE = new Date('2024-06-01T00:00:00Z');
+
+/** Followers per creator type, as returned by prisma.creatorFollow.findMany */
+function follows(byType: Record<string, Array<{ userId: string; creatorId: string }>>) {
+    creatorFollowFindMany.mockImplementation(({ where }: { where: { creatorType: string } }) =>
+        Promise.resolve(byType[where.creatorType] ?? [])
+    );
+}
+
+function groupChapter(groupIds: string[], id = 'chapter-1', mangaId = 'manga-1') {
+    return {
+        id,
+        attributes: { chapter: '12', translatedLanguage: 'en' },
+        relationships: [
+            { id: mangaId, type: 'manga', attributes: { title: { en: 'Berserk' } } },
+            ...groupIds.map((id) => ({ id, type: 'scanlation_group', attributes: { name: `Team ${id}` } })),
+        ],
+    };
+}
+
+/** A follower of manga-1, as returned by prisma.favorite.findMany */
+function mangaFollower(userId: string, settings: { notificationsMuted?: boolean; notifyLanguages?: string[] } = {}) {
+    return {
+        externalMangaId: 'manga-1',
+        userId,
+        notificationsMuted: settings.notificationsMuted ?? false,
+        notifyLanguages: settings.notifyLanguages ?? [],
+        notifyGroupIds: [],
+        user: { preferences: null },
+    };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('checkCreatorUpdates', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        follows({});
+        favoriteFindMany.mockResolvedValue([]);
+        chapterImageGroupBy.mockResolvedValue([]);
+        submittedMangaFindMany.mockResolvedValue([
+            { id: 'local-manga', title: 'Local Manga', group: { id: 'local-group', name: 'Local Team' } },
+        ]);
+        getChaptersByGroups.mockResolvedValue({ data: [] });
+        advancedSearchManga.mockResolvedValue({ data: [] });
+    });
+
+    test('should notify each group follower once per chapter, skipping followers of the manga', async () => {
+        follows({
+            MANGADEX_GROUP: [
+                { userId: 'user-1', creatorId: 'a' },
+                { userId: 'user-1', creatorId: 'b' },
+                { userId: 'reads-manga', creatorId: 'a' },
+            ],
+        });
+        favoriteFindMany.mockResolvedValue([mangaFollower('reads-manga')]);
+        getChaptersByGroups.mockResolvedValue({ data: [groupChapter(['a', 'b'])] });
+
+        await checkCreatorUpdates(SINCE);
+
+        expect(getChaptersByGroups).toHaveBeenCalledWith(
+            ['a', 'b'],
+            expect.objectContaining({ createdAtSince: '2024-06-01T00:00:00' })
+        );
+        expect(queueGroupUploadNotification).toHaveBeenCalledOnce();
+        expect(queueGroupUploadNotification).toHaveBeenCalledWith({
+            targetUserId: 'user-1',
+            groupId: 'a',
+            groupName: 'Team a',
+            mangaId: 'manga-1',
+            mangaTitle: 'Berserk',
+            chapterId: 'chapter-1',
+            chapterNumber: '12',
+        });
+    });
+
+    test('should still notify manga followers whose follow settings drop the chapter', async () => {
+        follows({
+            MANGADEX_GROUP: [
+                { userId: 'muted', creatorId: 'a' },
+                { userId: 'reads-vietnamese', creatorId: 'a' },
+            ],
+        });
+        favoriteFindMany.mockResolvedValue([
+            mangaFollower('muted', { notificationsMuted: true }),
+            mangaFollower('reads-vietnamese', { notifyLanguages: ['vi'] }),
+        ]);
+        getChaptersByGroups.mockResolvedValue({ data: [groupChapter(['a'])] });
+
+        await checkCreatorUpdates(SINCE);
+
+        const targets = queueGroupUploadNotification.mock.calls.map(([payload]) => payload.targetUserId);
+        expect(targets).toEqual(['muted', 'reads-vietnamese']);
+    });
+
+    test('should page through the whole feed and look up manga followers once', async () => {
+        follows({ MANGADEX_GROUP: [{ userId: 'user-1', creatorId: 'a' }] });
+        const firstPage = Array.from({ length: 100 }, (_, i) => groupChapter(['a'], `chapter-${i}`, `manga-${i % 3}`));
+        getChaptersByGroups
+            .mockResolvedValueOnce({ data: firstPage, total: 101 })
+            .mockResolvedValueOnce({ data: [groupChapter(['a'], 'chapter-100')], total: 101 });
+
+        await checkCreatorUpdates(SINCE);
+
+        expect(getChaptersByGroups).toHaveBeenCalledTimes(2);
+        expect(getChaptersByGroups).toHaveBeenLastCalledWith(['a'], expect.objectContaining({ offset: 100 }));
+        expect(favoriteFindMany).toHaveBeenCalledOnce();
+        expect(favoriteFindMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: { externalMangaId: { in: ['manga-0', 'manga-1', 'manga-2'] }, mangaSource: 'MANGADEX' },
+            })
+        );
+        expect(queueGroupUploadNotification).toHaveBeenCalledTimes(101);
+    });
+
+    test('should notify followers of local groups about chapters first uploaded since the last check', async () => {
+        follows({ LOCAL_GROUP: [{ userId: 'user-1', creatorId: 'local-group' }] });
+        chapterImageGroupBy.mockResolvedValue([{ mangaId: 'local-manga', chapterNumber: 3 }]);
+
+        await checkCreatorUpdates(SINCE);
+
+        // Chapters are keyed on their first page, so pages added later do not announce them again
+        expect(chapterImageGroupBy).toHaveBeenCalledWith(
+            expect.objectContaining({
+                by: ['mangaId', 'chapterNumber'],
+                having: { createdAt: { _min: { gte: SINCE } } },
+            })
+        );
+        expect(queueGroupUploadNotification).toHaveBeenCalledWith(
+            expect.objectContaining({ targetUserId: 'user-1', mangaId: 'local-manga', chapterNumber: '3' })
+        );
+        expect(queueNewChapterNotification).not.toHaveBeenCalled();
+    });
+
+    test('should send followers of a local manga its chapter notification instead of the group one', async () => {
+        follows({
+            LOCAL_GROUP: [
+                { userId: 'user-1', creatorId: 'local-group' },
+                { userId: 'user-2', creatorId: 'local-group' },
+            ],
+        });
+        chapterImageGroupBy.mockResolvedValue([{ mangaId: 'local-manga', chapterNumber: 3 }]);
+        // Muted followers are filtered out by the query and still hear from the group
+        favoriteFindMany.mockResolvedValue([{ mangaId: 'local-manga', userId: 'user-1' }]);
+
+        await checkCreatorUpdates(SINCE);
+
+        expect(favoriteFindMany).toHaveBeenCalledWith(
+            expect.objectContaining({
+                where: { mangaId: { in: ['local-manga'] }, mangaSource: 'LOCAL', notificationsMuted: false },
+            })
+        );
+        expect(queueNewChapterNotification).toHaveBeenCalledWith('local-manga', 'Local Manga', undefined, '3', ['user-1']);
+        expect(queueGroupUploadNotification).toHaveBeenCalledOnce();
+        expect(queueGroupUploadNotification).toHaveBeenCalledWith(expect.objectContaining({ targetUserId: 'user-2' }));
+    });
+
+    test('should notify author followers about titles created since the last check only', async () => {
+        follows({ AUTHOR: [{ userId: 'user-1', creatorId: 'author-1' }] });
+        advancedSearchManga.mockResolvedValue({
+            data: [
+                {
+                    id: 'new-manga',
+                    attributes: { title: { en: 'New Work' }, createdAt: '2024-06-02T00:00:00Z' },
+                    relationships: [{ id: 'author-1', type: 'author', attributes: { name: 'Miura Kentaro' } }],
+                },
+                {
+                    id: 'old-manga',
+                    attributes: { title: { en: 'Berserk' }, createdAt: '2018-01-01T00:00:00Z' },
+                    relationships: [],
+                },
+            ],
+        });
+
+        await checkCreatorUpdates(SINCE);
+
+        expect(queueNewTitleNotification).toHaveBeenCalledOnce();
+        expect(queueNewTitleNotification).toHaveBeenCalledWith({
+            targetUserId: 'user-1',
+            authorId: 'author-1',
+            authorName: 'Miura Kentaro',
+            mangaId: 'new-manga',
+            mangaTitle: 'New Work',
+        });
+    });
+
+    test('should keep checking authors when the group lookup fails', async () => {
+        follows({
+            MANGADEX_GROUP: [{ userId: 'user-1', creatorId: 'a' }],
+            AUTHOR: [{ userId: 'user-1', creatorId: 'author-1' }],
+        });
+        getChaptersByGroups.mockRejectedValue(new Error('MangaDex is down'));
+
+        await checkCreatorUpdates(SINCE);
+
+        expect(advancedSearchManga).toHaveBeenCalledWith(expect.objectContaining({ authors: ['author-1'] }));
+    });
+});
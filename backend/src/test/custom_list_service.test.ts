@@ -0,0 +1,215 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { CustomListService } from '../services/custom_list_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        customList: {
+            findUnique: vi.fn(),
+            findFirst: vi.fn(),
+            update: vi.fn(),
+        },
+        customListItem: {
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            aggregate: vi.fn(),
+            create: vi.fn(),
+            createMany: vi.fn(),
+            update: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        submittedManga: {
+            findUnique: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const OWNER_ID = 'user-owner';
+const OTHER_ID = 'user-other';
+const LIST_ID = 'list-1';
+const MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+
+function makeList(visibility: 'PRIVATE' | 'UNLISTED' | 'PUBLIC') {
+    return {
+        id: LIST_ID,
+        userId: OWNER_ID,
+        name: 'Favourites of 2026',
+        description: null,
+        visibility,
+        createdAt: new Date('2026-03-01T00:00:00Z'),
+        updatedAt: new Date('2026-03-02T00:00:00Z'),
+        _count: { items: 0 },
+        user: { id: OWNER_ID, displayName: 'Owner' },
+        items: [],
+    };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('CustomListService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.customList.findFirst.mockResolvedValue({ id: LIST_ID });
+        mockPrisma.$transaction.mockImplementation(async (arg: any) =>
+            typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+        );
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // getList
+    // -------------------------------------------------------------------------
+
+    describe('getList', () => {
+        test('should hide private lists from other users', async () => {
+            mockPrisma.customList.findUnique.mockResolvedValue(makeList('PRIVATE'));
+
+            await expect(CustomListService.getList(LIST_ID, OTHER_ID)).rejects.toThrow('List not found');
+            await expect(CustomListService.getList(LIST_ID)).rejects.toThrow('List not found');
+        });
+
+        test('should show private lists to their owner', async () => {
+            mockPrisma.customList.findUnique.mockResolvedValue(makeList('PRIVATE'));
+
+            const list = await CustomListService.getList(LIST_ID, OWNER_ID);
+
+            expect(list.isOwner).toBe(true);
+            expect(list.itemCount).toBe(0);
+        });
+
+        test('should open unlisted lists to anyone with the id', async () => {
+            mockPrisma.customList.findUnique.mockResolvedValue(makeList('UNLISTED'));
+
+            const list = await CustomListService.getList(LIST_ID);
+
+            expect(list.isOwner).toBe(false);
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // addManga
+    // -------------------------------------------------------------------------
+
+    describe('addManga', () => {
+        test('should append the manga after the last item', async () => {
+            mockPrisma.customListItem.findFirst.mockResolvedValue(null);
+            mockPrisma.customListItem.aggregate.mockResolvedValue({ _count: { _all: 3 }, _max: { position: 7 } });
+            mockPrisma.customListItem.create.mockResolvedValue({ id: 'item-1' });
+
+            await CustomListService.addManga(OWNER_ID, LIST_ID, { mangaId: MANGA_ID, source: 'MANGADEX', mangaTitle: 'Title' });
+
+            expect(mockPrisma.customListItem.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({ listId: LIST_ID, externalMangaId: MANGA_ID, mangaId: null, position: 8 }),
+                })
+            );
+        });
+
+        test('should reject a manga that is already in the list', async () => {
+            mockPrisma.customListItem.findFirst.mockResolvedValue({ id: 'item-1' });
+
+            await expect(
+                CustomListService.addManga(OWNER_ID, LIST_ID, { mangaId: MANGA_ID, source: 'MANGADEX' })
+            ).rejects.toThrow('This manga is already in the list');
+            expect(mockPrisma.customListItem.create).not.toHaveBeenCalled();
+        });
+
+        test('should not add to someone else\'s list', async () => {
+            mockPrisma.customList.findFirst.mockResolvedValue(null);
+
+            await expect(
+                CustomListService.addManga(OTHER_ID, LIST_ID, { mangaId: MANGA_ID, source: 'MANGADEX' })
+            ).rejects.toThrow('List not found');
+        });
+
+        test('should reject a local manga that does not exist', async () => {
+            mockPrisma.customListItem.findFirst.mockResolvedValue(null);
+            mockPrisma.submittedManga.findUnique.mockResolvedValue(null);
+
+            await expect(
+                CustomListService.addManga(OWNER_ID, LIST_ID, { mangaId: 'local-1', source: 'LOCAL' })
+            ).rejects.toThrow('Local manga not found');
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // addMangaBatch
+    // -------------------------------------------------------------------------
+
+    describe('addMangaBatch', () => {
+        test('should append the new manga in order and skip those already in the list', async () => {
+            mockPrisma.customListItem.findMany.mockResolvedValue([{ mangaId: null, externalMangaId: MANGA_ID }]);
+            mockPrisma.customListItem.aggregate.mockResolvedValue({ _count: { _all: 1 }, _max: { position: 0 } });
+
+            const result = await CustomListService.addMangaBatch(OWNER_ID, LIST_ID, [
+                { mangaId: MANGA_ID, source: 'MANGADEX' },
+                { mangaId: 'local-1', source: 'LOCAL' },
+                { mangaId: 'md-2', source: 'MANGADEX', mangaTitle: 'Title' },
+            ]);
+
+            expect(result).toEqual({ added: 2, skipped: 1 });
+            expect(mockPrisma.customListItem.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({ mangaId: 'local-1', externalMangaId: null, position: 1 }),
+                    expect.objectContaining({ externalMangaId: 'md-2', mangaTitle: 'Title', position: 2 }),
+                ],
+            });
+        });
+
+        test('should refuse a batch that would overfill the list', async () => {
+            mockPrisma.customListItem.findMany.mockResolvedValue([]);
+            mockPrisma.customListItem.aggregate.mockResolvedValue({ _count: { _all: 500 }, _max: { position: 499 } });
+
+            await expect(
+                CustomListService.addMangaBatch(OWNER_ID, LIST_ID, [{ mangaId: MANGA_ID, source: 'MANGADEX' }])
+            ).rejects.toThrow('A list can hold at most 500 manga');
+            expect(mockPrisma.customListItem.createMany).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // reorderItems
+    // -------------------------------------------------------------------------
+
+    describe('reorderItems', () => {
+        beforeEach(() => {
+            mockPrisma.customListItem.findMany.mockResolvedValue([{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+        });
+
+        test('should store each item at its new index', async () => {
+            await CustomListService.reorderItems(OWNER_ID, LIST_ID, ['c', 'a', 'b']);
+
+            expect(mockPrisma.customListItem.update).toHaveBeenCalledWith({ where: { id: 'c' }, data: { position: 0 } });
+            expect(mockPrisma.customListItem.update).toHaveBeenCalledWith({ where: { id: 'a' }, data: { position: 1 } });
+            expect(mockPrisma.customListItem.update).toHaveBeenCalledWith({ where: { id: 'b' }, data: { position: 2 } });
+        });
+
+        test('should reject an order that misses or repeats items', async () => {
+            await expect(CustomListService.reorderItems(OWNER_ID, LIST_ID, ['a', 'b'])).rejects.toThrow(
+                'The new order must contain every item of the list once'
+            );
+            await expect(CustomListService.reorderItems(OWNER_ID, LIST_ID, ['a', 'a', 'b'])).rejects.toThrow(
+                'The new order must contain every item of the list once'
+            );
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -12,19 +12,53 @@ vi.mock('../db/prisma', () => ({
             findFirst: vi.fn(),
             findMany: vi.fn(),
             create: vi.fn(),
+            update: vi.fn(),
             delete: vi.fn(),
+            deleteMany: vi.fn(),
+            updateMany: vi.fn(),
             count: vi.fn(),
+            groupBy: vi.fn(),
+            createMany: vi.fn(),
         },
         submittedManga: {
             findUnique: vi.fn(),
         },
+        readHistory: {
+            findMany: vi.fn(),
+        },
+        userPreferences: {
+            findUnique: vi.fn(),
+        },
         $transaction: vi.fn(),
     },
 }));
 
+const { getMultipleMangaById, getChaptersForManga, addMangaBatch, mockRedis } = vi.hoisted(() => ({
+    getMultipleMangaById: vi.fn(),
+    getChaptersForManga: vi.fn(),
+    addMangaBatch: vi.fn(),
+    mockRedis: {
+        scan: vi.fn(),
+        del: vi.fn(),
+    },
+}));
+
+vi.mock('../db/redis_client', () => ({
+    default: {
+        isReady: () => false,
+        getClient: () => mockRedis,
+    },
+}));
+
+vi.mock('../services/custom_list_service', () => ({
+    CustomListService: { addMangaBatch },
+}));
+
 vi.mock('../services/mangadex_client', () => ({
     MangaDexClient: vi.fn(() => ({
         getChaptersFeed: vi.fn(),
+        getMultipleMangaById,
+        getChaptersForManga,
     })),
 }));
 
@@ -42,6 +76,10 @@ const makeFavorite = (overrides = {}) => ({
     mangaId: null,
     externalMangaId: MANGADEX_ID,
     mangaSource: 'MANGADEX' as const,
+    status: 'READING' as const,
+    notificationsMuted: false,
+    notifyLanguages: [] as string[],
+    notifyGroupIds: [] as string[],
     createdAt: new Date('2024-01-01'),
     ...overrides,
 });
@@ -88,6 +126,7 @@ describe('FollowService', () => {
                     externalMangaId: MANGADEX_ID,
                     mangaId: null,
                     mangaSource: 'MANGADEX',
+                    status: 'READING',
                 },
             });
             expect(result.externalMangaId).toBe(MANGADEX_ID);
@@ -116,6 +155,7 @@ describe('FollowService', () => {
                     mangaId: LOCAL_ID,
                     externalMangaId: null,
                     mangaSource: 'LOCAL',
+                    status: 'READING',
                 },
             });
             expect(result.mangaSource).toBe('LOCAL');
@@ -180,6 +220,41 @@ describe('FollowService', () => {
         });
     });
 
+    // -------------------------------------------------------------------------
+    // updateFollowStatus
+    // -------------------------------------------------------------------------
+
+    describe('updateFollowStatus', () => {
+        test('should move the follow to the new shelf', async () => {
+            // Arrange
+            const fav = makeFavorite();
+            mockPrisma.favorite.findFirst.mockResolvedValue(fav);
+            mockPrisma.favorite.update.mockResolvedValue({ ...fav, status: 'COMPLETED' });
+
+            // Act
+            const result = await FollowService.updateFollowStatus(USER_ID, MANGADEX_ID, 'MANGADEX', 'COMPLETED');
+
+            // Assert
+            expect(mockPrisma.favorite.update).toHaveBeenCalledWith({
+                where: { id: fav.id },
+                data: { status: 'COMPLETED' },
+            });
+            expect(result.status).toBe('COMPLETED');
+        });
+
+        test('should throw 404 if the manga is not followed', async () => {
+            // Arrange
+            mockPrisma.favorite.findFirst.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(
+                FollowService.updateFollowStatus(USER_ID, MANGADEX_ID, 'MANGADEX', 'DROPPED'),
+            ).rejects.toMatchObject({ status: 404 });
+
+            expect(mockPrisma.favorite.update).not.toHaveBeenCalled();
+        });
+    });
+
     // -------------------------------------------------------------------------
     // isFollowing
     // -------------------------------------------------------------------------
@@ -194,7 +269,7 @@ describe('FollowService', () => {
             const result = await FollowService.isFollowing(USER_ID, MANGADEX_ID, 'MANGADEX');
 
             // Assert
-            expect(result).toEqual({ isFollowing: true, followId: fav.id });
+            expect(result).toEqual({ isFollowing: true, followId: fav.id, status: 'READING' });
         });
 
         test('should return isFollowing: false when no record', async () => {
@@ -210,6 +285,70 @@ describe('FollowService', () => {
         });
     });
 
+    // -------------------------------------------------------------------------
+    // Notification settings
+    // -------------------------------------------------------------------------
+
+    describe('getNotificationSettings', () => {
+        test('should list recent groups and keep allowed ones MangaDex no longer returns', async () => {
+            // Arrange
+            mockPrisma.favorite.findFirst.mockResolvedValue(makeFavorite({ notifyGroupIds: ['group-old'] }));
+            mockPrisma.userPreferences.findUnique.mockResolvedValue({ preferredLanguages: ['vi'] });
+            getChaptersForManga.mockResolvedValue({
+                data: [
+                    { relationships: [{ id: 'group-1', type: 'scanlation_group', attributes: { name: 'Team A' } }] },
+                    { relationships: [{ id: 'group-1', type: 'scanlation_group', attributes: { name: 'Team A' } }] },
+                ],
+            });
+
+            // Act
+            const result = await FollowService.getNotificationSettings(USER_ID, MANGADEX_ID, 'MANGADEX');
+
+            // Assert
+            expect(result).toEqual({
+                muted: false,
+                languages: [],
+                groupIds: ['group-old'],
+                defaultLanguages: ['vi'],
+                groups: [
+                    { id: 'group-1', name: 'Team A' },
+                    { id: 'group-old', name: null },
+                ],
+            });
+        });
+    });
+
+    describe('updateNotificationSettings', () => {
+        test('should update only the given settings', async () => {
+            // Arrange
+            const fav = makeFavorite();
+            mockPrisma.favorite.findFirst.mockResolvedValue(fav);
+            mockPrisma.favorite.update.mockResolvedValue({ ...fav, notificationsMuted: true });
+
+            // Act
+            const result = await FollowService.updateNotificationSettings(USER_ID, MANGADEX_ID, 'MANGADEX', {
+                muted: true,
+            });
+
+            // Assert
+            expect(mockPrisma.favorite.update).toHaveBeenCalledWith({
+                where: { id: fav.id },
+                data: { notificationsMuted: true, notifyLanguages: undefined, notifyGroupIds: undefined },
+            });
+            expect(result).toEqual({ muted: true, languages: [], groupIds: [] });
+        });
+
+        test('should throw 404 if the manga is not followed', async () => {
+            // Arrange
+            mockPrisma.favorite.findFirst.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(
+                FollowService.updateNotificationSettings(USER_ID, MANGADEX_ID, 'MANGADEX', { muted: true }),
+            ).rejects.toMatchObject({ status: 404 });
+        });
+    });
+
     // -------------------------------------------------------------------------
     // getUserFollows
     // -------------------------------------------------------------------------
@@ -265,6 +404,273 @@ describe('FollowService', () => {
             // Assert
             expect(result.hasMore).toBe(true);
         });
+
+        test('should only list follows on the requested shelf', async () => {
+            // Arrange
+            mockPrisma.$transaction.mockResolvedValue([[], 0]);
+
+            // Act
+            await FollowService.getUserFollows(USER_ID, { status: 'PLAN_TO_READ' });
+
+            // Assert
+            expect(mockPrisma.favorite.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID, status: 'PLAN_TO_READ' } }),
+            );
+            expect(mockPrisma.favorite.count).toHaveBeenCalledWith({
+                where: { userId: USER_ID, status: 'PLAN_TO_READ' },
+            });
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // getStatusCounts
+    // -------------------------------------------------------------------------
+
+    describe('getStatusCounts', () => {
+        test('should count every shelf, including empty ones', async () => {
+            // Arrange
+            mockPrisma.favorite.groupBy.mockResolvedValue([
+                { status: 'READING', _count: { _all: 3 } },
+                { status: 'DROPPED', _count: { _all: 1 } },
+            ]);
+
+            // Act
+            const result = await FollowService.getStatusCounts(USER_ID);
+
+            // Assert
+            expect(result).toEqual({ READING: 3, PLAN_TO_READ: 0, COMPLETED: 0, ON_HOLD: 0, DROPPED: 1 });
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // importFollows
+    // -------------------------------------------------------------------------
+
+    describe('importFollows', () => {
+        test('should create follows in batches and report progress after each', async () => {
+            // Arrange
+            const items = Array.from({ length: 150 }, (_, i) => ({ mangaId: `manga-${i}`, status: 'COMPLETED' as const }));
+            mockPrisma.favorite.createMany
+                .mockResolvedValueOnce({ count: 100 })
+                .mockResolvedValueOnce({ count: 40 });
+            mockRedis.scan.mockResolvedValue({ cursor: 0, keys: [`feed_v3:${USER_ID}:all:all`] });
+            const onProgress = vi.fn();
+
+            // Act
+            const result = await FollowService.importFollows(USER_ID, items, onProgress);
+
+            // Assert
+            expect(result).toEqual({ created: 140, skipped: 10 });
+            expect(mockPrisma.favorite.createMany).toHaveBeenCalledTimes(2);
+            expect(mockPrisma.favorite.createMany.mock.calls[0][0]).toMatchObject({ skipDuplicates: true });
+            expect(mockPrisma.favorite.createMany.mock.calls[0][0].data[0]).toEqual({
+                userId: USER_ID,
+                externalMangaId: 'manga-0',
+                mangaId: null,
+                mangaSource: 'MANGADEX',
+                status: 'COMPLETED',
+            });
+            expect(onProgress).toHaveBeenLastCalledWith({ processed: 150, total: 150 });
+            expect(mockRedis.scan).toHaveBeenCalledOnce();
+            expect(mockRedis.del).toHaveBeenCalledWith([`feed_v3:${USER_ID}:all:all`]);
+        });
+
+        test('should count manga that are already followed as skipped', async () => {
+            // Arrange
+            mockPrisma.favorite.createMany.mockResolvedValue({ count: 0 });
+
+            // Act
+            const result = await FollowService.importFollows(USER_ID, [{ mangaId: MANGADEX_ID, status: 'READING' }]);
+
+            // Assert
+            expect(result).toEqual({ created: 0, skipped: 1 });
+            expect(mockRedis.scan).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // Bulk changes
+    // -------------------------------------------------------------------------
+
+    describe('bulk changes', () => {
+        beforeEach(() => {
+            mockPrisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) => fn(mockPrisma));
+        });
+
+        test('should unfollow every selected manga in one transaction', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([makeFavorite({ id: 'fav-001' }), makeFavorite({ id: 'fav-002' })]);
+            mockPrisma.favorite.deleteMany.mockResolvedValue({ count: 2 });
+            mockRedis.scan.mockResolvedValue({ cursor: 0, keys: [`feed_v3:${USER_ID}:all:all`] });
+
+            // Act
+            const result = await FollowService.bulkUnfollow(USER_ID, ['fav-001', 'fav-002']);
+
+            // Assert
+            expect(result).toEqual({ count: 2 });
+            expect(mockPrisma.$transaction).toHaveBeenCalledOnce();
+            expect(mockPrisma.favorite.deleteMany).toHaveBeenCalledWith({
+                where: { userId: USER_ID, id: { in: ['fav-001', 'fav-002'] } },
+            });
+            // The feed cache is cleared once for the whole batch, not per follow
+            expect(mockRedis.scan).toHaveBeenCalledOnce();
+            expect(mockRedis.scan).toHaveBeenCalledWith('0', { MATCH: `feed_v3:${USER_ID}:*`, COUNT: 50 });
+            expect(mockRedis.del).toHaveBeenCalledOnce();
+        });
+
+        test('should change nothing when a selected follow is not the user\'s', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([makeFavorite({ id: 'fav-001' })]);
+
+            // Act & Assert
+            await expect(
+                FollowService.bulkUpdateStatus(USER_ID, ['fav-001', 'fav-other'], 'COMPLETED'),
+            ).rejects.toMatchObject({ status: 404 });
+            expect(mockPrisma.favorite.updateMany).not.toHaveBeenCalled();
+        });
+
+        test('should mute the selected follows', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([makeFavorite()]);
+            mockPrisma.favorite.updateMany.mockResolvedValue({ count: 1 });
+
+            // Act
+            await FollowService.bulkSetMuted(USER_ID, ['fav-001'], true);
+
+            // Assert
+            expect(mockPrisma.favorite.updateMany).toHaveBeenCalledWith({
+                where: { userId: USER_ID, id: { in: ['fav-001'] } },
+                data: { notificationsMuted: true },
+            });
+        });
+
+        test('should check ownership and add to the list in the same transaction', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([makeFavorite()]);
+            getMultipleMangaById.mockResolvedValue({
+                data: [{ id: MANGADEX_ID, attributes: { title: { en: 'Berserk' } }, relationships: [] }],
+            });
+            addMangaBatch.mockResolvedValue({ added: 1, skipped: 0 });
+
+            // Act
+            const result = await FollowService.bulkAddToList(USER_ID, ['fav-001'], 'list-1');
+
+            // Assert
+            expect(result).toEqual({ added: 1, skipped: 0 });
+            expect(mockPrisma.$transaction).toHaveBeenCalledOnce();
+            expect(addMangaBatch).toHaveBeenCalledWith(
+                USER_ID,
+                'list-1',
+                [{ mangaId: MANGADEX_ID, source: 'MANGADEX', mangaTitle: 'Berserk', coverUrl: null }],
+                mockPrisma
+            );
+            // MangaDex is asked before the transaction opens, not while it holds locks
+            expect(getMultipleMangaById.mock.invocationCallOrder[0]).toBeLessThan(
+                mockPrisma.$transaction.mock.invocationCallOrder[0]
+            );
+        });
+
+        test('should add nothing when a selected follow is not the user\'s', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([makeFavorite()]);
+            getMultipleMangaById.mockResolvedValue({ data: [] });
+
+            // Act & Assert
+            await expect(
+                FollowService.bulkAddToList(USER_ID, ['fav-001', 'fav-other'], 'list-1'),
+            ).rejects.toMatchObject({ status: 404 });
+            expect(addMangaBatch).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // exportFollows
+    // -------------------------------------------------------------------------
+
+    describe('exportFollows', () => {
+        test('should add reading progress and MAL/AniList ids to each follow', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([
+                { ...makeFavorite({ status: 'COMPLETED' }), manga: null },
+                {
+                    ...makeFavorite({ id: 'fav-002', mangaId: LOCAL_ID, externalMangaId: null, mangaSource: 'LOCAL' }),
+                    manga: { title: 'Local Manga' },
+                },
+            ]);
+            mockPrisma.readHistory.findMany.mockResolvedValue([
+                {
+                    mangaId: null,
+                    externalMangaId: MANGADEX_ID,
+                    chapterNumber: 42,
+                    createdAt: new Date('2024-01-02'),
+                    lastReadAt: new Date('2024-02-01'),
+                },
+            ]);
+            getMultipleMangaById.mockResolvedValue({
+                data: [{ id: MANGADEX_ID, attributes: { title: { en: 'Berserk' }, links: { mal: '2', al: '30002' } } }],
+            });
+
+            // Act
+            const result = await FollowService.exportFollows(USER_ID);
+
+            // Assert
+            expect(getMultipleMangaById).toHaveBeenCalledWith([MANGADEX_ID], []);
+            expect(result).toEqual([
+                {
+                    source: 'MANGADEX',
+                    mangaId: MANGADEX_ID,
+                    title: 'Berserk',
+                    status: 'COMPLETED',
+                    followedAt: new Date('2024-01-01'),
+                    malId: '2',
+                    anilistId: '30002',
+                    lastReadChapter: 42,
+                    startedReadingAt: new Date('2024-01-02'),
+                    lastReadAt: new Date('2024-02-01'),
+                },
+                {
+                    source: 'LOCAL',
+                    mangaId: LOCAL_ID,
+                    title: 'Local Manga',
+                    status: 'READING',
+                    followedAt: new Date('2024-01-01'),
+                    malId: null,
+                    anilistId: null,
+                    lastReadChapter: null,
+                    startedReadingAt: null,
+                    lastReadAt: null,
+                },
+            ]);
+        });
+
+        test('should drop MAL and AniList ids that are not numbers', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([{ ...makeFavorite(), manga: null }]);
+            mockPrisma.readHistory.findMany.mockResolvedValue([]);
+            getMultipleMangaById.mockResolvedValue({
+                data: [{ id: MANGADEX_ID, attributes: { title: { en: 'Berserk' }, links: { mal: '2</manga>&', al: 'berserk' } } }],
+            });
+
+            // Act
+            const result = await FollowService.exportFollows(USER_ID);
+
+            // Assert
+            expect(result[0]).toMatchObject({ malId: null, anilistId: null });
+        });
+
+        test('should still export when MangaDex is unreachable', async () => {
+            // Arrange
+            mockPrisma.favorite.findMany.mockResolvedValue([{ ...makeFavorite(), manga: null }]);
+            mockPrisma.readHistory.findMany.mockResolvedValue([]);
+            getMultipleMangaById.mockRejectedValue(new Error('timeout'));
+
+            // Act
+            const result = await FollowService.exportFollows(USER_ID);
+
+            // Assert
+            expect(result).toHaveLength(1);
+            expect(result[0]).toMatchObject({ mangaId: MANGADEX_ID, title: null, malId: null });
+        });
     });
 
     // -------------------------------------------------------------------------
@@ -0,0 +1,250 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { HistoryService, type MergeHistoryEntryData } from '../services/history_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        chapterHistory: {
+            findMany: vi.fn(),
+            upsert: vi.fn(),
+            update: vi.fn(),
+            createMany: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        chapterRead: {
+            create: vi.fn(),
+            createMany: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+const MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+
+function makeEntry(chapterId: string, readAt: string): MergeHistoryEntryData {
+    return {
+        mangaId: MANGA_ID,
+        chapterId,
+        mangaTitle: 'Test Manga',
+        chapterNumber: '1',
+        translatedLanguage: 'en',
+        scanlationGroups: [{ id: 'group-1', name: 'Group One' }],
+        readAt: new Date(readAt),
+    };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('HistoryService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.chapterHistory.upsert.mockImplementation(async (args: any) => args.create);
+        mockPrisma.chapterHistory.createMany.mockImplementation((args: any) => ({ op: 'createMany', args }));
+        mockPrisma.chapterHistory.update.mockImplementation((args: any) => ({ op: 'update', args }));
+        mockPrisma.chapterRead.create.mockImplementation(async (args: any) => args.data);
+        mockPrisma.chapterRead.createMany.mockImplementation((args: any) => ({ op: 'createMany', args }));
+        mockPrisma.chapterRead.deleteMany.mockResolvedValue({ count: 0 });
+        mockPrisma.$transaction.mockImplementation(async (operations: any[]) => Promise.all(operations));
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // listHistory
+    // -------------------------------------------------------------------------
+
+    describe('listHistory', () => {
+        test('should return a cursor when there are more entries', async () => {
+            mockPrisma.chapterHistory.findMany.mockResolvedValue([{ id: 'h1' }, { id: 'h2' }, { id: 'h3' }]);
+
+            const result = await HistoryService.listHistory(USER_ID, { limit: 2 });
+
+            expect(result.entries).toHaveLength(2);
+            expect(result.nextCursor).toBe('h3');
+            expect(mockPrisma.chapterHistory.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { userId: USER_ID },
+                    take: 3,
+                    orderBy: [{ readAt: 'desc' }, { id: 'desc' }],
+                })
+            );
+        });
+
+        test('should filter by manga', async () => {
+            mockPrisma.chapterHistory.findMany.mockResolvedValue([]);
+
+            const result = await HistoryService.listHistory(USER_ID, { mangaId: MANGA_ID });
+
+            expect(result.nextCursor).toBeUndefined();
+            expect(mockPrisma.chapterHistory.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID, mangaId: MANGA_ID } })
+            );
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // recordChapter
+    // -------------------------------------------------------------------------
+
+    describe('recordChapter', () => {
+        test('should upsert by chapter and move it to now', async () => {
+            const { readAt: _readAt, ...entry } = makeEntry('chapter-1', '2026-01-01T00:00:00Z');
+
+            await HistoryService.recordChapter(USER_ID, entry);
+
+            const args = mockPrisma.chapterHistory.upsert.mock.calls[0][0];
+            expect(args.where).toEqual({ userId_chapterId: { userId: USER_ID, chapterId: 'chapter-1' } });
+            expect(args.update.readAt).toBeInstanceOf(Date);
+            expect(args.update.readAt.getTime()).toBeGreaterThan(Date.parse('2026-01-01T00:00:00Z'));
+            expect(args.create.chapterTitle).toBeNull();
+        });
+
+        test('should add every opening to the read log', async () => {
+            const { readAt: _readAt, ...entry } = makeEntry('chapter-1', '2026-01-01T00:00:00Z');
+
+            await HistoryService.recordChapter(USER_ID, entry);
+
+            const upsertArgs = mockPrisma.chapterHistory.upsert.mock.calls[0][0];
+            expect(mockPrisma.chapterRead.create).toHaveBeenCalledWith({
+                data: {
+                    userId: USER_ID,
+                    mangaId: MANGA_ID,
+                    chapterId: 'chapter-1',
+                    mangaTitle: 'Test Manga',
+                    translatedLanguage: 'en',
+                    coverUrl: null,
+                    readAt: upsertArgs.update.readAt,
+                },
+            });
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // mergeHistory
+    // -------------------------------------------------------------------------
+
+    describe('mergeHistory', () => {
+        test('should create chapters the server has not seen', async () => {
+            mockPrisma.chapterHistory.findMany.mockResolvedValue([]);
+
+            const result = await HistoryService.mergeHistory(USER_ID, [
+                makeEntry('chapter-1', '2026-03-01T00:00:00Z'),
+                makeEntry('chapter-2', '2026-03-02T00:00:00Z'),
+            ]);
+
+            expect(result).toEqual({ created: 2, updated: 0 });
+            const createArgs = mockPrisma.chapterHistory.createMany.mock.calls[0][0];
+            expect(createArgs.skipDuplicates).toBe(true);
+            expect(createArgs.data.map((row: any) => row.chapterId)).toEqual(['chapter-1', 'chapter-2']);
+        });
+
+        test('should keep the newest read when the device repeats a chapter', async () => {
+            mockPrisma.chapterHistory.findMany.mockResolvedValue([]);
+
+            const result = await HistoryService.mergeHistory(USER_ID, [
+                makeEntry('chapter-1', '2026-03-01T00:00:00Z'),
+                makeEntry('chapter-1', '2026-03-05T00:00:00Z'),
+            ]);
+
+            expect(result).toEqual({ created: 1, updated: 0 });
+            const createArgs = mockPrisma.chapterHistory.createMany.mock.calls[0][0];
+            expect(createArgs.data[0].readAt).toEqual(new Date('2026-03-05T00:00:00Z'));
+        });
+
+        test('should log every read of the device, skipping ones already logged', async () => {
+            mockPrisma.chapterHistory.findMany.mockResolvedValue([
+                { id: 'h1', chapterId: 'chapter-1', readAt: new Date('2026-03-10T00:00:00Z') },
+            ]);
+
+            await HistoryService.mergeHistory(USER_ID, [
+                makeEntry('chapter-1', '2026-03-01T00:00:00Z'),
+                makeEntry('chapter-1', '2026-03-05T00:00:00Z'),
+            ]);
+
+            const readArgs = mockPrisma.chapterRead.createMany.mock.calls[0][0];
+            expect(readArgs.skipDuplicates).toBe(true);
+            expect(readArgs.data.map((row: any) => row.readAt)).toEqual([
+                new Date('2026-03-01T00:00:00Z'),
+                new Date('2026-03-05T00:00:00Z'),
+            ]);
+        });
+
+        test('should only overwrite server entries that are older', async () => {
+            mockPrisma.chapterHistory.findMany.mockResolvedValue([
+                { id: 'h1', chapterId: 'chapter-1', readAt: new Date('2026-03-01T00:00:00Z') },
+                { id: 'h2', chapterId: 'chapter-2', readAt: new Date('2026-03-10T00:00:00Z') },
+            ]);
+
+            const result = await HistoryService.mergeHistory(USER_ID, [
+                makeEntry('chapter-1', '2026-03-04T00:00:00Z'),
+                makeEntry('chapter-2', '2026-03-04T00:00:00Z'),
+            ]);
+
+            expect(result).toEqual({ created: 0, updated: 1 });
+            expect(mockPrisma.chapterHistory.update).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.chapterHistory.update).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: 'h1' } })
+            );
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+        });
+
+        test('should do nothing for an empty list', async () => {
+            const result = await HistoryService.mergeHistory(USER_ID, []);
+
+            expect(result).toEqual({ created: 0, updated: 0 });
+            expect(mockPrisma.chapterHistory.findMany).not.toHaveBeenCalled();
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // clearHistory
+    // -------------------------------------------------------------------------
+
+    describe('clearHistory', () => {
+        test('should delete only the user\'s entries', async () => {
+            mockPrisma.chapterHistory.deleteMany.mockResolvedValue({ count: 4 });
+
+            const deleted = await HistoryService.clearHistory(USER_ID);
+
+            expect(deleted).toBe(4);
+            expect(mockPrisma.chapterHistory.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+            expect(mockPrisma.chapterRead.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+        });
+
+        test('should delete one manga\'s entries within a time range', async () => {
+            mockPrisma.chapterHistory.deleteMany.mockResolvedValue({ count: 2 });
+            const from = new Date('2026-01-01T00:00:00Z');
+            const to = new Date('2026-02-01T00:00:00Z');
+
+            await HistoryService.clearHistory(USER_ID, { mangaId: MANGA_ID, from, to });
+
+            expect(mockPrisma.chapterHistory.deleteMany).toHaveBeenCalledWith({
+                where: { userId: USER_ID, mangaId: MANGA_ID, readAt: { gte: from, lt: to } },
+            });
+            // Deleted reads must not linger in the statistics
+            expect(mockPrisma.chapterRead.deleteMany).toHaveBeenCalledWith({
+                where: { userId: USER_ID, mangaId: MANGA_ID, readAt: { gte: from, lt: to } },
+            });
+        });
+    });
+});
@@ -0,0 +1,287 @@
+import { vi, describe, test, expect, beforeEach } from 'vitest';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const { mockRedis, mockFs, mockAxiosGet, mockGetChapterPages, mockSharp, mockPrisma } = vi.hoisted(() => ({
+    mockRedis: {
+        setEx: vi.fn(),
+        zAdd: vi.fn(),
+        zRange: vi.fn(),
+        zRem: vi.fn(),
+        hSetNX: vi.fn(),
+        hGet: vi.fn(),
+        hDel: vi.fn(),
+        get: vi.fn(),
+        incrBy: vi.fn(),
+        decrBy: vi.fn(),
+    },
+    mockFs: {
+        readFile: vi.fn(),
+        writeFile: vi.fn(),
+        rename: vi.fn(),
+        mkdir: vi.fn(),
+        rm: vi.fn(),
+    },
+    mockAxiosGet: vi.fn(),
+    mockGetChapterPages: vi.fn(),
+    mockSharp: {
+        rotate: vi.fn(),
+        resize: vi.fn(),
+        jpeg: vi.fn(),
+        toBuffer: vi.fn(),
+    },
+    mockPrisma: {
+        submittedManga: { findUnique: vi.fn() },
+    },
+}));
+
+vi.mock('../db/redis_client', () => ({
+    default: {
+        isReady: () => true,
+        getClient: () => mockRedis,
+    },
+}));
+
+vi.mock('fs/promises', () => ({ default: mockFs }));
+
+vi.mock('axios', () => ({ default: { get: (...args: any[]) => mockAxiosGet(...args) } }));
+
+vi.mock('../services/mangadex_client', () => ({
+    MangaDexClient: vi.fn().mockImplementation(() => ({
+        getChapterPages: (...args: any[]) => mockGetChapterPages(...args),
+    })),
+}));
+
+vi.mock('sharp', () => ({ default: vi.fn(() => mockSharp) }));
+
+vi.mock('../db/prisma', () => ({ prisma: mockPrisma }));
+
+vi.mock('../config/cloudinary', () => ({
+    cloudinary: {
+        url: (publicId: string, options: { format: string }) =>
+            `https://res.cloudinary.com/demo/image/upload/${publicId}.${options.format}`,
+    },
+}));
+
+vi.mock('../config', () => ({
+    imageCacheConfig: { dir: '/tmp/image-cache', maxBytes: 1000 },
+}));
+
+import { ImageProxyService } from '../services/image_proxy_service';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+const CHAPTER_ID = 'f1e8b4c2-1234-4cde-9abc-0123456789ab';
+const HASH = '0123456789abcdef0123456789abcdef';
+const IMAGE = Buffer.from('image-bytes');
+const RESIZED = Buffer.from('resized');
+const AT_HOME = { baseUrl: 'https://node.mangadex.network', chapter: { hash: HASH } };
+
+const imageResponse = (data: Buffer = IMAGE) => ({
+    data,
+    headers: { 'content-type': 'image/jpeg' },
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ImageProxyService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockFs.readFile.mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOENT' }));
+        mockRedis.hSetNX.mockResolvedValue(1);
+        mockRedis.get.mockResolvedValue('0');
+        mockSharp.rotate.mockReturnValue(mockSharp);
+        mockSharp.resize.mockReturnValue(mockSharp);
+        mockSharp.jpeg.mockReturnValue(mockSharp);
+        mockSharp.toBuffer.mockResolvedValue(RESIZED);
+    });
+
+    // -------------------------------------------------------------------------
+    // getCover
+    // -------------------------------------------------------------------------
+
+    describe('getCover', () => {
+        test('should serve a cached cover from disk without hitting upstream', async () => {
+            mockFs.readFile.mockResolvedValue(IMAGE);
+            mockRedis.hSetNX.mockResolvedValue(0);
+
+            const result = await ImageProxyService.getCover(MANGA_ID, 'cover.jpg', 256);
+
+            expect(result.cacheHit).toBe(true);
+            expect(result.contentType).toBe('image/jpeg');
+            expect(mockAxiosGet).not.toHaveBeenCalled();
+            expect(mockRedis.zAdd).toHaveBeenCalledWith('image_cache:lru', expect.objectContaining({ value: result.key }));
+            expect(mockRedis.incrBy).not.toHaveBeenCalled();
+        });
+
+        test('should resize the original cover to the requested width and cache it', async () => {
+            mockAxiosGet.mockResolvedValue(imageResponse());
+
+            const result = await ImageProxyService.getCover(MANGA_ID, 'cover.png', 512);
+
+            expect(mockAxiosGet).toHaveBeenCalledWith(
+                `https://uploads.mangadex.org/covers/${MANGA_ID}/cover.png`,
+                expect.objectContaining({ responseType: 'arraybuffer' }),
+            );
+            expect(mockSharp.resize).toHaveBeenCalledWith({ width: 512, withoutEnlargement: true });
+            expect(result.cacheHit).toBe(false);
+            expect(result.contentType).toBe('image/jpeg');
+            expect(result.data).toEqual(RESIZED);
+            expect(mockFs.writeFile).toHaveBeenCalledWith(expect.any(String), RESIZED);
+            expect(mockFs.rename).toHaveBeenCalled();
+            expect(mockRedis.incrBy).toHaveBeenCalledWith('image_cache:bytes', RESIZED.length);
+        });
+
+        test('should serve the original untouched without a size', async () => {
+            mockAxiosGet.mockResolvedValue(imageResponse());
+
+            const result = await ImageProxyService.getCover(MANGA_ID, 'cover.png');
+
+            expect(mockSharp.resize).not.toHaveBeenCalled();
+            expect(result.contentType).toBe('image/png');
+            expect(result.data).toEqual(IMAGE);
+        });
+
+        test('should answer 502 and cache nothing when the image cannot be decoded', async () => {
+            mockAxiosGet.mockResolvedValue(imageResponse());
+            mockSharp.toBuffer.mockRejectedValue(new Error('Input buffer contains unsupported image format'));
+
+            await expect(ImageProxyService.getCover(MANGA_ID, 'cover.jpg', 256)).rejects.toMatchObject({ status: 502 });
+            expect(mockFs.writeFile).not.toHaveBeenCalled();
+        });
+
+        test('should reject non-image upstream responses with 502', async () => {
+            mockAxiosGet.mockResolvedValue({ data: Buffer.from('<html>'), headers: { 'content-type': 'text/html' } });
+
+            await expect(ImageProxyService.getCover(MANGA_ID, 'cover.jpg')).rejects.toMatchObject({ status: 502 });
+            expect(mockFs.writeFile).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // getLocalCover
+    // -------------------------------------------------------------------------
+
+    describe('getLocalCover', () => {
+        test('should resize the Cloudinary original of a submitted manga', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue({ coverPublicId: 'manga-covers/abc' });
+            mockAxiosGet.mockResolvedValue(imageResponse());
+
+            const result = await ImageProxyService.getLocalCover(MANGA_ID, 256);
+
+            expect(mockAxiosGet).toHaveBeenCalledWith(
+                'https://res.cloudinary.com/demo/image/upload/manga-covers/abc.jpg',
+                expect.anything(),
+            );
+            expect(mockSharp.resize).toHaveBeenCalledWith({ width: 256, withoutEnlargement: true });
+            expect(result.data).toEqual(RESIZED);
+        });
+
+        test('should throw 404 when the manga has no cover', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue({ coverPublicId: null });
+
+            await expect(ImageProxyService.getLocalCover(MANGA_ID, 256)).rejects.toMatchObject({ status: 404 });
+            expect(mockAxiosGet).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // getChapterPage
+    // -------------------------------------------------------------------------
+
+    describe('getChapterPage', () => {
+        test('should fetch from the uploads origin without an at-home lookup', async () => {
+            mockAxiosGet.mockResolvedValue(imageResponse());
+
+            const result = await ImageProxyService.getChapterPage(CHAPTER_ID, 'data', HASH, 'x1.jpg');
+
+            expect(mockAxiosGet).toHaveBeenCalledTimes(1);
+            expect(mockAxiosGet).toHaveBeenCalledWith(`https://uploads.mangadex.org/data/${HASH}/x1.jpg`, expect.anything());
+            expect(mockGetChapterPages).not.toHaveBeenCalled();
+            expect(result.data).toEqual(IMAGE);
+        });
+
+        test('should fall back to an at-home node when the uploads origin fails, caching the lookup', async () => {
+            mockRedis.get.mockResolvedValueOnce(null);
+            mockGetChapterPages.mockResolvedValue(AT_HOME);
+            mockAxiosGet
+                .mockRejectedValueOnce(new Error('timeout'))
+                .mockResolvedValueOnce(imageResponse());
+
+            const result = await ImageProxyService.getChapterPage(CHAPTER_ID, 'data-saver', HASH, 'x1.jpg');
+
+            expect(mockAxiosGet).toHaveBeenNthCalledWith(
+                2,
+                `https://node.mangadex.network/data-saver/${HASH}/x1.jpg`,
+                expect.anything(),
+            );
+            expect(mockRedis.setEx).toHaveBeenCalledWith(
+                `image_proxy:at_home:${CHAPTER_ID}`,
+                expect.any(Number),
+                JSON.stringify({ baseUrl: AT_HOME.baseUrl, hash: HASH }),
+            );
+            expect(result.data).toEqual(IMAGE);
+        });
+
+        test('should reuse a cached at-home server', async () => {
+            mockRedis.get.mockImplementation(async (key: string) =>
+                key.startsWith('image_proxy:at_home:') ? JSON.stringify({ baseUrl: AT_HOME.baseUrl, hash: HASH }) : '0'
+            );
+            mockAxiosGet
+                .mockRejectedValueOnce(new Error('timeout'))
+                .mockResolvedValueOnce(imageResponse());
+
+            await ImageProxyService.getChapterPage(CHAPTER_ID, 'data', HASH, 'x1.jpg');
+
+            expect(mockGetChapterPages).not.toHaveBeenCalled();
+            expect(mockAxiosGet).toHaveBeenLastCalledWith(`https://node.mangadex.network/data/${HASH}/x1.jpg`, expect.anything());
+        });
+
+        test('should share one at-home lookup between concurrent misses of a chapter', async () => {
+            mockRedis.get.mockImplementation(async (key: string) => (key.startsWith('image_proxy:at_home:') ? null : '0'));
+            mockGetChapterPages.mockResolvedValue(AT_HOME);
+            mockAxiosGet.mockImplementation(async (url: string) => {
+                if (url.startsWith('https://uploads.mangadex.org')) throw new Error('timeout');
+                return imageResponse();
+            });
+
+            await Promise.all(
+                ['x1.jpg', 'x2.jpg', 'x3.jpg'].map((file) => ImageProxyService.getChapterPage(CHAPTER_ID, 'data', HASH, file))
+            );
+
+            expect(mockGetChapterPages).toHaveBeenCalledTimes(1);
+        });
+
+        test('should skip an at-home node serving a different chapter version', async () => {
+            mockRedis.get.mockResolvedValueOnce(null);
+            mockGetChapterPages.mockResolvedValue({ ...AT_HOME, chapter: { hash: 'f'.repeat(32) } });
+            mockAxiosGet.mockRejectedValue(new Error('404'));
+
+            await expect(ImageProxyService.getChapterPage(CHAPTER_ID, 'data', HASH, 'x1.jpg')).rejects.toMatchObject({ status: 502 });
+            expect(mockAxiosGet).toHaveBeenCalledTimes(1);
+        });
+
+        test('should evict least recently used entries once the size cap is exceeded', async () => {
+            mockAxiosGet.mockResolvedValue(imageResponse());
+            mockRedis.get.mockResolvedValue('1500');
+            mockRedis.zRange.mockResolvedValue(['oldest', 'older']);
+            mockRedis.hGet.mockResolvedValue('600');
+            mockRedis.decrBy.mockResolvedValue(900);
+
+            await ImageProxyService.getChapterPage(CHAPTER_ID, 'data', HASH, 'x1.png');
+
+            expect(mockFs.rm).toHaveBeenCalledTimes(1);
+            expect(mockFs.rm).toHaveBeenCalledWith('/tmp/image-cache/ol/oldest', { force: true });
+            expect(mockRedis.zRem).toHaveBeenCalledWith('image_cache:lru', 'oldest');
+            expect(mockRedis.hDel).toHaveBeenCalledWith('image_cache:sizes', 'oldest');
+            expect(mockRedis.decrBy).toHaveBeenCalledWith('image_cache:bytes', 600);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Test the library import queue producers and the job status lookup.
+ *
+ * Strategy: mock the BullMQ Queue instance, as in the notification queue tests.
+ */
+
+const { mockAdd, mockGetJob } = vi.hoisted(() => ({
+    mockAdd: vi.fn().mockResolvedValue({ id: 'job-1' }),
+    mockGetJob: vi.fn(),
+}));
+
+vi.mock('../queues/connection', () => ({
+    bullmqConnection: { host: 'localhost', port: 6379 },
+}));
+
+vi.mock('bullmq', () => ({
+    Queue: vi.fn().mockImplementation(() => ({
+        add: mockAdd,
+        getJob: mockGetJob,
+        close: vi.fn(),
+    })),
+}));
+
+import { queueImportMatch, queueImportFollows, getImportJobStatus } from '../queues/import/import_queue';
+
+describe('Import Queue', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockAdd.mockResolvedValue({ id: 'job-1' });
+    });
+
+    describe('producers', () => {
+        it('should queue a match job and return its id', async () => {
+            const payload = {
+                userId: 'user-A',
+                source: 'MAL' as const,
+                entries: [{ title: 'Berserk', malId: '2', status: 'READING' as const }],
+            };
+
+            const jobId = await queueImportMatch(payload);
+
+            expect(jobId).toBe('job-1');
+            expect(mockAdd).toHaveBeenCalledWith('match-entries', payload);
+        });
+
+        it('should queue a create-follows job', async () => {
+            const payload = { userId: 'user-A', items: [{ mangaId: 'manga-1', status: 'COMPLETED' as const }] };
+
+            await queueImportFollows(payload);
+
+            expect(mockAdd).toHaveBeenCalledWith('create-follows', payload);
+        });
+    });
+
+    describe('getImportJobStatus', () => {
+        const makeJob = (userId: string) => ({
+            name: 'create-follows',
+            data: { userId, items: [] },
+            progress: { processed: 50, total: 100 },
+            returnvalue: null,
+            failedReason: undefined,
+            getState: vi.fn().mockResolvedValue('active'),
+        });
+
+        it('should return the state and progress of the user\'s own job', async () => {
+            mockGetJob.mockResolvedValue(makeJob('user-A'));
+
+            const status = await getImportJobStatus('job-1', 'user-A');
+
+            expect(status).toEqual({
+                id: 'job-1',
+                name: 'create-follows',
+                state: 'active',
+                progress: { processed: 50, total: 100 },
+                result: null,
+                failedReason: null,
+            });
+        });
+
+        it('should hide jobs of other users', async () => {
+            mockGetJob.mockResolvedValue(makeJob('user-B'));
+
+            expect(await getImportJobStatus('job-1', 'user-A')).toBeNull();
+        });
+
+        it('should return null for unknown jobs', async () => {
+            mockGetJob.mockResolvedValue(undefined);
+
+            expect(await getImportJobStatus('missing', 'user-A')).toBeNull();
+        });
+    });
+});
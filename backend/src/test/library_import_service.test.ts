@@ -0,0 +1,162 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { LibraryImportService } from '../services/library_import_service';
+import type { ImportEntry } from '../queues/import/import_types';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const { searchManga } = vi.hoisted(() => ({ searchManga: vi.fn() }));
+
+vi.mock('../services/mangadex_client', () => ({
+    MangaDexClient: class {
+        searchManga = searchManga;
+    },
+}));
+
+// The cover proxy module opens a Redis client on import
+vi.mock('../db/redis_client', () => ({
+    default: {
+        isReady: () => false,
+        getClient: vi.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const BERSERK_ID = '801513ba-a712-498c-8f57-cae55b38cc92';
+const OTHER_ID = '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0';
+
+function searchResult(id: string, title: string, links: Record<string, string> | null = null, altTitles: string[] = []) {
+    return {
+        id,
+        attributes: {
+            title: { en: title },
+            altTitles: altTitles.map((alt) => ({ ja: alt })),
+            links,
+            year: 1989,
+        },
+        relationships: [{ type: 'cover_art', attributes: { fileName: 'cover.jpg' } }],
+    };
+}
+
+function entry(overrides: Partial<ImportEntry> = {}): ImportEntry {
+    return { title: 'Berserk', malId: '2', status: 'READING', ...overrides };
+}
+
+/** Run a match while letting the pauses between searches elapse */
+async function match(input: ImportEntry) {
+    const promise = LibraryImportService.matchEntry(input);
+    await vi.runAllTimersAsync();
+    return promise;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('LibraryImportService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        searchManga.mockResolvedValue({ data: [] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // matchEntry
+    // -------------------------------------------------------------------------
+
+    describe('matchEntry', () => {
+        test('should match the manga that links to the MyAnimeList id', async () => {
+            searchManga.mockResolvedValue({
+                data: [searchResult(OTHER_ID, 'Berserk'), searchResult(BERSERK_ID, 'Berserk', { mal: '2', al: '30002' })],
+            });
+
+            const result = await match(entry());
+
+            expect(result.state).toBe('MATCHED');
+            expect(result.mangaId).toBe(BERSERK_ID);
+            expect(result.candidates[0].coverUrl).toContain(`/covers/${BERSERK_ID}/cover.jpg`);
+        });
+
+        test('should match on the AniList id', async () => {
+            searchManga.mockResolvedValue({ data: [searchResult(BERSERK_ID, 'Berserk', { al: '30002' })] });
+
+            const result = await match(entry({ malId: undefined, anilistId: '30002' }));
+
+            expect(result.mangaId).toBe(BERSERK_ID);
+        });
+
+        test('should accept a single exact title match, ignoring case and punctuation', async () => {
+            searchManga.mockResolvedValue({
+                data: [searchResult(OTHER_ID, 'Berserk of Gluttony'), searchResult(BERSERK_ID, 'BERSERK!')],
+            });
+
+            const result = await match(entry({ malId: undefined }));
+
+            expect(result.state).toBe('MATCHED');
+            expect(result.mangaId).toBe(BERSERK_ID);
+            expect(searchManga).toHaveBeenCalledTimes(1);
+        });
+
+        test('should leave several exact title matches for the user, exact ones first', async () => {
+            searchManga.mockResolvedValue({
+                data: [
+                    searchResult('id-1', 'Berserk of Gluttony'),
+                    searchResult('id-2', 'Berserk'),
+                    searchResult('id-3', 'Other', null, ['berserk']),
+                ],
+            });
+
+            const result = await match(entry({ malId: undefined }));
+
+            expect(result.state).toBe('AMBIGUOUS');
+            expect(result.mangaId).toBeUndefined();
+            expect(result.candidates.map((candidate) => candidate.id)).toEqual(['id-2', 'id-3', 'id-1']);
+        });
+
+        test('should search an alternative title when the main one finds nothing', async () => {
+            searchManga
+                .mockResolvedValueOnce({ data: [] })
+                .mockResolvedValueOnce({ data: [searchResult(BERSERK_ID, 'Berserk', null, ['ベルセルク'])] });
+
+            const result = await match(entry({ malId: undefined, title: 'Beruseruku', altTitles: ['ベルセルク'] }));
+
+            expect(searchManga).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'ベルセルク' }));
+            expect(result.state).toBe('MATCHED');
+        });
+
+        test('should report entries nothing was found for', async () => {
+            const result = await match(entry());
+
+            expect(result).toEqual({ entry: entry(), state: 'UNMATCHED', candidates: [] });
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // matchEntries
+    // -------------------------------------------------------------------------
+
+    describe('matchEntries', () => {
+        test('should keep going when a search fails and report the final progress', async () => {
+            searchManga
+                .mockRejectedValueOnce(new Error('MangaDex is down'))
+                .mockResolvedValue({ data: [searchResult(BERSERK_ID, 'Berserk', { mal: '2' })] });
+            const onProgress = vi.fn();
+
+            const promise = LibraryImportService.matchEntries([entry({ title: 'Broken' }), entry()], onProgress);
+            await vi.runAllTimersAsync();
+            const results = await promise;
+
+            expect(results.map((result) => result.state)).toEqual(['UNMATCHED', 'MATCHED']);
+            expect(onProgress).toHaveBeenCalledWith({ processed: 2, total: 2 });
+        });
+    });
+});
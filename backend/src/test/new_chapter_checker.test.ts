@@ -0,0 +1,151 @@
+import { vi, describe, test, expect, beforeEach } from 'vitest';
+import { checkNewChapters } from '../queues/notification/new_chapter_checker';
+import { shouldNotifyFollower, type ChapterFollower } from '../queues/notification/chapter_followers';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const { favoriteFindMany, getChaptersForManga, queueNewChapterNotification } = vi.hoisted(() => ({
+    favoriteFindMany: vi.fn(),
+    getChaptersForManga: vi.fn(),
+    queueNewChapterNotification: vi.fn(),
+}));
+
+vi.mock('../db/prisma', () => ({
+    default: {
+        favorite: { findMany: favoriteFindMany },
+    },
+}));
+
+vi.mock('../services/mangadex_client', () => ({
+    MangaDexClient: class {
+        getChaptersForManga = getChaptersForManga;
+    },
+}));
+
+vi.mock('../db/redis_client', () => ({
+    default: {
+        isReady: () => false,
+        getClient: vi.fn(),
+    },
+}));
+
+vi.mock('../queues/notification/notification_queue', () => ({
+    queueNewChapterNotification,
+}));
+
+vi.mock('../queues/notification/creator_update_checker', () => ({
+    checkCreatorUpdates: vi.fn(),
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const MANGA_ID = 'manga-1';
+const GROUP_ID = 'group-1';
+
+function chapter(translatedLanguage: string, groupIds: string[] = [GROUP_ID]) {
+    return {
+        id: `chapter-${translatedLanguage}`,
+        attributes: { chapter: '12', translatedLanguage },
+        relationships: [
+            { id: MANGA_ID, type: 'manga', attributes: { title: { en: 'Berserk' } } },
+            ...groupIds.map((id) => ({ id, type: 'scanlation_group' })),
+        ],
+    };
+}
+
+function follower(overrides: Partial<ChapterFollower> = {}): ChapterFollower {
+    return {
+        userId: 'user-1',
+        notificationsMuted: false,
+        notifyLanguages: [],
+        notifyGroupIds: [],
+        user: { preferences: { preferredLanguages: ['vi'] } },
+        ...overrides,
+    };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('New chapter checker', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // shouldNotifyFollower
+    // -------------------------------------------------------------------------
+
+    describe('shouldNotifyFollower', () => {
+        test('should skip muted follows', () => {
+            expect(shouldNotifyFollower(follower({ notificationsMuted: true }), chapter('vi'))).toBe(false);
+        });
+
+        test('should fall back to the preferred languages', () => {
+            expect(shouldNotifyFollower(follower(), chapter('vi'))).toBe(true);
+            expect(shouldNotifyFollower(follower(), chapter('en'))).toBe(false);
+        });
+
+        test('should prefer the languages chosen for the follow', () => {
+            const chosen = follower({ notifyLanguages: ['en'] });
+
+            expect(shouldNotifyFollower(chosen, chapter('en'))).toBe(true);
+            expect(shouldNotifyFollower(chosen, chapter('vi'))).toBe(false);
+        });
+
+        test('should notify about every language when the user never saved preferences', () => {
+            expect(shouldNotifyFollower(follower({ user: { preferences: null } }), chapter('es-la'))).toBe(true);
+        });
+
+        test('should only notify about allowed groups when a group allowlist is set', () => {
+            const allowlisted = follower({ notifyGroupIds: [GROUP_ID] });
+
+            expect(shouldNotifyFollower(allowlisted, chapter('vi'))).toBe(true);
+            expect(shouldNotifyFollower(allowlisted, chapter('vi', ['group-2']))).toBe(false);
+            expect(shouldNotifyFollower(allowlisted, chapter('vi', ['group-2', GROUP_ID]))).toBe(true);
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // checkNewChapters
+    // -------------------------------------------------------------------------
+
+    describe('checkNewChapters', () => {
+        test('should notify only the followers whose settings match the chapter', async () => {
+            favoriteFindMany
+                .mockResolvedValueOnce([{ externalMangaId: MANGA_ID }])
+                .mockResolvedValueOnce([
+                    follower({ userId: 'reads-vi' }),
+                    follower({ userId: 'reads-en', user: { preferences: { preferredLanguages: ['en'] } } }),
+                ]);
+            getChaptersForManga.mockResolvedValue({ data: [chapter('vi')] });
+
+            await checkNewChapters();
+
+            expect(favoriteFindMany).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    where: { externalMangaId: MANGA_ID, mangaSource: 'MANGADEX', notificationsMuted: false },
+                })
+            );
+            expect(queueNewChapterNotification).toHaveBeenCalledWith(MANGA_ID, 'Berserk', 'chapter-vi', '12', [
+                'reads-vi',
+            ]);
+        });
+
+        test('should not queue anything when no follower wants the chapter', async () => {
+            favoriteFindMany
+                .mockResolvedValueOnce([{ externalMangaId: MANGA_ID }])
+                .mockResolvedValueOnce([follower()]);
+            getChaptersForManga.mockResolvedValue({ data: [chapter('en')] });
+
+            await checkNewChapters();
+
+            expect(queueNewChapterNotification).not.toHaveBeenCalled();
+        });
+    });
+});
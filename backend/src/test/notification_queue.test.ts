@@ -33,6 +33,7 @@ import {
     queueCommentReplyNotification,
     queueNewChapterNotification,
     queueGroupUploadNotification,
+    queueNewTitleNotification,
     queueSystemNotification,
 } from '../queues/notification/notification_queue';
 
@@ -138,22 +139,65 @@ describe('Notification Queue - Producer Functions', () => {
             const jobs = mockAddBulk.mock.calls[0][0];
             expect(jobs[0].data.chapterNumber).toBeUndefined();
         });
+
+        it('should key local chapters by manga and chapter number', async () => {
+            await queueNewChapterNotification('local-manga', 'Local Manga', undefined, '3', ['user-1']);
+
+            const jobs = mockAddBulk.mock.calls[0][0];
+            expect(jobs[0].opts).toEqual({ jobId: 'new-chapter:local-manga:3:user-1' });
+        });
     });
 
     describe('queueGroupUploadNotification', () => {
-        it('should add a group-upload job with composite jobId', async () => {
+        it('should add a group-upload job keyed by chapter and user', async () => {
             const payload = {
                 targetUserId: 'user-1',
                 groupId: 'group-1',
                 groupName: 'Team Manga',
                 mangaId: 'manga-1',
                 mangaTitle: 'New Manga',
+                chapterId: 'chapter-1',
             };
 
             await queueGroupUploadNotification(payload);
 
             expect(mockAdd).toHaveBeenCalledWith('group-upload', payload, {
-                jobId: 'group-upload:group-1:manga-1:user-1',
+                jobId: 'group-upload:chapter-1:user-1',
+            });
+        });
+
+        it('should key local uploads by manga and chapter number', async () => {
+            const payload = {
+                targetUserId: 'user-1',
+                groupId: 'group-1',
+                groupName: 'Team Manga',
+                mangaId: 'manga-1',
+                mangaTitle: 'New Manga',
+                chapterNumber: '3',
+            };
+
+            await queueGroupUploadNotification(payload);
+
+            expect(mockAdd).toHaveBeenCalledWith('group-upload', payload, {
+                jobId: 'group-upload:manga-1:3:user-1',
+            });
+        });
+    });
+
+    describe('queueNewTitleNotification', () => {
+        it('should add a new-title job keyed by manga and user', async () => {
+            const payload = {
+                targetUserId: 'user-1',
+                authorId: 'author-1',
+                authorName: 'Miura Kentaro',
+                mangaId: 'manga-1',
+                mangaTitle: 'New Manga',
+            };
+
+            await queueNewTitleNotification(payload);
+
+            expect(mockAdd).toHaveBeenCalledWith('new-title', payload, {
+                jobId: 'new-title:manga-1:user-1',
             });
         });
     });
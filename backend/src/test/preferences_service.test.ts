@@ -0,0 +1,112 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { PreferencesService } from '../services/preferences_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        userPreferences: {
+            findUnique: vi.fn(),
+            upsert: vi.fn(),
+        },
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+
+const makePreferences = (overrides = {}) => ({
+    readingMode: 'webtoon',
+    imageGap: 4,
+    fitMode: 'auto',
+    customZoom: 100,
+    showHeader: false,
+    doublePageShift: false,
+    dataSaver: false,
+    keyboardShortcuts: {},
+    autoMarkAsRead: true,
+    preferredLanguages: ['en'],
+    contentRatingFilter: ['safe', 'suggestive'],
+    updatedAt: new Date('2024-01-01'),
+    ...overrides,
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('PreferencesService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // getPreferences
+    // -------------------------------------------------------------------------
+
+    describe('getPreferences', () => {
+        test('should return stored preferences', async () => {
+            mockPrisma.userPreferences.findUnique.mockResolvedValue(makePreferences());
+
+            const result = await PreferencesService.getPreferences(USER_ID);
+
+            expect(mockPrisma.userPreferences.findUnique).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID } }),
+            );
+            expect(result?.readingMode).toBe('webtoon');
+        });
+
+        test('should return null when the user has never saved preferences', async () => {
+            mockPrisma.userPreferences.findUnique.mockResolvedValue(null);
+
+            const result = await PreferencesService.getPreferences(USER_ID);
+
+            expect(result).toBeNull();
+        });
+
+        test('should reject an invalid user ID', async () => {
+            await expect(PreferencesService.getPreferences('')).rejects.toThrow('Invalid user ID');
+            expect(mockPrisma.userPreferences.findUnique).not.toHaveBeenCalled();
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // updatePreferences
+    // -------------------------------------------------------------------------
+
+    describe('updatePreferences', () => {
+        test('should upsert only the provided fields', async () => {
+            mockPrisma.userPreferences.upsert.mockResolvedValue(
+                makePreferences({ readingMode: 'double_page', doublePageShift: true }),
+            );
+
+            const result = await PreferencesService.updatePreferences(USER_ID, {
+                readingMode: 'double_page',
+                doublePageShift: true,
+            });
+
+            expect(mockPrisma.userPreferences.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { userId: USER_ID },
+                    create: { userId: USER_ID, readingMode: 'double_page', doublePageShift: true },
+                    update: { readingMode: 'double_page', doublePageShift: true },
+                }),
+            );
+            expect(result.doublePageShift).toBe(true);
+        });
+    });
+});
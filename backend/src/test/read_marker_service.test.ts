@@ -0,0 +1,117 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { ReadMarkerService } from '../services/read_marker_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        chapterReadMarker: {
+            findMany: vi.fn(),
+            createMany: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+const MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+const OTHER_MANGA_ID = '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0';
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ReadMarkerService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.chapterReadMarker.createMany.mockImplementation((args: any) => ({ op: 'createMany', args }));
+        mockPrisma.chapterReadMarker.deleteMany.mockImplementation((args: any) => ({ op: 'deleteMany', args }));
+        mockPrisma.$transaction.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // getReadChapterIds
+    // -------------------------------------------------------------------------
+
+    describe('getReadChapterIds', () => {
+        test('should return the read chapter ids of the manga', async () => {
+            mockPrisma.chapterReadMarker.findMany.mockResolvedValue([{ chapterId: 'c1' }, { chapterId: 'c2' }]);
+
+            const result = await ReadMarkerService.getReadChapterIds(USER_ID, MANGA_ID);
+
+            expect(result).toEqual(['c1', 'c2']);
+            expect(mockPrisma.chapterReadMarker.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { userId: USER_ID, mangaId: MANGA_ID } })
+            );
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // getReadChapterIdsByManga
+    // -------------------------------------------------------------------------
+
+    describe('getReadChapterIdsByManga', () => {
+        test('should group chapter ids by manga', async () => {
+            mockPrisma.chapterReadMarker.findMany.mockResolvedValue([
+                { mangaId: MANGA_ID, chapterId: 'c1' },
+                { mangaId: OTHER_MANGA_ID, chapterId: 'c9' },
+                { mangaId: MANGA_ID, chapterId: 'c2' },
+            ]);
+
+            const result = await ReadMarkerService.getReadChapterIdsByManga(USER_ID, [MANGA_ID, OTHER_MANGA_ID]);
+
+            expect(result).toEqual({ [MANGA_ID]: ['c1', 'c2'], [OTHER_MANGA_ID]: ['c9'] });
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // updateReadMarkers
+    // -------------------------------------------------------------------------
+
+    describe('updateReadMarkers', () => {
+        test('should add and remove markers in one transaction', async () => {
+            await ReadMarkerService.updateReadMarkers(USER_ID, MANGA_ID, {
+                chapterIdsRead: ['c1', 'c2'],
+                chapterIdsUnread: ['c3'],
+            });
+
+            expect(mockPrisma.chapterReadMarker.createMany).toHaveBeenCalledWith({
+                data: [
+                    { userId: USER_ID, mangaId: MANGA_ID, chapterId: 'c1' },
+                    { userId: USER_ID, mangaId: MANGA_ID, chapterId: 'c2' },
+                ],
+                skipDuplicates: true,
+            });
+            expect(mockPrisma.chapterReadMarker.deleteMany).toHaveBeenCalledWith({
+                where: { userId: USER_ID, chapterId: { in: ['c3'] } },
+            });
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+        });
+
+        test('should only touch the user\'s own markers when unmarking', async () => {
+            await ReadMarkerService.updateReadMarkers(USER_ID, MANGA_ID, { chapterIdsUnread: ['c1'] });
+
+            const deleteArgs = mockPrisma.chapterReadMarker.deleteMany.mock.calls[0][0];
+            expect(deleteArgs.where.userId).toBe(USER_ID);
+            expect(mockPrisma.chapterReadMarker.createMany).toHaveBeenCalledWith(
+                expect.objectContaining({ data: [] })
+            );
+        });
+    });
+});
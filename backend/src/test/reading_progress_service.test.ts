@@ -0,0 +1,194 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { ReadingProgressService, MAX_READ_TIME_DELTA } from '../services/reading_progress_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        readHistory: {
+            findUnique: vi.fn(),
+            upsert: vi.fn(),
+        },
+        submittedManga: {
+            findUnique: vi.fn(),
+        },
+        user: {
+            findUnique: vi.fn(),
+        },
+        dailyReadingTime: {
+            upsert: vi.fn(),
+        },
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+const MANGADEX_MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+const MANGADEX_CHAPTER_ID = 'f1e8b4c2-1234-4cde-9abc-0123456789ab';
+const LOCAL_MANGA_ID = 'local-manga-uuid-001';
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ReadingProgressService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.readHistory.upsert.mockImplementation(async (args: any) => args.create);
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // getProgress
+    // -------------------------------------------------------------------------
+
+    describe('getProgress', () => {
+        test('should look up MangaDex progress by externalMangaId', async () => {
+            mockPrisma.readHistory.findUnique.mockResolvedValue(null);
+
+            const result = await ReadingProgressService.getProgress(USER_ID, MANGADEX_MANGA_ID, 'MANGADEX');
+
+            expect(result).toBeNull();
+            expect(mockPrisma.readHistory.findUnique).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { userId_externalMangaId: { userId: USER_ID, externalMangaId: MANGADEX_MANGA_ID } },
+                }),
+            );
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // saveProgress
+    // -------------------------------------------------------------------------
+
+    describe('saveProgress', () => {
+        test('should upsert MangaDex progress with the chapter UUID and percentage', async () => {
+            await ReadingProgressService.saveProgress(USER_ID, {
+                mangaId: MANGADEX_MANGA_ID,
+                source: 'MANGADEX',
+                chapterId: MANGADEX_CHAPTER_ID,
+                chapterNumber: 12.5,
+                pageNumber: 5,
+                totalPages: 20,
+                readTime: 30,
+            });
+
+            const args = mockPrisma.readHistory.upsert.mock.calls[0][0];
+            expect(args.where).toEqual({
+                userId_externalMangaId: { userId: USER_ID, externalMangaId: MANGADEX_MANGA_ID },
+            });
+            expect(args.create).toMatchObject({
+                userId: USER_ID,
+                externalMangaId: MANGADEX_MANGA_ID,
+                mangaId: null,
+                mangaSource: 'MANGADEX',
+                externalChapterId: MANGADEX_CHAPTER_ID,
+                chapterNumber: 12.5,
+                pageNumber: 5,
+                progress: 25,
+                readTime: 30,
+            });
+            expect(args.update.readTime).toEqual({ increment: 30 });
+            expect(mockPrisma.submittedManga.findUnique).not.toHaveBeenCalled();
+        });
+
+        test('should cap reading time deltas so idle tabs do not inflate it', async () => {
+            await ReadingProgressService.saveProgress(USER_ID, {
+                mangaId: MANGADEX_MANGA_ID,
+                source: 'MANGADEX',
+                chapterId: MANGADEX_CHAPTER_ID,
+                pageNumber: 1,
+                totalPages: 10,
+                readTime: 3600,
+            });
+
+            const args = mockPrisma.readHistory.upsert.mock.calls[0][0];
+            expect(args.update.readTime).toEqual({ increment: MAX_READ_TIME_DELTA });
+        });
+
+        test('should add the reading time to the user\'s day in their timezone', async () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2026-03-01T20:00:00Z'));
+            mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'Asia/Ho_Chi_Minh' });
+
+            await ReadingProgressService.saveProgress(USER_ID, {
+                mangaId: MANGADEX_MANGA_ID,
+                source: 'MANGADEX',
+                chapterId: MANGADEX_CHAPTER_ID,
+                pageNumber: 2,
+                totalPages: 10,
+                readTime: 45,
+            });
+            vi.useRealTimers();
+
+            const day = new Date('2026-03-02T00:00:00Z');
+            expect(mockPrisma.dailyReadingTime.upsert).toHaveBeenCalledWith({
+                where: { userId_day: { userId: USER_ID, day } },
+                create: { userId: USER_ID, day, seconds: 45 },
+                update: { seconds: { increment: 45 } },
+            });
+        });
+
+        test('should not log reading time when none was reported', async () => {
+            await ReadingProgressService.saveProgress(USER_ID, {
+                mangaId: MANGADEX_MANGA_ID,
+                source: 'MANGADEX',
+                chapterId: MANGADEX_CHAPTER_ID,
+                pageNumber: 2,
+                totalPages: 10,
+            });
+
+            expect(mockPrisma.dailyReadingTime.upsert).not.toHaveBeenCalled();
+        });
+
+        test('should clamp the page number to the chapter length', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue({ id: LOCAL_MANGA_ID });
+
+            await ReadingProgressService.saveProgress(USER_ID, {
+                mangaId: LOCAL_MANGA_ID,
+                source: 'LOCAL',
+                chapterNumber: 3,
+                pageNumber: 40,
+                totalPages: 32,
+            });
+
+            const args = mockPrisma.readHistory.upsert.mock.calls[0][0];
+            expect(args.where).toEqual({ userId_mangaId: { userId: USER_ID, mangaId: LOCAL_MANGA_ID } });
+            expect(args.create).toMatchObject({
+                mangaId: LOCAL_MANGA_ID,
+                externalMangaId: null,
+                mangaSource: 'LOCAL',
+                externalChapterId: null,
+                pageNumber: 32,
+                progress: 100,
+            });
+        });
+
+        test('should throw 404 when the local manga does not exist', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue(null);
+
+            await expect(
+                ReadingProgressService.saveProgress(USER_ID, {
+                    mangaId: LOCAL_MANGA_ID,
+                    source: 'LOCAL',
+                    pageNumber: 1,
+                    totalPages: 10,
+                }),
+            ).rejects.toMatchObject({ status: 404 });
+            expect(mockPrisma.readHistory.upsert).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,234 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { ReviewService } from '../services/review_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        review: {
+            groupBy: vi.fn(),
+            count: vi.fn(),
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            findUniqueOrThrow: vi.fn(),
+            upsert: vi.fn(),
+            update: vi.fn(),
+            deleteMany: vi.fn(),
+            aggregate: vi.fn(),
+        },
+        reviewVote: {
+            createMany: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        submittedManga: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+        $transaction: vi.fn(),
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-reader';
+const AUTHOR_ID = 'user-author';
+const REVIEW_ID = 'review-1';
+const MANGA_ID = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ReviewService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.$transaction.mockImplementation(async (arg: any) =>
+            typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+        );
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // getRatingSummary
+    // -------------------------------------------------------------------------
+
+    describe('getRatingSummary', () => {
+        test('should average the scores and fill the distribution for every score', async () => {
+            mockPrisma.review.groupBy.mockResolvedValue([
+                { score: 10, _count: { _all: 2 } },
+                { score: 7, _count: { _all: 1 } },
+            ]);
+            mockPrisma.review.count.mockResolvedValue(1);
+
+            const summary = await ReviewService.getRatingSummary(MANGA_ID, 'MANGADEX');
+
+            expect(summary.average).toBe(9);
+            expect(summary.count).toBe(3);
+            expect(summary.reviewCount).toBe(1);
+            expect(summary.distribution).toMatchObject({ '1': 0, '7': 1, '10': 2 });
+            expect(Object.keys(summary.distribution)).toHaveLength(10);
+        });
+
+        test('should have no average before anyone rates', async () => {
+            mockPrisma.review.groupBy.mockResolvedValue([]);
+            mockPrisma.review.count.mockResolvedValue(0);
+
+            const summary = await ReviewService.getRatingSummary(MANGA_ID, 'MANGADEX');
+
+            expect(summary.average).toBeNull();
+            expect(summary.count).toBe(0);
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // saveReview / deleteReview
+    // -------------------------------------------------------------------------
+
+    describe('saveReview', () => {
+        test('should store a blank review as a rating without a spoiler flag', async () => {
+            mockPrisma.review.upsert.mockResolvedValue({ id: REVIEW_ID });
+
+            await ReviewService.saveReview(USER_ID, {
+                mangaId: MANGA_ID,
+                source: 'MANGADEX',
+                score: 8,
+                content: '   ',
+                isSpoiler: true,
+            });
+
+            expect(mockPrisma.review.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    update: { score: 8, content: null, isSpoiler: false },
+                })
+            );
+            expect(mockPrisma.submittedManga.update).not.toHaveBeenCalled();
+        });
+
+        test('should keep the rating of a local manga in step with its reviews', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue({ id: 'local-1' });
+            mockPrisma.review.upsert.mockResolvedValue({ id: REVIEW_ID });
+            mockPrisma.review.aggregate.mockResolvedValue({ _avg: { score: 7.666666 } });
+
+            await ReviewService.saveReview(USER_ID, { mangaId: 'local-1', source: 'LOCAL', score: 9 });
+
+            expect(mockPrisma.submittedManga.update).toHaveBeenCalledWith({
+                where: { id: 'local-1' },
+                data: { rating: 7.67 },
+            });
+        });
+
+        test('should reject a local manga that does not exist', async () => {
+            mockPrisma.submittedManga.findUnique.mockResolvedValue(null);
+
+            await expect(
+                ReviewService.saveReview(USER_ID, { mangaId: 'local-1', source: 'LOCAL', score: 9 })
+            ).rejects.toThrow('Local manga not found');
+            expect(mockPrisma.review.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deleteReview', () => {
+        test('should clear the rating of a local manga when its last review goes', async () => {
+            mockPrisma.review.deleteMany.mockResolvedValue({ count: 1 });
+            mockPrisma.review.aggregate.mockResolvedValue({ _avg: { score: null } });
+
+            await ReviewService.deleteReview(USER_ID, 'local-1', 'LOCAL');
+
+            expect(mockPrisma.submittedManga.update).toHaveBeenCalledWith({
+                where: { id: 'local-1' },
+                data: { rating: null },
+            });
+        });
+
+        test('should fail when the user has not rated the manga', async () => {
+            mockPrisma.review.deleteMany.mockResolvedValue({ count: 0 });
+
+            await expect(ReviewService.deleteReview(USER_ID, MANGA_ID, 'MANGADEX')).rejects.toThrow(
+                'You have not rated this manga'
+            );
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // markHelpful / unmarkHelpful
+    // -------------------------------------------------------------------------
+
+    describe('markHelpful', () => {
+        test('should record the vote and count it', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue({ id: REVIEW_ID, userId: AUTHOR_ID, helpfulCount: 4 });
+            mockPrisma.reviewVote.createMany.mockResolvedValue({ count: 1 });
+            mockPrisma.review.update.mockResolvedValue({ helpfulCount: 5 });
+
+            const result = await ReviewService.markHelpful(USER_ID, REVIEW_ID);
+
+            expect(result).toEqual({ helpfulCount: 5 });
+            expect(mockPrisma.reviewVote.createMany).toHaveBeenCalledWith({
+                data: [{ reviewId: REVIEW_ID, userId: USER_ID }],
+                skipDuplicates: true,
+            });
+            expect(mockPrisma.review.update).toHaveBeenCalledWith(
+                expect.objectContaining({ data: { helpfulCount: { increment: 1 } } })
+            );
+        });
+
+        test('should not count the same vote twice, even from racing requests', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue({ id: REVIEW_ID, userId: AUTHOR_ID, helpfulCount: 4 });
+            // The other request inserted the vote after this one read the review
+            mockPrisma.reviewVote.createMany.mockResolvedValue({ count: 0 });
+            mockPrisma.review.findUniqueOrThrow.mockResolvedValue({ helpfulCount: 5 });
+
+            const result = await ReviewService.markHelpful(USER_ID, REVIEW_ID);
+
+            expect(result).toEqual({ helpfulCount: 5 });
+            expect(mockPrisma.review.update).not.toHaveBeenCalled();
+        });
+
+        test('should not let authors vote on their own review', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue({ id: REVIEW_ID, userId: AUTHOR_ID, helpfulCount: 0 });
+
+            await expect(ReviewService.markHelpful(AUTHOR_ID, REVIEW_ID)).rejects.toThrow(
+                'You cannot vote on your own review'
+            );
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('unmarkHelpful', () => {
+        test('should remove the vote and uncount it', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue({ id: REVIEW_ID, userId: AUTHOR_ID, helpfulCount: 5 });
+            mockPrisma.reviewVote.deleteMany.mockResolvedValue({ count: 1 });
+            mockPrisma.review.update.mockResolvedValue({ helpfulCount: 4 });
+
+            const result = await ReviewService.unmarkHelpful(USER_ID, REVIEW_ID);
+
+            expect(result).toEqual({ helpfulCount: 4 });
+            expect(mockPrisma.reviewVote.deleteMany).toHaveBeenCalledWith({ where: { reviewId: REVIEW_ID, userId: USER_ID } });
+            expect(mockPrisma.review.update).toHaveBeenCalledWith(
+                expect.objectContaining({ data: { helpfulCount: { increment: -1 } } })
+            );
+        });
+
+        test('should leave the count alone when the vote is already gone', async () => {
+            mockPrisma.review.findUnique.mockResolvedValue({ id: REVIEW_ID, userId: AUTHOR_ID, helpfulCount: 4 });
+            mockPrisma.reviewVote.deleteMany.mockResolvedValue({ count: 0 });
+            mockPrisma.review.findUniqueOrThrow.mockResolvedValue({ helpfulCount: 4 });
+
+            const result = await ReviewService.unmarkHelpful(USER_ID, REVIEW_ID);
+
+            expect(result).toEqual({ helpfulCount: 4 });
+            expect(mockPrisma.review.update).not.toHaveBeenCalled();
+        });
+    });
+});
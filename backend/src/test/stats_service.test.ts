@@ -0,0 +1,226 @@
+import { vi, describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { StatsService } from '../services/stats_service';
+
+// ============================================================================
+// Mocks
+// ============================================================================
+
+const { getMultipleMangaById } = vi.hoisted(() => ({ getMultipleMangaById: vi.fn() }));
+
+vi.mock('../services/mangadex_client', () => ({
+    MangaDexClient: class {
+        getMultipleMangaById = getMultipleMangaById;
+    },
+}));
+
+vi.mock('../db/prisma', () => ({
+    prisma: {
+        user: {
+            findUnique: vi.fn(),
+        },
+        chapterRead: {
+            findMany: vi.fn(),
+        },
+        dailyReadingTime: {
+            findMany: vi.fn(),
+        },
+        readHistory: {
+            findMany: vi.fn(),
+        },
+    },
+}));
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const USER_ID = 'user-abc-123';
+const MANGA_A = 'a96676e5-8ae2-425e-b549-7f15dd34a6d8';
+const MANGA_B = '32d76d19-8a05-4db0-9fc2-e0b0648fe9d0';
+
+let chapterCounter = 0;
+
+function readRow(mangaId: string, readAt: string, translatedLanguage = 'en', chapterId = `chapter-${++chapterCounter}`) {
+    return { mangaId, chapterId, mangaTitle: `Title ${mangaId.slice(0, 4)}`, coverUrl: null, translatedLanguage, readAt: new Date(readAt) };
+}
+
+function mangaWithTags(id: string, tags: [string, string][], demographic: string | null) {
+    return {
+        id,
+        attributes: {
+            publicationDemographic: demographic,
+            tags: tags.map(([tagId, name]) => ({ id: tagId, attributes: { name: { en: name } } })),
+        },
+    };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('StatsService', () => {
+    let mockPrisma: any;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+
+        const prismaMod = await import('../db/prisma.js');
+        mockPrisma = prismaMod.prisma;
+        mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'UTC' });
+        mockPrisma.chapterRead.findMany.mockResolvedValue([]);
+        mockPrisma.dailyReadingTime.findMany.mockResolvedValue([]);
+        mockPrisma.readHistory.findMany.mockResolvedValue([]);
+        getMultipleMangaById.mockResolvedValue({ data: [] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.resetAllMocks();
+    });
+
+    // -------------------------------------------------------------------------
+    // Range
+    // -------------------------------------------------------------------------
+
+    describe('range', () => {
+        test('should default to the last 30 days and fill every day', async () => {
+            const stats = await StatsService.getStats(USER_ID);
+
+            expect(stats.from).toBe('2026-02-09');
+            expect(stats.to).toBe('2026-03-10');
+            expect(stats.daily).toHaveLength(30);
+            expect(stats.daily.every((day) => day.chapters === 0)).toBe(true);
+        });
+
+        test('should reject a range that ends before it starts', async () => {
+            await expect(StatsService.getStats(USER_ID, { from: '2026-03-05', to: '2026-03-01' })).rejects.toThrow(
+                'The start date must not be after the end date'
+            );
+        });
+
+        test('should reject ranges longer than a year', async () => {
+            await expect(StatsService.getStats(USER_ID, { from: '2025-01-01', to: '2026-03-01' })).rejects.toThrow(
+                /at most 366 days/
+            );
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // Aggregation
+    // -------------------------------------------------------------------------
+
+    describe('aggregation', () => {
+        test('should count chapters on the user\'s local day', async () => {
+            mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'Asia/Ho_Chi_Minh' });
+            // 20:00 UTC is already the next day in UTC+7
+            mockPrisma.chapterRead.findMany.mockResolvedValue([readRow(MANGA_A, '2026-03-08T20:00:00Z')]);
+
+            const stats = await StatsService.getStats(USER_ID, { from: '2026-03-08', to: '2026-03-09' });
+
+            expect(stats.daily).toEqual([
+                { date: '2026-03-08', chapters: 0, readingTimeSeconds: 0 },
+                { date: '2026-03-09', chapters: 1, readingTimeSeconds: 0 },
+            ]);
+        });
+
+        test('should total chapters, manga, languages and reading time', async () => {
+            const rows = [
+                readRow(MANGA_A, '2026-03-02T10:00:00Z'),
+                readRow(MANGA_A, '2026-03-03T10:00:00Z'),
+                readRow(MANGA_B, '2026-03-09T10:00:00Z', 'vi'),
+            ];
+            mockPrisma.chapterRead.findMany.mockResolvedValueOnce(rows);
+            mockPrisma.dailyReadingTime.findMany.mockResolvedValueOnce([
+                { day: new Date('2026-03-02T00:00:00Z'), seconds: 600 },
+            ]);
+            mockPrisma.readHistory.findMany.mockResolvedValue([{ externalMangaId: MANGA_A, readTime: 1800 }]);
+
+            const stats = await StatsService.getStats(USER_ID, { from: '2026-03-02', to: '2026-03-10' });
+
+            expect(stats.totals).toEqual({ chapters: 3, manga: 2, readingTimeSeconds: 600, activeDays: 3 });
+            expect(stats.weekly).toEqual([
+                { weekStart: '2026-03-02', chapters: 2, readingTimeSeconds: 600 },
+                { weekStart: '2026-03-09', chapters: 1, readingTimeSeconds: 0 },
+            ]);
+            expect(stats.languages).toEqual([
+                { language: 'en', chapters: 2 },
+                { language: 'vi', chapters: 1 },
+            ]);
+            expect(stats.topManga[0]).toMatchObject({ mangaId: MANGA_A, chapters: 2, readingTimeSeconds: 1800 });
+        });
+
+        test('should count a chapter once per day however often it was opened', async () => {
+            mockPrisma.chapterRead.findMany.mockResolvedValueOnce([
+                readRow(MANGA_A, '2026-03-08T10:00:00Z', 'en', 'chapter-x'),
+                readRow(MANGA_A, '2026-03-08T18:00:00Z', 'en', 'chapter-x'),
+                // Reading it again later adds to the later day without taking it from the first
+                readRow(MANGA_A, '2026-03-09T10:00:00Z', 'en', 'chapter-x'),
+            ]);
+
+            const stats = await StatsService.getStats(USER_ID, { from: '2026-03-08', to: '2026-03-09' });
+
+            expect(stats.daily.map((day) => day.chapters)).toEqual([1, 1]);
+            expect(stats.totals.chapters).toBe(2);
+        });
+
+        test('should weight tags and demographics by chapters read', async () => {
+            mockPrisma.chapterRead.findMany.mockResolvedValueOnce([
+                readRow(MANGA_A, '2026-03-09T10:00:00Z'),
+                readRow(MANGA_A, '2026-03-09T11:00:00Z'),
+                readRow(MANGA_B, '2026-03-09T12:00:00Z'),
+            ]);
+            getMultipleMangaById.mockResolvedValue({
+                data: [
+                    mangaWithTags(MANGA_A, [['t-action', 'Action']], 'shounen'),
+                    mangaWithTags(MANGA_B, [['t-action', 'Action'], ['t-romance', 'Romance']], null),
+                ],
+            });
+
+            const stats = await StatsService.getStats(USER_ID, { from: '2026-03-09', to: '2026-03-10' });
+
+            expect(stats.tags).toEqual([
+                { id: 't-action', name: 'Action', chapters: 3 },
+                { id: 't-romance', name: 'Romance', chapters: 1 },
+            ]);
+            expect(stats.demographics).toEqual([
+                { demographic: 'shounen', chapters: 2 },
+                { demographic: 'none', chapters: 1 },
+            ]);
+        });
+
+        test('should leave tags empty when MangaDex is unreachable', async () => {
+            mockPrisma.chapterRead.findMany.mockResolvedValueOnce([readRow(MANGA_A, '2026-03-09T10:00:00Z')]);
+            getMultipleMangaById.mockRejectedValue(new Error('timeout'));
+
+            const stats = await StatsService.getStats(USER_ID, { from: '2026-03-09', to: '2026-03-10' });
+
+            expect(stats.tags).toEqual([]);
+            expect(stats.totals.chapters).toBe(1);
+        });
+    });
+
+    // -------------------------------------------------------------------------
+    // Streaks
+    // -------------------------------------------------------------------------
+
+    describe('streaks', () => {
+        test('should keep the current streak alive until the end of today', async () => {
+            // Range query first, then the all-time query for streaks
+            mockPrisma.chapterRead.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([
+                { readAt: new Date('2026-03-01T10:00:00Z') },
+                { readAt: new Date('2026-03-02T10:00:00Z') },
+                { readAt: new Date('2026-03-03T10:00:00Z') },
+                { readAt: new Date('2026-03-08T10:00:00Z') },
+            ]);
+            mockPrisma.dailyReadingTime.findMany
+                .mockResolvedValueOnce([])
+                .mockResolvedValueOnce([{ day: new Date('2026-03-09T00:00:00Z') }]);
+
+            const stats = await StatsService.getStats(USER_ID);
+
+            expect(stats.streaks).toEqual({ current: 2, longest: 3 });
+        });
+    });
+});
@@ -0,0 +1,40 @@
+// Calendar days are handled as 'YYYY-MM-DD' strings; day arithmetic runs on UTC midnight so
+// it never crosses a DST change.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DateUtils {
+  /**
+   * The calendar day an instant falls on in a timezone. Unknown timezones fall back to UTC.
+   */
+  static toLocalDay(date: Date, timeZone: string): string {
+    let formatter: Intl.DateTimeFormat;
+    try {
+      formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    } catch {
+      formatter = new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' });
+    }
+    // en-CA formats as YYYY-MM-DD
+    return formatter.format(date);
+  }
+
+  static addDays(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /** Whole days from `from` to `to`; negative when `to` is earlier */
+  static daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+  }
+
+  /** Monday of the week the day falls in */
+  static startOfWeek(day: string): string {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return DateUtils.addDays(day, -((weekday + 6) % 7));
+  }
+
+  /** A day as stored in a DATE column */
+  static dayToDate(day: string): Date {
+    return new Date(`${day}T00:00:00Z`);
+  }
+}
@@ -0,0 +1,196 @@
+/* MangaHaven service worker: offline app shell + chapter downloads into IndexedDB.
+ * Plain JS served from /public — keep the IndexedDB layout in sync with src/lib/offlineStorage.ts. */
+
+const SHELL_CACHE = 'mangahaven-shell-v1';
+const DB_NAME = 'mangahaven-offline';
+const DB_VERSION = 1;
+const CHAPTERS_STORE = 'chapters';
+const PAGES_STORE = 'pages';
+const PAGE_CONCURRENCY = 3;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// ---------------------------------------------------------------------------
+// App shell: network-first navigations, cache-first hashed build assets
+// ---------------------------------------------------------------------------
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(async () => (await caches.match('/index.html')) || Response.error())
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+  }
+});
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHAPTERS_STORE)) {
+        db.createObjectStore(CHAPTERS_STORE, { keyPath: 'chapterId' });
+      }
+      if (!db.objectStoreNames.contains(PAGES_STORE)) {
+        const pages = db.createObjectStore(PAGES_STORE, { keyPath: 'key' });
+        pages.createIndex('chapterId', 'chapterId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runTransaction(db, storeNames, mode, work) {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const result = work(tx);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function getChapter(db, chapterId) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(CHAPTERS_STORE).objectStore(CHAPTERS_STORE).get(chapterId);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function putChapter(db, chapter) {
+  return runTransaction(db, CHAPTERS_STORE, 'readwrite', (tx) => {
+    tx.objectStore(CHAPTERS_STORE).put(chapter);
+  });
+}
+
+function putPage(db, chapterId, index, blob) {
+  return runTransaction(db, PAGES_STORE, 'readwrite', (tx) => {
+    tx.objectStore(PAGES_STORE).put({ key: `${chapterId}:${index}`, chapterId, index, blob });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Downloads
+// ---------------------------------------------------------------------------
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+async function fetchPage(url) {
+  // One retry: the image proxy may still be warming its own cache
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const response = await fetch(url, { credentials: 'omit' });
+      if (response.ok) return await response.blob();
+    } catch {
+      // retry below
+    }
+  }
+  throw new Error(`Failed to download ${url}`);
+}
+
+async function downloadChapter({ chapter, pageUrls }) {
+  const db = await openDb();
+  const existing = await getChapter(db, chapter.chapterId);
+  if (existing && existing.status === 'complete') {
+    await broadcast({ type: 'download-complete', chapterId: chapter.chapterId });
+    return;
+  }
+
+  const record = {
+    ...chapter,
+    pageCount: pageUrls.length,
+    downloadedPages: 0,
+    bytes: 0,
+    status: 'downloading',
+    downloadedAt: Date.now(),
+  };
+  await putChapter(db, record);
+  await broadcast({ type: 'download-progress', chapterId: chapter.chapterId, done: 0, total: pageUrls.length });
+
+  try {
+    let next = 0;
+    const worker = async () => {
+      while (next < pageUrls.length) {
+        const index = next++;
+        const blob = await fetchPage(pageUrls[index]);
+        await putPage(db, chapter.chapterId, index, blob);
+        record.downloadedPages += 1;
+        record.bytes += blob.size;
+        await broadcast({
+          type: 'download-progress',
+          chapterId: chapter.chapterId,
+          done: record.downloadedPages,
+          total: pageUrls.length,
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: PAGE_CONCURRENCY }, worker));
+
+    record.status = 'complete';
+    await putChapter(db, record);
+    await broadcast({ type: 'download-complete', chapterId: chapter.chapterId });
+  } catch (error) {
+    record.status = 'error';
+    await putChapter(db, record);
+    await broadcast({ type: 'download-error', chapterId: chapter.chapterId, message: String(error) });
+  }
+}
+
+// Chapters download one at a time so a "next 10 chapters" request doesn't flood the proxy
+let downloadQueue = Promise.resolve();
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message || message.type !== 'download-chapter') return;
+
+  downloadQueue = downloadQueue.then(() => downloadChapter(message)).catch(() => {});
+  event.waitUntil(downloadQueue);
+});
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Heart, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { followService, type CreatorFollowStatus, type CreatorType } from '@/services/follow_service';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use_toast';
+
+interface CreatorFollowButtonProps {
+    creatorType: CreatorType;
+    creatorId: string;
+    className?: string;
+    size?: 'default' | 'sm' | 'lg';
+}
+
+/**
+ * Follow a scanlation group or an author, to hear about their uploads or new titles.
+ * Hidden for guests.
+ */
+const CreatorFollowButton: React.FC<CreatorFollowButtonProps> = ({
+    creatorType,
+    creatorId,
+    className = '',
+    size = 'default',
+}) => {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [isPending, setIsPending] = useState(false);
+
+    const queryKey = ['creator-follow', creatorType, creatorId];
+    const { data, isLoading } = useQuery({
+        queryKey,
+        queryFn: () => followService.checkCreatorFollowStatus(creatorType, creatorId),
+        enabled: !!user,
+    });
+
+    if (!user) return null;
+
+    const isFollowing = data?.isFollowing ?? false;
+
+    const handleToggle = async () => {
+        setIsPending(true);
+        try {
+            if (isFollowing) {
+                await followService.unfollowCreator(creatorType, creatorId);
+                toast({ title: t`Unfollowed` });
+            } else {
+                await followService.followCreator(creatorType, creatorId);
+                toast({
+                    title: t`Following!`,
+                    description: creatorType === 'AUTHOR'
+                        ? t`You'll be notified when they publish a new title.`
+                        : t`You'll be notified when they upload a chapter.`,
+                });
+            }
+            queryClient.setQueryData<CreatorFollowStatus>(queryKey, (current) =>
+                current
+                    ? { ...current, isFollowing: !isFollowing, followers: current.followers + (isFollowing ? -1 : 1) }
+                    : current
+            );
+            queryClient.invalidateQueries({ queryKey: ['creator-follows'] });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : t`Something went wrong.`;
+            toast({ title: t`Error`, description: message, variant: 'destructive' });
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    return (
+        <Button
+            variant={isFollowing ? 'secondary' : 'default'}
+            size={size}
+            className={className}
+            disabled={isLoading || isPending}
+            onClick={handleToggle}
+        >
+            {isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+                <Heart className={`h-4 w-4 mr-2 ${isFollowing ? 'fill-current text-rose-500' : ''}`} />
+            )}
+            {isFollowing ? <Trans>Following</Trans> : <Trans>Follow</Trans>}
+            {data && data.followers > 0 && (
+                <span className="ml-2 text-xs opacity-70">{data.followers}</span>
+            )}
+        </Button>
+    );
+};
+
+export default CreatorFollowButton;
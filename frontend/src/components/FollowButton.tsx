@@ -1,9 +1,22 @@
 import React, { useState, useCallback } from 'react';
 import { t } from '@lingui/core/macro';
 import { Trans } from '@lingui/react/macro';
-import { Heart, Loader2 } from 'lucide-react';
+import { useLingui } from '@lingui/react';
+import { Bell, ChevronDown, Heart, HeartOff, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { followService, type MangaSource } from '@/services/follow_service';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { followService, READING_STATUSES, type MangaSource, type ReadingStatus } from '@/services/follow_service';
+import { READING_STATUS_LABELS } from '@/utils/readingStatusUtils';
+import { FollowNotificationsDialog } from '@/components/favorites/FollowNotificationsDialog';
 
 import { useToast } from '@/hooks/use_toast';
 import { trackFollowManga, trackUnfollowManga } from '@/lib/analytics';
@@ -12,24 +25,32 @@ interface FollowButtonProps {
     mangaId: string;
     source?: MangaSource;
     initialIsFollowing?: boolean;
+    /** Shelf the manga is on, when already followed */
+    initialStatus?: ReadingStatus;
     variant?: 'default' | 'outline' | 'ghost';
     className?: string;
     size?: 'default' | 'sm' | 'lg' | 'icon';
     onFollowChange?: (isFollowing: boolean) => void;
+    onStatusChange?: (status: ReadingStatus) => void;
 }
 
 const FollowButton: React.FC<FollowButtonProps> = ({
     mangaId,
     source = 'MANGADEX',
     initialIsFollowing = false,
+    initialStatus = 'READING',
     variant = 'default',
     className = '',
     size = 'default',
     onFollowChange,
+    onStatusChange,
 }) => {
     const { toast } = useToast();
+    const { _ } = useLingui();
     const [isFollowing, setIsFollowing] = useState(initialIsFollowing);
+    const [status, setStatus] = useState<ReadingStatus>(initialStatus);
     const [isLoading, setIsLoading] = useState(false);
+    const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
 
     const handleToggleFollow = useCallback(async () => {
         setIsLoading(true);
@@ -43,6 +64,7 @@ const FollowButton: React.FC<FollowButtonProps> = ({
             } else {
                 await followService.followManga(mangaId, source);
                 setIsFollowing(true);
+                setStatus('READING');
                 onFollowChange?.(true);
                 trackFollowManga({ manga_id: mangaId });
                 toast({ title: t`Following!`, description: t`Added to your library. You'll see updates in your feed.` });
@@ -55,6 +77,20 @@ const FollowButton: React.FC<FollowButtonProps> = ({
         }
     }, [isFollowing, mangaId, source, onFollowChange, toast]);
 
+    const handleStatusChange = useCallback(async (next: ReadingStatus) => {
+        if (next === status) return;
+        const previous = status;
+        setStatus(next);
+        try {
+            await followService.updateFollowStatus(mangaId, source, next);
+            onStatusChange?.(next);
+        } catch (err) {
+            setStatus(previous);
+            const message = err instanceof Error ? err.message : t`Something went wrong.`;
+            toast({ title: t`Error`, description: message, variant: 'destructive' });
+        }
+    }, [status, mangaId, source, onStatusChange, toast]);
+
     if (isLoading) {
         return (
             <Button variant={variant} size={size} disabled className={className}>
@@ -64,17 +100,49 @@ const FollowButton: React.FC<FollowButtonProps> = ({
         );
     }
 
+    // Followed: the button shows the shelf and opens the status picker, which also holds notification settings and Unfollow
     if (isFollowing) {
         return (
-            <Button
-                variant="secondary"
-                size={size}
-                className={`bg-rose-500/20 text-rose-400 hover:bg-rose-500/30 hover:text-rose-300 border-rose-500/30 ${className}`}
-                onClick={handleToggleFollow}
-            >
-                <Heart className="mr-2 h-4 w-4 fill-current" />
-                <Trans>Following</Trans>
-            </Button>
+            <>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button
+                            variant="secondary"
+                            size={size}
+                            className={`bg-rose-500/20 text-rose-400 hover:bg-rose-500/30 hover:text-rose-300 border-rose-500/30 ${className}`}
+                        >
+                            <Heart className="mr-2 h-4 w-4 fill-current" />
+                            {_(READING_STATUS_LABELS[status])}
+                            <ChevronDown className="ml-1 h-3.5 w-3.5" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                        <DropdownMenuLabel><Trans>Reading status</Trans></DropdownMenuLabel>
+                        <DropdownMenuRadioGroup value={status} onValueChange={(value) => handleStatusChange(value as ReadingStatus)}>
+                            {READING_STATUSES.map((option) => (
+                                <DropdownMenuRadioItem key={option} value={option}>
+                                    {_(READING_STATUS_LABELS[option])}
+                                </DropdownMenuRadioItem>
+                            ))}
+                        </DropdownMenuRadioGroup>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={() => setIsNotificationsOpen(true)}>
+                            <Bell className="mr-2 h-4 w-4" />
+                            <Trans>Notifications…</Trans>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={handleToggleFollow} className="text-destructive focus:text-destructive">
+                            <HeartOff className="mr-2 h-4 w-4" />
+                            <Trans>Unfollow</Trans>
+                        </DropdownMenuItem>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+                <FollowNotificationsDialog
+                    open={isNotificationsOpen}
+                    onOpenChange={setIsNotificationsOpen}
+                    mangaId={mangaId}
+                    source={source}
+                />
+            </>
         );
     }
 
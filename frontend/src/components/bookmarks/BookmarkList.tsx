@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { Link } from '@tanstack/react-router';
+import { Bookmark, BookOpen, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useBookmarkMutations } from '@/hooks/useBookmarks';
+import { useToast } from '@/hooks/use_toast';
+import type { PageBookmark } from '@/services/user_service';
+
+interface BookmarkListProps {
+  bookmarks: PageBookmark[];
+  /** Show which manga each bookmark belongs to; off when listing a single manga */
+  showManga?: boolean;
+}
+
+export const BookmarkList: React.FC<BookmarkListProps> = ({ bookmarks, showManga = false }) => (
+  <div className="divide-y divide-border overflow-hidden rounded-lg border border-border bg-card">
+    {bookmarks.map((bookmark) => (
+      <BookmarkRow key={bookmark.id} bookmark={bookmark} showManga={showManga} />
+    ))}
+  </div>
+);
+
+function chapterLabel(bookmark: PageBookmark): string {
+  const number = bookmark.chapterNumber !== null ? `Ch. ${bookmark.chapterNumber}` : 'Oneshot';
+  return bookmark.chapterTitle ? `${number} — ${bookmark.chapterTitle}` : number;
+}
+
+const BookmarkRow: React.FC<{ bookmark: PageBookmark; showManga: boolean }> = ({ bookmark, showManga }) => {
+  const { toast } = useToast();
+  const { updateNote, deleteBookmark } = useBookmarkMutations();
+  const [editing, setEditing] = useState(false);
+  const [note, setNote] = useState('');
+  const mangaId = bookmark.externalMangaId ?? bookmark.mangaId;
+  const pageNumber = bookmark.pageNumber;
+
+  const startEditing = () => {
+    setNote(bookmark.note ?? '');
+    setEditing(true);
+  };
+
+  const handleSaveNote = () => {
+    updateNote.mutate(
+      { bookmarkId: bookmark.id, note: note.trim() || null },
+      {
+        onSuccess: () => setEditing(false),
+        onError: (error) => toast({ title: t`Could not save note`, description: error.message, variant: 'destructive' }),
+      },
+    );
+  };
+
+  const handleDelete = () => {
+    deleteBookmark.mutate(bookmark.id, {
+      onSuccess: () => toast({ title: t`Bookmark removed` }),
+      onError: (error) => toast({ title: t`Could not remove bookmark`, description: error.message, variant: 'destructive' }),
+    });
+  };
+
+  return (
+    <div className="flex gap-3 p-4">
+      <div className="flex w-12 shrink-0 flex-col items-center gap-1 pt-0.5 text-amber-500">
+        <Bookmark className="h-5 w-5 fill-current" />
+        <span className="text-xs font-medium text-muted-foreground tabular-nums"><Trans>p. {pageNumber}</Trans></span>
+      </div>
+
+      <div className="min-w-0 flex-1 space-y-1">
+        {showManga && mangaId && (
+          <Link
+            to="/manga/$mangaId"
+            params={{ mangaId }}
+            className="line-clamp-1 font-semibold text-foreground transition-colors hover:text-primary"
+          >
+            {bookmark.mangaTitle || t`Unknown manga`}
+          </Link>
+        )}
+        <p className="truncate text-sm font-medium text-foreground">{chapterLabel(bookmark)}</p>
+
+        {editing ? (
+          <div className="space-y-2 pt-1">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              placeholder={t`Private note`}
+              className="max-h-60"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" disabled={updateNote.isPending} onClick={() => setEditing(false)}>
+                <Trans>Cancel</Trans>
+              </Button>
+              <Button size="sm" disabled={updateNote.isPending} onClick={handleSaveNote}>
+                {updateNote.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                <Trans>Save</Trans>
+              </Button>
+            </div>
+          </div>
+        ) : (
+          bookmark.note && (
+            <p className="whitespace-pre-wrap break-words text-sm text-muted-foreground">{bookmark.note}</p>
+          )
+        )}
+
+        <p className="text-xs text-muted-foreground">{new Date(bookmark.createdAt).toLocaleDateString()}</p>
+      </div>
+
+      <div className="flex shrink-0 items-start gap-1">
+        {bookmark.externalChapterId && (
+          <Button asChild variant="outline" size="sm">
+            <Link
+              to="/chapter/$chapterId"
+              params={{ chapterId: bookmark.externalChapterId }}
+              search={{ page: pageNumber } as Record<string, unknown>}
+            >
+              <BookOpen className="mr-1.5 h-4 w-4" />
+              <Trans>Open</Trans>
+            </Link>
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" title={t`Edit note`} disabled={editing} onClick={startEditing}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={t`Remove bookmark`}
+          disabled={deleteBookmark.isPending}
+          onClick={handleDelete}
+          className="text-muted-foreground hover:text-destructive"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Minus, Pause, Play, Plus, X } from 'lucide-react';
+import { MAX_AUTO_SCROLL_SPEED, MIN_AUTO_SCROLL_SPEED } from '@/utils/readerUtils';
+
+interface AutoScrollControlsProps {
+  isPaused: boolean;
+  /** Pixels per second */
+  speed: number;
+  /** Reached the end of the chapter and about to open the next one */
+  isAdvancing: boolean;
+  onTogglePause: () => void;
+  onSpeedStep: (direction: 1 | -1) => void;
+  onStop: () => void;
+  /** Auto-scroll holds while the pointer is over the controls */
+  onHoverChange: (hovered: boolean) => void;
+}
+
+/** Floating auto-scroll panel, shown while auto-scroll is on */
+export const AutoScrollControls: React.FC<AutoScrollControlsProps> = ({
+  isPaused,
+  speed,
+  isAdvancing,
+  onTogglePause,
+  onSpeedStep,
+  onStop,
+  onHoverChange,
+}) => (
+  <div
+    className={`fixed bottom-24 right-4 z-50 flex items-center gap-1 rounded-full bg-black/80 p-1 text-white shadow-lg transition-opacity ${
+      isPaused || isAdvancing ? 'opacity-100' : 'opacity-60 hover:opacity-100'
+    }`}
+    onPointerEnter={() => onHoverChange(true)}
+    onPointerLeave={() => onHoverChange(false)}
+  >
+    {isAdvancing ? (
+      <span className="px-3 py-1.5 text-xs text-neutral-200">Đang chuyển sang chương tiếp...</span>
+    ) : (
+      <>
+        <button
+          type="button"
+          onClick={onTogglePause}
+          title={isPaused ? 'Tiếp tục' : 'Tạm dừng'}
+          className="rounded-full p-2 hover:bg-white/10"
+        >
+          {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => onSpeedStep(-1)}
+          disabled={speed <= MIN_AUTO_SCROLL_SPEED}
+          title="Chậm hơn"
+          className="rounded-full p-2 hover:bg-white/10 disabled:opacity-30"
+        >
+          <Minus className="h-4 w-4" />
+        </button>
+        <span className="w-16 text-center text-xs tabular-nums text-neutral-200">{speed} px/s</span>
+        <button
+          type="button"
+          onClick={() => onSpeedStep(1)}
+          disabled={speed >= MAX_AUTO_SCROLL_SPEED}
+          title="Nhanh hơn"
+          className="rounded-full p-2 hover:bg-white/10 disabled:opacity-30"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </>
+    )}
+    <button
+      type="button"
+      onClick={onStop}
+      title="Tắt tự cuộn"
+      className="rounded-full p-2 text-neutral-400 hover:bg-white/10 hover:text-white"
+    >
+      <X className="h-4 w-4" />
+    </button>
+  </div>
+);
@@ -7,7 +7,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ChevronLeft, ChevronRight, Settings, SquareArrowOutUpRight } from 'lucide-react';
+import { Bookmark, ChevronLeft, ChevronRight, ChevronsDown, Settings, SquareArrowOutUpRight } from 'lucide-react';
 import type { Chapter } from '@/types/mangadex_types';
 import { LanguageFlag } from '@/components/LanguageFlag';
 
@@ -16,6 +16,13 @@ interface ChapterNavigationBarProps {
   allChapters: Chapter[];
   onChapterChange: (chapterId: string) => void;
   onSettingsClick: () => void;
+  /** Shown only when set, i.e. for logged-in readers */
+  onBookmarkClick?: () => void;
+  /** The page being read is bookmarked */
+  isBookmarked?: boolean;
+  /** Shown only when set, i.e. in scroll-vertical mode */
+  onAutoScrollClick?: () => void;
+  isAutoScrolling?: boolean;
   visible: boolean;
 }
 
@@ -24,6 +31,10 @@ export const ChapterNavigationBar: React.FC<ChapterNavigationBarProps> = ({
   allChapters,
   onChapterChange,
   onSettingsClick,
+  onBookmarkClick,
+  isBookmarked = false,
+  onAutoScrollClick,
+  isAutoScrolling = false,
   visible,
 }) => {
   const [mounted, setMounted] = useState(false);
@@ -113,6 +124,28 @@ export const ChapterNavigationBar: React.FC<ChapterNavigationBarProps> = ({
 
         {/* Settings Button */}
         <div className="h-6 w-px bg-neutral-700 mx-1" />
+        {onAutoScrollClick && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onAutoScrollClick}
+            title={isAutoScrolling ? 'Tắt tự cuộn' : 'Tự cuộn'}
+            className={`h-10 w-10 rounded-full hover:bg-white/10 ${isAutoScrolling ? 'bg-white/15 text-sky-400 hover:text-sky-300' : 'text-white'}`}
+          >
+            <ChevronsDown className="h-5 w-5" />
+          </Button>
+        )}
+        {onBookmarkClick && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onBookmarkClick}
+            title={isBookmarked ? 'Sửa dấu trang' : 'Đánh dấu trang này'}
+            className="h-10 w-10 rounded-full text-white hover:bg-white/10"
+          >
+            <Bookmark className={`h-5 w-5 ${isBookmarked ? 'fill-current text-amber-400' : ''}`} />
+          </Button>
+        )}
         <Button
           variant="ghost"
           size="icon"
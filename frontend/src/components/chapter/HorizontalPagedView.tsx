@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { PageLoadError } from '@/components/chapter/PageLoadError';
+import { ZoomIndicator, ZoomLayer } from '@/components/chapter/ZoomLayer';
+import { ReaderPageImage } from '@/components/chapter/ReaderPageImage';
+import type { FitMode, ImageFilters, ReadingDirection } from '@/components/chapter/ReaderSettingsModal';
+import { useZoomPan, type ZoomState } from '@/hooks/useZoomPan';
+import { getPageFit, type ImageQuality } from '@/utils/readerUtils';
+
+const UNZOOMED: ZoomState = { scale: 1, base: null };
+
+interface HorizontalPagedViewProps {
+  imageUrls: string[];
+  direction: ReadingDirection;
+  fitMode: FitMode;
+  customZoom: number;
+  imageFilters: ImageFilters;
+  currentPage: number;
+  loadedImages: Set<number>;
+  failedImages: Set<number>;
+  hasNextChapter: boolean;
+  onPageChange: (index: number) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onNextChapter: () => void;
+  onToggleNav: () => void;
+  onImageLoad: (index: number, e: React.SyntheticEvent<HTMLImageElement>) => void;
+  onImageError: (index: number) => void;
+  getPageQuality: (index: number) => ImageQuality;
+  onRetryImage: (index: number) => void;
+  onSwitchImageQuality: (index: number) => void;
+}
+
+/**
+ * Horizontal swipe reader built on CSS scroll-snap, so touch swiping and trackpad
+ * gestures come from the browser. `dir="rtl"` flips the page order for manga.
+ * Only the current page zooms; swiping is locked while it is zoomed so panning stays on the page.
+ */
+export const HorizontalPagedView: React.FC<HorizontalPagedViewProps> = ({
+  imageUrls,
+  direction,
+  fitMode,
+  customZoom,
+  imageFilters,
+  currentPage,
+  loadedImages,
+  failedImages,
+  hasNextChapter,
+  onPageChange,
+  onPrevious,
+  onNext,
+  onNextChapter,
+  onToggleNav,
+  onImageLoad,
+  onImageError,
+  getPageQuality,
+  onRetryImage,
+  onSwitchImageQuality,
+}) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Current page slot (scrolls while zoomed) and the zoom layer inside it
+  const pageViewportRef = useRef<HTMLDivElement>(null);
+  const pageContentRef = useRef<HTMLDivElement>(null);
+  const fit = getPageFit(fitMode, customZoom, 'screen');
+  // Last page index reported by a user swipe — skips the programmatic scroll it would trigger
+  const swipedPageRef = useRef(currentPage);
+
+  // Scroll to the current page when it changes from a tap, key press or chapter switch
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || swipedPageRef.current === currentPage) return;
+    swipedPageRef.current = currentPage;
+    const target = el.children[currentPage] as HTMLElement | undefined;
+    target?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'start' });
+  }, [currentPage]);
+
+  const handleScroll = () => {
+    const el = containerRef.current;
+    if (!el || el.clientWidth === 0) return;
+    // scrollLeft is negative in RTL containers
+    const index = Math.round(Math.abs(el.scrollLeft) / el.clientWidth);
+    if (index < imageUrls.length && index !== swipedPageRef.current) {
+      swipedPageRef.current = index;
+      onPageChange(index);
+    }
+  };
+
+  // Edge taps turn pages in reading direction: in RTL the left edge moves forward
+  const handleTap = useCallback(
+    (clientX: number, _clientY: number, isZoomed: boolean) => {
+      const rect = surfaceRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const ratio = (clientX - rect.left) / rect.width;
+      if (isZoomed || (ratio > 1 / 3 && ratio < 2 / 3)) {
+        onToggleNav();
+        return;
+      }
+      const isLeft = ratio <= 1 / 3;
+      if (isLeft === (direction === 'rtl')) onNext();
+      else onPrevious();
+    },
+    [direction, onNext, onPrevious, onToggleNav]
+  );
+
+  const { zoom, isZoomed, reset } = useZoomPan({
+    surfaceRef,
+    contentRef: pageContentRef,
+    getScrollElements: () => ({ x: pageViewportRef.current, y: pageViewportRef.current }),
+    resetKey: currentPage,
+    onTap: handleTap,
+  });
+
+  return (
+    <div
+      ref={surfaceRef}
+      className={`relative w-full h-screen select-none touch-pan-x touch-pan-y ${isZoomed ? 'cursor-grab' : ''}`}
+    >
+      <div
+        ref={containerRef}
+        dir={direction}
+        onScroll={handleScroll}
+        className={`flex h-full w-full overflow-y-hidden snap-x snap-mandatory scrollbar-none ${isZoomed ? 'overflow-x-hidden' : 'overflow-x-auto'}`}
+      >
+        {imageUrls.map((url, index) => {
+          const isCurrent = index === currentPage;
+          return (
+            <div
+              key={url}
+              ref={isCurrent ? pageViewportRef : undefined}
+              className="relative h-full w-full shrink-0 snap-start snap-always overflow-auto"
+            >
+              {failedImages.has(index) ? (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <PageLoadError
+                    pageNumber={index + 1}
+                    quality={getPageQuality(index)}
+                    onRetry={() => onRetryImage(index)}
+                    onSwitchQuality={() => onSwitchImageQuality(index)}
+                  />
+                </div>
+              ) : !loadedImages.has(index) && (
+                <Skeleton className="absolute inset-0 m-auto w-[600px] max-w-full h-[800px] max-h-full bg-neutral-800" />
+              )}
+              {/* Every page gets a layer so moving between pages never remounts an image */}
+              <ZoomLayer
+                zoom={isCurrent ? zoom : UNZOOMED}
+                contentRef={isCurrent ? pageContentRef : undefined}
+                fillHeight
+                className="h-full w-full"
+                contentClassName="flex h-full w-full"
+              >
+                <ReaderPageImage
+                  src={url}
+                  filters={imageFilters}
+                  alt={`Page ${index + 1}`}
+                  className={`m-auto ${fit.className} ${!loadedImages.has(index) ? 'opacity-0' : ''} ${failedImages.has(index) ? 'hidden' : ''}`}
+                  style={fit.style}
+                  onLoad={(e) => onImageLoad(index, e)}
+                  onError={() => onImageError(index)}
+                  referrerPolicy="no-referrer"
+                  loading={Math.abs(index - currentPage) <= 2 ? 'eager' : 'lazy'}
+                  draggable={false}
+                />
+              </ZoomLayer>
+            </div>
+          );
+        })}
+
+        {/* Trailing panel: swiping past the last page offers the next chapter */}
+        <div className="flex h-full w-full shrink-0 snap-start items-center justify-center">
+          <div className="text-center space-y-4" dir="ltr">
+            <p className="text-neutral-500 text-xs uppercase tracking-widest">Đã đọc hết</p>
+            <Button
+              variant="outline"
+              disabled={!hasNextChapter}
+              onClick={(e) => {
+                e.stopPropagation();
+                onNextChapter();
+              }}
+              className="border-neutral-600 text-white hover:bg-neutral-700 bg-neutral-800 disabled:opacity-30"
+            >
+              {direction === 'rtl' && <ChevronLeft className="h-4 w-4 mr-1" />}
+              Chương tiếp
+              {direction === 'ltr' && <ChevronRight className="h-4 w-4 ml-1" />}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ZoomIndicator scale={zoom.scale} onReset={reset} />
+
+      {/* Page counter */}
+      <div className="absolute bottom-2 left-1/2 -translate-x-1/2 rounded-full bg-black/70 px-3 py-1 text-xs text-neutral-200 pointer-events-none">
+        {currentPage + 1} / {imageUrls.length}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { useBookmarkMutations } from '@/hooks/useBookmarks';
+import type { CreatePageBookmarkData, PageBookmark } from '@/services/user_service';
+
+const MAX_NOTE_LENGTH = 2000;
+
+interface PageBookmarkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The page being read, without the note */
+  target: Omit<CreatePageBookmarkData, 'note'>;
+  /** Existing bookmark on that page, if any */
+  bookmark?: PageBookmark;
+}
+
+export const PageBookmarkDialog: React.FC<PageBookmarkDialogProps> = ({ open, onOpenChange, target, bookmark }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="bg-neutral-900 text-white border-neutral-700">
+      {/* Mounted only while open, so the note starts from the saved one each time */}
+      <BookmarkForm target={target} bookmark={bookmark} onDone={() => onOpenChange(false)} />
+    </DialogContent>
+  </Dialog>
+);
+
+interface BookmarkFormProps {
+  target: Omit<CreatePageBookmarkData, 'note'>;
+  bookmark?: PageBookmark;
+  onDone: () => void;
+}
+
+const BookmarkForm: React.FC<BookmarkFormProps> = ({ target, bookmark, onDone }) => {
+  const [note, setNote] = useState(bookmark?.note ?? '');
+  const { createBookmark, deleteBookmark } = useBookmarkMutations();
+  const isPending = createBookmark.isPending || deleteBookmark.isPending;
+  const error = createBookmark.error || deleteBookmark.error;
+
+  const handleSave = () => {
+    createBookmark.mutate({ ...target, note: note.trim() || null }, { onSuccess: onDone });
+  };
+
+  const handleRemove = () => {
+    if (!bookmark) return;
+    deleteBookmark.mutate(bookmark.id, { onSuccess: onDone });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="text-white">
+          {bookmark ? `Dấu trang ${target.pageNumber}` : `Đánh dấu trang ${target.pageNumber}`}
+        </DialogTitle>
+        <DialogDescription className="text-neutral-400">
+          Ghi chú là riêng tư, chỉ bạn mới xem được.
+        </DialogDescription>
+      </DialogHeader>
+
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        placeholder="Ghi chú (không bắt buộc)"
+        className="max-h-60 border-neutral-700 bg-neutral-800 text-white placeholder:text-neutral-500"
+        autoFocus
+      />
+
+      {error && <p className="text-sm text-red-400">Không thể lưu dấu trang. Vui lòng thử lại.</p>}
+
+      <DialogFooter className="gap-2">
+        {bookmark && (
+          <Button
+            variant="ghost"
+            disabled={isPending}
+            onClick={handleRemove}
+            className="text-red-400 hover:bg-red-500/10 hover:text-red-300 sm:mr-auto"
+          >
+            Xóa dấu trang
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          disabled={isPending}
+          onClick={onDone}
+          className="text-neutral-300 hover:bg-white/10 hover:text-white"
+        >
+          Hủy
+        </Button>
+        <Button disabled={isPending} onClick={handleSave}>
+          {createBookmark.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Lưu
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
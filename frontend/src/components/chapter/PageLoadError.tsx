@@ -0,0 +1,61 @@
+import React from 'react';
+import { ImageOff, RotateCw, ImageDown, ImageUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ImageQuality } from '@/utils/readerUtils';
+
+interface PageLoadErrorProps {
+  pageNumber: number;
+  quality: ImageQuality;
+  onRetry: () => void;
+  onSwitchQuality: () => void;
+}
+
+/** Shown in place of a page that still failed after the automatic server failover */
+export const PageLoadError: React.FC<PageLoadErrorProps> = ({
+  pageNumber,
+  quality,
+  onRetry,
+  onSwitchQuality,
+}) => {
+  // Buttons sit above the readers' tap zones, so clicks must not also turn the page
+  const handleClick = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div className="relative z-10 flex w-full max-w-md flex-col items-center gap-4 rounded-lg border border-neutral-700 bg-neutral-800 px-6 py-10 text-center">
+      <ImageOff className="h-10 w-10 text-neutral-500" />
+      <p className="text-sm text-neutral-300">Không tải được trang {pageNumber}</p>
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClick(onRetry)}
+          className="border-neutral-600 bg-neutral-900 text-white hover:bg-neutral-700 hover:text-white"
+        >
+          <RotateCw className="mr-2 h-4 w-4" />
+          Thử lại
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClick(onSwitchQuality)}
+          className="border-neutral-600 bg-neutral-900 text-white hover:bg-neutral-700 hover:text-white"
+        >
+          {quality === 'data' ? (
+            <>
+              <ImageDown className="mr-2 h-4 w-4" />
+              Dùng ảnh tiết kiệm
+            </>
+          ) : (
+            <>
+              <ImageUp className="mr-2 h-4 w-4" />
+              Dùng ảnh gốc
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
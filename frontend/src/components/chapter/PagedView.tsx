@@ -0,0 +1,165 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { PageLoadError } from '@/components/chapter/PageLoadError';
+import { ZoomIndicator, ZoomLayer } from '@/components/chapter/ZoomLayer';
+import { ReaderPageImage } from '@/components/chapter/ReaderPageImage';
+import type { FitMode, ImageFilters, ReadingDirection } from '@/components/chapter/ReaderSettingsModal';
+import { useZoomPan } from '@/hooks/useZoomPan';
+import { getPageFit, type ImageQuality } from '@/utils/readerUtils';
+
+interface PagedViewProps {
+  imageUrls: string[];
+  /** Page indices shown together — one for single-page mode, up to two for a spread */
+  pageIndices: number[];
+  loadedImages: Set<number>;
+  failedImages: Set<number>;
+  direction: ReadingDirection;
+  fitMode: FitMode;
+  customZoom: number;
+  imageFilters: ImageFilters;
+  onPrevious: () => void;
+  onNext: () => void;
+  onToggleNav: () => void;
+  onImageLoad: (index: number, e: React.SyntheticEvent<HTMLImageElement>) => void;
+  onImageError: (index: number) => void;
+  getPageQuality: (index: number) => ImageQuality;
+  onRetryImage: (index: number) => void;
+  onSwitchImageQuality: (index: number) => void;
+}
+
+/**
+ * Renders one page (or a two-page spread) at a time with three invisible tap zones. The outer
+ * thirds turn pages (in RTL the left third moves forward), the middle third toggles the
+ * navigation bar. In RTL the first page of a spread sits on the right. While zoomed, taps only
+ * toggle the navigation bar so panning around a page never turns it by accident.
+ */
+export const PagedView: React.FC<PagedViewProps> = ({
+  imageUrls,
+  pageIndices,
+  loadedImages,
+  failedImages,
+  direction,
+  fitMode,
+  customZoom,
+  imageFilters,
+  onPrevious,
+  onNext,
+  onToggleNav,
+  onImageLoad,
+  onImageError,
+  getPageQuality,
+  onRetryImage,
+  onSwitchImageQuality,
+}) => {
+  const isRtl = direction === 'rtl';
+  const isSpread = pageIndices.length > 1;
+  const first = pageIndices[0];
+  const last = pageIndices[pageIndices.length - 1];
+  const fit = getPageFit(fitMode, customZoom, 'screen');
+
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const pageKey = pageIndices.join(',');
+
+  const handleTap = useCallback(
+    (clientX: number, _clientY: number, isZoomed: boolean) => {
+      const rect = surfaceRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const ratio = (clientX - rect.left) / rect.width;
+      if (isZoomed || (ratio > 1 / 3 && ratio < 2 / 3)) {
+        onToggleNav();
+        return;
+      }
+      const isLeft = ratio <= 1 / 3;
+      if (isLeft === isRtl) onNext();
+      else onPrevious();
+    },
+    [isRtl, onNext, onPrevious, onToggleNav]
+  );
+
+  const { zoom, isZoomed, reset } = useZoomPan({
+    surfaceRef,
+    contentRef,
+    getScrollElements: () => ({ x: viewportRef.current, y: viewportRef.current }),
+    resetKey: pageKey,
+    onTap: handleTap,
+  });
+
+  // Pages taller or wider than the screen start from their top-left corner
+  useEffect(() => {
+    viewportRef.current?.scrollTo(0, 0);
+  }, [pageKey]);
+
+  // Tap zone cursors; set directly on the element to avoid re-rendering on every mouse move
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - rect.left) / rect.width;
+    e.currentTarget.style.cursor = isZoomed
+      ? ''
+      : ratio <= 1 / 3 ? 'w-resize' : ratio >= 2 / 3 ? 'e-resize' : 'pointer';
+  };
+
+  return (
+    <div
+      ref={surfaceRef}
+      onMouseMove={handleMouseMove}
+      className={`relative w-full h-screen select-none touch-pan-x touch-pan-y ${isZoomed ? 'cursor-grab' : ''}`}
+    >
+      <div ref={viewportRef} className="h-full w-full overflow-auto">
+        <ZoomLayer
+          zoom={zoom}
+          contentRef={contentRef}
+          fillHeight
+          dir={direction}
+          className="h-full w-full"
+          contentClassName="flex h-full w-full"
+        >
+          {pageIndices.map((index) => {
+            const isLoaded = loadedImages.has(index);
+            const isFailed = failedImages.has(index);
+            // Auto margins centre pages without pushing oversized ones off the scrollable area
+            const align = !isSpread ? 'm-auto' : index === first ? 'ms-auto my-auto' : 'me-auto my-auto';
+            return (
+              <div
+                key={imageUrls[index]}
+                className={`relative flex h-full ${isSpread ? 'w-1/2' : 'w-full'}`}
+              >
+                {isFailed ? (
+                  <div className="m-auto">
+                    <PageLoadError
+                      pageNumber={index + 1}
+                      quality={getPageQuality(index)}
+                      onRetry={() => onRetryImage(index)}
+                      onSwitchQuality={() => onSwitchImageQuality(index)}
+                    />
+                  </div>
+                ) : !isLoaded && (
+                  <Skeleton className="absolute inset-0 m-auto w-[600px] max-w-full h-[800px] max-h-full bg-neutral-800" />
+                )}
+                <ReaderPageImage
+                  src={imageUrls[index]}
+                  filters={imageFilters}
+                  alt={`Page ${index + 1}`}
+                  className={`${fit.className} ${align} ${!isLoaded ? 'opacity-0' : ''} ${isFailed ? 'hidden' : ''}`}
+                  style={fit.style}
+                  onLoad={(e) => onImageLoad(index, e)}
+                  onError={() => onImageError(index)}
+                  referrerPolicy="no-referrer"
+                  draggable={false}
+                />
+              </div>
+            );
+          })}
+        </ZoomLayer>
+      </div>
+
+      <ZoomIndicator scale={zoom.scale} onReset={reset} />
+
+      {/* Page counter */}
+      <div className="absolute bottom-2 left-1/2 -translate-x-1/2 rounded-full bg-black/70 px-3 py-1 text-xs text-neutral-200 pointer-events-none">
+        {isSpread ? `${first + 1}-${last + 1}` : first + 1} / {imageUrls.length}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import type { ImageFilters } from '@/components/chapter/ReaderSettingsModal';
+import { buildImageFilter, getCroppedPageUrl, SHARPEN_FILTER_ID } from '@/utils/imageProcessing';
+
+interface ReaderPageImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  filters: ImageFilters;
+}
+
+/**
+ * A reader page with the user's image filters applied. Colour adjustments are CSS filters;
+ * border cropping swaps in a trimmed copy once the original has loaded, so a page that cannot
+ * be cropped still shows as-is.
+ */
+export const ReaderPageImage: React.FC<ReaderPageImageProps> = ({ src, filters, style, onLoad, ...props }) => {
+  const [cropped, setCropped] = useState<{ source: string; url: string } | null>(null);
+  const [loadedSource, setLoadedSource] = useState<string | null>(null);
+  const { autoCrop } = filters;
+
+  useEffect(() => {
+    if (!autoCrop || loadedSource !== src) return;
+    let cancelled = false;
+    getCroppedPageUrl(src).then((url) => {
+      if (!cancelled && url) setCropped({ source: src, url });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [autoCrop, loadedSource, src]);
+
+  const filter = buildImageFilter(filters);
+  const displaySrc = autoCrop && cropped?.source === src ? cropped.url : src;
+
+  return (
+    <img
+      {...props}
+      src={displaySrc}
+      style={filter ? { ...style, filter } : style}
+      onLoad={(e) => {
+        if (displaySrc === src) setLoadedSource(src);
+        onLoad?.(e);
+      }}
+    />
+  );
+};
+
+/** SVG definitions referenced by the sharpen filter; render once per reader */
+export const SharpenFilterDefs: React.FC = () => (
+  <svg aria-hidden className="absolute h-0 w-0" focusable="false">
+    <filter id={SHARPEN_FILTER_ID}>
+      <feConvolveMatrix order="3" preserveAlpha="true" kernelMatrix="0 -1 0 -1 5 -1 0 -1 0" />
+    </filter>
+  </svg>
+);
@@ -8,24 +8,92 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useToast } from '@/hooks/use_toast';
-import { FileText, Scroll, ArrowUpDown, ArrowLeftRight, Eye, EyeOff } from 'lucide-react';
+import {
+  DEFAULT_IMAGE_FILTERS,
+  AUTO_SCROLL_SPEED_STEP,
+  MAX_AUTO_SCROLL_SPEED,
+  MIN_AUTO_SCROLL_SPEED,
+  MAX_CUSTOM_ZOOM,
+  MAX_FILTER_PERCENT,
+  MIN_CUSTOM_ZOOM,
+  MIN_FILTER_PERCENT,
+} from '@/utils/readerUtils';
+import { FileText, Scroll, ArrowUpDown, ArrowLeftRight, Eye, EyeOff, GalleryHorizontal, MoveLeft, MoveRight, BookOpen, Image, ImageDown, Scan, Maximize, ZoomIn, Palette, Moon, Sparkles, Crop, RotateCcw } from 'lucide-react';
+
+export type ReadingMode = 'scroll-vertical' | 'scroll-horizontal' | 'single-page' | 'double-page';
+/**
+ * How pages are sized: 'auto' fits the strip width in scroll-vertical and the whole screen in
+ * paged modes; 'custom' sets the page width to `customZoom` percent of the reader.
+ */
+export type FitMode = 'auto' | 'width' | 'height' | 'original' | 'custom';
+/** Page order for paged modes: 'rtl' for manga, 'ltr' for manhwa/manhua/comics */
+export type ReadingDirection = 'rtl' | 'ltr';
 
-export type ReadingMode = 'scroll-vertical' | 'scroll-horizontal' | 'single-page';
-export type ImageOrientation = 'vertical' | 'horizontal';
+/**
+ * Per-page image adjustments. They suit the device and lighting more than the account, so they
+ * stay in local storage and are not synced to the server.
+ */
+export interface ImageFilters {
+  /** Percent, 100 = unchanged */
+  brightness: number;
+  /** Percent, 100 = unchanged */
+  contrast: number;
+  grayscale: boolean;
+  /** Night mode: white pages turn black */
+  invert: boolean;
+  sharpen: boolean;
+  /** Cut solid white or black margins off each page */
+  autoCrop: boolean;
+}
 
 export interface ReaderSettings {
   readingMode: ReadingMode;
   imageGap: number;
-  imageOrientation: ImageOrientation;
+  fitMode: FitMode;
+  /** Page width in percent, used when fitMode is 'custom' */
+  customZoom: number;
   showHeader: boolean;
+  /** Double-page mode: show the first page alone so cover-offset volumes pair correctly */
+  doublePageShift: boolean;
+  /** Load MangaDex's compressed "data-saver" images instead of full quality */
+  dataSaver: boolean;
+  imageFilters: ImageFilters;
+  /** Scroll-vertical auto-scroll speed in pixels per second; kept on the device like imageFilters */
+  autoScrollSpeed: number;
 }
 
+const FILTER_TOGGLE_OPTIONS: {
+  key: 'grayscale' | 'invert' | 'sharpen' | 'autoCrop';
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+}[] = [
+  { key: 'grayscale', label: 'Đen trắng', icon: Palette },
+  { key: 'invert', label: 'Đảo màu (ban đêm)', icon: Moon },
+  { key: 'sharpen', label: 'Làm nét', icon: Sparkles },
+  { key: 'autoCrop', label: 'Tự cắt viền', icon: Crop },
+];
+
+const FILTER_SLIDERS: { key: 'brightness' | 'contrast'; label: string }[] = [
+  { key: 'brightness', label: 'Độ sáng' },
+  { key: 'contrast', label: 'Độ tương phản' },
+];
+
+const FIT_MODE_OPTIONS: { value: FitMode; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { value: 'auto', label: 'Tự động', icon: Scan },
+  { value: 'width', label: 'Vừa chiều rộng', icon: ArrowLeftRight },
+  { value: 'height', label: 'Vừa chiều cao', icon: ArrowUpDown },
+  { value: 'original', label: 'Kích thước gốc', icon: Maximize },
+  { value: 'custom', label: 'Tùy chỉnh', icon: ZoomIn },
+];
+
 interface ReaderSettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   settings: ReaderSettings;
   onSettingsChange: (settings: ReaderSettings) => void;
+  /** Stored per manga rather than in ReaderSettings */
+  readingDirection: ReadingDirection;
+  onReadingDirectionChange: (direction: ReadingDirection) => void;
 }
 
 export const ReaderSettingsModal: React.FC<ReaderSettingsModalProps> = ({
@@ -33,23 +101,25 @@ export const ReaderSettingsModal: React.FC<ReaderSettingsModalProps> = ({
   onOpenChange,
   settings,
   onSettingsChange,
+  readingDirection,
+  onReadingDirectionChange,
 }) => {
-  const { toast } = useToast();
+  const isPagedMode = settings.readingMode !== 'scroll-vertical';
 
   const handleReadingModeChange = (mode: ReadingMode) => {
-    if (mode !== 'scroll-vertical') {
-      toast({
-        title: 'Tính năng đang trong quá trình phát triển',
-        description: 'Chế độ đọc này sẽ được cập nhật trong thời gian tới.',
-        variant: 'default',
-      });
-      return;
-    }
     onSettingsChange({ ...settings, readingMode: mode });
   };
 
-  const handleOrientationChange = (orientation: ImageOrientation) => {
-    onSettingsChange({ ...settings, imageOrientation: orientation });
+  const handleFitModeChange = (fitMode: FitMode) => {
+    onSettingsChange({ ...settings, fitMode });
+  };
+
+  const handleCustomZoomChange = (customZoom: number) => {
+    onSettingsChange({ ...settings, customZoom });
+  };
+
+  const handleDoublePageShiftChange = (shift: boolean) => {
+    onSettingsChange({ ...settings, doublePageShift: shift });
   };
 
   const handleShowHeaderChange = (show: boolean) => {
@@ -60,9 +130,21 @@ export const ReaderSettingsModal: React.FC<ReaderSettingsModalProps> = ({
     onSettingsChange({ ...settings, imageGap: gap });
   };
 
+  const handleDataSaverChange = (dataSaver: boolean) => {
+    onSettingsChange({ ...settings, dataSaver });
+  };
+
+  const handleImageFiltersChange = (changes: Partial<ImageFilters>) => {
+    onSettingsChange({ ...settings, imageFilters: { ...settings.imageFilters, ...changes } });
+  };
+
+  const hasImageFilters = (Object.keys(DEFAULT_IMAGE_FILTERS) as (keyof ImageFilters)[]).some(
+    (key) => settings.imageFilters[key] !== DEFAULT_IMAGE_FILTERS[key]
+  );
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
-      <SheetContent side="bottom" className="max-h-[80vh] bg-black/95 text-white border-neutral-700">
+      <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto bg-black/95 text-white border-neutral-700">
         <SheetHeader>
           <SheetTitle className="text-white">Kiểu đọc</SheetTitle>
         </SheetHeader>
@@ -96,9 +178,119 @@ export const ReaderSettingsModal: React.FC<ReaderSettingsModalProps> = ({
                 <Scroll className="w-4 h-4 mr-2" />
                 Trượt đọc
               </Button>
+              <Button
+                variant={settings.readingMode === 'scroll-horizontal' ? 'default' : 'outline'}
+                className={
+                  settings.readingMode === 'scroll-horizontal'
+                    ? 'bg-white text-black hover:bg-neutral-200'
+                    : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                }
+                onClick={() => handleReadingModeChange('scroll-horizontal')}
+              >
+                <GalleryHorizontal className="w-4 h-4 mr-2" />
+                Lật ngang
+              </Button>
+              <Button
+                variant={settings.readingMode === 'double-page' ? 'default' : 'outline'}
+                className={
+                  settings.readingMode === 'double-page'
+                    ? 'bg-white text-black hover:bg-neutral-200'
+                    : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                }
+                onClick={() => handleReadingModeChange('double-page')}
+              >
+                <BookOpen className="w-4 h-4 mr-2" />
+                Hai trang
+              </Button>
             </div>
           </div>
 
+          {/* Double-page offset */}
+          {settings.readingMode === 'double-page' && (
+            <div className="space-y-3">
+              <Label className="text-sm text-neutral-200">Ghép trang (lệch bìa)</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  variant={!settings.doublePageShift ? 'default' : 'outline'}
+                  className={
+                    !settings.doublePageShift
+                      ? 'bg-white text-black hover:bg-neutral-200'
+                      : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                  }
+                  onClick={() => handleDoublePageShiftChange(false)}
+                >
+                  Bình thường
+                </Button>
+                <Button
+                  variant={settings.doublePageShift ? 'default' : 'outline'}
+                  className={
+                    settings.doublePageShift
+                      ? 'bg-white text-black hover:bg-neutral-200'
+                      : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                  }
+                  onClick={() => handleDoublePageShiftChange(true)}
+                >
+                  Lệch 1 trang
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Reading Direction — paged modes only, remembered per manga */}
+          {isPagedMode && (
+            <div className="space-y-3">
+              <Label className="text-sm text-neutral-200">Hướng đọc (lưu riêng cho truyện này)</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  variant={readingDirection === 'rtl' ? 'default' : 'outline'}
+                  className={
+                    readingDirection === 'rtl'
+                      ? 'bg-white text-black hover:bg-neutral-200'
+                      : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                  }
+                  onClick={() => onReadingDirectionChange('rtl')}
+                >
+                  <MoveLeft className="w-4 h-4 mr-2" />
+                  Phải sang trái
+                </Button>
+                <Button
+                  variant={readingDirection === 'ltr' ? 'default' : 'outline'}
+                  className={
+                    readingDirection === 'ltr'
+                      ? 'bg-white text-black hover:bg-neutral-200'
+                      : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                  }
+                  onClick={() => onReadingDirectionChange('ltr')}
+                >
+                  <MoveRight className="w-4 h-4 mr-2" />
+                  Trái sang phải
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Auto-scroll speed — scroll-vertical only */}
+          {settings.readingMode === 'scroll-vertical' && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-neutral-200">Tốc độ tự cuộn</Label>
+                <span className="text-xs tabular-nums text-neutral-200">{settings.autoScrollSpeed} px/s</span>
+              </div>
+              <input
+                type="range"
+                min={MIN_AUTO_SCROLL_SPEED}
+                max={MAX_AUTO_SCROLL_SPEED}
+                step={AUTO_SCROLL_SPEED_STEP}
+                value={settings.autoScrollSpeed}
+                onChange={(e) => onSettingsChange({ ...settings, autoScrollSpeed: Number(e.target.value) })}
+                className="w-full accent-white"
+              />
+              <p className="text-xs text-neutral-500">
+                Bật bằng nút tự cuộn trên thanh điều hướng; chạm vào trang để tạm dừng.
+              </p>
+            </div>
+          )}
+
           {/* Image Gap */}
           <div className="space-y-3">
             <Label className="text-sm text-neutral-200">Khoảng cách giữa các ảnh (px)</Label>
@@ -112,37 +304,136 @@ export const ReaderSettingsModal: React.FC<ReaderSettingsModalProps> = ({
             />
           </div>
 
-          {/* Image Orientation */}
+          {/* Image Fit */}
           <div className="space-y-3">
-            <Label className="text-sm text-neutral-200">Ảnh truyện</Label>
+            <Label className="text-sm text-neutral-200">Kích thước ảnh</Label>
+            <div className="grid grid-cols-2 gap-3">
+              {FIT_MODE_OPTIONS.map(({ value, label, icon: Icon }) => (
+                <Button
+                  key={value}
+                  variant={settings.fitMode === value ? 'default' : 'outline'}
+                  className={`${value === 'auto' ? 'col-span-2' : ''} ${
+                    settings.fitMode === value
+                      ? 'bg-white text-black hover:bg-neutral-200'
+                      : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                  }`}
+                  onClick={() => handleFitModeChange(value)}
+                >
+                  <Icon className="w-4 h-4 mr-2" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+            {settings.fitMode === 'custom' && (
+              <div className="space-y-2 pt-1">
+                <div className="flex items-center justify-between text-xs text-neutral-400">
+                  <span>Độ rộng trang</span>
+                  <span className="tabular-nums text-neutral-200">{settings.customZoom}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={MIN_CUSTOM_ZOOM}
+                  max={MAX_CUSTOM_ZOOM}
+                  step={5}
+                  value={settings.customZoom}
+                  onChange={(e) => handleCustomZoomChange(Number(e.target.value))}
+                  className="w-full accent-white"
+                />
+              </div>
+            )}
+            <p className="text-xs text-neutral-500">
+              Chụm hai ngón, Ctrl + cuộn chuột hoặc chạm hai lần để phóng to; chạm hai lần lần nữa để đặt lại.
+            </p>
+          </div>
+
+          {/* Image Quality */}
+          <div className="space-y-3">
+            <Label className="text-sm text-neutral-200">Chất lượng ảnh</Label>
             <div className="grid grid-cols-2 gap-3">
               <Button
-                variant={settings.imageOrientation === 'vertical' ? 'default' : 'outline'}
+                variant={!settings.dataSaver ? 'default' : 'outline'}
                 className={
-                  settings.imageOrientation === 'vertical'
+                  !settings.dataSaver
                     ? 'bg-white text-black hover:bg-neutral-200'
                     : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
                 }
-                onClick={() => handleOrientationChange('vertical')}
+                onClick={() => handleDataSaverChange(false)}
               >
-                <ArrowUpDown className="w-4 h-4 mr-2" />
-                Vừa dọc
+                <Image className="w-4 h-4 mr-2" />
+                Ảnh gốc
               </Button>
               <Button
-                variant={settings.imageOrientation === 'horizontal' ? 'default' : 'outline'}
+                variant={settings.dataSaver ? 'default' : 'outline'}
                 className={
-                  settings.imageOrientation === 'horizontal'
+                  settings.dataSaver
                     ? 'bg-white text-black hover:bg-neutral-200'
                     : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
                 }
-                onClick={() => handleOrientationChange('horizontal')}
+                onClick={() => handleDataSaverChange(true)}
               >
-                <ArrowLeftRight className="w-4 h-4 mr-2" />
-                Vừa ngang
+                <ImageDown className="w-4 h-4 mr-2" />
+                Tiết kiệm dữ liệu
               </Button>
             </div>
           </div>
 
+          {/* Image Filters */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm text-neutral-200">Bộ lọc ảnh</Label>
+              {hasImageFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-neutral-400 hover:bg-neutral-800 hover:text-white"
+                  onClick={() => onSettingsChange({ ...settings, imageFilters: DEFAULT_IMAGE_FILTERS })}
+                >
+                  <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                  Đặt lại
+                </Button>
+              )}
+            </div>
+            {FILTER_SLIDERS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center justify-between text-xs text-neutral-400">
+                  <span>{label}</span>
+                  <span className="tabular-nums text-neutral-200">{settings.imageFilters[key]}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={MIN_FILTER_PERCENT}
+                  max={MAX_FILTER_PERCENT}
+                  step={5}
+                  value={settings.imageFilters[key]}
+                  onChange={(e) => handleImageFiltersChange({ [key]: Number(e.target.value) })}
+                  className="w-full accent-white"
+                />
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-3">
+              {FILTER_TOGGLE_OPTIONS.map(({ key, label, icon: Icon }) => (
+                <Button
+                  key={key}
+                  variant={settings.imageFilters[key] ? 'default' : 'outline'}
+                  className={
+                    settings.imageFilters[key]
+                      ? 'bg-white text-black hover:bg-neutral-200'
+                      : 'bg-neutral-900 border-neutral-600 text-white hover:bg-neutral-800'
+                  }
+                  onClick={() => handleImageFiltersChange({ [key]: !settings.imageFilters[key] })}
+                >
+                  <Icon className="w-4 h-4 mr-2" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+            {settings.imageFilters.autoCrop && (
+              <p className="text-xs text-neutral-500">
+                Viền trắng hoặc đen được cắt sau khi trang tải xong; trang từ máy chủ không cho phép đọc ảnh sẽ giữ nguyên.
+              </p>
+            )}
+          </div>
+
           {/* Show Header */}
           <div className="space-y-3">
             <Label className="text-sm text-neutral-200">Thanh Header</Label>
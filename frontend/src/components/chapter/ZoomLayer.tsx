@@ -0,0 +1,80 @@
+import React from 'react';
+import { ZoomIn } from 'lucide-react';
+import type { ZoomState } from '@/hooks/useZoomPan';
+
+interface ZoomLayerProps {
+  zoom: ZoomState;
+  contentRef?: React.RefObject<HTMLDivElement | null>;
+  /** Paged modes: the content fills the viewport height instead of growing with its pages */
+  fillHeight?: boolean;
+  className?: string;
+  contentClassName?: string;
+  dir?: React.HTMLAttributes<HTMLDivElement>['dir'];
+  children: React.ReactNode;
+}
+
+/**
+ * Scales its content with a transform while an outer box takes up the scaled size, so the
+ * surrounding scroll container can pan over it. The DOM stays the same at 100% so pages
+ * are not reloaded when zooming in or out.
+ */
+export const ZoomLayer: React.FC<ZoomLayerProps> = ({
+  zoom,
+  contentRef,
+  fillHeight = false,
+  className,
+  contentClassName,
+  dir,
+  children,
+}) => {
+  const { scale, base } = zoom;
+  const isZoomed = !!base && scale !== 1;
+
+  return (
+    <div
+      className={className}
+      style={isZoomed ? { width: base.scrollWidth * scale, height: base.scrollHeight * scale, maxWidth: 'none' } : undefined}
+    >
+      <div
+        ref={contentRef}
+        dir={dir}
+        className={contentClassName}
+        style={
+          isZoomed
+            ? {
+                width: base.width,
+                height: fillHeight ? base.height : undefined,
+                transform: `scale(${scale})`,
+                transformOrigin: '0 0',
+              }
+            : undefined
+        }
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+interface ZoomIndicatorProps {
+  scale: number;
+  onReset: () => void;
+}
+
+/** Floating zoom level with a reset button, shown only while zoomed */
+export const ZoomIndicator: React.FC<ZoomIndicatorProps> = ({ scale, onReset }) => {
+  if (scale === 1) return null;
+  return (
+    <div className="fixed top-4 right-4 z-50 flex items-center gap-2 rounded-full bg-black/75 py-1 pl-3 pr-1 text-xs text-neutral-200 shadow-lg">
+      <ZoomIn className="h-3.5 w-3.5" />
+      <span className="tabular-nums">{Math.round(scale * 100)}%</span>
+      <button
+        type="button"
+        onClick={onReset}
+        className="rounded-full bg-neutral-700 px-2.5 py-1 font-medium text-white hover:bg-neutral-600"
+      >
+        Đặt lại
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { useLingui } from '@lingui/react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, BellOff, ChevronDown, ListPlus, Loader2, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { followService, READING_STATUSES } from '@/services/follow_service';
+import { listService } from '@/services/list_service';
+import { READING_STATUS_LABELS } from '@/utils/readingStatusUtils';
+import { useToast } from '@/hooks/use_toast';
+
+interface BulkActionBarProps {
+  /** Follow ids of the selected manga */
+  selectedIds: string[];
+  onSelectPage: () => void;
+  onClear: () => void;
+  /** Called after a change went through, to refresh the shelves */
+  onDone: () => void;
+}
+
+/**
+ * Actions on every selected follow at once: move to a shelf, add to a list, mute or unmute,
+ * unfollow. Each runs as a single request that applies to all of them or none.
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedIds, onSelectPage, onClear, onDone }) => {
+  const { _ } = useLingui();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isPending, setIsPending] = useState(false);
+  const [listsOpen, setListsOpen] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const { data: lists, isLoading: isListsLoading } = useQuery({
+    queryKey: ['lists', 'mine'],
+    queryFn: () => listService.getUserLists(),
+    enabled: listsOpen,
+  });
+
+  const count = selectedIds.length;
+  const disabled = count === 0 || isPending;
+
+  const run = async (action: () => Promise<string>) => {
+    setIsPending(true);
+    try {
+      const title = await action();
+      toast({ title });
+      onDone();
+    } catch (err) {
+      toast({
+        title: t`Error`,
+        description: err instanceof Error ? err.message : t`Something went wrong.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-2 z-20 flex flex-wrap items-center gap-2 rounded-xl border border-border bg-card/95 p-3 shadow-lg backdrop-blur">
+      <span className="mr-2 text-sm font-medium">
+        <Trans>{count} selected</Trans>
+      </span>
+      <Button variant="ghost" size="sm" onClick={onSelectPage} disabled={isPending}>
+        <Trans>Select page</Trans>
+      </Button>
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              <Trans>Move to</Trans>
+              <ChevronDown className="ml-1 h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {READING_STATUSES.map((status) => (
+              <DropdownMenuItem
+                key={status}
+                onClick={() => run(async () => {
+                  await followService.bulkUpdateStatus(selectedIds, status);
+                  const shelf = _(READING_STATUS_LABELS[status]);
+                  return t`Moved ${count} manga to ${shelf}`;
+                })}
+              >
+                {_(READING_STATUS_LABELS[status])}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu open={listsOpen} onOpenChange={setListsOpen}>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              <ListPlus className="mr-1 h-4 w-4" />
+              <Trans>Add to list</Trans>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-72 w-56 overflow-y-auto">
+            <DropdownMenuLabel><Trans>Your lists</Trans></DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {isListsLoading ? (
+              <div className="flex justify-center p-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : !lists?.length ? (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground"><Trans>You have no lists yet.</Trans></p>
+            ) : (
+              lists.map((list) => (
+                <DropdownMenuItem
+                  key={list.id}
+                  onClick={() => run(async () => {
+                    const { added, skipped } = await followService.bulkAddToList(selectedIds, list.id);
+                    queryClient.invalidateQueries({ queryKey: ['lists'] });
+                    const name = list.name;
+                    return skipped > 0
+                      ? t`Added ${added} manga to ${name} (${skipped} already there)`
+                      : t`Added ${added} manga to ${name}`;
+                  })}
+                >
+                  <span className="line-clamp-1">{list.name}</span>
+                </DropdownMenuItem>
+              ))
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              <Bell className="mr-1 h-4 w-4" />
+              <Trans>Notifications</Trans>
+              <ChevronDown className="ml-1 h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={() => run(async () => {
+                await followService.bulkSetMuted(selectedIds, true);
+                return t`Muted ${count} manga`;
+              })}
+            >
+              <BellOff className="mr-2 h-4 w-4" />
+              <Trans>Mute</Trans>
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => run(async () => {
+                await followService.bulkSetMuted(selectedIds, false);
+                return t`Unmuted ${count} manga`;
+              })}
+            >
+              <Bell className="mr-2 h-4 w-4" />
+              <Trans>Unmute</Trans>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button variant="destructive" size="sm" disabled={disabled} onClick={() => setConfirmOpen(true)}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          <Trans>Unfollow</Trans>
+        </Button>
+
+        <Button variant="ghost" size="icon" onClick={onClear} disabled={isPending} aria-label={t`Cancel selection`}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle><Trans>Unfollow {count} manga?</Trans></AlertDialogTitle>
+            <AlertDialogDescription>
+              <Trans>They leave your library along with their shelves and notification settings. Reading history is kept.</Trans>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel><Trans>Cancel</Trans></AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => run(async () => {
+                const unfollowed = await followService.bulkUnfollow(selectedIds);
+                return t`Unfollowed ${unfollowed} manga`;
+              })}
+            >
+              <Trans>Unfollow</Trans>
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
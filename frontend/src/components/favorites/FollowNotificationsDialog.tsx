@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  followService,
+  type MangaSource,
+  type NotificationSettingsDetails,
+} from '@/services/follow_service';
+import { SUPPORTED_LANGUAGES } from '@/store/settingsAtoms';
+import { useToast } from '@/hooks/use_toast';
+import { cn } from '@/lib/utils';
+
+interface FollowNotificationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mangaId: string;
+  source: MangaSource;
+}
+
+function sameLanguages(a: string[], b: string[] | null): boolean {
+  return !!b && a.length === b.length && a.every((code) => b.includes(code));
+}
+
+/** Mute a followed manga, or limit its new chapter notifications to some languages and groups */
+export const FollowNotificationsDialog: React.FC<FollowNotificationsDialogProps> = ({
+  open,
+  onOpenChange,
+  mangaId,
+  source,
+}) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle><Trans>Chapter notifications</Trans></DialogTitle>
+        <DialogDescription>
+          <Trans>Choose which new chapters of this manga notify you.</Trans>
+        </DialogDescription>
+      </DialogHeader>
+      {/* Mounted only while open, so the settings are reloaded each time */}
+      <NotificationSettingsLoader mangaId={mangaId} source={source} onSaved={() => onOpenChange(false)} />
+    </DialogContent>
+  </Dialog>
+);
+
+interface NotificationSettingsLoaderProps {
+  mangaId: string;
+  source: MangaSource;
+  onSaved: () => void;
+}
+
+const NotificationSettingsLoader: React.FC<NotificationSettingsLoaderProps> = ({ mangaId, source, onSaved }) => {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['follow-notifications', source, mangaId],
+    queryFn: () => followService.getNotificationSettings(mangaId, source),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (isError || !data) {
+    return <p className="text-sm text-destructive"><Trans>Could not load the notification settings.</Trans></p>;
+  }
+  return <NotificationSettingsForm mangaId={mangaId} source={source} settings={data} onSaved={onSaved} />;
+};
+
+const NotificationSettingsForm: React.FC<NotificationSettingsLoaderProps & { settings: NotificationSettingsDetails }> = ({
+  mangaId,
+  source,
+  settings,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [muted, setMuted] = useState(settings.muted);
+  // Empty keeps following the user's preferred languages
+  const [languages, setLanguages] = useState(settings.languages);
+  const [groupIds, setGroupIds] = useState(settings.groupIds);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shownLanguages = languages.length > 0 ? languages : (settings.defaultLanguages ?? []);
+
+  const toggleLanguage = (code: string) => {
+    const next = shownLanguages.includes(code)
+      ? shownLanguages.filter((language) => language !== code)
+      : [...shownLanguages, code];
+    if (next.length === 0) return; // must keep at least one
+    setLanguages(sameLanguages(next, settings.defaultLanguages) ? [] : next);
+  };
+
+  const toggleGroup = (groupId: string, checked: boolean) => {
+    setGroupIds((current) => (checked ? [...current, groupId] : current.filter((id) => id !== groupId)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPending(true);
+    setError(null);
+    try {
+      const next = { muted, languages, groupIds };
+      await followService.updateNotificationSettings(mangaId, source, next);
+      queryClient.setQueryData<NotificationSettingsDetails>(['follow-notifications', source, mangaId], (current) =>
+        current ? { ...current, ...next } : current
+      );
+      toast({
+        title: t`Notification settings saved`,
+        description: muted ? t`You won't be notified about new chapters of this manga.` : undefined,
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : null);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <label className="flex cursor-pointer items-start gap-3">
+        <input
+          type="checkbox"
+          className="mt-0.5 h-4 w-4 accent-primary"
+          checked={muted}
+          onChange={(e) => setMuted(e.target.checked)}
+        />
+        <span className="space-y-0.5">
+          <span className="block text-sm font-medium"><Trans>Mute this manga</Trans></span>
+          <span className="block text-xs text-muted-foreground">
+            <Trans>It stays in your library, but new chapters don't notify you.</Trans>
+          </span>
+        </span>
+      </label>
+
+      {source === 'MANGADEX' && (
+        <fieldset disabled={muted} className={cn('space-y-5', muted && 'opacity-50')}>
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold"><Trans>Languages</Trans></h3>
+            <div className="flex flex-wrap gap-2">
+              {SUPPORTED_LANGUAGES.map((language) => {
+                const selected = shownLanguages.includes(language.code);
+                return (
+                  <button
+                    key={language.code}
+                    type="button"
+                    onClick={() => toggleLanguage(language.code)}
+                    className={cn(
+                      'flex items-center gap-2 rounded-full border px-3 py-1.5 text-sm font-medium transition-colors',
+                      selected
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border bg-background text-foreground hover:bg-muted'
+                    )}
+                  >
+                    <img src={language.flag} alt={language.label} className="h-4 w-5 rounded-sm object-cover" />
+                    {language.nativeLabel}
+                  </button>
+                );
+              })}
+            </div>
+            {languages.length > 0 ? (
+              <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => setLanguages([])}>
+                <Trans>Use my preferred languages</Trans>
+              </Button>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {settings.defaultLanguages ? (
+                  <Trans>Following your preferred chapter languages.</Trans>
+                ) : (
+                  <Trans>Chapters in every language notify you until you pick some.</Trans>
+                )}
+              </p>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold"><Trans>Scanlation groups</Trans></h3>
+            {settings.groups.length === 0 ? (
+              <p className="text-xs text-muted-foreground"><Trans>No scanlation groups found for this manga yet.</Trans></p>
+            ) : (
+              <>
+                <ul className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                  {settings.groups.map((group) => (
+                    <li key={group.id}>
+                      <label className="flex cursor-pointer items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-primary"
+                          checked={groupIds.includes(group.id)}
+                          onChange={(e) => toggleGroup(group.id, e.target.checked)}
+                        />
+                        <span className="line-clamp-1">{group.name ?? group.id}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-muted-foreground">
+                  <Trans>Leave every group unchecked to hear about all of them.</Trans>
+                </p>
+              </>
+            )}
+          </section>
+        </fieldset>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          <Trans>Save</Trans>
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Trans } from '@lingui/react/macro';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import { PenTool, Users } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { followService, type CreatorFollow } from '@/services/follow_service';
+
+function CreatorLink({ follow }: { follow: CreatorFollow }) {
+  const className =
+    'inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors hover:bg-muted';
+  const label = follow.name ?? follow.creatorId.slice(0, 8);
+
+  if (follow.creatorType === 'AUTHOR') {
+    return (
+      <Link to="/author/$authorId" params={{ authorId: follow.creatorId }} className={className}>
+        <PenTool className="h-3.5 w-3.5 text-muted-foreground" />
+        {label}
+      </Link>
+    );
+  }
+  return (
+    <Link
+      to={follow.creatorType === 'LOCAL_GROUP' ? '/group/local/$groupId' : '/group/mangadex/$groupId'}
+      params={{ groupId: follow.creatorId }}
+      className={className}
+    >
+      <Users className="h-3.5 w-3.5 text-muted-foreground" />
+      {label}
+    </Link>
+  );
+}
+
+/** Scanlation groups and authors the user follows; nothing is shown until they follow one */
+export const FollowedCreators: React.FC = () => {
+  const { data: follows } = useQuery({
+    queryKey: ['creator-follows'],
+    queryFn: () => followService.getCreatorFollows(),
+    staleTime: 60_000,
+  });
+
+  if (!follows?.length) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base"><Trans>Groups & authors you follow</Trans></CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {follows.map((follow) => (
+          <CreatorLink key={follow.id} follow={follow} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { Download, FileCode, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { followService } from '@/services/follow_service';
+import { downloadFile } from '@/utils/historyUtils';
+import {
+  libraryToCsv,
+  libraryToJson,
+  libraryToMalXml,
+  type LibraryExportFormat,
+} from '@/utils/libraryExportUtils';
+import { useToast } from '@/hooks/use_toast';
+
+/** Download the whole library as JSON, CSV or a MyAnimeList import file */
+export const LibraryExportMenu: React.FC = () => {
+  const { toast } = useToast();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async (format: LibraryExportFormat) => {
+    setIsBusy(true);
+    try {
+      const follows = await followService.exportFollows();
+      const stamp = new Date().toISOString().slice(0, 10);
+      const count = follows.length;
+
+      if (format === 'mal') {
+        const { xml, omitted } = libraryToMalXml(follows);
+        downloadFile(xml, `library-mal-${stamp}.xml`, 'application/xml');
+        const exported = count - omitted;
+        toast({
+          title: t`Library exported`,
+          description:
+            omitted > 0
+              ? t`${exported} manga exported. ${omitted} have no MyAnimeList entry and were left out.`
+              : t`${exported} manga exported.`,
+        });
+        return;
+      }
+
+      if (format === 'csv') {
+        downloadFile(libraryToCsv(follows), `library-${stamp}.csv`, 'text/csv');
+      } else {
+        downloadFile(libraryToJson(follows), `library-${stamp}.json`, 'application/json');
+      }
+      toast({ title: t`Library exported`, description: t`${count} manga exported.` });
+    } catch {
+      toast({ title: t`Could not export library`, description: t`Please try again.`, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={isBusy}>
+          {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          <Trans>Export</Trans>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport('json')}>
+          <FileJson className="mr-2 h-4 w-4" />
+          <Trans>Export as JSON</Trans>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('csv')}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          <Trans>Export as CSV</Trans>
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport('mal')}>
+          <FileCode className="mr-2 h-4 w-4" />
+          <Trans>Export for MyAnimeList (XML)</Trans>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,412 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { useQuery } from '@tanstack/react-query';
+import { BookOpen, CheckCircle2, FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { followService, type ImportJob, type ImportMatch } from '@/services/follow_service';
+import { MAX_IMPORT_ENTRIES, parseLibraryFile } from '@/utils/libraryImportUtils';
+import { cn } from '@/lib/utils';
+
+type Step =
+  | { kind: 'pick' }
+  | { kind: 'matching'; jobId: string; skipped: number }
+  | { kind: 'review'; matches: ImportMatch[]; skipped: number }
+  | { kind: 'importing'; jobId: string }
+  | { kind: 'done'; created: number; skipped: number };
+
+const POLL_INTERVAL_MS = 2000;
+
+interface LibraryImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called once follows were created, so the library can refresh */
+  onImported: () => void;
+}
+
+/**
+ * Import a MyAnimeList or AniList library: the export is matched to MangaDex on the server,
+ * uncertain matches are reviewed here, then the chosen manga are followed in the background.
+ */
+export const LibraryImportDialog: React.FC<LibraryImportDialogProps> = ({ open, onOpenChange, onImported }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+      {/* Mounted only while open, so each import starts from the file picker */}
+      <LibraryImport onClose={() => onOpenChange(false)} onImported={onImported} />
+    </DialogContent>
+  </Dialog>
+);
+
+/** Poll an import job until it finishes */
+function useImportJob(jobId: string) {
+  return useQuery({
+    queryKey: ['library-import', jobId],
+    queryFn: () => followService.getImportJob(jobId),
+    refetchInterval: (query) => {
+      const state = query.state.data?.state;
+      return state === 'completed' || state === 'failed' ? false : POLL_INTERVAL_MS;
+    },
+  });
+}
+
+/** MAL offers its export gzipped; browsers can unpack it without a library */
+async function readExportFile(file: File): Promise<string> {
+  if (file.name.endsWith('.gz')) {
+    return new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+  }
+  return file.text();
+}
+
+const LibraryImport: React.FC<{ onClose: () => void; onImported: () => void }> = ({ onClose, onImported }) => {
+  const [step, setStep] = useState<Step>({ kind: 'pick' });
+
+  switch (step.kind) {
+    case 'pick':
+      return <PickFile onStarted={(jobId, skipped) => setStep({ kind: 'matching', jobId, skipped })} />;
+    case 'matching':
+      return (
+        <JobProgress
+          jobId={step.jobId}
+          title={t`Finding your manga on MangaDex`}
+          onDone={(result) => {
+            if (result && 'matches' in result) setStep({ kind: 'review', matches: result.matches, skipped: step.skipped });
+          }}
+        />
+      );
+    case 'review':
+      return (
+        <ReviewMatches
+          matches={step.matches}
+          skipped={step.skipped}
+          onStarted={(jobId) => setStep({ kind: 'importing', jobId })}
+        />
+      );
+    case 'importing':
+      return (
+        <JobProgress
+          jobId={step.jobId}
+          title={t`Adding manga to your library`}
+          onDone={(result) => {
+            if (result && 'created' in result) {
+              setStep({ kind: 'done', created: result.created, skipped: result.skipped });
+              onImported();
+            }
+          }}
+        />
+      );
+    case 'done': {
+      const { created, skipped } = step;
+      return (
+        <>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-green-500" />
+              <Trans>Import finished</Trans>
+            </DialogTitle>
+            <DialogDescription>
+              {skipped > 0 ? (
+                <Trans>{created} manga added to your library. {skipped} were already followed.</Trans>
+              ) : (
+                <Trans>{created} manga added to your library.</Trans>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={onClose}><Trans>Done</Trans></Button>
+          </DialogFooter>
+        </>
+      );
+    }
+  }
+};
+
+const PickFile: React.FC<{ onStarted: (jobId: string, skipped: number) => void }> = ({ onStarted }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsPending(true);
+    setError(null);
+    try {
+      let library;
+      try {
+        library = parseLibraryFile(await readExportFile(file));
+      } catch {
+        setError(t`The file is not a MyAnimeList XML or AniList JSON export.`);
+        return;
+      }
+      if (library.entries.length === 0) {
+        setError(t`The file does not contain any manga.`);
+        return;
+      }
+      if (library.entries.length > MAX_IMPORT_ENTRIES) {
+        setError(t`The file has ${library.entries.length} manga; at most ${MAX_IMPORT_ENTRIES} can be imported at once.`);
+        return;
+      }
+      const jobId = await followService.startImportMatch(library.source, library.entries);
+      onStarted(jobId, library.skipped);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t`Something went wrong.`);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle><Trans>Import your library</Trans></DialogTitle>
+        <DialogDescription>
+          <Trans>
+            Bring your manga list from another site. Each manga is looked up on MangaDex and followed with its
+            reading status.
+          </Trans>
+        </DialogDescription>
+      </DialogHeader>
+
+      <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+        <li><Trans>MyAnimeList: the XML file from "Export My List" (.xml or .xml.gz).</Trans></li>
+        <li><Trans>AniList: a JSON export of your manga list.</Trans></li>
+      </ul>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button onClick={() => fileInputRef.current?.click()} disabled={isPending}>
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+          <Trans>Choose file…</Trans>
+        </Button>
+      </DialogFooter>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xml,.gz,.json,application/xml,text/xml,application/json,application/gzip"
+        className="hidden"
+        onChange={handleFile}
+      />
+    </>
+  );
+};
+
+const JobProgress: React.FC<{
+  jobId: string;
+  title: string;
+  onDone: (result: ImportJob['result']) => void;
+}> = ({ jobId, title, onDone }) => {
+  const { data: job, error } = useImportJob(jobId);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    if (job?.state === 'completed') onDoneRef.current(job.result);
+  }, [job?.state, job?.result]);
+
+  const processed = job?.progress?.processed ?? 0;
+  const total = job?.progress?.total ?? 0;
+  const percent = total > 0 ? Math.round((processed / total) * 100) : 0;
+  const failed = !!error || job?.state === 'failed';
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>
+          <Trans>This runs on the server. You can keep this window open to follow along.</Trans>
+        </DialogDescription>
+      </DialogHeader>
+
+      {failed ? (
+        <p className="text-sm text-destructive">
+          {job?.failedReason ?? (error instanceof Error ? error.message : null) ?? t`The import failed. Please try again.`}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {!job || job.state === 'waiting' || job.state === 'delayed' || total === 0 ? (
+              <Trans>Waiting to start…</Trans>
+            ) : (
+              <Trans>{processed} of {total}</Trans>
+            )}
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
+
+const CandidateButton: React.FC<{
+  candidate: ImportMatch['candidates'][number];
+  selected: boolean;
+  onSelect: () => void;
+}> = ({ candidate, selected, onSelect }) => (
+  <button
+    type="button"
+    onClick={onSelect}
+    className={cn(
+      'flex w-28 shrink-0 flex-col gap-1 rounded-md border p-1.5 text-left text-xs transition-colors',
+      selected ? 'border-primary bg-primary/10' : 'hover:bg-accent'
+    )}
+  >
+    <div className="flex aspect-[3/4] w-full items-center justify-center overflow-hidden rounded bg-muted">
+      {candidate.coverUrl ? (
+        <img src={candidate.coverUrl} alt={candidate.title} className="h-full w-full object-cover" loading="lazy" />
+      ) : (
+        <BookOpen className="h-6 w-6 text-muted-foreground/30" />
+      )}
+    </div>
+    <span className="line-clamp-2 font-medium">{candidate.title}</span>
+    {candidate.year && <span className="text-muted-foreground">{candidate.year}</span>}
+  </button>
+);
+
+const ReviewMatches: React.FC<{
+  matches: ImportMatch[];
+  skipped: number;
+  onStarted: (jobId: string) => void;
+}> = ({ matches, skipped, onStarted }) => {
+  // The manga chosen for each entry, by entry index; null skips the entry
+  const [choices, setChoices] = useState<(string | null)[]>(() => matches.map((match) => match.mangaId ?? null));
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const indexed = matches.map((match, index) => ({ match, index }));
+  const ambiguous = indexed.filter(({ match }) => match.state === 'AMBIGUOUS');
+  const matched = indexed.filter(({ match }) => match.state === 'MATCHED');
+  const unmatched = indexed.filter(({ match }) => match.state === 'UNMATCHED');
+  const selectedCount = choices.filter(Boolean).length;
+  const unmatchedCount = unmatched.length;
+
+  const choose = (index: number, mangaId: string | null) =>
+    setChoices((current) => current.map((choice, i) => (i === index ? mangaId : choice)));
+
+  const handleImport = async () => {
+    setIsPending(true);
+    setError(null);
+    try {
+      const items = matches.flatMap((match, index) => {
+        const mangaId = choices[index];
+        return mangaId ? [{ mangaId, status: match.entry.status }] : [];
+      });
+      onStarted(await followService.startImport(items));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t`Something went wrong.`);
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle><Trans>Review matches</Trans></DialogTitle>
+        <DialogDescription>
+          <Trans>
+            {matched.length} found, {ambiguous.length} need your choice, {unmatchedCount} not found on MangaDex.
+          </Trans>
+          {skipped > 0 && (
+            <>
+              {' '}
+              <Trans>{skipped} entries in the file were skipped.</Trans>
+            </>
+          )}
+        </DialogDescription>
+      </DialogHeader>
+
+      {ambiguous.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold"><Trans>Pick the right manga</Trans></h3>
+          {ambiguous.map(({ match, index }) => (
+            <div key={index} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium line-clamp-1">{match.entry.title}</p>
+                <Button
+                  variant={choices[index] === null ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => choose(index, null)}
+                >
+                  <Trans>Skip</Trans>
+                </Button>
+              </div>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {match.candidates.map((candidate) => (
+                  <CandidateButton
+                    key={candidate.id}
+                    candidate={candidate}
+                    selected={choices[index] === candidate.id}
+                    onSelect={() => choose(index, candidate.id)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {matched.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold"><Trans>Found</Trans></h3>
+          <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md border p-2">
+            {matched.map(({ match, index }) => (
+              <li key={index}>
+                <label className="flex cursor-pointer items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    checked={choices[index] !== null}
+                    onChange={(e) => choose(index, e.target.checked ? (match.mangaId ?? null) : null)}
+                  />
+                  <span className="line-clamp-1 flex-1">{match.entry.title}</span>
+                  {match.candidates[0] && match.candidates[0].title !== match.entry.title && (
+                    <span className="line-clamp-1 max-w-[40%] text-xs text-muted-foreground">
+                      {match.candidates[0].title}
+                    </span>
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {unmatched.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold"><Trans>Not found</Trans></h3>
+          <div className="flex flex-wrap gap-1">
+            {unmatched.map(({ match, index }) => (
+              <Badge key={index} variant="outline" className="font-normal">
+                {match.entry.title}
+              </Badge>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button onClick={handleImport} disabled={selectedCount === 0 || isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          <Trans>Follow {selectedCount} manga</Trans>
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { CalendarX, FileJson, FileSpreadsheet, Loader2, Settings2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useHistoryManagement } from '@/hooks/useReadingHistory';
+import { useToast } from '@/hooks/use_toast';
+import type { HistoryExportFormat } from '@/utils/historyUtils';
+
+/** Local midnight of a YYYY-MM-DD date input value */
+function startOfDay(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Export, import and delete-by-date actions for the reading history page */
+export const HistoryManageMenu: React.FC = () => {
+  const { exportHistory, importHistory, deleteHistory } = useHistoryManagement();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [rangeOpen, setRangeOpen] = useState(false);
+
+  const handleExport = async (format: HistoryExportFormat) => {
+    setIsBusy(true);
+    try {
+      const count = await exportHistory(format);
+      toast({ title: t`History exported`, description: t`${count} chapters exported.` });
+    } catch {
+      toast({ title: t`Could not export history`, description: t`Please try again.`, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const { imported, skipped } = await importHistory(file);
+      toast({
+        title: t`History imported`,
+        description:
+          skipped > 0
+            ? t`${imported} chapters imported, ${skipped} unreadable rows skipped.`
+            : t`${imported} chapters imported.`,
+      });
+    } catch {
+      toast({
+        title: t`Could not import history`,
+        description: t`The file is not a reading history export.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isBusy}>
+            {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Settings2 className="mr-2 h-4 w-4" />}
+            <Trans>Manage</Trans>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => handleExport('json')}>
+            <FileJson className="mr-2 h-4 w-4" />
+            <Trans>Export as JSON</Trans>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => handleExport('csv')}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            <Trans>Export as CSV</Trans>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            <Trans>Import from file…</Trans>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setRangeOpen(true)} className="text-destructive focus:text-destructive">
+            <CalendarX className="mr-2 h-4 w-4" />
+            <Trans>Delete a date range…</Trans>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        className="hidden"
+        onChange={handleImport}
+      />
+
+      <Dialog open={rangeOpen} onOpenChange={setRangeOpen}>
+        <DialogContent>
+          {/* Mounted only while open, so the dates start empty each time */}
+          <DeleteRangeForm
+            onDelete={async (from, to) => {
+              await deleteHistory({ from, to });
+              setRangeOpen(false);
+              toast({ title: t`History deleted`, description: t`Chapters read in that period were removed.` });
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const DeleteRangeForm: React.FC<{ onDelete: (from: Date, to: Date) => Promise<void> }> = ({ onDelete }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState(false);
+  const isValid = !!from && !!to && from <= to;
+
+  const handleDelete = async () => {
+    if (!isValid) return;
+    setIsPending(true);
+    setError(false);
+    try {
+      // Both days are included, so the range ends at the midnight after `to`
+      const end = startOfDay(to);
+      end.setDate(end.getDate() + 1);
+      await onDelete(startOfDay(from), end);
+    } catch {
+      setError(true);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle><Trans>Delete a date range</Trans></DialogTitle>
+        <DialogDescription>
+          <Trans>Chapters read between these days, both included, will be permanently deleted.</Trans>
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="history-range-from"><Trans>From</Trans></Label>
+          <Input id="history-range-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="history-range-to"><Trans>To</Trans></Label>
+          <Input id="history-range-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive"><Trans>Could not delete history. Please try again.</Trans></p>
+      )}
+
+      <DialogFooter>
+        <Button variant="destructive" onClick={handleDelete} disabled={!isValid || isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          <Trans>Delete</Trans>
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
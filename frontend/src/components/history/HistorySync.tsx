@@ -0,0 +1,7 @@
+import { useHistorySync } from '@/hooks/useReadingHistory';
+
+/** Keeps the device reading history in step with the account; renders nothing */
+export function HistorySync() {
+  useHistorySync();
+  return null;
+}
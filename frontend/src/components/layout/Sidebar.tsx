@@ -19,6 +19,10 @@ import {
   LogIn,
   RefreshCw,
   History,
+  Bookmark,
+  HardDriveDownload,
+  BarChart3,
+  ListOrdered,
 } from "lucide-react"
 
 interface SidebarProps extends React.HTMLAttributes<HTMLDivElement> {
@@ -42,6 +46,11 @@ const navigationItems = [
     href: "/favorites",
     icon: Heart,
   },
+  {
+    title: <Trans>Lists</Trans>,
+    href: "/lists",
+    icon: ListOrdered,
+  },
   {
     title: <Trans>Latest Updates</Trans>,
     href: "/latest-updates",
@@ -52,6 +61,21 @@ const navigationItems = [
     href: "/reading-history",
     icon: History,
   },
+  {
+    title: <Trans>My Stats</Trans>,
+    href: "/stats",
+    icon: BarChart3,
+  },
+  {
+    title: <Trans>Bookmarks</Trans>,
+    href: "/bookmarks",
+    icon: Bookmark,
+  },
+  {
+    title: <Trans>Offline Library</Trans>,
+    href: "/offline",
+    icon: HardDriveDownload,
+  },
 ]
 
 const accountItems = [
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ListPlus, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ListFormDialog } from '@/components/lists/ListFormDialog';
+import { listService, type CustomListSummary, type ListMangaData } from '@/services/list_service';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use_toast';
+
+interface AddToListButtonProps extends ListMangaData {
+  variant?: 'default' | 'outline' | 'ghost' | 'secondary';
+  size?: 'default' | 'sm' | 'lg' | 'icon';
+  className?: string;
+}
+
+/**
+ * Pick the custom lists a manga belongs to. Each list toggles on its own, and a new list can be
+ * created from the menu with the manga already in it. Hidden for guests.
+ */
+const AddToListButton: React.FC<AddToListButtonProps> = ({
+  variant = 'outline',
+  size = 'default',
+  className = '',
+  ...manga
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [pendingListId, setPendingListId] = useState<string | null>(null);
+
+  const listsQueryKey = ['lists', 'manga', manga.source, manga.mangaId];
+  const { data: lists, isLoading } = useQuery({
+    queryKey: listsQueryKey,
+    queryFn: () => listService.getUserLists({ mangaId: manga.mangaId, source: manga.source }),
+    enabled: open && !!user,
+  });
+
+  if (!user) return null;
+
+  const showError = (err: unknown) => {
+    toast({
+      title: t`Error`,
+      description: err instanceof Error ? err.message : t`Something went wrong.`,
+      variant: 'destructive',
+    });
+  };
+
+  const handleToggle = async (list: CustomListSummary) => {
+    setPendingListId(list.id);
+    try {
+      if (list.containsManga) {
+        await listService.removeManga(list.id, manga.mangaId, manga.source);
+        toast({ title: t`Removed from ${list.name}` });
+      } else {
+        await listService.addManga(list.id, manga);
+        toast({ title: t`Added to ${list.name}` });
+      }
+      queryClient.setQueryData<CustomListSummary[]>(listsQueryKey, (current) =>
+        current?.map((item) => (item.id === list.id ? { ...item, containsManga: !list.containsManga } : item))
+      );
+      queryClient.invalidateQueries({ queryKey: ['lists'] });
+    } catch (err) {
+      showError(err);
+    } finally {
+      setPendingListId(null);
+    }
+  };
+
+  const handleCreated = async (list: CustomListSummary) => {
+    setCreateOpen(false);
+    try {
+      await listService.addManga(list.id, manga);
+      toast({ title: t`Added to ${list.name}` });
+    } catch (err) {
+      showError(err);
+    }
+    queryClient.invalidateQueries({ queryKey: ['lists'] });
+  };
+
+  return (
+    <>
+      <DropdownMenu open={open} onOpenChange={setOpen}>
+        <DropdownMenuTrigger asChild>
+          <Button variant={variant} size={size} className={className} title={t`Add to list`}>
+            <ListPlus className={size === 'icon' ? 'h-4 w-4' : 'mr-2 h-4 w-4'} />
+            {size !== 'icon' && <Trans>Add to list</Trans>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          <DropdownMenuLabel><Trans>Your lists</Trans></DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {isLoading && (
+            <div className="flex justify-center py-3">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {lists?.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground"><Trans>You have no lists yet.</Trans></p>
+          )}
+          <div className="max-h-64 overflow-y-auto">
+            {lists?.map((list) => (
+              <DropdownMenuCheckboxItem
+                key={list.id}
+                checked={!!list.containsManga}
+                disabled={pendingListId === list.id}
+                // Keep the menu open so several lists can be toggled
+                onSelect={(e) => {
+                  e.preventDefault();
+                  handleToggle(list);
+                }}
+              >
+                <span className="truncate">{list.name}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            <Trans>New list…</Trans>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ListFormDialog open={createOpen} onOpenChange={setCreateOpen} onSaved={handleCreated} />
+    </>
+  );
+};
+
+export default AddToListButton;
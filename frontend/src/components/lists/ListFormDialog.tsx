@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { useLingui } from '@lingui/react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  listService,
+  LIST_VISIBILITIES,
+  type CustomListSummary,
+  type ListVisibility,
+} from '@/services/list_service';
+import { LIST_VISIBILITY_DESCRIPTIONS, LIST_VISIBILITY_LABELS } from '@/utils/listVisibilityUtils';
+
+interface ListFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The list to edit; a new list is created when absent */
+  list?: Pick<CustomListSummary, 'id' | 'name' | 'description' | 'visibility'>;
+  onSaved: (list: CustomListSummary) => void;
+}
+
+/** Create or edit a custom list's name, description and visibility */
+export const ListFormDialog: React.FC<ListFormDialogProps> = ({ open, onOpenChange, list, onSaved }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent>
+      {/* Mounted only while open, so the fields start from the list each time */}
+      <ListForm list={list} onSaved={onSaved} />
+    </DialogContent>
+  </Dialog>
+);
+
+const ListForm: React.FC<Pick<ListFormDialogProps, 'list' | 'onSaved'>> = ({ list, onSaved }) => {
+  const { _ } = useLingui();
+  const [name, setName] = useState(list?.name ?? '');
+  const [description, setDescription] = useState(list?.description ?? '');
+  const [visibility, setVisibility] = useState<ListVisibility>(list?.visibility ?? 'PRIVATE');
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsPending(true);
+    setError(null);
+    try {
+      const data = { name: name.trim(), description: description.trim() || null, visibility };
+      const saved = list ? await listService.updateList(list.id, data) : await listService.createList(data);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : null);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>{list ? <Trans>Edit list</Trans> : <Trans>New list</Trans>}</DialogTitle>
+        <DialogDescription>
+          <Trans>Lists can hold manga from MangaDex and from this site.</Trans>
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="list-name"><Trans>Name</Trans></Label>
+        <Input id="list-name" value={name} maxLength={100} onChange={(e) => setName(e.target.value)} autoFocus />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="list-description"><Trans>Description</Trans></Label>
+        <Textarea
+          id="list-description"
+          value={description}
+          maxLength={2000}
+          rows={3}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor="list-visibility"><Trans>Visibility</Trans></Label>
+        <Select value={visibility} onValueChange={(value) => setVisibility(value as ListVisibility)}>
+          <SelectTrigger id="list-visibility" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LIST_VISIBILITIES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {_(LIST_VISIBILITY_LABELS[option])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{_(LIST_VISIBILITY_DESCRIPTIONS[visibility])}</p>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <DialogFooter>
+        <Button type="submit" disabled={!name.trim() || isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {list ? <Trans>Save</Trans> : <Trans>Create</Trans>}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
@@ -6,6 +6,7 @@ import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/h
 import { Book, Calendar } from 'lucide-react';
 import { mangaDexUtils } from '@/utils/mangaDexUtils';
 import type { Manga } from '@/types/mangadex_types';
+import AddToListButton from '@/components/lists/AddToListButton';
 
 interface MangaCardProps {
   manga: Manga;
@@ -71,6 +72,21 @@ const MangaCardComponent: React.FC<MangaCardProps> = ({ manga, onClick }) => {
                 {demographic}
               </Badge>
             )}
+            {/* Clicks in the list menu must not open the manga */}
+            <div
+              className="absolute bottom-2 right-2 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100"
+              onClick={(event) => event.stopPropagation()}
+            >
+              <AddToListButton
+                mangaId={manga.id}
+                source="MANGADEX"
+                mangaTitle={title}
+                coverUrl={coverUrl === PLACEHOLDER_COVER ? null : coverUrl}
+                variant="secondary"
+                size="icon"
+                className="h-8 w-8 bg-background/90 shadow"
+              />
+            </div>
           </div>
 
           <CardContent className="flex h-full flex-col p-4">
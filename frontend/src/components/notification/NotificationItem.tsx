@@ -1,5 +1,5 @@
 import { useNavigate } from '@tanstack/react-router';
-import { MessageSquare, BookOpen, Users, Star, Info, Trash2 } from 'lucide-react';
+import { MessageSquare, BookOpen, Users, PenTool, Star, Info, Trash2 } from 'lucide-react';
 import type { Notification } from '@/services/notification_service';
 import { cn } from '@/lib/utils';
 import { t } from '@lingui/core/macro';
@@ -34,6 +34,8 @@ function NotificationIcon({ type }: { type: Notification['type'] }) {
             return <BookOpen className={cn(iconClass, 'text-green-500')} />;
         case 'GROUP_UPLOAD':
             return <Users className={cn(iconClass, 'text-purple-500')} />;
+        case 'NEW_TITLE':
+            return <PenTool className={cn(iconClass, 'text-orange-500')} />;
         case 'FAVORITE_UPDATE':
             return <Star className={cn(iconClass, 'text-yellow-500')} />;
         case 'SYSTEM':
@@ -77,11 +79,15 @@ export function NotificationItem({ notification, onRead, onDelete, onClose }: No
                 break;
             }
             case 'NEW_CHAPTER':
+            case 'GROUP_UPLOAD':
+                // MangaDex chapters open the chapter; local ones only know the manga
                 if (payload.chapterId) {
                     navigate({ to: '/chapter/$chapterId', params: { chapterId: payload.chapterId } });
+                } else if (payload.mangaId) {
+                    navigate({ to: '/manga/$mangaId', params: { mangaId: payload.mangaId } });
                 }
                 break;
-            case 'GROUP_UPLOAD':
+            case 'NEW_TITLE':
             case 'FAVORITE_UPDATE':
                 if (payload.mangaId) {
                     navigate({ to: '/manga/$mangaId', params: { mangaId: payload.mangaId } });
@@ -0,0 +1,68 @@
+import React from 'react';
+import { t } from '@lingui/core/macro';
+import { AlertCircle, CircleCheck, Download, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { OfflineDownloadProgress } from '@/store/offlineAtoms';
+
+interface ChapterDownloadButtonProps {
+  isDownloaded: boolean;
+  progress?: OfflineDownloadProgress;
+  onDownload: () => void;
+  className?: string;
+}
+
+/** Small per-chapter download toggle: idle icon, live progress, or a check once it is offline */
+const ChapterDownloadButton: React.FC<ChapterDownloadButtonProps> = ({
+  isDownloaded,
+  progress,
+  onDownload,
+  className,
+}) => {
+  const isBusy = progress?.status === 'queued' || progress?.status === 'downloading';
+  const isDone = isDownloaded || progress?.status === 'complete';
+  const isError = !isDone && !isBusy && progress?.status === 'error';
+
+  const label = isDone
+    ? t`Available offline`
+    : isBusy
+      ? t`Downloading...`
+      : isError
+        ? t`Download failed, click to retry`
+        : t`Download chapter`;
+
+  return (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      disabled={isDone || isBusy}
+      // Rendered inside clickable chapter rows, which must not open the chapter
+      onClick={(e) => {
+        e.stopPropagation();
+        onDownload();
+      }}
+      className={cn(
+        'flex items-center gap-1 rounded-full p-1.5 text-xs transition-colors',
+        isDone ? 'text-emerald-500' : 'text-muted-foreground hover:bg-accent hover:text-primary',
+        className
+      )}
+    >
+      {isDone ? (
+        <CircleCheck className="h-4 w-4" />
+      ) : isBusy ? (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {progress && progress.total > 0 && (
+            <span className="tabular-nums">{Math.round((progress.done / progress.total) * 100)}%</span>
+          )}
+        </>
+      ) : isError ? (
+        <AlertCircle className="h-4 w-4 text-red-500" />
+      ) : (
+        <Download className="h-4 w-4" />
+      )}
+    </button>
+  );
+};
+
+export default ChapterDownloadButton;
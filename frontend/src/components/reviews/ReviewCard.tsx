@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { Star, ThumbsUp } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { Review } from '@/services/review_service';
+import { formatRelativeTime } from '@/utils/mangaDexUtils';
+import { cn } from '@/lib/utils';
+
+interface ReviewCardProps {
+  review: Review;
+  /** Hidden for guests and on the viewer's own review */
+  canVote: boolean;
+  isVoting: boolean;
+  onToggleHelpful: (review: Review) => void;
+}
+
+/** One written review; spoilers stay blurred until the reader asks to see them */
+export const ReviewCard: React.FC<ReviewCardProps> = ({ review, canVote, isVoting, onToggleHelpful }) => {
+  const [revealed, setRevealed] = useState(false);
+  const hidden = review.isSpoiler && !revealed;
+  const name = review.user.displayName || t`Anonymous`;
+
+  return (
+    <article className="space-y-3 rounded-xl border border-border p-4">
+      <header className="flex items-center gap-3">
+        <Avatar className="h-9 w-9">
+          <AvatarImage src={review.user.profilePicture || undefined} />
+          <AvatarFallback>{name[0]?.toUpperCase() || 'U'}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm font-semibold text-foreground">{name}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatRelativeTime(review.createdAt)}
+            {review.updatedAt !== review.createdAt && <> · <Trans>edited</Trans></>}
+          </p>
+        </div>
+        {review.isSpoiler && (
+          <Badge variant="outline" className="border-amber-500/50 text-amber-600 dark:text-amber-400">
+            <Trans>Spoilers</Trans>
+          </Badge>
+        )}
+        <span className="flex items-center gap-1 text-sm font-semibold text-foreground">
+          <Star className="h-4 w-4 fill-amber-500 text-amber-500" />
+          {review.score}/10
+        </span>
+      </header>
+
+      <div className="relative">
+        <p
+          className={cn(
+            'whitespace-pre-line break-words text-sm text-foreground/90',
+            hidden && 'pointer-events-none select-none blur-sm',
+          )}
+          aria-hidden={hidden}
+        >
+          {review.content}
+        </p>
+        {hidden && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Button variant="secondary" size="sm" onClick={() => setRevealed(true)}>
+              <Trans>Show spoilers</Trans>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <footer className="flex items-center gap-2 text-xs text-muted-foreground">
+        {canVote ? (
+          <Button
+            variant={review.votedHelpful ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 px-2"
+            disabled={isVoting}
+            onClick={() => onToggleHelpful(review)}
+          >
+            <ThumbsUp className={cn('mr-1 h-3.5 w-3.5', review.votedHelpful && 'fill-current')} />
+            <Trans>Helpful</Trans>
+          </Button>
+        ) : null}
+        {review.helpfulCount > 0 && (
+          <span><Trans>{review.helpfulCount} found this helpful</Trans></span>
+        )}
+      </footer>
+    </article>
+  );
+};
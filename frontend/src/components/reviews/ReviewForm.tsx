@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MAX_SCORE, MIN_SCORE, type Review, type ReviewData } from '@/services/review_service';
+import { cn } from '@/lib/utils';
+
+const SCORES = Array.from({ length: MAX_SCORE - MIN_SCORE + 1 }, (_, i) => MIN_SCORE + i);
+
+interface ReviewFormProps {
+  /** The user's current rating; the form starts empty without one */
+  review: Review | null;
+  isSaving: boolean;
+  onSave: (data: Omit<ReviewData, 'mangaId' | 'source'>) => void;
+  onDelete: () => void;
+}
+
+/** Score the manga from 1 to 10, optionally with a written review */
+export const ReviewForm: React.FC<ReviewFormProps> = ({ review, isSaving, onSave, onDelete }) => {
+  const [score, setScore] = useState<number | null>(review?.score ?? null);
+  const [content, setContent] = useState(review?.content ?? '');
+  const [isSpoiler, setIsSpoiler] = useState(review?.isSpoiler ?? false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (score === null) return;
+    onSave({ score, content: content.trim() || null, isSpoiler });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-xl border border-border bg-muted/30 p-4">
+      <p className="text-sm font-semibold text-foreground">
+        {review ? <Trans>Your rating</Trans> : <Trans>Rate this manga</Trans>}
+      </p>
+      <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label={t`Score`}>
+        {SCORES.map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={score === value}
+            onClick={() => setScore(value)}
+            className={cn(
+              'h-8 w-8 rounded-md border text-sm font-medium transition-colors',
+              score !== null && value <= score
+                ? 'border-amber-500 bg-amber-500 text-white'
+                : 'border-border bg-background text-muted-foreground hover:border-amber-500/60',
+            )}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={t`Write a review (optional)`}
+        maxLength={10000}
+        rows={4}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex cursor-pointer items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={isSpoiler}
+            disabled={!content.trim()}
+            onChange={(e) => setIsSpoiler(e.target.checked)}
+          />
+          <Trans>Contains spoilers</Trans>
+        </label>
+        <div className="flex gap-2">
+          {review && (
+            <Button type="button" variant="ghost" size="sm" disabled={isSaving} onClick={onDelete}>
+              <Trash2 className="mr-1 h-4 w-4" />
+              <Trans>Remove</Trans>
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={score === null || isSaving}>
+            {isSaving && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            {review ? <Trans>Update</Trans> : <Trans>Submit</Trans>}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
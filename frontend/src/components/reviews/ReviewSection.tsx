@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { t } from '@lingui/core/macro';
+import { Trans } from '@lingui/react/macro';
+import { useInfiniteQuery, useQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { Loader2, MessageSquareText, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ReviewCard } from '@/components/reviews/ReviewCard';
+import { ReviewForm } from '@/components/reviews/ReviewForm';
+import {
+  MAX_SCORE,
+  MIN_SCORE,
+  reviewService,
+  type Review,
+  type ReviewData,
+  type ReviewSort,
+  type ReviewsPage,
+} from '@/services/review_service';
+import type { MangaSource } from '@/services/follow_service';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use_toast';
+import { cn } from '@/lib/utils';
+
+/** MangaDex rating statistics, as merged into the manga by the backend */
+interface MangaDexRating {
+  average?: number | null;
+  bayesian?: number | null;
+  distribution?: Record<string, number> | null;
+}
+
+interface ReviewSectionProps {
+  mangaId: string;
+  source: MangaSource;
+  mangadexRating?: MangaDexRating | null;
+}
+
+const SCORES_DESC = Array.from({ length: MAX_SCORE - MIN_SCORE + 1 }, (_, i) => MAX_SCORE - i);
+
+function ScoreDistribution({ distribution, barClassName }: { distribution: Record<string, number>; barClassName: string }) {
+  const maxCount = Math.max(...SCORES_DESC.map((score) => distribution[String(score)] ?? 0), 1);
+  return (
+    <div className="space-y-1">
+      {SCORES_DESC.map((score) => {
+        const count = distribution[String(score)] ?? 0;
+        return (
+          <div key={score} className="flex items-center gap-2 text-xs">
+            <span className="w-4 shrink-0 text-right text-muted-foreground">{score}</span>
+            <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted/60">
+              <div className={cn('h-full rounded-full', barClassName)} style={{ width: `${(count / maxCount) * 100}%` }} />
+            </div>
+            <span className="w-8 shrink-0 text-right tabular-nums text-muted-foreground">{count}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ScoreHeading({ score, label, detail }: { score: number | null | undefined; label: React.ReactNode; detail: React.ReactNode }) {
+  return (
+    <div className="mb-3 flex items-center gap-3">
+      <Star className="h-6 w-6 text-amber-500" />
+      <div>
+        <p className="text-xl font-semibold text-foreground">{typeof score === 'number' ? score.toFixed(2) : '—'}</p>
+        <p className="text-xs uppercase tracking-wide text-muted-foreground">{label}</p>
+      </div>
+      <p className="ml-auto text-xs text-muted-foreground">{detail}</p>
+    </div>
+  );
+}
+
+/**
+ * Reviews tab: our users' score next to MangaDex's, the viewer's own rating, and written
+ * reviews sorted by helpfulness or date.
+ */
+export const ReviewSection: React.FC<ReviewSectionProps> = ({ mangaId, source, mangadexRating }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [isSaving, setIsSaving] = useState(false);
+  const [votingId, setVotingId] = useState<string | null>(null);
+
+  const baseKey = ['reviews', source, mangaId];
+  const listKey = [...baseKey, 'list', sort];
+
+  const { data: summary, isLoading: isSummaryLoading } = useQuery({
+    queryKey: [...baseKey, 'summary'],
+    queryFn: () => reviewService.getRatingSummary(mangaId, source),
+  });
+
+  const { data: myReview, isLoading: isMyReviewLoading } = useQuery({
+    queryKey: [...baseKey, 'mine'],
+    queryFn: () => reviewService.getUserReview(mangaId, source),
+    enabled: !!user,
+  });
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: listKey,
+    queryFn: ({ pageParam }) => reviewService.getReviews(mangaId, source, sort, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const reviews = data?.pages.flatMap((page) => page.reviews) ?? [];
+
+  const showError = (err: unknown) => {
+    toast({
+      title: t`Error`,
+      description: err instanceof Error ? err.message : t`Something went wrong.`,
+      variant: 'destructive',
+    });
+  };
+
+  const handleSave = async (review: Omit<ReviewData, 'mangaId' | 'source'>) => {
+    setIsSaving(true);
+    try {
+      await reviewService.saveReview({ mangaId, source, ...review });
+      toast({ title: myReview ? t`Rating updated` : t`Thanks for rating!` });
+      await queryClient.invalidateQueries({ queryKey: baseKey });
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    try {
+      await reviewService.deleteReview(mangaId, source);
+      toast({ title: t`Rating removed` });
+      queryClient.setQueryData([...baseKey, 'mine'], null);
+      await queryClient.invalidateQueries({ queryKey: baseKey });
+    } catch (err) {
+      showError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleHelpful = async (review: Review) => {
+    setVotingId(review.id);
+    try {
+      const helpful = !review.votedHelpful;
+      const helpfulCount = await reviewService.setHelpful(review.id, helpful);
+      queryClient.setQueryData<InfiniteData<ReviewsPage, string | undefined>>(listKey, (current) =>
+        current && {
+          ...current,
+          pages: current.pages.map((page) => ({
+            ...page,
+            reviews: page.reviews.map((r) => (r.id === review.id ? { ...r, votedHelpful: helpful, helpfulCount } : r)),
+          })),
+        }
+      );
+    } catch (err) {
+      showError(err);
+    } finally {
+      setVotingId(null);
+    }
+  };
+
+  const mangadexCount = mangadexRating?.distribution
+    ? Object.values(mangadexRating.distribution).reduce((sum, count) => sum + count, 0)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground"><Trans>Reviews</Trans></h2>
+
+      {/* ── Scores ── */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="rounded-xl border border-border p-4">
+          {isSummaryLoading || !summary ? (
+            <Skeleton className="h-56 w-full" />
+          ) : (
+            <>
+              <ScoreHeading
+                score={summary.average}
+                label={<Trans>MangaHaven score</Trans>}
+                detail={<Trans>{summary.count} ratings</Trans>}
+              />
+              <ScoreDistribution distribution={summary.distribution} barClassName="bg-amber-500" />
+            </>
+          )}
+        </div>
+        {mangadexRating && (
+          <div className="rounded-xl border border-border p-4">
+            <ScoreHeading
+              score={mangadexRating.bayesian}
+              label={<Trans>MangaDex score</Trans>}
+              detail={<Trans>{mangadexCount} ratings</Trans>}
+            />
+            {mangadexRating.distribution ? (
+              <ScoreDistribution distribution={mangadexRating.distribution} barClassName="bg-rose-500" />
+            ) : (
+              <p className="text-xs text-muted-foreground"><Trans>No distribution data</Trans></p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* ── Own rating ── */}
+      {user && (isMyReviewLoading ? (
+        <Skeleton className="h-40 w-full" />
+      ) : (
+        <ReviewForm
+          key={myReview?.updatedAt ?? 'new'}
+          review={myReview ?? null}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onDelete={handleDelete}
+        />
+      ))}
+
+      {/* ── Written reviews ── */}
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {summary ? <Trans>{summary.reviewCount} written reviews</Trans> : null}
+        </p>
+        <div className="flex gap-1">
+          <Button variant={sort === 'helpful' ? 'secondary' : 'ghost'} size="sm" onClick={() => setSort('helpful')}>
+            <Trans>Most helpful</Trans>
+          </Button>
+          <Button variant={sort === 'recent' ? 'secondary' : 'ghost'} size="sm" onClick={() => setSort('recent')}>
+            <Trans>Newest</Trans>
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-28 w-full" />)}
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="flex flex-col items-center gap-3 rounded-xl border border-dashed border-border bg-muted/30 p-8 text-center text-muted-foreground">
+          <MessageSquareText className="h-8 w-8" />
+          <Trans>No reviews yet. Be the first to write one!</Trans>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {reviews.map((review) => (
+            <ReviewCard
+              key={review.id}
+              review={review}
+              canVote={!!user && review.userId !== user.id}
+              isVoting={votingId === review.id}
+              onToggleHelpful={handleToggleHelpful}
+            />
+          ))}
+          {hasNextPage && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                <Trans>Load more</Trans>
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useAtom } from 'jotai';
+import { ShortcutsCheatSheet } from '@/components/shortcuts/ShortcutsCheatSheet';
+import { useShortcut, useShortcutSync } from '@/hooks/useShortcuts';
+import { shortcutsHelpOpenAtom } from '@/store/settingsAtoms';
+
+/** App-wide shortcuts (cheat sheet, fullscreen) and the per-user binding sync */
+export function GlobalShortcuts() {
+  const [helpOpen, setHelpOpen] = useAtom(shortcutsHelpOpenAtom);
+
+  useShortcutSync();
+
+  const toggleHelp = useCallback(() => setHelpOpen((open) => !open), [setHelpOpen]);
+  const toggleFullscreen = useCallback(() => {
+    const request = document.fullscreenElement
+      ? document.exitFullscreen()
+      : document.documentElement.requestFullscreen();
+    request.catch((error) => console.warn('[Shortcuts] Fullscreen request failed:', error));
+  }, []);
+
+  useShortcut('showShortcuts', toggleHelp);
+  useShortcut('toggleFullscreen', toggleFullscreen);
+
+  return <ShortcutsCheatSheet open={helpOpen} onOpenChange={setHelpOpen} />;
+}
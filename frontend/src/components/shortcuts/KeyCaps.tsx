@@ -0,0 +1,22 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { formatBinding } from '@/utils/shortcutUtils';
+
+interface KeyCapsProps {
+  binding: string;
+  className?: string;
+}
+
+/** A key binding drawn as keyboard keys, e.g. [Ctrl] [→] */
+export const KeyCaps: React.FC<KeyCapsProps> = ({ binding, className }) => (
+  <span className={cn('inline-flex items-center gap-1', className)}>
+    {formatBinding(binding).map((cap) => (
+      <kbd
+        key={cap}
+        className="min-w-6 rounded border border-border bg-muted px-1.5 py-0.5 text-center font-mono text-xs text-foreground shadow-[inset_0_-1px_0] shadow-border"
+      >
+        {cap}
+      </kbd>
+    ))}
+  </span>
+);
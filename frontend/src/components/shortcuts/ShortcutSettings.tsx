@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { KeyCaps } from '@/components/shortcuts/KeyCaps';
+import { useShortcutBindings } from '@/hooks/useShortcuts';
+import { useToast } from '@/hooks/use_toast';
+import {
+  SHORTCUT_DEFINITIONS,
+  bindingFromEvent,
+  formatBinding,
+  getShortcutLabel,
+  type ShortcutAction,
+} from '@/utils/shortcutUtils';
+
+/** Settings card for rebinding shortcuts: click a binding, then press the new key */
+export const ShortcutSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { bindings, overrides, setBinding, resetBindings } = useShortcutBindings();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  const handleKeyDown = (action: ShortcutAction) => (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (recording !== action) return;
+    // Keep the key from reaching the shortcut listeners on window
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const binding = bindingFromEvent(e);
+    if (!binding) return;
+
+    const previousOwner = SHORTCUT_DEFINITIONS.find(
+      (definition) => definition.action !== action && bindings[definition.action] === binding
+    );
+    setBinding(action, binding);
+    setRecording(null);
+    if (previousOwner) {
+      const keys = formatBinding(binding).join(' + ');
+      const label = getShortcutLabel(previousOwner.action);
+      toast({
+        title: t`Shortcut reassigned`,
+        description: t`${keys} no longer triggers "${label}".`,
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5" />
+          <Trans>Keyboard Shortcuts</Trans>
+        </CardTitle>
+        <CardDescription>
+          <Trans>Click a shortcut and press the new key. Press Esc to cancel.</Trans>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y divide-border">
+          {SHORTCUT_DEFINITIONS.map(({ action }) => {
+            const binding = bindings[action];
+            const isRecording = recording === action;
+            return (
+              <li key={action} className="flex items-center justify-between gap-3 py-2">
+                <span className="text-sm text-foreground">{getShortcutLabel(action)}</span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecording(isRecording ? null : action)}
+                    onKeyDown={handleKeyDown(action)}
+                    onBlur={() => isRecording && setRecording(null)}
+                    className={`min-w-28 justify-center ${isRecording ? 'border-primary ring-2 ring-primary/30' : ''}`}
+                  >
+                    {isRecording ? (
+                      <span className="text-xs text-primary"><Trans>Press a key…</Trans></span>
+                    ) : binding ? (
+                      <KeyCaps binding={binding} />
+                    ) : (
+                      <span className="text-xs text-muted-foreground"><Trans>Not set</Trans></span>
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={!binding}
+                    onClick={() => setBinding(action, null)}
+                    title={t`Remove shortcut`}
+                    aria-label={t`Remove shortcut`}
+                    className="h-8 w-8 text-muted-foreground"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            <Trans>Shortcuts are saved to your account when you are signed in.</Trans>
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={Object.keys(overrides).length === 0}
+            onClick={resetBindings}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            <Trans>Reset to defaults</Trans>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Trans } from '@lingui/react/macro';
+import { Link } from '@tanstack/react-router';
+import { Keyboard } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { KeyCaps } from '@/components/shortcuts/KeyCaps';
+import { useShortcutBindings } from '@/hooks/useShortcuts';
+import { SHORTCUT_DEFINITIONS, getShortcutLabel, type ShortcutScope } from '@/utils/shortcutUtils';
+
+interface ShortcutsCheatSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Overlay listing every shortcut with the user's current bindings */
+export const ShortcutsCheatSheet: React.FC<ShortcutsCheatSheetProps> = ({ open, onOpenChange }) => {
+  const { bindings } = useShortcutBindings();
+
+  const renderGroup = (scope: ShortcutScope) => (
+    <ul className="divide-y divide-border">
+      {SHORTCUT_DEFINITIONS.filter((definition) => definition.scope === scope).map(({ action }) => (
+        <li key={action} className="flex items-center justify-between gap-4 py-2 text-sm">
+          <span className="text-foreground">{getShortcutLabel(action)}</span>
+          {bindings[action] ? (
+            <KeyCaps binding={bindings[action]} />
+          ) : (
+            <span className="text-xs text-muted-foreground"><Trans>Not set</Trans></span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="h-5 w-5 text-primary" />
+            <Trans>Keyboard shortcuts</Trans>
+          </DialogTitle>
+          <DialogDescription>
+            <Trans>In right-to-left manga the arrow keys follow the screen, so ← turns to the next page.</Trans>
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground"><Trans>Reader</Trans></h3>
+          {renderGroup('reader')}
+        </section>
+        <section className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground"><Trans>General</Trans></h3>
+          {renderGroup('global')}
+        </section>
+
+        <Link
+          to="/settings"
+          onClick={() => onOpenChange(false)}
+          className="text-sm font-medium text-primary hover:underline"
+        >
+          <Trans>Customize shortcuts in Settings</Trans>
+        </Link>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// A wheel turn or touch stops the scroll this long, so the reader can look back without fighting it
+const MANUAL_SCROLL_HOLD_MS = 1500;
+// Longer frame gaps (background tab, debugger) must not turn into a jump
+const MAX_FRAME_MS = 100;
+
+type AutoScrollState = 'off' | 'running' | 'paused';
+
+interface UseAutoScrollOptions {
+  getScrollElement: () => HTMLElement | null;
+  /** Pixels per second */
+  speed: number;
+  /** Turning this off (e.g. leaving scroll-vertical mode) stops auto-scroll */
+  enabled: boolean;
+  /** Keeps auto-scroll on but not moving: end of chapter, loading, an open dialog */
+  hold: boolean;
+}
+
+/**
+ * Hands-free scrolling at a steady speed. Besides explicit pause/resume, it holds while the
+ * pointer hovers a control (see setHovered) and briefly after the user scrolls by hand.
+ */
+export function useAutoScroll({ getScrollElement, speed, enabled, hold }: UseAutoScrollOptions) {
+  const [state, setState] = useState<AutoScrollState>('off');
+  const [hovered, setHovered] = useState(false);
+
+  const getScrollElementRef = useRef(getScrollElement);
+  const speedRef = useRef(speed);
+  const manualHoldUntilRef = useRef(0);
+
+  useEffect(() => {
+    getScrollElementRef.current = getScrollElement;
+    speedRef.current = speed;
+  });
+
+  useEffect(() => {
+    if (!enabled) setState('off');
+  }, [enabled]);
+
+  const isMoving = state === 'running' && enabled && !hold && !hovered;
+
+  useEffect(() => {
+    if (!isMoving) return;
+    const scrollEl = getScrollElementRef.current();
+    if (!scrollEl) return;
+
+    const holdForManualScroll = () => {
+      manualHoldUntilRef.current = performance.now() + MANUAL_SCROLL_HOLD_MS;
+    };
+    scrollEl.addEventListener('wheel', holdForManualScroll, { passive: true });
+    scrollEl.addEventListener('touchstart', holdForManualScroll, { passive: true });
+
+    let frame = 0;
+    let last = performance.now();
+    // scrollTop snaps to device pixels; the remainder carries over to the next frame
+    let carry = 0;
+    const step = (now: number) => {
+      const elapsed = Math.min(now - last, MAX_FRAME_MS);
+      last = now;
+      if (now >= manualHoldUntilRef.current) {
+        carry += (speedRef.current * elapsed) / 1000;
+        const before = scrollEl.scrollTop;
+        scrollEl.scrollTop = before + carry;
+        // At the very bottom nothing moves; don't let the remainder pile up
+        carry = Math.min(carry - (scrollEl.scrollTop - before), 2);
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      scrollEl.removeEventListener('wheel', holdForManualScroll);
+      scrollEl.removeEventListener('touchstart', holdForManualScroll);
+    };
+  }, [isMoving]);
+
+  // The controls unmount with the pointer still on them, so no leave event clears the hover
+  const start = useCallback(() => {
+    setHovered(false);
+    setState('running');
+  }, []);
+  const stop = useCallback(() => {
+    setHovered(false);
+    setState('off');
+  }, []);
+  const togglePause = useCallback(
+    () => setState((current) => (current === 'running' ? 'paused' : current === 'paused' ? 'running' : current)),
+    []
+  );
+
+  return {
+    isActive: state !== 'off',
+    isPaused: state === 'paused',
+    isMoving,
+    start,
+    stop,
+    togglePause,
+    setHovered,
+  };
+}
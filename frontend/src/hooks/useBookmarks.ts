@@ -0,0 +1,62 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { userService, type CreatePageBookmarkData } from '@/services/user_service';
+
+const bookmarksQueryKey = ['user', 'bookmarks'] as const;
+
+// A reader opens one chapter at a time; its manga rarely has more bookmarks than this
+const READER_BOOKMARK_LIMIT = 100;
+
+/** Bookmarks newest first, loaded page by page; pass a manga to list only its bookmarks */
+export function useBookmarks(mangaId?: string) {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: [...bookmarksQueryKey, 'list', mangaId ?? 'all'],
+    queryFn: ({ pageParam }) => userService.getBookmarks({ mangaId, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+  });
+}
+
+/** Bookmarks in the chapter being read, keyed by 1-based page number */
+export function useChapterBookmarks(mangaId: string, chapterId: string) {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: [...bookmarksQueryKey, 'manga', mangaId],
+    queryFn: () => userService.getBookmarks({ mangaId, limit: READER_BOOKMARK_LIMIT }),
+    enabled: !!user && !!mangaId,
+    staleTime: 60 * 1000,
+  });
+
+  const byPage = new Map(
+    (data?.bookmarks ?? [])
+      .filter((bookmark) => bookmark.externalChapterId === chapterId)
+      .map((bookmark) => [bookmark.pageNumber, bookmark]),
+  );
+  return byPage;
+}
+
+/** Create, edit and delete bookmarks; every change refreshes all bookmark lists */
+export function useBookmarkMutations() {
+  const queryClient = useQueryClient();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: bookmarksQueryKey });
+
+  const createBookmark = useMutation({
+    mutationFn: (data: CreatePageBookmarkData) => userService.createBookmark(data),
+    onSuccess,
+  });
+  const updateNote = useMutation({
+    mutationFn: ({ bookmarkId, note }: { bookmarkId: string; note: string | null }) =>
+      userService.updateBookmarkNote(bookmarkId, note),
+    onSuccess,
+  });
+  const deleteBookmark = useMutation({
+    mutationFn: (bookmarkId: string) => userService.deleteBookmark(bookmarkId),
+    onSuccess,
+  });
+
+  return { createBookmark, updateNote, deleteBookmark };
+}
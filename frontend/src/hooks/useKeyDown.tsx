@@ -1,6 +1,6 @@
 import { useEffect } from "react";
 
-type KeyCombination = {
+export type KeyCombination = {
   key?: string;
   ctrlKey?: boolean;
   altKey?: boolean;
@@ -9,10 +9,13 @@ type KeyCombination = {
 };
 
 const useKeyDown = (
-  keyCombination: string | KeyCombination,
+  keyCombination: string | KeyCombination | null,
   callback: () => void
 ) => {
   useEffect(() => {
+    // null leaves the key unbound
+    if (!keyCombination) return;
+
     const handleKeyDown = (event: KeyboardEvent) => {
       // Ignore keydown events during IME composition (important for Vietnamese input)
       // if (event.isComposing) {
@@ -0,0 +1,102 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAtomValue, useSetAtom } from 'jotai';
+import mangaService from '@/services/manga_service';
+import { offlineStorage, type OfflineChapter, type OfflineChapterMeta } from '@/lib/offlineStorage';
+import { isServiceWorkerSupported, requestChapterDownload } from '@/lib/serviceWorker';
+import { offlineDownloadsAtom, offlineLibraryVersionAtom } from '@/store/offlineAtoms';
+import { useReaderSettings } from '@/hooks/useReaderSettings';
+import { buildProxyPageUrl } from '@/utils/readerUtils';
+import type { Chapter } from '@/types/mangadex_types';
+
+/** Manga-level fields every downloaded chapter record carries */
+export interface OfflineMangaInfo {
+  mangaId: string;
+  mangaTitle: string;
+  coverUrl: string | null;
+}
+
+export function toOfflineChapterMeta(chapter: Chapter, manga: OfflineMangaInfo): OfflineChapterMeta {
+  return {
+    chapterId: chapter.id,
+    mangaId: manga.mangaId,
+    mangaTitle: manga.mangaTitle,
+    chapterNumber: chapter.attributes.chapter ?? null,
+    chapterTitle: chapter.attributes.title ?? null,
+    volume: chapter.attributes.volume ?? null,
+    translatedLanguage: chapter.attributes.translatedLanguage,
+    coverUrl: manga.coverUrl,
+  };
+}
+
+/** Downloaded chapters from IndexedDB, refetched whenever the service worker finishes one */
+export function useOfflineChapters() {
+  const version = useAtomValue(offlineLibraryVersionAtom);
+
+  return useQuery<OfflineChapter[]>({
+    queryKey: ['offline', 'chapters', version],
+    queryFn: () => offlineStorage.listChapters(),
+    enabled: typeof indexedDB !== 'undefined',
+    staleTime: Infinity,
+    // IndexedDB is local, so keep working while the browser is offline
+    networkMode: 'always',
+  });
+}
+
+/** IDs of chapters that are fully downloaded and readable offline */
+export function useOfflineChapterIds(): Set<string> {
+  const { data } = useOfflineChapters();
+  return useMemo(
+    () => new Set((data ?? []).filter((ch) => ch.status === 'complete').map((ch) => ch.chapterId)),
+    [data]
+  );
+}
+
+/**
+ * Download and delete actions for offline chapters. Pages go through the backend image proxy
+ * rather than an at-home server, whose URLs expire before a long download queue drains,
+ * at the quality the reader is currently set to.
+ */
+export function useChapterDownloads() {
+  const [settings] = useReaderSettings();
+  const progress = useAtomValue(offlineDownloadsAtom);
+  const setProgress = useSetAtom(offlineDownloadsAtom);
+  const bumpLibraryVersion = useSetAtom(offlineLibraryVersionAtom);
+  const dataSaver = settings.dataSaver;
+
+  const downloadChapters = useCallback(
+    async (chapters: Chapter[], manga: OfflineMangaInfo) => {
+      const quality = dataSaver ? 'data-saver' : 'data';
+      // External chapters are hosted elsewhere and have no pages to download
+      for (const chapter of chapters.filter((ch) => !ch.attributes.externalUrl)) {
+        const { chapter: pages } = await mangaService.getChapterPages(chapter.id);
+        const files = quality === 'data-saver' ? pages.dataSaver : pages.data;
+        const pageUrls = files.map((file) => buildProxyPageUrl(chapter.id, quality, pages.hash, file));
+        await requestChapterDownload(toOfflineChapterMeta(chapter, manga), pageUrls);
+      }
+    },
+    [dataSaver]
+  );
+
+  const deleteChapters = useCallback(
+    async (chapterIds: string[]) => {
+      for (const chapterId of chapterIds) {
+        await offlineStorage.deleteChapter(chapterId);
+      }
+      setProgress((prev) => {
+        const next = { ...prev };
+        chapterIds.forEach((id) => delete next[id]);
+        return next;
+      });
+      bumpLibraryVersion((version) => version + 1);
+    },
+    [setProgress, bumpLibraryVersion]
+  );
+
+  return {
+    isSupported: isServiceWorkerSupported(),
+    progress,
+    downloadChapters,
+    deleteChapters,
+  };
+}
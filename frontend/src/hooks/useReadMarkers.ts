@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtomValue } from 'jotai';
+import { useAuth } from '@/hooks/useAuth';
+import { userPreferencesQueryKey } from '@/hooks/useReaderSettings';
+import { userService, type ReadMarkerBatch } from '@/services/user_service';
+import { historyPausedAtom, readingHistoryAtom } from '@/store/historyAtoms';
+import type { Chapter } from '@/types/mangadex_types';
+
+const readMarkersQueryKey = ['user', 'read-markers'] as const;
+
+/**
+ * Chapters read in a manga. Logged-in users get their read markers; guests fall back to the
+ * chapters opened on this device.
+ */
+export function useReadChapterIds(mangaId: string): Set<string> {
+  const { user } = useAuth();
+  const history = useAtomValue(readingHistoryAtom);
+
+  const { data } = useQuery({
+    queryKey: [...readMarkersQueryKey, 'manga', mangaId],
+    queryFn: () => userService.getReadMarkers(mangaId),
+    enabled: !!user && !!mangaId,
+    staleTime: 60 * 1000,
+  });
+
+  return useMemo(
+    () => (user ? new Set(data ?? []) : new Set(history.map((entry) => entry.chapterId))),
+    [user, data, history]
+  );
+}
+
+/** Read chapters across several manga at once (e.g. the follow feed), as one set of chapter ids */
+export function useReadChapterIdsForManga(mangaIds: string[]): Set<string> {
+  const { user } = useAuth();
+  const history = useAtomValue(readingHistoryAtom);
+  const sortedIds = useMemo(() => [...new Set(mangaIds)].sort(), [mangaIds]);
+
+  const { data } = useQuery({
+    queryKey: [...readMarkersQueryKey, 'batch', sortedIds],
+    queryFn: () => userService.getReadMarkersByManga(sortedIds),
+    enabled: !!user && sortedIds.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  return useMemo(
+    () =>
+      user
+        ? new Set(Object.values(data ?? {}).flat())
+        : new Set(history.map((entry) => entry.chapterId)),
+    [user, data, history]
+  );
+}
+
+/** Mark chapters of a manga read/unread; the chapter list updates before the server answers */
+export function useUpdateReadMarkers(mangaId: string) {
+  const queryClient = useQueryClient();
+  const mangaKey = [...readMarkersQueryKey, 'manga', mangaId];
+
+  return useMutation({
+    mutationFn: (batch: ReadMarkerBatch) => userService.updateReadMarkers(mangaId, batch),
+    onMutate: async (batch) => {
+      await queryClient.cancelQueries({ queryKey: mangaKey });
+      const previous = queryClient.getQueryData<string[]>(mangaKey);
+      const next = new Set(previous ?? []);
+      batch.chapterIdsRead?.forEach((chapterId) => next.add(chapterId));
+      batch.chapterIdsUnread?.forEach((chapterId) => next.delete(chapterId));
+      queryClient.setQueryData(mangaKey, [...next]);
+      return { previous };
+    },
+    onError: (_error, _batch, context) => {
+      queryClient.setQueryData(mangaKey, context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: readMarkersQueryKey }),
+  });
+}
+
+/**
+ * The chapter and every loaded chapter numbered before it. Chapters without a number only
+ * include themselves, since there is no telling what comes before a oneshot.
+ */
+export function chaptersUpTo(chapters: Chapter[], target: Chapter): Chapter[] {
+  const targetNumber = parseFloat(target.attributes.chapter ?? '');
+  if (Number.isNaN(targetNumber)) return [target];
+  return chapters.filter((chapter) => {
+    const number = parseFloat(chapter.attributes.chapter ?? '');
+    return chapter.id === target.id || (!Number.isNaN(number) && number <= targetNumber);
+  });
+}
+
+/** The autoMarkAsRead preference: on unless the user turned it off; always off for guests */
+export function useAutoMarkAsReadPreference(): [boolean, (enabled: boolean) => void] {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: preferences } = useQuery({
+    queryKey: userPreferencesQueryKey,
+    queryFn: () => userService.getPreferences(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const setEnabled = useCallback(
+    (autoMarkAsRead: boolean) => {
+      userService
+        .updatePreferences({ autoMarkAsRead })
+        .then((saved) => queryClient.setQueryData(userPreferencesQueryKey, saved))
+        .catch((error) => console.error('Failed to save auto mark as read:', error));
+    },
+    [queryClient]
+  );
+
+  return [!!user && (preferences?.autoMarkAsRead ?? true), setEnabled];
+}
+
+/**
+ * Marks the chapter as read once the reader reaches its end, if the user has auto-marking on
+ * and history isn't paused
+ */
+export function useAutoMarkAsRead({
+  mangaId,
+  chapterId,
+  finished,
+}: {
+  mangaId: string;
+  chapterId: string;
+  /** The last page is showing (paged modes) or the end of the strip was reached */
+  finished: boolean;
+}) {
+  const [autoMarkAsRead] = useAutoMarkAsReadPreference();
+  const historyPaused = useAtomValue(historyPausedAtom);
+  const { mutate } = useUpdateReadMarkers(mangaId);
+  // Chapter already marked during this visit; flipping pages at the end must not re-send it
+  const markedChapterRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!finished || !autoMarkAsRead || historyPaused || !mangaId || markedChapterRef.current === chapterId) return;
+    markedChapterRef.current = chapterId;
+    mutate({ chapterIdsRead: [chapterId] });
+  }, [finished, autoMarkAsRead, historyPaused, mangaId, chapterId, mutate]);
+}
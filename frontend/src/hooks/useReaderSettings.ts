@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import useLocalStorage from '@/hooks/useLocalStorage';
+import { useAuth } from '@/hooks/useAuth';
+import { userService } from '@/services/user_service';
+import type { ReaderSettings } from '@/components/chapter/ReaderSettingsModal';
+import {
+  DEFAULT_READER_SETTINGS,
+  readerSettingsFromPreferences,
+  readerSettingsFromStorage,
+  readerSettingsToPreferences,
+  type StoredReaderSettings,
+} from '@/utils/readerUtils';
+
+const SAVE_DELAY_MS = 600;
+
+export const userPreferencesQueryKey = ['user', 'preferences'] as const;
+
+/**
+ * Reader settings backed by localStorage, synced to the user's server-side preferences
+ * when logged in so the reader follows them across devices. Anonymous users stay local-only.
+ */
+export function useReaderSettings(): [ReaderSettings, (settings: ReaderSettings) => void] {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [storedSettings, setStoredSettings] = useLocalStorage<StoredReaderSettings>('reader-settings', DEFAULT_READER_SETTINGS);
+  const settings = readerSettingsFromStorage(storedSettings);
+
+  // Latest local settings, read when seeding the server without re-running the sync effect
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // User ID whose server preferences have already been applied locally
+  const syncedUserRef = useRef<string | null>(null);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const { data: preferences, isSuccess } = useQuery({
+    queryKey: userPreferencesQueryKey,
+    queryFn: () => userService.getPreferences(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Apply server preferences once per login; seed them from local settings on first use
+  useEffect(() => {
+    if (!user || !isSuccess || syncedUserRef.current === user.id) return;
+    syncedUserRef.current = user.id;
+
+    if (preferences) {
+      setStoredSettings({ ...settingsRef.current, ...readerSettingsFromPreferences(preferences) });
+    } else {
+      userService
+        .updatePreferences(readerSettingsToPreferences(settingsRef.current))
+        .then((saved) => queryClient.setQueryData(userPreferencesQueryKey, saved))
+        .catch((error) => console.error('Failed to save reader settings:', error));
+    }
+  }, [user, isSuccess, preferences, setStoredSettings, queryClient]);
+
+  useEffect(() => {
+    if (!user) syncedUserRef.current = null;
+  }, [user]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    };
+  }, []);
+
+  const setSettings = useCallback(
+    (next: ReaderSettings) => {
+      const preferences = readerSettingsToPreferences(next);
+      // Image filters and auto-scroll speed are device-only; changing just those needs no request
+      const changesPreferences =
+        JSON.stringify(preferences) !== JSON.stringify(readerSettingsToPreferences(settingsRef.current));
+      setStoredSettings(next);
+      if (!user || !changesPreferences) return;
+
+      // Debounce so dragging the gap input or flipping modes sends a single request
+      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = setTimeout(() => {
+        userService
+          .updatePreferences(preferences)
+          .then((saved) => queryClient.setQueryData(userPreferencesQueryKey, saved))
+          .catch((error) => console.error('Failed to save reader settings:', error));
+      }, SAVE_DELAY_MS);
+    },
+    [user, setStoredSettings, queryClient],
+  );
+
+  return [settings, setSettings];
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { useAuth } from '@/hooks/useAuth';
+import { userService, schemas, type ChapterHistoryEntry, type ClearHistoryFilter } from '@/services/user_service';
+import {
+  addToHistoryAtom,
+  historyPausedAtom,
+  historyUploadedUserAtom,
+  readingHistoryAtom,
+  MAX_HISTORY,
+  type ReadingHistoryEntry,
+} from '@/store/historyAtoms';
+import {
+  downloadFile,
+  historyToCsv,
+  historyToJson,
+  mergeHistoryEntries,
+  parseHistoryFile,
+  type HistoryExportFormat,
+} from '@/utils/historyUtils';
+
+const historyQueryKey = ['user', 'history'] as const;
+// Matches the server's per-request merge limit
+const IMPORT_BATCH_SIZE = 200;
+
+/** Server entries in the shape the local history uses */
+export function toReadingHistoryEntry(entry: ChapterHistoryEntry): ReadingHistoryEntry {
+  return {
+    chapterId: entry.chapterId,
+    mangaId: entry.mangaId,
+    mangaTitle: entry.mangaTitle,
+    chapterNumber: entry.chapterNumber,
+    chapterTitle: entry.chapterTitle,
+    volume: entry.volume,
+    translatedLanguage: entry.translatedLanguage,
+    externalUrl: entry.externalUrl,
+    scanlationGroups: entry.scanlationGroups,
+    coverUrl: entry.coverUrl,
+    timestamp: Date.parse(entry.readAt),
+  };
+}
+
+/** The account's chapter history, most recent first, loaded page by page */
+export function useServerHistory() {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: [...historyQueryKey, 'list'],
+    queryFn: ({ pageParam }) => userService.getHistory({ cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+  });
+}
+
+/**
+ * Record an opened chapter: in the device history, which the rest of the app reads, and for
+ * logged-in users on the server as well. Nothing is recorded while history is paused.
+ */
+export function useRecordHistory() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const addToHistory = useSetAtom(addToHistoryAtom);
+  const setLocalHistory = useSetAtom(readingHistoryAtom);
+  const paused = useAtomValue(historyPausedAtom);
+
+  return useCallback(
+    (entry: ReadingHistoryEntry) => {
+      if (paused) return;
+      addToHistory(entry);
+      if (!user) return;
+      // The service schema drops the device-only fields (timestamp, comment count)
+      userService
+        .recordHistory(entry)
+        .then((saved) => {
+          // Keep the server's read time, so merging this entry later matches the read it logged
+          const readAt = Date.parse(saved.readAt);
+          setLocalHistory((current) =>
+            current.map((e) =>
+              e.chapterId === saved.chapterId && e.timestamp === entry.timestamp ? { ...e, timestamp: readAt } : e
+            )
+          );
+          return queryClient.invalidateQueries({ queryKey: historyQueryKey });
+        })
+        .catch((error) => console.error('Failed to record reading history:', error));
+    },
+    [user, paused, addToHistory, setLocalHistory, queryClient]
+  );
+}
+
+function matchesFilter(entry: ReadingHistoryEntry, filter: ClearHistoryFilter): boolean {
+  return (
+    (!filter.mangaId || entry.mangaId === filter.mangaId) &&
+    (!filter.from || entry.timestamp >= filter.from.getTime()) &&
+    (!filter.to || entry.timestamp < filter.to.getTime())
+  );
+}
+
+/**
+ * Export, import and delete history. Logged-in users work on the account history, and the
+ * device copy is kept in step; guests work on the device history only.
+ */
+export function useHistoryManagement() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const localHistory = useAtomValue(readingHistoryAtom);
+  const setLocalHistory = useSetAtom(readingHistoryAtom);
+
+  const exportHistory = useCallback(
+    async (format: HistoryExportFormat) => {
+      const entries = user ? (await userService.exportHistory()).map(toReadingHistoryEntry) : localHistory;
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'csv') {
+        downloadFile(historyToCsv(entries), `reading-history-${date}.csv`, 'text/csv');
+      } else {
+        downloadFile(historyToJson(entries), `reading-history-${date}.json`, 'application/json');
+      }
+      return entries.length;
+    },
+    [user, localHistory]
+  );
+
+  /** Resolves to how many entries were imported and how many were unreadable */
+  const importHistory = useCallback(
+    async (file: File) => {
+      const { entries, skipped } = parseHistoryFile(await file.text());
+
+      if (user) {
+        for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+          await userService.mergeHistory(entries.slice(i, i + IMPORT_BATCH_SIZE));
+        }
+        const { entries: latest } = await userService.getHistory({ limit: MAX_HISTORY });
+        setLocalHistory(latest.map(toReadingHistoryEntry));
+        await queryClient.invalidateQueries({ queryKey: historyQueryKey });
+      } else {
+        setLocalHistory((current) => mergeHistoryEntries(current, entries));
+      }
+      return { imported: entries.length, skipped };
+    },
+    [user, setLocalHistory, queryClient]
+  );
+
+  /** Delete everything, or only one manga and/or a time range */
+  const deleteHistory = useCallback(
+    async (filter: ClearHistoryFilter = {}) => {
+      if (user) {
+        await userService.clearHistory(filter);
+        await queryClient.invalidateQueries({ queryKey: historyQueryKey });
+      }
+      setLocalHistory((current) => current.filter((entry) => !matchesFilter(entry, filter)));
+    },
+    [user, setLocalHistory, queryClient]
+  );
+
+  return { exportHistory, importHistory, deleteHistory };
+}
+
+/**
+ * Once per login: upload the history kept on this device. On every app load: replace it with
+ * the newest entries of the account history so every device shows the same recent reads.
+ */
+export function useHistorySync() {
+  const { user, loading } = useAuth();
+  const queryClient = useQueryClient();
+  const localHistory = useAtomValue(readingHistoryAtom);
+  const setLocalHistory = useSetAtom(readingHistoryAtom);
+  const [uploadedUserId, setUploadedUserId] = useAtom(historyUploadedUserAtom);
+  const localHistoryRef = useRef(localHistory);
+  const syncedUserRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    localHistoryRef.current = localHistory;
+  }, [localHistory]);
+
+  useEffect(() => {
+    if (!user) {
+      syncedUserRef.current = null;
+      // Logged out: what is read as a guest is uploaded at the next login
+      if (!loading) setUploadedUserId(null);
+      return;
+    }
+    if (syncedUserRef.current === user.id) return;
+    syncedUserRef.current = user.id;
+
+    // Entries saved by older versions may not pass validation; those are not uploaded
+    const entries =
+      uploadedUserId === user.id
+        ? []
+        : localHistoryRef.current.filter((entry) => schemas.RecordChapterHistoryData.safeParse(entry).success);
+
+    (async () => {
+      try {
+        if (entries.length > 0) {
+          await userService.mergeHistory(entries);
+        }
+        setUploadedUserId(user.id);
+        const { entries: latest } = await userService.getHistory({ limit: MAX_HISTORY });
+        setLocalHistory(latest.map(toReadingHistoryEntry));
+        await queryClient.invalidateQueries({ queryKey: historyQueryKey });
+      } catch (error) {
+        console.error('Failed to sync reading history:', error);
+      }
+    })();
+  }, [user, loading, uploadedUserId, setUploadedUserId, setLocalHistory, queryClient]);
+}
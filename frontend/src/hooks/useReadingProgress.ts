@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAtomValue } from 'jotai';
+import { useAuth } from '@/hooks/useAuth';
+import { userService, type SaveReadingProgressData } from '@/services/user_service';
+import { historyPausedAtom } from '@/store/historyAtoms';
+import { startReadingClock, tickReadingClock } from '@/utils/readerUtils';
+
+// Page changes are batched into at most one report per interval; the server rate-limits as well
+const REPORT_INTERVAL_MS = 5000;
+
+// Input that shows the reader is still at the screen, besides turning pages
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+const readingProgressQueryKey = (mangaId: string) => ['user', 'progress', mangaId] as const;
+
+interface UseReadingProgressOptions {
+  mangaId: string;
+  chapterId: string;
+  /** MangaDex chapter number string; null for oneshots */
+  chapterNumber: string | null;
+  totalPages: number;
+  /** 0-based page the reader is showing */
+  currentPage: number;
+  /** False while the chapter is loading or for external chapters */
+  enabled: boolean;
+}
+
+/** Where to reopen a chapter: set once per chapter, when it was left unfinished */
+export interface ResumePosition {
+  chapterId: string;
+  page: number;
+}
+
+/**
+ * Server-side reading progress for logged-in users: reports the current page (throttled)
+ * and tells the reader which page to resume at when the last-read chapter is reopened.
+ * Nothing is reported while history is paused.
+ */
+export function useReadingProgress({
+  mangaId,
+  chapterId,
+  chapterNumber,
+  totalPages,
+  currentPage,
+  enabled,
+}: UseReadingProgressOptions): ResumePosition | null {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const historyPaused = useAtomValue(historyPausedAtom);
+  const [resume, setResume] = useState<ResumePosition | null>(null);
+
+  // Chapter whose saved position has already been checked for resuming
+  const resolvedChapterRef = useRef<string | null>(null);
+  const pendingRef = useRef<SaveReadingProgressData | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const clockRef = useRef(startReadingClock(Date.now()));
+
+  const { data: progress, isFetched } = useQuery({
+    queryKey: readingProgressQueryKey(mangaId),
+    queryFn: () => userService.getReadingProgress(mangaId),
+    enabled: !!user && !!mangaId,
+    staleTime: 60 * 1000,
+  });
+
+  // Resume only the chapter the saved position points at, and only if it wasn't finished
+  useEffect(() => {
+    if (!isFetched || !enabled || resolvedChapterRef.current === chapterId) return;
+    resolvedChapterRef.current = chapterId;
+    const savedPage = progress?.externalChapterId === chapterId ? progress.pageNumber : null;
+    if (savedPage && savedPage > 1 && savedPage < totalPages) {
+      setResume({ chapterId, page: savedPage - 1 });
+    }
+  }, [isFetched, enabled, chapterId, progress, totalPages]);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const data = pendingRef.current;
+    if (!data) return;
+    pendingRef.current = null;
+
+    const now = Date.now();
+    const readTime = tickReadingClock(clockRef.current, now).activeMs / 1000;
+    clockRef.current = startReadingClock(now);
+    userService
+      .saveReadingProgress({ ...data, readTime })
+      .then((saved) => queryClient.setQueryData(readingProgressQueryKey(data.mangaId), saved))
+      .catch((error) => console.warn('[ReadingProgress] Failed to save progress:', error));
+  }, [queryClient]);
+
+  // Queue a report whenever the page changes; held back until the saved position has been read
+  const isActive = !!user && !historyPaused && enabled && !!mangaId && totalPages > 0 && isFetched;
+  useEffect(() => {
+    if (!isActive) return;
+    clockRef.current = tickReadingClock(clockRef.current, Date.now());
+    const parsedNumber = chapterNumber ? parseFloat(chapterNumber) : NaN;
+    pendingRef.current = {
+      mangaId,
+      source: 'MANGADEX',
+      chapterId,
+      chapterNumber: Number.isNaN(parsedNumber) ? null : parsedNumber,
+      pageNumber: Math.min(currentPage, totalPages - 1) + 1,
+      totalPages,
+    };
+    if (!timerRef.current) timerRef.current = setTimeout(flush, REPORT_INTERVAL_MS);
+  }, [isActive, mangaId, chapterId, chapterNumber, currentPage, totalPages, flush]);
+
+  // Reading time starts once the chapter's pages are showing, not when it began loading
+  useEffect(() => {
+    if (isActive) clockRef.current = startReadingClock(Date.now());
+  }, [isActive, chapterId]);
+
+  // Any input keeps the idle window open, so a long page read without turning still counts
+  useEffect(() => {
+    if (!isActive) return;
+    const handleActivity = () => {
+      clockRef.current = tickReadingClock(clockRef.current, Date.now());
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+  }, [isActive]);
+
+  // Pausing also drops a report queued just before
+  useEffect(() => {
+    if (!historyPaused) return;
+    pendingRef.current = null;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, [historyPaused]);
+
+  // Send the last position right away when leaving the chapter or hiding the tab; time spent
+  // hidden is not reading time
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+      else clockRef.current = startReadingClock(Date.now());
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [chapterId, flush]);
+
+  return resume?.chapterId === chapterId ? resume : null;
+}
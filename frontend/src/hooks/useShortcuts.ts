@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useAtom, useAtomValue } from 'jotai';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import useKeyDown from '@/hooks/useKeyDown';
+import { userPreferencesQueryKey } from '@/hooks/useReaderSettings';
+import { userService } from '@/services/user_service';
+import { shortcutOverridesAtom } from '@/store/settingsAtoms';
+import {
+  bindingToKeyCombination,
+  rebindShortcut,
+  resolveShortcutBindings,
+  type ShortcutAction,
+  type ShortcutOverrides,
+} from '@/utils/shortcutUtils';
+
+/** Current bindings with setters that also save them to the user's preferences */
+export function useShortcutBindings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [overrides, setOverrides] = useAtom(shortcutOverridesAtom);
+  const bindings = useMemo(() => resolveShortcutBindings(overrides), [overrides]);
+
+  const saveOverrides = useCallback(
+    (next: ShortcutOverrides) => {
+      setOverrides(next);
+      if (!user) return;
+      userService
+        .updatePreferences({ keyboardShortcuts: next })
+        .then((saved) => queryClient.setQueryData(userPreferencesQueryKey, saved))
+        .catch((error) => console.error('Failed to save keyboard shortcuts:', error));
+    },
+    [user, setOverrides, queryClient],
+  );
+
+  const setBinding = useCallback(
+    (action: ShortcutAction, binding: string | null) => saveOverrides(rebindShortcut(overrides, action, binding)),
+    [overrides, saveOverrides],
+  );
+
+  const resetBindings = useCallback(() => saveOverrides({}), [saveOverrides]);
+
+  return { bindings, overrides, setBinding, resetBindings };
+}
+
+/**
+ * Applies the user's server-side shortcuts once per login, or uploads local changes when the
+ * server has none yet. Mounted once, at the app root.
+ */
+export function useShortcutSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [overrides, setOverrides] = useAtom(shortcutOverridesAtom);
+  const overridesRef = useRef(overrides);
+  const syncedUserRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    overridesRef.current = overrides;
+  }, [overrides]);
+
+  const { data: preferences, isSuccess } = useQuery({
+    queryKey: userPreferencesQueryKey,
+    queryFn: () => userService.getPreferences(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!user) {
+      syncedUserRef.current = null;
+      return;
+    }
+    if (!isSuccess || syncedUserRef.current === user.id) return;
+    syncedUserRef.current = user.id;
+
+    const serverOverrides = preferences?.keyboardShortcuts ?? {};
+    if (Object.keys(serverOverrides).length > 0) {
+      setOverrides(serverOverrides);
+    } else if (Object.keys(overridesRef.current).length > 0) {
+      userService
+        .updatePreferences({ keyboardShortcuts: overridesRef.current })
+        .then((saved) => queryClient.setQueryData(userPreferencesQueryKey, saved))
+        .catch((error) => console.error('Failed to save keyboard shortcuts:', error));
+    }
+  }, [user, isSuccess, preferences, setOverrides, queryClient]);
+}
+
+/** Run `callback` when the key bound to `action` is pressed; does nothing while it is unbound */
+export function useShortcut(action: ShortcutAction, callback: () => void) {
+  const overrides = useAtomValue(shortcutOverridesAtom);
+  const binding = resolveShortcutBindings(overrides)[action];
+  const combination = useMemo(() => (binding ? bindingToKeyCombination(binding) : null), [binding]);
+  useKeyDown(combination, callback);
+}
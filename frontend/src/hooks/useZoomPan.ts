@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+// Second tap within this window (and radius) makes a double tap; single taps wait it out
+const DOUBLE_TAP_MS = 280;
+const DOUBLE_TAP_RADIUS_PX = 30;
+// Mouse movement beyond this turns a press into a pan instead of a click
+const DRAG_THRESHOLD_PX = 5;
+const WHEEL_ZOOM_SPEED = 0.002;
+
+/** Layout size of the zoomed content at 100%, captured when zooming starts */
+export interface ZoomBase {
+  width: number;
+  height: number;
+  /** Includes pages overflowing the content box (e.g. fit-to-width on a tall page) */
+  scrollWidth: number;
+  scrollHeight: number;
+}
+
+export interface ZoomState {
+  scale: number;
+  /** Null at 100%, where the content keeps its normal layout */
+  base: ZoomBase | null;
+}
+
+interface ScrollElements {
+  x: HTMLElement | null;
+  y: HTMLElement | null;
+}
+
+interface UseZoomPanOptions {
+  /** Element receiving wheel, pinch, tap and drag gestures */
+  surfaceRef: RefObject<HTMLElement | null>;
+  /** Element that gets scaled; rendered by ZoomLayer */
+  contentRef: RefObject<HTMLElement | null>;
+  /** Containers panned while zoomed — the vertical strip scrolls x and y on different elements */
+  getScrollElements: () => ScrollElements;
+  /** Zoom drops back to 100% whenever this changes (page turn, chapter switch) */
+  resetKey: unknown;
+  /** Single tap, delivered once it is clear it was not the first half of a double tap */
+  onTap?: (clientX: number, clientY: number, isZoomed: boolean) => void;
+  /** False while the surface is not rendered, so listeners attach once it mounts */
+  enabled?: boolean;
+}
+
+interface ZoomFocus {
+  clientX: number;
+  clientY: number;
+  /** Point under the cursor in unscaled content coordinates */
+  x: number;
+  y: number;
+}
+
+const clampScale = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+const measure = (el: HTMLElement): ZoomBase => ({
+  width: el.offsetWidth,
+  height: el.offsetHeight,
+  scrollWidth: el.scrollWidth,
+  scrollHeight: el.scrollHeight,
+});
+
+const isInteractiveTarget = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest('button, a, input, select, textarea');
+
+/**
+ * Zoom and pan for the reader, shared by every reading mode. Ctrl/⌘ + wheel (and trackpad
+ * pinch) or a two-finger pinch zooms around the pointer; double tap toggles between 100% and
+ * a close-up, and resets when already zoomed. Panning uses the containers' native scrolling,
+ * plus mouse dragging while zoomed.
+ */
+export function useZoomPan({
+  surfaceRef,
+  contentRef,
+  getScrollElements,
+  resetKey,
+  onTap,
+  enabled = true,
+}: UseZoomPanOptions) {
+  const [zoom, setZoom] = useState<ZoomState>({ scale: 1, base: null });
+  const zoomRef = useRef(zoom);
+  const focusRef = useRef<ZoomFocus | null>(null);
+  // Latest callbacks for the listeners, which are attached once
+  const getScrollElementsRef = useRef(getScrollElements);
+  const onTapRef = useRef(onTap);
+
+  useEffect(() => {
+    zoomRef.current = zoom;
+  }, [zoom]);
+  useEffect(() => {
+    getScrollElementsRef.current = getScrollElements;
+    onTapRef.current = onTap;
+  });
+
+  const zoomTo = useCallback(
+    (target: number, clientX: number, clientY: number) => {
+      const content = contentRef.current;
+      if (!content) return;
+      const current = zoomRef.current;
+      const scale = clampScale(target);
+      if (scale === current.scale) return;
+
+      const rect = content.getBoundingClientRect();
+      focusRef.current = {
+        clientX,
+        clientY,
+        x: (clientX - rect.left) / current.scale,
+        y: (clientY - rect.top) / current.scale,
+      };
+      const next = { scale, base: scale === 1 ? null : (current.base ?? measure(content)) };
+      zoomRef.current = next;
+      setZoom(next);
+    },
+    [contentRef],
+  );
+
+  const reset = useCallback(() => {
+    focusRef.current = null;
+    zoomRef.current = { scale: 1, base: null };
+    setZoom(zoomRef.current);
+  }, []);
+
+  useEffect(() => {
+    reset();
+  }, [resetKey, reset]);
+
+  // Keep the point under the pointer in place by scrolling once the new scale has been laid out
+  useLayoutEffect(() => {
+    const focus = focusRef.current;
+    const content = contentRef.current;
+    if (!focus || !content) return;
+    focusRef.current = null;
+
+    const rect = content.getBoundingClientRect();
+    const { x, y } = getScrollElementsRef.current();
+    if (x) x.scrollLeft += rect.left + focus.x * zoom.scale - focus.clientX;
+    if (y) y.scrollTop += rect.top + focus.y * zoom.scale - focus.clientY;
+  }, [zoom.scale, contentRef]);
+
+  // The vertical strip grows while zoomed as lazy pages load, so the scaled size must follow
+  const isZoomed = zoom.scale !== 1;
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!isZoomed || !content) return;
+    const observer = new ResizeObserver(() => {
+      setZoom((prev) => (prev.base ? { ...prev, base: measure(content) } : prev));
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [isZoomed, contentRef]);
+
+  useEffect(() => {
+    const surface = surfaceRef.current;
+    if (!enabled || !surface) return;
+
+    let pinch: { distance: number; scale: number } | null = null;
+    let lastTap: { time: number; x: number; y: number } | null = null;
+    let tapTimer: ReturnType<typeof setTimeout> | null = null;
+    let drag: { x: number; y: number; moved: boolean } | null = null;
+    let suppressClick = false;
+
+    const cancelPendingTap = () => {
+      if (tapTimer) clearTimeout(tapTimer);
+      tapTimer = null;
+      lastTap = null;
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      // Trackpad pinch arrives as ctrl + wheel as well
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTo(zoomRef.current.scale * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), e.clientX, e.clientY);
+    };
+
+    const touchDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      pinch = { distance: touchDistance(e.touches), scale: zoomRef.current.scale };
+      cancelPendingTap();
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      const midX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+      const midY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+      zoomTo((pinch.scale * touchDistance(e.touches)) / pinch.distance, midX, midY);
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+
+    const handleClick = (e: MouseEvent) => {
+      if (suppressClick) {
+        suppressClick = false;
+        return;
+      }
+      if (isInteractiveTarget(e.target)) return;
+
+      if (lastTap && e.timeStamp - lastTap.time < DOUBLE_TAP_MS &&
+        Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_RADIUS_PX) {
+        cancelPendingTap();
+        zoomTo(zoomRef.current.scale > 1 ? 1 : DOUBLE_TAP_ZOOM, e.clientX, e.clientY);
+        return;
+      }
+
+      lastTap = { time: e.timeStamp, x: e.clientX, y: e.clientY };
+      const { clientX, clientY } = e;
+      if (tapTimer) clearTimeout(tapTimer);
+      tapTimer = setTimeout(() => {
+        tapTimer = null;
+        onTapRef.current?.(clientX, clientY, zoomRef.current.scale !== 1);
+      }, DOUBLE_TAP_MS);
+    };
+
+    // Touch pans natively; mice get drag-to-pan while zoomed
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'mouse' || e.button !== 0 || zoomRef.current.scale === 1) return;
+      if (isInteractiveTarget(e.target)) return;
+      drag = { x: e.clientX, y: e.clientY, moved: false };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!drag) return;
+      const dx = e.clientX - drag.x;
+      const dy = e.clientY - drag.y;
+      if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+      drag = { x: e.clientX, y: e.clientY, moved: true };
+      const { x, y } = getScrollElementsRef.current();
+      if (x) x.scrollLeft -= dx;
+      if (y) y.scrollTop -= dy;
+    };
+
+    const handlePointerUp = () => {
+      if (drag?.moved) suppressClick = true;
+      drag = null;
+    };
+
+    const handleDragStart = (e: DragEvent) => {
+      if (zoomRef.current.scale !== 1) e.preventDefault();
+    };
+
+    surface.addEventListener('wheel', handleWheel, { passive: false });
+    surface.addEventListener('touchstart', handleTouchStart, { passive: true });
+    surface.addEventListener('touchmove', handleTouchMove, { passive: false });
+    surface.addEventListener('touchend', handleTouchEnd);
+    surface.addEventListener('touchcancel', handleTouchEnd);
+    surface.addEventListener('click', handleClick);
+    surface.addEventListener('pointerdown', handlePointerDown);
+    surface.addEventListener('dragstart', handleDragStart);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      if (tapTimer) clearTimeout(tapTimer);
+      surface.removeEventListener('wheel', handleWheel);
+      surface.removeEventListener('touchstart', handleTouchStart);
+      surface.removeEventListener('touchmove', handleTouchMove);
+      surface.removeEventListener('touchend', handleTouchEnd);
+      surface.removeEventListener('touchcancel', handleTouchEnd);
+      surface.removeEventListener('click', handleClick);
+      surface.removeEventListener('pointerdown', handlePointerDown);
+      surface.removeEventListener('dragstart', handleDragStart);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [enabled, surfaceRef, zoomTo]);
+
+  return { zoom, isZoomed, reset };
+}
@@ -0,0 +1,105 @@
+// IndexedDB access for downloaded chapters. The service worker (public/sw.js) writes them;
+// keep the database layout below in sync with it.
+
+const DB_NAME = 'mangahaven-offline';
+const DB_VERSION = 1;
+const CHAPTERS_STORE = 'chapters';
+const PAGES_STORE = 'pages';
+
+/** Chapter metadata sent to the service worker when a download starts */
+export interface OfflineChapterMeta {
+  chapterId: string;
+  mangaId: string;
+  mangaTitle: string;
+  chapterNumber: string | null;
+  chapterTitle: string | null;
+  volume: string | null;
+  translatedLanguage: string;
+  coverUrl: string | null;
+}
+
+export interface OfflineChapter extends OfflineChapterMeta {
+  pageCount: number;
+  downloadedPages: number;
+  bytes: number;
+  status: 'downloading' | 'complete' | 'error';
+  downloadedAt: number;
+}
+
+interface OfflinePage {
+  key: string;
+  chapterId: string;
+  index: number;
+  blob: Blob;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHAPTERS_STORE)) {
+        db.createObjectStore(CHAPTERS_STORE, { keyPath: 'chapterId' });
+      }
+      if (!db.objectStoreNames.contains(PAGES_STORE)) {
+        const pages = db.createObjectStore(PAGES_STORE, { keyPath: 'key' });
+        pages.createIndex('chapterId', 'chapterId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const offlineStorage = {
+  /** All downloaded (or downloading) chapters, newest first */
+  async listChapters(): Promise<OfflineChapter[]> {
+    const db = await openDb();
+    const chapters = await promisify<OfflineChapter[]>(
+      db.transaction(CHAPTERS_STORE).objectStore(CHAPTERS_STORE).getAll()
+    );
+    return chapters.sort((a, b) => b.downloadedAt - a.downloadedAt);
+  },
+
+  async getChapter(chapterId: string): Promise<OfflineChapter | undefined> {
+    const db = await openDb();
+    return promisify<OfflineChapter | undefined>(
+      db.transaction(CHAPTERS_STORE).objectStore(CHAPTERS_STORE).get(chapterId)
+    );
+  },
+
+  /** Page images of a chapter in reading order */
+  async getPages(chapterId: string): Promise<Blob[]> {
+    const db = await openDb();
+    const pages = await promisify<OfflinePage[]>(
+      db.transaction(PAGES_STORE).objectStore(PAGES_STORE).index('chapterId').getAll(chapterId)
+    );
+    return pages.sort((a, b) => a.index - b.index).map((page) => page.blob);
+  },
+
+  async deleteChapter(chapterId: string): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction([CHAPTERS_STORE, PAGES_STORE], 'readwrite');
+    tx.objectStore(CHAPTERS_STORE).delete(chapterId);
+    const pageKeys = await promisify(tx.objectStore(PAGES_STORE).index('chapterId').getAllKeys(chapterId));
+    pageKeys.forEach((key) => tx.objectStore(PAGES_STORE).delete(key));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  },
+
+  /** Browser storage quota for this origin; undefined where the Storage API is unavailable */
+  async getStorageEstimate(): Promise<{ usage: number; quota: number } | undefined> {
+    if (!navigator.storage?.estimate) return undefined;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  },
+};
@@ -0,0 +1,55 @@
+import { jotaiStore } from '@/store/appAtoms';
+import { offlineDownloadsAtom, offlineLibraryVersionAtom } from '@/store/offlineAtoms';
+import type { OfflineChapterMeta } from '@/lib/offlineStorage';
+
+type ServiceWorkerMessage =
+  | { type: 'download-progress'; chapterId: string; done: number; total: number }
+  | { type: 'download-complete'; chapterId: string }
+  | { type: 'download-error'; chapterId: string; message: string };
+
+export const isServiceWorkerSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+function handleMessage(event: MessageEvent<ServiceWorkerMessage>) {
+  const message = event.data;
+  if (!message?.type?.startsWith('download-')) return;
+
+  jotaiStore.set(offlineDownloadsAtom, (prev) => {
+    const current = prev[message.chapterId] ?? { done: 0, total: 0, status: 'queued' as const };
+    switch (message.type) {
+      case 'download-progress':
+        return { ...prev, [message.chapterId]: { done: message.done, total: message.total, status: 'downloading' } };
+      case 'download-complete':
+        return { ...prev, [message.chapterId]: { ...current, done: current.total, status: 'complete' } };
+      case 'download-error':
+        return { ...prev, [message.chapterId]: { ...current, status: 'error' } };
+    }
+  });
+
+  if (message.type !== 'download-progress') {
+    jotaiStore.set(offlineLibraryVersionAtom, (version) => version + 1);
+  }
+}
+
+/** Register /sw.js (app shell caching + offline downloads) and listen for download progress */
+export function registerServiceWorker() {
+  if (!isServiceWorkerSupported()) return;
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('[ServiceWorker] Registration failed:', error);
+    });
+  });
+}
+
+/** Queue a chapter download in the service worker; progress arrives through offlineDownloadsAtom */
+export async function requestChapterDownload(chapter: OfflineChapterMeta, pageUrls: string[]) {
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) throw new Error('Service worker is not active');
+
+  jotaiStore.set(offlineDownloadsAtom, (prev) => ({
+    ...prev,
+    [chapter.chapterId]: { done: 0, total: pageUrls.length, status: 'queued' },
+  }));
+  registration.active.postMessage({ type: 'download-chapter', chapter, pageUrls });
+}
@@ -1 +1 @@
-/*eslint-disable*/export const messages=JSON.parse("{\"+1b/He\":[\"Unfollowing...\"],\"/4TFrF\":[\"Full Name\"],\"/HgF9q\":[\"Sort by\"],\"/dwTr5\":[\"No new chapters yet. Try again in a few minutes.\"],\"/g4TfL\":[\"Following!\"],\"/rP3HI\":[[\"minutes\"],\"m ago\"],\"0Sx8TJ\":[\"No group\"],\"0gS7M5\":[\"Display Name\"],\"0s5Sjx\":[\"Artist\"],\"0yvKE1\":[\"Successfully signed in!\"],\"12XGNS\":[\"Account Security\"],\"1Z3Dio\":[\"Reset All Filters\"],\"1dE6i+\":[\"Pixiv\"],\"1gOwXM\":[\"Browse manga and click \\\"Follow\\\" to add them to your library!\"],\"1kXYzP\":[\"Manage your personal information and account settings\"],\"268g7c\":[\"Enter display name\"],\"2DCXcB\":[\"Browse Manga\"],\"2FYpfJ\":[\"More\"],\"2LWS1T\":[\"Manga that many readers are following this month.\"],\"2PIpyf\":[\"Latest Updates\"],\"2ePs/6\":[\"An unknown error occurred.\"],\"2nF5Rs\":[\"Search manga titles...\"],\"3JKKDF\":[\"Vertical Scroll\"],\"3Wnppx\":[\"Login was interrupted. Please try again.\"],\"3uQmjD\":[\"Average\"],\"40Gx0U\":[\"Timezone\"],\"41jCpp\":[[\"total\"],\" chapter update\",[\"0\"],\" found\"],\"4XnqDK\":[\"You haven't read any manga yet\"],\"5M+JBP\":[\"My Library\"],\"5rsQro\":[\"We could not find this manga. It may have been removed.\"],\"6QDrMJ\":[\"Latest Comments\"],\"6TDJAV\":[\"Comments coming soon\"],\"6gRgw8\":[\"Retry\"],\"6kPk3+\":[\"Personal Information\"],\"6tQ6Ya\":[\"No new manga. Refresh or check back in a few minutes.\"],\"73u5E5\":[\"Single Page\"],\"7C+Jn5\":[\"Show password\"],\"7K4dCf\":[\"Try adjusting your search or filters\"],\"7PzzBU\":[\"User\"],\"7TF+JF\":[[\"0\"],\" hours ago\"],\"7dZnmw\":[\"Relevance\"],\"7p5kLi\":[\"Dashboard\"],\"7vhWI8\":[\"New Password\"],\"8/brI5\":[\"Name is required\"],\"8E/Ltg\":[\"Unable to load featured data\"],\"8Ug9jB\":[\"Related\"],\"8ZsakT\":[\"Password\"],\"8lMNBT\":[\"Personalized recommendations will be available in a future update.\"],\"8mU114\":[\"Chapter List\"],\"8vETh9\":[\"Show\"],\"9E6UQO\":[\"Read or Buy\"],\"9eF5oV\":[\"Welcome back\"],\"A1taO8\":[\"Search\"],\"AXIHHG\":[\"Translate to Vietnamese\"],\"AahRx3\":[\"Chapter Language\"],\"AeXO77\":[\"Account\"],\"AxPAXW\":[\"No results found\"],\"B86QFq\":[\"No scanlation group info\"],\"BIRGQ1\":[\"Content Rating\"],\"BIrd7X\":[\"Role cannot be changed\"],\"BYrnIU\":[\"View in manga\"],\"BfZAc7\":[\"Password must be at least 6 characters\"],\"CB1uq6\":[\"Interface Language\"],\"COrk1X\":[\"Avatar removed successfully!\"],\"CbnI8u\":[\"Focused Languages\"],\"ChbBQF\":[\"The rankings feature will be available soon.\"],\"CpHCIC\":[\"Feature in development\"],\"CyH1Uk\":[\"Enter current password\"],\"D0vlU2\":[\"Find manga with powerful filtering options\"],\"D2TIhx\":[\"At least one language must be selected.\"],\"D8jByx\":[\"By continuing, you agree to our <0>Terms</0> and <1>Privacy Policy</1>\"],\"DCKkhU\":[\"Current Password\"],\"DHhJ7s\":[\"Previous\"],\"DYypjh\":[\"Synopsis\"],\"DgTQJK\":[\"Most Popular\"],\"Dl2rIH\":[\"New chapters from manga you follow\"],\"Du+zn+\":[\"Searching...\"],\"E8DXXO\":[\"Group Leader\"],\"EcJiTs\":[\"Sign in required\"],\"EnxihV\":[\"Reading History\"],\"Evcaon\":[\"Demographic\"],\"F4sV0b\":[\"uploads\"],\"FXN0ro\":[\"Recommendations\"],\"Fv8qFn\":[\"Fit Horizontal\"],\"G9dGiN\":[\"Opening \",[\"0\"],\".\"],\"GAmD3h\":[\"Languages\"],\"GDvlUT\":[\"Role\"],\"GLMN4n\":[\"View in chapter\"],\"GbxKce\":[[\"0\"],\" days ago\"],\"GkjXv4\":[[\"0\"],\" minutes ago\"],\"GnG6Oy\":[\"members\"],\"HbXReU\":[\"No notifications yet\"],\"HoEXKW\":[\"No chapters found for the selected time range.\"],\"I72Z/C\":[\"Original Language\"],\"IS0nrP\":[\"Create Account\"],\"IUwGEM\":[\"Save Changes\"],\"IuLC2D\":[\"Please select an image file\"],\"J/hVSQ\":[[\"0\"]],\"J2ZTMa\":[\"Track\"],\"J6n7sl\":[\"Ongoing\"],\"JcY9rC\":[\"Top 10 trending new manga this month\"],\"K7P0jz\":[\"Last Updated\"],\"L2SalB\":[\"Reading history will appear here after you open a chapter.\"],\"LNum6A\":[[\"minutes\"],\" min ago\"],\"LOnjI5\":[\"File size must not exceed 5MB\"],\"LPAv9E\":[[\"days\"],\"d ago\"],\"Lha+sJ\":[\"New password must be at least 6 characters\"],\"MKEPCY\":[\"Follow\"],\"N2XwH7\":[\"Find manga to read\"],\"NMH+s6\":[\"Related Titles\"],\"NRKOdq\":[\"Changing...\"],\"NjAXI6\":[\"No distribution data\"],\"NoNwIX\":[\"Inactive\"],\"Nu4oKW\":[\"Description\"],\"O3oNi5\":[\"Email\"],\"OGXEf0\":[\"Chapters have not been published yet.\"],\"OKxcK8\":[\"Update your personal details\"],\"OQjFNB\":[\"Total Following\"],\"OSBXx5\":[\"Just now\"],\"OYHzN1\":[\"Tags\"],\"OcXTu5\":[\"Avatar updated successfully!\"],\"On0aF2\":[\"Website\"],\"PJGHMR\":[\"Community discussion will be available in a future update.\"],\"PUqCam\":[\"Creating account...\"],\"Pw01g0\":[\"Hide password\"],\"Q8eIK/\":[\"No comments yet.\"],\"QJQd1J\":[\"Edit Profile\"],\"QndFA2\":[\"New Series\"],\"R9W2Vg\":[\"Reading Mode\"],\"Rfmryn\":[\"All \",[\"0\"],\" records will be permanently deleted. This action cannot be undone.\"],\"S1McZh\":[\"Failed to upload avatar\"],\"SD4uyh\":[\"You need to sign in to access this page.\"],\"SViOvb\":[\"View on\"],\"SZw9tS\":[\"View Details\"],\"SbnBYl\":[\"Official\"],\"ScFGp4\":[\"Login Error\"],\"SlfejT\":[\"Error\"],\"SlqLwK\":[\"Shows up to the last 10 chapters from this device.\"],\"TZ+QXc\":[\"Image Fit\"],\"Tz0i8g\":[\"Settings\"],\"UHtKs4\":[\"Failed to load feed. Please try again.\"],\"UQwrOi\":[\"You haven't read any manga recently.\"],\"Ul0Vrf\":[\"See \",[\"0\"],\" more chapters →\"],\"UmHYbe\":[\"Manga you're following\"],\"Un/TzP\":[\"Featured Manga\"],\"UxKoFf\":[\"Navigation\"],\"Uyr66l\":[\"Image gap (px)\"],\"UzqRtL\":[\"Delete notification\"],\"VCIFMa\":[\"Account created successfully!\"],\"VKGMkY\":[\"Alternative Titles\"],\"VbeIOx\":[\"Author\"],\"VbyRUy\":[\"Comments\"],\"VhMDMg\":[\"Change Password\"],\"VoKjPv\":[\"Remove avatar\"],\"W8fQRI\":[\"Rankings\"],\"Wm6Pkd\":[\"Google login failed. Please try again.\"],\"Wn8nWy\":[\"Failed to load your library. Please try again.\"],\"WsGY1+\":[\"Joined \",[\"0\"]],\"X7jlEQ\":[\"Sign in to view your profile\"],\"X9kySA\":[\"Favorites\"],\"XOJDc9\":[\"All time\"],\"XOxZT4\":[\"Signing in...\"],\"XtRdQD\":[\"No credential received from Google.\"],\"XvjC4F\":[\"Saving...\"],\"Y1t/eV\":[\"Added to your library. You'll see updates in your feed.\"],\"YSB6ta\":[\"ratings\"],\"YwkrYn\":[\"A collection of newly uploaded chapters\"],\"Z8lGw6\":[\"Share\"],\"Za5k8Z\":[\"No updates yet\"],\"ZsZeV2\":[\"Email is required\"],\"ZuJtnJ\":[\"Following...\"],\"a3LDKx\":[\"Security\"],\"a4mB1Y\":[\"More actions coming soon\"],\"aM1qeD\":[\"Unfollowed\"],\"aX/S/r\":[\"Page \",[\"0\"],\" of \",[\"totalPages\"]],\"b5oiUO\":[\"Publication Status\"],\"b8DeZN\":[\"Customize your reading experience\"],\"bA3EXd\":[\"Authentication failed. Please try again.\"],\"bHYIks\":[\"Sign Out\"],\"bv55ng\":[\"Chapters\"],\"c//V56\":[\"Recommendations coming soon\"],\"c6eA4u\":[\"Newest Added\"],\"c79FCY\":[\"Please confirm your password\"],\"cEmoQm\":[\"Group ID\"],\"cM0y5x\":[\"No manga followed yet\"],\"cSev+j\":[\"Filters\"],\"chRwq/\":[\"Password is required\"],\"cpE88+\":[\"Create your account\"],\"d/goTy\":[\"Publication Year\"],\"d5cZid\":[\"Successfully signed in with Google.\"],\"d5zxa4\":[\"Local\"],\"dEYjd/\":[\"Follow some manga to see their latest chapters here!\"],\"dEgA5A\":[\"Cancel\"],\"dNF35h\":[\"Share this manga with your friends.\"],\"dYBlwh\":[\"No related titles found.\"],\"dpqPBg\":[\"Authors\"],\"eGKFGn\":[\"Scanlation Group\"],\"eKsL25\":[\"Unable to load data.\"],\"ecUA8p\":[\"Today\"],\"edWbV6\":[\"Link copied\"],\"ezFf/M\":[\"Readers\"],\"f86w0r\":[[\"0\"],\" chapters read · saved on this device\"],\"fdsz6T\":[\"Clipboard error\"],\"fh+XH0\":[\"Change your password to protect your account\"],\"ftx+ee\":[\"Read Now\"],\"fuxNDM\":[\"Reader Header\"],\"gDGC6s\":[\"Advanced Search\"],\"gJC2xZ\":[\"Email is invalid\"],\"geTJd7\":[\"Profile updated successfully!\"],\"hJJu6L\":[\"Choose the display language for the application interface.\"],\"hKtWk2\":[\"My Profile\"],\"hMOj20\":[\"See all (\",[\"0\"],\")\"],\"hXzOVo\":[\"Next\"],\"hm7BO0\":[\"Chapter ready\"],\"hraAWJ\":[\"Something went wrong while contacting the server.\"],\"i8u2gF\":[\"Additional options will be available in a future update.\"],\"iDNBZe\":[\"Notifications\"],\"iGBDR3\":[\"Clear reading history?\"],\"iH8pgl\":[\"Back\"],\"iwm/lM\":[\"works\"],\"jPLJmX\":[\"Google Login Error\"],\"jpctdh\":[\"View\"],\"kLspb4\":[\"Chapter translation language\"],\"kRdIdY\":[\"Translation coming soon\"],\"kf83Ld\":[\"Something went wrong.\"],\"kfsz0C\":[\"Failed to load chapters. Please try again later.\"],\"klH6ct\":[\"Welcome!\"],\"lLm4J0\":[\"Authentication Error\"],\"lpIMne\":[\"Passwords do not match\"],\"mErq7F\":[\"Sign Up\"],\"mLCExY\":[\"Highest Rated\"],\"mQWGel\":[\"History cleared\"],\"mZlUwh\":[\"Your reading history has been deleted.\"],\"mvDZCq\":[\"This reading mode will be available soon.\"],\"mzA6jl\":[\"Vietnamese translation will be available in a future release.\"],\"n1ekoW\":[\"Sign In\"],\"n9V+ps\":[\"Enter your name\"],\"nSkB8g\":[\"Information\"],\"nW50km\":[\"Fit Vertical\"],\"nYeBmY\":[[\"hours\"],\"h ago\"],\"niCpTy\":[\"Enter new password (at least 6 characters)\"],\"nnvJfi\":[\"Works\"],\"oB5n1b\":[\"A collection of manga recently added to the catalog.\"],\"oW3yYY\":[\"This month\"],\"oWRLhz\":[\"No Volume\"],\"onllUU\":[\"Mark all as read\"],\"ot0nOU\":[\"Group Information\"],\"ot7qsv\":[\"Clear all filters\"],\"p2/GCq\":[\"Confirm Password\"],\"pE8lGc\":[\"Failed to change password. Please check your current password.\"],\"pZGjTf\":[\"Failed to update profile\"],\"qHHIBT\":[\"Unable to load this manga\"],\"qqWcBV\":[\"Completed\"],\"r5FOa9\":[\"Enter email address\"],\"r6tM5K\":[\"Reading history is saved on this device\"],\"r7XdJd\":[\"Could not load profile\"],\"raghCO\":[\"or continue with email\"],\"rtir7c\":[\"unknown\"],\"rv8mO7\":[\"Failed to remove avatar\"],\"s4mfvF\":[\"Chapters unavailable\"],\"sDIK3Y\":[\"Removed from your library.\"],\"sFqXP/\":[\"Default translation language for chapter lists and home page.\"],\"sIwL3M\":[\"Community Score\"],\"sKw/Wd\":[\"This series does not have readable chapters yet.\"],\"sr0UJD\":[\"Go Back\"],\"szmMwP\":[\"Could not load profile information\"],\"tiq7kl\":[\"Page \",[\"page\"]],\"u3hZ2x\":[\"Password changed successfully!\"],\"uAQUqI\":[\"Status\"],\"uB8LjK\":[\"Manga\"],\"uWYy8l\":[\"Latest Update\"],\"vERlcd\":[\"Profile\"],\"vGGyHB\":[\"Volume \"],\"vLyv1R\":[\"Hide\"],\"vXIe7J\":[\"Language\"],\"w6mYqz\":[[\"0\"],\" results found\"],\"wr9IYa\":[\"Re-enter new password\"],\"xOTzt5\":[\"just now\"],\"y/GOkj\":[\"Where To Find\"],\"y6sq5j\":[\"Following\"],\"yByRxz\":[\"This week\"],\"yQ2kGp\":[\"Load more\"],\"yQScPF\":[\"We could not copy the link. Please copy it manually.\"],\"yYxB17\":[\"Clear all\"],\"yjkELF\":[\"Confirm New Password\"],\"z1Sv0t\":[\"Customize your manga reading experience\"],\"zD0ZZ5\":[\"Reader Settings\"]}");
\ No newline at end of file
+/*eslint-disable*/export const messages=JSON.parse("{\"+/FAaW\":[\"Shortcuts are saved to your account when you are signed in.\"],\"+1JAhA\":[\"Thanks for rating!\"],\"+1b/He\":[\"Unfollowing...\"],\"+DHRWw\":[\"Unspecified\"],\"+Doz14\":[[\"imported\"],\" chapters imported, \",[\"skipped\"],\" unreadable rows skipped.\"],\"+MmKLu\":[\"Unmuted \",[\"count\"],\" manga\"],\"+N7uug\":[\"1 year\"],\"+Otdza\":[\"The file is not a reading history export.\"],\"+kQ/cY\":[\"Delete this list?\"],\"+r52UY\":[\"Image Quality\"],\"+s1J8k\":[\"Mark as read\"],\"/3CHEI\":[\"A chapter is marked as read when you reach its last page.\"],\"/4TFrF\":[\"Full Name\"],\"/HgF9q\":[\"Sort by\"],\"/NCXEH\":[\"Week of \",[\"0\"],\": \",[\"1\"],\" chapters\"],\"/NTSx5\":[\"Bookmark removed\"],\"/SLtgn\":[\"Data Saver\"],\"/T96Zp\":[\"Plan to Read\"],\"/bGVg4\":[\"No tag data for this period.\"],\"/dqduX\":[\"Next page\"],\"/dwTr5\":[\"No new chapters yet. Try again in a few minutes.\"],\"/g4TfL\":[\"Following!\"],\"/jQctM\":[\"To\"],\"/rP3HI\":[[\"minutes\"],\"m ago\"],\"/rVzlB\":[\"Remove this manga from history\"],\"05zAhA\":[\"Next chapter\"],\"0BWwC9\":[\"Leave every group unchecked to hear about all of them.\"],\"0Sx8TJ\":[\"No group\"],\"0gS7M5\":[\"Display Name\"],\"0s5Sjx\":[\"Artist\"],\"0yvKE1\":[\"Successfully signed in!\"],\"12XGNS\":[\"Account Security\"],\"1Dv7px\":[\"Synced to your account across devices\"],\"1TNIig\":[\"Open\"],\"1Z3Dio\":[\"Reset All Filters\"],\"1cMbF2\":[\"Most helpful\"],\"1dE6i+\":[\"Pixiv\"],\"1gOwXM\":[\"Browse manga and click \\\"Follow\\\" to add them to your library!\"],\"1kXYzP\":[\"Manage your personal information and account settings\"],\"1uscqd\":[\"No bookmarks yet\"],\"1wth4P\":[\"Page width\"],\"268g7c\":[\"Enter display name\"],\"2DCXcB\":[\"Browse Manga\"],\"2FYpfJ\":[\"More\"],\"2GsH2j\":[\"History exported\"],\"2LWS1T\":[\"Manga that many readers are following this month.\"],\"2NFcbq\":[\"Download removed\"],\"2PIpyf\":[\"Latest Updates\"],\"2ePs/6\":[\"An unknown error occurred.\"],\"2nF5Rs\":[\"Search manga titles...\"],\"2q/Q7x\":[\"Visibility\"],\"3D4cs3\":[\"Mark all previous as read\"],\"3Ib6FN\":[\"Move down\"],\"3JKKDF\":[\"Vertical Scroll\"],\"3Nqv93\":[\"Demographics\"],\"3Wnppx\":[\"Login was interrupted. Please try again.\"],\"3cn9Io\":[\"Contains spoilers\"],\"3fgBqV\":[[\"count\"],\" chapters exported.\"],\"3r5sL3\":[\"You have no lists yet. Create one here, or use \\\"Add to list\\\" on any manga.\"],\"3uQmjD\":[\"Average\"],\"3wj86+\":[[\"0\"],\" found, \",[\"1\"],\" need your choice, \",[\"unmatchedCount\"],\" not found on MangaDex.\"],\"40Gx0U\":[\"Timezone\"],\"41jCpp\":[[\"total\"],\" chapter update\",[\"0\"],\" found\"],\"4XnqDK\":[\"You haven't read any manga yet\"],\"4kmwuu\":[\"Remove shortcut\"],\"50YuyB\":[\"This list is empty.\"],\"5GPcf9\":[\"Mark as unread\"],\"5M+JBP\":[\"My Library\"],\"5OD10n\":[[\"count\"],\" manga\"],\"5gQYbL\":[\"Reading time per day\"],\"5iIM94\":[\"It stays in your library, but new chapters don't notify you.\"],\"5rsQro\":[\"We could not find this manga. It may have been removed.\"],\"61io4G\":[\"This browser does not support offline downloads.\"],\"63niL6\":[\"Unknown user\"],\"65EVN5\":[\"Groups & authors you follow\"],\"6Aih4U\":[\"Offline\"],\"6QDrMJ\":[\"Latest Comments\"],\"6QvP0l\":[\"Export as JSON\"],\"6TDJAV\":[\"Comments coming soon\"],\"6Uau97\":[\"Skip\"],\"6YtxFj\":[\"Name\"],\"6gRgw8\":[\"Retry\"],\"6kPk3+\":[\"Personal Information\"],\"6tQ6Ya\":[\"No new manga. Refresh or check back in a few minutes.\"],\"73u5E5\":[\"Single Page\"],\"74V22y\":[\"Library exported\"],\"77Emn0\":[\"Keyboard shortcuts\"],\"7Bj3x9\":[\"Failed\"],\"7C+Jn5\":[\"Show password\"],\"7Ff7ia\":[\"Bookmarks\"],\"7K4dCf\":[\"Try adjusting your search or filters\"],\"7PzzBU\":[\"User\"],\"7TF+JF\":[[\"0\"],\" hours ago\"],\"7ZnHCj\":[[\"0\"],\": \",[\"duration\"]],\"7d1a0d\":[\"Public\"],\"7dZnmw\":[\"Relevance\"],\"7i4uhD\":[\"Auto-scroll faster\"],\"7p5kLi\":[\"Dashboard\"],\"7qN7Ai\":[\"Delete download\"],\"7uHvW2\":[\"Auto-scroll slower\"],\"7vhWI8\":[\"New Password\"],\"8//6Gv\":[\"No public lists yet.\"],\"8/brI5\":[\"Name is required\"],\"8/jKK5\":[\"Could not delete the download.\"],\"8E/Ltg\":[\"Unable to load featured data\"],\"8Tg/JR\":[\"Custom\"],\"8Ug9jB\":[\"Related\"],\"8ZsakT\":[\"Password\"],\"8hmyUB\":[\"This chapter is not available offline. Download it again while you are online.\"],\"8lMNBT\":[\"Personalized recommendations will be available in a future update.\"],\"8mILnH\":[[\"count\"],\" selected\"],\"8mU114\":[\"Chapter List\"],\"8tMvXe\":[\"Added to \",[\"0\"]],\"8vETh9\":[\"Show\"],\"9E6UQO\":[\"Read or Buy\"],\"9QCB7w\":[\"Scanlation groups\"],\"9Y04cp\":[\"Your lists\"],\"9ZFIJF\":[[\"keys\"],\" no longer triggers \\\"\",[\"label\"],\"\\\".\"],\"9eF5oV\":[\"Welcome back\"],\"9vYQZ2\":[[\"0\"],\" chapters queued for offline reading.\"],\"A1taO8\":[\"Search\"],\"AH2CpQ\":[\"Chapters in every language notify you until you pick some.\"],\"AXIHHG\":[\"Translate to Vietnamese\"],\"AahRx3\":[\"Chapter Language\"],\"AeXO77\":[\"Account\"],\"AxPAXW\":[\"No results found\"],\"B86QFq\":[\"No scanlation group info\"],\"B8CX2C\":[\"All \",[\"0\"],\" downloaded chapters will be removed from this device.\"],\"BIRGQ1\":[\"Content Rating\"],\"BIrd7X\":[\"Role cannot be changed\"],\"BOAA3i\":[\"Use my preferred languages\"],\"BPw8i7\":[\"Finding your manga on MangaDex\"],\"BTuqY2\":[\"Your Bookmarks\"],\"BYrnIU\":[\"View in manga\"],\"BfZAc7\":[\"Password must be at least 6 characters\"],\"BrrIs8\":[\"Storage\"],\"C/ksWH\":[\"No scanlation groups found for this manga yet.\"],\"C79ELK\":[\"Show keyboard shortcuts\"],\"CB1uq6\":[\"Interface Language\"],\"COrk1X\":[\"Avatar removed successfully!\"],\"CbnI8u\":[\"Focused Languages\"],\"CgrULx\":[\"Helpful\"],\"ChbBQF\":[\"The rankings feature will be available soon.\"],\"CsOG+6\":[\"This list is empty. Use \\\"Add to list\\\" on any manga to add it here.\"],\"CyH1Uk\":[\"Enter current password\"],\"D0vlU2\":[\"Find manga with powerful filtering options\"],\"D2TIhx\":[\"At least one language must be selected.\"],\"D4ktOb\":[\"Write a review (optional)\"],\"D8jByx\":[\"By continuing, you agree to our <0>Terms</0> and <1>Privacy Policy</1>\"],\"D9CFV5\":[\"Anonymous\"],\"DCKkhU\":[\"Current Password\"],\"DHhJ7s\":[\"Previous\"],\"DJMz08\":[\"New chapters from scanlation groups you follow\"],\"DPfwMq\":[\"Done\"],\"DYypjh\":[\"Synopsis\"],\"DbEfEn\":[[\"imported\"],\" chapters imported.\"],\"Deczc2\":[\"Nothing on this shelf yet. Use the status menu on a followed manga to move it here.\"],\"Dg1eYo\":[\"Nothing to download\"],\"DgTQJK\":[\"Most Popular\"],\"Dl2rIH\":[\"New chapters from manga you follow\"],\"Dm/kV2\":[\"Collect manga into your own ordered lists and share them.\"],\"DnjA4p\":[\"Review matches\"],\"Du+zn+\":[\"Searching...\"],\"DvdI9b\":[\"Select page\"],\"E8DXXO\":[\"Group Leader\"],\"E9XpNM\":[\"MangaHaven score\"],\"EcJiTs\":[\"Sign in required\"],\"EeRxXd\":[\"The following chapters are already available offline.\"],\"EkH9pt\":[\"Update\"],\"EnxihV\":[\"Reading History\"],\"Eq6YVV\":[\"Score\"],\"Evcaon\":[\"Demographic\"],\"F4sV0b\":[\"uploads\"],\"FHXycb\":[\"Use the download button on a manga page or at the end of a chapter to save it for offline reading.\"],\"FXN0ro\":[\"Recommendations\"],\"FZpP/u\":[\"Start or stop auto-scroll\"],\"FbeTUR\":[[\"exported\"],\" manga exported. \",[\"omitted\"],\" have no MyAnimeList entry and were left out.\"],\"G9dGiN\":[\"Opening \",[\"0\"],\".\"],\"GAmD3h\":[\"Languages\"],\"GDvlUT\":[\"Role\"],\"GLMN4n\":[\"View in chapter\"],\"GMZFIj\":[\"New list…\"],\"GS+Mus\":[\"Export\"],\"GbxKce\":[[\"0\"],\" days ago\"],\"GkjXv4\":[[\"0\"],\" minutes ago\"],\"GnG6Oy\":[\"members\"],\"H5X+EM\":[\"Edit note\"],\"H6o6Pc\":[[\"mangadexCount\"],\" ratings\"],\"HbXReU\":[\"No notifications yet\"],\"HhU/Gv\":[\"AniList: a JSON export of your manga list.\"],\"Hkaehm\":[\"Add to list\"],\"HoEXKW\":[\"No chapters found for the selected time range.\"],\"HxF6Fk\":[\"Original\"],\"I+8O9r\":[\"Added \",[\"added\"],\" manga to \",[\"name\"]],\"I72Z/C\":[\"Original Language\"],\"IS0nrP\":[\"Create Account\"],\"IUwGEM\":[\"Save Changes\"],\"IfALef\":[\"Chapters read per day\"],\"IoLwT3\":[\"Could not export history\"],\"Iqv9R9\":[\"All downloads have been deleted.\"],\"IuLC2D\":[\"Please select an image file\"],\"Ixp1jP\":[\"Import your library\"],\"J/hVSQ\":[[\"0\"]],\"J2ZTMa\":[\"Track\"],\"J6n7sl\":[\"Ongoing\"],\"J7acFk\":[\"Reading time per week\"],\"JGX/pW\":[\"Reading status\"],\"JcY9rC\":[\"Top 10 trending new manga this month\"],\"Jgq/40\":[[\"0\"],\" has been deleted.\"],\"K7KGBW\":[[\"processed\"],\" of \",[\"total\"]],\"K7P0jz\":[\"Last Updated\"],\"K8SsF3\":[\"Week of \",[\"0\"],\": \",[\"duration\"]],\"KOGP75\":[\"Jump to comments\"],\"KPx1UV\":[\"Not found\"],\"Kg6WIx\":[\"Reading time\"],\"L1C/by\":[\"Removed from \",[\"0\"]],\"L2MABm\":[\"Pages you bookmarked while reading, with your private notes\"],\"L2SalB\":[\"Reading history will appear here after you open a chapter.\"],\"L4cNyc\":[\"Unfollow \",[\"count\"],\" manga?\"],\"L7svJg\":[\"Reading\"],\"LNum6A\":[[\"minutes\"],\" min ago\"],\"LOnjI5\":[\"File size must not exceed 5MB\"],\"LPAv9E\":[[\"days\"],\"d ago\"],\"Lha+sJ\":[\"New password must be at least 6 characters\"],\"LtEMAh\":[\"Notifications…\"],\"LvMONS\":[\"Rating updated\"],\"MAfs4P\":[\"This runs on the server. You can keep this window open to follow along.\"],\"MKEPCY\":[\"Follow\"],\"MTqQMG\":[\"Not set\"],\"MYIpxN\":[\"Follow some scanlation groups to see their latest uploads here!\"],\"MzJlgs\":[\"Delete all\"],\"N2XwH7\":[\"Find manga to read\"],\"N40H+G\":[\"All\"],\"NKFfiZ\":[\"MangaHaven \",[\"0\"],\" (\",[\"1\"],\")\"],\"NMH+s6\":[\"Related Titles\"],\"NRKOdq\":[\"Changing...\"],\"NjAXI6\":[\"No distribution data\"],\"NoNwIX\":[\"Inactive\"],\"Nu4oKW\":[\"Description\"],\"O3oNi5\":[\"Email\"],\"OGXEf0\":[\"Chapters have not been published yet.\"],\"OIiwZx\":[\"You won't be notified about new chapters of this manga.\"],\"OKxcK8\":[\"Update your personal details\"],\"OQjFNB\":[\"Total Following\"],\"OSBXx5\":[\"Just now\"],\"OX8vGq\":[\"Added \",[\"added\"],\" manga to \",[\"name\"],\" (\",[\"skipped\"],\" already there)\"],\"OYHzN1\":[\"Tags\"],\"OcXTu5\":[\"Avatar updated successfully!\"],\"OjkYZv\":[\"You have no lists yet.\"],\"On0aF2\":[\"Website\"],\"OuMmRH\":[\"They leave your library along with their shelves and notification settings. Reading history is kept.\"],\"P9cEa2\":[\"30 days\"],\"PAys5n\":[\"Data saver loads compressed images, useful on mobile data.\"],\"PJGHMR\":[\"Community discussion will be available in a future update.\"],\"PUdr+w\":[\"Read status\"],\"PUqCam\":[\"Creating account...\"],\"Pw01g0\":[\"Hide password\"],\"Q8eIK/\":[\"No comments yet.\"],\"QJQd1J\":[\"Edit Profile\"],\"QbZDb7\":[\"Could not delete history\"],\"QndFA2\":[\"New Series\"],\"QpgBEp\":[[\"0\"],\" days\"],\"QtzYHI\":[\"MangaDex score\"],\"QyJJlZ\":[[\"0\"],\" found this helpful\"],\"QyioBP\":[\"Move up\"],\"R+YFk2\":[\"On Hold\"],\"R3FsF4\":[\"Download failed\"],\"R7SsBE\":[\"Mute\"],\"R9Khdg\":[\"Auto\"],\"R9W2Vg\":[\"Reading Mode\"],\"RGeCbY\":[\"Could not start the download.\"],\"RIrS3W\":[\"Removed \",[\"mangaTitle\"],\" from your history.\"],\"RRCVzM\":[\"No demographic data for this period.\"],\"Rfmryn\":[\"All \",[\"0\"],\" records will be permanently deleted. This action cannot be undone.\"],\"Rk2XFh\":[\"Remove bookmark\"],\"S1McZh\":[\"Failed to upload avatar\"],\"S9gT2s\":[\"Previous chapter\"],\"SD4uyh\":[\"You need to sign in to access this page.\"],\"SGVz87\":[\"The import failed. Please try again.\"],\"SKyHuB\":[\"Chapter not downloaded\"],\"SQ1OZ9\":[\"Read offline copy\"],\"SViOvb\":[\"View on\"],\"SZw9tS\":[\"View Details\"],\"Sb2gYF\":[\"New list\"],\"SbnBYl\":[\"Official\"],\"ScFGp4\":[\"Login Error\"],\"ScinoM\":[\"Could not save note\"],\"SlfejT\":[\"Error\"],\"SlqLwK\":[\"Shows up to the last 10 chapters from this device.\"],\"T0b3VK\":[\"Current streak (best: \",[\"0\"],\" days)\"],\"T6VOw6\":[[\"0\"],\" chapters · \",[\"1\"]],\"TCbWOq\":[\"Browse lists\"],\"TZ+QXc\":[\"Image Fit\"],\"Tkj8SD\":[[\"0\"],\" written reviews\"],\"Tz0i8g\":[\"Settings\"],\"U6pRQr\":[\"Available offline\"],\"UHtKs4\":[\"Failed to load feed. Please try again.\"],\"UJ2yrR\":[\"Double Page\"],\"UQwrOi\":[\"You haven't read any manga recently.\"],\"USNkzf\":[\"End of chapter\"],\"UUMJbJ\":[\"Chapters read in that period were removed.\"],\"UbiSQR\":[\"The file has \",[\"0\"],\" manga; at most \",[\"MAX_IMPORT_ENTRIES\"],\" can be imported at once.\"],\"Ul0Vrf\":[\"See \",[\"0\"],\" more chapters →\"],\"UmHYbe\":[\"Manga you're following\"],\"Un/TzP\":[\"Featured Manga\"],\"UppcdW\":[\"Rate this manga\"],\"UxKoFf\":[\"Navigation\"],\"Uyr66l\":[\"Image gap (px)\"],\"UzqRtL\":[\"Delete notification\"],\"V9nE++\":[\"Use the bookmark button in the reader to save a page and jot down a note.\"],\"VCIFMa\":[\"Account created successfully!\"],\"VFJsBm\":[\"You'll be notified when they upload a chapter.\"],\"VGnHzR\":[[\"created\"],\" manga added to your library.\"],\"VKGMkY\":[\"Alternative Titles\"],\"VYO5zE\":[\"p. \",[\"pageNumber\"]],\"VZvvxa\":[\"Could not load the notification settings.\"],\"VbeIOx\":[\"Author\"],\"VbyRUy\":[\"Comments\"],\"VhMDMg\":[\"Change Password\"],\"Vn1QR1\":[\"Bring your manga list from another site. Each manga is looked up on MangaDex and followed with its reading status.\"],\"VoKjPv\":[\"Remove avatar\"],\"W5TIyc\":[\"Go to manga page\"],\"W8fQRI\":[\"Rankings\"],\"WAkf2k\":[\"Pause history\"],\"WDcQq9\":[\"Unlisted\"],\"WPwpzp\":[\"Click a shortcut and press the new key. Press Esc to cancel.\"],\"WU70jO\":[[\"skipped\"],\" entries in the file were skipped.\"],\"Weq9zb\":[\"General\"],\"Wm6Pkd\":[\"Google login failed. Please try again.\"],\"Wn8nWy\":[\"Failed to load your library. Please try again.\"],\"WsGY1+\":[\"Joined \",[\"0\"]],\"WtWhSi\":[\"Rating removed\"],\"Ww9zCV\":[\"Following your preferred chapter languages.\"],\"X7jlEQ\":[\"Sign in to view your profile\"],\"X9kySA\":[\"Favorites\"],\"XOJDc9\":[\"All time\"],\"XOxZT4\":[\"Signing in...\"],\"XklUZL\":[\"Anyone with the link can view this list.\"],\"XqnO1s\":[\"Customize shortcuts in Settings\"],\"XtRdQD\":[\"No credential received from Google.\"],\"XvjC4F\":[\"Saving...\"],\"Y1t/eV\":[\"Added to your library. You'll see updates in your feed.\"],\"Y4IJg3\":[\"The file is not a MyAnimeList XML or AniList JSON export.\"],\"YCtyfx\":[\"Fit Width\"],\"YOSKTM\":[\"Chapters read\"],\"YSB6ta\":[\"ratings\"],\"YwkrYn\":[\"A collection of newly uploaded chapters\"],\"Z5HWHd\":[\"On\"],\"Z8lGw6\":[\"Share\"],\"ZFUVpz\":[\"Mute this manga\"],\"ZO6PQ7\":[\"This list is private. Make it unlisted or public so others can open the link.\"],\"ZOtn9F\":[[\"minutes\"],\"m\"],\"Za5k8Z\":[\"No updates yet\"],\"ZboUus\":[[\"exported\"],\" manga exported.\"],\"ZsZeV2\":[\"Email is required\"],\"ZuJtnJ\":[\"Following...\"],\"a3LDKx\":[\"Security\"],\"a4mB1Y\":[\"More actions coming soon\"],\"a9UVD7\":[[\"created\"],\" manga added to your library. \",[\"skipped\"],\" were already followed.\"],\"aHKcKc\":[\"Previous page\"],\"aM1qeD\":[\"Unfollowed\"],\"aWSV04\":[\"Horizontal Swipe\"],\"aX/S/r\":[\"Page \",[\"0\"],\" of \",[\"totalPages\"]],\"adc7C+\":[\"Import from file…\"],\"axW89i\":[\"Chapter notifications\"],\"az8lvo\":[\"Off\"],\"b5oiUO\":[\"Publication Status\"],\"b8DeZN\":[\"Customize your reading experience\"],\"bA3EXd\":[\"Authentication failed. Please try again.\"],\"bGDmft\":[\"Continue reading\"],\"bHYIks\":[\"Sign Out\"],\"bHem9h\":[\"Toggle fullscreen\"],\"bWKOpU\":[\"Lists can hold manga from MangaDex and from this site.\"],\"bv55ng\":[\"Chapters\"],\"c+M5SR\":[\"Stop recording the chapters you open on this device\"],\"c//V56\":[\"Recommendations coming soon\"],\"c6eA4u\":[\"Newest Added\"],\"c79FCY\":[\"Please confirm your password\"],\"cCfxH1\":[\"Downloading...\"],\"cEmoQm\":[\"Group ID\"],\"cKYx0e\":[\"Delete all downloads?\"],\"cM0y5x\":[\"No manga followed yet\"],\"cSev+j\":[\"Filters\"],\"cdQnFM\":[\"Reset to defaults\"],\"cgvva8\":[[\"0\"],\" ratings\"],\"chRwq/\":[\"Password is required\"],\"cjNv/j\":[\"Most-read tags\"],\"cnGeoo\":[\"Delete\"],\"cpE88+\":[\"Create your account\"],\"cvagGg\":[\"Reviews\"],\"d/goTy\":[\"Publication Year\"],\"d3YoNV\":[\"Dropped\"],\"d5cZid\":[\"Successfully signed in with Google.\"],\"d5zxa4\":[\"Local\"],\"d72GyR\":[\"This list does not exist or is private.\"],\"dEYjd/\":[\"Follow some manga to see their latest chapters here!\"],\"dEgA5A\":[\"Cancel\"],\"dFP5UE\":[\"Pick the right manga\"],\"dHwj3j\":[\"Anyone can see this list, and it is shown in community lists.\"],\"dNF35h\":[\"Share this manga with your friends.\"],\"dUCJry\":[\"Newest\"],\"dYBlwh\":[\"No related titles found.\"],\"dpqPBg\":[\"Authors\"],\"eGKFGn\":[\"Scanlation Group\"],\"eKsL25\":[\"Unable to load data.\"],\"ePK91l\":[\"Edit\"],\"eS9x/B\":[\"Spoilers\"],\"ecUA8p\":[\"Today\"],\"edWbV6\":[\"Link copied\"],\"ejVYRQ\":[\"From\"],\"eryVyh\":[\"Waiting to start…\"],\"esDNgO\":[\"Your whole reading history will be permanently deleted from your account. This action cannot be undone.\"],\"ezFf/M\":[\"Readers\"],\"f86w0r\":[[\"0\"],\" chapters read · saved on this device\"],\"fdsz6T\":[\"Clipboard error\"],\"fh+XH0\":[\"Change your password to protect your account\"],\"ftx+ee\":[\"Read Now\"],\"fuwKpE\":[\"Please try again.\"],\"fuxNDM\":[\"Reader Header\"],\"gDGC6s\":[\"Advanced Search\"],\"gJC2xZ\":[\"Email is invalid\"],\"gVpfW/\":[\"Shortcut reassigned\"],\"gdUf1F\":[\"Delete a date range…\"],\"geTJd7\":[\"Profile updated successfully!\"],\"gxYz5c\":[\"Found\"],\"h16FyT\":[\"Lists\"],\"h28hXf\":[\"90 days\"],\"h7MgpO\":[\"Keyboard Shortcuts\"],\"hIHcBE\":[\"Export as CSV\"],\"hJJu6L\":[\"Choose the display language for the application interface.\"],\"hKtWk2\":[\"My Profile\"],\"hMOj20\":[\"See all (\",[\"0\"],\")\"],\"hQRttt\":[\"Submit\"],\"hXzOVo\":[\"Next\"],\"hYgDIe\":[\"Create\"],\"hZ/fDR\":[\"History imported\"],\"hcz0aN\":[\"Remove \",[\"mangaTitle\"],\" from history?\"],\"hm7BO0\":[\"Chapter ready\"],\"hraAWJ\":[\"Something went wrong while contacting the server.\"],\"hynz2K\":[\"Download started\"],\"hzydP2\":[\"Every chapter you read of this manga will be removed from your history.\"],\"i39B4E\":[\"Nothing read in this period.\"],\"i3Frvq\":[[\"hours\"],\"h \",[\"minutes\"],\"m\"],\"i3gYBg\":[\"Could not import history\"],\"i3q05e\":[\"Could not clear history\"],\"i8u2gF\":[\"Additional options will be available in a future update.\"],\"iDNBZe\":[\"Notifications\"],\"iGBDR3\":[\"Clear reading history?\"],\"iH8pgl\":[\"Back\"],\"iMod7i\":[\"Chapters read between these days, both included, will be permanently deleted.\"],\"ifZvLj\":[\"Resume history\"],\"ilxRKK\":[\"Failed to load your lists. Please try again.\"],\"iwm/lM\":[\"works\"],\"iypQhn\":[\"Cancel selection\"],\"jO7rGP\":[\"Choose file…\"],\"jPLJmX\":[\"Google Login Error\"],\"jZgQVT\":[\"Unknown manga\"],\"jpctdh\":[\"View\"],\"k14ysb\":[\"Adding manga to your library\"],\"k4b5/X\":[\"edited\"],\"kAKog/\":[\"Show spoilers\"],\"kGFguE\":[[\"0\"],\": \",[\"1\"],\" chapters\"],\"kLspb4\":[\"Chapter translation language\"],\"kRdIdY\":[\"Translation coming soon\"],\"kf83Ld\":[\"Something went wrong.\"],\"kfsz0C\":[\"Failed to load chapters. Please try again later.\"],\"klH6ct\":[\"Welcome!\"],\"l3s5ri\":[\"Import\"],\"lLm4J0\":[\"Authentication Error\"],\"lpIMne\":[\"Passwords do not match\"],\"m14Bid\":[\"What you read, how long and how often, from your account's reading history\"],\"mDCRBa\":[[\"0\"],\" of \",[\"1\"],\" browser storage in use\"],\"mErq7F\":[\"Sign Up\"],\"mLCExY\":[\"Highest Rated\"],\"mMUfmQ\":[\"Could not load bookmarks.\"],\"mQWGel\":[\"History cleared\"],\"mZlUwh\":[\"Your reading history has been deleted.\"],\"mcfB2A\":[\"Move to\"],\"mprevX\":[\"The list and its order will be permanently deleted. The manga themselves are not affected.\"],\"mzA6jl\":[\"Vietnamese translation will be available in a future release.\"],\"mzI/c+\":[\"Download\"],\"n1ekoW\":[\"Sign In\"],\"n5j/8G\":[\"History deleted\"],\"n8043a\":[\"Download next \",[\"count\"],\" chapters\"],\"n9V+ps\":[\"Enter your name\"],\"nNENy5\":[\"Mark volume as unread\"],\"nSkB8g\":[\"Information\"],\"nYeBmY\":[[\"hours\"],\"h ago\"],\"niCpTy\":[\"Enter new password (at least 6 characters)\"],\"nnvJfi\":[\"Works\"],\"nrF9rx\":[\"Remove from list\"],\"nyKrj+\":[\"Downloads of \",[\"0\"],\" have been deleted.\"],\"o1aEPH\":[\"Could not load your statistics.\"],\"o8ahLE\":[\"Import finished\"],\"oB5n1b\":[\"A collection of manga recently added to the catalog.\"],\"oEE/om\":[\"Your rating\"],\"oW3yYY\":[\"This month\"],\"oWRLhz\":[\"No Volume\"],\"oe+24z\":[\"Chapters read per week\"],\"og4+Bt\":[\"Could not remove bookmark\"],\"onllUU\":[\"Mark all as read\"],\"ot0nOU\":[\"Group Information\"],\"ot7qsv\":[\"Clear all filters\"],\"p+ngUo\":[\"Unfollow\"],\"p2/GCq\":[\"Confirm Password\"],\"pE8lGc\":[\"Failed to change password. Please check your current password.\"],\"pTQIV+\":[\"Could not update read status\"],\"pVQZRK\":[\"By \",[\"ownerName\"],\" · \",[\"count\"],\" manga\"],\"pYUvlI\":[[\"0\"],\" chapters · \",[\"1\"],\" in total\"],\"pYxUQn\":[\"Download failed, click to retry\"],\"pZGjTf\":[\"Failed to update profile\"],\"pemoCw\":[[\"0\"],\" used by \",[\"1\"],\" chapters\"],\"qHHIBT\":[\"Unable to load this manga\"],\"qOZPVQ\":[\"Mark chapters as read automatically\"],\"qkviFQ\":[\"You'll be notified when they publish a new title.\"],\"qqWcBV\":[\"Completed\"],\"qqWcu+\":[\"Mark volume as read\"],\"qwNAjD\":[\"Unfollowed \",[\"unfollowed\"],\" manga\"],\"r3Sxey\":[\"Chapters downloaded to this device can be read without a connection\"],\"r5FOa9\":[\"Enter email address\"],\"r6tM5K\":[\"Reading history is saved on this device\"],\"r7XdJd\":[\"Could not load profile\"],\"rG3WVm\":[\"Select\"],\"rJe6vw\":[\"7 days\"],\"raghCO\":[\"or continue with email\"],\"rbHoIN\":[\"Muted \",[\"count\"],\" manga\"],\"rmmHmh\":[\"List deleted\"],\"rn6SBY\":[\"Unmute\"],\"rtir7c\":[\"unknown\"],\"rv8mO7\":[\"Failed to remove avatar\"],\"s2sYVd\":[\"Could not export library\"],\"s4mfvF\":[\"Chapters unavailable\"],\"s4yCk1\":[\"You haven't bookmarked any pages in this manga.\"],\"sDIK3Y\":[\"Removed from your library.\"],\"sFqXP/\":[\"Default translation language for chapter lists and home page.\"],\"sG8zHj\":[\"Community lists\"],\"sIwL3M\":[\"Community Score\"],\"sKw/Wd\":[\"This series does not have readable chapters yet.\"],\"sr0UJD\":[\"Go Back\"],\"szmMwP\":[\"Could not load profile information\"],\"t/YqKh\":[\"Remove\"],\"tfDRzk\":[\"Save\"],\"tiq7kl\":[\"Page \",[\"page\"]],\"tuhghE\":[\"Edit list\"],\"txQNk6\":[\"Offline Library\"],\"u1xP4y\":[\"Original Size\"],\"u3hZ2x\":[\"Password changed successfully!\"],\"uAQUqI\":[\"Status\"],\"uB8LjK\":[\"Manga\"],\"uKYiPO\":[\"Could not delete history. Please try again.\"],\"uMTJu3\":[\"No downloaded chapters\"],\"uWYy8l\":[\"Latest Update\"],\"uj978J\":[\"Reader settings\"],\"unp4Ek\":[\"The file does not contain any manga.\"],\"vERlcd\":[\"Profile\"],\"vGGyHB\":[\"Volume \"],\"vLyv1R\":[\"Hide\"],\"vNyt7B\":[\"Follow \",[\"selectedCount\"],\" manga\"],\"vXIe7J\":[\"Language\"],\"vbW1Qs\":[\"Anyone with the link can see this list.\"],\"vj8BnK\":[\"Moved \",[\"count\"],\" manga to \",[\"shelf\"]],\"vnyIS4\":[\"My Stats\"],\"w1DJ1R\":[\"Only you can see this list.\"],\"w6mYqz\":[[\"0\"],\" results found\"],\"w7D7v4\":[\"Bookmark page\"],\"w8Apnr\":[\"No reviews yet. Be the first to write one!\"],\"wJyjYy\":[\"Export for MyAnimeList (XML)\"],\"wckWOP\":[\"Manage\"],\"wirP4l\":[\"Press a key…\"],\"wr9IYa\":[\"Re-enter new password\"],\"wyUIjQ\":[[\"count\"],\" manga exported.\"],\"xOTzt5\":[\"just now\"],\"xX2JuX\":[\"Fit Height\"],\"xh1PmA\":[\"Choose which new chapters of this manga notify you.\"],\"xvdY9w\":[\"Notification settings saved\"],\"y//Pa7\":[\"History is paused on this device. Chapters you open are not recorded until you resume it.\"],\"y/GOkj\":[\"Where To Find\"],\"y6sq5j\":[\"Following\"],\"y9o+Tq\":[\"In right-to-left manga the arrow keys follow the screen, so ← turns to the next page.\"],\"yByRxz\":[\"This week\"],\"yQ2kGp\":[\"Load more\"],\"yQScPF\":[\"We could not copy the link. Please copy it manually.\"],\"yYxB17\":[\"Clear all\"],\"yjkELF\":[\"Confirm New Password\"],\"z/rvWY\":[\"Download chapter\"],\"z1Sv0t\":[\"Customize your manga reading experience\"],\"zD0ZZ5\":[\"Reader Settings\"],\"zNoYnX\":[\"Top manga\"],\"zYQxrZ\":[\"Delete a date range\"],\"zhrjek\":[\"Groups\"],\"zlVPek\":[\"MyAnimeList: the XML file from \\\"Export My List\\\" (.xml or .xml.gz).\"],\"zmA6sS\":[\"Reader\"],\"zwBp5t\":[\"Private\"],\"zxFxcH\":[\"Private note\"]}");
\ No newline at end of file
@@ -1 +1 @@
-/*eslint-disable*/export const messages=JSON.parse("{\"+1b/He\":[\"Đang bỏ theo dõi...\"],\"/4TFrF\":[\"Họ và tên\"],\"/HgF9q\":[\"Sắp xếp theo\"],\"/dwTr5\":[\"Chưa có chương mới. Thử lại sau vài phút.\"],\"/g4TfL\":[\"Đã theo dõi!\"],\"/rP3HI\":[[\"minutes\"],\" phút trước\"],\"0Sx8TJ\":[\"Không có nhóm\"],\"0gS7M5\":[\"Tên hiển thị\"],\"0s5Sjx\":[\"Họa sĩ\"],\"0yvKE1\":[\"Đăng nhập thành công!\"],\"12XGNS\":[\"Bảo mật tài khoản\"],\"1Z3Dio\":[\"Đặt lại tất cả bộ lọc\"],\"1dE6i+\":[\"Pixiv\"],\"1gOwXM\":[\"Khám phá manga và nhấn \\\"Theo dõi\\\" để thêm vào thư viện!\"],\"1kXYzP\":[\"Quản lý thông tin cá nhân và cài đặt tài khoản\"],\"268g7c\":[\"Nhập tên hiển thị\"],\"2DCXcB\":[\"Khám phá Manga\"],\"2FYpfJ\":[\"Thêm\"],\"2LWS1T\":[\"Manga được nhiều độc giả theo dõi trong tháng này.\"],\"2PIpyf\":[\"Cập nhật mới nhất\"],\"2ePs/6\":[\"Đã xảy ra lỗi không xác định.\"],\"2nF5Rs\":[\"Tìm kiếm tên manga...\"],\"3JKKDF\":[\"Trượt dọc\"],\"3Wnppx\":[\"Đăng nhập bị gián đoạn. Vui lòng thử lại.\"],\"3uQmjD\":[\"Trung bình\"],\"40Gx0U\":[\"Múi giờ\"],\"41jCpp\":[\"Tìm thấy \",[\"total\"],\" cập nhật chương\"],\"4XnqDK\":[\"Bạn chưa đọc manga nào\"],\"5M+JBP\":[\"Thư viện\"],\"5rsQro\":[\"Không tìm thấy manga này. Có thể nó đã bị xóa.\"],\"6QDrMJ\":[\"Bình luận mới nhất\"],\"6TDJAV\":[\"Bình luận sắp ra mắt\"],\"6gRgw8\":[\"Thử lại\"],\"6kPk3+\":[\"Thông tin cá nhân\"],\"6tQ6Ya\":[\"Chưa có manga mới. Làm mới hoặc quay lại sau vài phút.\"],\"73u5E5\":[\"Từng trang\"],\"7C+Jn5\":[\"Hiển thị mật khẩu\"],\"7K4dCf\":[\"Hãy thử điều chỉnh tìm kiếm hoặc bộ lọc\"],\"7PzzBU\":[\"Người dùng\"],\"7TF+JF\":[[\"0\"],\" giờ trước\"],\"7dZnmw\":[\"Liên quan\"],\"7p5kLi\":[\"Trang chủ\"],\"7vhWI8\":[\"Mật khẩu mới\"],\"8/brI5\":[\"Tên là bắt buộc\"],\"8E/Ltg\":[\"Không thể tải dữ liệu nổi bật\"],\"8Ug9jB\":[\"Liên quan\"],\"8ZsakT\":[\"Mật khẩu\"],\"8lMNBT\":[\"Gợi ý cá nhân hóa sẽ có trong bản cập nhật tới.\"],\"8mU114\":[\"Danh sách chương\"],\"8vETh9\":[\"Hiển thị\"],\"9E6UQO\":[\"Đọc hoặc Mua\"],\"9eF5oV\":[\"Chào mừng trở lại\"],\"A1taO8\":[\"Tìm kiếm\"],\"AXIHHG\":[\"Dịch sang Tiếng Việt\"],\"AahRx3\":[\"Ngôn ngữ chương\"],\"AeXO77\":[\"Tài khoản\"],\"AxPAXW\":[\"Không tìm thấy kết quả\"],\"B86QFq\":[\"Không có thông tin nhóm dịch\"],\"BIRGQ1\":[\"Đánh giá nội dung\"],\"BIrd7X\":[\"Vai trò không thể thay đổi\"],\"BYrnIU\":[\"Xem tại truyện này\"],\"BfZAc7\":[\"Mật khẩu phải có ít nhất 6 ký tự\"],\"CB1uq6\":[\"Ngôn ngữ giao diện\"],\"COrk1X\":[\"Đã xóa ảnh đại diện thành công!\"],\"CbnI8u\":[\"Ngôn ngữ dịch\"],\"ChbBQF\":[\"Tính năng xếp hạng sắp ra mắt.\"],\"CpHCIC\":[\"Tính năng đang phát triển\"],\"CyH1Uk\":[\"Nhập mật khẩu hiện tại\"],\"D0vlU2\":[\"Tìm manga với các tùy chọn lọc mạnh mẽ\"],\"D2TIhx\":[\"Phải chọn ít nhất một ngôn ngữ.\"],\"D8jByx\":[\"Bằng cách tiếp tục, bạn đồng ý với <0>Điều khoản</0> và <1>Chính sách bảo mật</1>\"],\"DCKkhU\":[\"Mật khẩu hiện tại\"],\"DHhJ7s\":[\"Trước\"],\"DYypjh\":[\"Tóm tắt\"],\"DgTQJK\":[\"Phổ biến nhất\"],\"Dl2rIH\":[\"Chương mới từ manga bạn theo dõi\"],\"Du+zn+\":[\"Đang tìm kiếm...\"],\"E8DXXO\":[\"Trưởng nhóm\"],\"EcJiTs\":[\"Yêu cầu đăng nhập\"],\"EnxihV\":[\"Lịch sử đọc\"],\"Evcaon\":[\"Nhân khẩu\"],\"F4sV0b\":[\"tải lên\"],\"FXN0ro\":[\"Gợi ý\"],\"Fv8qFn\":[\"Vừa ngang\"],\"G9dGiN\":[\"Đang mở \",[\"0\"],\".\"],\"GAmD3h\":[\"Ngôn ngữ có bản dịch\"],\"GDvlUT\":[\"Vai trò\"],\"GLMN4n\":[\"Xem tại chương này\"],\"GbxKce\":[[\"0\"],\" ngày trước\"],\"GkjXv4\":[[\"0\"],\" phút trước\"],\"GnG6Oy\":[\"thành viên\"],\"HbXReU\":[\"Chưa có thông báo nào\"],\"HoEXKW\":[\"Không tìm thấy chương trong khoảng thời gian đã chọn.\"],\"I72Z/C\":[\"Ngôn ngữ gốc\"],\"IS0nrP\":[\"Tạo tài khoản\"],\"IUwGEM\":[\"Lưu thay đổi\"],\"IuLC2D\":[\"Vui lòng chọn tệp ảnh\"],\"J/hVSQ\":[[\"0\"]],\"J2ZTMa\":[\"Theo dõi tiến độ\"],\"J6n7sl\":[\"Đang tiến hành\"],\"JcY9rC\":[\"Top 10 manga mới nổi bật tháng này\"],\"K7P0jz\":[\"Cập nhật lần cuối\"],\"L2SalB\":[\"Lịch sử đọc sẽ xuất hiện ở đây sau khi bạn mở một chương.\"],\"LNum6A\":[[\"minutes\"],\" phút trước\"],\"LOnjI5\":[\"Kích thước tệp không được vượt quá 5MB\"],\"LPAv9E\":[[\"days\"],\" ngày trước\"],\"Lha+sJ\":[\"Mật khẩu mới phải có ít nhất 6 ký tự\"],\"MKEPCY\":[\"Theo dõi\"],\"N2XwH7\":[\"Tìm manga để đọc\"],\"NMH+s6\":[\"Tựa đề liên quan\"],\"NRKOdq\":[\"Đang thay đổi...\"],\"NjAXI6\":[\"Không có dữ liệu phân phối\"],\"NoNwIX\":[\"Ngưng hoạt động\"],\"Nu4oKW\":[\"Mô tả\"],\"O3oNi5\":[\"Email\"],\"OGXEf0\":[\"Chương chưa được xuất bản.\"],\"OKxcK8\":[\"Cập nhật thông tin cá nhân của bạn\"],\"OQjFNB\":[\"Tổng đang theo dõi\"],\"OSBXx5\":[\"Vừa xong\"],\"OYHzN1\":[\"Thẻ\"],\"OcXTu5\":[\"Đã cập nhật ảnh đại diện thành công!\"],\"On0aF2\":[\"Trang web\"],\"PJGHMR\":[\"Thảo luận cộng đồng sẽ có trong bản cập nhật tới.\"],\"PUqCam\":[\"Đang tạo tài khoản...\"],\"Pw01g0\":[\"Ẩn mật khẩu\"],\"Q8eIK/\":[\"Chưa có bình luận nào.\"],\"QJQd1J\":[\"Chỉnh sửa hồ sơ\"],\"QndFA2\":[\"Series mới\"],\"R9W2Vg\":[\"Chế độ đọc\"],\"Rfmryn\":[\"Tất cả \",[\"0\"],\" bản ghi sẽ bị xóa vĩnh viễn. Hành động này không thể hoàn tác.\"],\"S1McZh\":[\"Không thể tải lên ảnh đại diện\"],\"SD4uyh\":[\"Bạn cần đăng nhập để truy cập trang này.\"],\"SViOvb\":[\"Xem trên\"],\"SZw9tS\":[\"Xem Chi Tiết\"],\"SbnBYl\":[\"Chính thức\"],\"ScFGp4\":[\"Lỗi đăng nhập\"],\"SlfejT\":[\"Lỗi\"],\"SlqLwK\":[\"Hiển thị tới 10 chương cuối từ thiết bị này.\"],\"TZ+QXc\":[\"Vừa ảnh\"],\"Tz0i8g\":[\"Cài đặt\"],\"UHtKs4\":[\"Không thể tải luồng. Vui lòng thử lại.\"],\"UQwrOi\":[\"Bạn chưa đọc manga nào gần đây.\"],\"Ul0Vrf\":[\"Xem thêm \",[\"0\"],\" chương →\"],\"UmHYbe\":[\"Manga bạn đang theo dõi\"],\"Un/TzP\":[\"Manga nổi bật\"],\"UxKoFf\":[\"Điều hướng\"],\"Uyr66l\":[\"Khoảng cách ảnh (px)\"],\"UzqRtL\":[\"Xóa thông báo\"],\"VCIFMa\":[\"Tạo tài khoản thành công!\"],\"VKGMkY\":[\"Tiêu đề khác\"],\"VbeIOx\":[\"Tác giả\"],\"VbyRUy\":[\"Bình luận\"],\"VhMDMg\":[\"Đổi mật khẩu\"],\"VoKjPv\":[\"Xóa ảnh đại diện\"],\"W8fQRI\":[\"Xếp hạng\"],\"Wm6Pkd\":[\"Đăng nhập Google thất bại. Vui lòng thử lại.\"],\"Wn8nWy\":[\"Không thể tải thư viện. Vui lòng thử lại.\"],\"WsGY1+\":[\"Tham gia \",[\"0\"]],\"X7jlEQ\":[\"Đăng nhập để xem hồ sơ của bạn\"],\"X9kySA\":[\"Yêu thích\"],\"XOJDc9\":[\"Toàn thời gian\"],\"XOxZT4\":[\"Đang đăng nhập...\"],\"XtRdQD\":[\"Không nhận được thông tin đăng nhập từ Google.\"],\"XvjC4F\":[\"Đang lưu...\"],\"Y1t/eV\":[\"Đã thêm vào thư viện. Bạn sẽ thấy cập nhật trong luồng.\"],\"YSB6ta\":[\"lượt đánh giá\"],\"YwkrYn\":[\"Tập hợp các chương mới được tải lên\"],\"Z8lGw6\":[\"Chia sẻ\"],\"Za5k8Z\":[\"Chưa có cập nhật\"],\"ZsZeV2\":[\"Email là bắt buộc\"],\"ZuJtnJ\":[\"Đang theo dõi...\"],\"a3LDKx\":[\"Bảo mật\"],\"a4mB1Y\":[\"Thêm tính năng sắp ra mắt\"],\"aM1qeD\":[\"Đã bỏ theo dõi\"],\"aX/S/r\":[\"Trang \",[\"0\"],\" / \",[\"totalPages\"]],\"b5oiUO\":[\"Trạng thái xuất bản\"],\"b8DeZN\":[\"Tùy chỉnh trải nghiệm đọc của bạn\"],\"bA3EXd\":[\"Xác thực thất bại. Vui lòng thử lại.\"],\"bHYIks\":[\"Đăng xuất\"],\"bv55ng\":[\"Chương\"],\"c//V56\":[\"Gợi ý sắp ra mắt\"],\"c6eA4u\":[\"Mới thêm nhất\"],\"c79FCY\":[\"Vui lòng xác nhận mật khẩu\"],\"cEmoQm\":[\"ID nhóm\"],\"cM0y5x\":[\"Chưa theo dõi manga nào\"],\"cSev+j\":[\"Bộ lọc\"],\"chRwq/\":[\"Mật khẩu là bắt buộc\"],\"cpE88+\":[\"Tạo tài khoản của bạn\"],\"d/goTy\":[\"Năm xuất bản\"],\"d5cZid\":[\"Đăng nhập Google thành công.\"],\"d5zxa4\":[\"Nội bộ\"],\"dEYjd/\":[\"Theo dõi manga để xem các chương mới nhất tại đây!\"],\"dEgA5A\":[\"Hủy\"],\"dNF35h\":[\"Chia sẻ manga này với bạn bè.\"],\"dYBlwh\":[\"Không tìm thấy tiêu đề liên quan.\"],\"dpqPBg\":[\"Tác giả\"],\"eGKFGn\":[\"Nhóm dịch\"],\"eKsL25\":[\"Không thể tải dữ liệu.\"],\"ecUA8p\":[\"Hôm nay\"],\"edWbV6\":[\"Đã sao chép liên kết\"],\"ezFf/M\":[\"Độc giả\"],\"f86w0r\":[[\"0\"],\" chương đã đọc · lưu trên thiết bị này\"],\"fdsz6T\":[\"Lỗi clipboard\"],\"fh+XH0\":[\"Thay đổi mật khẩu để bảo vệ tài khoản của bạn\"],\"ftx+ee\":[\"Đọc ngay\"],\"fuxNDM\":[\"Thanh tiêu đề đọc\"],\"gDGC6s\":[\"Tìm kiếm nâng cao\"],\"gJC2xZ\":[\"Email không hợp lệ\"],\"geTJd7\":[\"Cập nhật hồ sơ thành công!\"],\"hJJu6L\":[\"Chọn ngôn ngữ hiển thị cho giao diện ứng dụng.\"],\"hKtWk2\":[\"Hồ sơ của tôi\"],\"hMOj20\":[\"Xem tất cả (\",[\"0\"],\")\"],\"hXzOVo\":[\"Tiếp theo\"],\"hm7BO0\":[\"Chương sẵn sàng\"],\"hraAWJ\":[\"Đã xảy ra lỗi khi liên hệ máy chủ.\"],\"i8u2gF\":[\"Các tùy chọn bổ sung sẽ có trong bản cập nhật tới.\"],\"iDNBZe\":[\"Thông báo\"],\"iGBDR3\":[\"Xóa lịch sử đọc?\"],\"iH8pgl\":[\"Quay lại\"],\"iwm/lM\":[\"tác phẩm\"],\"jPLJmX\":[\"Lỗi đăng nhập Google\"],\"jpctdh\":[\"Xem\"],\"kLspb4\":[\"Ngôn ngữ bản dịch chương\"],\"kRdIdY\":[\"Bản dịch sắp ra mắt\"],\"kf83Ld\":[\"Đã xảy ra lỗi.\"],\"kfsz0C\":[\"Không thể tải chương. Vui lòng thử lại sau.\"],\"klH6ct\":[\"Chào mừng!\"],\"lLm4J0\":[\"Lỗi xác thực\"],\"lpIMne\":[\"Mật khẩu không khớp\"],\"mErq7F\":[\"Đăng ký\"],\"mLCExY\":[\"Đánh giá cao nhất\"],\"mQWGel\":[\"Đã xóa lịch sử\"],\"mZlUwh\":[\"Lịch sử đọc của bạn đã bị xóa.\"],\"mvDZCq\":[\"Chế độ đọc này sắp có.\"],\"mzA6jl\":[\"Bản dịch tiếng Việt sẽ có trong phiên bản tới.\"],\"n1ekoW\":[\"Đăng nhập\"],\"n9V+ps\":[\"Nhập tên của bạn\"],\"nSkB8g\":[\"Thông tin\"],\"nW50km\":[\"Vừa dọc\"],\"nYeBmY\":[[\"hours\"],\" giờ trước\"],\"niCpTy\":[\"Nhập mật khẩu mới (ít nhất 6 ký tự)\"],\"nnvJfi\":[\"Tác phẩm\"],\"oB5n1b\":[\"Bộ sưu tập manga mới thêm vào danh mục.\"],\"oW3yYY\":[\"Tháng này\"],\"oWRLhz\":[\"Không có tập\"],\"onllUU\":[\"Đánh dấu tất cả đã đọc\"],\"ot0nOU\":[\"Thông tin nhóm\"],\"ot7qsv\":[\"Xóa tất cả bộ lọc\"],\"p2/GCq\":[\"Xác nhận mật khẩu\"],\"pE8lGc\":[\"Không thể đổi mật khẩu. Vui lòng kiểm tra mật khẩu hiện tại.\"],\"pZGjTf\":[\"Không thể cập nhật hồ sơ\"],\"qHHIBT\":[\"Không thể tải manga này\"],\"qqWcBV\":[\"Hoàn thành\"],\"r5FOa9\":[\"Nhập địa chỉ email\"],\"r6tM5K\":[\"Lịch sử đọc được lưu trên thiết bị này\"],\"r7XdJd\":[\"Không thể tải hồ sơ\"],\"raghCO\":[\"hoặc tiếp tục với email\"],\"rtir7c\":[\"không rõ\"],\"rv8mO7\":[\"Không thể xóa ảnh đại diện\"],\"s4mfvF\":[\"Không có chương\"],\"sDIK3Y\":[\"Đã xóa khỏi thư viện.\"],\"sFqXP/\":[\"Ngôn ngữ bản dịch mặc định cho danh sách chương và trang chủ.\"],\"sIwL3M\":[\"Điểm cộng đồng\"],\"sKw/Wd\":[\"Series này chưa có chương có thể đọc.\"],\"sr0UJD\":[\"Quay lại\"],\"szmMwP\":[\"Không thể tải thông tin hồ sơ\"],\"tiq7kl\":[\"Trang \",[\"page\"]],\"u3hZ2x\":[\"Đổi mật khẩu thành công!\"],\"uAQUqI\":[\"Trạng thái\"],\"uB8LjK\":[\"Manga\"],\"uWYy8l\":[\"Cập nhật mới nhất\"],\"vERlcd\":[\"Hồ sơ\"],\"vGGyHB\":[\"Tập \"],\"vLyv1R\":[\"Ẩn\"],\"vXIe7J\":[\"Ngôn ngữ\"],\"w6mYqz\":[\"Tìm thấy \",[\"0\"],\" kết quả\"],\"wr9IYa\":[\"Nhập lại mật khẩu mới\"],\"xOTzt5\":[\"vừa xong\"],\"y/GOkj\":[\"Tìm nhóm ở\"],\"y6sq5j\":[\"Đang theo dõi\"],\"yByRxz\":[\"Tuần này\"],\"yQ2kGp\":[\"Xem thêm\"],\"yQScPF\":[\"Không thể sao chép liên kết. Vui lòng sao chép thủ công.\"],\"yYxB17\":[\"Xóa tất cả\"],\"yjkELF\":[\"Xác nhận mật khẩu mới\"],\"z1Sv0t\":[\"Tùy chỉnh trải nghiệm đọc manga của bạn\"],\"zD0ZZ5\":[\"Cài đặt đọc truyện\"]}");
\ No newline at end of file
+/*eslint-disable*/export const messages=JSON.parse("{\"+/FAaW\":[\"Phím tắt được lưu vào tài khoản khi bạn đăng nhập.\"],\"+1JAhA\":[\"Cảm ơn bạn đã đánh giá!\"],\"+1b/He\":[\"Đang bỏ theo dõi...\"],\"+DHRWw\":[\"Không xác định\"],\"+Doz14\":[\"Đã nhập \",[\"imported\"],\" chương, bỏ qua \",[\"skipped\"],\" dòng không đọc được.\"],\"+MmKLu\":[\"Đã bật thông báo \",[\"count\"],\" truyện\"],\"+N7uug\":[\"1 năm\"],\"+Otdza\":[\"Tệp này không phải là bản xuất lịch sử đọc.\"],\"+kQ/cY\":[\"Xóa danh sách này?\"],\"+r52UY\":[\"Chất lượng ảnh\"],\"+s1J8k\":[\"Đánh dấu đã đọc\"],\"/3CHEI\":[\"Chương sẽ được đánh dấu đã đọc khi bạn đọc đến trang cuối.\"],\"/4TFrF\":[\"Họ và tên\"],\"/HgF9q\":[\"Sắp xếp theo\"],\"/NCXEH\":[\"Tuần từ \",[\"0\"],\": \",[\"1\"],\" chương\"],\"/NTSx5\":[\"Đã xóa dấu trang\"],\"/SLtgn\":[\"Tiết kiệm dữ liệu\"],\"/T96Zp\":[\"Dự định đọc\"],\"/bGVg4\":[\"Không có dữ liệu thể loại cho khoảng thời gian này.\"],\"/dqduX\":[\"Trang sau\"],\"/dwTr5\":[\"Chưa có chương mới. Thử lại sau vài phút.\"],\"/g4TfL\":[\"Đã theo dõi!\"],\"/jQctM\":[\"Đến\"],\"/rP3HI\":[[\"minutes\"],\" phút trước\"],\"/rVzlB\":[\"Xóa truyện này khỏi lịch sử\"],\"05zAhA\":[\"Chương sau\"],\"0BWwC9\":[\"Để trống tất cả để nhận thông báo từ mọi nhóm.\"],\"0Sx8TJ\":[\"Không có nhóm\"],\"0gS7M5\":[\"Tên hiển thị\"],\"0s5Sjx\":[\"Họa sĩ\"],\"0yvKE1\":[\"Đăng nhập thành công!\"],\"12XGNS\":[\"Bảo mật tài khoản\"],\"1Dv7px\":[\"Đồng bộ với tài khoản trên mọi thiết bị\"],\"1TNIig\":[\"Mở\"],\"1Z3Dio\":[\"Đặt lại tất cả bộ lọc\"],\"1cMbF2\":[\"Hữu ích nhất\"],\"1dE6i+\":[\"Pixiv\"],\"1gOwXM\":[\"Khám phá manga và nhấn \\\"Theo dõi\\\" để thêm vào thư viện!\"],\"1kXYzP\":[\"Quản lý thông tin cá nhân và cài đặt tài khoản\"],\"1uscqd\":[\"Chưa có dấu trang nào\"],\"1wth4P\":[\"Độ rộng trang\"],\"268g7c\":[\"Nhập tên hiển thị\"],\"2DCXcB\":[\"Khám phá Manga\"],\"2FYpfJ\":[\"Thêm\"],\"2GsH2j\":[\"Đã xuất lịch sử\"],\"2LWS1T\":[\"Manga được nhiều độc giả theo dõi trong tháng này.\"],\"2NFcbq\":[\"Đã xóa bản tải xuống\"],\"2PIpyf\":[\"Cập nhật mới nhất\"],\"2ePs/6\":[\"Đã xảy ra lỗi không xác định.\"],\"2nF5Rs\":[\"Tìm kiếm tên manga...\"],\"2q/Q7x\":[\"Chế độ hiển thị\"],\"3D4cs3\":[\"Đánh dấu các chương trước là đã đọc\"],\"3Ib6FN\":[\"Chuyển xuống\"],\"3JKKDF\":[\"Trượt dọc\"],\"3Nqv93\":[\"Đối tượng độc giả\"],\"3Wnppx\":[\"Đăng nhập bị gián đoạn. Vui lòng thử lại.\"],\"3cn9Io\":[\"Có tiết lộ nội dung\"],\"3fgBqV\":[\"Đã xuất \",[\"count\"],\" chương.\"],\"3r5sL3\":[\"Bạn chưa có danh sách nào. Hãy tạo ở đây, hoặc dùng \\\"Thêm vào danh sách\\\" trên bất kỳ truyện nào.\"],\"3uQmjD\":[\"Trung bình\"],\"3wj86+\":[\"Tìm thấy \",[\"0\"],\", \",[\"1\"],\" cần bạn chọn, \",[\"unmatchedCount\"],\" không có trên MangaDex.\"],\"40Gx0U\":[\"Múi giờ\"],\"41jCpp\":[\"Tìm thấy \",[\"total\"],\" cập nhật chương\"],\"4XnqDK\":[\"Bạn chưa đọc manga nào\"],\"4kmwuu\":[\"Xóa phím tắt\"],\"50YuyB\":[\"Danh sách này đang trống.\"],\"5GPcf9\":[\"Đánh dấu chưa đọc\"],\"5M+JBP\":[\"Thư viện\"],\"5OD10n\":[[\"count\"],\" truyện\"],\"5gQYbL\":[\"Thời gian đọc mỗi ngày\"],\"5iIM94\":[\"Truyện vẫn ở trong thư viện, nhưng chương mới sẽ không gửi thông báo.\"],\"5rsQro\":[\"Không tìm thấy manga này. Có thể nó đã bị xóa.\"],\"61io4G\":[\"Trình duyệt này không hỗ trợ tải xuống ngoại tuyến.\"],\"63niL6\":[\"Người dùng không xác định\"],\"65EVN5\":[\"Nhóm dịch & tác giả bạn theo dõi\"],\"6Aih4U\":[\"Ngoại tuyến\"],\"6QDrMJ\":[\"Bình luận mới nhất\"],\"6QvP0l\":[\"Xuất dạng JSON\"],\"6TDJAV\":[\"Bình luận sắp ra mắt\"],\"6Uau97\":[\"Bỏ qua\"],\"6YtxFj\":[\"Tên\"],\"6gRgw8\":[\"Thử lại\"],\"6kPk3+\":[\"Thông tin cá nhân\"],\"6tQ6Ya\":[\"Chưa có manga mới. Làm mới hoặc quay lại sau vài phút.\"],\"73u5E5\":[\"Từng trang\"],\"74V22y\":[\"Đã xuất thư viện\"],\"77Emn0\":[\"Phím tắt\"],\"7Bj3x9\":[\"Thất bại\"],\"7C+Jn5\":[\"Hiển thị mật khẩu\"],\"7Ff7ia\":[\"Dấu trang\"],\"7K4dCf\":[\"Hãy thử điều chỉnh tìm kiếm hoặc bộ lọc\"],\"7PzzBU\":[\"Người dùng\"],\"7TF+JF\":[[\"0\"],\" giờ trước\"],\"7ZnHCj\":[[\"0\"],\": \",[\"duration\"]],\"7d1a0d\":[\"Công khai\"],\"7dZnmw\":[\"Liên quan\"],\"7i4uhD\":[\"Tự cuộn nhanh hơn\"],\"7p5kLi\":[\"Trang chủ\"],\"7qN7Ai\":[\"Xóa bản tải xuống\"],\"7uHvW2\":[\"Tự cuộn chậm hơn\"],\"7vhWI8\":[\"Mật khẩu mới\"],\"8//6Gv\":[\"Chưa có danh sách công khai nào.\"],\"8/brI5\":[\"Tên là bắt buộc\"],\"8/jKK5\":[\"Không thể xóa bản tải xuống.\"],\"8E/Ltg\":[\"Không thể tải dữ liệu nổi bật\"],\"8Tg/JR\":[\"Tùy chỉnh\"],\"8Ug9jB\":[\"Liên quan\"],\"8ZsakT\":[\"Mật khẩu\"],\"8hmyUB\":[\"Chương này không có sẵn ngoại tuyến. Hãy tải lại khi có kết nối mạng.\"],\"8lMNBT\":[\"Gợi ý cá nhân hóa sẽ có trong bản cập nhật tới.\"],\"8mILnH\":[\"Đã chọn \",[\"count\"]],\"8mU114\":[\"Danh sách chương\"],\"8tMvXe\":[\"Đã thêm vào \",[\"0\"]],\"8vETh9\":[\"Hiển thị\"],\"9E6UQO\":[\"Đọc hoặc Mua\"],\"9QCB7w\":[\"Nhóm dịch\"],\"9Y04cp\":[\"Danh sách của bạn\"],\"9ZFIJF\":[[\"keys\"],\" không còn dùng cho \\\"\",[\"label\"],\"\\\".\"],\"9eF5oV\":[\"Chào mừng trở lại\"],\"9vYQZ2\":[\"Đã xếp \",[\"0\"],\" chương vào hàng đợi để đọc ngoại tuyến.\"],\"A1taO8\":[\"Tìm kiếm\"],\"AH2CpQ\":[\"Chương ở mọi ngôn ngữ đều gửi thông báo cho đến khi bạn chọn ngôn ngữ.\"],\"AXIHHG\":[\"Dịch sang Tiếng Việt\"],\"AahRx3\":[\"Ngôn ngữ chương\"],\"AeXO77\":[\"Tài khoản\"],\"AxPAXW\":[\"Không tìm thấy kết quả\"],\"B86QFq\":[\"Không có thông tin nhóm dịch\"],\"B8CX2C\":[\"Toàn bộ \",[\"0\"],\" chương đã tải sẽ bị xóa khỏi thiết bị này.\"],\"BIRGQ1\":[\"Đánh giá nội dung\"],\"BIrd7X\":[\"Vai trò không thể thay đổi\"],\"BOAA3i\":[\"Dùng ngôn ngữ ưa thích của tôi\"],\"BPw8i7\":[\"Đang tìm truyện của bạn trên MangaDex\"],\"BTuqY2\":[\"Dấu trang của bạn\"],\"BYrnIU\":[\"Xem tại truyện này\"],\"BfZAc7\":[\"Mật khẩu phải có ít nhất 6 ký tự\"],\"BrrIs8\":[\"Dung lượng\"],\"C/ksWH\":[\"Chưa tìm thấy nhóm dịch nào cho truyện này.\"],\"C79ELK\":[\"Xem phím tắt\"],\"CB1uq6\":[\"Ngôn ngữ giao diện\"],\"COrk1X\":[\"Đã xóa ảnh đại diện thành công!\"],\"CbnI8u\":[\"Ngôn ngữ dịch\"],\"CgrULx\":[\"Hữu ích\"],\"ChbBQF\":[\"Tính năng xếp hạng sắp ra mắt.\"],\"CsOG+6\":[\"Danh sách này đang trống. Dùng \\\"Thêm vào danh sách\\\" trên bất kỳ truyện nào để thêm vào đây.\"],\"CyH1Uk\":[\"Nhập mật khẩu hiện tại\"],\"D0vlU2\":[\"Tìm manga với các tùy chọn lọc mạnh mẽ\"],\"D2TIhx\":[\"Phải chọn ít nhất một ngôn ngữ.\"],\"D4ktOb\":[\"Viết bài đánh giá (không bắt buộc)\"],\"D8jByx\":[\"Bằng cách tiếp tục, bạn đồng ý với <0>Điều khoản</0> và <1>Chính sách bảo mật</1>\"],\"D9CFV5\":[\"Ẩn danh\"],\"DCKkhU\":[\"Mật khẩu hiện tại\"],\"DHhJ7s\":[\"Trước\"],\"DJMz08\":[\"Chương mới từ các nhóm dịch bạn theo dõi\"],\"DPfwMq\":[\"Xong\"],\"DYypjh\":[\"Tóm tắt\"],\"DbEfEn\":[\"Đã nhập \",[\"imported\"],\" chương.\"],\"Deczc2\":[\"Kệ này chưa có truyện nào. Dùng menu trạng thái trên truyện đang theo dõi để chuyển truyện vào đây.\"],\"Dg1eYo\":[\"Không có gì để tải\"],\"DgTQJK\":[\"Phổ biến nhất\"],\"Dl2rIH\":[\"Chương mới từ manga bạn theo dõi\"],\"Dm/kV2\":[\"Gom truyện vào các danh sách có thứ tự của riêng bạn và chia sẻ chúng.\"],\"DnjA4p\":[\"Xem lại kết quả khớp\"],\"Du+zn+\":[\"Đang tìm kiếm...\"],\"DvdI9b\":[\"Chọn cả trang\"],\"E8DXXO\":[\"Trưởng nhóm\"],\"E9XpNM\":[\"Điểm MangaHaven\"],\"EcJiTs\":[\"Yêu cầu đăng nhập\"],\"EeRxXd\":[\"Các chương tiếp theo đã có sẵn ngoại tuyến.\"],\"EkH9pt\":[\"Cập nhật\"],\"EnxihV\":[\"Lịch sử đọc\"],\"Eq6YVV\":[\"Điểm\"],\"Evcaon\":[\"Nhân khẩu\"],\"F4sV0b\":[\"tải lên\"],\"FHXycb\":[\"Dùng nút tải xuống trên trang truyện hoặc ở cuối chương để lưu lại đọc ngoại tuyến.\"],\"FXN0ro\":[\"Gợi ý\"],\"FZpP/u\":[\"Bật/tắt tự cuộn\"],\"FbeTUR\":[\"Đã xuất \",[\"exported\"],\" truyện. \",[\"omitted\"],\" truyện không có trên MyAnimeList nên đã bị bỏ qua.\"],\"G9dGiN\":[\"Đang mở \",[\"0\"],\".\"],\"GAmD3h\":[\"Ngôn ngữ có bản dịch\"],\"GDvlUT\":[\"Vai trò\"],\"GLMN4n\":[\"Xem tại chương này\"],\"GMZFIj\":[\"Danh sách mới…\"],\"GS+Mus\":[\"Xuất\"],\"GbxKce\":[[\"0\"],\" ngày trước\"],\"GkjXv4\":[[\"0\"],\" phút trước\"],\"GnG6Oy\":[\"thành viên\"],\"H5X+EM\":[\"Sửa ghi chú\"],\"H6o6Pc\":[[\"mangadexCount\"],\" lượt đánh giá\"],\"HbXReU\":[\"Chưa có thông báo nào\"],\"HhU/Gv\":[\"AniList: bản xuất JSON danh sách truyện của bạn.\"],\"Hkaehm\":[\"Thêm vào danh sách\"],\"HoEXKW\":[\"Không tìm thấy chương trong khoảng thời gian đã chọn.\"],\"HxF6Fk\":[\"Ảnh gốc\"],\"I+8O9r\":[\"Đã thêm \",[\"added\"],\" truyện vào \",[\"name\"]],\"I72Z/C\":[\"Ngôn ngữ gốc\"],\"IS0nrP\":[\"Tạo tài khoản\"],\"IUwGEM\":[\"Lưu thay đổi\"],\"IfALef\":[\"Số chương đã đọc mỗi ngày\"],\"IoLwT3\":[\"Không thể xuất lịch sử\"],\"Iqv9R9\":[\"Đã xóa tất cả bản tải xuống.\"],\"IuLC2D\":[\"Vui lòng chọn tệp ảnh\"],\"Ixp1jP\":[\"Nhập thư viện của bạn\"],\"J/hVSQ\":[[\"0\"]],\"J2ZTMa\":[\"Theo dõi tiến độ\"],\"J6n7sl\":[\"Đang tiến hành\"],\"J7acFk\":[\"Thời gian đọc mỗi tuần\"],\"JGX/pW\":[\"Trạng thái đọc\"],\"JcY9rC\":[\"Top 10 manga mới nổi bật tháng này\"],\"Jgq/40\":[\"Đã xóa \",[\"0\"],\".\"],\"K7KGBW\":[[\"processed\"],\" / \",[\"total\"]],\"K7P0jz\":[\"Cập nhật lần cuối\"],\"K8SsF3\":[\"Tuần từ \",[\"0\"],\": \",[\"duration\"]],\"KOGP75\":[\"Chuyển tới bình luận\"],\"KPx1UV\":[\"Không tìm thấy\"],\"Kg6WIx\":[\"Thời gian đọc\"],\"L1C/by\":[\"Đã xóa khỏi \",[\"0\"]],\"L2MABm\":[\"Các trang bạn đã đánh dấu khi đọc, kèm ghi chú riêng tư\"],\"L2SalB\":[\"Lịch sử đọc sẽ xuất hiện ở đây sau khi bạn mở một chương.\"],\"L4cNyc\":[\"Bỏ theo dõi \",[\"count\"],\" truyện?\"],\"L7svJg\":[\"Đang đọc\"],\"LNum6A\":[[\"minutes\"],\" phút trước\"],\"LOnjI5\":[\"Kích thước tệp không được vượt quá 5MB\"],\"LPAv9E\":[[\"days\"],\" ngày trước\"],\"Lha+sJ\":[\"Mật khẩu mới phải có ít nhất 6 ký tự\"],\"LtEMAh\":[\"Thông báo…\"],\"LvMONS\":[\"Đã cập nhật đánh giá\"],\"MAfs4P\":[\"Việc này chạy trên máy chủ. Bạn có thể giữ cửa sổ này mở để theo dõi tiến độ.\"],\"MKEPCY\":[\"Theo dõi\"],\"MTqQMG\":[\"Chưa gán\"],\"MYIpxN\":[\"Hãy theo dõi một vài nhóm dịch để xem các chương mới nhất của họ tại đây!\"],\"MzJlgs\":[\"Xóa tất cả\"],\"N2XwH7\":[\"Tìm manga để đọc\"],\"N40H+G\":[\"Tất cả\"],\"NKFfiZ\":[\"MangaHaven \",[\"0\"],\" (\",[\"1\"],\")\"],\"NMH+s6\":[\"Tựa đề liên quan\"],\"NRKOdq\":[\"Đang thay đổi...\"],\"NjAXI6\":[\"Không có dữ liệu phân phối\"],\"NoNwIX\":[\"Ngưng hoạt động\"],\"Nu4oKW\":[\"Mô tả\"],\"O3oNi5\":[\"Email\"],\"OGXEf0\":[\"Chương chưa được xuất bản.\"],\"OIiwZx\":[\"Bạn sẽ không nhận thông báo về chương mới của truyện này.\"],\"OKxcK8\":[\"Cập nhật thông tin cá nhân của bạn\"],\"OQjFNB\":[\"Tổng đang theo dõi\"],\"OSBXx5\":[\"Vừa xong\"],\"OX8vGq\":[\"Đã thêm \",[\"added\"],\" truyện vào \",[\"name\"],\" (\",[\"skipped\"],\" truyện đã có sẵn)\"],\"OYHzN1\":[\"Thẻ\"],\"OcXTu5\":[\"Đã cập nhật ảnh đại diện thành công!\"],\"OjkYZv\":[\"Bạn chưa có danh sách nào.\"],\"On0aF2\":[\"Trang web\"],\"OuMmRH\":[\"Các truyện này sẽ bị xóa khỏi thư viện cùng với kệ và cài đặt thông báo. Lịch sử đọc vẫn được giữ lại.\"],\"P9cEa2\":[\"30 ngày\"],\"PAys5n\":[\"Chế độ tiết kiệm tải ảnh nén, phù hợp khi dùng dữ liệu di động.\"],\"PJGHMR\":[\"Thảo luận cộng đồng sẽ có trong bản cập nhật tới.\"],\"PUdr+w\":[\"Trạng thái đọc\"],\"PUqCam\":[\"Đang tạo tài khoản...\"],\"Pw01g0\":[\"Ẩn mật khẩu\"],\"Q8eIK/\":[\"Chưa có bình luận nào.\"],\"QJQd1J\":[\"Chỉnh sửa hồ sơ\"],\"QbZDb7\":[\"Không thể xóa lịch sử\"],\"QndFA2\":[\"Series mới\"],\"QpgBEp\":[[\"0\"],\" ngày\"],\"QtzYHI\":[\"Điểm MangaDex\"],\"QyJJlZ\":[[\"0\"],\" người thấy hữu ích\"],\"QyioBP\":[\"Chuyển lên\"],\"R+YFk2\":[\"Tạm ngưng\"],\"R3FsF4\":[\"Tải xuống thất bại\"],\"R7SsBE\":[\"Tắt thông báo\"],\"R9Khdg\":[\"Tự động\"],\"R9W2Vg\":[\"Chế độ đọc\"],\"RGeCbY\":[\"Không thể bắt đầu tải xuống.\"],\"RIrS3W\":[\"Đã xóa \",[\"mangaTitle\"],\" khỏi lịch sử của bạn.\"],\"RRCVzM\":[\"Không có dữ liệu đối tượng độc giả cho khoảng thời gian này.\"],\"Rfmryn\":[\"Tất cả \",[\"0\"],\" bản ghi sẽ bị xóa vĩnh viễn. Hành động này không thể hoàn tác.\"],\"Rk2XFh\":[\"Xóa dấu trang\"],\"S1McZh\":[\"Không thể tải lên ảnh đại diện\"],\"S9gT2s\":[\"Chương trước\"],\"SD4uyh\":[\"Bạn cần đăng nhập để truy cập trang này.\"],\"SGVz87\":[\"Nhập thất bại. Vui lòng thử lại.\"],\"SKyHuB\":[\"Chương chưa được tải\"],\"SQ1OZ9\":[\"Đọc bản ngoại tuyến\"],\"SViOvb\":[\"Xem trên\"],\"SZw9tS\":[\"Xem Chi Tiết\"],\"Sb2gYF\":[\"Danh sách mới\"],\"SbnBYl\":[\"Chính thức\"],\"ScFGp4\":[\"Lỗi đăng nhập\"],\"ScinoM\":[\"Không thể lưu ghi chú\"],\"SlfejT\":[\"Lỗi\"],\"SlqLwK\":[\"Hiển thị tới 10 chương cuối từ thiết bị này.\"],\"T0b3VK\":[\"Chuỗi ngày đọc hiện tại (dài nhất: \",[\"0\"],\" ngày)\"],\"T6VOw6\":[[\"0\"],\" chương · \",[\"1\"]],\"TCbWOq\":[\"Xem các danh sách\"],\"TZ+QXc\":[\"Vừa ảnh\"],\"Tkj8SD\":[[\"0\"],\" bài đánh giá\"],\"Tz0i8g\":[\"Cài đặt\"],\"U6pRQr\":[\"Có sẵn ngoại tuyến\"],\"UHtKs4\":[\"Không thể tải luồng. Vui lòng thử lại.\"],\"UJ2yrR\":[\"Hai trang\"],\"UQwrOi\":[\"Bạn chưa đọc manga nào gần đây.\"],\"USNkzf\":[\"Hết chương\"],\"UUMJbJ\":[\"Các chương đã đọc trong khoảng thời gian đó đã được xóa.\"],\"UbiSQR\":[\"Tệp có \",[\"0\"],\" truyện; chỉ có thể nhập tối đa \",[\"MAX_IMPORT_ENTRIES\"],\" truyện mỗi lần.\"],\"Ul0Vrf\":[\"Xem thêm \",[\"0\"],\" chương →\"],\"UmHYbe\":[\"Manga bạn đang theo dõi\"],\"Un/TzP\":[\"Manga nổi bật\"],\"UppcdW\":[\"Chấm điểm truyện này\"],\"UxKoFf\":[\"Điều hướng\"],\"Uyr66l\":[\"Khoảng cách ảnh (px)\"],\"UzqRtL\":[\"Xóa thông báo\"],\"V9nE++\":[\"Dùng nút dấu trang trong trình đọc để lưu một trang và ghi chú lại.\"],\"VCIFMa\":[\"Tạo tài khoản thành công!\"],\"VFJsBm\":[\"Bạn sẽ được thông báo khi họ đăng chương mới.\"],\"VGnHzR\":[\"Đã thêm \",[\"created\"],\" truyện vào thư viện của bạn.\"],\"VKGMkY\":[\"Tiêu đề khác\"],\"VYO5zE\":[\"tr. \",[\"pageNumber\"]],\"VZvvxa\":[\"Không thể tải cài đặt thông báo.\"],\"VbeIOx\":[\"Tác giả\"],\"VbyRUy\":[\"Bình luận\"],\"VhMDMg\":[\"Đổi mật khẩu\"],\"Vn1QR1\":[\"Mang danh sách truyện từ trang khác sang. Mỗi truyện sẽ được tìm trên MangaDex và theo dõi kèm trạng thái đọc.\"],\"VoKjPv\":[\"Xóa ảnh đại diện\"],\"W5TIyc\":[\"Về trang truyện\"],\"W8fQRI\":[\"Xếp hạng\"],\"WAkf2k\":[\"Tạm dừng lịch sử\"],\"WDcQq9\":[\"Không công khai\"],\"WPwpzp\":[\"Nhấn vào một phím tắt rồi bấm phím mới. Bấm Esc để hủy.\"],\"WU70jO\":[\"Đã bỏ qua \",[\"skipped\"],\" mục trong tệp.\"],\"Weq9zb\":[\"Chung\"],\"Wm6Pkd\":[\"Đăng nhập Google thất bại. Vui lòng thử lại.\"],\"Wn8nWy\":[\"Không thể tải thư viện. Vui lòng thử lại.\"],\"WsGY1+\":[\"Tham gia \",[\"0\"]],\"WtWhSi\":[\"Đã xóa đánh giá\"],\"Ww9zCV\":[\"Theo ngôn ngữ chương ưa thích của bạn.\"],\"X7jlEQ\":[\"Đăng nhập để xem hồ sơ của bạn\"],\"X9kySA\":[\"Yêu thích\"],\"XOJDc9\":[\"Toàn thời gian\"],\"XOxZT4\":[\"Đang đăng nhập...\"],\"XklUZL\":[\"Bất kỳ ai có liên kết đều có thể xem danh sách này.\"],\"XqnO1s\":[\"Tùy chỉnh phím tắt trong Cài đặt\"],\"XtRdQD\":[\"Không nhận được thông tin đăng nhập từ Google.\"],\"XvjC4F\":[\"Đang lưu...\"],\"Y1t/eV\":[\"Đã thêm vào thư viện. Bạn sẽ thấy cập nhật trong luồng.\"],\"Y4IJg3\":[\"Tệp này không phải là bản xuất XML của MyAnimeList hoặc JSON của AniList.\"],\"YCtyfx\":[\"Vừa chiều rộng\"],\"YOSKTM\":[\"Chương đã đọc\"],\"YSB6ta\":[\"lượt đánh giá\"],\"YwkrYn\":[\"Tập hợp các chương mới được tải lên\"],\"Z5HWHd\":[\"Bật\"],\"Z8lGw6\":[\"Chia sẻ\"],\"ZFUVpz\":[\"Tắt thông báo truyện này\"],\"ZO6PQ7\":[\"Danh sách này đang riêng tư. Hãy chuyển sang không công khai hoặc công khai để người khác mở được liên kết.\"],\"ZOtn9F\":[[\"minutes\"],\" phút\"],\"Za5k8Z\":[\"Chưa có cập nhật\"],\"ZboUus\":[\"Đã xuất \",[\"exported\"],\" truyện.\"],\"ZsZeV2\":[\"Email là bắt buộc\"],\"ZuJtnJ\":[\"Đang theo dõi...\"],\"a3LDKx\":[\"Bảo mật\"],\"a4mB1Y\":[\"Thêm tính năng sắp ra mắt\"],\"a9UVD7\":[\"Đã thêm \",[\"created\"],\" truyện vào thư viện của bạn. \",[\"skipped\"],\" truyện đã được theo dõi từ trước.\"],\"aHKcKc\":[\"Trang trước\"],\"aM1qeD\":[\"Đã bỏ theo dõi\"],\"aWSV04\":[\"Lật ngang\"],\"aX/S/r\":[\"Trang \",[\"0\"],\" / \",[\"totalPages\"]],\"adc7C+\":[\"Nhập từ tệp…\"],\"axW89i\":[\"Thông báo chương mới\"],\"az8lvo\":[\"Tắt\"],\"b5oiUO\":[\"Trạng thái xuất bản\"],\"b8DeZN\":[\"Tùy chỉnh trải nghiệm đọc của bạn\"],\"bA3EXd\":[\"Xác thực thất bại. Vui lòng thử lại.\"],\"bGDmft\":[\"Đọc tiếp\"],\"bHYIks\":[\"Đăng xuất\"],\"bHem9h\":[\"Bật/tắt toàn màn hình\"],\"bWKOpU\":[\"Danh sách có thể chứa truyện từ MangaDex và từ trang này.\"],\"bv55ng\":[\"Chương\"],\"c+M5SR\":[\"Ngừng ghi lại các chương bạn mở trên thiết bị này\"],\"c//V56\":[\"Gợi ý sắp ra mắt\"],\"c6eA4u\":[\"Mới thêm nhất\"],\"c79FCY\":[\"Vui lòng xác nhận mật khẩu\"],\"cCfxH1\":[\"Đang tải xuống...\"],\"cEmoQm\":[\"ID nhóm\"],\"cKYx0e\":[\"Xóa tất cả bản tải xuống?\"],\"cM0y5x\":[\"Chưa theo dõi manga nào\"],\"cSev+j\":[\"Bộ lọc\"],\"cdQnFM\":[\"Khôi phục mặc định\"],\"cgvva8\":[[\"0\"],\" lượt đánh giá\"],\"chRwq/\":[\"Mật khẩu là bắt buộc\"],\"cjNv/j\":[\"Thể loại đọc nhiều nhất\"],\"cnGeoo\":[\"Xóa\"],\"cpE88+\":[\"Tạo tài khoản của bạn\"],\"cvagGg\":[\"Đánh giá\"],\"d/goTy\":[\"Năm xuất bản\"],\"d3YoNV\":[\"Đã bỏ\"],\"d5cZid\":[\"Đăng nhập Google thành công.\"],\"d5zxa4\":[\"Nội bộ\"],\"d72GyR\":[\"Danh sách này không tồn tại hoặc đang riêng tư.\"],\"dEYjd/\":[\"Theo dõi manga để xem các chương mới nhất tại đây!\"],\"dEgA5A\":[\"Hủy\"],\"dFP5UE\":[\"Chọn đúng truyện\"],\"dHwj3j\":[\"Mọi người đều có thể xem danh sách này và nó được hiển thị trong danh sách cộng đồng.\"],\"dNF35h\":[\"Chia sẻ manga này với bạn bè.\"],\"dUCJry\":[\"Mới nhất\"],\"dYBlwh\":[\"Không tìm thấy tiêu đề liên quan.\"],\"dpqPBg\":[\"Tác giả\"],\"eGKFGn\":[\"Nhóm dịch\"],\"eKsL25\":[\"Không thể tải dữ liệu.\"],\"ePK91l\":[\"Sửa\"],\"eS9x/B\":[\"Tiết lộ nội dung\"],\"ecUA8p\":[\"Hôm nay\"],\"edWbV6\":[\"Đã sao chép liên kết\"],\"ejVYRQ\":[\"Từ\"],\"eryVyh\":[\"Đang chờ bắt đầu…\"],\"esDNgO\":[\"Toàn bộ lịch sử đọc sẽ bị xóa vĩnh viễn khỏi tài khoản của bạn. Hành động này không thể hoàn tác.\"],\"ezFf/M\":[\"Độc giả\"],\"f86w0r\":[[\"0\"],\" chương đã đọc · lưu trên thiết bị này\"],\"fdsz6T\":[\"Lỗi clipboard\"],\"fh+XH0\":[\"Thay đổi mật khẩu để bảo vệ tài khoản của bạn\"],\"ftx+ee\":[\"Đọc ngay\"],\"fuwKpE\":[\"Vui lòng thử lại.\"],\"fuxNDM\":[\"Thanh tiêu đề đọc\"],\"gDGC6s\":[\"Tìm kiếm nâng cao\"],\"gJC2xZ\":[\"Email không hợp lệ\"],\"gVpfW/\":[\"Đã gán lại phím tắt\"],\"gdUf1F\":[\"Xóa theo khoảng ngày…\"],\"geTJd7\":[\"Cập nhật hồ sơ thành công!\"],\"gxYz5c\":[\"Đã tìm thấy\"],\"h16FyT\":[\"Danh sách\"],\"h28hXf\":[\"90 ngày\"],\"h7MgpO\":[\"Phím tắt\"],\"hIHcBE\":[\"Xuất dạng CSV\"],\"hJJu6L\":[\"Chọn ngôn ngữ hiển thị cho giao diện ứng dụng.\"],\"hKtWk2\":[\"Hồ sơ của tôi\"],\"hMOj20\":[\"Xem tất cả (\",[\"0\"],\")\"],\"hQRttt\":[\"Gửi\"],\"hXzOVo\":[\"Tiếp theo\"],\"hYgDIe\":[\"Tạo\"],\"hZ/fDR\":[\"Đã nhập lịch sử\"],\"hcz0aN\":[\"Xóa \",[\"mangaTitle\"],\" khỏi lịch sử?\"],\"hm7BO0\":[\"Chương sẵn sàng\"],\"hraAWJ\":[\"Đã xảy ra lỗi khi liên hệ máy chủ.\"],\"hynz2K\":[\"Đã bắt đầu tải xuống\"],\"hzydP2\":[\"Mọi chương bạn đã đọc của truyện này sẽ bị xóa khỏi lịch sử.\"],\"i39B4E\":[\"Chưa đọc gì trong khoảng thời gian này.\"],\"i3Frvq\":[[\"hours\"],\" giờ \",[\"minutes\"],\" phút\"],\"i3gYBg\":[\"Không thể nhập lịch sử\"],\"i3q05e\":[\"Không thể xóa lịch sử\"],\"i8u2gF\":[\"Các tùy chọn bổ sung sẽ có trong bản cập nhật tới.\"],\"iDNBZe\":[\"Thông báo\"],\"iGBDR3\":[\"Xóa lịch sử đọc?\"],\"iH8pgl\":[\"Quay lại\"],\"iMod7i\":[\"Các chương đã đọc trong khoảng ngày này, tính cả hai ngày, sẽ bị xóa vĩnh viễn.\"],\"ifZvLj\":[\"Tiếp tục ghi lịch sử\"],\"ilxRKK\":[\"Không thể tải danh sách của bạn. Vui lòng thử lại.\"],\"iwm/lM\":[\"tác phẩm\"],\"iypQhn\":[\"Hủy chọn\"],\"jO7rGP\":[\"Chọn tệp…\"],\"jPLJmX\":[\"Lỗi đăng nhập Google\"],\"jZgQVT\":[\"Truyện không rõ\"],\"jpctdh\":[\"Xem\"],\"k14ysb\":[\"Đang thêm truyện vào thư viện của bạn\"],\"k4b5/X\":[\"đã chỉnh sửa\"],\"kAKog/\":[\"Hiện nội dung tiết lộ\"],\"kGFguE\":[[\"0\"],\": \",[\"1\"],\" chương\"],\"kLspb4\":[\"Ngôn ngữ bản dịch chương\"],\"kRdIdY\":[\"Bản dịch sắp ra mắt\"],\"kf83Ld\":[\"Đã xảy ra lỗi.\"],\"kfsz0C\":[\"Không thể tải chương. Vui lòng thử lại sau.\"],\"klH6ct\":[\"Chào mừng!\"],\"l3s5ri\":[\"Nhập\"],\"lLm4J0\":[\"Lỗi xác thực\"],\"lpIMne\":[\"Mật khẩu không khớp\"],\"m14Bid\":[\"Bạn đã đọc gì, bao lâu và thường xuyên thế nào, theo lịch sử đọc của tài khoản\"],\"mDCRBa\":[\"Đã dùng \",[\"0\"],\" trên \",[\"1\"],\" bộ nhớ trình duyệt\"],\"mErq7F\":[\"Đăng ký\"],\"mLCExY\":[\"Đánh giá cao nhất\"],\"mMUfmQ\":[\"Không thể tải dấu trang.\"],\"mQWGel\":[\"Đã xóa lịch sử\"],\"mZlUwh\":[\"Lịch sử đọc của bạn đã bị xóa.\"],\"mcfB2A\":[\"Chuyển đến\"],\"mprevX\":[\"Danh sách và thứ tự của nó sẽ bị xóa vĩnh viễn. Bản thân các truyện không bị ảnh hưởng.\"],\"mzA6jl\":[\"Bản dịch tiếng Việt sẽ có trong phiên bản tới.\"],\"mzI/c+\":[\"Tải xuống\"],\"n1ekoW\":[\"Đăng nhập\"],\"n5j/8G\":[\"Đã xóa lịch sử\"],\"n8043a\":[\"Tải \",[\"count\"],\" chương tiếp theo\"],\"n9V+ps\":[\"Nhập tên của bạn\"],\"nNENy5\":[\"Đánh dấu cả tập là chưa đọc\"],\"nSkB8g\":[\"Thông tin\"],\"nYeBmY\":[[\"hours\"],\" giờ trước\"],\"niCpTy\":[\"Nhập mật khẩu mới (ít nhất 6 ký tự)\"],\"nnvJfi\":[\"Tác phẩm\"],\"nrF9rx\":[\"Xóa khỏi danh sách\"],\"nyKrj+\":[\"Đã xóa các bản tải xuống của \",[\"0\"],\".\"],\"o1aEPH\":[\"Không thể tải thống kê của bạn.\"],\"o8ahLE\":[\"Đã nhập xong\"],\"oB5n1b\":[\"Bộ sưu tập manga mới thêm vào danh mục.\"],\"oEE/om\":[\"Đánh giá của bạn\"],\"oW3yYY\":[\"Tháng này\"],\"oWRLhz\":[\"Không có tập\"],\"oe+24z\":[\"Số chương đã đọc mỗi tuần\"],\"og4+Bt\":[\"Không thể xóa dấu trang\"],\"onllUU\":[\"Đánh dấu tất cả đã đọc\"],\"ot0nOU\":[\"Thông tin nhóm\"],\"ot7qsv\":[\"Xóa tất cả bộ lọc\"],\"p+ngUo\":[\"Bỏ theo dõi\"],\"p2/GCq\":[\"Xác nhận mật khẩu\"],\"pE8lGc\":[\"Không thể đổi mật khẩu. Vui lòng kiểm tra mật khẩu hiện tại.\"],\"pTQIV+\":[\"Không thể cập nhật trạng thái đã đọc\"],\"pVQZRK\":[\"Bởi \",[\"ownerName\"],\" · \",[\"count\"],\" truyện\"],\"pYUvlI\":[[\"0\"],\" chương · tổng cộng \",[\"1\"]],\"pYxUQn\":[\"Tải xuống thất bại, nhấn để thử lại\"],\"pZGjTf\":[\"Không thể cập nhật hồ sơ\"],\"pemoCw\":[[\"0\"],\" cho \",[\"1\"],\" chương\"],\"qHHIBT\":[\"Không thể tải manga này\"],\"qOZPVQ\":[\"Tự động đánh dấu chương đã đọc\"],\"qkviFQ\":[\"Bạn sẽ được thông báo khi họ ra mắt truyện mới.\"],\"qqWcBV\":[\"Hoàn thành\"],\"qqWcu+\":[\"Đánh dấu cả tập là đã đọc\"],\"qwNAjD\":[\"Đã bỏ theo dõi \",[\"unfollowed\"],\" truyện\"],\"r3Sxey\":[\"Các chương đã tải về thiết bị này có thể đọc khi không có mạng\"],\"r5FOa9\":[\"Nhập địa chỉ email\"],\"r6tM5K\":[\"Lịch sử đọc được lưu trên thiết bị này\"],\"r7XdJd\":[\"Không thể tải hồ sơ\"],\"rG3WVm\":[\"Chọn\"],\"rJe6vw\":[\"7 ngày\"],\"raghCO\":[\"hoặc tiếp tục với email\"],\"rbHoIN\":[\"Đã tắt thông báo \",[\"count\"],\" truyện\"],\"rmmHmh\":[\"Đã xóa danh sách\"],\"rn6SBY\":[\"Bật thông báo\"],\"rtir7c\":[\"không rõ\"],\"rv8mO7\":[\"Không thể xóa ảnh đại diện\"],\"s2sYVd\":[\"Không thể xuất thư viện\"],\"s4mfvF\":[\"Không có chương\"],\"s4yCk1\":[\"Bạn chưa đánh dấu trang nào trong truyện này.\"],\"sDIK3Y\":[\"Đã xóa khỏi thư viện.\"],\"sFqXP/\":[\"Ngôn ngữ bản dịch mặc định cho danh sách chương và trang chủ.\"],\"sG8zHj\":[\"Danh sách cộng đồng\"],\"sIwL3M\":[\"Điểm cộng đồng\"],\"sKw/Wd\":[\"Series này chưa có chương có thể đọc.\"],\"sr0UJD\":[\"Quay lại\"],\"szmMwP\":[\"Không thể tải thông tin hồ sơ\"],\"t/YqKh\":[\"Xóa\"],\"tfDRzk\":[\"Lưu\"],\"tiq7kl\":[\"Trang \",[\"page\"]],\"tuhghE\":[\"Sửa danh sách\"],\"txQNk6\":[\"Thư viện ngoại tuyến\"],\"u1xP4y\":[\"Kích thước gốc\"],\"u3hZ2x\":[\"Đổi mật khẩu thành công!\"],\"uAQUqI\":[\"Trạng thái\"],\"uB8LjK\":[\"Manga\"],\"uKYiPO\":[\"Không thể xóa lịch sử. Vui lòng thử lại.\"],\"uMTJu3\":[\"Chưa có chương nào được tải\"],\"uWYy8l\":[\"Cập nhật mới nhất\"],\"uj978J\":[\"Cài đặt đọc truyện\"],\"unp4Ek\":[\"Tệp không chứa truyện nào.\"],\"vERlcd\":[\"Hồ sơ\"],\"vGGyHB\":[\"Tập \"],\"vLyv1R\":[\"Ẩn\"],\"vNyt7B\":[\"Theo dõi \",[\"selectedCount\"],\" truyện\"],\"vXIe7J\":[\"Ngôn ngữ\"],\"vbW1Qs\":[\"Bất kỳ ai có liên kết đều có thể xem danh sách này.\"],\"vj8BnK\":[\"Đã chuyển \",[\"count\"],\" truyện đến \",[\"shelf\"]],\"vnyIS4\":[\"Thống kê của tôi\"],\"w1DJ1R\":[\"Chỉ bạn có thể xem danh sách này.\"],\"w6mYqz\":[\"Tìm thấy \",[\"0\"],\" kết quả\"],\"w7D7v4\":[\"Đánh dấu trang\"],\"w8Apnr\":[\"Chưa có bài đánh giá nào. Hãy là người đầu tiên viết!\"],\"wJyjYy\":[\"Xuất cho MyAnimeList (XML)\"],\"wckWOP\":[\"Quản lý\"],\"wirP4l\":[\"Bấm một phím…\"],\"wr9IYa\":[\"Nhập lại mật khẩu mới\"],\"wyUIjQ\":[\"Đã xuất \",[\"count\"],\" truyện.\"],\"xOTzt5\":[\"vừa xong\"],\"xX2JuX\":[\"Vừa chiều cao\"],\"xh1PmA\":[\"Chọn những chương mới nào của truyện này sẽ gửi thông báo cho bạn.\"],\"xvdY9w\":[\"Đã lưu cài đặt thông báo\"],\"y//Pa7\":[\"Lịch sử đang tạm dừng trên thiết bị này. Các chương bạn mở sẽ không được ghi lại cho đến khi bạn bật lại.\"],\"y/GOkj\":[\"Tìm nhóm ở\"],\"y6sq5j\":[\"Đang theo dõi\"],\"y9o+Tq\":[\"Với truyện đọc từ phải sang trái, phím mũi tên đi theo màn hình nên ← sẽ sang trang sau.\"],\"yByRxz\":[\"Tuần này\"],\"yQ2kGp\":[\"Xem thêm\"],\"yQScPF\":[\"Không thể sao chép liên kết. Vui lòng sao chép thủ công.\"],\"yYxB17\":[\"Xóa tất cả\"],\"yjkELF\":[\"Xác nhận mật khẩu mới\"],\"z/rvWY\":[\"Tải chương\"],\"z1Sv0t\":[\"Tùy chỉnh trải nghiệm đọc manga của bạn\"],\"zD0ZZ5\":[\"Cài đặt đọc truyện\"],\"zNoYnX\":[\"Truyện đọc nhiều nhất\"],\"zYQxrZ\":[\"Xóa theo khoảng ngày\"],\"zhrjek\":[\"Nhóm dịch\"],\"zlVPek\":[\"MyAnimeList: tệp XML từ \\\"Export My List\\\" (.xml hoặc .xml.gz).\"],\"zmA6sS\":[\"Trình đọc\"],\"zwBp5t\":[\"Riêng tư\"],\"zxFxcH\":[\"Ghi chú riêng tư\"]}");
\ No newline at end of file
@@ -9,6 +9,7 @@ import { jotaiStore } from './store/appAtoms'
 import { GoogleOAuthProvider } from '@react-oauth/google'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { I18nApp } from './components/I18nApp'
+import { registerServiceWorker } from './lib/serviceWorker'
 
 const router = createRouter({ routeTree });
 
@@ -21,6 +22,8 @@ declare module '@tanstack/react-router' {
 
 const queryClient = new QueryClient();
 
+registerServiceWorker();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <JotaiProvider store={jotaiStore}>
@@ -14,6 +14,7 @@ import {
     Twitter,
 } from 'lucide-react';
 import { MangaCard } from '@/components/manga-card';
+import CreatorFollowButton from '@/components/CreatorFollowButton';
 
 // MangaDex author response type
 interface MangaDexAuthorData {
@@ -214,6 +215,7 @@ const AuthorDetail: React.FC = () => {
                     </div>
 
                     <div className="flex gap-2">
+                        <CreatorFollowButton creatorType="AUTHOR" creatorId={author.data.id} />
                         <Button variant="outline" asChild>
                             <a
                                 href={`https://mangadex.org/author/${author.data.id}`}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Trans } from '@lingui/react/macro';
+import { Link } from '@tanstack/react-router';
+import { Bookmark, BookOpen, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { BookmarkList } from '@/components/bookmarks/BookmarkList';
+import { useBookmarks } from '@/hooks/useBookmarks';
+
+const BookmarksContent: React.FC = () => {
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useBookmarks();
+  const bookmarks = data?.pages.flatMap((page) => page.bookmarks) ?? [];
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-1 flex items-center gap-2">
+          <Bookmark className="h-7 w-7 text-primary" />
+          <Trans>Bookmarks</Trans>
+        </h1>
+        <p className="text-muted-foreground">
+          <Trans>Pages you bookmarked while reading, with your private notes</Trans>
+        </p>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-3">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+          <Trans>Could not load bookmarks.</Trans>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && !error && bookmarks.length === 0 && (
+        <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-dashed border-border bg-muted/20 py-20 text-center">
+          <BookOpen className="h-12 w-12 text-muted-foreground/40" />
+          <div>
+            <p className="text-base font-medium text-foreground"><Trans>No bookmarks yet</Trans></p>
+            <p className="mt-1 text-sm text-muted-foreground">
+              <Trans>Use the bookmark button in the reader to save a page and jot down a note.</Trans>
+            </p>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/reading-history"><Trans>Continue reading</Trans></Link>
+          </Button>
+        </div>
+      )}
+
+      {bookmarks.length > 0 && <BookmarkList bookmarks={bookmarks} showManga />}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Trans>Load more</Trans>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Bookmarks: React.FC = () => (
+  <AuthGuard>
+    <BookmarksContent />
+  </AuthGuard>
+);
+
+export default Bookmarks;
@@ -1,12 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams, useNavigate } from '@tanstack/react-router';
+import { useParams, useNavigate, useSearch } from '@tanstack/react-router';
+import { useQueryClient } from '@tanstack/react-query';
 import { useChapter, useChapterPages, useMangaFeed } from '@/hooks/useMangaDex';
 import type { Chapter } from '@/types/mangadex_types';
 import { ChapterNavigationBar } from '@/components/chapter/ChapterNavigationBar';
-import {
-  ReaderSettingsModal,
-  type ReaderSettings,
-} from '@/components/chapter/ReaderSettingsModal';
+import { PageLoadError } from '@/components/chapter/PageLoadError';
+import { PagedView } from '@/components/chapter/PagedView';
+import { HorizontalPagedView } from '@/components/chapter/HorizontalPagedView';
+import { ZoomIndicator, ZoomLayer } from '@/components/chapter/ZoomLayer';
+import { ReaderSettingsModal, type ReadingDirection } from '@/components/chapter/ReaderSettingsModal';
+import { PageBookmarkDialog } from '@/components/chapter/PageBookmarkDialog';
+import { ReaderPageImage, SharpenFilterDefs } from '@/components/chapter/ReaderPageImage';
+import { AutoScrollControls } from '@/components/chapter/AutoScrollControls';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
 import {
@@ -16,15 +21,54 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { ArrowLeft, ChevronLeft, ChevronRight, Loader2, SquareArrowOutUpRight } from 'lucide-react';
-import useLocalStorage from '@/hooks/useLocalStorage';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  CircleCheck,
+  Download,
+  Loader2,
+  SquareArrowOutUpRight,
+} from 'lucide-react';
+import { useReaderSettings } from '@/hooks/useReaderSettings';
+import { useShortcut } from '@/hooks/useShortcuts';
+import { resolveShortcutBindings } from '@/utils/shortcutUtils';
 import { CommentSection } from '@/components/comments/CommentSection';
-import { useAtom, useSetAtom } from 'jotai'
-import { chapterLanguagesAtom } from '@/store/settingsAtoms'
+import { useAtom, useAtomValue } from 'jotai'
+import { chapterLanguagesAtom, readingDirectionsAtom, shortcutOverridesAtom } from '@/store/settingsAtoms'
 import { LanguageFlag } from '@/components/LanguageFlag';
-import { addToHistoryAtom } from '@/store/historyAtoms';
 import { useAuth } from '@/hooks/useAuth';
 import { trackReadChapter } from '@/lib/analytics';
+import { mangaDexUtils } from '@/utils/mangaDexUtils';
+import {
+  buildPageSpreads,
+  buildPageUrl,
+  buildProxyPageUrl,
+  getPageFit,
+  AUTO_SCROLL_SPEED_STEP,
+  MAX_AUTO_SCROLL_SPEED,
+  MIN_AUTO_SCROLL_SPEED,
+  type ImageQuality,
+  type PageSize,
+} from '@/utils/readerUtils';
+import mangaService from '@/services/manga_service';
+import { useChapterDownloads, useOfflineChapterIds } from '@/hooks/useOfflineChapters';
+import { useReadingProgress } from '@/hooks/useReadingProgress';
+import { useChapterBookmarks } from '@/hooks/useBookmarks';
+import { useRecordHistory } from '@/hooks/useReadingHistory';
+import { useAutoMarkAsRead } from '@/hooks/useReadMarkers';
+import { useZoomPan } from '@/hooks/useZoomPan';
+import { useAutoScroll } from '@/hooks/useAutoScroll';
+import { useIsMobile } from '@/hooks/use_mobile';
+
+// Pause at the end-of-chapter section before auto-scroll opens the next chapter
+const AUTO_ADVANCE_DELAY_MS = 3000;
 
 interface ChapterResponse {
   data: {
@@ -50,6 +94,9 @@ interface ChapterFeedResponse {
 const ChapterReader: React.FC = () => {
   const { chapterId } = useParams({ from: '/chapter/$chapterId' });
   const navigate = useNavigate();
+  // Bookmarks open a chapter at a page with ?page=N (1-based)
+  const { page: linkedPageParam } = useSearch({ strict: false }) as { page?: number | string };
+  const linkedPage = Number(linkedPageParam) || null;
 
   // Fetch chapter data
   const {
@@ -70,8 +117,10 @@ const ChapterReader: React.FC = () => {
     chapterData?.data?.data?.relationships?.find((rel) => rel.type === 'manga')?.id || '';
 
   const [chapterLanguages] = useAtom(chapterLanguagesAtom);
-  const addToHistory = useSetAtom(addToHistoryAtom);
+  const [readingDirections, setReadingDirections] = useAtom(readingDirectionsAtom);
+  const recordHistory = useRecordHistory();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
 
   // Fetch all chapters of this manga
   const { data: chaptersData } = useMangaFeed(
@@ -85,18 +134,39 @@ const ChapterReader: React.FC = () => {
   ) as { data: ChapterFeedResponse | undefined };
 
   // Settings
-  const [settings, setSettings] = useLocalStorage<ReaderSettings>('reader-settings', {
-    readingMode: 'scroll-vertical',
-    imageGap: 4,
-    imageOrientation: 'vertical',
-    showHeader: false,
-  });
+  const [settings, setSettings] = useReaderSettings();
+  const isMobile = useIsMobile();
+  const offlineChapterIds = useOfflineChapterIds();
+  const { isSupported: canDownload, progress: downloadProgress, downloadChapters } = useChapterDownloads();
+  const [downloadError, setDownloadError] = useState(false);
+
+  // Paged reading direction: explicit per-manga choice, else derived from the original language
+  const originalLanguage = (
+    chapterData?.data?.data?.relationships?.find((rel) => rel.type === 'manga')?.attributes as
+      | { originalLanguage?: string }
+      | undefined
+  )?.originalLanguage;
+  const readingDirection: ReadingDirection =
+    readingDirections[mangaId] ?? mangaDexUtils.getDefaultReadingDirection(originalLanguage);
+
+  const handleReadingDirectionChange = (direction: ReadingDirection) => {
+    if (!mangaId) return;
+    setReadingDirections((prev) => ({ ...prev, [mangaId]: direction }));
+  };
 
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [bookmarkDialogOpen, setBookmarkDialogOpen] = useState(false);
   const [navBarVisible, setNavBarVisible] = useState(true);
   const [isAtBottom, setIsAtBottom] = useState(false);
   const [loadedImages, setLoadedImages] = useState<Set<number>>(new Set());
   const [failedImages, setFailedImages] = useState<Set<number>>(new Set());
+  const [currentPage, setCurrentPage] = useState(0);
+  // Natural image sizes, used by double-page mode to detect pages that are already spreads
+  const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({});
+  // Failover step per page: 0 = current at-home server, 1 = freshly requested server, 2 = backend image proxy
+  const [pageAttempts, setPageAttempts] = useState<Record<number, number>>({});
+  // Per-page quality overrides picked from the error panel
+  const [pageQualities, setPageQualities] = useState<Record<number, ImageQuality>>({});
 
   const hideTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -105,10 +175,57 @@ const ChapterReader: React.FC = () => {
   // Refs mirror volatile state so the stable scroll listener never captures stale closures
   const isAtBottomRef = useRef(false);
   const readingModeRef = useRef(settings.readingMode);
+  const readingDirectionRef = useRef(readingDirection);
   const scrollParentRef = useRef<HTMLElement | null>(null);
+  // Page-turn handlers are rebuilt every render (they depend on the chapter list computed
+  // below the early returns); key listeners call through this ref to stay stable.
+  const pageTurnRef = useRef<{ next: () => void; previous: () => void }>({
+    next: () => {},
+    previous: () => {},
+  });
+  // Opens the next chapter when auto-scroll reaches the end; null when there is none to read here
+  const autoAdvanceRef = useRef<(() => void) | null>(null);
+  // Same for chapter switches, which need the filtered chapter list
+  const chapterTurnRef = useRef<{ next: () => void; previous: () => void }>({
+    next: () => {},
+    previous: () => {},
+  });
+  const commentsRef = useRef<HTMLElement>(null);
+  // Scroll position to return to after jumping to the comments with the shortcut
+  const commentsReturnRef = useRef<number | null>(null);
+  // Set when paging backwards past the first page so the previous chapter opens on its last page
+  const openAtLastPageRef = useRef(false);
+  // Pending at-home server request for this chapter; concurrent page failures share it
+  const serverRefreshRef = useRef<Promise<string | undefined> | null>(null);
+  // Page to scroll back to in scroll-vertical mode once its image has loaded and has a real height
+  const resumeScrollPageRef = useRef<number | null>(null);
+  // Chapter already opened at its ?page link; the saved position must not override it
+  const linkedChapterRef = useRef<string | null>(null);
+
+  const resumePosition = useReadingProgress({
+    mangaId,
+    chapterId,
+    chapterNumber: chapterData?.data?.data?.attributes.chapter ?? null,
+    totalPages: pagesData?.chapter?.data.length ?? 0,
+    currentPage,
+    enabled: !!chapterData?.data?.data && !chapterData.data.data.attributes.externalUrl && !!pagesData?.chapter,
+  });
+
+  // Finished: the end of the strip is on screen, or the last page (last spread in double-page mode)
+  const pageCount = pagesData?.chapter?.data.length ?? 0;
+  const lastSpreadSize = settings.readingMode === 'double-page' && !isMobile ? 2 : 1;
+  useAutoMarkAsRead({
+    mangaId,
+    chapterId,
+    finished:
+      !!chapterData?.data?.data &&
+      pageCount > 0 &&
+      (settings.readingMode === 'scroll-vertical' ? isAtBottom : currentPage >= pageCount - lastSpreadSize),
+  });
 
   useEffect(() => { isAtBottomRef.current = isAtBottom; }, [isAtBottom]);
   useEffect(() => { readingModeRef.current = settings.readingMode; }, [settings.readingMode]);
+  useEffect(() => { readingDirectionRef.current = readingDirection; }, [readingDirection]);
 
   const showNavTemporarily = useCallback(() => {
     setNavBarVisible(true);
@@ -118,6 +235,79 @@ const ChapterReader: React.FC = () => {
     }, 5000);
   }, []);
 
+  const hideNav = useCallback(() => {
+    setNavBarVisible(false);
+    if (hideTimeoutRef.current) clearTimeout(hideTimeoutRef.current);
+  }, []);
+
+  // Hands-free scrolling for scroll-vertical. It holds at the end-of-chapter section, which then
+  // opens the next chapter (see below), and while a dialog is open.
+  const {
+    isActive: isAutoScrolling,
+    isPaused: isAutoScrollPaused,
+    start: startAutoScroll,
+    stop: stopAutoScroll,
+    togglePause: toggleAutoScrollPaused,
+    setHovered: setAutoScrollHovered,
+  } = useAutoScroll({
+    getScrollElement: () => scrollParentRef.current,
+    speed: settings.autoScrollSpeed,
+    enabled: settings.readingMode === 'scroll-vertical',
+    hold: isChapterLoading || isPagesLoading || isAtBottom || settingsOpen || bookmarkDialogOpen,
+  });
+
+  // Pausing brings up the nav bar like scrolling up does; resuming puts it away again
+  const toggleAutoScrollPause = useCallback(() => {
+    if (isAutoScrollPaused) hideNav();
+    else showNavTemporarily();
+    toggleAutoScrollPaused();
+  }, [isAutoScrollPaused, hideNav, showNavTemporarily, toggleAutoScrollPaused]);
+
+  const toggleAutoScroll = useCallback(() => {
+    if (readingModeRef.current !== 'scroll-vertical') return;
+    if (isAutoScrolling) {
+      stopAutoScroll();
+    } else {
+      startAutoScroll();
+      hideNav();
+    }
+  }, [isAutoScrolling, startAutoScroll, stopAutoScroll, hideNav]);
+
+  const stepAutoScrollSpeed = (direction: 1 | -1) => {
+    if (readingModeRef.current !== 'scroll-vertical') return;
+    const autoScrollSpeed = Math.min(
+      MAX_AUTO_SCROLL_SPEED,
+      Math.max(MIN_AUTO_SCROLL_SPEED, settings.autoScrollSpeed + direction * AUTO_SCROLL_SPEED_STEP)
+    );
+    setSettings({ ...settings, autoScrollSpeed });
+  };
+
+  // Auto-scroll reached the end of the chapter: continue into the next one, or switch off after the last
+  const isAutoAdvancing = isAutoScrolling && !isAutoScrollPaused && isAtBottom;
+  useEffect(() => {
+    if (!isAutoAdvancing) return;
+    const advance = autoAdvanceRef.current;
+    if (!advance) {
+      stopAutoScroll();
+      return;
+    }
+    const timer = setTimeout(advance, AUTO_ADVANCE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isAutoAdvancing, stopAutoScroll]);
+
+  // Scroll-vertical zoom: the strip wrapper scrolls sideways, MainLayout's <main> scrolls down
+  const stripViewportRef = useRef<HTMLDivElement>(null);
+  const stripContentRef = useRef<HTMLDivElement>(null);
+  const { zoom: stripZoom, reset: resetStripZoom } = useZoomPan({
+    surfaceRef: stripViewportRef,
+    contentRef: stripContentRef,
+    getScrollElements: () => ({ x: stripViewportRef.current, y: scrollParentRef.current }),
+    resetKey: `${chapterId}:${settings.readingMode}`,
+    // Taps only matter while auto-scrolling, where they pause and resume it
+    onTap: () => isAutoScrolling && toggleAutoScrollPause(),
+    enabled: settings.readingMode === 'scroll-vertical' && !isChapterLoading && !isPagesLoading,
+  });
+
   // Effect: find scroll parent + attach scroll listener once content has loaded.
   // Must depend on loading states — on first mount the early-return loading spinner
   // is rendered instead of the scroll container, so scrollContainerRef is null.
@@ -209,6 +399,15 @@ const ChapterReader: React.FC = () => {
     // Clear loaded image list so skeletons show for the new chapter
     setLoadedImages(new Set());
     setFailedImages(new Set());
+    setCurrentPage(0);
+    setPageSizes({});
+    setPageAttempts({});
+    setPageQualities({});
+    serverRefreshRef.current = null;
+    resumeScrollPageRef.current = null;
+    linkedChapterRef.current = null;
+    commentsReturnRef.current = null;
+    setDownloadError(false);
     // Scroll the container back to the top
     if (scrollParentRef.current) {
       scrollParentRef.current.scrollTop = 0;
@@ -217,6 +416,116 @@ const ChapterReader: React.FC = () => {
     showNavTemporarily();
   }, [chapterId, showNavTemporarily]);
 
+  // Toggling data saver changes every URL, so failed pages get a fresh start
+  useEffect(() => {
+    setFailedImages(new Set());
+    setPageAttempts({});
+    setPageQualities({});
+  }, [settings.dataSaver]);
+
+  const scrollToPage = (index: number) => {
+    const pageEl = scrollContainerRef.current?.querySelector(`[data-page-index="${index}"]`);
+    pageEl?.scrollIntoView({ block: 'start' });
+  };
+
+  // Open a bookmarked page once the chapter can be rendered
+  useEffect(() => {
+    const totalPages = pagesData?.chapter?.data.length ?? 0;
+    if (!linkedPage || !totalPages || !chapterData?.data?.data || linkedChapterRef.current === chapterId) return;
+    linkedChapterRef.current = chapterId;
+    openAtLastPageRef.current = false;
+    const index = Math.min(Math.max(1, Math.floor(linkedPage)), totalPages) - 1;
+    setCurrentPage(index);
+    if (readingModeRef.current === 'scroll-vertical') {
+      resumeScrollPageRef.current = index;
+      scrollToPage(index);
+    }
+  }, [linkedPage, chapterId, pagesData, chapterData]);
+
+  // Reopen an unfinished chapter at the page the server last recorded
+  useEffect(() => {
+    if (!resumePosition || openAtLastPageRef.current || linkedChapterRef.current === resumePosition.chapterId) return;
+    setCurrentPage(resumePosition.page);
+    if (readingModeRef.current === 'scroll-vertical') {
+      resumeScrollPageRef.current = resumePosition.page;
+      scrollToPage(resumePosition.page);
+    }
+  }, [resumePosition]);
+
+  // Scroll-vertical mode: the page crossing the middle of the viewport is the current page
+  useEffect(() => {
+    if (settings.readingMode !== 'scroll-vertical' || isChapterLoading || isPagesLoading) return;
+    const scrollEl = scrollParentRef.current;
+    const pageEls = scrollContainerRef.current?.querySelectorAll<HTMLElement>('[data-page-index]');
+    if (!scrollEl || !pageEls?.length) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) setCurrentPage(Number((entry.target as HTMLElement).dataset.pageIndex));
+        });
+      },
+      { root: scrollEl, rootMargin: '-50% 0px -50% 0px' }
+    );
+    pageEls.forEach((el) => observer.observe(el));
+
+    return () => observer.disconnect();
+  }, [chapterId, settings.readingMode, isChapterLoading, isPagesLoading, pagesData]);
+
+  // Land on the last page when the chapter was entered by paging backwards
+  useEffect(() => {
+    if (!openAtLastPageRef.current || !pagesData?.chapter) return;
+    openAtLastPageRef.current = false;
+    setCurrentPage(Math.max(0, pagesData.chapter.data.length - 1));
+  }, [pagesData]);
+
+  // Arrow-key bindings follow the on-screen direction: in RTL the left arrow moves forward
+  const shortcutOverrides = useAtomValue(shortcutOverridesAtom);
+  const turnPageByKey = useCallback((forward: boolean, binding: string | null) => {
+    if (readingModeRef.current === 'scroll-vertical') return;
+    const mirrored = readingDirectionRef.current === 'rtl' && (binding === 'ArrowLeft' || binding === 'ArrowRight');
+    if (forward !== mirrored) pageTurnRef.current.next();
+    else pageTurnRef.current.previous();
+  }, []);
+  const { nextPage: nextPageBinding, previousPage: previousPageBinding } = resolveShortcutBindings(shortcutOverrides);
+  const handleNextPageKey = useCallback(() => turnPageByKey(true, nextPageBinding), [turnPageByKey, nextPageBinding]);
+  const handlePreviousPageKey = useCallback(
+    () => turnPageByKey(false, previousPageBinding),
+    [turnPageByKey, previousPageBinding]
+  );
+  const handleNextChapterKey = useCallback(() => chapterTurnRef.current.next(), []);
+  const handlePreviousChapterKey = useCallback(() => chapterTurnRef.current.previous(), []);
+  const handleToggleSettingsKey = useCallback(() => setSettingsOpen((open) => !open), []);
+  const handleGoToMangaKey = useCallback(() => navigate({ to: `/manga/${mangaId}` }), [navigate, mangaId]);
+  // Jump to the comments, or back to the page being read when already there
+  const handleToggleCommentsKey = useCallback(() => {
+    const scrollEl = scrollParentRef.current;
+    if (!scrollEl || !commentsRef.current) return;
+    if (commentsReturnRef.current !== null) {
+      scrollEl.scrollTo({ top: commentsReturnRef.current });
+      commentsReturnRef.current = null;
+    } else {
+      commentsReturnRef.current = scrollEl.scrollTop;
+      commentsRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, []);
+  useShortcut('nextPage', handleNextPageKey);
+  useShortcut('previousPage', handlePreviousPageKey);
+  useShortcut('nextChapter', handleNextChapterKey);
+  useShortcut('previousChapter', handlePreviousChapterKey);
+  useShortcut('toggleSettings', handleToggleSettingsKey);
+  useShortcut('toggleComments', handleToggleCommentsKey);
+  useShortcut('goToManga', handleGoToMangaKey);
+  const handleBookmarkKey = useCallback(() => {
+    if (user) setBookmarkDialogOpen((open) => !open);
+  }, [user]);
+  useShortcut('bookmarkPage', handleBookmarkKey);
+  useShortcut('toggleAutoScroll', toggleAutoScroll);
+  useShortcut('autoScrollFaster', () => stepAutoScrollSpeed(1));
+  useShortcut('autoScrollSlower', () => stepAutoScrollSpeed(-1));
+
+  const chapterBookmarks = useChapterBookmarks(mangaId, chapterId);
+
   // Track reading history when chapter data is fully loaded
   useEffect(() => {
     if (!chapterData?.data?.data || !mangaId) return;
@@ -237,7 +546,7 @@ const ChapterReader: React.FC = () => {
       .map((r) => ({ id: r.id, name: (r.attributes as { name?: string } | undefined)?.name ?? '' }))
       .filter((g) => g.name);
     const coverUrl = (mangaRel?.attributes as { coverUrl?: string } | undefined)?.coverUrl ?? null;
-    addToHistory({
+    recordHistory({
       chapterId: ch.id,
       mangaId,
       mangaTitle: resolvedMangaTitle,
@@ -277,22 +586,86 @@ const ChapterReader: React.FC = () => {
     }
   };
 
-  const handleImageLoad = (index: number) => {
+  const handleImageLoad = (index: number, e?: React.SyntheticEvent<HTMLImageElement>) => {
     setLoadedImages((prev) => new Set(prev).add(index));
+    // The resumed page was scrolled to while still a placeholder; settle on its real position
+    if (resumeScrollPageRef.current === index) {
+      resumeScrollPageRef.current = null;
+      scrollToPage(index);
+    }
+    const img = e?.currentTarget;
+    if (img?.naturalWidth && !pageSizes[index]) {
+      const size = { width: img.naturalWidth, height: img.naturalHeight };
+      setPageSizes((prev) => ({ ...prev, [index]: size }));
+    }
+  };
+
+  // At-home nodes come and go, so a failed page first asks the backend for a new server.
+  // The refreshed baseUrl is written to the query cache, which re-renders every page against it.
+  const refreshAtHomeServer = () => {
+    if (!serverRefreshRef.current) {
+      serverRefreshRef.current = mangaService
+        .getChapterPages(chapterId)
+        .then((freshPages) => {
+          queryClient.setQueryData(['chapter', chapterId, 'pages'], freshPages);
+          return freshPages.baseUrl;
+        })
+        .catch((error) => {
+          console.error('Failed to request a new at-home server:', error);
+          return undefined;
+        });
+    }
+    return serverRefreshRef.current;
+  };
+
+  const setPageAttempt = (index: number, attempt: number) => {
+    setPageAttempts((prev) => ({ ...prev, [index]: attempt }));
   };
 
-  const handleImageError = (index: number, e: React.SyntheticEvent<HTMLImageElement>) => {
-    // If it fails on the @Home node, fallback to the main MangaDex uploads origin
-    if (!failedImages.has(index)) {
+  const handleImageError = (index: number) => {
+    const attempt = pageAttempts[index] ?? 0;
+    if (attempt === 0) {
+      const failedBaseUrl = pagesData?.baseUrl;
+      setPageAttempt(index, 1);
+      const refresh = refreshAtHomeServer();
+      refresh.then((freshBaseUrl) => {
+        // Ignore results superseded by a chapter change or a manual retry
+        if (serverRefreshRef.current !== refresh) return;
+        // Same node again (or no answer): the image URL would not change, so skip ahead
+        if (!freshBaseUrl || freshBaseUrl === failedBaseUrl) setPageAttempt(index, 2);
+      });
+    } else if (attempt === 1) {
+      // The fresh at-home server failed too: go through the backend image proxy
+      setPageAttempt(index, 2);
+    } else {
       setFailedImages((prev) => new Set(prev).add(index));
-      const target = e.currentTarget;
-      const filename = pages?.data[index];
-      if (filename && pages?.hash) {
-        target.src = `https://uploads.mangadex.org/data/${pages.hash}/${filename}`;
-      }
     }
   };
 
+  const getPageQuality = (index: number): ImageQuality =>
+    pageQualities[index] ?? (settings.dataSaver ? 'data-saver' : 'data');
+
+  const resetFailedPage = (index: number) => {
+    setFailedImages((prev) => {
+      const next = new Set(prev);
+      next.delete(index);
+      return next;
+    });
+    setPageAttempt(index, 0);
+  };
+
+  const handleRetryImage = (index: number) => {
+    // A manual retry may ask for yet another server if this page fails again
+    serverRefreshRef.current = null;
+    resetFailedPage(index);
+  };
+
+  const handleSwitchImageQuality = (index: number) => {
+    const quality = getPageQuality(index);
+    setPageQualities((prev) => ({ ...prev, [index]: quality === 'data' ? 'data-saver' : 'data' }));
+    resetFailedPage(index);
+  };
+
   if (isChapterLoading || isPagesLoading) {
     return (
       <div className="min-h-screen bg-neutral-900 flex items-center justify-center">
@@ -312,6 +685,16 @@ const ChapterReader: React.FC = () => {
           <p className="text-neutral-400">
             Không thể tải chương truyện. Vui lòng thử lại sau.
           </p>
+          {offlineChapterIds.has(chapterId) && (
+            <Button
+              variant="outline"
+              onClick={() => navigate({ to: '/offline/$chapterId', params: { chapterId } })}
+              className="mt-4 mr-2 border-neutral-600 bg-neutral-800 text-white hover:bg-neutral-700 hover:text-white"
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Đọc bản đã tải
+            </Button>
+          )}
           <Button onClick={() => navigate({ to: '/' })} className="mt-4">
             <ArrowLeft className="mr-2 h-4 w-4" />
             Về trang chủ
@@ -337,9 +720,13 @@ const ChapterReader: React.FC = () => {
     );
   }
 
-  const imageUrls = pages.data.map(
-    (filename) => `${baseUrl}/data/${pages.hash}/${filename}`
-  );
+  const imageUrls = pages.data.map((_, index) => {
+    const quality = getPageQuality(index);
+    const filename = (quality === 'data-saver' ? pages.dataSaver : pages.data)[index];
+    return (pageAttempts[index] ?? 0) >= 2
+      ? buildProxyPageUrl(chapterId, quality, pages.hash, filename)
+      : buildPageUrl(baseUrl, quality, pages.hash, filename);
+  });
 
   const mangaRelationship = chapter.relationships.find((rel) => rel.type === 'manga');
   const mangaAttributes = mangaRelationship?.attributes as { title?: Record<string, string> } | undefined;
@@ -373,6 +760,82 @@ const ChapterReader: React.FC = () => {
   const previousChapter = currentIndex < filteredChapters.length - 1 ? filteredChapters[currentIndex + 1] : null;
   const nextChapter = currentIndex > 0 ? filteredChapters[currentIndex - 1] : null;
 
+  // Downloads: this chapter plus the following ones of the same group and language
+  const currentDownload = downloadProgress[chapter.id];
+  const isCurrentDownloaded = offlineChapterIds.has(chapter.id) || currentDownload?.status === 'complete';
+  const isCurrentDownloading = currentDownload?.status === 'queued' || currentDownload?.status === 'downloading';
+  const handleDownload = async (nextCount: number) => {
+    const following = filteredChapters.slice(Math.max(0, currentIndex - nextCount), currentIndex).reverse();
+    const queue = [chapter, ...following].filter((ch) => !offlineChapterIds.has(ch.id));
+    setDownloadError(false);
+    try {
+      await downloadChapters(queue, {
+        mangaId,
+        mangaTitle,
+        coverUrl: (mangaRelationship?.attributes as { coverUrl?: string } | undefined)?.coverUrl ?? null,
+      });
+    } catch (error) {
+      console.error('Failed to start chapter download:', error);
+      setDownloadError(true);
+    }
+  };
+
+  // Spreads need desktop width; on phones double-page mode falls back to single pages
+  const isDoublePage = settings.readingMode === 'double-page' && !isMobile;
+  const isPagedView = settings.readingMode === 'single-page' || settings.readingMode === 'double-page';
+  const isHorizontal = settings.readingMode === 'scroll-horizontal';
+  const stripFit = getPageFit(settings.fitMode, settings.customZoom, 'strip');
+  const lastPageIndex = imageUrls.length - 1;
+  const safePage = Math.min(currentPage, Math.max(0, lastPageIndex));
+  // Paged modes turn through "spreads"; outside double-page mode each spread is one page
+  const spreads = isDoublePage
+    ? buildPageSpreads(imageUrls.length, pageSizes, settings.doublePageShift)
+    : imageUrls.map((_, index) => [index]);
+  const spreadIndex = Math.max(0, spreads.findIndex((spread) => spread.includes(safePage)));
+  const currentSpread = spreads[spreadIndex] ?? [safePage];
+  const lastVisiblePage = currentSpread[currentSpread.length - 1];
+
+  const goToPage = (index: number) => {
+    setCurrentPage(index);
+    if (scrollParentRef.current) scrollParentRef.current.scrollTop = 0;
+  };
+
+  // At the chapter boundaries, page turns continue into the adjacent chapter
+  pageTurnRef.current = {
+    next: () => {
+      if (spreadIndex < spreads.length - 1) {
+        goToPage(spreads[spreadIndex + 1][0]);
+      } else if (nextChapter) {
+        handleChapterChange(nextChapter.id);
+      }
+    },
+    previous: () => {
+      if (spreadIndex > 0) {
+        goToPage(spreads[spreadIndex - 1][0]);
+      } else if (previousChapter) {
+        openAtLastPageRef.current = !previousChapter.attributes.externalUrl;
+        handleChapterChange(previousChapter.id);
+      }
+    },
+  };
+
+  chapterTurnRef.current = {
+    next: () => nextChapter && handleChapterChange(nextChapter.id),
+    previous: () => previousChapter && handleChapterChange(previousChapter.id),
+  };
+
+  autoAdvanceRef.current =
+    nextChapter && !nextChapter.attributes.externalUrl ? () => handleChapterChange(nextChapter.id) : null;
+
+  const toggleNavBar = () => {
+    if (navBarVisible) {
+      setNavBarVisible(false);
+      if (hideTimeoutRef.current) clearTimeout(hideTimeoutRef.current);
+    } else {
+      showNavTemporarily();
+    }
+  };
+
   const getChapterLabel = (ch: Chapter) => {
     const num = ch.attributes.chapter;
     const title = ch.attributes.title || '';
@@ -381,6 +844,7 @@ const ChapterReader: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-neutral-900" ref={scrollContainerRef}>
+      {settings.imageFilters.sharpen && <SharpenFilterDefs />}
       {/* Header - Only show if settings.showHeader is true */}
       {settings.showHeader && (
         <header className="sticky top-0 z-40 w-full bg-black/80 backdrop-blur-md border-b border-neutral-800">
@@ -409,42 +873,122 @@ const ChapterReader: React.FC = () => {
       )}
 
       {/* Main content - Image list */}
-      <main className="pb-32">
-        <div className="flex flex-col items-center">
-          {imageUrls.map((url: string, index: number) => {
-            const marginTopValue = index === 0 ? 0 : settings.imageGap;
-            return (
-              <div
-                key={index}
-                className={`relative ${settings.imageOrientation === 'vertical' ? 'w-full' : 'w-auto'
-                  }`}
-                {...(marginTopValue > 0 && { style: { marginTop: marginTopValue } })}
-              >
-                {!loadedImages.has(index) && (
-                  <Skeleton
-                    className={`${settings.imageOrientation === 'vertical'
-                      ? 'w-full h-[800px]'
-                      : 'w-[600px] h-[800px]'
-                      } bg-neutral-800`}
-                  />
-                )}
-                <img
-                  src={url}
-                  alt={`Page ${index + 1}`}
-                  className={`${settings.imageOrientation === 'vertical' ? 'w-full h-auto' : 'h-screen w-auto'
-                    } ${!loadedImages.has(index) ? 'absolute opacity-0 pointer-events-none' : ''}`}
-                  onLoad={() => handleImageLoad(index)}
-                  onError={(e) => handleImageError(index, e)}
-                  referrerPolicy="no-referrer"
-                  loading="lazy"
-                />
-              </div>
-            );
-          })}
-
-
-        </div>
-      </main>
+      {isPagedView ? (
+        <main>
+          <PagedView
+            imageUrls={imageUrls}
+            pageIndices={currentSpread}
+            loadedImages={loadedImages}
+            failedImages={failedImages}
+            direction={readingDirection}
+            fitMode={settings.fitMode}
+            customZoom={settings.customZoom}
+            imageFilters={settings.imageFilters}
+            onPrevious={() => pageTurnRef.current.previous()}
+            onNext={() => pageTurnRef.current.next()}
+            onToggleNav={toggleNavBar}
+            onImageLoad={handleImageLoad}
+            onImageError={handleImageError}
+            getPageQuality={getPageQuality}
+            onRetryImage={handleRetryImage}
+            onSwitchImageQuality={handleSwitchImageQuality}
+          />
+          {/* Warm the browser cache for the following pages; their sizes also settle upcoming spreads */}
+          {imageUrls.slice(lastVisiblePage + 1, lastVisiblePage + (isDoublePage ? 3 : 2)).map((url, offset) => (
+            <img
+              key={url}
+              src={url}
+              alt=""
+              className="hidden"
+              referrerPolicy="no-referrer"
+              onLoad={(e) => handleImageLoad(lastVisiblePage + 1 + offset, e)}
+            />
+          ))}
+        </main>
+      ) : isHorizontal ? (
+        <main>
+          <HorizontalPagedView
+            imageUrls={imageUrls}
+            direction={readingDirection}
+            fitMode={settings.fitMode}
+            customZoom={settings.customZoom}
+            imageFilters={settings.imageFilters}
+            currentPage={safePage}
+            loadedImages={loadedImages}
+            failedImages={failedImages}
+            hasNextChapter={!!nextChapter}
+            onPageChange={setCurrentPage}
+            onPrevious={() => pageTurnRef.current.previous()}
+            onNext={() => pageTurnRef.current.next()}
+            onNextChapter={() => nextChapter && handleChapterChange(nextChapter.id)}
+            onToggleNav={toggleNavBar}
+            onImageLoad={handleImageLoad}
+            onImageError={handleImageError}
+            getPageQuality={getPageQuality}
+            onRetryImage={handleRetryImage}
+            onSwitchImageQuality={handleSwitchImageQuality}
+          />
+        </main>
+      ) : (
+        <main className="pb-32">
+          <div ref={stripViewportRef} className="overflow-x-auto touch-pan-x touch-pan-y">
+            <ZoomLayer zoom={stripZoom} contentRef={stripContentRef} contentClassName="flex flex-col items-center">
+              {imageUrls.map((url: string, index: number) => {
+                const marginTopValue = index === 0 ? 0 : settings.imageGap;
+                return (
+                  <div
+                    key={index}
+                    data-page-index={index}
+                    className="relative w-full"
+                    {...(marginTopValue > 0 && { style: { marginTop: marginTopValue } })}
+                  >
+                    {failedImages.has(index) ? (
+                      <div className="flex justify-center px-4 py-16">
+                        <PageLoadError
+                          pageNumber={index + 1}
+                          quality={getPageQuality(index)}
+                          onRetry={() => handleRetryImage(index)}
+                          onSwitchQuality={() => handleSwitchImageQuality(index)}
+                        />
+                      </div>
+                    ) : !loadedImages.has(index) && (
+                      <Skeleton
+                        className={`${settings.fitMode === 'auto' || settings.fitMode === 'width'
+                          ? 'w-full h-[800px]'
+                          : 'mx-auto w-[600px] max-w-full h-[800px]'
+                          } bg-neutral-800`}
+                      />
+                    )}
+                    <ReaderPageImage
+                      src={url}
+                      filters={settings.imageFilters}
+                      alt={`Page ${index + 1}`}
+                      className={`block mx-auto ${stripFit.className} ${!loadedImages.has(index) ? 'absolute opacity-0 pointer-events-none' : ''} ${failedImages.has(index) ? 'hidden' : ''}`}
+                      style={stripFit.style}
+                      onLoad={(e) => handleImageLoad(index, e)}
+                      onError={() => handleImageError(index)}
+                      referrerPolicy="no-referrer"
+                      loading="lazy"
+                    />
+                  </div>
+                );
+              })}
+            </ZoomLayer>
+          </div>
+          <ZoomIndicator scale={stripZoom.scale} onReset={resetStripZoom} />
+          {isAutoScrolling && (
+            <AutoScrollControls
+              isPaused={isAutoScrollPaused}
+              speed={settings.autoScrollSpeed}
+              isAdvancing={isAutoAdvancing && !!autoAdvanceRef.current}
+              onTogglePause={toggleAutoScrollPause}
+              onSpeedStep={stepAutoScrollSpeed}
+              onStop={stopAutoScroll}
+              onHoverChange={setAutoScrollHovered}
+            />
+          )}
+        </main>
+      )}
 
       {/* Floating Chapter Navigation Bar — hidden when end-of-chapter section is visible */}
       {filteredChapters.length > 0 && (
@@ -453,6 +997,10 @@ const ChapterReader: React.FC = () => {
           allChapters={filteredChapters}
           onChapterChange={handleChapterChange}
           onSettingsClick={() => setSettingsOpen(true)}
+          onBookmarkClick={user ? () => setBookmarkDialogOpen(true) : undefined}
+          onAutoScrollClick={settings.readingMode === 'scroll-vertical' ? toggleAutoScroll : undefined}
+          isAutoScrolling={isAutoScrolling}
+          isBookmarked={chapterBookmarks.has(safePage + 1)}
           visible={navBarVisible && !isAtBottom}
         />
       )}
@@ -521,20 +1069,68 @@ const ChapterReader: React.FC = () => {
               </Button>
             </div>
 
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setSettingsOpen(true)}
-              className="text-neutral-400 hover:text-white hover:bg-neutral-700"
-            >
-              Cài đặt đọc truyện
-            </Button>
+            <div className="flex items-center gap-2 flex-wrap justify-center">
+              {canDownload && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-neutral-400 hover:text-white hover:bg-neutral-700"
+                    >
+                      {isCurrentDownloaded ? (
+                        <CircleCheck className="h-4 w-4 mr-1 text-emerald-500" />
+                      ) : isCurrentDownloading ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4 mr-1" />
+                      )}
+                      {isCurrentDownloaded
+                        ? 'Đã tải xuống'
+                        : isCurrentDownloading && currentDownload.total > 0
+                          ? `Đang tải ${Math.round((currentDownload.done / currentDownload.total) * 100)}%`
+                          : 'Tải xuống'}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="bg-neutral-800 border-neutral-600 text-white">
+                    <DropdownMenuItem
+                      disabled={isCurrentDownloaded || isCurrentDownloading}
+                      onClick={() => handleDownload(0)}
+                      className="focus:bg-neutral-700 focus:text-white"
+                    >
+                      Tải chương này
+                    </DropdownMenuItem>
+                    {[5, 10].map((count) => (
+                      <DropdownMenuItem
+                        key={count}
+                        disabled={!nextChapter}
+                        onClick={() => handleDownload(count)}
+                        className="focus:bg-neutral-700 focus:text-white"
+                      >
+                        Tải chương này và {count} chương tiếp
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSettingsOpen(true)}
+                className="text-neutral-400 hover:text-white hover:bg-neutral-700"
+              >
+                Cài đặt đọc truyện
+              </Button>
+            </div>
+            {downloadError && (
+              <p className="text-sm text-red-400">Không thể bắt đầu tải xuống. Vui lòng thử lại.</p>
+            )}
           </div>
         </div>
       )}
 
       {/* Comments Section */}
-      <section className="bg-neutral-800 border-t border-neutral-700 py-8">
+      <section ref={commentsRef} className="bg-neutral-800 border-t border-neutral-700 py-8">
         <div className="container mx-auto px-4 max-w-4xl">
           <CommentSection mangaId={mangaId} chapterId={chapterId} />
         </div>
@@ -546,7 +1142,26 @@ const ChapterReader: React.FC = () => {
         onOpenChange={setSettingsOpen}
         settings={settings}
         onSettingsChange={setSettings}
+        readingDirection={readingDirection}
+        onReadingDirectionChange={handleReadingDirectionChange}
       />
+
+      {user && (
+        <PageBookmarkDialog
+          open={bookmarkDialogOpen}
+          onOpenChange={setBookmarkDialogOpen}
+          target={{
+            mangaId,
+            source: 'MANGADEX',
+            chapterId,
+            chapterNumber: chapterNumber && Number.isFinite(Number(chapterNumber)) ? Number(chapterNumber) : null,
+            pageNumber: safePage + 1,
+            mangaTitle,
+            chapterTitle: chapterTitle || null,
+          }}
+          bookmark={chapterBookmarks.get(safePage + 1)}
+        />
+      )}
     </div>
   );
 };
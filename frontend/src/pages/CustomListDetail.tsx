@@ -0,0 +1,314 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate, useParams } from '@tanstack/react-router';
+import { ArrowDown, ArrowLeft, ArrowUp, BookOpen, Pencil, Share2, Trash2, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ListFormDialog } from '@/components/lists/ListFormDialog';
+import { listService, type CustomListDetail as ListDetail, type CustomListItem } from '@/services/list_service';
+import { LIST_VISIBILITY_LABELS } from '@/utils/listVisibilityUtils';
+import { mangaDexUtils } from '@/utils/mangaDexUtils';
+import { useToast } from '@/hooks/use_toast';
+
+function getItemTitle(item: CustomListItem): string {
+  return item.manga?.title ?? item.mangaTitle ?? item.externalMangaId ?? 'Unknown';
+}
+
+function getItemCover(item: CustomListItem): string | null {
+  if (item.manga?.coverPublicId) {
+    return mangaDexUtils.getLocalCoverUrl(item.manga.id);
+  }
+  return item.coverUrl;
+}
+
+const CustomListDetail: React.FC = () => {
+  const { listId } = useParams({ from: '/list/$listId' });
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { _ } = useLingui();
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const listQueryKey = ['lists', 'detail', listId];
+  const { data: list, isLoading, error } = useQuery({
+    queryKey: listQueryKey,
+    queryFn: () => listService.getList(listId),
+    retry: false,
+  });
+
+  const showError = (err: unknown) => {
+    toast({
+      title: t`Error`,
+      description: err instanceof Error ? err.message : t`Something went wrong.`,
+      variant: 'destructive',
+    });
+  };
+
+  /** Apply a change to the shown list right away and put it back if the server refuses it */
+  const updateItems = async (items: CustomListItem[], save: () => Promise<void>) => {
+    if (!list) return;
+    queryClient.setQueryData<ListDetail>(listQueryKey, { ...list, items, itemCount: items.length });
+    setIsSaving(true);
+    try {
+      await save();
+      queryClient.invalidateQueries({ queryKey: ['lists'], refetchType: 'none' });
+    } catch (err) {
+      queryClient.setQueryData<ListDetail>(listQueryKey, list);
+      showError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    if (!list) return;
+    const items = [...list.items];
+    [items[index], items[index + offset]] = [items[index + offset], items[index]];
+    updateItems(items, () => listService.reorderItems(list.id, items.map((item) => item.id)));
+  };
+
+  const handleRemove = (item: CustomListItem) => {
+    if (!list) return;
+    const mangaId = item.externalMangaId ?? item.mangaId ?? '';
+    updateItems(
+      list.items.filter((other) => other.id !== item.id),
+      () => listService.removeManga(list.id, mangaId, item.mangaSource)
+    );
+  };
+
+  const handleDelete = async () => {
+    if (!list) return;
+    try {
+      await listService.deleteList(list.id);
+      queryClient.invalidateQueries({ queryKey: ['lists'] });
+      toast({ title: t`List deleted` });
+      navigate({ to: '/lists' });
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleShareLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: t`Link copied`,
+        description:
+          list?.visibility === 'PRIVATE'
+            ? t`This list is private. Make it unlisted or public so others can open the link.`
+            : t`Anyone with the link can view this list.`,
+      });
+    } catch {
+      toast({
+        title: t`Clipboard error`,
+        description: t`We could not copy the link. Please copy it manually.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-5 w-1/2" />
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-24 rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !list) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center space-y-4">
+          <p className="text-muted-foreground"><Trans>This list does not exist or is private.</Trans></p>
+          <Button variant="outline" asChild>
+            <Link to="/lists"><Trans>Browse lists</Trans></Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const count = list.itemCount;
+  const ownerName = list.user.displayName ?? t`Unknown user`;
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" className="px-2" asChild>
+        <Link to="/lists">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          <Trans>Lists</Trans>
+        </Link>
+      </Button>
+
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-2 min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <h1 className="text-3xl font-bold text-foreground break-words">{list.name}</h1>
+            <Badge variant="outline">{_(LIST_VISIBILITY_LABELS[list.visibility])}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            <Trans>By {ownerName} · {count} manga</Trans>
+          </p>
+          {list.description && (
+            <p className="text-muted-foreground whitespace-pre-line">{list.description}</p>
+          )}
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <Button variant="outline" size="sm" onClick={handleShareLink}>
+            <Share2 className="mr-2 h-4 w-4" />
+            <Trans>Share</Trans>
+          </Button>
+          {list.isOwner && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                <Trans>Edit</Trans>
+              </Button>
+              <Button variant="outline" size="sm" className="text-destructive" onClick={() => setDeleteOpen(true)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                <Trans>Delete</Trans>
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Items */}
+      {list.items.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            {list.isOwner ? (
+              <Trans>This list is empty. Use "Add to list" on any manga to add it here.</Trans>
+            ) : (
+              <Trans>This list is empty.</Trans>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <ol className="space-y-3">
+          {list.items.map((item, index) => {
+            const title = getItemTitle(item);
+            const cover = getItemCover(item);
+
+            return (
+              <li key={item.id}>
+                <Card>
+                  <CardContent className="flex items-center gap-4 p-3">
+                    <span className="w-6 text-right text-sm font-semibold text-muted-foreground">{index + 1}</span>
+                    <div className="h-20 w-14 shrink-0 overflow-hidden rounded bg-muted flex items-center justify-center">
+                      {cover ? (
+                        <img src={cover} alt={title} referrerPolicy="no-referrer" className="h-full w-full object-cover" />
+                      ) : (
+                        <BookOpen className="h-6 w-6 text-muted-foreground/30" />
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      {item.mangaSource === 'MANGADEX' && item.externalMangaId ? (
+                        <Link
+                          to="/manga/$mangaId"
+                          params={{ mangaId: item.externalMangaId }}
+                          className="font-semibold line-clamp-2 hover:text-rose-500 hover:underline"
+                        >
+                          {title}
+                        </Link>
+                      ) : (
+                        <p className="font-semibold line-clamp-2">{title}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {item.mangaSource === 'MANGADEX' ? 'MangaDex' : 'Local'}
+                      </p>
+                    </div>
+                    {list.isOwner && (
+                      <div className="flex shrink-0 items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t`Move up`}
+                          disabled={index === 0 || isSaving}
+                          onClick={() => handleMove(index, -1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t`Move down`}
+                          disabled={index === list.items.length - 1 || isSaving}
+                          onClick={() => handleMove(index, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t`Remove from list`}
+                          disabled={isSaving}
+                          onClick={() => handleRemove(item)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {list.isOwner && (
+        <>
+          <ListFormDialog
+            open={editOpen}
+            onOpenChange={setEditOpen}
+            list={list}
+            onSaved={() => {
+              setEditOpen(false);
+              queryClient.invalidateQueries({ queryKey: ['lists'] });
+            }}
+          />
+
+          <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle><Trans>Delete this list?</Trans></AlertDialogTitle>
+                <AlertDialogDescription>
+                  <Trans>The list and its order will be permanently deleted. The manga themselves are not affected.</Trans>
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel><Trans>Cancel</Trans></AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}><Trans>Delete</Trans></AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomListDetail;
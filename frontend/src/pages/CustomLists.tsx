@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { useLingui } from '@lingui/react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from '@tanstack/react-router';
+import { Globe, ListPlus, Loader2, Lock, Link2, ListOrdered } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ListFormDialog } from '@/components/lists/ListFormDialog';
+import { listService, type CustomListSummary, type ListVisibility } from '@/services/list_service';
+import { LIST_VISIBILITY_LABELS } from '@/utils/listVisibilityUtils';
+import { useAuth } from '@/hooks/useAuth';
+
+const VISIBILITY_ICONS: Record<ListVisibility, React.ElementType> = {
+  PRIVATE: Lock,
+  UNLISTED: Link2,
+  PUBLIC: Globe,
+};
+
+const ListCard: React.FC<{ list: CustomListSummary; showOwner?: boolean }> = ({ list, showOwner }) => {
+  const { _ } = useLingui();
+  const VisibilityIcon = VISIBILITY_ICONS[list.visibility];
+  const count = list.itemCount;
+
+  return (
+    <Link to="/list/$listId" params={{ listId: list.id }}>
+      <Card className="h-full hover:shadow-lg transition-shadow">
+        <CardContent className="p-5 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="font-semibold line-clamp-1 break-all">{list.name}</h3>
+            {!showOwner && (
+              <Badge variant="outline" className="shrink-0 gap-1">
+                <VisibilityIcon className="h-3 w-3" />
+                {_(LIST_VISIBILITY_LABELS[list.visibility])}
+              </Badge>
+            )}
+          </div>
+          {list.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{list.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {showOwner && list.user?.displayName && <>{list.user.displayName} · </>}
+            <Trans>{count} manga</Trans>
+          </p>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+};
+
+const MyLists: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const { data: lists, isLoading, error } = useQuery({
+    queryKey: ['lists', 'mine'],
+    queryFn: () => listService.getUserLists(),
+  });
+
+  const handleCreated = (list: CustomListSummary) => {
+    setCreateOpen(false);
+    queryClient.invalidateQueries({ queryKey: ['lists'] });
+    navigate({ to: '/list/$listId', params: { listId: list.id } });
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold"><Trans>Your lists</Trans></h2>
+        <Button size="sm" onClick={() => setCreateOpen(true)}>
+          <ListPlus className="mr-2 h-4 w-4" />
+          <Trans>New list</Trans>
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-28 rounded-xl" />
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive"><Trans>Failed to load your lists. Please try again.</Trans></p>
+      )}
+
+      {lists && lists.length === 0 && (
+        <Card>
+          <CardContent className="p-10 text-center text-muted-foreground">
+            <Trans>You have no lists yet. Create one here, or use "Add to list" on any manga.</Trans>
+          </CardContent>
+        </Card>
+      )}
+
+      {lists && lists.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {lists.map((list) => (
+            <ListCard key={list.id} list={list} />
+          ))}
+        </div>
+      )}
+
+      <ListFormDialog open={createOpen} onOpenChange={setCreateOpen} onSaved={handleCreated} />
+    </section>
+  );
+};
+
+const CommunityLists: React.FC = () => {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery({
+    queryKey: ['lists', 'public'],
+    queryFn: ({ pageParam }) => listService.getPublicLists(pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const lists = data?.pages.flatMap((page) => page.lists) ?? [];
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold"><Trans>Community lists</Trans></h2>
+
+      {isLoading && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-28 rounded-xl" />
+          ))}
+        </div>
+      )}
+
+      {!isLoading && lists.length === 0 && (
+        <p className="text-sm text-muted-foreground"><Trans>No public lists yet.</Trans></p>
+      )}
+
+      {lists.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {lists.map((list) => (
+            <ListCard key={list.id} list={list} showOwner />
+          ))}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Trans>Load more</Trans>
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+const CustomLists: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-2">
+          <ListOrdered className="h-7 w-7" />
+          <Trans>Lists</Trans>
+        </h1>
+        <p className="text-muted-foreground"><Trans>Collect manga into your own ordered lists and share them.</Trans></p>
+      </div>
+
+      {user && <MyLists />}
+      <CommunityLists />
+    </div>
+  );
+};
+
+export default CustomLists;
@@ -1,19 +1,37 @@
 import React, { useState } from 'react';
 import { Trans } from '@lingui/react/macro';
-import { useQuery } from '@tanstack/react-query';
+import { useLingui } from '@lingui/react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Link } from '@tanstack/react-router';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Heart, BookOpen, Calendar, Rss, RefreshCw } from 'lucide-react';
-import { followService, type FollowedManga } from '@/services/follow_service';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Heart, BookOpen, Calendar, CheckSquare, Rss, RefreshCw, Upload } from 'lucide-react';
+import { followService, READING_STATUSES, type FollowedManga, type ReadingStatus } from '@/services/follow_service';
+import { READING_STATUS_LABELS } from '@/utils/readingStatusUtils';
+import { mangaDexUtils } from '@/utils/mangaDexUtils';
 import { AuthGuard } from '@/components/auth/AuthGuard';
+import { LibraryImportDialog } from '@/components/favorites/LibraryImportDialog';
+import { LibraryExportMenu } from '@/components/favorites/LibraryExportMenu';
+import { FollowedCreators } from '@/components/favorites/FollowedCreators';
+import { BulkActionBar } from '@/components/favorites/BulkActionBar';
+import { cn } from '@/lib/utils';
 
 import FollowButton from '@/components/FollowButton';
 
+// 'ALL' lists every shelf together
+type Shelf = ReadingStatus | 'ALL';
+
 const FavoritesContent: React.FC = () => {
+  const { _ } = useLingui();
+  const queryClient = useQueryClient();
+  const [shelf, setShelf] = useState<Shelf>('ALL');
   const [page, setPage] = useState(1);
+  const [importOpen, setImportOpen] = useState(false);
+  // Follow ids picked for a bulk action; null when not selecting
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
   const limit = 20;
 
   const {
@@ -22,15 +40,29 @@ const FavoritesContent: React.FC = () => {
     error,
     refetch,
   } = useQuery({
-    queryKey: ['follows', page, limit],
-    queryFn: () => followService.getUserFollows({ page, limit }),
+    queryKey: ['follows', shelf, page, limit],
+    queryFn: () => followService.getUserFollows({ page, limit, status: shelf === 'ALL' ? undefined : shelf }),
     staleTime: 30_000,
   });
 
+  // Moving or unfollowing a manga changes the shelves and their counts
+  const refreshShelves = () => queryClient.invalidateQueries({ queryKey: ['follows'] });
+  const counts = data?.counts;
+  const totalFollowing = counts ? Object.values(counts).reduce((sum, count) => sum + count, 0) : 0;
+
   const follows: FollowedManga[] = data?.data ?? [];
-  const total = data?.total ?? 0;
   const hasMore = data?.hasMore ?? false;
 
+  const toggleSelected = (followId: string) => {
+    setSelectedIds((current) => {
+      if (!current) return current;
+      const next = new Set(current);
+      if (next.has(followId)) next.delete(followId);
+      else next.add(followId);
+      return next;
+    });
+  };
+
   const completedCount = follows.filter(
     (f) => f.manga?.status === 'completed'
   ).length;
@@ -47,6 +79,19 @@ const FavoritesContent: React.FC = () => {
           <p className="text-muted-foreground"><Trans>Manga you're following</Trans></p>
         </div>
         <div className="flex gap-2">
+          <Button
+            variant={selectedIds ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setSelectedIds((current) => (current ? null : new Set()))}
+          >
+            <CheckSquare className="mr-2 h-4 w-4" />
+            <Trans>Select</Trans>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            <Trans>Import</Trans>
+          </Button>
+          <LibraryExportMenu />
           <Button variant="outline" size="sm" asChild>
             <Link to="/latest-updates">
               <Rss className="mr-2 h-4 w-4" />
@@ -59,6 +104,8 @@ const FavoritesContent: React.FC = () => {
         </div>
       </div>
 
+      <LibraryImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={refreshShelves} />
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
@@ -66,7 +113,7 @@ const FavoritesContent: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-muted-foreground"><Trans>Total Following</Trans></p>
-                <p className="text-2xl font-bold">{isLoading ? '—' : total}</p>
+                <p className="text-2xl font-bold">{isLoading ? '—' : totalFollowing}</p>
               </div>
               <Heart className="h-8 w-8 text-red-500" />
             </div>
@@ -98,6 +145,36 @@ const FavoritesContent: React.FC = () => {
         </Card>
       </div>
 
+      <FollowedCreators />
+
+      {/* Shelves */}
+      <Tabs value={shelf} onValueChange={(value) => { setShelf(value as Shelf); setPage(1); }}>
+        <TabsList className="h-auto flex-wrap">
+          <TabsTrigger value="ALL">
+            <Trans>All</Trans>
+            {counts && <span className="ml-1.5 text-xs text-muted-foreground">{totalFollowing}</span>}
+          </TabsTrigger>
+          {READING_STATUSES.map((status) => (
+            <TabsTrigger key={status} value={status}>
+              {_(READING_STATUS_LABELS[status])}
+              {counts && <span className="ml-1.5 text-xs text-muted-foreground">{counts[status]}</span>}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {selectedIds && (
+        <BulkActionBar
+          selectedIds={[...selectedIds]}
+          onSelectPage={() => setSelectedIds((current) => new Set([...(current ?? []), ...follows.map((f) => f.id)]))}
+          onClear={() => setSelectedIds(null)}
+          onDone={() => {
+            setSelectedIds(new Set());
+            refreshShelves();
+          }}
+        />
+      )}
+
       {/* Error */}
       {error && (
         <Card className="border-red-200 bg-red-50">
@@ -129,13 +206,31 @@ const FavoritesContent: React.FC = () => {
               const statusLabel = status.charAt(0).toUpperCase() + status.slice(1);
               const mangaId = follow.externalMangaId ?? follow.mangaId ?? '';
               const source = follow.mangaSource;
+              const isSelected = selectedIds?.has(follow.id) ?? false;
 
               return (
-                <Card key={follow.id} className="group cursor-pointer hover:shadow-lg transition-shadow overflow-hidden">
+                <Card
+                  key={follow.id}
+                  className={cn(
+                    'group cursor-pointer hover:shadow-lg transition-shadow overflow-hidden',
+                    isSelected && 'ring-2 ring-primary',
+                  )}
+                  onClick={selectedIds ? () => toggleSelected(follow.id) : undefined}
+                >
                   <div className="relative bg-muted h-52 flex items-center justify-center">
+                    {selectedIds && (
+                      <input
+                        type="checkbox"
+                        className="absolute top-2 left-2 z-10 h-5 w-5 accent-primary"
+                        checked={isSelected}
+                        onChange={() => toggleSelected(follow.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label={title}
+                      />
+                    )}
                     {follow.manga?.coverPublicId ? (
                       <img
-                        src={`https://res.cloudinary.com/${import.meta.env.VITE_CLOUDINARY_CLOUD_NAME}/image/upload/${follow.manga.coverPublicId}`}
+                        src={mangaDexUtils.getLocalCoverUrl(mangaId)}
                         referrerPolicy="no-referrer"
                         alt={title}
                         className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
@@ -167,7 +262,7 @@ const FavoritesContent: React.FC = () => {
                         {new Date(follow.createdAt).toLocaleDateString()}
                       </p>
                     </div>
-                    <div className="flex gap-2">
+                    <div className={cn('flex gap-2', selectedIds && 'pointer-events-none opacity-50')}>
                       {source === 'MANGADEX' && mangaId && (
                         <Button variant="outline" size="sm" className="flex-1" asChild>
                           <Link to="/manga/$mangaId" params={{ mangaId }}>
@@ -180,6 +275,9 @@ const FavoritesContent: React.FC = () => {
                         mangaId={mangaId}
                         source={source}
                         initialIsFollowing={true}
+                        initialStatus={follow.status}
+                        onFollowChange={refreshShelves}
+                        onStatusChange={refreshShelves}
                         variant="ghost"
                         size="sm"
                         className="flex-1 text-rose-500"
@@ -215,7 +313,15 @@ const FavoritesContent: React.FC = () => {
       )}
 
       {/* Empty State */}
-      {!isLoading && !error && follows.length === 0 && (
+      {!isLoading && !error && follows.length === 0 && shelf !== 'ALL' && (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <Trans>Nothing on this shelf yet. Use the status menu on a followed manga to move it here.</Trans>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && !error && follows.length === 0 && shelf === 'ALL' && (
         <Card>
           <CardContent className="p-12 text-center">
             <Heart className="w-16 h-16 text-muted-foreground/50 mx-auto mb-4" />
@@ -9,7 +9,6 @@ import { Skeleton } from '@/components/ui/skeleton';
 import {
     ArrowLeft,
     ExternalLink,
-    Heart,
     Globe,
     Users,
     Upload,
@@ -17,9 +16,9 @@ import {
     User,
     CheckCircle2,
 } from 'lucide-react';
-import { useToast } from '@/hooks/use_toast';
 import { Separator } from '@/components/ui/separator';
 import { MangaCard } from '@/components/manga-card';
+import CreatorFollowButton from '@/components/CreatorFollowButton';
 
 type GroupSource = 'local' | 'mangadex';
 
@@ -184,7 +183,6 @@ const languageFlags: Record<string, string> = {
 
 const GroupDetail: React.FC<GroupDetailProps> = ({ source }) => {
     const { groupId } = useParams({ strict: false }) as { groupId: string };
-    const { toast } = useToast();
     const navigate = useNavigate();
 
     const {
@@ -219,13 +217,6 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ source }) => {
     const isLoading = source === 'local' ? isLocalLoading : isMangadexLoading;
     const error = source === 'local' ? localError : mangadexError;
 
-    const handleFollow = () => {
-        toast({
-            title: 'Coming soon',
-            description: 'Follow feature will be available soon!',
-        });
-    };
-
     const handleGoBack = () => {
         history.back();
     };
@@ -310,10 +301,7 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ source }) => {
                         </div>
 
                         <div className="flex gap-2">
-                            <Button onClick={handleFollow}>
-                                <Heart className="h-4 w-4 mr-2" />
-                                <Trans>Follow</Trans>
-                            </Button>
+                            <CreatorFollowButton creatorType="LOCAL_GROUP" creatorId={localGroup.id} />
                         </div>
                     </div>
 
@@ -438,10 +426,7 @@ const GroupDetail: React.FC<GroupDetailProps> = ({ source }) => {
                         </div>
 
                         <div className="flex gap-2">
-                            <Button onClick={handleFollow}>
-                                <Heart className="h-4 w-4 mr-2" />
-                                <Trans>Follow</Trans>
-                            </Button>
+                            <CreatorFollowButton creatorType="MANGADEX_GROUP" creatorId={mangadexGroup.data.id} />
                             <Button variant="outline" asChild>
                                 <a
                                     href={`https://mangadex.org/group/${mangadexGroup.data.id}`}
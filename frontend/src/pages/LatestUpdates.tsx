@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import { Trans } from '@lingui/react/macro';
 import { t, msg } from '@lingui/core/macro';
 import { useLingui } from '@lingui/react';
@@ -23,7 +23,7 @@ import { followService, type ChapterFeedItem, type FeedParams } from '@/services
 import { LanguageFlag } from '@/components/LanguageFlag';
 import { useAtomValue } from 'jotai';
 import { chapterLanguagesAtom } from '@/store/settingsAtoms';
-import { readingHistoryAtom } from '@/store/historyAtoms';
+import { useReadChapterIdsForManga } from '@/hooks/useReadMarkers';
 import { AuthGuard } from '@/components/auth/AuthGuard';
 
 
@@ -34,6 +34,14 @@ const DATE_RANGE_OPTIONS = [
     { label: msg`This month`, value: 'month' as const },
 ];
 
+// Chapters of followed manga, or uploads by followed scanlation groups
+type FeedSource = 'manga' | 'groups';
+
+const FEED_SOURCE_OPTIONS = [
+    { label: msg`Manga`, value: 'manga' as const },
+    { label: msg`Groups`, value: 'groups' as const },
+];
+
 function timeAgo(dateStr: string): string {
     const diff = Date.now() - new Date(dateStr).getTime();
     const minutes = Math.floor(diff / 60000);
@@ -116,6 +124,7 @@ function MangaCover({ coverUrl, title }: { coverUrl: string | null; title: strin
 
 const LatestUpdatesContent: React.FC = () => {
     const [page, setPage] = useState(1);
+    const [feed, setFeed] = useState<FeedSource>('manga');
     const [dateRange, setDateRange] = useState<FeedParams['dateRange']>(undefined);
     const limit = 20;
     const navigate = useNavigate();
@@ -124,8 +133,11 @@ const LatestUpdatesContent: React.FC = () => {
     const lang = chapterLanguages.join(',');
 
     const { data, isLoading, error, refetch } = useQuery({
-        queryKey: ['follows-feed', page, limit, dateRange, lang],
-        queryFn: () => followService.getFollowedMangaFeed({ page, limit, dateRange, lang }),
+        queryKey: ['follows-feed', feed, page, limit, dateRange, lang],
+        queryFn: () =>
+            feed === 'groups'
+                ? followService.getCreatorFeed({ page, limit, dateRange, lang })
+                : followService.getFollowedMangaFeed({ page, limit, dateRange, lang }),
         staleTime: 60_000,
     });
 
@@ -133,8 +145,7 @@ const LatestUpdatesContent: React.FC = () => {
     const total = data?.total ?? 0;
     const hasMore = data?.hasMore ?? false;
     const groups = groupByManga(chapters);
-    const history = useAtomValue(readingHistoryAtom);
-    const readChapterIds = useMemo(() => new Set(history.map((e) => e.chapterId)), [history]);
+    const readChapterIds = useReadChapterIdsForManga(groups.map((group) => group.mangaId));
 
     return (
         <div className="space-y-5">
@@ -145,7 +156,11 @@ const LatestUpdatesContent: React.FC = () => {
                         <Rss className="h-7 w-7 text-primary" />
                         <Trans>Latest Updates</Trans>
                     </h1>
-                    <p className="text-muted-foreground"><Trans>New chapters from manga you follow</Trans></p>
+                    <p className="text-muted-foreground">
+                        {feed === 'groups'
+                            ? <Trans>New chapters from scanlation groups you follow</Trans>
+                            : <Trans>New chapters from manga you follow</Trans>}
+                    </p>
                 </div>
                 <div className="flex gap-2">
                     <Button variant="outline" size="sm" asChild>
@@ -162,6 +177,17 @@ const LatestUpdatesContent: React.FC = () => {
 
             {/* Filters */}
             <div className="flex items-center gap-2 flex-wrap">
+                {FEED_SOURCE_OPTIONS.map((opt) => (
+                    <Button
+                        key={opt.value}
+                        variant={feed === opt.value ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => { setFeed(opt.value); setPage(1); }}
+                    >
+                        {_(opt.label)}
+                    </Button>
+                ))}
+                <div className="mx-1 h-5 w-px bg-border" />
                 <Filter className="h-4 w-4 text-muted-foreground" />
                 {DATE_RANGE_OPTIONS.map((opt) => (
                     <Button
@@ -254,7 +280,9 @@ const LatestUpdatesContent: React.FC = () => {
                                                         });
                                                     }
                                                 }}
-                                                className="flex items-center gap-3 px-4 h-14 border-b border-border hover:bg-muted/50 transition-colors cursor-pointer"
+                                                className={`flex items-center gap-3 px-4 h-14 border-b border-border hover:bg-muted/50 transition-colors cursor-pointer ${
+                                                    readChapterIds.has(ch.chapterId) ? 'opacity-60 hover:opacity-100' : ''
+                                                }`}
                                             >
                                                 {/* Language flag */}
                                                 {ch.translatedLanguage && (
@@ -361,7 +389,9 @@ const LatestUpdatesContent: React.FC = () => {
                     <h3 className="text-xl font-semibold text-foreground"><Trans>No updates yet</Trans></h3>
                     <p className="text-muted-foreground">
                         {total === 0
-                            ? <Trans>Follow some manga to see their latest chapters here!</Trans>
+                            ? feed === 'groups'
+                                ? <Trans>Follow some scanlation groups to see their latest uploads here!</Trans>
+                                : <Trans>Follow some manga to see their latest chapters here!</Trans>
                             : <Trans>No chapters found for the selected time range.</Trans>}
                     </p>
                     <Button asChild>
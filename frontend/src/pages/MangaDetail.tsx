@@ -2,11 +2,13 @@
 import { Trans } from '@lingui/react/macro';
 import { t } from '@lingui/core/macro';
 import { useParams, useNavigate, useSearch } from '@tanstack/react-router';
-import { useQueries } from '@tanstack/react-query';
+import { useQueries, useQuery } from '@tanstack/react-query';
 import { useManga, useMangaFeed } from '@/hooks/useMangaDex';
 import { mangaService } from '@/services/manga_service';
 import type { Manga, Chapter } from '@/types/mangadex_types';
 import FollowButton from '@/components/FollowButton';
+import AddToListButton from '@/components/lists/AddToListButton';
+import type { ReadingStatus } from '@/services/follow_service';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
@@ -17,6 +19,7 @@ import {
   Calendar,
   ChevronDown,
   ChevronUp,
+  Download,
   ExternalLink,
   Eye,
   EyeOff,
@@ -36,6 +39,20 @@ import { useAtom, useAtomValue } from 'jotai'
 import { chapterLanguagesAtom } from '@/store/settingsAtoms'
 import { readingHistoryAtom } from '@/store/historyAtoms';
 import { LanguageFlag } from '@/components/LanguageFlag';
+import ChapterDownloadButton from '@/components/offline/ChapterDownloadButton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useChapterDownloads, useOfflineChapterIds, type OfflineMangaInfo } from '@/hooks/useOfflineChapters';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { useAuth } from '@/hooks/useAuth';
+import { chaptersUpTo, useReadChapterIds, useUpdateReadMarkers } from '@/hooks/useReadMarkers';
+import { BookmarkList } from '@/components/bookmarks/BookmarkList';
+import { ReviewSection } from '@/components/reviews/ReviewSection';
+import { reviewService } from '@/services/review_service';
 import { trackViewManga, trackShareManga } from '@/lib/analytics';
 
 type MangaDetailResponse = {
@@ -46,6 +63,7 @@ type MangaDetailResponse = {
   cached: boolean;
   isFollowing?: boolean;
   followId?: string;
+  readingStatus?: ReadingStatus;
 };
 
 type ChapterFeedResponse = {
@@ -59,6 +77,8 @@ type ChapterFeedResponse = {
 const TABS = [
   { value: 'chapters', label: 'Chapters' },
   { value: 'comments', label: 'Comments' },
+  { value: 'reviews', label: 'Reviews' },
+  { value: 'bookmarks', label: 'Bookmarks' },
   { value: 'related', label: 'Related' },
   { value: 'recommendations', label: 'Recommendations' },
 ] as const;
@@ -125,7 +145,15 @@ const MangaDetail: React.FC = () => {
 
   const [chapterLanguages] = useAtom(chapterLanguagesAtom);
   const history = useAtomValue(readingHistoryAtom);
-  const readChapterIds = useMemo(() => new Set(history.map((e) => e.chapterId)), [history]);
+  const { user } = useAuth();
+  const readChapterIds = useReadChapterIds(mangaIdentifier);
+  const updateReadMarkers = useUpdateReadMarkers(mangaIdentifier);
+  const offlineChapterIds = useOfflineChapterIds();
+  const {
+    isSupported: canDownload,
+    progress: downloadProgress,
+    downloadChapters,
+  } = useChapterDownloads();
 
   const searchParams = useSearch({ strict: false }) as Record<string, string>;
   const activeTab: TabValue = (searchParams.tab as TabValue) || 'chapters';
@@ -155,6 +183,8 @@ const MangaDetail: React.FC = () => {
   const tabLabels: Record<TabValue, string> = {
     chapters: t`Chapters`,
     comments: t`Comments`,
+    reviews: t`Reviews`,
+    bookmarks: t`Bookmarks`,
     related: t`Related`,
     recommendations: t`Recommendations`,
   };
@@ -227,10 +257,28 @@ const MangaDetail: React.FC = () => {
     })),
   });
 
-  // Tabs visible to user — hide Related when no related items exist
+  // The user's page bookmarks in this manga (only fetched when logged in)
+  const {
+    data: bookmarkData,
+    fetchNextPage: fetchMoreBookmarks,
+    hasNextPage: hasMoreBookmarks,
+    isFetchingNextPage: isFetchingMoreBookmarks,
+  } = useBookmarks(mangaIdentifier);
+
+  // Our own users' score, shown next to the MangaDex one (shares its cache with the Reviews tab)
+  const { data: ratingSummary } = useQuery({
+    queryKey: ['reviews', 'MANGADEX', mangaIdentifier, 'summary'],
+    queryFn: () => reviewService.getRatingSummary(mangaIdentifier, 'MANGADEX'),
+    enabled: !!mangaIdentifier,
+  });
+  const bookmarks = bookmarkData?.pages.flatMap((page) => page.bookmarks) ?? [];
+
+  // Tabs visible to user — hide Related when no related items exist, Bookmarks when there are none
   const visibleTabs = useMemo(
-    () => TABS.filter((t) => t.value !== 'related' || relatedItems.length > 0),
-    [relatedItems],
+    () => TABS.filter((t) =>
+      (t.value !== 'related' || relatedItems.length > 0) &&
+      (t.value !== 'bookmarks' || bookmarks.length > 0)),
+    [relatedItems, bookmarks.length],
   );
 
   // Update sliding tab indicator position — must be after visibleTabs
@@ -406,6 +454,66 @@ const MangaDetail: React.FC = () => {
     });
   };
 
+  const offlineManga: OfflineMangaInfo = {
+    mangaId: mangaEntity.id,
+    mangaTitle,
+    coverUrl: mangaDexUtils.getCoverArt(mangaEntity),
+  };
+
+  const queueDownloads = async (chapters: Chapter[]) => {
+    try {
+      await downloadChapters(chapters, offlineManga);
+    } catch (error) {
+      toast({
+        title: t`Download failed`,
+        description: error instanceof Error ? error.message : t`Could not start the download.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+    return true;
+  };
+
+  // "Next N" starts after the most recently read chapter of this manga, one release per chapter number
+  const handleDownloadNext = async (count: number) => {
+    const seenNumbers = new Set<string>();
+    const uniqueChapters = sortedChapters.filter((ch) => {
+      if (ch.attributes.externalUrl) return false;
+      const number = ch.attributes.chapter ?? ch.id;
+      if (seenNumbers.has(number)) return false;
+      seenNumbers.add(number);
+      return true;
+    });
+    const lastRead = history.find((entry) => entry.mangaId === mangaEntity.id);
+    const lastReadIndex = lastRead
+      ? uniqueChapters.findIndex((ch) => ch.id === lastRead.chapterId || ch.attributes.chapter === lastRead.chapterNumber)
+      : -1;
+    const queue = uniqueChapters
+      .slice(lastReadIndex + 1)
+      .filter((ch) => !offlineChapterIds.has(ch.id))
+      .slice(0, count);
+
+    if (queue.length === 0) {
+      toast({ title: t`Nothing to download`, description: t`The following chapters are already available offline.` });
+      return;
+    }
+    if (await queueDownloads(queue)) {
+      toast({
+        title: t`Download started`,
+        description: t`${queue.length} chapters queued for offline reading.`,
+      });
+    }
+  };
+
+  const markChapters = (chapters: Chapter[], read: boolean) => {
+    const chapterIds = chapters.map((ch) => ch.id);
+    updateReadMarkers.mutate(read ? { chapterIdsRead: chapterIds } : { chapterIdsUnread: chapterIds }, {
+      onError: () => {
+        toast({ title: t`Could not update read status`, description: t`Please try again.`, variant: 'destructive' });
+      },
+    });
+  };
+
   const handleShareLink = async () => {
     try {
       await navigator.clipboard.writeText(window.location.href);
@@ -508,6 +616,7 @@ const MangaDetail: React.FC = () => {
                 mangaId={mangaIdentifier}
                 source="MANGADEX"
                 initialIsFollowing={mangaResponse?.isFollowing ?? false}
+                initialStatus={mangaResponse?.readingStatus}
                 variant="outline"
                 className="flex-1 min-w-[160px] border-border/70 bg-background/60 text-foreground hover:bg-accent"
               />
@@ -526,6 +635,13 @@ const MangaDetail: React.FC = () => {
                 <Share2 className="mr-2 h-4 w-4" />
                 <Trans>Share</Trans>
               </Button>
+              <AddToListButton
+                mangaId={mangaIdentifier}
+                source="MANGADEX"
+                mangaTitle={mangaTitle}
+                coverUrl={mangaDexUtils.getCoverArt(mangaEntity) ?? null}
+                className="flex-1 min-w-[140px] border-border/70 bg-background/60 text-foreground hover:bg-accent hover:text-foreground"
+              />
               <Button
                 variant="outline"
                 className="flex-1 min-w-[140px] border-border/70 bg-background/60 text-foreground hover:bg-accent hover:text-foreground"
@@ -622,6 +738,11 @@ const MangaDetail: React.FC = () => {
                 <div>
                   <p className="text-xl font-semibold text-foreground">{ratingDisplay}</p>
                   <p className="text-xs uppercase tracking-wide text-muted-foreground"><Trans>Community Score</Trans></p>
+                  {ratingSummary && ratingSummary.average !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      <Trans>MangaHaven {ratingSummary.average.toFixed(2)} ({ratingSummary.count})</Trans>
+                    </p>
+                  )}
                 </div>
                 {/* Distribution tooltip */}
                 <div className="pointer-events-none absolute left-0 top-full z-50 mt-2 w-64 rounded-xl border border-border bg-card p-3 shadow-xl opacity-0 group-hover:opacity-100 transition-opacity duration-200">
@@ -891,9 +1012,28 @@ const MangaDetail: React.FC = () => {
                   <div className="space-y-6">
                     <div className="flex items-center justify-between">
                       <h2 className="text-2xl font-bold text-foreground"><Trans>Chapter List</Trans></h2>
-                      <span className="text-sm text-muted-foreground">
-                        {totalChapterCount} <Trans>{totalChapterCount === 1 ? 'chapter' : 'chapters'}</Trans>
-                      </span>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground">
+                          {totalChapterCount} <Trans>{totalChapterCount === 1 ? 'chapter' : 'chapters'}</Trans>
+                        </span>
+                        {canDownload && totalChapterCount > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Download className="mr-2 h-4 w-4" />
+                                <Trans>Download</Trans>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {[5, 10].map((count) => (
+                                <DropdownMenuItem key={count} onClick={() => handleDownloadNext(count)}>
+                                  <Trans>Download next {count} chapters</Trans>
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
                     </div>
 
                     {isChapterLoading ? (
@@ -924,9 +1064,26 @@ const MangaDetail: React.FC = () => {
                                   <Book className="h-5 w-5 text-muted-foreground" />
                                   <p className="text-lg font-semibold text-foreground">{safeLabel}</p>
                                 </div>
-                                <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-                                  {volumeChapters.length} <Trans>{volumeChapters.length === 1 ? 'chapter' : 'chapters'}</Trans>
-                                </span>
+                                <div className="flex items-center gap-3">
+                                  {user && (() => {
+                                    const isVolumeRead = volumeChapters.every((ch) => readChapterIds.has(ch.id));
+                                    return (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 px-2 text-xs text-muted-foreground"
+                                        onClick={() => markChapters(volumeChapters, !isVolumeRead)}
+                                      >
+                                        {isVolumeRead
+                                          ? <><EyeOff className="mr-1.5 h-3.5 w-3.5" /><Trans>Mark volume as unread</Trans></>
+                                          : <><Eye className="mr-1.5 h-3.5 w-3.5" /><Trans>Mark volume as read</Trans></>}
+                                      </Button>
+                                    );
+                                  })()}
+                                  <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                                    {volumeChapters.length} <Trans>{volumeChapters.length === 1 ? 'chapter' : 'chapters'}</Trans>
+                                  </span>
+                                </div>
                               </div>
                               <div className="grid gap-3 sm:grid-cols-2">
                                 {volumeChapters.map((chapterItem) => {
@@ -936,11 +1093,13 @@ const MangaDetail: React.FC = () => {
                                     'en-US'
                                   );
                                   const isSelected = selectedChapterIdentifier === chapterItem.id;
+                                  const isRead = readChapterIds.has(chapterItem.id);
                                   const chapterClasses = [
                                     'group flex items-center justify-between rounded-2xl border px-4 py-3 text-left shadow-sm transition',
                                     isSelected
                                       ? 'border-primary bg-primary/10 shadow-md'
                                       : 'border-transparent bg-card hover:border-primary/30 hover:bg-accent/50',
+                                    isRead && !isSelected ? 'opacity-60 hover:opacity-100' : '',
                                   ].join(' ');
                                   return (
                                     <button
@@ -999,10 +1158,44 @@ const MangaDetail: React.FC = () => {
                                           })()}
                                         </div>
                                       </div>
-                                      {readChapterIds.has(chapterItem.id)
-                                        ? <EyeOff className="h-4 w-4 flex-shrink-0 text-muted-foreground/40 transition" />
-                                        : <Eye className="h-4 w-4 flex-shrink-0 text-foreground/70 transition group-hover:text-primary" />
-                                      }
+                                      <div className="flex flex-shrink-0 items-center gap-1">
+                                        {canDownload && !chapterItem.attributes.externalUrl && (
+                                          <ChapterDownloadButton
+                                            isDownloaded={offlineChapterIds.has(chapterItem.id)}
+                                            progress={downloadProgress[chapterItem.id]}
+                                            onDownload={() => queueDownloads([chapterItem])}
+                                          />
+                                        )}
+                                        {isRead
+                                          ? <EyeOff className="h-4 w-4 flex-shrink-0 text-muted-foreground/40 transition" />
+                                          : <Eye className="h-4 w-4 flex-shrink-0 text-foreground/70 transition group-hover:text-primary" />
+                                        }
+                                        {user && (
+                                          <DropdownMenu>
+                                            {/* A span, not a button: the whole card is already a button */}
+                                            <DropdownMenuTrigger asChild>
+                                              <span
+                                                role="button"
+                                                tabIndex={0}
+                                                title={t`Read status`}
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="rounded-md p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                                              >
+                                                <MoreVertical className="h-4 w-4" />
+                                              </span>
+                                            </DropdownMenuTrigger>
+                                            {/* Portalled, but React events still bubble to the card */}
+                                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                                              <DropdownMenuItem onClick={() => markChapters([chapterItem], !isRead)}>
+                                                {isRead ? <Trans>Mark as unread</Trans> : <Trans>Mark as read</Trans>}
+                                              </DropdownMenuItem>
+                                              <DropdownMenuItem onClick={() => markChapters(chaptersUpTo(sortedChapters, chapterItem), true)}>
+                                                <Trans>Mark all previous as read</Trans>
+                                              </DropdownMenuItem>
+                                            </DropdownMenuContent>
+                                          </DropdownMenu>
+                                        )}
+                                      </div>
                                     </button>
                                   );
                                 })}
@@ -1028,6 +1221,36 @@ const MangaDetail: React.FC = () => {
                   </div>
                 )}
 
+                {/* ── Reviews Tab ── */}
+                {activeTab === 'reviews' && (
+                  <ReviewSection
+                    mangaId={mangaIdentifier}
+                    source="MANGADEX"
+                    mangadexRating={mangaEntity.statistics?.rating}
+                  />
+                )}
+
+                {/* ── Bookmarks Tab ── */}
+                {activeTab === 'bookmarks' && (
+                  <div className="space-y-6">
+                    <h2 className="text-2xl font-bold text-foreground"><Trans>Your Bookmarks</Trans></h2>
+                    {bookmarks.length === 0 ? (
+                      <div className="rounded-xl border border-dashed border-border bg-muted/30 p-8 text-center text-muted-foreground">
+                        <Trans>You haven't bookmarked any pages in this manga.</Trans>
+                      </div>
+                    ) : (
+                      <BookmarkList bookmarks={bookmarks} />
+                    )}
+                    {hasMoreBookmarks && (
+                      <div className="flex justify-center">
+                        <Button variant="outline" onClick={() => fetchMoreBookmarks()} disabled={isFetchingMoreBookmarks}>
+                          <Trans>Load more</Trans>
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* ── Related Tab ── */}
                 {activeTab === 'related' && (
                   <div className="space-y-6">
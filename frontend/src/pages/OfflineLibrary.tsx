@@ -0,0 +1,311 @@
+import React, { useMemo } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t } from '@lingui/core/macro';
+import { Link } from '@tanstack/react-router';
+import { useQuery } from '@tanstack/react-query';
+import { useAtomValue } from 'jotai';
+import { AlertCircle, BookOpen, HardDriveDownload, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { LanguageFlag } from '@/components/LanguageFlag';
+import { offlineStorage, type OfflineChapter } from '@/lib/offlineStorage';
+import { offlineLibraryVersionAtom } from '@/store/offlineAtoms';
+import { useChapterDownloads, useOfflineChapters } from '@/hooks/useOfflineChapters';
+import { useToast } from '@/hooks/use_toast';
+
+interface OfflineMangaGroup {
+  mangaId: string;
+  mangaTitle: string;
+  coverUrl: string | null;
+  chapters: OfflineChapter[];
+  bytes: number;
+}
+
+function groupByManga(chapters: OfflineChapter[]): OfflineMangaGroup[] {
+  const map: Record<string, OfflineMangaGroup> = {};
+  for (const chapter of chapters) {
+    if (!map[chapter.mangaId]) {
+      map[chapter.mangaId] = {
+        mangaId: chapter.mangaId,
+        mangaTitle: chapter.mangaTitle,
+        coverUrl: chapter.coverUrl,
+        chapters: [],
+        bytes: 0,
+      };
+    }
+    map[chapter.mangaId].chapters.push(chapter);
+    map[chapter.mangaId].bytes += chapter.bytes;
+  }
+  const groups = Object.values(map);
+  groups.forEach((group) =>
+    group.chapters.sort((a, b) => parseFloat(a.chapterNumber || '0') - parseFloat(b.chapterNumber || '0'))
+  );
+  return groups.sort((a, b) => a.mangaTitle.localeCompare(b.mangaTitle));
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function chapterLabel(chapter: OfflineChapter): string {
+  return [
+    chapter.volume ? `Vol. ${chapter.volume}` : null,
+    chapter.chapterNumber ? `Ch. ${chapter.chapterNumber}` : 'Oneshot',
+  ].filter(Boolean).join(' ');
+}
+
+function OfflineCover({ coverUrl, title }: { coverUrl: string | null; title: string }) {
+  const [imgError, setImgError] = React.useState(false);
+
+  // Covers are not downloaded with the chapters, so they may be missing while offline
+  if (!coverUrl || imgError) {
+    return (
+      <div className="w-[100px] shrink-0 self-stretch bg-muted flex items-center justify-center">
+        <BookOpen className="h-8 w-8 text-muted-foreground/40" />
+      </div>
+    );
+  }
+  return (
+    <img
+      src={coverUrl}
+      alt={title}
+      onError={() => setImgError(true)}
+      referrerPolicy="no-referrer"
+      className="w-[100px] shrink-0 self-stretch object-cover"
+    />
+  );
+}
+
+const OfflineLibrary: React.FC = () => {
+  const { toast } = useToast();
+  const version = useAtomValue(offlineLibraryVersionAtom);
+  const { data: chapters = [], isLoading } = useOfflineChapters();
+  const { isSupported, progress, deleteChapters } = useChapterDownloads();
+
+  const { data: estimate } = useQuery({
+    queryKey: ['offline', 'storage-estimate', version],
+    queryFn: () => offlineStorage.getStorageEstimate(),
+    networkMode: 'always',
+  });
+
+  const groups = useMemo(() => groupByManga(chapters), [chapters]);
+  const totalBytes = useMemo(() => chapters.reduce((sum, ch) => sum + ch.bytes, 0), [chapters]);
+
+  const handleDelete = async (chapterIds: string[], description: string) => {
+    try {
+      await deleteChapters(chapterIds);
+      toast({ title: t`Download removed`, description });
+    } catch (error) {
+      toast({
+        title: t`Error`,
+        description: error instanceof Error ? error.message : t`Could not delete the download.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const usagePercent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-1 flex items-center gap-2">
+            <HardDriveDownload className="h-7 w-7 text-primary" />
+            <Trans>Offline Library</Trans>
+          </h1>
+          <p className="text-muted-foreground">
+            <Trans>Chapters downloaded to this device can be read without a connection</Trans>
+          </p>
+        </div>
+        {chapters.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-destructive hover:text-destructive border-destructive/40 hover:border-destructive">
+                <Trash2 className="mr-2 h-4 w-4" />
+                <Trans>Delete all</Trans>
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle><Trans>Delete all downloads?</Trans></AlertDialogTitle>
+                <AlertDialogDescription>
+                  <Trans>All {chapters.length} downloaded chapters will be removed from this device.</Trans>
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel><Trans>Cancel</Trans></AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => handleDelete(chapters.map((ch) => ch.chapterId), t`All downloads have been deleted.`)}
+                  className="bg-destructive hover:bg-destructive/90"
+                >
+                  <Trans>Delete all</Trans>
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {!isSupported && (
+        <div className="flex items-center gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-700 dark:text-amber-400">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          <Trans>This browser does not support offline downloads.</Trans>
+        </div>
+      )}
+
+      {/* Storage usage */}
+      <div className="rounded-lg border border-border bg-card p-4 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-foreground"><Trans>Storage</Trans></span>
+          <span className="text-muted-foreground">
+            <Trans>{formatBytes(totalBytes)} used by {chapters.length} chapters</Trans>
+          </span>
+        </div>
+        {estimate && estimate.quota > 0 && (
+          <>
+            <div className="h-2 overflow-hidden rounded-full bg-muted">
+              <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${usagePercent}%` }} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              <Trans>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} browser storage in use</Trans>
+            </p>
+          </>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-32 rounded-lg" />
+          ))}
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && groups.length === 0 && (
+        <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-dashed border-border bg-muted/20 py-20 text-center">
+          <HardDriveDownload className="h-12 w-12 text-muted-foreground/40" />
+          <div>
+            <p className="text-base font-medium text-foreground"><Trans>No downloaded chapters</Trans></p>
+            <p className="mt-1 text-sm text-muted-foreground">
+              <Trans>Use the download button on a manga page or at the end of a chapter to save it for offline reading.</Trans>
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Downloads grouped by manga */}
+      {groups.length > 0 && (
+        <div className="space-y-3">
+          {groups.map((group) => (
+            <div key={group.mangaId} className="flex overflow-hidden rounded-lg bg-card border border-border">
+              <OfflineCover coverUrl={group.coverUrl} title={group.mangaTitle} />
+
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center justify-between gap-2 px-4 pt-3 pb-2 border-b border-border">
+                  <div className="min-w-0">
+                    <Link
+                      to="/manga/$mangaId"
+                      params={{ mangaId: group.mangaId }}
+                      className="font-bold text-foreground hover:text-primary transition-colors line-clamp-1 text-base"
+                    >
+                      {group.mangaTitle}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      <Trans>{group.chapters.length} chapters · {formatBytes(group.bytes)}</Trans>
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      handleDelete(
+                        group.chapters.map((ch) => ch.chapterId),
+                        t`Downloads of ${group.mangaTitle} have been deleted.`
+                      )
+                    }
+                    className="shrink-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="mr-1 h-4 w-4" />
+                    <Trans>Delete</Trans>
+                  </Button>
+                </div>
+
+                {group.chapters.map((chapter) => {
+                  const live = progress[chapter.chapterId];
+                  const isDownloading =
+                    live?.status === 'queued' || live?.status === 'downloading' || chapter.status === 'downloading';
+                  const done = live?.total ? live.done : chapter.downloadedPages;
+                  const total = live?.total || chapter.pageCount;
+                  return (
+                    <div
+                      key={chapter.chapterId}
+                      className="flex items-center gap-3 px-4 h-12 border-b border-border last:border-b-0"
+                    >
+                      <LanguageFlag languageCode={chapter.translatedLanguage} className="h-3.5 w-[18px] shrink-0" />
+                      <div className="flex-1 min-w-0 text-sm">
+                        {chapter.status === 'complete' ? (
+                          <Link
+                            to="/offline/$chapterId"
+                            params={{ chapterId: chapter.chapterId }}
+                            className="font-medium text-foreground hover:text-primary truncate block"
+                          >
+                            {chapterLabel(chapter)}
+                            {chapter.chapterTitle && (
+                              <span className="text-muted-foreground font-normal"> — {chapter.chapterTitle}</span>
+                            )}
+                          </Link>
+                        ) : (
+                          <span className="font-medium text-muted-foreground truncate block">{chapterLabel(chapter)}</span>
+                        )}
+                      </div>
+                      <span className="shrink-0 text-xs text-muted-foreground flex items-center gap-1">
+                        {isDownloading ? (
+                          <>
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            {done}/{total}
+                          </>
+                        ) : chapter.status === 'error' ? (
+                          <span className="text-destructive"><Trans>Failed</Trans></span>
+                        ) : (
+                          formatBytes(chapter.bytes)
+                        )}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete([chapter.chapterId], t`${chapterLabel(chapter)} has been deleted.`)}
+                        title={t`Delete download`}
+                        aria-label={t`Delete download`}
+                        className="shrink-0 rounded-full p-1.5 text-muted-foreground hover:bg-muted hover:text-destructive transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineLibrary;
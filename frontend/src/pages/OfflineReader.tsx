@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { useNavigate, useParams } from '@tanstack/react-router';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, ChevronLeft, ChevronRight, HardDriveDownload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { offlineStorage } from '@/lib/offlineStorage';
+import { useOfflineChapters } from '@/hooks/useOfflineChapters';
+import { useReaderSettings } from '@/hooks/useReaderSettings';
+import { getPageFit } from '@/utils/readerUtils';
+import { ReaderPageImage, SharpenFilterDefs } from '@/components/chapter/ReaderPageImage';
+
+/** Vertical reader for chapters downloaded to IndexedDB; needs no network at all */
+const OfflineReader: React.FC = () => {
+  const { chapterId } = useParams({ from: '/offline/$chapterId' });
+  const navigate = useNavigate();
+  const [settings] = useReaderSettings();
+  const [pageUrls, setPageUrls] = useState<string[]>([]);
+
+  const { data: chapters = [], isLoading: isLibraryLoading } = useOfflineChapters();
+  const { data: pages, isLoading: isPagesLoading } = useQuery({
+    queryKey: ['offline', 'pages', chapterId],
+    queryFn: () => offlineStorage.getPages(chapterId),
+    networkMode: 'always',
+    // Blobs are large; drop them as soon as the reader unmounts
+    gcTime: 0,
+  });
+
+  // Object URLs must be revoked or the blobs stay in memory for the lifetime of the tab
+  useEffect(() => {
+    if (!pages) return;
+    const urls = pages.map((blob) => URL.createObjectURL(blob));
+    setPageUrls(urls);
+    window.scrollTo(0, 0);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [pages]);
+
+  const chapter = chapters.find((ch) => ch.chapterId === chapterId);
+  const fit = getPageFit(settings.fitMode, settings.customZoom, 'strip');
+
+  // Prev/next among the downloaded chapters of the same manga
+  const siblings = useMemo(
+    () =>
+      chapters
+        .filter((ch) => ch.mangaId === chapter?.mangaId && ch.status === 'complete')
+        .sort((a, b) => parseFloat(a.chapterNumber || '0') - parseFloat(b.chapterNumber || '0')),
+    [chapters, chapter?.mangaId]
+  );
+  const currentIndex = siblings.findIndex((ch) => ch.chapterId === chapterId);
+  const previousChapter = currentIndex > 0 ? siblings[currentIndex - 1] : null;
+  const nextChapter = currentIndex >= 0 && currentIndex < siblings.length - 1 ? siblings[currentIndex + 1] : null;
+
+  const goToChapter = (id: string) => navigate({ to: '/offline/$chapterId', params: { chapterId: id } });
+
+  if (isLibraryLoading || isPagesLoading) {
+    return (
+      <div className="min-h-screen bg-neutral-900 flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (!chapter || chapter.status !== 'complete' || !pages?.length) {
+    return (
+      <div className="min-h-screen bg-neutral-900 flex items-center justify-center p-4">
+        <div className="text-center space-y-4 max-w-md">
+          <HardDriveDownload className="h-12 w-12 text-neutral-500 mx-auto" />
+          <h2 className="text-2xl font-bold text-white"><Trans>Chapter not downloaded</Trans></h2>
+          <p className="text-neutral-400">
+            <Trans>This chapter is not available offline. Download it again while you are online.</Trans>
+          </p>
+          <Button onClick={() => navigate({ to: '/offline' })} className="mt-4">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            <Trans>Offline Library</Trans>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const chapterLabel = chapter.chapterNumber
+    ? `Ch. ${chapter.chapterNumber}${chapter.chapterTitle ? ` · ${chapter.chapterTitle}` : ''}`
+    : chapter.chapterTitle || 'Oneshot';
+
+  return (
+    <div className="min-h-screen bg-neutral-900">
+      {settings.imageFilters.sharpen && <SharpenFilterDefs />}
+      <header className="sticky top-0 z-10 flex items-center gap-3 border-b border-neutral-700/50 bg-neutral-900/95 px-4 py-3">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate({ to: '/offline' })}
+          className="shrink-0 text-white hover:bg-neutral-700 hover:text-white"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold text-white">{chapter.mangaTitle}</p>
+          <p className="truncate text-xs text-neutral-400">{chapterLabel}</p>
+        </div>
+        <span className="ml-auto flex shrink-0 items-center gap-1 text-xs text-emerald-400">
+          <HardDriveDownload className="h-3.5 w-3.5" />
+          <Trans>Offline</Trans>
+        </span>
+      </header>
+
+      <main className="overflow-x-auto pb-16">
+        {pageUrls.map((url, index) => (
+          <ReaderPageImage
+            key={url}
+            src={url}
+            filters={settings.imageFilters}
+            alt={`Page ${index + 1}`}
+            className={`block mx-auto ${fit.className}`}
+            style={{ ...fit.style, ...(index > 0 && settings.imageGap > 0 && { marginTop: settings.imageGap }) }}
+          />
+        ))}
+      </main>
+
+      <div className="border-t border-neutral-700/50 py-10 px-4 flex flex-col items-center gap-4">
+        <p className="text-neutral-500 text-xs uppercase tracking-widest"><Trans>End of chapter</Trans></p>
+        <h3 className="text-white text-xl font-semibold">{chapterLabel}</h3>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            disabled={!previousChapter}
+            onClick={() => previousChapter && goToChapter(previousChapter.chapterId)}
+            className="border-neutral-600 text-white hover:bg-neutral-700 hover:text-white bg-neutral-800 disabled:opacity-30"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            <Trans>Previous</Trans>
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!nextChapter}
+            onClick={() => nextChapter && goToChapter(nextChapter.chapterId)}
+            className="border-neutral-600 text-white hover:bg-neutral-700 hover:text-white bg-neutral-800 disabled:opacity-30"
+          >
+            <Trans>Next</Trans>
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OfflineReader;
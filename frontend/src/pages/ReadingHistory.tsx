@@ -2,8 +2,12 @@ import React, { useMemo } from 'react';
 import { Trans } from '@lingui/react/macro';
 import { t } from '@lingui/core/macro';
 import { Link, useNavigate } from '@tanstack/react-router';
-import { useAtom } from 'jotai';
-import { readingHistoryAtom, type ReadingHistoryEntry } from '@/store/historyAtoms';
+import { useAtom, useAtomValue } from 'jotai';
+import { historyPausedAtom, readingHistoryAtom, type ReadingHistoryEntry } from '@/store/historyAtoms';
+import { useAuth } from '@/hooks/useAuth';
+import { toReadingHistoryEntry, useHistoryManagement, useServerHistory } from '@/hooks/useReadingHistory';
+import { HistoryManageMenu } from '@/components/history/HistoryManageMenu';
+import { Skeleton } from '@/components/ui/skeleton';
 import { useManga } from '@/hooks/useMangaDex';
 import { mangaDexUtils } from '@/utils/mangaDexUtils';
 import type { Manga } from '@/types/mangadex_types';
@@ -23,13 +27,17 @@ import { LanguageFlag } from '@/components/LanguageFlag';
 import {
   BookOpen,
   Clock,
+  Download,
+  EyeOff,
   History,
+  Loader2,
   MessageSquare,
   SquareArrowOutUpRight,
   Trash2,
   Users,
 } from 'lucide-react';
 import { useToast } from '@/hooks/use_toast';
+import { useOfflineChapterIds } from '@/hooks/useOfflineChapters';
 
 const CHAPTERS_PER_GROUP = 3;
 
@@ -84,6 +92,50 @@ function MangaCoverById({ mangaId, title }: { mangaId: string; title: string })
   );
 }
 
+/** Delete every history entry of one manga, after confirming */
+function DeleteMangaHistoryButton({ mangaId, mangaTitle }: { mangaId: string; mangaTitle: string }) {
+  const { deleteHistory } = useHistoryManagement();
+  const { toast } = useToast();
+
+  const handleDelete = async () => {
+    try {
+      await deleteHistory({ mangaId });
+      toast({ title: t`History deleted`, description: t`Removed ${mangaTitle} from your history.` });
+    } catch {
+      toast({ title: t`Could not delete history`, description: t`Please try again.`, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+          title={t`Remove this manga from history`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle><Trans>Remove {mangaTitle} from history?</Trans></AlertDialogTitle>
+          <AlertDialogDescription>
+            <Trans>Every chapter you read of this manga will be removed from your history.</Trans>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel><Trans>Cancel</Trans></AlertDialogCancel>
+          <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+            <Trans>Remove</Trans>
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
 function timeAgo(ts: number): string {
   const diff = Date.now() - ts;
   const minutes = Math.floor(diff / 60000);
@@ -96,14 +148,36 @@ function timeAgo(ts: number): string {
 }
 
 const ReadingHistory: React.FC = () => {
-  const [history, setHistory] = useAtom(readingHistoryAtom);
+  const { user } = useAuth();
+  const localHistory = useAtomValue(readingHistoryAtom);
+  const [isPaused, setIsPaused] = useAtom(historyPausedAtom);
+  const { deleteHistory } = useHistoryManagement();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const offlineChapterIds = useOfflineChapterIds();
+
+  // Logged-in users see the account history, synced across devices; guests see this device's
+  const serverHistory = useServerHistory();
+  const isServer = !!user;
+  const { data: serverPages, hasNextPage, fetchNextPage, isFetchingNextPage } = serverHistory;
+  const history = useMemo(
+    () =>
+      isServer
+        ? (serverPages?.pages.flatMap((page) => page.entries.map(toReadingHistoryEntry)) ?? [])
+        : localHistory,
+    [isServer, serverPages, localHistory]
+  );
+  const isLoading = isServer && serverHistory.isLoading;
 
   const groups = useMemo(() => groupByManga(history), [history]);
 
-  const handleClearHistory = () => {
-    setHistory([]);
+  const handleClearHistory = async () => {
+    try {
+      await deleteHistory();
+    } catch {
+      toast({ title: t`Could not clear history`, description: t`Please try again.`, variant: 'destructive' });
+      return;
+    }
     toast({ title: t`History cleared`, description: t`Your reading history has been deleted.` });
   };
 
@@ -117,39 +191,70 @@ const ReadingHistory: React.FC = () => {
             <Trans>Reading History</Trans>
           </h1>
           <p className="text-muted-foreground">
-            {history.length > 0
-              ? <Trans>{history.length} chapters read · saved on this device</Trans>
-              : <Trans>Reading history is saved on this device</Trans>}
+            {isServer
+              ? <Trans>Synced to your account across devices</Trans>
+              : history.length > 0
+                ? <Trans>{history.length} chapters read · saved on this device</Trans>
+                : <Trans>Reading history is saved on this device</Trans>}
           </p>
         </div>
-        {history.length > 0 && (
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="outline" size="sm" className="text-destructive hover:text-destructive border-destructive/40 hover:border-destructive">
-                <Trash2 className="mr-2 h-4 w-4" />
-                <Trans>Clear all</Trans>
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle><Trans>Clear reading history?</Trans></AlertDialogTitle>
-                <AlertDialogDescription>
-                  <Trans>All {history.length} records will be permanently deleted. This action cannot be undone.</Trans>
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel><Trans>Cancel</Trans></AlertDialogCancel>
-                <AlertDialogAction onClick={handleClearHistory} className="bg-destructive hover:bg-destructive/90">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button
+            variant={isPaused ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setIsPaused(!isPaused)}
+            title={t`Stop recording the chapters you open on this device`}
+          >
+            <EyeOff className="mr-2 h-4 w-4" />
+            {isPaused ? <Trans>Resume history</Trans> : <Trans>Pause history</Trans>}
+          </Button>
+          <HistoryManageMenu />
+          {history.length > 0 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-destructive hover:text-destructive border-destructive/40 hover:border-destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
                   <Trans>Clear all</Trans>
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        )}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle><Trans>Clear reading history?</Trans></AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {isServer
+                      ? <Trans>Your whole reading history will be permanently deleted from your account. This action cannot be undone.</Trans>
+                      : <Trans>All {history.length} records will be permanently deleted. This action cannot be undone.</Trans>}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel><Trans>Cancel</Trans></AlertDialogCancel>
+                  <AlertDialogAction onClick={handleClearHistory} className="bg-destructive hover:bg-destructive/90">
+                    <Trans>Clear all</Trans>
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
       </div>
 
+      {isPaused && (
+        <div className="flex items-center gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400">
+          <EyeOff className="h-4 w-4 shrink-0" />
+          <Trans>History is paused on this device. Chapters you open are not recorded until you resume it.</Trans>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-[210px] w-full" />
+          ))}
+        </div>
+      )}
+
       {/* Empty state */}
-      {groups.length === 0 && (
+      {!isLoading && groups.length === 0 && (
         <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-dashed border-border bg-muted/20 py-20 text-center">
           <BookOpen className="h-12 w-12 text-muted-foreground/40" />
           <div>
@@ -182,7 +287,7 @@ const ReadingHistory: React.FC = () => {
               {/* Right side content */}
               <div className="flex-1 min-w-0 flex flex-col">
                 {/* Manga title row */}
-                <div className="px-4 pt-3 pb-2 border-b border-border">
+                <div className="px-4 pt-3 pb-2 border-b border-border flex items-center gap-2">
                   <Link
                     to="/manga/$mangaId"
                     params={{ mangaId: group.mangaId }}
@@ -190,6 +295,9 @@ const ReadingHistory: React.FC = () => {
                   >
                     {group.mangaTitle}
                   </Link>
+                  <div className="ml-auto">
+                    <DeleteMangaHistoryButton mangaId={group.mangaId} mangaTitle={group.mangaTitle} />
+                  </div>
                 </div>
 
                 {/* Chapter rows */}
@@ -200,6 +308,11 @@ const ReadingHistory: React.FC = () => {
                       onClick={() => {
                         if (entry.externalUrl) {
                           window.open(entry.externalUrl, '_blank', 'noopener,noreferrer');
+                        } else if (!navigator.onLine && offlineChapterIds.has(entry.chapterId)) {
+                          navigate({
+                            to: '/offline/$chapterId',
+                            params: { chapterId: entry.chapterId },
+                          });
                         } else {
                           navigate({
                             to: '/chapter/$chapterId',
@@ -257,6 +370,20 @@ const ReadingHistory: React.FC = () => {
                         )}
                       </div>
 
+                      {/* Downloaded copy, readable without a connection */}
+                      {offlineChapterIds.has(entry.chapterId) && (
+                        <Link
+                          to="/offline/$chapterId"
+                          params={{ chapterId: entry.chapterId }}
+                          onClick={(e) => e.stopPropagation()}
+                          title={t`Read offline copy`}
+                          className="flex items-center gap-1 shrink-0 rounded-full border border-emerald-500/40 px-2 py-0.5 text-xs text-emerald-600 hover:bg-emerald-500/10 dark:text-emerald-400"
+                        >
+                          <Download className="h-3 w-3" />
+                          <Trans>Offline</Trans>
+                        </Link>
+                      )}
+
                       {/* Right: timestamp + comment count */}
                       <div className="ml-auto flex flex-col items-start gap-0.5 shrink-0 w-[84px]">
                         <span className="flex items-center gap-1 text-xs text-muted-foreground whitespace-nowrap w-full justify-start">
@@ -280,6 +407,15 @@ const ReadingHistory: React.FC = () => {
           ))}
         </div>
       )}
+
+      {isServer && hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Trans>Load more</Trans>
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
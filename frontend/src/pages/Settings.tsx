@@ -1,27 +1,25 @@
 import { useAtom } from 'jotai'
-import { Settings as SettingsIcon, FileText, Scroll, ArrowUpDown, ArrowLeftRight, Eye, EyeOff } from 'lucide-react'
+import { Settings as SettingsIcon, FileText, Scroll, ArrowUpDown, ArrowLeftRight, Eye, EyeOff, GalleryHorizontal, BookOpen, Image, ImageDown, Scan, Maximize, ZoomIn, CheckCheck } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { chapterLanguagesAtom, uiLanguageAtom, type UiLocale, SUPPORTED_LANGUAGES, type LanguageCode } from '@/store/settingsAtoms'
-import useLocalStorage from '@/hooks/useLocalStorage'
-import type { ReaderSettings } from '@/components/chapter/ReaderSettingsModal'
-import { useToast } from '@/hooks/use_toast'
+import { useReaderSettings } from '@/hooks/useReaderSettings'
+import type { FitMode, ReadingMode } from '@/components/chapter/ReaderSettingsModal'
+import { MIN_CUSTOM_ZOOM, MAX_CUSTOM_ZOOM } from '@/utils/readerUtils'
 import { Trans } from '@lingui/react/macro'
-import { t } from '@lingui/core/macro'
 import { LanguageFlag } from '@/components/LanguageFlag'
+import { ShortcutSettings } from '@/components/shortcuts/ShortcutSettings'
+import { useAuth } from '@/hooks/useAuth'
+import { useAutoMarkAsReadPreference } from '@/hooks/useReadMarkers'
 
 const Settings = () => {
   const [chapterLanguages, setChapterLanguages] = useAtom(chapterLanguagesAtom)
   const [uiLanguage, setUiLanguage] = useAtom(uiLanguageAtom)
-  const [readerSettings, setReaderSettings] = useLocalStorage<ReaderSettings>('reader-settings', {
-    readingMode: 'scroll-vertical',
-    imageGap: 4,
-    imageOrientation: 'vertical',
-    showHeader: false,
-  })
-  const { toast } = useToast()
+  const [readerSettings, setReaderSettings] = useReaderSettings()
+  const { user } = useAuth()
+  const [autoMarkAsRead, setAutoMarkAsRead] = useAutoMarkAsReadPreference()
 
   const toggleLanguage = (code: LanguageCode) => {
     setChapterLanguages(prev => {
@@ -33,20 +31,16 @@ const Settings = () => {
     })
   }
 
-  const handleReadingModeChange = (mode: 'scroll-vertical' | 'scroll-horizontal' | 'single-page') => {
-    if (mode !== 'scroll-vertical') {
-      toast({
-        title: t`Feature in development`,
-        description: t`This reading mode will be available soon.`,
-        variant: 'default',
-      });
-      return
-    }
+  const handleReadingModeChange = (mode: ReadingMode) => {
     setReaderSettings({ ...readerSettings, readingMode: mode })
   }
 
-  const handleOrientationChange = (orientation: 'vertical' | 'horizontal') => {
-    setReaderSettings({ ...readerSettings, imageOrientation: orientation })
+  const handleFitModeChange = (fitMode: FitMode) => {
+    setReaderSettings({ ...readerSettings, fitMode })
+  }
+
+  const handleCustomZoomChange = (customZoom: number) => {
+    setReaderSettings({ ...readerSettings, customZoom })
   }
 
   const handleShowHeaderChange = (show: boolean) => {
@@ -57,6 +51,10 @@ const Settings = () => {
     setReaderSettings({ ...readerSettings, imageGap: gap })
   }
 
+  const handleDataSaverChange = (dataSaver: boolean) => {
+    setReaderSettings({ ...readerSettings, dataSaver })
+  }
+
   return (
     <div className="mx-auto max-w-2xl space-y-6 px-4 py-8">
       <div className="flex items-center gap-3">
@@ -143,6 +141,30 @@ const Settings = () => {
                 <Scroll className="w-4 h-4 mr-2" />
                 <Trans>Vertical Scroll</Trans>
               </Button>
+              <Button
+                variant={readerSettings.readingMode === 'scroll-horizontal' ? 'default' : 'outline'}
+                className={
+                  readerSettings.readingMode === 'scroll-horizontal'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }
+                onClick={() => handleReadingModeChange('scroll-horizontal')}
+              >
+                <GalleryHorizontal className="w-4 h-4 mr-2" />
+                <Trans>Horizontal Swipe</Trans>
+              </Button>
+              <Button
+                variant={readerSettings.readingMode === 'double-page' ? 'default' : 'outline'}
+                className={
+                  readerSettings.readingMode === 'double-page'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }
+                onClick={() => handleReadingModeChange('double-page')}
+              >
+                <BookOpen className="w-4 h-4 mr-2" />
+                <Trans>Double Page</Trans>
+              </Button>
             </div>
           </div>
 
@@ -159,35 +181,120 @@ const Settings = () => {
             />
           </div>
 
-          {/* Image Orientation */}
+          {/* Image Fit */}
           <div className="space-y-3">
             <Label className="text-sm text-foreground"><Trans>Image Fit</Trans></Label>
             <div className="grid grid-cols-2 gap-3">
               <Button
-                variant={readerSettings.imageOrientation === 'vertical' ? 'default' : 'outline'}
+                variant={readerSettings.fitMode === 'auto' ? 'default' : 'outline'}
+                className={`col-span-2 ${
+                  readerSettings.fitMode === 'auto'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }`}
+                onClick={() => handleFitModeChange('auto')}
+              >
+                <Scan className="w-4 h-4 mr-2" />
+                <Trans>Auto</Trans>
+              </Button>
+              <Button
+                variant={readerSettings.fitMode === 'width' ? 'default' : 'outline'}
+                className={`${
+                  readerSettings.fitMode === 'width'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }`}
+                onClick={() => handleFitModeChange('width')}
+              >
+                <ArrowLeftRight className="w-4 h-4 mr-2" />
+                <Trans>Fit Width</Trans>
+              </Button>
+              <Button
+                variant={readerSettings.fitMode === 'height' ? 'default' : 'outline'}
+                className={`${
+                  readerSettings.fitMode === 'height'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }`}
+                onClick={() => handleFitModeChange('height')}
+              >
+                <ArrowUpDown className="w-4 h-4 mr-2" />
+                <Trans>Fit Height</Trans>
+              </Button>
+              <Button
+                variant={readerSettings.fitMode === 'original' ? 'default' : 'outline'}
+                className={`${
+                  readerSettings.fitMode === 'original'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }`}
+                onClick={() => handleFitModeChange('original')}
+              >
+                <Maximize className="w-4 h-4 mr-2" />
+                <Trans>Original Size</Trans>
+              </Button>
+              <Button
+                variant={readerSettings.fitMode === 'custom' ? 'default' : 'outline'}
+                className={`${
+                  readerSettings.fitMode === 'custom'
+                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                    : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                }`}
+                onClick={() => handleFitModeChange('custom')}
+              >
+                <ZoomIn className="w-4 h-4 mr-2" />
+                <Trans>Custom</Trans>
+              </Button>
+            </div>
+            {readerSettings.fitMode === 'custom' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span><Trans>Page width</Trans></span>
+                  <span className="tabular-nums text-foreground">{readerSettings.customZoom}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={MIN_CUSTOM_ZOOM}
+                  max={MAX_CUSTOM_ZOOM}
+                  step={5}
+                  value={readerSettings.customZoom}
+                  onChange={(e) => handleCustomZoomChange(Number(e.target.value))}
+                  className="w-full accent-primary"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Image Quality */}
+          <div className="space-y-3">
+            <Label className="text-sm text-foreground"><Trans>Image Quality</Trans></Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                variant={!readerSettings.dataSaver ? 'default' : 'outline'}
                 className={
-                  readerSettings.imageOrientation === 'vertical'
+                  !readerSettings.dataSaver
                     ? 'bg-primary text-primary-foreground hover:bg-primary/90'
                     : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
                 }
-                onClick={() => handleOrientationChange('vertical')}
+                onClick={() => handleDataSaverChange(false)}
               >
-                <ArrowUpDown className="w-4 h-4 mr-2" />
-                <Trans>Fit Vertical</Trans>
+                <Image className="w-4 h-4 mr-2" />
+                <Trans>Original</Trans>
               </Button>
               <Button
-                variant={readerSettings.imageOrientation === 'horizontal' ? 'default' : 'outline'}
+                variant={readerSettings.dataSaver ? 'default' : 'outline'}
                 className={
-                  readerSettings.imageOrientation === 'horizontal'
+                  readerSettings.dataSaver
                     ? 'bg-primary text-primary-foreground hover:bg-primary/90'
                     : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
                 }
-                onClick={() => handleOrientationChange('horizontal')}
+                onClick={() => handleDataSaverChange(true)}
               >
-                <ArrowLeftRight className="w-4 h-4 mr-2" />
-                <Trans>Fit Horizontal</Trans>
+                <ImageDown className="w-4 h-4 mr-2" />
+                <Trans>Data Saver</Trans>
               </Button>
             </div>
+            <p className="text-xs text-muted-foreground"><Trans>Data saver loads compressed images, useful on mobile data.</Trans></p>
           </div>
 
           {/* Show Header */}
@@ -220,9 +327,44 @@ const Settings = () => {
               </Button>
             </div>
           </div>
+
+          {/* Auto mark as read (stored with the account) */}
+          {user && (
+            <div className="space-y-3">
+              <Label className="text-sm text-foreground"><Trans>Mark chapters as read automatically</Trans></Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  variant={!autoMarkAsRead ? 'default' : 'outline'}
+                  className={
+                    !autoMarkAsRead
+                      ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                      : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                  }
+                  onClick={() => setAutoMarkAsRead(false)}
+                >
+                  <Trans>Off</Trans>
+                </Button>
+                <Button
+                  variant={autoMarkAsRead ? 'default' : 'outline'}
+                  className={
+                    autoMarkAsRead
+                      ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                      : 'bg-muted text-foreground border-border hover:bg-slate-200 dark:hover:bg-secondary hover:text-foreground'
+                  }
+                  onClick={() => setAutoMarkAsRead(true)}
+                >
+                  <CheckCheck className="w-4 h-4 mr-2" />
+                  <Trans>On</Trans>
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground"><Trans>A chapter is marked as read when you reach its last page.</Trans></p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      <ShortcutSettings />
+
       <Card className="w-full">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
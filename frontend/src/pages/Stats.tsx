@@ -0,0 +1,384 @@
+import React, { useMemo, useState } from 'react';
+import { Trans } from '@lingui/react/macro';
+import { t, msg } from '@lingui/core/macro';
+import { useLingui } from '@lingui/react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import { BarChart3, BookOpen, Clock, Flame, Library, CalendarDays, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { LanguageFlag } from '@/components/LanguageFlag';
+import { userService, type ReadingStats } from '@/services/user_service';
+
+const RANGE_PRESETS = [
+  { label: msg`7 days`, days: 7 },
+  { label: msg`30 days`, days: 30 },
+  { label: msg`90 days`, days: 90 },
+  { label: msg`1 year`, days: 365 },
+];
+
+// Longer ranges are charted per week so the bars stay readable
+const MAX_DAILY_BARS = 90;
+
+/** YYYY-MM-DD of a local date */
+function toDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toDay(date);
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours === 0) return t`${minutes}m`;
+  return t`${hours}h ${minutes}m`;
+}
+
+interface BarDatum {
+  key: string;
+  label: string;
+  value: number;
+  tooltip: string;
+}
+
+/** Vertical bars scaled to the largest value; labels only under the first and last bar */
+const BarChart: React.FC<{ data: BarDatum[]; barClassName?: string }> = ({ data, barClassName = 'bg-primary' }) => {
+  const max = Math.max(1, ...data.map((d) => d.value));
+
+  return (
+    <div>
+      <div className="flex h-40 items-end gap-px">
+        {data.map((d) => (
+          <div key={d.key} className="group relative flex h-full flex-1 items-end" title={d.tooltip}>
+            <div
+              className={`w-full rounded-t-sm ${barClassName} opacity-80 transition-opacity group-hover:opacity-100`}
+              style={{ height: d.value > 0 ? `max(2px, ${(d.value / max) * 100}%)` : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      {data.length > 0 && (
+        <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+          <span>{data[0].label}</span>
+          {data.length > 1 && <span>{data[data.length - 1].label}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Horizontal share bars for the language/tag/demographic breakdowns */
+const BreakdownList: React.FC<{
+  items: { key: string; label: React.ReactNode; chapters: number }[];
+  empty: React.ReactNode;
+}> = ({ items, empty }) => {
+  if (items.length === 0) return <p className="text-sm text-muted-foreground">{empty}</p>;
+  const max = Math.max(...items.map((item) => item.chapters));
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.key} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="flex min-w-0 items-center gap-2 truncate">{item.label}</span>
+            <span className="shrink-0 tabular-nums text-muted-foreground">{item.chapters}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted">
+            <div className="h-full rounded-full bg-primary" style={{ width: `${(item.chapters / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const StatCard: React.FC<{ icon: React.ElementType; label: React.ReactNode; value: React.ReactNode }> = ({
+  icon: Icon,
+  label,
+  value,
+}) => (
+  <Card>
+    <CardContent className="flex items-center gap-3 p-4">
+      <Icon className="h-8 w-8 shrink-0 text-primary" />
+      <div className="min-w-0">
+        <p className="text-2xl font-bold tabular-nums text-foreground">{value}</p>
+        <p className="text-xs text-muted-foreground">{label}</p>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const StatsCharts: React.FC<{ stats: ReadingStats }> = ({ stats }) => {
+  const perWeek = stats.daily.length > MAX_DAILY_BARS;
+
+  const { chapterBars, timeBars } = useMemo(() => {
+    const points = perWeek
+      ? stats.weekly.map((week) => ({ key: week.weekStart, ...week }))
+      : stats.daily.map((day) => ({ key: day.date, ...day }));
+    return {
+      chapterBars: points.map((point) => ({
+        key: point.key,
+        label: point.key,
+        value: point.chapters,
+        tooltip: perWeek
+          ? t`Week of ${point.key}: ${point.chapters} chapters`
+          : t`${point.key}: ${point.chapters} chapters`,
+      })),
+      timeBars: points.map((point) => {
+        const duration = formatDuration(point.readingTimeSeconds);
+        return {
+          key: point.key,
+          label: point.key,
+          value: point.readingTimeSeconds,
+          tooltip: perWeek ? t`Week of ${point.key}: ${duration}` : t`${point.key}: ${duration}`,
+        };
+      }),
+    };
+  }, [stats, perWeek]);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {perWeek ? <Trans>Chapters read per week</Trans> : <Trans>Chapters read per day</Trans>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BarChart data={chapterBars} />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {perWeek ? <Trans>Reading time per week</Trans> : <Trans>Reading time per day</Trans>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BarChart data={timeBars} barClassName="bg-sky-500" />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+const StatsContent: React.FC = () => {
+  const { _ } = useLingui();
+  const [range, setRange] = useState({ from: daysAgo(29), to: toDay(new Date()) });
+
+  const { data: stats, isLoading, error } = useQuery({
+    queryKey: ['user', 'stats', range.from, range.to],
+    queryFn: () => userService.getStats(range),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const activePreset = RANGE_PRESETS.find(
+    (preset) => range.to === toDay(new Date()) && range.from === daysAgo(preset.days - 1)
+  );
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div>
+        <h1 className="mb-1 flex items-center gap-2 text-3xl font-bold text-foreground">
+          <BarChart3 className="h-7 w-7 text-primary" />
+          <Trans>My Stats</Trans>
+        </h1>
+        <p className="text-muted-foreground">
+          <Trans>What you read, how long and how often, from your account's reading history</Trans>
+        </p>
+      </div>
+
+      {/* Range selector */}
+      <div className="flex flex-wrap items-center gap-2">
+        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+        {RANGE_PRESETS.map((preset) => (
+          <Button
+            key={preset.days}
+            variant={activePreset === preset ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setRange({ from: daysAgo(preset.days - 1), to: toDay(new Date()) })}
+          >
+            {_(preset.label)}
+          </Button>
+        ))}
+        <div className="flex items-center gap-1">
+          <Input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, from: e.target.value }))}
+            className="h-8 w-auto"
+            aria-label={t`From`}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, to: e.target.value }))}
+            className="h-8 w-auto"
+            aria-label={t`To`}
+          />
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+          <Skeleton className="h-56 w-full" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+          {error.message || <Trans>Could not load your statistics.</Trans>}
+        </div>
+      )}
+
+      {stats && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            <StatCard icon={BookOpen} label={<Trans>Chapters read</Trans>} value={stats.totals.chapters} />
+            <StatCard icon={Library} label={<Trans>Manga</Trans>} value={stats.totals.manga} />
+            <StatCard
+              icon={Clock}
+              label={<Trans>Reading time</Trans>}
+              value={formatDuration(stats.totals.readingTimeSeconds)}
+            />
+            <StatCard
+              icon={Flame}
+              label={<Trans>Current streak (best: {stats.streaks.longest} days)</Trans>}
+              value={<Trans>{stats.streaks.current} days</Trans>}
+            />
+          </div>
+
+          <StatsCharts stats={stats} />
+
+          {/* Breakdowns */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base"><Trans>Languages</Trans></CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakdownList
+                  items={stats.languages.map((language) => ({
+                    key: language.language,
+                    label: (
+                      <>
+                        <LanguageFlag languageCode={language.language} className="h-3.5 w-[18px]" />
+                        {language.language.toUpperCase()}
+                      </>
+                    ),
+                    chapters: language.chapters,
+                  }))}
+                  empty={<Trans>Nothing read in this period.</Trans>}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base"><Trans>Most-read tags</Trans></CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakdownList
+                  items={stats.tags.slice(0, 10).map((tag) => ({ key: tag.id, label: tag.name, chapters: tag.chapters }))}
+                  empty={<Trans>No tag data for this period.</Trans>}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base"><Trans>Demographics</Trans></CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BreakdownList
+                  items={stats.demographics.map((demographic) => ({
+                    key: demographic.demographic,
+                    label:
+                      demographic.demographic === 'none' ? (
+                        <Trans>Unspecified</Trans>
+                      ) : (
+                        <span className="capitalize">{demographic.demographic}</span>
+                      ),
+                    chapters: demographic.chapters,
+                  }))}
+                  empty={<Trans>No demographic data for this period.</Trans>}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Top manga */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Trophy className="h-4 w-4 text-primary" />
+                <Trans>Top manga</Trans>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {stats.topManga.length === 0 ? (
+                <p className="text-sm text-muted-foreground"><Trans>Nothing read in this period.</Trans></p>
+              ) : (
+                <ol className="divide-y divide-border">
+                  {stats.topManga.map((manga, index) => (
+                    <li key={manga.mangaId}>
+                      <Link
+                        to="/manga/$mangaId"
+                        params={{ mangaId: manga.mangaId }}
+                        className="flex items-center gap-3 py-2 transition-colors hover:bg-muted/50"
+                      >
+                        <span className="w-6 text-right text-sm font-semibold tabular-nums text-muted-foreground">
+                          {index + 1}
+                        </span>
+                        {manga.coverUrl ? (
+                          <img src={manga.coverUrl} alt="" className="h-14 w-10 rounded object-cover" loading="lazy" />
+                        ) : (
+                          <div className="flex h-14 w-10 items-center justify-center rounded bg-muted">
+                            <BookOpen className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium text-foreground">{manga.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            <Trans>
+                              {manga.chapters} chapters · {formatDuration(manga.readingTimeSeconds)} in total
+                            </Trans>
+                          </p>
+                        </div>
+                      </Link>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+const Stats: React.FC = () => (
+  <AuthGuard>
+    <StatsContent />
+  </AuthGuard>
+);
+
+export default Stats;
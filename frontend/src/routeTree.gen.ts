@@ -14,16 +14,22 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as AdminRouteImport } from './routes/admin'
 
 const TrendingLazyRouteImport = createFileRoute('/trending')()
+const StatsLazyRouteImport = createFileRoute('/stats')()
 const SettingsLazyRouteImport = createFileRoute('/settings')()
 const SearchLazyRouteImport = createFileRoute('/search')()
 const ReadingHistoryLazyRouteImport = createFileRoute('/reading-history')()
 const ProfileLazyRouteImport = createFileRoute('/profile')()
+const ListsLazyRouteImport = createFileRoute('/lists')()
 const LatestUpdatesLazyRouteImport = createFileRoute('/latest-updates')()
 const FavoritesLazyRouteImport = createFileRoute('/favorites')()
+const BookmarksLazyRouteImport = createFileRoute('/bookmarks')()
 const AuthLazyRouteImport = createFileRoute('/auth')()
 const R404LazyRouteImport = createFileRoute('/404')()
 const IndexLazyRouteImport = createFileRoute('/')()
+const OfflineIndexLazyRouteImport = createFileRoute('/offline/')()
+const OfflineChapterIdLazyRouteImport = createFileRoute('/offline/$chapterId')()
 const MangaMangaIdLazyRouteImport = createFileRoute('/manga/$mangaId')()
+const ListListIdLazyRouteImport = createFileRoute('/list/$listId')()
 const ChapterChapterIdLazyRouteImport = createFileRoute('/chapter/$chapterId')()
 const AuthorAuthorIdLazyRouteImport = createFileRoute('/author/$authorId')()
 const AdminUsersLazyRouteImport = createFileRoute('/admin/users')()
@@ -42,6 +48,11 @@ const TrendingLazyRoute = TrendingLazyRouteImport.update({
   path: '/trending',
   getParentRoute: () => rootRouteImport,
 } as any).lazy(() => import('./routes/trending.lazy').then((d) => d.Route))
+const StatsLazyRoute = StatsLazyRouteImport.update({
+  id: '/stats',
+  path: '/stats',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/stats.lazy').then((d) => d.Route))
 const SettingsLazyRoute = SettingsLazyRouteImport.update({
   id: '/settings',
   path: '/settings',
@@ -64,6 +75,11 @@ const ProfileLazyRoute = ProfileLazyRouteImport.update({
   path: '/profile',
   getParentRoute: () => rootRouteImport,
 } as any).lazy(() => import('./routes/profile.lazy').then((d) => d.Route))
+const ListsLazyRoute = ListsLazyRouteImport.update({
+  id: '/lists',
+  path: '/lists',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/lists.lazy').then((d) => d.Route))
 const LatestUpdatesLazyRoute = LatestUpdatesLazyRouteImport.update({
   id: '/latest-updates',
   path: '/latest-updates',
@@ -76,6 +92,11 @@ const FavoritesLazyRoute = FavoritesLazyRouteImport.update({
   path: '/favorites',
   getParentRoute: () => rootRouteImport,
 } as any).lazy(() => import('./routes/favorites.lazy').then((d) => d.Route))
+const BookmarksLazyRoute = BookmarksLazyRouteImport.update({
+  id: '/bookmarks',
+  path: '/bookmarks',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/bookmarks.lazy').then((d) => d.Route))
 const AuthLazyRoute = AuthLazyRouteImport.update({
   id: '/auth',
   path: '/auth',
@@ -96,6 +117,18 @@ const IndexLazyRoute = IndexLazyRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any).lazy(() => import('./routes/index.lazy').then((d) => d.Route))
+const OfflineIndexLazyRoute = OfflineIndexLazyRouteImport.update({
+  id: '/offline/',
+  path: '/offline/',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/offline.index.lazy').then((d) => d.Route))
+const OfflineChapterIdLazyRoute = OfflineChapterIdLazyRouteImport.update({
+  id: '/offline/$chapterId',
+  path: '/offline/$chapterId',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() =>
+  import('./routes/offline.$chapterId.lazy').then((d) => d.Route),
+)
 const MangaMangaIdLazyRoute = MangaMangaIdLazyRouteImport.update({
   id: '/manga/$mangaId',
   path: '/manga/$mangaId',
@@ -103,6 +136,11 @@ const MangaMangaIdLazyRoute = MangaMangaIdLazyRouteImport.update({
 } as any).lazy(() =>
   import('./routes/manga.$mangaId.lazy').then((d) => d.Route),
 )
+const ListListIdLazyRoute = ListListIdLazyRouteImport.update({
+  id: '/list/$listId',
+  path: '/list/$listId',
+  getParentRoute: () => rootRouteImport,
+} as any).lazy(() => import('./routes/list.$listId.lazy').then((d) => d.Route))
 const ChapterChapterIdLazyRoute = ChapterChapterIdLazyRouteImport.update({
   id: '/chapter/$chapterId',
   path: '/chapter/$chapterId',
@@ -164,12 +202,15 @@ export interface FileRoutesByFullPath {
   '/admin': typeof AdminRouteWithChildren
   '/404': typeof R404LazyRoute
   '/auth': typeof AuthLazyRoute
+  '/bookmarks': typeof BookmarksLazyRoute
   '/favorites': typeof FavoritesLazyRoute
   '/latest-updates': typeof LatestUpdatesLazyRoute
+  '/lists': typeof ListsLazyRoute
   '/profile': typeof ProfileLazyRoute
   '/reading-history': typeof ReadingHistoryLazyRoute
   '/search': typeof SearchLazyRoute
   '/settings': typeof SettingsLazyRoute
+  '/stats': typeof StatsLazyRoute
   '/trending': typeof TrendingLazyRoute
   '/admin/dashboard': typeof AdminDashboardLazyRoute
   '/admin/feedback': typeof AdminFeedbackLazyRoute
@@ -177,7 +218,10 @@ export interface FileRoutesByFullPath {
   '/admin/users': typeof AdminUsersLazyRoute
   '/author/$authorId': typeof AuthorAuthorIdLazyRoute
   '/chapter/$chapterId': typeof ChapterChapterIdLazyRoute
+  '/list/$listId': typeof ListListIdLazyRoute
   '/manga/$mangaId': typeof MangaMangaIdLazyRoute
+  '/offline/$chapterId': typeof OfflineChapterIdLazyRoute
+  '/offline': typeof OfflineIndexLazyRoute
   '/group/local/$groupId': typeof GroupLocalGroupIdLazyRoute
   '/group/mangadex/$groupId': typeof GroupMangadexGroupIdLazyRoute
 }
@@ -186,12 +230,15 @@ export interface FileRoutesByTo {
   '/admin': typeof AdminRouteWithChildren
   '/404': typeof R404LazyRoute
   '/auth': typeof AuthLazyRoute
+  '/bookmarks': typeof BookmarksLazyRoute
   '/favorites': typeof FavoritesLazyRoute
   '/latest-updates': typeof LatestUpdatesLazyRoute
+  '/lists': typeof ListsLazyRoute
   '/profile': typeof ProfileLazyRoute
   '/reading-history': typeof ReadingHistoryLazyRoute
   '/search': typeof SearchLazyRoute
   '/settings': typeof SettingsLazyRoute
+  '/stats': typeof StatsLazyRoute
   '/trending': typeof TrendingLazyRoute
   '/admin/dashboard': typeof AdminDashboardLazyRoute
   '/admin/feedback': typeof AdminFeedbackLazyRoute
@@ -199,7 +246,10 @@ export interface FileRoutesByTo {
   '/admin/users': typeof AdminUsersLazyRoute
   '/author/$authorId': typeof AuthorAuthorIdLazyRoute
   '/chapter/$chapterId': typeof ChapterChapterIdLazyRoute
+  '/list/$listId': typeof ListListIdLazyRoute
   '/manga/$mangaId': typeof MangaMangaIdLazyRoute
+  '/offline/$chapterId': typeof OfflineChapterIdLazyRoute
+  '/offline': typeof OfflineIndexLazyRoute
   '/group/local/$groupId': typeof GroupLocalGroupIdLazyRoute
   '/group/mangadex/$groupId': typeof GroupMangadexGroupIdLazyRoute
 }
@@ -209,12 +259,15 @@ export interface FileRoutesById {
   '/admin': typeof AdminRouteWithChildren
   '/404': typeof R404LazyRoute
   '/auth': typeof AuthLazyRoute
+  '/bookmarks': typeof BookmarksLazyRoute
   '/favorites': typeof FavoritesLazyRoute
   '/latest-updates': typeof LatestUpdatesLazyRoute
+  '/lists': typeof ListsLazyRoute
   '/profile': typeof ProfileLazyRoute
   '/reading-history': typeof ReadingHistoryLazyRoute
   '/search': typeof SearchLazyRoute
   '/settings': typeof SettingsLazyRoute
+  '/stats': typeof StatsLazyRoute
   '/trending': typeof TrendingLazyRoute
   '/admin/dashboard': typeof AdminDashboardLazyRoute
   '/admin/feedback': typeof AdminFeedbackLazyRoute
@@ -222,7 +275,10 @@ export interface FileRoutesById {
   '/admin/users': typeof AdminUsersLazyRoute
   '/author/$authorId': typeof AuthorAuthorIdLazyRoute
   '/chapter/$chapterId': typeof ChapterChapterIdLazyRoute
+  '/list/$listId': typeof ListListIdLazyRoute
   '/manga/$mangaId': typeof MangaMangaIdLazyRoute
+  '/offline/$chapterId': typeof OfflineChapterIdLazyRoute
+  '/offline/': typeof OfflineIndexLazyRoute
   '/group/local/$groupId': typeof GroupLocalGroupIdLazyRoute
   '/group/mangadex/$groupId': typeof GroupMangadexGroupIdLazyRoute
 }
@@ -233,12 +289,15 @@ export interface FileRouteTypes {
     | '/admin'
     | '/404'
     | '/auth'
+    | '/bookmarks'
     | '/favorites'
     | '/latest-updates'
+    | '/lists'
     | '/profile'
     | '/reading-history'
     | '/search'
     | '/settings'
+    | '/stats'
     | '/trending'
     | '/admin/dashboard'
     | '/admin/feedback'
@@ -246,7 +305,10 @@ export interface FileRouteTypes {
     | '/admin/users'
     | '/author/$authorId'
     | '/chapter/$chapterId'
+    | '/list/$listId'
     | '/manga/$mangaId'
+    | '/offline/$chapterId'
+    | '/offline'
     | '/group/local/$groupId'
     | '/group/mangadex/$groupId'
   fileRoutesByTo: FileRoutesByTo
@@ -255,12 +317,15 @@ export interface FileRouteTypes {
     | '/admin'
     | '/404'
     | '/auth'
+    | '/bookmarks'
     | '/favorites'
     | '/latest-updates'
+    | '/lists'
     | '/profile'
     | '/reading-history'
     | '/search'
     | '/settings'
+    | '/stats'
     | '/trending'
     | '/admin/dashboard'
     | '/admin/feedback'
@@ -268,7 +333,10 @@ export interface FileRouteTypes {
     | '/admin/users'
     | '/author/$authorId'
     | '/chapter/$chapterId'
+    | '/list/$listId'
     | '/manga/$mangaId'
+    | '/offline/$chapterId'
+    | '/offline'
     | '/group/local/$groupId'
     | '/group/mangadex/$groupId'
   id:
@@ -277,12 +345,15 @@ export interface FileRouteTypes {
     | '/admin'
     | '/404'
     | '/auth'
+    | '/bookmarks'
     | '/favorites'
     | '/latest-updates'
+    | '/lists'
     | '/profile'
     | '/reading-history'
     | '/search'
     | '/settings'
+    | '/stats'
     | '/trending'
     | '/admin/dashboard'
     | '/admin/feedback'
@@ -290,7 +361,10 @@ export interface FileRouteTypes {
     | '/admin/users'
     | '/author/$authorId'
     | '/chapter/$chapterId'
+    | '/list/$listId'
     | '/manga/$mangaId'
+    | '/offline/$chapterId'
+    | '/offline/'
     | '/group/local/$groupId'
     | '/group/mangadex/$groupId'
   fileRoutesById: FileRoutesById
@@ -300,16 +374,22 @@ export interface RootRouteChildren {
   AdminRoute: typeof AdminRouteWithChildren
   R404LazyRoute: typeof R404LazyRoute
   AuthLazyRoute: typeof AuthLazyRoute
+  BookmarksLazyRoute: typeof BookmarksLazyRoute
   FavoritesLazyRoute: typeof FavoritesLazyRoute
   LatestUpdatesLazyRoute: typeof LatestUpdatesLazyRoute
+  ListsLazyRoute: typeof ListsLazyRoute
   ProfileLazyRoute: typeof ProfileLazyRoute
   ReadingHistoryLazyRoute: typeof ReadingHistoryLazyRoute
   SearchLazyRoute: typeof SearchLazyRoute
   SettingsLazyRoute: typeof SettingsLazyRoute
+  StatsLazyRoute: typeof StatsLazyRoute
   TrendingLazyRoute: typeof TrendingLazyRoute
   AuthorAuthorIdLazyRoute: typeof AuthorAuthorIdLazyRoute
   ChapterChapterIdLazyRoute: typeof ChapterChapterIdLazyRoute
+  ListListIdLazyRoute: typeof ListListIdLazyRoute
   MangaMangaIdLazyRoute: typeof MangaMangaIdLazyRoute
+  OfflineChapterIdLazyRoute: typeof OfflineChapterIdLazyRoute
+  OfflineIndexLazyRoute: typeof OfflineIndexLazyRoute
   GroupLocalGroupIdLazyRoute: typeof GroupLocalGroupIdLazyRoute
   GroupMangadexGroupIdLazyRoute: typeof GroupMangadexGroupIdLazyRoute
 }
@@ -323,6 +403,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof TrendingLazyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/stats': {
+      id: '/stats'
+      path: '/stats'
+      fullPath: '/stats'
+      preLoaderRoute: typeof StatsLazyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/settings': {
       id: '/settings'
       path: '/settings'
@@ -351,6 +438,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProfileLazyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/lists': {
+      id: '/lists'
+      path: '/lists'
+      fullPath: '/lists'
+      preLoaderRoute: typeof ListsLazyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/latest-updates': {
       id: '/latest-updates'
       path: '/latest-updates'
@@ -365,6 +459,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof FavoritesLazyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/bookmarks': {
+      id: '/bookmarks'
+      path: '/bookmarks'
+      fullPath: '/bookmarks'
+      preLoaderRoute: typeof BookmarksLazyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/auth': {
       id: '/auth'
       path: '/auth'
@@ -393,6 +494,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexLazyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/offline/': {
+      id: '/offline/'
+      path: '/offline'
+      fullPath: '/offline'
+      preLoaderRoute: typeof OfflineIndexLazyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/offline/$chapterId': {
+      id: '/offline/$chapterId'
+      path: '/offline/$chapterId'
+      fullPath: '/offline/$chapterId'
+      preLoaderRoute: typeof OfflineChapterIdLazyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/manga/$mangaId': {
       id: '/manga/$mangaId'
       path: '/manga/$mangaId'
@@ -400,6 +515,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MangaMangaIdLazyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/list/$listId': {
+      id: '/list/$listId'
+      path: '/list/$listId'
+      fullPath: '/list/$listId'
+      preLoaderRoute: typeof ListListIdLazyRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/chapter/$chapterId': {
       id: '/chapter/$chapterId'
       path: '/chapter/$chapterId'
@@ -480,16 +602,22 @@ const rootRouteChildren: RootRouteChildren = {
   AdminRoute: AdminRouteWithChildren,
   R404LazyRoute: R404LazyRoute,
   AuthLazyRoute: AuthLazyRoute,
+  BookmarksLazyRoute: BookmarksLazyRoute,
   FavoritesLazyRoute: FavoritesLazyRoute,
   LatestUpdatesLazyRoute: LatestUpdatesLazyRoute,
+  ListsLazyRoute: ListsLazyRoute,
   ProfileLazyRoute: ProfileLazyRoute,
   ReadingHistoryLazyRoute: ReadingHistoryLazyRoute,
   SearchLazyRoute: SearchLazyRoute,
   SettingsLazyRoute: SettingsLazyRoute,
+  StatsLazyRoute: StatsLazyRoute,
   TrendingLazyRoute: TrendingLazyRoute,
   AuthorAuthorIdLazyRoute: AuthorAuthorIdLazyRoute,
   ChapterChapterIdLazyRoute: ChapterChapterIdLazyRoute,
+  ListListIdLazyRoute: ListListIdLazyRoute,
   MangaMangaIdLazyRoute: MangaMangaIdLazyRoute,
+  OfflineChapterIdLazyRoute: OfflineChapterIdLazyRoute,
+  OfflineIndexLazyRoute: OfflineIndexLazyRoute,
   GroupLocalGroupIdLazyRoute: GroupLocalGroupIdLazyRoute,
   GroupMangadexGroupIdLazyRoute: GroupMangadexGroupIdLazyRoute,
 }
@@ -8,6 +8,8 @@ import { AuthLayout } from "../components/layout/AuthLayout";
 import { AdminLayout } from "../components/admin/AdminLayout";
 import { AdminGuard } from "../components/auth/AdminGuard";
 import { Toaster } from "../components/ui/toaster";
+import { GlobalShortcuts } from "../components/shortcuts/GlobalShortcuts";
+import { HistorySync } from "../components/history/HistorySync";
 
 export const Route = createRootRoute({
   component: RootComponent,
@@ -42,6 +44,8 @@ function RootComponent() {
             <Outlet />
           </MainLayout>
         )}
+        <GlobalShortcuts />
+        <HistorySync />
         <Toaster />
         <TanStackRouterDevtools />
       </AuthProvider>
@@ -0,0 +1,6 @@
+import { createLazyFileRoute } from '@tanstack/react-router';
+import Bookmarks from '@/pages/Bookmarks';
+
+export const Route = createLazyFileRoute('/bookmarks')({
+  component: Bookmarks,
+});
@@ -0,0 +1,6 @@
+import { createLazyFileRoute } from '@tanstack/react-router';
+import CustomListDetail from '@/pages/CustomListDetail';
+
+export const Route = createLazyFileRoute('/list/$listId')({
+  component: CustomListDetail,
+});
@@ -0,0 +1,6 @@
+import { createLazyFileRoute } from '@tanstack/react-router';
+import CustomLists from '@/pages/CustomLists';
+
+export const Route = createLazyFileRoute('/lists')({
+  component: CustomLists,
+});
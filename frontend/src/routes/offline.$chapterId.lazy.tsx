@@ -0,0 +1,6 @@
+import { createLazyFileRoute } from '@tanstack/react-router';
+import OfflineReader from '@/pages/OfflineReader';
+
+export const Route = createLazyFileRoute('/offline/$chapterId')({
+  component: OfflineReader,
+});
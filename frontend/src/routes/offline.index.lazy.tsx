@@ -0,0 +1,6 @@
+import { createLazyFileRoute } from '@tanstack/react-router';
+import OfflineLibrary from '@/pages/OfflineLibrary';
+
+export const Route = createLazyFileRoute('/offline/')({
+  component: OfflineLibrary,
+});
@@ -6,12 +6,17 @@ import { AxiosError } from 'axios';
 
 const MangaSourceSchema = z.enum(['MANGADEX', 'LOCAL']);
 
+export const READING_STATUSES = ['READING', 'PLAN_TO_READ', 'COMPLETED', 'ON_HOLD', 'DROPPED'] as const;
+
+const ReadingStatusSchema = z.enum(READING_STATUSES);
+
 const FollowedMangaSchema = z.object({
     id: z.string(),
     userId: z.string(),
     mangaId: z.string().nullable(),
     externalMangaId: z.string().nullable(),
     mangaSource: MangaSourceSchema,
+    status: ReadingStatusSchema,
     createdAt: z.string(),
     manga: z
         .object({
@@ -51,6 +56,8 @@ const PaginatedFollowSchema = z.object({
     page: z.number(),
     limit: z.number(),
     hasMore: z.boolean(),
+    /** Follows on each shelf, whatever shelf was listed */
+    counts: z.record(ReadingStatusSchema, z.number()),
 });
 
 const ChapterFeedResponseSchema = z.object({
@@ -66,6 +73,124 @@ const FollowStatusSchema = z.object({
     success: z.boolean(),
     isFollowing: z.boolean(),
     followId: z.string().optional(),
+    status: ReadingStatusSchema.optional(),
+});
+
+export const CREATOR_TYPES = ['MANGADEX_GROUP', 'LOCAL_GROUP', 'AUTHOR'] as const;
+
+const CreatorTypeSchema = z.enum(CREATOR_TYPES);
+
+const CreatorFollowSchema = z.object({
+    id: z.string(),
+    creatorType: CreatorTypeSchema,
+    creatorId: z.string(),
+    name: z.string().nullable(),
+    createdAt: z.string(),
+});
+
+const CreatorFollowsResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.array(CreatorFollowSchema),
+});
+
+const CreatorFollowStatusSchema = z.object({
+    success: z.boolean(),
+    isFollowing: z.boolean(),
+    followers: z.number(),
+});
+
+const NotificationSettingsSchema = z.object({
+    muted: z.boolean(),
+    /** Empty means the user's preferred languages */
+    languages: z.array(z.string()),
+    /** Empty means any scanlation group */
+    groupIds: z.array(z.string()),
+});
+
+const NotificationSettingsDetailsSchema = NotificationSettingsSchema.extend({
+    /** Preferred languages used while `languages` is empty; null when never saved */
+    defaultLanguages: z.array(z.string()).nullable(),
+    groups: z.array(z.object({ id: z.string(), name: z.string().nullable() })),
+});
+
+const NotificationSettingsResponseSchema = z.object({
+    success: z.boolean(),
+    data: NotificationSettingsDetailsSchema,
+});
+
+const ExportedFollowSchema = z.object({
+    source: MangaSourceSchema,
+    mangaId: z.string(),
+    title: z.string().nullable(),
+    status: ReadingStatusSchema,
+    followedAt: z.string(),
+    malId: z.string().nullable(),
+    anilistId: z.string().nullable(),
+    lastReadChapter: z.number().nullable(),
+    startedReadingAt: z.string().nullable(),
+    lastReadAt: z.string().nullable(),
+});
+
+const ExportFollowsResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.array(ExportedFollowSchema),
+});
+
+const ImportEntrySchema = z.object({
+    title: z.string(),
+    altTitles: z.array(z.string()).optional(),
+    malId: z.string().optional(),
+    anilistId: z.string().optional(),
+    status: ReadingStatusSchema,
+});
+
+const ImportCandidateSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    year: z.number().nullable(),
+    coverUrl: z.string().nullable(),
+});
+
+const ImportMatchSchema = z.object({
+    entry: ImportEntrySchema,
+    state: z.enum(['MATCHED', 'AMBIGUOUS', 'UNMATCHED']),
+    mangaId: z.string().optional(),
+    candidates: z.array(ImportCandidateSchema),
+});
+
+const ImportJobSchema = z.object({
+    id: z.string(),
+    name: z.enum(['match-entries', 'create-follows']),
+    // BullMQ job state: waiting, delayed, active, completed, failed…
+    state: z.string(),
+    progress: z.object({ processed: z.number(), total: z.number() }).nullable(),
+    result: z
+        .union([
+            z.object({ matches: z.array(ImportMatchSchema) }),
+            z.object({ created: z.number(), skipped: z.number() }),
+        ])
+        .nullable(),
+    failedReason: z.string().nullable(),
+});
+
+const ImportJobStartedSchema = z.object({
+    success: z.boolean(),
+    jobId: z.string(),
+});
+
+const ImportJobResponseSchema = z.object({
+    success: z.boolean(),
+    data: ImportJobSchema,
+});
+
+const BulkCountResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.object({ count: z.number() }),
+});
+
+const BulkListResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.object({ added: z.number(), skipped: z.number() }),
 });
 
 // ============================================================================
@@ -73,11 +198,23 @@ const FollowStatusSchema = z.object({
 // ============================================================================
 
 export type MangaSource = z.infer<typeof MangaSourceSchema>;
+export type ReadingStatus = z.infer<typeof ReadingStatusSchema>;
 export type FollowedManga = z.infer<typeof FollowedMangaSchema>;
 export type ChapterFeedItem = z.infer<typeof ChapterFeedItemSchema>;
 export type PaginatedFollowResponse = z.infer<typeof PaginatedFollowSchema>;
 export type ChapterFeedResponse = z.infer<typeof ChapterFeedResponseSchema>;
 export type FollowStatusResponse = z.infer<typeof FollowStatusSchema>;
+export type CreatorType = z.infer<typeof CreatorTypeSchema>;
+export type CreatorFollow = z.infer<typeof CreatorFollowSchema>;
+export type CreatorFollowStatus = z.infer<typeof CreatorFollowStatusSchema>;
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>;
+export type NotificationSettingsDetails = z.infer<typeof NotificationSettingsDetailsSchema>;
+export type ExportedFollow = z.infer<typeof ExportedFollowSchema>;
+export type ImportSource = 'MAL' | 'ANILIST';
+export type ImportEntry = z.infer<typeof ImportEntrySchema>;
+export type ImportCandidate = z.infer<typeof ImportCandidateSchema>;
+export type ImportMatch = z.infer<typeof ImportMatchSchema>;
+export type ImportJob = z.infer<typeof ImportJobSchema>;
 
 export interface FeedParams {
     page?: number;
@@ -105,10 +242,19 @@ function handleError(error: unknown): never {
 // ============================================================================
 
 export const followService = {
-    /** Follow a manga */
-    async followManga(mangaId: string, source: MangaSource): Promise<void> {
+    /** Follow a manga, on the Reading shelf unless another status is given */
+    async followManga(mangaId: string, source: MangaSource, status?: ReadingStatus): Promise<void> {
+        try {
+            await api.post('/api/v1/follows', { mangaId, source, status });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Move a followed manga to another shelf */
+    async updateFollowStatus(mangaId: string, source: MangaSource, status: ReadingStatus): Promise<void> {
         try {
-            await api.post('/api/v1/follows', { mangaId, source });
+            await api.patch('/api/v1/follows/status', { mangaId, source, status });
         } catch (error) {
             handleError(error);
         }
@@ -123,10 +269,11 @@ export const followService = {
         }
     },
 
-    /** Get user's followed manga list, paginated */
+    /** Get user's followed manga list, paginated, optionally from one shelf */
     async getUserFollows(params?: {
         page?: number;
         limit?: number;
+        status?: ReadingStatus;
     }): Promise<PaginatedFollowResponse> {
         try {
             const response = await api.get('/api/v1/follows', { params });
@@ -159,6 +306,185 @@ export const followService = {
         }
     },
 
+    /** New chapter notification settings of a followed manga */
+    async getNotificationSettings(mangaId: string, source: MangaSource): Promise<NotificationSettingsDetails> {
+        try {
+            const response = await api.get('/api/v1/follows/notifications', {
+                params: { mangaId, source },
+            });
+            return NotificationSettingsResponseSchema.parse(response.data).data;
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                console.error('[FollowService] getNotificationSettings validation error:', error.flatten());
+                throw new Error('Unexpected response format from server');
+            }
+            handleError(error);
+        }
+    },
+
+    /** Mute a followed manga or narrow which of its chapters notify */
+    async updateNotificationSettings(
+        mangaId: string,
+        source: MangaSource,
+        settings: Partial<NotificationSettings>,
+    ): Promise<void> {
+        try {
+            await api.patch('/api/v1/follows/notifications', { mangaId, source, ...settings });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Scanlation groups and authors the user follows, newest first */
+    async getCreatorFollows(): Promise<CreatorFollow[]> {
+        try {
+            const response = await api.get('/api/v1/follows/creators');
+            return CreatorFollowsResponseSchema.parse(response.data).data;
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                console.error('[FollowService] getCreatorFollows validation error:', error.flatten());
+                throw new Error('Unexpected response format from server');
+            }
+            handleError(error);
+        }
+    },
+
+    /** Whether the user follows a group or author, and its follower count */
+    async checkCreatorFollowStatus(creatorType: CreatorType, creatorId: string): Promise<CreatorFollowStatus> {
+        try {
+            const response = await api.get('/api/v1/follows/creators/status', {
+                params: { creatorType, creatorId },
+            });
+            return CreatorFollowStatusSchema.parse(response.data);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                console.error('[FollowService] checkCreatorFollowStatus validation error:', error.flatten());
+                throw new Error('Unexpected response format from server');
+            }
+            handleError(error);
+        }
+    },
+
+    /** Follow a scanlation group or an author */
+    async followCreator(creatorType: CreatorType, creatorId: string): Promise<void> {
+        try {
+            await api.post('/api/v1/follows/creators', { creatorType, creatorId });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Unfollow a scanlation group or an author */
+    async unfollowCreator(creatorType: CreatorType, creatorId: string): Promise<void> {
+        try {
+            await api.delete('/api/v1/follows/creators', { data: { creatorType, creatorId } });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Latest chapters uploaded by the MangaDex groups the user follows */
+    async getCreatorFeed(params?: FeedParams): Promise<ChapterFeedResponse> {
+        try {
+            const response = await api.get('/api/v1/follows/creators/feed', { params });
+            return ChapterFeedResponseSchema.parse(response.data);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                console.error('[FollowService] getCreatorFeed validation error:', error.flatten());
+                throw new Error('Unexpected response format from server');
+            }
+            handleError(error);
+        }
+    },
+
+    /** Unfollow several manga by follow id; returns how many were unfollowed */
+    async bulkUnfollow(followIds: string[]): Promise<number> {
+        try {
+            const response = await api.post('/api/v1/follows/bulk/unfollow', { followIds });
+            return BulkCountResponseSchema.parse(response.data).data.count;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Move several follows to one shelf */
+    async bulkUpdateStatus(followIds: string[], status: ReadingStatus): Promise<number> {
+        try {
+            const response = await api.patch('/api/v1/follows/bulk/status', { followIds, status });
+            return BulkCountResponseSchema.parse(response.data).data.count;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Mute or unmute new chapter notifications for several follows */
+    async bulkSetMuted(followIds: string[], muted: boolean): Promise<number> {
+        try {
+            const response = await api.patch('/api/v1/follows/bulk/notifications', { followIds, muted });
+            return BulkCountResponseSchema.parse(response.data).data.count;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Add several followed manga to a custom list; manga already in it are skipped */
+    async bulkAddToList(followIds: string[], listId: string): Promise<{ added: number; skipped: number }> {
+        try {
+            const response = await api.post('/api/v1/follows/bulk/lists', { followIds, listId });
+            return BulkListResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** The whole library with reading progress and MAL/AniList ids, for exporting */
+    async exportFollows(): Promise<ExportedFollow[]> {
+        try {
+            const response = await api.get('/api/v1/follows/export');
+            return ExportFollowsResponseSchema.parse(response.data).data;
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                console.error('[FollowService] exportFollows validation error:', error.flatten());
+                throw new Error('Unexpected response format from server');
+            }
+            handleError(error);
+        }
+    },
+
+    /** Queue matching of a MyAnimeList/AniList export to MangaDex; returns the job id */
+    async startImportMatch(source: ImportSource, entries: ImportEntry[]): Promise<string> {
+        try {
+            const response = await api.post('/api/v1/follows/import/match', { source, entries });
+            return ImportJobStartedSchema.parse(response.data).jobId;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Queue following the reviewed matches; returns the job id */
+    async startImport(items: { mangaId: string; status: ReadingStatus }[]): Promise<string> {
+        try {
+            const response = await api.post('/api/v1/follows/import', { items });
+            return ImportJobStartedSchema.parse(response.data).jobId;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Progress and result of an import job */
+    async getImportJob(jobId: string): Promise<ImportJob> {
+        try {
+            const response = await api.get(`/api/v1/follows/import/${jobId}`);
+            return ImportJobResponseSchema.parse(response.data).data;
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                console.error('[FollowService] getImportJob validation error:', error.flatten());
+                throw new Error('Unexpected response format from server');
+            }
+            handleError(error);
+        }
+    },
+
     /** Get latest chapter feed from all followed manga */
     async getFollowedMangaFeed(params?: FeedParams): Promise<ChapterFeedResponse> {
         try {
@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import api from '@/lib/axios';
+import { AxiosError } from 'axios';
+import type { MangaSource } from '@/services/follow_service';
+
+// Schemas
+
+const MangaSourceSchema = z.enum(['MANGADEX', 'LOCAL']);
+
+export const LIST_VISIBILITIES = ['PRIVATE', 'UNLISTED', 'PUBLIC'] as const;
+
+const ListVisibilitySchema = z.enum(LIST_VISIBILITIES);
+
+const ListOwnerSchema = z.object({
+    id: z.string(),
+    displayName: z.string().nullable(),
+});
+
+const CustomListSummarySchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    visibility: ListVisibilitySchema,
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    itemCount: z.number(),
+    /** Only when the lists were fetched for a manga */
+    containsManga: z.boolean().optional(),
+    user: ListOwnerSchema.optional(),
+});
+
+const CustomListItemSchema = z.object({
+    id: z.string(),
+    mangaId: z.string().nullable(),
+    externalMangaId: z.string().nullable(),
+    mangaSource: MangaSourceSchema,
+    position: z.number(),
+    mangaTitle: z.string().nullable(),
+    coverUrl: z.string().nullable(),
+    addedAt: z.string(),
+    manga: z
+        .object({
+            id: z.string(),
+            title: z.string(),
+            coverPublicId: z.string().nullable(),
+        })
+        .nullable(),
+});
+
+const CustomListDetailSchema = CustomListSummarySchema.extend({
+    user: ListOwnerSchema,
+    items: z.array(CustomListItemSchema),
+    isOwner: z.boolean(),
+});
+
+const ListsResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.array(CustomListSummarySchema),
+});
+
+const PublicListsResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.object({
+        lists: z.array(CustomListSummarySchema),
+        nextCursor: z.string().optional(),
+    }),
+});
+
+const ListResponseSchema = z.object({
+    success: z.boolean(),
+    data: CustomListSummarySchema,
+});
+
+const ListDetailResponseSchema = z.object({
+    success: z.boolean(),
+    data: CustomListDetailSchema,
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ListVisibility = z.infer<typeof ListVisibilitySchema>;
+export type CustomListSummary = z.infer<typeof CustomListSummarySchema>;
+export type CustomListItem = z.infer<typeof CustomListItemSchema>;
+export type CustomListDetail = z.infer<typeof CustomListDetailSchema>;
+export type PublicListsPage = z.infer<typeof PublicListsResponseSchema>['data'];
+
+export interface CustomListData {
+    name: string;
+    description?: string | null;
+    visibility?: ListVisibility;
+}
+
+export interface ListMangaData {
+    mangaId: string;
+    source: MangaSource;
+    /** Shown for MangaDex manga, which the server does not store */
+    mangaTitle?: string | null;
+    coverUrl?: string | null;
+}
+
+// ============================================================================
+// Error helper
+// ============================================================================
+
+function handleError(error: unknown): never {
+    if (error instanceof z.ZodError) {
+        console.error('[ListService] validation error:', error.flatten());
+        throw new Error('Unexpected response format from server');
+    }
+    if (error instanceof AxiosError) {
+        const msg =
+            (error.response?.data as { message?: string })?.message ?? error.message;
+        throw new Error(msg);
+    }
+    if (error instanceof Error) throw error;
+    throw new Error('An unexpected error occurred');
+}
+
+// ============================================================================
+// List Service
+// ============================================================================
+
+export const listService = {
+    /** The user's own lists; with a manga, each list says whether it holds it */
+    async getUserLists(manga?: { mangaId: string; source: MangaSource }): Promise<CustomListSummary[]> {
+        try {
+            const response = await api.get('/api/v1/lists', { params: manga });
+            return ListsResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Public lists from everyone, newest first */
+    async getPublicLists(cursor?: string): Promise<PublicListsPage> {
+        try {
+            const response = await api.get('/api/v1/lists/public', { params: { cursor } });
+            return PublicListsResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** A list with its manga in order */
+    async getList(listId: string): Promise<CustomListDetail> {
+        try {
+            const response = await api.get(`/api/v1/lists/${listId}`);
+            return ListDetailResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    async createList(data: CustomListData): Promise<CustomListSummary> {
+        try {
+            const response = await api.post('/api/v1/lists', data);
+            return ListResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    async updateList(listId: string, data: Partial<CustomListData>): Promise<CustomListSummary> {
+        try {
+            const response = await api.patch(`/api/v1/lists/${listId}`, data);
+            return ListResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    async deleteList(listId: string): Promise<void> {
+        try {
+            await api.delete(`/api/v1/lists/${listId}`);
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Add a manga at the end of a list */
+    async addManga(listId: string, data: ListMangaData): Promise<void> {
+        try {
+            await api.post(`/api/v1/lists/${listId}/items`, data);
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    async removeManga(listId: string, mangaId: string, source: MangaSource): Promise<void> {
+        try {
+            await api.delete(`/api/v1/lists/${listId}/items`, { data: { mangaId, source } });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Save a new order; every item of the list must be given once */
+    async reorderItems(listId: string, itemIds: string[]): Promise<void> {
+        try {
+            await api.put(`/api/v1/lists/${listId}/items/order`, { itemIds });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+};
+
+export default listService;
@@ -2,7 +2,7 @@ import api from '@/lib/axios';
 
 export interface Notification {
     id: string;
-    type: 'COMMENT_REPLY' | 'NEW_CHAPTER' | 'GROUP_UPLOAD' | 'FAVORITE_UPDATE' | 'SYSTEM';
+    type: 'COMMENT_REPLY' | 'NEW_CHAPTER' | 'GROUP_UPLOAD' | 'NEW_TITLE' | 'FAVORITE_UPDATE' | 'SYSTEM';
     title: string;
     message: string;
     payload: Record<string, any> | null;
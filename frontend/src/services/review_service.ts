@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import api from '@/lib/axios';
+import { AxiosError } from 'axios';
+import type { MangaSource } from '@/services/follow_service';
+
+// Schemas
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+export const REVIEW_SORTS = ['helpful', 'recent'] as const;
+
+const ReviewSchema = z.object({
+    id: z.string(),
+    userId: z.string(),
+    mangaId: z.string(),
+    sourceType: z.enum(['MANGADEX', 'LOCAL']),
+    score: z.number(),
+    content: z.string().nullable(),
+    isSpoiler: z.boolean(),
+    helpfulCount: z.number(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    user: z.object({
+        id: z.string(),
+        displayName: z.string().nullable(),
+        profilePicture: z.string().nullable(),
+    }),
+    /** Only in review listings */
+    votedHelpful: z.boolean().optional(),
+});
+
+const RatingSummarySchema = z.object({
+    average: z.number().nullable(),
+    count: z.number(),
+    distribution: z.record(z.string(), z.number()),
+    reviewCount: z.number(),
+});
+
+const RatingSummaryResponseSchema = z.object({
+    success: z.boolean(),
+    data: RatingSummarySchema,
+});
+
+const ReviewsResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.object({
+        reviews: z.array(ReviewSchema),
+        nextCursor: z.string().optional(),
+    }),
+});
+
+const ReviewResponseSchema = z.object({
+    success: z.boolean(),
+    data: ReviewSchema,
+});
+
+const UserReviewResponseSchema = z.object({
+    success: z.boolean(),
+    data: ReviewSchema.nullable(),
+});
+
+const HelpfulResponseSchema = z.object({
+    success: z.boolean(),
+    data: z.object({ helpfulCount: z.number() }),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Review = z.infer<typeof ReviewSchema>;
+export type RatingSummary = z.infer<typeof RatingSummarySchema>;
+export type ReviewsPage = z.infer<typeof ReviewsResponseSchema>['data'];
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export interface ReviewData {
+    mangaId: string;
+    source: MangaSource;
+    score: number;
+    content?: string | null;
+    isSpoiler?: boolean;
+}
+
+// ============================================================================
+// Error helper
+// ============================================================================
+
+function handleError(error: unknown): never {
+    if (error instanceof z.ZodError) {
+        console.error('[ReviewService] validation error:', error.flatten());
+        throw new Error('Unexpected response format from server');
+    }
+    if (error instanceof AxiosError) {
+        const msg =
+            (error.response?.data as { message?: string })?.message ?? error.message;
+        throw new Error(msg);
+    }
+    if (error instanceof Error) throw error;
+    throw new Error('An unexpected error occurred');
+}
+
+// ============================================================================
+// Review Service
+// ============================================================================
+
+export const reviewService = {
+    /** Average score and distribution of our users' ratings */
+    async getRatingSummary(mangaId: string, source: MangaSource): Promise<RatingSummary> {
+        try {
+            const response = await api.get('/api/v1/reviews/summary', { params: { mangaId, source } });
+            return RatingSummaryResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Written reviews, most helpful or newest first */
+    async getReviews(
+        mangaId: string,
+        source: MangaSource,
+        sort: ReviewSort,
+        cursor?: string,
+    ): Promise<ReviewsPage> {
+        try {
+            const response = await api.get('/api/v1/reviews', { params: { mangaId, source, sort, cursor } });
+            return ReviewsResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** The user's own rating, or null */
+    async getUserReview(mangaId: string, source: MangaSource): Promise<Review | null> {
+        try {
+            const response = await api.get('/api/v1/reviews/mine', { params: { mangaId, source } });
+            return UserReviewResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Rate a manga, or change the rating */
+    async saveReview(data: ReviewData): Promise<Review> {
+        try {
+            const response = await api.put('/api/v1/reviews', data);
+            return ReviewResponseSchema.parse(response.data).data;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    async deleteReview(mangaId: string, source: MangaSource): Promise<void> {
+        try {
+            await api.delete('/api/v1/reviews', { data: { mangaId, source } });
+        } catch (error) {
+            handleError(error);
+        }
+    },
+
+    /** Mark or unmark a review as helpful; returns the new count */
+    async setHelpful(reviewId: string, helpful: boolean): Promise<number> {
+        try {
+            const url = `/api/v1/reviews/${reviewId}/helpful`;
+            const response = helpful ? await api.post(url) : await api.delete(url);
+            return HelpfulResponseSchema.parse(response.data).data.helpfulCount;
+        } catch (error) {
+            handleError(error);
+        }
+    },
+};
+
+export default reviewService;
@@ -30,6 +30,157 @@ const UpdatePasswordDataSchema = z.object({
   newPassword: z.string().min(6, 'Mật khẩu mới phải có ít nhất 6 ký tự'),
 });
 
+// User preferences schema (server vocabulary: readingMode uses snake_case values)
+const UserPreferencesSchema = z.object({
+  readingMode: z.enum(['single_page', 'double_page', 'webtoon', 'horizontal']),
+  imageGap: z.number(),
+  fitMode: z.enum(['auto', 'width', 'height', 'original', 'custom']),
+  customZoom: z.number(),
+  showHeader: z.boolean(),
+  doublePageShift: z.boolean(),
+  dataSaver: z.boolean(),
+  keyboardShortcuts: z.record(z.string(), z.string().nullable()),
+  autoMarkAsRead: z.boolean(),
+  preferredLanguages: z.array(z.string()),
+  contentRatingFilter: z.array(z.string()),
+  updatedAt: z.string(),
+});
+
+const UpdatePreferencesDataSchema = UserPreferencesSchema.omit({ updatedAt: true }).partial();
+
+// Last read position in a manga (pageNumber is 1-based)
+const ReadingProgressSchema = z.object({
+  mangaId: z.string().nullable(),
+  externalMangaId: z.string().nullable(),
+  mangaSource: z.enum(['MANGADEX', 'LOCAL']),
+  externalChapterId: z.string().nullable(),
+  chapterNumber: z.number().nullable(),
+  pageNumber: z.number().nullable(),
+  progress: z.number().nullable(),
+  readTime: z.number().nullable(),
+  lastReadAt: z.string(),
+});
+
+const SaveReadingProgressDataSchema = z.object({
+  mangaId: z.string().min(1),
+  source: z.enum(['MANGADEX', 'LOCAL']).optional(),
+  chapterId: z.string().min(1).optional(),
+  chapterNumber: z.number().nullable().optional(),
+  pageNumber: z.number().int().min(1),
+  totalPages: z.number().int().min(1),
+  readTime: z.number().min(0).optional(),
+});
+
+// Bookmarked page in a chapter; the note is private to its owner
+const PageBookmarkSchema = z.object({
+  id: z.string(),
+  mangaId: z.string().nullable(),
+  externalMangaId: z.string().nullable(),
+  mangaSource: z.enum(['MANGADEX', 'LOCAL']),
+  externalChapterId: z.string().nullable(),
+  chapterNumber: z.number().nullable(),
+  pageNumber: z.number(),
+  note: z.string().nullable(),
+  mangaTitle: z.string().nullable(),
+  chapterTitle: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const PageBookmarkListSchema = z.object({
+  bookmarks: z.array(PageBookmarkSchema),
+  nextCursor: z.string().optional(),
+});
+
+const CreatePageBookmarkDataSchema = z.object({
+  mangaId: z.string().min(1),
+  source: z.enum(['MANGADEX', 'LOCAL']).optional(),
+  chapterId: z.string().min(1).optional(),
+  chapterNumber: z.number().nullable().optional(),
+  pageNumber: z.number().int().min(1),
+  note: z.string().max(2000).nullable().optional(),
+  mangaTitle: z.string().max(500).nullable().optional(),
+  chapterTitle: z.string().max(500).nullable().optional(),
+});
+
+// A chapter the user opened, as recorded on the server (MangaDex chapters only)
+const ChapterHistoryEntrySchema = z.object({
+  id: z.string(),
+  mangaId: z.string(),
+  chapterId: z.string(),
+  mangaTitle: z.string(),
+  chapterNumber: z.string().nullable(),
+  chapterTitle: z.string().nullable(),
+  volume: z.string().nullable(),
+  translatedLanguage: z.string(),
+  externalUrl: z.string().nullable(),
+  scanlationGroups: z.array(z.object({ id: z.string(), name: z.string() })),
+  coverUrl: z.string().nullable(),
+  readAt: z.string(),
+});
+
+const ChapterHistoryListSchema = z.object({
+  entries: z.array(ChapterHistoryEntrySchema),
+  nextCursor: z.string().optional(),
+});
+
+const RecordChapterHistoryDataSchema = z.object({
+  mangaId: z.string().min(1),
+  chapterId: z.string().min(1),
+  mangaTitle: z.string().min(1).max(500),
+  chapterNumber: z.string().nullable().optional(),
+  chapterTitle: z.string().max(500).nullable().optional(),
+  volume: z.string().nullable().optional(),
+  translatedLanguage: z.string(),
+  externalUrl: z.string().nullable().optional(),
+  scanlationGroups: z.array(z.object({ id: z.string(), name: z.string() })).optional(),
+  coverUrl: z.string().nullable().optional(),
+});
+
+// Local entries carry the time they were read on the device (epoch ms)
+const MergeChapterHistoryEntrySchema = RecordChapterHistoryDataSchema.extend({
+  timestamp: z.number(),
+});
+
+// Chapters to mark as read and/or unread in one manga
+const ReadMarkerBatchSchema = z.object({
+  chapterIdsRead: z.array(z.string()).max(500).optional(),
+  chapterIdsUnread: z.array(z.string()).max(500).optional(),
+});
+
+// Reading statistics for a range of days (YYYY-MM-DD in the profile timezone)
+const ReadingStatsRangeSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+const ReadingStatsSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  timezone: z.string(),
+  totals: z.object({
+    chapters: z.number(),
+    manga: z.number(),
+    readingTimeSeconds: z.number(),
+    activeDays: z.number(),
+  }),
+  daily: z.array(z.object({ date: z.string(), chapters: z.number(), readingTimeSeconds: z.number() })),
+  weekly: z.array(z.object({ weekStart: z.string(), chapters: z.number(), readingTimeSeconds: z.number() })),
+  languages: z.array(z.object({ language: z.string(), chapters: z.number() })),
+  tags: z.array(z.object({ id: z.string(), name: z.string(), chapters: z.number() })),
+  demographics: z.array(z.object({ demographic: z.string(), chapters: z.number() })),
+  streaks: z.object({ current: z.number(), longest: z.number() }),
+  topManga: z.array(
+    z.object({
+      mangaId: z.string(),
+      title: z.string(),
+      coverUrl: z.string().nullable(),
+      chapters: z.number(),
+      readingTimeSeconds: z.number(),
+    })
+  ),
+});
+
 // API response wrapper
 const ApiResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
   z.object({
@@ -41,6 +192,26 @@ const ApiResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
 export type UserProfile = z.infer<typeof UserProfileSchema>;
 export type UpdateProfileData = z.infer<typeof UpdateProfileDataSchema>;
 export type UpdatePasswordData = z.infer<typeof UpdatePasswordDataSchema>;
+export type UserPreferences = z.infer<typeof UserPreferencesSchema>;
+export type UpdatePreferencesData = z.infer<typeof UpdatePreferencesDataSchema>;
+export type ReadingProgress = z.infer<typeof ReadingProgressSchema>;
+export type SaveReadingProgressData = z.infer<typeof SaveReadingProgressDataSchema>;
+export type PageBookmark = z.infer<typeof PageBookmarkSchema>;
+export type PageBookmarkList = z.infer<typeof PageBookmarkListSchema>;
+export type CreatePageBookmarkData = z.infer<typeof CreatePageBookmarkDataSchema>;
+export type ChapterHistoryEntry = z.infer<typeof ChapterHistoryEntrySchema>;
+export type ChapterHistoryList = z.infer<typeof ChapterHistoryListSchema>;
+export type RecordChapterHistoryData = z.infer<typeof RecordChapterHistoryDataSchema>;
+export type MergeChapterHistoryEntry = z.infer<typeof MergeChapterHistoryEntrySchema>;
+export type ReadMarkerBatch = z.infer<typeof ReadMarkerBatchSchema>;
+
+export interface ClearHistoryFilter {
+  mangaId?: string;
+  from?: Date;
+  to?: Date;
+}
+export type ReadingStatsRange = z.infer<typeof ReadingStatsRangeSchema>;
+export type ReadingStats = z.infer<typeof ReadingStatsSchema>;
 
 // ============================================================================
 // Helpers
@@ -189,6 +360,292 @@ export const userService = {
       throw new Error(handleAxiosError(error));
     }
   },
+
+  /**
+   * Get saved preferences; null when the user has never saved any
+   */
+  async getPreferences(): Promise<UserPreferences | null> {
+    try {
+      const response = await api.get('/api/v1/user/preferences');
+      const validated = parseResponse(
+        ApiResponseSchema(UserPreferencesSchema.nullable()),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Update preferences (only the provided fields change)
+   */
+  async updatePreferences(data: UpdatePreferencesData): Promise<UserPreferences> {
+    const validatedInput = UpdatePreferencesDataSchema.parse(data);
+
+    try {
+      const response = await api.put('/api/v1/user/preferences', validatedInput);
+      const validated = parseResponse(
+        ApiResponseSchema(UserPreferencesSchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get the last read chapter and page of a manga; null when never read
+   */
+  async getReadingProgress(mangaId: string, source: 'MANGADEX' | 'LOCAL' = 'MANGADEX'): Promise<ReadingProgress | null> {
+    try {
+      const response = await api.get(`/api/v1/user/progress/${encodeURIComponent(mangaId)}`, {
+        params: { source },
+      });
+      const validated = parseResponse(
+        ApiResponseSchema(ReadingProgressSchema.nullable()),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Report the page currently being read
+   */
+  async saveReadingProgress(data: SaveReadingProgressData): Promise<ReadingProgress> {
+    const validatedInput = SaveReadingProgressDataSchema.parse(data);
+
+    try {
+      const response = await api.put('/api/v1/user/progress', validatedInput);
+      const validated = parseResponse(
+        ApiResponseSchema(ReadingProgressSchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get page bookmarks, newest first; pass a manga to list only its bookmarks
+   */
+  async getBookmarks(
+    params: { mangaId?: string; source?: 'MANGADEX' | 'LOCAL'; cursor?: string; limit?: number } = {}
+  ): Promise<PageBookmarkList> {
+    try {
+      const response = await api.get('/api/v1/user/bookmarks', { params });
+      const validated = parseResponse(
+        ApiResponseSchema(PageBookmarkListSchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Bookmark a page; bookmarking the same page again replaces its note
+   */
+  async createBookmark(data: CreatePageBookmarkData): Promise<PageBookmark> {
+    const validatedInput = CreatePageBookmarkDataSchema.parse(data);
+
+    try {
+      const response = await api.post('/api/v1/user/bookmarks', validatedInput);
+      const validated = parseResponse(
+        ApiResponseSchema(PageBookmarkSchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Change the private note on a bookmark
+   */
+  async updateBookmarkNote(bookmarkId: string, note: string | null): Promise<PageBookmark> {
+    try {
+      const response = await api.patch(`/api/v1/user/bookmarks/${encodeURIComponent(bookmarkId)}`, { note });
+      const validated = parseResponse(
+        ApiResponseSchema(PageBookmarkSchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Remove a bookmark
+   */
+  async deleteBookmark(bookmarkId: string): Promise<void> {
+    try {
+      await api.delete(`/api/v1/user/bookmarks/${encodeURIComponent(bookmarkId)}`);
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get chapter reading history, most recently read first
+   */
+  async getHistory(
+    params: { mangaId?: string; cursor?: string; limit?: number } = {}
+  ): Promise<ChapterHistoryList> {
+    try {
+      const response = await api.get('/api/v1/user/history', { params });
+      const validated = parseResponse(
+        ApiResponseSchema(ChapterHistoryListSchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Record a chapter that was just opened
+   */
+  async recordHistory(data: RecordChapterHistoryData): Promise<ChapterHistoryEntry> {
+    const validatedInput = RecordChapterHistoryDataSchema.parse(data);
+
+    try {
+      const response = await api.post('/api/v1/user/history', validatedInput);
+      const validated = parseResponse(
+        ApiResponseSchema(ChapterHistoryEntrySchema),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Merge history kept on this device into the account; the newest read of each chapter wins
+   */
+  async mergeHistory(entries: MergeChapterHistoryEntry[]): Promise<{ created: number; updated: number }> {
+    const validatedInput = z.array(MergeChapterHistoryEntrySchema).parse(entries);
+
+    try {
+      const response = await api.post('/api/v1/user/history/merge', { entries: validatedInput });
+      const validated = parseResponse(
+        ApiResponseSchema(z.object({ created: z.number(), updated: z.number() })),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get the whole chapter history, most recent first, for exporting
+   */
+  async exportHistory(): Promise<ChapterHistoryEntry[]> {
+    try {
+      const response = await api.get('/api/v1/user/history/export');
+      const validated = parseResponse(
+        ApiResponseSchema(z.array(ChapterHistoryEntrySchema)),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Delete chapter reading history: all of it, or only one manga and/or chapters read in
+   * [from, to). Returns how many entries were deleted.
+   */
+  async clearHistory(filter: ClearHistoryFilter = {}): Promise<number> {
+    try {
+      const response = await api.delete('/api/v1/user/history', {
+        params: {
+          mangaId: filter.mangaId,
+          from: filter.from?.toISOString(),
+          to: filter.to?.toISOString(),
+        },
+      });
+      const validated = parseResponse(
+        ApiResponseSchema(z.object({ deleted: z.number() })),
+        response.data
+      );
+      return validated.data.deleted;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get the ids of the chapters marked as read in a manga
+   */
+  async getReadMarkers(mangaId: string): Promise<string[]> {
+    try {
+      const response = await api.get(`/api/v1/user/read-markers/${encodeURIComponent(mangaId)}`);
+      const validated = parseResponse(
+        ApiResponseSchema(z.array(z.string())),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get the read chapter ids of several manga, keyed by manga id
+   */
+  async getReadMarkersByManga(mangaIds: string[]): Promise<Record<string, string[]>> {
+    try {
+      const response = await api.get('/api/v1/user/read-markers', {
+        params: { mangaIds: mangaIds.join(',') },
+      });
+      const validated = parseResponse(
+        ApiResponseSchema(z.record(z.string(), z.array(z.string()))),
+        response.data
+      );
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Mark chapters of a manga as read and/or unread
+   */
+  async updateReadMarkers(mangaId: string, batch: ReadMarkerBatch): Promise<void> {
+    const validatedInput = ReadMarkerBatchSchema.parse(batch);
+
+    try {
+      await api.post(`/api/v1/user/read-markers/${encodeURIComponent(mangaId)}`, validatedInput);
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
+
+  /**
+   * Get reading statistics; defaults to the last 30 days
+   */
+  async getStats(range: ReadingStatsRange = {}): Promise<ReadingStats> {
+    try {
+      const response = await api.get('/api/v1/user/stats', { params: ReadingStatsRangeSchema.parse(range) });
+      const validated = parseResponse(ApiResponseSchema(ReadingStatsSchema), response.data);
+      return validated.data;
+    } catch (error: unknown) {
+      throw new Error(handleAxiosError(error));
+    }
+  },
 };
 
 // ============================================================================
@@ -199,4 +656,13 @@ export const schemas = {
   UserProfile: UserProfileSchema,
   UpdateProfileData: UpdateProfileDataSchema,
   UpdatePasswordData: UpdatePasswordDataSchema,
-};
\ No newline at end of file
+  UserPreferences: UserPreferencesSchema,
+  UpdatePreferencesData: UpdatePreferencesDataSchema,
+  ReadingProgress: ReadingProgressSchema,
+  SaveReadingProgressData: SaveReadingProgressDataSchema,
+  PageBookmark: PageBookmarkSchema,
+  CreatePageBookmarkData: CreatePageBookmarkDataSchema,
+  ChapterHistoryEntry: ChapterHistoryEntrySchema,
+  RecordChapterHistoryData: RecordChapterHistoryDataSchema,
+  ReadingStats: ReadingStatsSchema,
+};
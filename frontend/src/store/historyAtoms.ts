@@ -16,20 +16,35 @@ export interface ReadingHistoryEntry {
   commentCount?: number;
 }
 
-const MAX_HISTORY = 100;
+export const MAX_HISTORY = 100;
 const RECENT_HISTORY_COUNT = 10;
 
 export const readingHistoryAtom = atomWithStorage<ReadingHistoryEntry[]>('manga-history', []);
 
+/** Incognito: while on, opened chapters are not recorded. Per device, for shared devices */
+export const historyPausedAtom = atomWithStorage<boolean>('manga-history-paused', false);
+
+/**
+ * Account this device's history was last uploaded to. The upload runs once per login, not on
+ * every app load, since chapters read while logged in are already on the server
+ */
+export const historyUploadedUserAtom = atomWithStorage<string | null>(
+  'manga-history-uploaded-user',
+  null,
+  undefined,
+  { getOnInit: true }
+);
+
 /** Derived atom: first 10 entries sorted newest-first */
 export const recentHistoryAtom = atom((get) => {
   return get(readingHistoryAtom).slice(0, RECENT_HISTORY_COUNT);
 });
 
-/** Write-only atom: prepend entry, deduplicate by chapterId, cap at MAX_HISTORY */
+/** Write-only atom: prepend entry, deduplicate by chapterId, cap at MAX_HISTORY. No-op while paused */
 export const addToHistoryAtom = atom(
   null,
   (get, set, entry: ReadingHistoryEntry) => {
+    if (get(historyPausedAtom)) return;
     const current = get(readingHistoryAtom);
     const deduped = current.filter((e) => e.chapterId !== entry.chapterId);
     const updated = [entry, ...deduped].slice(0, MAX_HISTORY);
@@ -0,0 +1,13 @@
+import { atom } from 'jotai';
+
+export interface OfflineDownloadProgress {
+  done: number;
+  total: number;
+  status: 'queued' | 'downloading' | 'complete' | 'error';
+}
+
+// Live progress reported by the service worker, keyed by chapterId
+export const offlineDownloadsAtom = atom<Record<string, OfflineDownloadProgress>>({});
+
+// Bumped whenever the IndexedDB library changes, so offline queries refetch
+export const offlineLibraryVersionAtom = atom<number>(0);
@@ -1,4 +1,7 @@
+import { atom } from 'jotai';
 import { atomWithStorage } from 'jotai/utils';
+import type { ReadingDirection } from '@/components/chapter/ReaderSettingsModal';
+import type { ShortcutOverrides } from '@/utils/shortcutUtils';
 import britainFlag from '@/assets/britain.svg';
 import vietnamFlag from '@/assets/vietnam.svg';
 import japanFlag from '@/assets/japan.svg';
@@ -39,4 +42,16 @@ function getStoredLanguages(): LanguageCode[] {
 export const chapterLanguagesAtom = atomWithStorage<LanguageCode[]>(
   'chapter-languages',
   getStoredLanguages()
-);
\ No newline at end of file
+);
+
+/** Paged reading direction chosen per manga (mangaId → direction); unset manga fall back to originalLanguage */
+export const readingDirectionsAtom = atomWithStorage<Record<string, ReadingDirection>>(
+  'reader-directions',
+  {}
+);
+
+/** Keyboard shortcuts the user rebound (action → binding); synced to the server when logged in */
+export const shortcutOverridesAtom = atomWithStorage<ShortcutOverrides>('keyboard-shortcuts', {});
+
+/** Whether the keyboard shortcut cheat sheet is open */
+export const shortcutsHelpOpenAtom = atom(false);
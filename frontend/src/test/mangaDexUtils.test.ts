@@ -0,0 +1,27 @@
+import { describe, test, expect } from 'vitest';
+import { getCoverImageVariants, mangaDexUtils } from '../utils/mangaDexUtils';
+import type { Manga } from '../types/mangadex_types';
+
+const manga = {
+  id: 'manga-1',
+  attributes: { title: { en: 'Title' } },
+  relationships: [{ id: 'cover-1', type: 'cover_art', attributes: { fileName: 'cover a.jpg' } }],
+} as unknown as Manga;
+
+describe('cover URLs', () => {
+  test('should serve every cover size through the image proxy', () => {
+    expect(getCoverImageVariants(manga)).toEqual({
+      small: '/api/v1/images/covers/manga-1/cover%20a.jpg?size=256',
+      medium: '/api/v1/images/covers/manga-1/cover%20a.jpg?size=512',
+      original: '/api/v1/images/covers/manga-1/cover%20a.jpg',
+      srcSet:
+        '/api/v1/images/covers/manga-1/cover%20a.jpg?size=256 256w, ' +
+        '/api/v1/images/covers/manga-1/cover%20a.jpg?size=512 512w, ' +
+        '/api/v1/images/covers/manga-1/cover%20a.jpg 1024w',
+    });
+  });
+
+  test('should use the 512 px proxied cover for cover art', () => {
+    expect(mangaDexUtils.getCoverArt(manga)).toBe('/api/v1/images/covers/manga-1/cover%20a.jpg?size=512');
+  });
+});
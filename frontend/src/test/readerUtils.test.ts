@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { READ_IDLE_MS, startReadingClock, tickReadingClock } from '../utils/readerUtils';
+
+describe('reading clock', () => {
+  test('should count a 30 s page dwell in full', () => {
+    // Page 1 shows at 0 s, page 2 at 30 s; the report goes out 5 s later
+    let clock = startReadingClock(0);
+    clock = tickReadingClock(clock, 30_000);
+    clock = tickReadingClock(clock, 35_000);
+
+    expect(clock.activeMs).toBe(35_000);
+  });
+
+  test('should count a long page read in full while there is input', () => {
+    let clock = startReadingClock(0);
+    for (let at = 60_000; at <= 600_000; at += 60_000) {
+      clock = tickReadingClock(clock, at);
+    }
+
+    expect(clock.activeMs).toBe(600_000);
+  });
+
+  test('should count an idle gap only up to the idle threshold', () => {
+    let clock = startReadingClock(0);
+    clock = tickReadingClock(clock, 10_000);
+    clock = tickReadingClock(clock, 10_000 + 60 * 60 * 1000);
+
+    expect(clock.activeMs).toBe(10_000 + READ_IDLE_MS);
+  });
+
+  test('should ignore a clock that went backwards', () => {
+    const clock = tickReadingClock(startReadingClock(5_000), 1_000);
+
+    expect(clock).toEqual({ activeMs: 0, lastActivityAt: 1_000 });
+  });
+});
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { schemas } from '@/services/user_service';
+import { MAX_HISTORY, type ReadingHistoryEntry } from '@/store/historyAtoms';
+
+export type HistoryExportFormat = 'json' | 'csv';
+
+const EXPORT_VERSION = 1;
+
+const CSV_COLUMNS = [
+  'readAt',
+  'mangaId',
+  'mangaTitle',
+  'chapterId',
+  'chapterNumber',
+  'chapterTitle',
+  'volume',
+  'translatedLanguage',
+  'externalUrl',
+  'coverUrl',
+  'scanlationGroups',
+] as const;
+
+// One exported entry; `timestamp` is accepted too so a raw copy of the device history imports
+const ImportedEntrySchema = schemas.RecordChapterHistoryData.extend({
+  readAt: z.string().optional(),
+  timestamp: z.number().optional(),
+});
+
+/** An exported entry: the device entry with its read time as an ISO date instead of epoch ms */
+function toExportRecord(entry: ReadingHistoryEntry) {
+  return {
+    readAt: new Date(entry.timestamp).toISOString(),
+    mangaId: entry.mangaId,
+    mangaTitle: entry.mangaTitle,
+    chapterId: entry.chapterId,
+    chapterNumber: entry.chapterNumber,
+    chapterTitle: entry.chapterTitle,
+    volume: entry.volume,
+    translatedLanguage: entry.translatedLanguage,
+    externalUrl: entry.externalUrl,
+    coverUrl: entry.coverUrl ?? null,
+    scanlationGroups: entry.scanlationGroups,
+  };
+}
+
+export function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function historyToJson(entries: ReadingHistoryEntry[]): string {
+  return JSON.stringify(
+    { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries: entries.map(toExportRecord) },
+    null,
+    2
+  );
+}
+
+/** One row per chapter; scanlation groups are kept as a JSON array in their cell */
+export function historyToCsv(entries: ReadingHistoryEntry[]): string {
+  const rows = entries.map((entry) => {
+    const record = toExportRecord(entry);
+    return CSV_COLUMNS.map((column) => {
+      const value = column === 'scanlationGroups' ? JSON.stringify(record.scanlationGroups) : record[column];
+      return escapeCsv(value ?? '');
+    }).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/** RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell !== ''));
+}
+
+function csvToRecords(text: string): unknown[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {};
+    header.forEach((column, i) => {
+      const cell = cells[i] ?? '';
+      if (column === 'scanlationGroups') {
+        try {
+          record[column] = cell ? JSON.parse(cell) : [];
+        } catch {
+          record[column] = [];
+        }
+      } else {
+        record[column] = cell === '' ? null : cell;
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * Read a history export (JSON or CSV). Entries that don't validate or lack a read time are
+ * skipped and counted rather than failing the whole file.
+ */
+export function parseHistoryFile(text: string): { entries: ReadingHistoryEntry[]; skipped: number } {
+  let records: unknown[];
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    records = Array.isArray(parsed) ? parsed : ((parsed as { entries?: unknown[] }).entries ?? []);
+  } else {
+    records = csvToRecords(text);
+  }
+
+  const entries: ReadingHistoryEntry[] = [];
+  let skipped = 0;
+  for (const record of records) {
+    const result = ImportedEntrySchema.safeParse(record);
+    const timestamp = result.success
+      ? (result.data.timestamp ?? (result.data.readAt ? Date.parse(result.data.readAt) : NaN))
+      : NaN;
+    if (!result.success || Number.isNaN(timestamp)) {
+      skipped++;
+      continue;
+    }
+    const data = result.data;
+    entries.push({
+      chapterId: data.chapterId,
+      mangaId: data.mangaId,
+      mangaTitle: data.mangaTitle,
+      chapterNumber: data.chapterNumber ?? null,
+      chapterTitle: data.chapterTitle ?? null,
+      volume: data.volume ?? null,
+      translatedLanguage: data.translatedLanguage,
+      externalUrl: data.externalUrl ?? null,
+      scanlationGroups: data.scanlationGroups ?? [],
+      coverUrl: data.coverUrl ?? null,
+      timestamp: Math.min(timestamp, Date.now()),
+    });
+  }
+  return { entries, skipped };
+}
+
+/** Combine two histories: the newest read of each chapter wins, newest first, capped at MAX_HISTORY */
+export function mergeHistoryEntries(
+  current: ReadingHistoryEntry[],
+  incoming: ReadingHistoryEntry[]
+): ReadingHistoryEntry[] {
+  const byChapter = new Map<string, ReadingHistoryEntry>();
+  for (const entry of [...current, ...incoming]) {
+    const existing = byChapter.get(entry.chapterId);
+    if (!existing || entry.timestamp > existing.timestamp) byChapter.set(entry.chapterId, entry);
+  }
+  return [...byChapter.values()].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_HISTORY);
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,166 @@
+import type { ImageFilters } from '@/components/chapter/ReaderSettingsModal';
+
+/** Id of the SVG convolution filter rendered once by the reader; see SharpenFilterDefs */
+export const SHARPEN_FILTER_ID = 'reader-sharpen';
+
+/** CSS `filter` value for the adjustments that run on the GPU; undefined when all are off */
+export function buildImageFilter(filters: ImageFilters): string | undefined {
+  const parts: string[] = [];
+  if (filters.brightness !== 100) parts.push(`brightness(${filters.brightness}%)`);
+  if (filters.contrast !== 100) parts.push(`contrast(${filters.contrast}%)`);
+  if (filters.grayscale) parts.push('grayscale(1)');
+  // Rotating the hue back keeps coloured pages recognisable while white paper turns black
+  if (filters.invert) parts.push('invert(1) hue-rotate(180deg)');
+  if (filters.sharpen) parts.push(`url(#${SHARPEN_FILTER_ID})`);
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+export interface ContentBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Border detection runs on a downscaled copy; this is plenty to find solid margins
+const ANALYSIS_SIZE = 400;
+// Channel distance from pure white/black that still counts as border (JPEG noise, paper tint)
+const BORDER_TOLERANCE = 28;
+// Share of a row or column allowed to be off-colour, so page numbers and specks don't stop the scan
+const NOISE_RATIO = 0.01;
+// Trims thinner than this are not worth re-encoding the page for
+const MIN_TRIM_RATIO = 0.01;
+// Pages that would lose more than this are mostly blank on purpose and are left alone
+const MAX_TRIM_RATIO = 0.4;
+
+type BorderColor = 'white' | 'black';
+
+function isBorderPixel(data: Uint8ClampedArray, offset: number, color: BorderColor): boolean {
+  const r = data[offset];
+  const g = data[offset + 1];
+  const b = data[offset + 2];
+  return color === 'white'
+    ? r >= 255 - BORDER_TOLERANCE && g >= 255 - BORDER_TOLERANCE && b >= 255 - BORDER_TOLERANCE
+    : r <= BORDER_TOLERANCE && g <= BORDER_TOLERANCE && b <= BORDER_TOLERANCE;
+}
+
+/**
+ * Find the page content inside solid white or black margins. The margin colour is taken from
+ * the corners; pages whose corners disagree, or whose margins are negligible, return null.
+ */
+export function detectContentBox(image: CanvasImageSource, naturalWidth: number, naturalHeight: number): ContentBox | null {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map((index) => index * 4);
+  const color: BorderColor | null = corners.every((offset) => isBorderPixel(data, offset, 'white'))
+    ? 'white'
+    : corners.every((offset) => isBorderPixel(data, offset, 'black'))
+      ? 'black'
+      : null;
+  if (!color) return null;
+
+  const isBorderRow = (y: number) => {
+    let misses = 0;
+    for (let x = 0; x < width; x++) {
+      if (!isBorderPixel(data, (y * width + x) * 4, color) && ++misses > width * NOISE_RATIO) return false;
+    }
+    return true;
+  };
+  const isBorderColumn = (x: number, top: number, bottom: number) => {
+    let misses = 0;
+    const rows = bottom - top + 1;
+    for (let y = top; y <= bottom; y++) {
+      if (!isBorderPixel(data, (y * width + x) * 4, color) && ++misses > rows * NOISE_RATIO) return false;
+    }
+    return true;
+  };
+
+  let top = 0;
+  while (top < height - 1 && isBorderRow(top)) top++;
+  let bottom = height - 1;
+  while (bottom > top && isBorderRow(bottom)) bottom--;
+  let left = 0;
+  while (left < width - 1 && isBorderColumn(left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > left && isBorderColumn(right, top, bottom)) right--;
+
+  const keptWidth = right - left + 1;
+  const keptHeight = bottom - top + 1;
+  const trimmedX = 1 - keptWidth / width;
+  const trimmedY = 1 - keptHeight / height;
+  if (trimmedX < MIN_TRIM_RATIO && trimmedY < MIN_TRIM_RATIO) return null;
+  if (trimmedX > MAX_TRIM_RATIO || trimmedY > MAX_TRIM_RATIO) return null;
+
+  // Map back to full resolution, keeping a one-sample margin so antialiased edges survive
+  return {
+    x: Math.max(0, Math.floor((left - 1) / scale)),
+    y: Math.max(0, Math.floor((top - 1) / scale)),
+    width: Math.min(naturalWidth, Math.ceil((keptWidth + 2) / scale)),
+    height: Math.min(naturalHeight, Math.ceil((keptHeight + 2) / scale)),
+  };
+}
+
+function loadCorsImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Canvas pixels can only be read from images served with CORS headers
+    image.crossOrigin = 'anonymous';
+    image.referrerPolicy = 'no-referrer';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${src}`));
+    image.src = src;
+  });
+}
+
+async function cropPage(src: string): Promise<string | null> {
+  const image = await loadCorsImage(src);
+  const box = detectContentBox(image, image.naturalWidth, image.naturalHeight);
+  if (!box) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = box.width;
+  canvas.height = box.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(image, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/webp', 0.95));
+  return blob ? URL.createObjectURL(blob) : null;
+}
+
+// Enough for a long chapter plus its neighbours; older object URLs are released
+const CROP_CACHE_SIZE = 120;
+const cropCache = new Map<string, Promise<string | null>>();
+
+/**
+ * Object URL of the page with its margins cut off, or null when it has none (or cannot be read,
+ * e.g. a host without CORS headers). Results are cached so paged modes don't re-crop on every turn.
+ */
+export function getCroppedPageUrl(src: string): Promise<string | null> {
+  const cached = cropCache.get(src);
+  if (cached) {
+    // Re-insert to mark it as recently used
+    cropCache.delete(src);
+    cropCache.set(src, cached);
+    return cached;
+  }
+
+  const result = cropPage(src).catch(() => null);
+  cropCache.set(src, result);
+  if (cropCache.size > CROP_CACHE_SIZE) {
+    const [oldestSrc, oldest] = cropCache.entries().next().value!;
+    cropCache.delete(oldestSrc);
+    oldest.then((url) => url && URL.revokeObjectURL(url));
+  }
+  return result;
+}
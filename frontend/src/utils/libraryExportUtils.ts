@@ -0,0 +1,109 @@
+import type { ExportedFollow, ReadingStatus } from '@/services/follow_service';
+import { escapeCsv } from '@/utils/historyUtils';
+
+export type LibraryExportFormat = 'json' | 'csv' | 'mal';
+
+const EXPORT_VERSION = 1;
+
+const CSV_COLUMNS = [
+  'source',
+  'mangaId',
+  'title',
+  'status',
+  'followedAt',
+  'malId',
+  'anilistId',
+  'lastReadChapter',
+  'startedReadingAt',
+  'lastReadAt',
+] as const;
+
+const MAL_STATUSES: Record<ReadingStatus, string> = {
+  READING: 'Reading',
+  COMPLETED: 'Completed',
+  ON_HOLD: 'On-Hold',
+  DROPPED: 'Dropped',
+  PLAN_TO_READ: 'Plan to Read',
+};
+
+// MAL's own name for each status total in <myinfo>
+const MAL_TOTALS: Record<ReadingStatus, string> = {
+  READING: 'user_total_reading',
+  COMPLETED: 'user_total_completed',
+  ON_HOLD: 'user_total_onhold',
+  DROPPED: 'user_total_dropped',
+  PLAN_TO_READ: 'user_total_plantoread',
+};
+
+export function libraryToJson(follows: ExportedFollow[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), follows }, null, 2);
+}
+
+export function libraryToCsv(follows: ExportedFollow[]): string {
+  const rows = follows.map((follow) =>
+    CSV_COLUMNS.map((column) => escapeCsv(follow[column] === null ? '' : String(follow[column]))).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/** MAL writes unknown dates as 0000-00-00 */
+function malDate(value: string | null): string {
+  return value ? value.slice(0, 10) : '0000-00-00';
+}
+
+/**
+ * MyAnimeList import file. MAL matches entries by its own id only, so manga without a MAL
+ * link are left out; `omitted` says how many.
+ */
+export function libraryToMalXml(follows: ExportedFollow[]): { xml: string; omitted: number } {
+  const exported = follows.filter((follow) => follow.malId);
+
+  const totals = Object.entries(MAL_TOTALS).map(([status, tag]) => {
+    const count = exported.filter((follow) => follow.status === status).length;
+    return `\t\t<${tag}>${count}</${tag}>`;
+  });
+
+  const entries = exported.map((follow) => {
+    const chaptersRead = follow.lastReadChapter !== null ? Math.floor(follow.lastReadChapter) : 0;
+    const finished = follow.status === 'COMPLETED' ? follow.lastReadAt : null;
+    return [
+      '\t<manga>',
+      `\t\t<manga_mangadb_id>${follow.malId}</manga_mangadb_id>`,
+      `\t\t<manga_title>${cdata(follow.title ?? '')}</manga_title>`,
+      '\t\t<manga_volumes>0</manga_volumes>',
+      '\t\t<manga_chapters>0</manga_chapters>',
+      '\t\t<my_id>0</my_id>',
+      '\t\t<my_read_volumes>0</my_read_volumes>',
+      `\t\t<my_read_chapters>${chaptersRead}</my_read_chapters>`,
+      `\t\t<my_start_date>${malDate(follow.startedReadingAt)}</my_start_date>`,
+      `\t\t<my_finish_date>${malDate(finished)}</my_finish_date>`,
+      '\t\t<my_score>0</my_score>',
+      `\t\t<my_status>${MAL_STATUSES[follow.status]}</my_status>`,
+      `\t\t<my_comments>${cdata('')}</my_comments>`,
+      '\t\t<my_times_read>0</my_times_read>',
+      `\t\t<my_tags>${cdata('')}</my_tags>`,
+      '\t\t<my_rereading>NO</my_rereading>',
+      '\t\t<update_on_import>1</update_on_import>',
+      '\t</manga>',
+    ].join('\n');
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    '<myanimelist>',
+    '\t<myinfo>',
+    '\t\t<user_export_type>2</user_export_type>',
+    `\t\t<user_total_manga>${exported.length}</user_total_manga>`,
+    ...totals,
+    '\t</myinfo>',
+    ...entries,
+    '</myanimelist>',
+    '',
+  ].join('\n');
+
+  return { xml, omitted: follows.length - exported.length };
+}
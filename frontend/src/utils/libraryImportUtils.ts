@@ -0,0 +1,119 @@
+import type { ImportEntry, ImportSource, ReadingStatus } from '@/services/follow_service';
+
+/** Entries the server accepts in one import */
+export const MAX_IMPORT_ENTRIES = 2000;
+
+// MAL exports write the status as text; older exports use its numeric code
+const MAL_STATUSES: Record<string, ReadingStatus> = {
+  reading: 'READING',
+  completed: 'COMPLETED',
+  'on-hold': 'ON_HOLD',
+  dropped: 'DROPPED',
+  'plan to read': 'PLAN_TO_READ',
+  '1': 'READING',
+  '2': 'COMPLETED',
+  '3': 'ON_HOLD',
+  '4': 'DROPPED',
+  '6': 'PLAN_TO_READ',
+};
+
+const ANILIST_STATUSES: Record<string, ReadingStatus> = {
+  CURRENT: 'READING',
+  REPEATING: 'READING',
+  PLANNING: 'PLAN_TO_READ',
+  COMPLETED: 'COMPLETED',
+  PAUSED: 'ON_HOLD',
+  DROPPED: 'DROPPED',
+};
+
+export interface ParsedLibrary {
+  source: ImportSource;
+  entries: ImportEntry[];
+  /** Entries without a title, or anime in an AniList export */
+  skipped: number;
+}
+
+function uniqueTitles(titles: (string | null | undefined)[]): string[] {
+  return [...new Set(titles.map((title) => title?.trim()).filter((title): title is string => !!title))];
+}
+
+/** MyAnimeList "Export My List" file: <myanimelist><manga>…</manga></myanimelist> */
+function parseMalXml(text: string): ParsedLibrary {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror') || !doc.querySelector('myanimelist')) {
+    throw new Error('Not a MyAnimeList export');
+  }
+
+  const entries: ImportEntry[] = [];
+  let skipped = 0;
+  for (const node of Array.from(doc.querySelectorAll('myanimelist > manga'))) {
+    const field = (name: string) => node.querySelector(name)?.textContent?.trim() ?? '';
+    const title = field('manga_title');
+    const malId = field('manga_mangadb_id');
+    if (!title) {
+      skipped++;
+      continue;
+    }
+    entries.push({
+      title,
+      malId: /^\d+$/.test(malId) ? malId : undefined,
+      status: MAL_STATUSES[field('my_status').toLowerCase()] ?? 'READING',
+    });
+  }
+  return { source: 'MAL', entries, skipped };
+}
+
+interface AniListEntry {
+  status?: string;
+  media?: {
+    id?: number;
+    idMal?: number | null;
+    type?: string;
+    title?: { english?: string | null; romaji?: string | null; native?: string | null };
+    synonyms?: string[];
+  };
+}
+
+/**
+ * AniList list export, in the shape of its MediaListCollection query:
+ * { lists: [{ entries: [{ status, media: { id, idMal, title, synonyms } }] }] }, optionally
+ * wrapped in `data.MediaListCollection`.
+ */
+function parseAniListJson(text: string): ParsedLibrary {
+  const json = JSON.parse(text);
+  const collection = json?.data?.MediaListCollection ?? json?.MediaListCollection ?? json;
+  if (!Array.isArray(collection?.lists)) {
+    throw new Error('Not an AniList export');
+  }
+
+  const entries: ImportEntry[] = [];
+  let skipped = 0;
+  for (const list of collection.lists as { entries?: AniListEntry[] }[]) {
+    for (const { status, media } of list.entries ?? []) {
+      const titles = uniqueTitles([
+        media?.title?.english,
+        media?.title?.romaji,
+        media?.title?.native,
+        ...(media?.synonyms ?? []),
+      ]);
+      if (!media || titles.length === 0 || (media.type && media.type !== 'MANGA')) {
+        skipped++;
+        continue;
+      }
+      entries.push({
+        title: titles[0],
+        altTitles: titles.slice(1, 20),
+        anilistId: media.id ? String(media.id) : undefined,
+        malId: media.idMal ? String(media.idMal) : undefined,
+        status: ANILIST_STATUSES[status ?? ''] ?? 'READING',
+      });
+    }
+  }
+  return { source: 'ANILIST', entries, skipped };
+}
+
+/** Read a MyAnimeList XML or AniList JSON export; throws when the file is neither */
+export function parseLibraryFile(text: string): ParsedLibrary {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith('<') ? parseMalXml(trimmed) : parseAniListJson(trimmed);
+}
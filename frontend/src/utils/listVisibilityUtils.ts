@@ -0,0 +1,15 @@
+import { msg } from '@lingui/core/macro';
+import type { MessageDescriptor } from '@lingui/core';
+import type { ListVisibility } from '@/services/list_service';
+
+export const LIST_VISIBILITY_LABELS: Record<ListVisibility, MessageDescriptor> = {
+  PRIVATE: msg`Private`,
+  UNLISTED: msg`Unlisted`,
+  PUBLIC: msg`Public`,
+};
+
+export const LIST_VISIBILITY_DESCRIPTIONS: Record<ListVisibility, MessageDescriptor> = {
+  PRIVATE: msg`Only you can see this list.`,
+  UNLISTED: msg`Anyone with the link can see this list.`,
+  PUBLIC: msg`Anyone can see this list, and it is shown in community lists.`,
+};
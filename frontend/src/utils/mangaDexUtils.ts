@@ -37,16 +37,27 @@ export const mangaDexUtils = {
   // Get cover art URL from relationships
   getCoverArt: (manga: Manga): string | null => {
     if (manga.attributes.coverPublicId) {
-      return `https://res.cloudinary.com/${import.meta.env.VITE_CLOUDINARY_CLOUD_NAME}/image/upload/${manga.attributes.coverPublicId}`;
+      return mangaDexUtils.getLocalCoverUrl(manga.id, 512);
     }
     const coverArt = manga.relationships.find(rel => rel.type === 'cover_art');
     if (coverArt?.attributes?.fileName) {
       const fileName = coverArt.attributes.fileName as string;
-      return `https://uploads.mangadex.org/covers/${manga.id}/${fileName}.512.jpg`;
+      return mangaDexUtils.getCoverProxyUrl(manga.id, fileName, 512);
     }
     return null;
   },
 
+  // MangaDex cover through the backend image proxy, resized when a size is given
+  getCoverProxyUrl: (mangaId: string, fileName: string, size?: 256 | 512): string => {
+    const url = `/api/v1/images/covers/${mangaId}/${encodeURIComponent(fileName)}`;
+    return size ? `${url}?size=${size}` : url;
+  },
+
+  // Submitted manga cover, resized by the backend image proxy
+  getLocalCoverUrl: (mangaId: string, size: 256 | 512 = 256): string => {
+    return `/api/v1/images/covers/local/${mangaId}?size=${size}`;
+  },
+
   // Get authors from relationships
   getAuthors: (manga: Manga): Array<{ id: string; name: string }> => {
     return manga.relationships
@@ -79,6 +90,12 @@ export const mangaDexUtils = {
     return null;
   },
 
+  // Default paged reading direction: Japanese manga reads right-to-left,
+  // everything else (manhwa, manhua, comics) left-to-right
+  getDefaultReadingDirection: (originalLanguage?: string | null): 'rtl' | 'ltr' => {
+    return originalLanguage === 'ja' || originalLanguage === 'ja-ro' ? 'rtl' : 'ltr';
+  },
+
   // Format chapter number for display
   formatChapterNumber: (chapter: Chapter): string => {
     const vol = chapter.attributes.volume;
@@ -340,14 +357,14 @@ export function getCoverImageVariants(manga: Manga): CoverImageVariants | null {
     return null;
   }
   const { fileName } = coverRelation.attributes as { fileName: string };
-  const basePath = `https://uploads.mangadex.org/covers/${manga.id}/${fileName}`;
-  const small = `${basePath}.256.jpg`;
-  const medium = `${basePath}.512.jpg`;
+  const original = mangaDexUtils.getCoverProxyUrl(manga.id, fileName);
+  const small = mangaDexUtils.getCoverProxyUrl(manga.id, fileName, 256);
+  const medium = mangaDexUtils.getCoverProxyUrl(manga.id, fileName, 512);
   return {
     small,
     medium,
-    original: basePath,
-    srcSet: `${small} 256w, ${medium} 512w, ${basePath} 1024w`,
+    original,
+    srcSet: `${small} 256w, ${medium} 512w, ${original} 1024w`,
   };
 }
 
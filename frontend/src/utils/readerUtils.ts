@@ -0,0 +1,198 @@
+import type { CSSProperties } from 'react';
+import type { FitMode, ImageFilters, ReaderSettings, ReadingMode } from '@/components/chapter/ReaderSettingsModal';
+import type { UserPreferences, UpdatePreferencesData } from '@/services/user_service';
+
+export const DEFAULT_IMAGE_FILTERS: ImageFilters = {
+  brightness: 100,
+  contrast: 100,
+  grayscale: false,
+  invert: false,
+  sharpen: false,
+  autoCrop: false,
+};
+
+export const MIN_AUTO_SCROLL_SPEED = 20;
+export const MAX_AUTO_SCROLL_SPEED = 400;
+export const AUTO_SCROLL_SPEED_STEP = 20;
+
+export const MIN_FILTER_PERCENT = 50;
+export const MAX_FILTER_PERCENT = 150;
+
+/** Stored settings predate newer fields, so readers merge them over these defaults */
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  readingMode: 'scroll-vertical',
+  imageGap: 4,
+  fitMode: 'auto',
+  customZoom: 100,
+  showHeader: false,
+  doublePageShift: false,
+  dataSaver: false,
+  imageFilters: DEFAULT_IMAGE_FILTERS,
+  autoScrollSpeed: 80,
+};
+
+export const MIN_CUSTOM_ZOOM = 25;
+export const MAX_CUSTOM_ZOOM = 400;
+
+/** Settings as kept in localStorage, which may predate newer fields or still hold retired ones */
+export type StoredReaderSettings = Partial<Omit<ReaderSettings, 'imageFilters'>> & {
+  imageFilters?: Partial<ImageFilters>;
+  imageOrientation?: 'vertical' | 'horizontal';
+};
+
+export function readerSettingsFromStorage(stored: StoredReaderSettings): ReaderSettings {
+  const { imageOrientation, ...settings } = stored;
+  // Fit modes replaced the old orientation toggle, whose "horizontal" sized pages to the screen height
+  const fitMode = settings.fitMode ?? (imageOrientation === 'horizontal' ? 'height' : undefined);
+  return {
+    ...DEFAULT_READER_SETTINGS,
+    ...settings,
+    ...(fitMode && { fitMode }),
+    imageFilters: { ...DEFAULT_IMAGE_FILTERS, ...settings.imageFilters },
+  };
+}
+
+// Reader modes ↔ UserPreferences.readingMode values stored by the backend
+const READING_MODE_TO_SERVER: Record<ReadingMode, UserPreferences['readingMode']> = {
+  'scroll-vertical': 'webtoon',
+  'scroll-horizontal': 'horizontal',
+  'single-page': 'single_page',
+  'double-page': 'double_page',
+};
+
+const READING_MODE_FROM_SERVER: Record<UserPreferences['readingMode'], ReadingMode> = {
+  webtoon: 'scroll-vertical',
+  horizontal: 'scroll-horizontal',
+  single_page: 'single-page',
+  double_page: 'double-page',
+};
+
+/** Settings kept in the user's server-side preferences; image filters and auto-scroll stay on the device */
+export type SyncedReaderSettings = Omit<ReaderSettings, 'imageFilters' | 'autoScrollSpeed'>;
+
+export function readerSettingsFromPreferences(preferences: UserPreferences): SyncedReaderSettings {
+  return {
+    readingMode: READING_MODE_FROM_SERVER[preferences.readingMode],
+    imageGap: preferences.imageGap,
+    fitMode: preferences.fitMode,
+    customZoom: preferences.customZoom,
+    showHeader: preferences.showHeader,
+    doublePageShift: preferences.doublePageShift,
+    dataSaver: preferences.dataSaver,
+  };
+}
+
+export function readerSettingsToPreferences(settings: SyncedReaderSettings): UpdatePreferencesData {
+  return {
+    readingMode: READING_MODE_TO_SERVER[settings.readingMode],
+    imageGap: settings.imageGap,
+    fitMode: settings.fitMode,
+    customZoom: settings.customZoom,
+    showHeader: settings.showHeader,
+    doublePageShift: settings.doublePageShift,
+    dataSaver: settings.dataSaver,
+  };
+}
+
+/** MangaDex at-home image folders: original files and compressed "data-saver" copies */
+export type ImageQuality = 'data' | 'data-saver';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:5000';
+
+export function buildPageUrl(baseUrl: string, quality: ImageQuality, hash: string, filename: string): string {
+  return `${baseUrl}/${quality}/${hash}/${filename}`;
+}
+
+/**
+ * Page URL on the backend image proxy, used once at-home nodes have failed for a page.
+ * The proxy caches pages and falls back to the main MangaDex origin itself.
+ */
+export function buildProxyPageUrl(chapterId: string, quality: ImageQuality, hash: string, filename: string): string {
+  return `${BACKEND_URL}/api/v1/images/chapters/${chapterId}/${quality}/${hash}/${filename}`;
+}
+
+export interface PageFit {
+  className: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Image sizing for a fit mode. 'strip' is the scroll-vertical column; 'screen' is a full-height
+ * page slot in the paged modes. Callers centre the image themselves.
+ */
+export function getPageFit(fitMode: FitMode, customZoom: number, layout: 'strip' | 'screen'): PageFit {
+  switch (fitMode) {
+    case 'width':
+      return { className: 'w-full h-auto max-w-none' };
+    case 'height':
+      return { className: `${layout === 'strip' ? 'h-screen' : 'h-full'} w-auto max-w-none` };
+    case 'original':
+      return { className: 'w-auto h-auto max-w-none' };
+    case 'custom':
+      return { className: 'h-auto max-w-none', style: { width: `${customZoom}%` } };
+    default:
+      return { className: layout === 'strip' ? 'w-full h-auto' : 'max-h-full max-w-full object-contain' };
+  }
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** A page wider than it is tall is already a two-page spread and must be shown alone */
+export function isWidePage(size: PageSize | undefined): boolean {
+  return !!size && size.width > size.height;
+}
+
+/**
+ * Group page indices into double-page spreads.
+ * - Wide pages always stand alone.
+ * - `shift` shows the first page alone, fixing volumes whose cover pushes every pair off by one.
+ * - Pages whose size is not known yet are treated as portrait.
+ */
+export function buildPageSpreads(
+  pageCount: number,
+  pageSizes: Record<number, PageSize>,
+  shift: boolean
+): number[][] {
+  const spreads: number[][] = [];
+  let i = 0;
+
+  if (shift && pageCount > 0) {
+    spreads.push([0]);
+    i = 1;
+  }
+
+  while (i < pageCount) {
+    const next = i + 1;
+    if (isWidePage(pageSizes[i]) || next >= pageCount || isWidePage(pageSizes[next])) {
+      spreads.push([i]);
+      i += 1;
+    } else {
+      spreads.push([i, next]);
+      i += 2;
+    }
+  }
+
+  return spreads;
+}
+
+/** A gap this long without input or a page change is counted as this long: the reader walked away */
+export const READ_IDLE_MS = 2 * 60 * 1000;
+
+/** Reading time collected since the last progress report */
+export interface ReadingClock {
+  activeMs: number;
+  lastActivityAt: number;
+}
+
+export function startReadingClock(now: number): ReadingClock {
+  return { activeMs: 0, lastActivityAt: now };
+}
+
+/** Credit the time since the last activity, up to READ_IDLE_MS, and restart the idle window at `now` */
+export function tickReadingClock(clock: ReadingClock, now: number): ReadingClock {
+  const elapsed = Math.max(0, now - clock.lastActivityAt);
+  return { activeMs: clock.activeMs + Math.min(elapsed, READ_IDLE_MS), lastActivityAt: now };
+}
@@ -0,0 +1,12 @@
+import { msg } from '@lingui/core/macro';
+import type { MessageDescriptor } from '@lingui/core';
+import type { ReadingStatus } from '@/services/follow_service';
+
+/** Shelf names, in shelf order */
+export const READING_STATUS_LABELS: Record<ReadingStatus, MessageDescriptor> = {
+  READING: msg`Reading`,
+  PLAN_TO_READ: msg`Plan to Read`,
+  COMPLETED: msg`Completed`,
+  ON_HOLD: msg`On Hold`,
+  DROPPED: msg`Dropped`,
+};
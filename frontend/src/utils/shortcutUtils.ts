@@ -0,0 +1,169 @@
+import { t } from '@lingui/core/macro';
+import type { KeyCombination } from '@/hooks/useKeyDown';
+
+export type ShortcutAction =
+  | 'nextPage'
+  | 'previousPage'
+  | 'nextChapter'
+  | 'previousChapter'
+  | 'toggleSettings'
+  | 'toggleComments'
+  | 'goToManga'
+  | 'bookmarkPage'
+  | 'toggleAutoScroll'
+  | 'autoScrollFaster'
+  | 'autoScrollSlower'
+  | 'toggleFullscreen'
+  | 'showShortcuts';
+
+/** 'reader' shortcuts only work on the chapter page; 'global' ones work everywhere */
+export type ShortcutScope = 'reader' | 'global';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  scope: ShortcutScope;
+  defaultBinding: string;
+}
+
+/**
+ * Bindings are `event.key` values with "Ctrl+", "Alt+", "Meta+" and "Shift+" prefixes.
+ * Shift is left out for single characters, whose key already reflects it ("?", "A").
+ */
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'nextPage', scope: 'reader', defaultBinding: 'ArrowRight' },
+  { action: 'previousPage', scope: 'reader', defaultBinding: 'ArrowLeft' },
+  { action: 'nextChapter', scope: 'reader', defaultBinding: ']' },
+  { action: 'previousChapter', scope: 'reader', defaultBinding: '[' },
+  { action: 'toggleSettings', scope: 'reader', defaultBinding: 's' },
+  { action: 'toggleComments', scope: 'reader', defaultBinding: 'c' },
+  { action: 'goToManga', scope: 'reader', defaultBinding: 'm' },
+  { action: 'bookmarkPage', scope: 'reader', defaultBinding: 'b' },
+  { action: 'toggleAutoScroll', scope: 'reader', defaultBinding: 'a' },
+  { action: 'autoScrollFaster', scope: 'reader', defaultBinding: '+' },
+  { action: 'autoScrollSlower', scope: 'reader', defaultBinding: '-' },
+  { action: 'toggleFullscreen', scope: 'global', defaultBinding: 'f' },
+  { action: 'showShortcuts', scope: 'global', defaultBinding: '?' },
+];
+
+/** The user's changes to the defaults; null unbinds an action */
+export type ShortcutOverrides = Partial<Record<ShortcutAction, string | null>>;
+
+export type ShortcutBindings = Record<ShortcutAction, string | null>;
+
+export function resolveShortcutBindings(overrides: ShortcutOverrides): ShortcutBindings {
+  const bindings = {} as ShortcutBindings;
+  for (const { action, defaultBinding } of SHORTCUT_DEFINITIONS) {
+    bindings[action] = overrides[action] === undefined ? defaultBinding : overrides[action];
+  }
+  return bindings;
+}
+
+/**
+ * Assign a binding to an action. A key triggers a single action, so any other action holding
+ * it is unbound. Only differences from the defaults are kept.
+ */
+export function rebindShortcut(
+  overrides: ShortcutOverrides,
+  action: ShortcutAction,
+  binding: string | null
+): ShortcutOverrides {
+  const bindings = resolveShortcutBindings(overrides);
+  if (binding) {
+    for (const other of SHORTCUT_DEFINITIONS) {
+      if (other.action !== action && bindings[other.action] === binding) bindings[other.action] = null;
+    }
+  }
+  bindings[action] = binding;
+
+  const next: ShortcutOverrides = {};
+  for (const { action: key, defaultBinding } of SHORTCUT_DEFINITIONS) {
+    if (bindings[key] !== defaultBinding) next[key] = bindings[key];
+  }
+  return next;
+}
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock']);
+
+/** Binding string for a key press, or null for a bare modifier */
+export function bindingFromEvent(event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.metaKey) parts.push('Meta');
+  if (event.shiftKey && event.key.length > 1) parts.push('Shift');
+  parts.push(event.key);
+  return parts.join('+');
+}
+
+export function bindingToKeyCombination(binding: string): KeyCombination {
+  // "+" itself is a valid key, so split off modifiers from the front only
+  const parts = binding.split('+');
+  const modifiers = new Set<string>();
+  while (parts.length > 1 && ['Ctrl', 'Alt', 'Meta', 'Shift'].includes(parts[0])) {
+    modifiers.add(parts.shift()!);
+  }
+  const key = parts.join('+');
+  return {
+    key,
+    ctrlKey: modifiers.has('Ctrl'),
+    altKey: modifiers.has('Alt'),
+    metaKey: modifiers.has('Meta'),
+    shiftKey: key.length > 1 ? modifiers.has('Shift') : undefined,
+  };
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ' ': 'Space',
+  Escape: 'Esc',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+};
+
+/** Key caps for display: "Ctrl+ArrowRight" → ["Ctrl", "→"] */
+export function formatBinding(binding: string): string[] {
+  const { key = '', ctrlKey, altKey, metaKey, shiftKey } = bindingToKeyCombination(binding);
+  const isShiftedLetter = key.length === 1 && key !== key.toLowerCase();
+  return [
+    ...(ctrlKey ? ['Ctrl'] : []),
+    ...(altKey ? ['Alt'] : []),
+    ...(metaKey ? ['⌘'] : []),
+    ...(shiftKey || isShiftedLetter ? ['Shift'] : []),
+    KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key),
+  ];
+}
+
+export function getShortcutLabel(action: ShortcutAction): string {
+  switch (action) {
+    case 'nextPage':
+      return t`Next page`;
+    case 'previousPage':
+      return t`Previous page`;
+    case 'nextChapter':
+      return t`Next chapter`;
+    case 'previousChapter':
+      return t`Previous chapter`;
+    case 'toggleSettings':
+      return t`Reader settings`;
+    case 'toggleComments':
+      return t`Jump to comments`;
+    case 'goToManga':
+      return t`Go to manga page`;
+    case 'bookmarkPage':
+      return t`Bookmark page`;
+    case 'toggleAutoScroll':
+      return t`Start or stop auto-scroll`;
+    case 'autoScrollFaster':
+      return t`Auto-scroll faster`;
+    case 'autoScrollSlower':
+      return t`Auto-scroll slower`;
+    case 'toggleFullscreen':
+      return t`Toggle fullscreen`;
+    case 'showShortcuts':
+      return t`Show keyboard shortcuts`;
+  }
+}